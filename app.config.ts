@@ -56,7 +56,8 @@ const config: ExpoConfig = {
     "infoPlist": {
         "ITSAppUsesNonExemptEncryption": false,
         "NSLocationWhenInUseUsageDescription": "주행 중 속도와 거리를 측정하기 위해 위치 정보가 필요합니다.",
-        "NSLocationAlwaysAndWhenInUseUsageDescription": "백그라운드에서도 주행 기록을 위해 위치 정보가 필요합니다."
+        "NSLocationAlwaysAndWhenInUseUsageDescription": "백그라운드에서도 주행 기록을 위해 위치 정보가 필요합니다.",
+        "NSMotionUsageDescription": "주행 중 넘어짐과 충돌을 감지하기 위해 동작 센서가 필요합니다."
       }
   },
   android: {
@@ -31,9 +31,10 @@ const getPostTypeLabels = (t: (key: string) => string): Record<string, { label:
   ride_share: { label: t("community.categories.rideShare"), color: "#3B82F6", icon: "route" },
   question: { label: t("community.categories.question"), color: "#F59E0B", icon: "help-outline" },
   tip: { label: t("community.categories.tip"), color: "#10B981", icon: "lightbulb-outline" },
+  group_ride: { label: t("community.categories.groupRide"), color: "#22C55E", icon: "groups" },
 });
 
-type PostType = "all" | "general" | "ride_share" | "question" | "tip";
+type PostType = "all" | "general" | "ride_share" | "question" | "tip" | "group_ride";
 
 const getCategoryTabs = (t: (key: string) => string): { key: PostType; label: string; icon: string }[] => [
   { key: "all", label: t("community.categories.all"), icon: "apps" },
@@ -41,6 +42,7 @@ const getCategoryTabs = (t: (key: string) => string): { key: PostType; label: st
   { key: "ride_share", label: t("community.categories.rideShare"), icon: "route" },
   { key: "question", label: t("community.categories.question"), icon: "help-outline" },
   { key: "tip", label: t("community.categories.tip"), icon: "lightbulb-outline" },
+  { key: "group_ride", label: t("community.categories.groupRide"), icon: "groups" },
 ];
 
 export default function CommunityScreen() {
@@ -318,6 +320,22 @@ export default function CommunityScreen() {
           </TouchableOpacity>
         )}
 
+        {/* Group Ride Replay */}
+        {item.canReplayGroupRide && (
+          <TouchableOpacity
+            onPress={() => router.push(`/group-ride?groupId=${item.groupId}` as any)}
+            activeOpacity={0.7}
+            className="flex-row items-center mx-4 mt-1 px-3 py-2.5 rounded-xl"
+            style={{ backgroundColor: typeInfo.color + "15" }}
+          >
+            <MaterialIcons name="replay" size={18} color={typeInfo.color} />
+            <Text style={{ color: typeInfo.color }} className="font-medium ml-2 flex-1">
+              {t("community.groupRideReplay")}
+            </Text>
+            <MaterialIcons name="chevron-right" size={18} color={typeInfo.color} />
+          </TouchableOpacity>
+        )}
+
         {/* Action Buttons - Instagram Style */}
         <View className="flex-row items-center px-4 py-3">
           <TouchableOpacity
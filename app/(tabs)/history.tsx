@@ -15,6 +15,7 @@ import { useRouter } from "expo-router";
 
 import { ScreenContainer } from "@/components/screen-container";
 import { useColors } from "@/hooks/use-colors";
+import { usePrivacyZones } from "@/hooks/use-privacy-zones";
 import {
   getRidingRecords,
   getRidingRecordWithGps,
@@ -24,7 +25,8 @@ import {
   type RidingRecord,
 } from "@/lib/riding-store";
 import { trpc } from "@/lib/trpc";
-import { saveAndShareGpx, TrackData } from "@/lib/gps-utils";
+import { saveAndShareTrack, TrackFileFormat } from "@/lib/gps-utils";
+import { buildTrackData } from "@/lib/ride-formats";
 import { useFocusEffect } from "expo-router";
 import { useTranslation } from "@/hooks/use-translation";
 
@@ -32,6 +34,7 @@ export default function HistoryScreen() {
   const colors = useColors();
   const router = useRouter();
   const { t } = useTranslation();
+  const { circles: privacyZones } = usePrivacyZones();
   const [records, setRecords] = useState<RidingRecord[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [exportingId, setExportingId] = useState<string | null>(null);
@@ -73,7 +76,7 @@ export default function HistoryScreen() {
     ]);
   };
 
-  const handleExportGpx = async (record: RidingRecord) => {
+  const handleExportTrack = async (record: RidingRecord, format: TrackFileFormat) => {
     if (Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
@@ -92,17 +95,12 @@ export default function HistoryScreen() {
         return;
       }
 
-      const trackData: TrackData = {
-        points: fullRecord.gpsPoints,
-        startTime: new Date(fullRecord.startTime),
-        endTime: new Date(fullRecord.endTime),
-        name: `SCOOP 주행 - ${fullRecord.date}`,
-      };
+      const trackData = buildTrackData(fullRecord, `SCOOP 주행 - ${fullRecord.date}`, privacyZones);
 
       const dateStr = fullRecord.date.replace(/\./g, "-").replace(/\s/g, "_");
       const filename = `scoop_ride_${dateStr}_${record.id.slice(0, 6)}`;
 
-      const success = await saveAndShareGpx(trackData, filename);
+      const success = await saveAndShareTrack(trackData, filename, format);
 
       if (success) {
         if (Platform.OS !== "web") {
@@ -112,13 +110,22 @@ export default function HistoryScreen() {
         Alert.alert(t("history.alerts.exportFailed"), t("history.alerts.exportFailedMessage"));
       }
     } catch (error) {
-      console.error("GPX export error:", error);
+      console.error("Track export error:", error);
       Alert.alert(t("history.alerts.error"), t("history.alerts.errorMessage"));
     } finally {
       setExportingId(null);
     }
   };
 
+  const handleExportPress = (record: RidingRecord) => {
+    Alert.alert(t("history.alerts.exportFormatTitle"), t("history.alerts.exportFormatMessage"), [
+      { text: "GPX", onPress: () => handleExportTrack(record, "gpx") },
+      { text: "TCX", onPress: () => handleExportTrack(record, "tcx") },
+      { text: "FIT", onPress: () => handleExportTrack(record, "fit") },
+      { text: t("history.alerts.cancel"), style: "cancel" },
+    ]);
+  };
+
   const handleViewDetail = (record: RidingRecord) => {
     if (Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -161,7 +168,7 @@ export default function HistoryScreen() {
             <Pressable
               onPress={(e) => {
                 e.stopPropagation();
-                handleExportGpx(item);
+                handleExportPress(item);
               }}
               disabled={exportingId === item.id}
               style={({ pressed }) => [
@@ -38,6 +38,7 @@ import { captureScreen } from "react-native-view-shot";
 import { BatteryOptimizationGuide, useBatteryOptimizationGuide } from "@/components/battery-optimization-guide";
 import { useTranslation } from "@/hooks/use-translation";
 import { useLanguage, type LanguagePreference } from "@/lib/i18n-provider";
+import { getTelemetryAdapters } from "@/lib/scooter-telemetry";
 
 export default function ProfileScreen() {
   const colors = useColors();
@@ -1016,6 +1017,64 @@ export default function ProfileScreen() {
               <MaterialIcons name="chevron-right" size={24} color={colors.muted} />
             </Pressable>
 
+            {/* Crash Detection */}
+            <Pressable
+              onPress={() => router.push("/emergency-contacts")}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="flex-row items-center p-4 border-b border-border"
+            >
+              <MaterialIcons name="health-and-safety" size={24} color={colors.primary} />
+              <View className="flex-1 ml-3">
+                <Text className="text-foreground font-medium">{t('profile.crashDetection')}</Text>
+                <Text className="text-muted text-xs">{t('profile.crashDetectionDesc')}</Text>
+              </View>
+              <MaterialIcons name="chevron-right" size={24} color={colors.muted} />
+            </Pressable>
+
+            {/* Privacy Zones */}
+            <Pressable
+              onPress={() => router.push("/privacy-zones" as any)}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="flex-row items-center p-4 border-b border-border"
+            >
+              <MaterialIcons name="shield" size={24} color={colors.primary} />
+              <View className="flex-1 ml-3">
+                <Text className="text-foreground font-medium">{t('profile.privacyZones')}</Text>
+                <Text className="text-muted text-xs">{t('profile.privacyZonesDesc')}</Text>
+              </View>
+              <MaterialIcons name="chevron-right" size={24} color={colors.muted} />
+            </Pressable>
+
+            {/* Location Sharing */}
+            <Pressable
+              onPress={() => router.push("/location-sharing" as any)}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="flex-row items-center p-4 border-b border-border"
+            >
+              <MaterialIcons name="share-location" size={24} color={colors.primary} />
+              <View className="flex-1 ml-3">
+                <Text className="text-foreground font-medium">{t('profile.locationSharing')}</Text>
+                <Text className="text-muted text-xs">{t('profile.locationSharingDesc')}</Text>
+              </View>
+              <MaterialIcons name="chevron-right" size={24} color={colors.muted} />
+            </Pressable>
+
+            {/* Scooter Telemetry (only when this build has an adapter) */}
+            {getTelemetryAdapters().length > 0 && (
+              <Pressable
+                onPress={() => router.push("/scooter-telemetry" as any)}
+                style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                className="flex-row items-center p-4 border-b border-border"
+              >
+                <MaterialIcons name="bluetooth" size={24} color={colors.primary} />
+                <View className="flex-1 ml-3">
+                  <Text className="text-foreground font-medium">{t('profile.scooterTelemetry')}</Text>
+                  <Text className="text-muted text-xs">{t('profile.scooterTelemetryDesc')}</Text>
+                </View>
+                <MaterialIcons name="chevron-right" size={24} color={colors.muted} />
+              </Pressable>
+            )}
+
             {/* Saved Routes */}
             <Pressable
               onPress={() => router.push("/saved-routes")}
@@ -1030,6 +1089,20 @@ export default function ProfileScreen() {
               <MaterialIcons name="chevron-right" size={24} color={colors.muted} />
             </Pressable>
 
+            {/* Import Ride Archive */}
+            <Pressable
+              onPress={() => router.push("/import-rides")}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="flex-row items-center p-4 border-b border-border"
+            >
+              <MaterialIcons name="unarchive" size={24} color={colors.primary} />
+              <View className="flex-1 ml-3">
+                <Text className="text-foreground font-medium">{t('profile.importRides')}</Text>
+                <Text className="text-muted text-xs">{t('profile.importRidesDesc')}</Text>
+              </View>
+              <MaterialIcons name="chevron-right" size={24} color={colors.muted} />
+            </Pressable>
+
             {/* Route Heatmap */}
             <Pressable
               onPress={() => router.push("/route-heatmap")}
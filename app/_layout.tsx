@@ -140,6 +140,12 @@ function RootLayoutContent() {
         <Stack.Screen name="admin-dashboard" options={{ presentation: "card" }} />
         <Stack.Screen name="bug-report" options={{ presentation: "modal" }} />
         <Stack.Screen name="eco-leaderboard" options={{ presentation: "card" }} />
+        <Stack.Screen name="segment-detail" options={{ presentation: "card" }} />
+        <Stack.Screen name="group-ride" options={{ presentation: "card" }} />
+        <Stack.Screen name="scheduled-rides" options={{ presentation: "card" }} />
+        <Stack.Screen name="scheduled-ride-detail" options={{ presentation: "card" }} />
+        <Stack.Screen name="create-scheduled-ride" options={{ presentation: "modal" }} />
+        <Stack.Screen name="discover-rides" options={{ presentation: "card" }} />
         <Stack.Screen name="version-history" options={{ presentation: "card" }} />
       </Stack>
       <StatusBar style="auto" />
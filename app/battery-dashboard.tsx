@@ -133,6 +133,12 @@ export default function BatteryDashboardScreen() {
     { enabled: !!scooterId }
   );
 
+  // Consumption at the scooter's typical speed and conditions (learned from rides with voltages)
+  const { data: consumption, refetch: refetchConsumption } = trpc.batteryAi.predictConsumption.useQuery(
+    { scooterId: scooterId ?? 0 },
+    { enabled: !!scooterId }
+  );
+
   // Fetch recent rides with voltage data
   const { data: recentRides } = trpc.rides.list.useQuery();
 
@@ -151,16 +157,26 @@ export default function BatteryDashboardScreen() {
 
   const maxEfficiency = Math.max(...efficiencyData, 50);
 
+  // Full-charge range; the slower end of the interval gives the shorter range
+  const range = summary && consumption
+    ? {
+        km: summary.totalCapacityWh / consumption.whPerKm,
+        minKm: summary.totalCapacityWh / consumption.high,
+        maxKm: summary.totalCapacityWh / consumption.low,
+      }
+    : null;
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await refetch();
+    await Promise.all([refetch(), refetchConsumption()]);
     setRefreshing(false);
-  }, [refetch]);
+  }, [refetch, refetchConsumption]);
 
   useFocusEffect(
     useCallback(() => {
       refetch();
-    }, [refetch])
+      refetchConsumption();
+    }, [refetch, refetchConsumption])
   );
 
   const getHealthColor = (health: number) => {
@@ -339,7 +355,7 @@ export default function BatteryDashboardScreen() {
               </View>
 
               {/* Estimated Range */}
-              {summary.estimatedRangeKm && (
+              {range && consumption && (
                 <View className="mt-4 pt-4 border-t" style={{ borderTopColor: colors.border }}>
                   <View className="flex-row items-center justify-center">
                     <MaterialIcons name="explore" size={20} color={colors.primary} />
@@ -347,9 +363,13 @@ export default function BatteryDashboardScreen() {
                       예상 주행 가능 거리:
                     </Text>
                     <Text className="ml-2 font-bold text-lg" style={{ color: colors.primary }}>
-                      {summary.estimatedRangeKm.toFixed(0)} km
+                      {range.km.toFixed(0)} km
                     </Text>
                   </View>
+                  <Text className="text-xs text-center mt-1" style={{ color: colors.muted }}>
+                    {range.minKm.toFixed(0)}~{range.maxKm.toFixed(0)} km · {consumption.speedKmh.toFixed(0)}km/h 기준 ·{" "}
+                    {consumption.whPerKm.toFixed(1)} Wh/km (주행 {consumption.sampleCount}회 학습)
+                  </Text>
                 </View>
               )}
             </View>
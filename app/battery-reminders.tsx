@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import {
+  Text,
+  View,
+  ScrollView,
+  Pressable,
+  Platform,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from "react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+
+const MIN_SOC_OPTIONS = [40, 50, 60, 70, 80, 100];
+
+type ReminderToggle = "chargeTonight" | "storage" | "coldCharging";
+
+const REMINDERS: { key: ReminderToggle; icon: keyof typeof MaterialIcons.glyphMap; title: string; description: string }[] = [
+  {
+    key: "chargeTonight",
+    icon: "nights-stay",
+    title: "라이딩 전날 충전 알림",
+    description: "예정된 라이딩에 배터리가 부족하면 저녁에 알려드려요.",
+  },
+  {
+    key: "storage",
+    icon: "inventory-2",
+    title: "보관 충전량 안내",
+    description: "완충이나 20% 이하로 3일 넘게 세워두면 50~60% 보관을 권해드려요.",
+  },
+  {
+    key: "coldCharging",
+    icon: "ac-unit",
+    title: "영하 충전 경고",
+    description: "충전할 때쯤 기온이 영하로 떨어지면 미리 알려드려요.",
+  },
+];
+
+export default function BatteryRemindersScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const scooterId = Number(id);
+
+  const { data, isLoading } = trpc.batteryReminders.get.useQuery({ scooterId }, { enabled: scooterId > 0 });
+
+  const [enabled, setEnabled] = useState(true);
+  const [toggles, setToggles] = useState<Record<ReminderToggle, boolean>>({
+    chargeTonight: true,
+    storage: true,
+    coldCharging: true,
+  });
+  const [minSocForRide, setMinSocForRide] = useState(60);
+
+  useEffect(() => {
+    if (!data) return;
+    const { settings } = data;
+    setEnabled(settings.enabled);
+    setToggles({
+      chargeTonight: settings.chargeTonight,
+      storage: settings.storage,
+      coldCharging: settings.coldCharging,
+    });
+    setMinSocForRide(settings.minSocForRide);
+  }, [data]);
+
+  const update = trpc.batteryReminders.update.useMutation({
+    onSuccess: () => {
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      utils.batteryReminders.get.invalidate({ scooterId });
+    },
+    onError: (error) => Alert.alert("저장 실패", error.message || "알림 설정을 저장하지 못했습니다."),
+  });
+
+  const save = (changes: Partial<{ enabled: boolean; minSocForRide: number } & Record<ReminderToggle, boolean>>) => {
+    const next = { enabled, ...toggles, minSocForRide, ...changes };
+    setEnabled(next.enabled);
+    setToggles({ chargeTonight: next.chargeTonight, storage: next.storage, coldCharging: next.coldCharging });
+    setMinSocForRide(next.minSocForRide);
+    update.mutate({ scooterId, ...next });
+  };
+
+  const battery = data?.battery;
+
+  return (
+    <ScreenContainer>
+      {/* Header */}
+      <View className="flex-row items-center px-5 py-4 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+          className="mr-4"
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text className="text-xl font-bold text-foreground">배터리 알림</Text>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator className="mt-10" color={colors.primary} />
+      ) : (
+        <ScrollView className="flex-1 p-5">
+          {/* Last known charge */}
+          <View className="bg-surface rounded-2xl border border-border p-4 mb-4">
+            <Text className="text-muted text-xs mb-1">마지막으로 확인된 배터리</Text>
+            <Text className="text-2xl font-bold text-foreground">
+              {battery?.soc != null ? `${Math.round(battery.soc)}%` : "-"}
+            </Text>
+            <Text className="text-muted text-xs mt-1">
+              {battery?.socAt
+                ? `${new Date(battery.socAt).toLocaleString("ko-KR")} 기준 (라이딩 종료 또는 충전 기록)`
+                : "전압을 입력한 라이딩이나 충전 기록이 있으면 알림을 보낼 수 있어요."}
+            </Text>
+          </View>
+
+          {/* Master switch */}
+          <View className="flex-row items-center p-4 bg-surface rounded-2xl border border-border mb-4">
+            <MaterialIcons name="notifications-active" size={22} color={colors.primary} />
+            <View className="ml-3 flex-1">
+              <Text className="text-foreground font-medium">이 기체의 배터리 알림</Text>
+              <Text className="text-muted text-xs">충전 시점과 보관 방법을 푸시 알림으로 알려드려요.</Text>
+            </View>
+            <Switch
+              value={enabled}
+              onValueChange={(value) => save({ enabled: value })}
+              trackColor={{ false: colors.border, true: colors.primary }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+
+          <View
+            className="bg-surface rounded-2xl border border-border overflow-hidden mb-4"
+            style={{ opacity: enabled ? 1 : 0.5 }}
+            pointerEvents={enabled ? "auto" : "none"}
+          >
+            {REMINDERS.map((reminder) => (
+              <View key={reminder.key} className="flex-row items-center p-4 border-b border-border">
+                <MaterialIcons name={reminder.icon} size={22} color={colors.primary} />
+                <View className="ml-3 flex-1">
+                  <Text className="text-foreground font-medium">{reminder.title}</Text>
+                  <Text className="text-muted text-xs">{reminder.description}</Text>
+                </View>
+                <Switch
+                  value={toggles[reminder.key]}
+                  onValueChange={(value) => save({ [reminder.key]: value })}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                  thumbColor="#FFFFFF"
+                />
+              </View>
+            ))}
+
+            {/* Charge wanted before rides without a planned route */}
+            <View className="p-4">
+              <Text className="text-foreground font-medium mb-1">라이딩 전 최소 충전량</Text>
+              <Text className="text-muted text-xs mb-3">
+                경로가 없는 라이딩에 적용돼요. 경로가 있으면 예상 소모량으로 계산해요.
+              </Text>
+              <View className="flex-row flex-wrap gap-2">
+                {MIN_SOC_OPTIONS.map((soc) => {
+                  const selected = soc === minSocForRide;
+                  return (
+                    <Pressable
+                      key={soc}
+                      onPress={() => save({ minSocForRide: soc })}
+                      style={({ pressed }) => [
+                        {
+                          opacity: pressed ? 0.7 : 1,
+                          backgroundColor: selected ? colors.primary : colors.background,
+                          borderColor: selected ? colors.primary : colors.border,
+                        },
+                      ]}
+                      className="px-4 py-2 rounded-full border"
+                    >
+                      <Text style={{ color: selected ? "#FFFFFF" : colors.foreground }}>{soc}%</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          </View>
+
+          <Text className="text-muted text-xs mb-8">
+            알림은 오전 9시부터 오후 10시 사이에만 보내요. 영하 충전 경고는 리튬 배터리에만 적용돼요.
+          </Text>
+        </ScrollView>
+      )}
+    </ScreenContainer>
+  );
+}
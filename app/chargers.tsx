@@ -0,0 +1,385 @@
+import { useState } from "react";
+import {
+  Text,
+  View,
+  ScrollView,
+  Pressable,
+  Platform,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from "react-native";
+import { useRouter } from "expo-router";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+import { CHARGER_LOCATIONS, DEFAULT_CHARGER_EFFICIENCY, type ChargerLocation } from "@/shared/charging";
+
+const LOCATION_LABELS: Record<ChargerLocation, string> = {
+  home: "집",
+  office: "회사",
+  public: "공용",
+};
+
+interface PeriodDraft {
+  startHour: string;
+  endHour: string;
+  rate: string;
+}
+
+const formatRate = (rate: number) => `${rate.toLocaleString()}원/kWh`;
+
+export default function ChargersScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const utils = trpc.useUtils();
+
+  const { data: chargers, isLoading: chargersLoading } = trpc.charging.listChargers.useQuery();
+  const { data: tariffs, isLoading: tariffsLoading } = trpc.charging.listTariffs.useQuery();
+
+  // New charger
+  const [chargerName, setChargerName] = useState("");
+  const [wattage, setWattage] = useState("");
+  const [efficiency, setEfficiency] = useState(String(Math.round(DEFAULT_CHARGER_EFFICIENCY * 100)));
+  const [location, setLocation] = useState<ChargerLocation>("home");
+  const [tariffId, setTariffId] = useState<number | null>(null);
+
+  // New tariff
+  const [tariffName, setTariffName] = useState("");
+  const [baseRate, setBaseRate] = useState("");
+  const [periods, setPeriods] = useState<PeriodDraft[]>([]);
+
+  const onSaved = () => {
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+  };
+
+  const saveCharger = trpc.charging.saveCharger.useMutation({
+    onSuccess: () => {
+      onSaved();
+      utils.charging.listChargers.invalidate();
+      setChargerName("");
+      setWattage("");
+    },
+    onError: (error) => Alert.alert("저장 실패", error.message || "충전기를 저장하지 못했습니다."),
+  });
+
+  const deleteCharger = trpc.charging.deleteCharger.useMutation({
+    onSuccess: () => utils.charging.listChargers.invalidate(),
+  });
+
+  const saveTariff = trpc.charging.saveTariff.useMutation({
+    onSuccess: () => {
+      onSaved();
+      utils.charging.listTariffs.invalidate();
+      setTariffName("");
+      setBaseRate("");
+      setPeriods([]);
+    },
+    onError: (error) => Alert.alert("저장 실패", error.message || "요금제를 저장하지 못했습니다."),
+  });
+
+  const deleteTariff = trpc.charging.deleteTariff.useMutation({
+    onSuccess: () => {
+      utils.charging.listTariffs.invalidate();
+      utils.charging.listChargers.invalidate();
+    },
+  });
+
+  const handleAddCharger = () => {
+    const watts = parseInt(wattage);
+    const percent = parseFloat(efficiency);
+    if (!chargerName.trim() || !(watts > 0) || !(percent >= 50 && percent <= 100)) {
+      Alert.alert("입력 오류", "이름, 출력(W), 효율(50~100%)을 확인해주세요.");
+      return;
+    }
+    saveCharger.mutate({ name: chargerName.trim(), wattage: watts, efficiency: percent / 100, location, tariffId });
+  };
+
+  const handleAddTariff = () => {
+    const rate = parseFloat(baseRate);
+    const parsedPeriods = periods.map((p) => ({
+      startHour: parseInt(p.startHour),
+      endHour: parseInt(p.endHour),
+      rate: parseFloat(p.rate),
+    }));
+    const periodsValid = parsedPeriods.every(
+      (p) => p.startHour >= 0 && p.startHour <= 23 && p.endHour >= 0 && p.endHour <= 24 && p.rate >= 0
+    );
+    if (!tariffName.trim() || !(rate >= 0) || !periodsValid) {
+      Alert.alert("입력 오류", "이름, 기본 요금, 시간대(0~24시)와 요금을 확인해주세요.");
+      return;
+    }
+    saveTariff.mutate({ name: tariffName.trim(), baseRate: rate, periods: parsedPeriods });
+  };
+
+  const confirmDelete = (title: string, message: string, onConfirm: () => void) => {
+    Alert.alert(title, message, [
+      { text: "취소", style: "cancel" },
+      { text: "삭제", style: "destructive", onPress: onConfirm },
+    ]);
+  };
+
+  const updatePeriod = (index: number, key: keyof PeriodDraft, value: string) => {
+    setPeriods((prev) => prev.map((p, i) => (i === index ? { ...p, [key]: value } : p)));
+  };
+
+  const chip = (selected: boolean) => [
+    {
+      backgroundColor: selected ? colors.primary : colors.background,
+      borderColor: selected ? colors.primary : colors.border,
+    },
+  ];
+
+  return (
+    <ScreenContainer>
+      {/* Header */}
+      <View className="flex-row items-center px-5 py-4 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+          className="mr-4"
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text className="text-xl font-bold text-foreground">충전기·요금제</Text>
+      </View>
+
+      <ScrollView className="flex-1 p-5">
+        {/* Tariffs */}
+        <Text className="text-lg font-bold text-foreground mb-3">요금제</Text>
+        <View className="bg-surface rounded-2xl border border-border overflow-hidden mb-4">
+          {tariffsLoading ? (
+            <ActivityIndicator className="p-4" color={colors.primary} />
+          ) : !tariffs || tariffs.length === 0 ? (
+            <Text className="text-muted text-center p-4">등록된 요금제가 없습니다.</Text>
+          ) : (
+            tariffs.map((tariff) => (
+              <View key={tariff.id} className="flex-row items-center p-4 border-b border-border">
+                <MaterialIcons name="bolt" size={24} color={colors.primary} />
+                <View className="flex-1 ml-3">
+                  <Text className="text-foreground font-medium">{tariff.name}</Text>
+                  <Text className="text-muted text-xs">
+                    기본 {formatRate(tariff.baseRate)}
+                    {tariff.periods.map((p) => ` • ${p.startHour}~${p.endHour}시 ${formatRate(p.rate)}`).join("")}
+                  </Text>
+                </View>
+                <Pressable
+                  onPress={() =>
+                    confirmDelete("요금제 삭제", `"${tariff.name}" 요금제를 삭제할까요?`, () =>
+                      deleteTariff.mutate({ tariffId: tariff.id })
+                    )
+                  }
+                  style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                >
+                  <MaterialIcons name="delete-outline" size={22} color={colors.error} />
+                </Pressable>
+              </View>
+            ))
+          )}
+        </View>
+
+        <View className="bg-surface rounded-2xl border border-border p-4 mb-8">
+          <Text className="text-foreground font-medium mb-2">이름</Text>
+          <TextInput
+            value={tariffName}
+            onChangeText={setTariffName}
+            placeholder="예: 주택용 저압"
+            placeholderTextColor={colors.muted}
+            maxLength={50}
+            className="bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+          />
+
+          <Text className="text-foreground font-medium mt-4 mb-2">기본 요금 (원/kWh)</Text>
+          <TextInput
+            value={baseRate}
+            onChangeText={setBaseRate}
+            placeholder="예: 150"
+            placeholderTextColor={colors.muted}
+            keyboardType="decimal-pad"
+            className="bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+          />
+
+          <Text className="text-foreground font-medium mt-4 mb-2">시간대별 요금 (선택)</Text>
+          {periods.map((period, index) => (
+            <View key={index} className="flex-row items-center gap-2 mb-2">
+              <TextInput
+                value={period.startHour}
+                onChangeText={(v) => updatePeriod(index, "startHour", v)}
+                placeholder="23"
+                placeholderTextColor={colors.muted}
+                keyboardType="number-pad"
+                className="w-14 bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+              />
+              <Text className="text-muted">~</Text>
+              <TextInput
+                value={period.endHour}
+                onChangeText={(v) => updatePeriod(index, "endHour", v)}
+                placeholder="9"
+                placeholderTextColor={colors.muted}
+                keyboardType="number-pad"
+                className="w-14 bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+              />
+              <Text className="text-muted">시</Text>
+              <TextInput
+                value={period.rate}
+                onChangeText={(v) => updatePeriod(index, "rate", v)}
+                placeholder="원/kWh"
+                placeholderTextColor={colors.muted}
+                keyboardType="decimal-pad"
+                className="flex-1 bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+              />
+              <Pressable
+                onPress={() => setPeriods((prev) => prev.filter((_, i) => i !== index))}
+                style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              >
+                <MaterialIcons name="close" size={20} color={colors.muted} />
+              </Pressable>
+            </View>
+          ))}
+          {periods.length < 6 && (
+            <Pressable
+              onPress={() => setPeriods((prev) => [...prev, { startHour: "", endHour: "", rate: "" }])}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="flex-row items-center"
+            >
+              <MaterialIcons name="add" size={18} color={colors.primary} />
+              <Text className="text-primary font-medium ml-1">시간대 추가</Text>
+            </Pressable>
+          )}
+
+          <Pressable
+            onPress={handleAddTariff}
+            disabled={saveTariff.isPending}
+            style={({ pressed }) => [{ opacity: saveTariff.isPending ? 0.5 : pressed ? 0.8 : 1 }]}
+            className="bg-primary rounded-lg py-3 items-center mt-5"
+          >
+            {saveTariff.isPending ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text className="text-white font-semibold">요금제 추가</Text>
+            )}
+          </Pressable>
+        </View>
+
+        {/* Chargers */}
+        <Text className="text-lg font-bold text-foreground mb-3">충전기</Text>
+        <View className="bg-surface rounded-2xl border border-border overflow-hidden mb-4">
+          {chargersLoading ? (
+            <ActivityIndicator className="p-4" color={colors.primary} />
+          ) : !chargers || chargers.length === 0 ? (
+            <Text className="text-muted text-center p-4">등록된 충전기가 없습니다.</Text>
+          ) : (
+            chargers.map((charger) => (
+              <View key={charger.id} className="flex-row items-center p-4 border-b border-border">
+                <MaterialIcons name="ev-station" size={24} color={colors.primary} />
+                <View className="flex-1 ml-3">
+                  <Text className="text-foreground font-medium">{charger.name}</Text>
+                  <Text className="text-muted text-xs">
+                    {LOCATION_LABELS[charger.location as ChargerLocation] ?? charger.location} • {charger.wattage}W • 효율{" "}
+                    {Math.round(charger.efficiency * 100)}% •{" "}
+                    {tariffs?.find((t) => t.id === charger.tariffId)?.name ?? "요금 없음"}
+                  </Text>
+                </View>
+                <Pressable
+                  onPress={() =>
+                    confirmDelete("충전기 삭제", `"${charger.name}" 충전기를 삭제할까요? 지난 충전 기록의 요금은 유지됩니다.`, () =>
+                      deleteCharger.mutate({ chargerId: charger.id })
+                    )
+                  }
+                  style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                >
+                  <MaterialIcons name="delete-outline" size={22} color={colors.error} />
+                </Pressable>
+              </View>
+            ))
+          )}
+        </View>
+
+        <View className="bg-surface rounded-2xl border border-border p-4 mb-8">
+          <Text className="text-foreground font-medium mb-2">이름</Text>
+          <TextInput
+            value={chargerName}
+            onChangeText={setChargerName}
+            placeholder="예: 기본 충전기"
+            placeholderTextColor={colors.muted}
+            maxLength={50}
+            className="bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+          />
+
+          <View className="flex-row gap-3 mt-4">
+            <View className="flex-1">
+              <Text className="text-foreground font-medium mb-2">출력 (W)</Text>
+              <TextInput
+                value={wattage}
+                onChangeText={setWattage}
+                placeholder="예: 168"
+                placeholderTextColor={colors.muted}
+                keyboardType="number-pad"
+                className="bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+              />
+            </View>
+            <View className="flex-1">
+              <Text className="text-foreground font-medium mb-2">효율 (%)</Text>
+              <TextInput
+                value={efficiency}
+                onChangeText={setEfficiency}
+                keyboardType="number-pad"
+                className="bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+              />
+            </View>
+          </View>
+
+          <Text className="text-foreground font-medium mt-4 mb-2">위치</Text>
+          <View className="flex-row flex-wrap gap-2">
+            {CHARGER_LOCATIONS.map((value) => (
+              <Pressable
+                key={value}
+                onPress={() => setLocation(value)}
+                style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }, ...chip(location === value)]}
+                className="px-4 py-2 rounded-full border"
+              >
+                <Text style={{ color: location === value ? "#FFFFFF" : colors.foreground }} className="font-medium">
+                  {LOCATION_LABELS[value]}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Text className="text-foreground font-medium mt-4 mb-2">요금제</Text>
+          <View className="flex-row flex-wrap gap-2">
+            {[{ id: null, name: "요금 없음" }, ...(tariffs ?? [])].map((tariff) => (
+              <Pressable
+                key={tariff.id ?? "none"}
+                onPress={() => setTariffId(tariff.id)}
+                style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }, ...chip(tariffId === tariff.id)]}
+                className="px-4 py-2 rounded-full border"
+              >
+                <Text style={{ color: tariffId === tariff.id ? "#FFFFFF" : colors.foreground }} className="font-medium">
+                  {tariff.name}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Pressable
+            onPress={handleAddCharger}
+            disabled={saveCharger.isPending}
+            style={({ pressed }) => [{ opacity: saveCharger.isPending ? 0.5 : pressed ? 0.8 : 1 }]}
+            className="bg-primary rounded-lg py-3 items-center mt-5"
+          >
+            {saveCharger.isPending ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text className="text-white font-semibold">충전기 추가</Text>
+            )}
+          </Pressable>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -16,10 +16,17 @@ import * as Haptics from "expo-haptics";
 import { ScreenContainer } from "@/components/screen-container";
 import { useColors } from "@/hooks/use-colors";
 import { trpc } from "@/lib/trpc";
-import { calculateSoc, createBatterySpec } from "@/lib/battery-analysis";
+import { calculateSoc, createBatterySpecForScooter } from "@/lib/battery-analysis";
+import { MAX_CHARGING_DURATION_MINUTES, chargeCost, chargeEnergy, type ChargerLocation } from "@/shared/charging";
 
 type ChargeType = "full" | "partial" | "top-up";
 
+const LOCATION_LABELS: Record<ChargerLocation, string> = {
+  home: "집",
+  office: "회사",
+  public: "공용",
+};
+
 export default function ChargingRecordScreen() {
   const router = useRouter();
   const colors = useColors();
@@ -34,20 +41,29 @@ export default function ChargingRecordScreen() {
   const [chargeType, setChargeType] = useState<ChargeType>("full");
   const [notes, setNotes] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [chargerId, setChargerId] = useState<number | null>(null);
 
   // Get scooter info for battery specs
   const { data: scooterData } = trpc.scooters.list.useQuery();
   const scooter = scooterData?.find((s) => s.id === Number(scooterId));
 
   const createChargingRecord = trpc.charging.create.useMutation();
+  const { data: chargers } = trpc.charging.listChargers.useQuery();
+  const { data: tariffs } = trpc.charging.listTariffs.useQuery();
+
+  // Preselect the first charger
+  useEffect(() => {
+    if (chargerId === null && chargers && chargers.length > 0) {
+      setChargerId(chargers[0].id);
+    }
+  }, [chargers, chargerId]);
 
-  // Calculate SOC from voltage using battery spec
+  const charger = chargers?.find((c) => c.id === chargerId) ?? null;
+  const tariff = tariffs?.find((t) => t.id === charger?.tariffId) ?? null;
+
+  // Calculate SOC from voltage along the battery chemistry's OCV curve
   const batterySpec = scooter?.batteryVoltage && scooter?.batteryCellCount
-    ? createBatterySpec(
-        Number(scooter.batteryVoltage),
-        Number(scooter.batteryCapacity) || 30,
-        (scooter.batteryType === "lifepo4" ? "lfp" : scooter.batteryType === "lipo" ? "li-po" : "li-ion") as "li-ion" | "li-po" | "lfp"
-      )
+    ? createBatterySpecForScooter(scooter)
     : null;
 
   const socBefore =
@@ -60,6 +76,27 @@ export default function ChargingRecordScreen() {
       ? calculateSoc(parseFloat(voltageAfter), batterySpec)
       : null;
 
+  // Energy and cost preview (the server computes the stored values the same way)
+  const durationMinutes = chargingDuration ? parseInt(chargingDuration) : undefined;
+  const energy =
+    socBefore !== null && socAfter !== null && scooter
+      ? chargeEnergy(
+          socBefore,
+          socAfter,
+          (scooter.batteryVoltage || 60) * parseFloat(scooter.batteryCapacity || "30"),
+          charger?.efficiency
+        )
+      : null;
+  const cost =
+    energy && tariff
+      ? chargeCost(tariff, energy.energyFromGridWh, {
+          startedAt: new Date(Date.now() - (durationMinutes ?? 0) * 60_000),
+          durationMinutes,
+          chargerWatts: charger?.wattage,
+          utcOffsetMinutes: -new Date().getTimezoneOffset(),
+        })
+      : null;
+
   const handleSubmit = async () => {
     if (!voltageBefore || !voltageAfter) {
       Alert.alert("입력 오류", "충전 전/후 전압을 입력해주세요.");
@@ -74,6 +111,14 @@ export default function ChargingRecordScreen() {
       return;
     }
 
+    if (
+      durationMinutes !== undefined &&
+      !(durationMinutes >= 0 && durationMinutes <= MAX_CHARGING_DURATION_MINUTES)
+    ) {
+      Alert.alert("입력 오류", `충전 시간은 ${MAX_CHARGING_DURATION_MINUTES / 60}시간 이내로 입력해주세요.`);
+      return;
+    }
+
     if (Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
@@ -87,9 +132,13 @@ export default function ChargingRecordScreen() {
         voltageAfter: afterV,
         socBefore: socBefore ?? undefined,
         socAfter: socAfter ?? undefined,
-        chargingDuration: chargingDuration ? parseInt(chargingDuration) : undefined,
+        chargingDuration: durationMinutes,
         chargeType,
         notes: notes || undefined,
+        chargerProfileId: charger?.id,
+        // Logged when charging is done, so it started `duration` minutes ago
+        startedAt: durationMinutes ? new Date(Date.now() - durationMinutes * 60_000).toISOString() : undefined,
+        utcOffsetMinutes: -new Date().getTimezoneOffset(),
       });
 
       if (Platform.OS !== "web") {
@@ -214,6 +263,65 @@ export default function ChargingRecordScreen() {
           </View>
         </View>
 
+        {/* Charger */}
+        <View className="px-4 mt-4">
+          <View className="flex-row items-center justify-between mb-4">
+            <Text className="text-foreground font-semibold">충전기</Text>
+            <Pressable
+              onPress={() => router.push("/chargers" as any)}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="flex-row items-center"
+            >
+              <Text className="text-primary text-sm font-medium mr-1">관리</Text>
+              <MaterialIcons name="chevron-right" size={18} color={colors.primary} />
+            </Pressable>
+          </View>
+          {chargers && chargers.length > 0 ? (
+            <View className="flex-row flex-wrap gap-2">
+              {chargers.map((c) => (
+                <Pressable
+                  key={c.id}
+                  onPress={() => setChargerId(c.id)}
+                  style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                  className={`px-3 py-2 rounded-xl border ${
+                    chargerId === c.id ? "bg-primary/10 border-primary" : "bg-surface border-border"
+                  }`}
+                >
+                  <Text className={chargerId === c.id ? "text-primary font-semibold" : "text-foreground"}>
+                    {c.name}
+                  </Text>
+                  <Text className="text-muted text-xs">
+                    {LOCATION_LABELS[c.location as ChargerLocation] ?? c.location} • {c.wattage}W
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          ) : (
+            <Text className="text-muted text-sm">
+              충전기와 요금제를 등록하면 충전 비용을 계산해 드립니다.
+            </Text>
+          )}
+
+          {energy && (
+            <View className="flex-row bg-surface rounded-xl px-4 py-3 mt-3">
+              <View className="flex-1">
+                <Text className="text-foreground font-semibold">{Math.round(energy.energyAddedWh)} Wh</Text>
+                <Text className="text-muted text-xs">충전량</Text>
+              </View>
+              <View className="flex-1">
+                <Text className="text-foreground font-semibold">{energy.cycleFraction.toFixed(2)}</Text>
+                <Text className="text-muted text-xs">사이클</Text>
+              </View>
+              <View className="flex-1">
+                <Text className="text-foreground font-semibold">
+                  {cost !== null ? `${Math.round(cost).toLocaleString()}원` : "-"}
+                </Text>
+                <Text className="text-muted text-xs">예상 요금</Text>
+              </View>
+            </View>
+          )}
+        </View>
+
         {/* Charge Type */}
         <View className="px-4 mt-4">
           <Text className="text-foreground font-semibold mb-4">충전 유형</Text>
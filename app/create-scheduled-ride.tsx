@@ -0,0 +1,468 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  KeyboardAvoidingView,
+  Switch,
+} from "react-native";
+import { useRouter } from "expo-router";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+import * as Location from "expo-location";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+import { getFavoritePlaces, type FavoritePlace } from "@/lib/favorite-places";
+import type { GpxRoute } from "@/lib/gpx-parser";
+import { syncRideReminder } from "@/lib/scheduled-rides";
+import {
+  MAX_RIDE_CAPACITY,
+  MIN_RIDE_CAPACITY,
+  PACE_SPEED_RANGES,
+  type PaceLevel,
+} from "@/shared/scheduled-ride";
+
+const PACE_OPTIONS: { value: PaceLevel; label: string }[] = [
+  { value: "relaxed", label: "여유" },
+  { value: "moderate", label: "보통" },
+  { value: "fast", label: "빠름" },
+];
+
+// 날짜는 오늘부터 2주 안에서 선택
+const SELECTABLE_DAYS = 14;
+const MINUTE_STEP = 15;
+// 서버가 받는 경로 점 개수 상한
+const MAX_SHARED_POINTS = 5000;
+
+const WEEKDAYS = ["일", "월", "화", "수", "목", "금", "토"];
+
+interface MeetingPointChoice {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export default function CreateScheduledRideScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const trpcUtils = trpc.useUtils();
+
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [dayOffset, setDayOffset] = useState(1);
+  const [hour, setHour] = useState(10);
+  const [minute, setMinute] = useState(0);
+  const [meetingName, setMeetingName] = useState("");
+  const [meetingPoint, setMeetingPoint] = useState<MeetingPointChoice | null>(null);
+  const [favorites, setFavorites] = useState<FavoritePlace[]>([]);
+  const [routes, setRoutes] = useState<GpxRoute[]>([]);
+  const [routeIndex, setRouteIndex] = useState<number | null>(null);
+  const [paceLevel, setPaceLevel] = useState<PaceLevel>("moderate");
+  const [capacity, setCapacity] = useState(8);
+  const [isPublic, setIsPublic] = useState(true);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const createMutation = trpc.scheduledRides.create.useMutation();
+
+  useEffect(() => {
+    getFavoritePlaces().then(setFavorites);
+    AsyncStorage.getItem("@saved_gpx_routes")
+      .then((json) => setRoutes(json ? JSON.parse(json) : []))
+      .catch((error) => console.error("Failed to load saved routes:", error));
+  }, []);
+
+  const days = useMemo(() => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return Array.from({ length: SELECTABLE_DAYS }, (_, i) => {
+      const day = new Date(today);
+      day.setDate(today.getDate() + i);
+      return day;
+    });
+  }, []);
+
+  const startsAt = useMemo(() => {
+    const start = new Date(days[dayOffset]);
+    start.setHours(hour, minute, 0, 0);
+    return start;
+  }, [days, dayOffset, hour, minute]);
+
+  const selectedRoute = routeIndex !== null ? routes[routeIndex] : null;
+
+  const stepTime = (deltaMinutes: number) => {
+    const total = (hour * 60 + minute + deltaMinutes + 24 * 60) % (24 * 60);
+    setHour(Math.floor(total / 60));
+    setMinute(total % 60);
+  };
+
+  const pickCurrentLocation = async () => {
+    setIsLocating(true);
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== "granted") {
+        Alert.alert("위치 권한 필요", "현재 위치를 집결지로 쓰려면 위치 권한을 허용해주세요.");
+        return;
+      }
+      const location = await Location.getCurrentPositionAsync({});
+      setMeetingPoint({
+        name: meetingName.trim() || "집결지",
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+      });
+    } catch (error) {
+      console.error("Failed to get current location:", error);
+      Alert.alert("오류", "현재 위치를 가져오지 못했습니다.");
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const chooseMeetingPoint = (point: MeetingPointChoice) => {
+    setMeetingPoint(point);
+    if (!meetingName.trim()) setMeetingName(point.name);
+  };
+
+  const chooseRoute = (index: number | null) => {
+    setRouteIndex(index);
+    const route = index !== null ? routes[index] : null;
+    // 집결지가 없으면 경로 출발점을 집결지로
+    if (route && !meetingPoint && route.points.length > 0) {
+      chooseMeetingPoint({
+        name: `${route.name} 출발점`,
+        latitude: route.points[0].latitude,
+        longitude: route.points[0].longitude,
+      });
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!title.trim()) {
+      Alert.alert("알림", "라이딩 제목을 입력해주세요.");
+      return;
+    }
+    if (!meetingPoint) {
+      Alert.alert("알림", "집결지 위치를 선택해주세요.");
+      return;
+    }
+    if (startsAt.getTime() <= Date.now()) {
+      Alert.alert("알림", "출발 시간은 현재 이후여야 합니다.");
+      return;
+    }
+
+    // One point short of the limit, leaving room for the route's last point
+    const step = selectedRoute ? Math.ceil(selectedRoute.points.length / (MAX_SHARED_POINTS - 1)) : 1;
+    const route = selectedRoute && selectedRoute.points.length > 1 ? {
+      name: selectedRoute.name.slice(0, 100),
+      points: selectedRoute.points
+        .filter((_, i) => i % step === 0 || i === selectedRoute.points.length - 1)
+        .map(p => ({ latitude: p.latitude, longitude: p.longitude })),
+    } : undefined;
+
+    try {
+      const { rideId } = await createMutation.mutateAsync({
+        title: title.trim(),
+        description: description.trim() || undefined,
+        startsAt: startsAt.getTime(),
+        meetingPoint: { ...meetingPoint, name: meetingName.trim() || meetingPoint.name },
+        route,
+        paceLevel,
+        capacity,
+        isPublic,
+      });
+      await syncRideReminder({
+        id: rideId,
+        title: title.trim(),
+        description: description.trim() || null,
+        startsAt: startsAt.getTime(),
+        meetingPointName: meetingName.trim() || meetingPoint.name,
+        meetingLatitude: meetingPoint.latitude,
+        meetingLongitude: meetingPoint.longitude,
+        paceLevel,
+        routeDistance: selectedRoute?.totalDistance ?? null,
+        status: "scheduled",
+      }, "going");
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      trpcUtils.scheduledRides.list.invalidate();
+      router.replace(`/scheduled-ride-detail?rideId=${rideId}` as never);
+    } catch (error: any) {
+      Alert.alert("오류", error.message || "라이딩 일정 생성에 실패했습니다.");
+    }
+  };
+
+  const chip = (selected: boolean) => ({
+    backgroundColor: selected ? colors.primary : colors.surface,
+  });
+  const chipText = (selected: boolean) => ({ color: selected ? "#FFFFFF" : colors.foreground });
+
+  return (
+    <ScreenContainer edges={["top", "left", "right", "bottom"]}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        className="flex-1"
+        keyboardVerticalOffset={Platform.OS === "ios" ? 0 : 20}
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-5 pt-4 pb-3 border-b border-border">
+          <Pressable
+            onPress={() => router.back()}
+            style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+            className="p-1"
+          >
+            <MaterialIcons name="close" size={24} color={colors.foreground} />
+          </Pressable>
+          <Text className="text-lg font-bold text-foreground">라이딩 일정 만들기</Text>
+          <Pressable
+            onPress={handleSubmit}
+            disabled={createMutation.isPending}
+            style={({ pressed }) => [
+              { backgroundColor: colors.primary, opacity: createMutation.isPending ? 0.5 : pressed ? 0.8 : 1 },
+            ]}
+            className="px-4 py-2 rounded-full"
+          >
+            {createMutation.isPending ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text className="text-white font-medium">등록</Text>
+            )}
+          </Pressable>
+        </View>
+
+        <ScrollView
+          className="flex-1"
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={{ paddingBottom: 100 }}
+        >
+          {/* Title & Description */}
+          <View className="px-5 pt-4 pb-2">
+            <TextInput
+              value={title}
+              onChangeText={setTitle}
+              placeholder="라이딩 제목 (예: 한강 야간 라이딩)"
+              placeholderTextColor={colors.muted}
+              maxLength={50}
+              className="text-lg font-semibold text-foreground py-2 border-b border-border"
+              style={{ color: colors.foreground }}
+            />
+            <TextInput
+              value={description}
+              onChangeText={setDescription}
+              placeholder="준비물, 코스 설명 등 (선택사항)"
+              placeholderTextColor={colors.muted}
+              multiline
+              maxLength={1000}
+              textAlignVertical="top"
+              className="text-base text-foreground min-h-[80px] py-2"
+              style={{ color: colors.foreground }}
+            />
+          </View>
+
+          {/* Date */}
+          <Text className="text-muted text-sm mx-5 mt-2 mb-2">날짜</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ paddingHorizontal: 20 }}>
+            {days.map((day, index) => (
+              <Pressable
+                key={day.getTime()}
+                onPress={() => setDayOffset(index)}
+                style={({ pressed }) => [chip(dayOffset === index), { opacity: pressed ? 0.8 : 1 }]}
+                className="items-center px-3 py-2 rounded-xl mr-2 border border-border"
+              >
+                <Text className="text-xs" style={chipText(dayOffset === index)}>
+                  {index === 0 ? "오늘" : WEEKDAYS[day.getDay()]}
+                </Text>
+                <Text className="text-base font-bold" style={chipText(dayOffset === index)}>
+                  {day.getMonth() + 1}/{day.getDate()}
+                </Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+
+          {/* Time */}
+          <Text className="text-muted text-sm mx-5 mt-4 mb-2">출발 시간</Text>
+          <View className="flex-row items-center mx-5">
+            <Pressable
+              onPress={() => stepTime(-60)}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="bg-surface border border-border rounded-full w-9 h-9 items-center justify-center"
+            >
+              <MaterialIcons name="keyboard-double-arrow-left" size={20} color={colors.foreground} />
+            </Pressable>
+            <Pressable
+              onPress={() => stepTime(-MINUTE_STEP)}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="bg-surface border border-border rounded-full w-9 h-9 items-center justify-center ml-2"
+            >
+              <MaterialIcons name="remove" size={20} color={colors.foreground} />
+            </Pressable>
+            <Text className="text-2xl font-bold text-foreground flex-1 text-center">
+              {String(hour).padStart(2, "0")}:{String(minute).padStart(2, "0")}
+            </Text>
+            <Pressable
+              onPress={() => stepTime(MINUTE_STEP)}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="bg-surface border border-border rounded-full w-9 h-9 items-center justify-center mr-2"
+            >
+              <MaterialIcons name="add" size={20} color={colors.foreground} />
+            </Pressable>
+            <Pressable
+              onPress={() => stepTime(60)}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="bg-surface border border-border rounded-full w-9 h-9 items-center justify-center"
+            >
+              <MaterialIcons name="keyboard-double-arrow-right" size={20} color={colors.foreground} />
+            </Pressable>
+          </View>
+
+          {/* Meeting Point */}
+          <Text className="text-muted text-sm mx-5 mt-5 mb-2">집결지</Text>
+          <View className="mx-5">
+            <TextInput
+              value={meetingName}
+              onChangeText={setMeetingName}
+              placeholder="집결지 이름 (예: 여의도 한강공원 물빛광장)"
+              placeholderTextColor={colors.muted}
+              maxLength={100}
+              className="text-base text-foreground py-2 px-3 bg-surface rounded-lg border border-border"
+              style={{ color: colors.foreground }}
+            />
+            <View className="flex-row flex-wrap mt-2">
+              <Pressable
+                onPress={pickCurrentLocation}
+                disabled={isLocating}
+                style={({ pressed }) => [{ opacity: pressed ? 0.8 : 1 }]}
+                className="flex-row items-center px-3 py-2 rounded-full mr-2 mb-2 bg-primary/10"
+              >
+                {isLocating ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <MaterialIcons name="my-location" size={16} color={colors.primary} />
+                )}
+                <Text className="text-primary text-sm font-medium ml-1">현재 위치</Text>
+              </Pressable>
+              {favorites.map((place) => (
+                <Pressable
+                  key={place.id}
+                  onPress={() => chooseMeetingPoint({ name: place.name, latitude: place.lat, longitude: place.lng })}
+                  style={({ pressed }) => [{ opacity: pressed ? 0.8 : 1 }]}
+                  className="flex-row items-center px-3 py-2 rounded-full mr-2 mb-2 bg-surface border border-border"
+                >
+                  <MaterialIcons name="star" size={16} color={colors.warning} />
+                  <Text className="text-foreground text-sm ml-1">{place.name}</Text>
+                </Pressable>
+              ))}
+            </View>
+            {meetingPoint && (
+              <View className="flex-row items-center mt-1">
+                <MaterialIcons name="place" size={16} color={colors.success} />
+                <Text className="text-muted text-xs ml-1">
+                  {meetingPoint.name} ({meetingPoint.latitude.toFixed(5)}, {meetingPoint.longitude.toFixed(5)})
+                </Text>
+              </View>
+            )}
+          </View>
+
+          {/* Planned Route */}
+          <Text className="text-muted text-sm mx-5 mt-5 mb-2">경로 (선택사항)</Text>
+          {routes.length === 0 ? (
+            <Text className="text-muted text-xs mx-5">저장된 경로가 없습니다. GPX 경로를 저장하면 여기서 고를 수 있습니다.</Text>
+          ) : (
+            <View className="mx-5">
+              {[null, ...routes.map((_, i) => i)].map((index) => {
+                const route = index !== null ? routes[index] : null;
+                const selected = routeIndex === index;
+                return (
+                  <Pressable
+                    key={index ?? "none"}
+                    onPress={() => chooseRoute(index)}
+                    style={({ pressed }) => [{ opacity: pressed ? 0.8 : 1 }]}
+                    className="flex-row items-center py-2"
+                  >
+                    <MaterialIcons
+                      name={selected ? "radio-button-checked" : "radio-button-unchecked"}
+                      size={20}
+                      color={selected ? colors.primary : colors.muted}
+                    />
+                    <Text className="text-foreground ml-2 flex-1" numberOfLines={1}>
+                      {route ? route.name : "경로 없음"}
+                    </Text>
+                    {route && (
+                      <Text className="text-muted text-xs">{(route.totalDistance / 1000).toFixed(1)}km</Text>
+                    )}
+                  </Pressable>
+                );
+              })}
+            </View>
+          )}
+
+          {/* Pace */}
+          <Text className="text-muted text-sm mx-5 mt-5 mb-2">페이스</Text>
+          <View className="flex-row mx-5">
+            {PACE_OPTIONS.map((option) => (
+              <Pressable
+                key={option.value}
+                onPress={() => setPaceLevel(option.value)}
+                style={({ pressed }) => [chip(paceLevel === option.value), { opacity: pressed ? 0.8 : 1, flex: 1 }]}
+                className="items-center py-2 rounded-xl mr-2 border border-border"
+              >
+                <Text className="font-semibold" style={chipText(paceLevel === option.value)}>{option.label}</Text>
+                <Text className="text-xs" style={chipText(paceLevel === option.value)}>
+                  {PACE_SPEED_RANGES[option.value].min}~{PACE_SPEED_RANGES[option.value].max}km/h
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {/* Capacity */}
+          <Text className="text-muted text-sm mx-5 mt-5 mb-2">정원 (호스트 포함)</Text>
+          <View className="flex-row items-center mx-5">
+            <Pressable
+              onPress={() => setCapacity((c) => Math.max(MIN_RIDE_CAPACITY, c - 1))}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="bg-surface border border-border rounded-full w-9 h-9 items-center justify-center"
+            >
+              <MaterialIcons name="remove" size={20} color={colors.foreground} />
+            </Pressable>
+            <Text className="text-xl font-bold text-foreground mx-6">{capacity}명</Text>
+            <Pressable
+              onPress={() => setCapacity((c) => Math.min(MAX_RIDE_CAPACITY, c + 1))}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="bg-surface border border-border rounded-full w-9 h-9 items-center justify-center"
+            >
+              <MaterialIcons name="add" size={20} color={colors.foreground} />
+            </Pressable>
+          </View>
+
+          {/* Visibility */}
+          <View className="flex-row items-center mx-5 mt-6 p-4 bg-surface rounded-xl border border-border">
+            <MaterialIcons name="travel-explore" size={22} color={colors.primary} />
+            <View className="ml-3 flex-1">
+              <Text className="text-foreground font-medium">공개 라이딩</Text>
+              <Text className="text-muted text-xs">
+                주변 라이더가 찾아서 참가할 수 있어요. 정확한 집결지는 참가 신청한 라이더에게만 보여요.
+              </Text>
+            </View>
+            <Switch
+              value={isPublic}
+              onValueChange={setIsPublic}
+              trackColor={{ false: colors.border, true: colors.primary }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+
+          <Text className="text-muted text-xs mx-5 mt-4">
+            출발 시간이 되면 그룹이 자동으로 만들어지고, 참가하는 라이더에게 그룹 코드가 전송됩니다.
+          </Text>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </ScreenContainer>
+  );
+}
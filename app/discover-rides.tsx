@@ -0,0 +1,299 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Text,
+  View,
+  FlatList,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  Switch,
+} from "react-native";
+import { useRouter } from "expo-router";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+import * as Location from "expo-location";
+
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+import { SCOOTER_CLASSES, type ScooterClass } from "@/shared/ride-discovery";
+
+const RADIUS_OPTIONS = [5, 10, 25, 50];
+
+const TIME_WINDOWS = [
+  { value: "today", label: "오늘" },
+  { value: "week", label: "7일" },
+  { value: "twoWeeks", label: "2주" },
+] as const;
+
+type TimeWindow = (typeof TIME_WINDOWS)[number]["value"];
+
+const SCOOTER_CLASS_LABELS: Record<ScooterClass, string> = {
+  standard: "일반 (~36V)",
+  performance: "고성능 (48~52V)",
+  high_performance: "하이엔드 (60V~)",
+};
+
+const formatStart = (time: number) =>
+  new Date(time).toLocaleString("ko-KR", {
+    month: "short",
+    day: "numeric",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function DiscoverRidesScreen() {
+  const router = useRouter();
+  const colors = useColors();
+
+  const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [locationDenied, setLocationDenied] = useState(false);
+  const [radiusKm, setRadiusKm] = useState(10);
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>("week");
+  const [matchMyPace, setMatchMyPace] = useState(false);
+  const [scooterClass, setScooterClass] = useState<ScooterClass | null>(null);
+  const [now] = useState(() => Date.now());
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== "granted") {
+          setLocationDenied(true);
+          return;
+        }
+        const current = await Location.getCurrentPositionAsync({});
+        setLocation({ latitude: current.coords.latitude, longitude: current.coords.longitude });
+      } catch (error) {
+        console.error("Failed to get current location:", error);
+        setLocationDenied(true);
+      }
+    })();
+  }, []);
+
+  const until = useMemo(() => {
+    if (timeWindow === "today") {
+      const endOfDay = new Date(now);
+      endOfDay.setHours(23, 59, 59, 999);
+      return endOfDay.getTime();
+    }
+    return now + (timeWindow === "week" ? 7 : 14) * 24 * 60 * 60_000;
+  }, [now, timeWindow]);
+
+  const discoverQuery = trpc.scheduledRides.discover.useQuery(
+    {
+      latitude: location?.latitude ?? 0,
+      longitude: location?.longitude ?? 0,
+      radiusKm,
+      from: now,
+      until,
+      matchMyPace,
+      scooterClass: scooterClass ?? undefined,
+    },
+    { enabled: !!location }
+  );
+
+  const joinMutation = trpc.groups.join.useMutation({
+    onSuccess: (data) => {
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      Alert.alert(
+        "참가 요청 완료",
+        data.status === "pending"
+          ? `"${data.groupName}" 호스트가 승인하면 그룹 라이딩에 참가할 수 있습니다.`
+          : `"${data.groupName}" 그룹에 참가했습니다.`
+      );
+    },
+    onError: (error) => {
+      Alert.alert("오류", error.message || "그룹 참가에 실패했습니다.");
+    },
+  });
+
+  const rides = discoverQuery.data?.rides ?? [];
+  const myTypicalSpeed = discoverQuery.data?.myTypicalSpeed ?? null;
+  type Ride = (typeof rides)[number];
+
+  const openRide = (ride: Ride) => {
+    if (ride.kind === "scheduled_ride") {
+      router.push(`/scheduled-ride-detail?rideId=${ride.id}` as never);
+      return;
+    }
+    if (!ride.code) return;
+    const code = ride.code;
+    Alert.alert("그룹 참가 요청", `"${ride.title}" 그룹에 참가를 요청할까요?`, [
+      { text: "취소", style: "cancel" },
+      { text: "참가 요청", onPress: () => joinMutation.mutate({ code }) },
+    ]);
+  };
+
+  const chip = (selected: boolean) => [
+    { backgroundColor: selected ? colors.primary : colors.surface },
+  ];
+  const chipText = (selected: boolean) => ({ color: selected ? "#FFFFFF" : colors.foreground });
+
+  const renderRide = ({ item }: { item: Ride }) => (
+    <Pressable
+      onPress={() => openRide(item)}
+      style={({ pressed }) => [{ opacity: pressed ? 0.8 : 1 }]}
+      className="bg-surface rounded-xl p-4 mb-3 border border-border"
+    >
+      <View className="flex-row items-center">
+        <View className={`px-2 py-0.5 rounded-full mr-2 ${item.kind === "group" ? "bg-success/20" : "bg-primary/20"}`}>
+          <Text className={`text-xs font-medium ${item.kind === "group" ? "text-success" : "text-primary"}`}>
+            {item.kind === "group" ? "모집 중" : "일정"}
+          </Text>
+        </View>
+        <Text className="text-base font-bold text-foreground flex-1" numberOfLines={1}>{item.title}</Text>
+        <Text className="text-sm text-muted">약 {item.distanceKm}km</Text>
+      </View>
+      <View className="flex-row items-center mt-2">
+        <MaterialIcons name="event" size={16} color={colors.muted} />
+        <Text className="text-sm text-foreground ml-1.5">
+          {item.startsAt ? formatStart(item.startsAt) : "호스트가 출발하면 바로 시작"}
+        </Text>
+      </View>
+      <View className="flex-row items-center mt-1">
+        <MaterialIcons name="place" size={16} color={colors.muted} />
+        <Text className="text-sm text-muted ml-1.5 flex-1" numberOfLines={1}>{item.meetingPointName} 부근</Text>
+      </View>
+      <View className="flex-row items-center mt-2">
+        <MaterialIcons name="speed" size={16} color={colors.muted} />
+        <Text className="text-xs text-muted ml-1">
+          {item.typicalSpeed !== null ? `평균 ${item.typicalSpeed.toFixed(1)}km/h` : "페이스 정보 없음"}
+        </Text>
+        {item.scooterClasses.length > 0 && (
+          <Text className="text-xs text-muted ml-2" numberOfLines={1}>
+            · {item.scooterClasses.map((c) => SCOOTER_CLASS_LABELS[c].split(" ")[0]).join(", ")}
+          </Text>
+        )}
+        <View className="flex-1" />
+        <MaterialIcons name="groups" size={16} color={colors.muted} />
+        <Text className="text-xs text-muted ml-1">
+          {item.capacity ? `${item.riderCount}/${item.capacity}` : item.riderCount}
+        </Text>
+      </View>
+    </Pressable>
+  );
+
+  return (
+    <ScreenContainer className="flex-1">
+      {/* Header */}
+      <View className="flex-row items-center px-4 py-3 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text className="text-lg font-bold text-foreground ml-4">주변 라이딩 찾기</Text>
+      </View>
+
+      {/* Filters */}
+      <View className="pt-3 pb-1 border-b border-border">
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ paddingHorizontal: 16 }}>
+          {RADIUS_OPTIONS.map((radius) => (
+            <Pressable
+              key={radius}
+              onPress={() => setRadiusKm(radius)}
+              style={({ pressed }) => [...chip(radiusKm === radius), { opacity: pressed ? 0.8 : 1 }]}
+              className="px-3 py-1.5 rounded-full mr-2 border border-border"
+            >
+              <Text className="text-sm" style={chipText(radiusKm === radius)}>{radius}km</Text>
+            </Pressable>
+          ))}
+          <View className="w-px bg-border mx-1" />
+          {TIME_WINDOWS.map((window) => (
+            <Pressable
+              key={window.value}
+              onPress={() => setTimeWindow(window.value)}
+              style={({ pressed }) => [...chip(timeWindow === window.value), { opacity: pressed ? 0.8 : 1 }]}
+              className="px-3 py-1.5 rounded-full ml-2 border border-border"
+            >
+              <Text className="text-sm" style={chipText(timeWindow === window.value)}>{window.label}</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ paddingHorizontal: 16, paddingTop: 8 }}>
+          <Pressable
+            onPress={() => setScooterClass(null)}
+            style={({ pressed }) => [...chip(scooterClass === null), { opacity: pressed ? 0.8 : 1 }]}
+            className="px-3 py-1.5 rounded-full mr-2 border border-border"
+          >
+            <Text className="text-sm" style={chipText(scooterClass === null)}>모든 기체</Text>
+          </Pressable>
+          {SCOOTER_CLASSES.map((value) => (
+            <Pressable
+              key={value}
+              onPress={() => setScooterClass(value)}
+              style={({ pressed }) => [...chip(scooterClass === value), { opacity: pressed ? 0.8 : 1 }]}
+              className="px-3 py-1.5 rounded-full mr-2 border border-border"
+            >
+              <Text className="text-sm" style={chipText(scooterClass === value)}>{SCOOTER_CLASS_LABELS[value]}</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+        <View className="flex-row items-center px-4 py-2">
+          <MaterialIcons name="speed" size={20} color={colors.primary} />
+          <View className="ml-2 flex-1">
+            <Text className="text-foreground font-medium">내 페이스에 맞추기</Text>
+            <Text className="text-muted text-xs">
+              {myTypicalSpeed !== null
+                ? `최근 주행 평균 ${myTypicalSpeed.toFixed(1)}km/h 기준 ±3km/h`
+                : "주행 기록이 쌓이면 페이스가 비슷한 라이딩을 찾아드려요"}
+            </Text>
+          </View>
+          <Switch
+            value={matchMyPace}
+            onValueChange={setMatchMyPace}
+            disabled={myTypicalSpeed === null}
+            trackColor={{ false: colors.border, true: colors.primary }}
+            thumbColor="#FFFFFF"
+          />
+        </View>
+      </View>
+
+      {locationDenied ? (
+        <View className="flex-1 items-center justify-center px-8">
+          <MaterialIcons name="location-off" size={64} color={colors.muted} />
+          <Text className="text-base text-foreground mt-4 text-center">
+            주변 라이딩을 찾으려면 위치 권한이 필요합니다.
+          </Text>
+        </View>
+      ) : !location || discoverQuery.isLoading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={rides}
+          renderItem={renderRide}
+          keyExtractor={(item) => `${item.kind}-${item.id}`}
+          contentContainerStyle={{ padding: 16, flexGrow: 1 }}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <View className="flex-1 items-center justify-center px-8">
+              <MaterialIcons name="travel-explore" size={64} color={colors.muted} />
+              <Text className="text-lg font-medium text-foreground mt-4 text-center">
+                조건에 맞는 라이딩이 없습니다
+              </Text>
+              <Text className="text-sm text-muted mt-2 text-center">
+                검색 반경이나 기간을 넓히거나, 직접 라이딩을 만들어 라이더를 모아보세요.
+              </Text>
+              <Pressable
+                onPress={() => router.push("/create-scheduled-ride" as never)}
+                style={({ pressed }) => [{ opacity: pressed ? 0.8 : 1 }]}
+                className="bg-primary px-5 py-3 rounded-lg mt-5"
+              >
+                <Text className="text-white font-semibold">라이딩 일정 만들기</Text>
+              </Pressable>
+            </View>
+          }
+        />
+      )}
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  Text,
+  View,
+  ScrollView,
+  Pressable,
+  Platform,
+  ActivityIndicator,
+  Alert,
+  Image,
+} from "react-native";
+import { useRouter } from "expo-router";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+import {
+  SafetySettings,
+  COUNTDOWN_OPTIONS,
+  getSafetySettings,
+  saveSafetySettings,
+} from "@/lib/safety-settings";
+
+export default function EmergencyContactsScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const [settings, setSettings] = useState<SafetySettings | null>(null);
+  const [showFriendPicker, setShowFriendPicker] = useState(false);
+
+  const { data: contacts, isLoading: contactsLoading } = trpc.safety.listContacts.useQuery();
+  const { data: friends } = trpc.friends.getFriends.useQuery(undefined, { enabled: showFriendPicker });
+
+  const addContact = trpc.safety.addContact.useMutation({
+    onSuccess: (result) => {
+      if (!result.success) {
+        Alert.alert("추가 실패", result.error || "비상 연락처를 추가하지 못했습니다.");
+        return;
+      }
+      utils.safety.listContacts.invalidate();
+      setShowFriendPicker(false);
+    },
+  });
+
+  const removeContact = trpc.safety.removeContact.useMutation({
+    onSuccess: () => utils.safety.listContacts.invalidate(),
+  });
+
+  useEffect(() => {
+    getSafetySettings().then(setSettings);
+  }, []);
+
+  const updateSetting = useCallback(async <K extends keyof SafetySettings>(key: K, value: SafetySettings[K]) => {
+    if (!settings) return;
+
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+
+    const newSettings = { ...settings, [key]: value };
+    setSettings(newSettings);
+    await saveSafetySettings(newSettings);
+  }, [settings]);
+
+  const handleRemove = (contactUserId: number, name: string | null) => {
+    Alert.alert("비상 연락처 삭제", `${name || "이 사용자"}님을 비상 연락처에서 삭제할까요?`, [
+      { text: "취소", style: "cancel" },
+      {
+        text: "삭제",
+        style: "destructive",
+        onPress: () => removeContact.mutate({ contactUserId }),
+      },
+    ]);
+  };
+
+  if (!settings) {
+    return (
+      <ScreenContainer>
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </ScreenContainer>
+    );
+  }
+
+  const contactIds = new Set((contacts ?? []).map((c) => c.contactUserId));
+  const selectableFriends = (friends ?? []).filter((f) => !contactIds.has(f.id));
+
+  return (
+    <ScreenContainer>
+      {/* Header */}
+      <View className="flex-row items-center px-5 py-4 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+          className="mr-4"
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text className="text-xl font-bold text-foreground">사고 감지</Text>
+      </View>
+
+      <ScrollView className="flex-1 p-5">
+        {/* Main Toggle */}
+        <View className="bg-surface rounded-2xl border border-border p-4 mb-6">
+          <Pressable
+            onPress={() => updateSetting("crashDetectionEnabled", !settings.crashDetectionEnabled)}
+            style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+            className="flex-row items-center"
+          >
+            <MaterialIcons
+              name="health-and-safety"
+              size={32}
+              color={settings.crashDetectionEnabled ? colors.primary : colors.muted}
+            />
+            <View className="flex-1 ml-4">
+              <Text className="text-lg font-bold text-foreground">사고 감지</Text>
+              <Text className="text-muted text-sm">
+                주행 중 충격 후 움직임이 없으면 경보를 울리고 위치를 전송합니다
+              </Text>
+            </View>
+            <View
+              className="w-14 h-8 rounded-full"
+              style={{
+                backgroundColor: settings.crashDetectionEnabled ? colors.primary : colors.border,
+                flexDirection: 'row',
+                justifyContent: settings.crashDetectionEnabled ? 'flex-end' : 'flex-start',
+                alignItems: 'center',
+                padding: 2,
+              }}
+            >
+              <View
+                className="w-7 h-7 rounded-full"
+                style={{ backgroundColor: '#FFFFFF' }}
+              />
+            </View>
+          </Pressable>
+        </View>
+
+        {/* Countdown */}
+        <Text className="text-lg font-bold text-foreground mb-3">경보 대기 시간</Text>
+        <View className="bg-surface rounded-2xl border border-border p-4 mb-6">
+          <View className="flex-row flex-wrap gap-2">
+            {COUNTDOWN_OPTIONS.map((seconds) => (
+              <Pressable
+                key={seconds}
+                onPress={() => updateSetting("countdownSeconds", seconds)}
+                style={({ pressed }) => [{
+                  opacity: pressed ? 0.7 : 1,
+                  backgroundColor: settings.countdownSeconds === seconds ? colors.primary : colors.background,
+                  borderColor: settings.countdownSeconds === seconds ? colors.primary : colors.border,
+                }]}
+                className="px-4 py-2 rounded-full border"
+              >
+                <Text
+                  style={{ color: settings.countdownSeconds === seconds ? "#FFFFFF" : colors.foreground }}
+                  className="font-medium"
+                >
+                  {seconds}초
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <Text className="text-muted text-xs mt-3">
+            이 시간 안에 취소하지 않으면 비상 연락처와 그룹 라이딩 멤버에게 알립니다.
+          </Text>
+        </View>
+
+        {/* Contacts */}
+        <View className="flex-row items-center justify-between mb-3">
+          <Text className="text-lg font-bold text-foreground">비상 연락처</Text>
+          <Pressable
+            onPress={() => setShowFriendPicker(!showFriendPicker)}
+            style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+            className="flex-row items-center"
+          >
+            <MaterialIcons name={showFriendPicker ? "close" : "person-add"} size={20} color={colors.primary} />
+            <Text className="text-primary font-medium ml-1">{showFriendPicker ? "닫기" : "친구 추가"}</Text>
+          </Pressable>
+        </View>
+
+        {showFriendPicker && (
+          <View className="bg-surface rounded-2xl border border-border overflow-hidden mb-4">
+            {selectableFriends.length === 0 ? (
+              <Text className="text-muted text-center p-4">추가할 수 있는 친구가 없습니다</Text>
+            ) : (
+              selectableFriends.map((friend) => (
+                <Pressable
+                  key={friend.id}
+                  onPress={() => addContact.mutate({ contactUserId: friend.id })}
+                  disabled={addContact.isPending}
+                  style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                  className="flex-row items-center p-4 border-b border-border"
+                >
+                  <MaterialIcons name="person" size={24} color={colors.muted} />
+                  <Text className="flex-1 ml-3 text-foreground">{friend.name || "이름 없음"}</Text>
+                  <MaterialIcons name="add-circle-outline" size={24} color={colors.primary} />
+                </Pressable>
+              ))
+            )}
+          </View>
+        )}
+
+        <View className="bg-surface rounded-2xl border border-border overflow-hidden mb-8">
+          {contactsLoading ? (
+            <ActivityIndicator className="p-4" color={colors.primary} />
+          ) : !contacts || contacts.length === 0 ? (
+            <View className="items-center p-6">
+              <MaterialIcons name="contact-phone" size={40} color={colors.muted} />
+              <Text className="text-muted text-center mt-2">
+                등록된 비상 연락처가 없습니다.{"\n"}사고 시 알림을 받을 친구를 추가하세요.
+              </Text>
+            </View>
+          ) : (
+            contacts.map((contact) => (
+              <View key={contact.id} className="flex-row items-center p-4 border-b border-border">
+                {contact.profileImageUrl ? (
+                  <Image
+                    source={{ uri: contact.profileImageUrl }}
+                    style={{ width: 36, height: 36, borderRadius: 18 }}
+                  />
+                ) : (
+                  <View
+                    style={{ width: 36, height: 36, borderRadius: 18, backgroundColor: colors.primary }}
+                    className="items-center justify-center"
+                  >
+                    <Text className="text-white font-bold">{(contact.name || "?").charAt(0)}</Text>
+                  </View>
+                )}
+                <Text className="flex-1 ml-3 text-foreground font-medium">{contact.name || "이름 없음"}</Text>
+                <Pressable
+                  onPress={() => handleRemove(contact.contactUserId, contact.name)}
+                  style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                >
+                  <MaterialIcons name="delete-outline" size={22} color={colors.error} />
+                </Pressable>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
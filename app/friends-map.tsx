@@ -33,6 +33,8 @@ interface FriendLocation {
   longitude: number;
   heading: number | null;
   speed: number | null;
+  /** false: last location a friend sharing "always" reported after their ride */
+  isRiding: boolean;
   updatedAt: Date;
 }
 
@@ -154,8 +156,14 @@ export default function FriendsMapScreen() {
               {item.name || "Unknown"}
             </Text>
             <View className="flex-row items-center mt-1">
-              <MaterialIcons name="electric-scooter" size={14} color={colors.primary} />
-              <Text className="text-primary text-sm ml-1 font-medium">주행 중</Text>
+              <MaterialIcons
+                name={item.isRiding ? "electric-scooter" : "place"}
+                size={14}
+                color={item.isRiding ? colors.primary : colors.muted}
+              />
+              <Text className={`text-sm ml-1 font-medium ${item.isRiding ? "text-primary" : "text-muted"}`}>
+                {item.isRiding ? "주행 중" : "마지막 위치"}
+              </Text>
               <Text className="text-muted text-xs ml-2">
                 {formatTime(item.updatedAt)}
               </Text>
@@ -237,6 +245,13 @@ export default function FriendsMapScreen() {
           <MaterialIcons name="arrow-back" size={24} color={colors.foreground} />
         </Pressable>
         <Text className="text-xl font-bold text-foreground flex-1">친구 실시간 위치</Text>
+        <Pressable
+          onPress={() => router.push("/location-sharing" as any)}
+          style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+          className="p-2"
+        >
+          <MaterialIcons name="share-location" size={24} color={colors.primary} />
+        </Pressable>
         <Pressable
           onPress={handleRefresh}
           style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
@@ -285,7 +300,7 @@ export default function FriendsMapScreen() {
               <View className="flex-row items-center">
                 <MaterialIcons name="info" size={20} color={colors.primary} />
                 <Text className="text-primary font-medium ml-2">
-                  {ridingFriends.length}명의 친구가 주행 중입니다
+                  {ridingFriends.filter((f) => f.isRiding).length}명의 친구가 주행 중입니다
                 </Text>
               </View>
               <Text className="text-muted text-sm mt-2">
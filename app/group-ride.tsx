@@ -0,0 +1,309 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Text,
+  View,
+  ScrollView,
+  Pressable,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+import Slider from "@react-native-community/slider";
+
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+import { formatDuration } from "@/lib/riding-store";
+import { positionAt, replayColor, replayTimeRange, type ReplayPosition } from "@/lib/group-replay";
+import { GroupReplayMap, type GroupReplayTrack } from "@/components/group-replay-map";
+
+// 재생 배속 (실제 시간 대비)
+const PLAYBACK_SPEEDS = [10, 30, 60, 120];
+const TICK_MS = 100;
+
+const formatClock = (time: number) =>
+  new Date(time).toLocaleTimeString("ko-KR", { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+export default function GroupRideScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const { groupId: groupIdParam } = useLocalSearchParams<{ groupId: string }>();
+  const groupId = parseInt(groupIdParam || "0");
+
+  const rideQuery = trpc.groups.getRide.useQuery({ groupId }, { enabled: groupId > 0 });
+  const shareMutation = trpc.groups.shareRide.useMutation();
+  const ride = rideQuery.data;
+
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speedIndex, setSpeedIndex] = useState(2);
+
+  const tracks = useMemo<GroupReplayTrack[]>(
+    () =>
+      (ride?.members ?? []).map((m, i) => ({
+        userId: m.userId,
+        name: m.name,
+        color: replayColor(i, m.profileColor),
+        track: m.track,
+      })),
+    [ride?.members]
+  );
+
+  const range = useMemo(() => replayTimeRange(tracks.map((t) => t.track)), [tracks]);
+
+  // 데이터를 불러오면 처음부터
+  useEffect(() => {
+    if (range) setTime(range.start);
+  }, [range]);
+
+  // 재생 중에는 배속만큼 시간을 진행하고, 끝에 닿으면 멈춤
+  useEffect(() => {
+    if (!isPlaying || !range) return;
+    const step = TICK_MS * PLAYBACK_SPEEDS[speedIndex];
+    const interval = setInterval(() => {
+      setTime((current) => {
+        const next = current + step;
+        if (next >= range.end) {
+          setIsPlaying(false);
+          return range.end;
+        }
+        return next;
+      });
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, speedIndex, range]);
+
+  const positions = useMemo(() => {
+    const result: Record<number, ReplayPosition | null> = {};
+    tracks.forEach((t) => {
+      result[t.userId] = positionAt(t.track, time);
+    });
+    return result;
+  }, [tracks, time]);
+
+  const togglePlay = () => {
+    if (!range) return;
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    // 끝까지 재생한 뒤에는 처음부터 다시
+    if (!isPlaying && time >= range.end) setTime(range.start);
+    setIsPlaying(!isPlaying);
+  };
+
+  const cycleSpeed = () => {
+    setSpeedIndex((index) => (index + 1) % PLAYBACK_SPEEDS.length);
+  };
+
+  const handleShare = () => {
+    Alert.alert("커뮤니티에 공유", "그룹 주행 요약을 커뮤니티에 게시하시겠습니까?", [
+      { text: "취소", style: "cancel" },
+      {
+        text: "공유",
+        onPress: async () => {
+          try {
+            const { postId } = await shareMutation.mutateAsync({ groupId });
+            if (Platform.OS !== "web") {
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            }
+            Alert.alert("공유 완료", "그룹 주행이 커뮤니티에 게시되었습니다.", [
+              { text: "확인" },
+              { text: "게시글 보기", onPress: () => router.push(`/post-detail?id=${postId}` as never) },
+            ]);
+          } catch (error) {
+            Alert.alert("공유 실패", error instanceof Error ? error.message : "다시 시도해주세요.");
+          }
+        },
+      },
+    ]);
+  };
+
+  if (rideQuery.isLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
+
+  if (!ride || !ride.summary || !range) {
+    return (
+      <ScreenContainer className="items-center justify-center p-6">
+        <MaterialIcons name="error-outline" size={48} color={colors.muted} />
+        <Text className="text-muted mt-4 text-center">
+          {rideQuery.error?.message || "그룹 주행 기록이 없습니다"}
+        </Text>
+        <Pressable onPress={() => router.back()} className="mt-4">
+          <Text className="text-primary">돌아가기</Text>
+        </Pressable>
+      </ScreenContainer>
+    );
+  }
+
+  const { summary } = ride;
+
+  return (
+    <ScreenContainer>
+      {/* Header */}
+      <View className="flex-row items-center px-5 py-4 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text className="text-lg font-bold text-foreground ml-4 flex-1" numberOfLines={1}>
+          {ride.groupName}
+        </Text>
+        <Pressable
+          onPress={handleShare}
+          disabled={shareMutation.isPending}
+          style={({ pressed }) => [{ opacity: pressed || shareMutation.isPending ? 0.5 : 1 }]}
+        >
+          <MaterialIcons name="share" size={24} color={colors.primary} />
+        </Pressable>
+      </View>
+
+      <ScrollView className="flex-1" contentContainerStyle={{ paddingBottom: 32 }}>
+        {/* Replay Map */}
+        <View className="mx-5 mt-4 h-72 rounded-2xl overflow-hidden">
+          <GroupReplayMap tracks={tracks} positions={positions} />
+        </View>
+
+        {/* Playback Controls */}
+        <View className="mx-5 mt-3 bg-surface rounded-2xl p-4 border border-border">
+          <View className="flex-row items-center">
+            <Pressable
+              onPress={togglePlay}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1, backgroundColor: colors.primary }]}
+              className="w-10 h-10 rounded-full items-center justify-center"
+            >
+              <MaterialIcons name={isPlaying ? "pause" : "play-arrow"} size={24} color="#FFFFFF" />
+            </Pressable>
+            <Text className="text-foreground font-bold ml-3 flex-1">{formatClock(time)}</Text>
+            <Pressable
+              onPress={cycleSpeed}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="bg-primary/10 px-3 py-1 rounded-full"
+            >
+              <Text className="text-primary font-medium">{PLAYBACK_SPEEDS[speedIndex]}x</Text>
+            </Pressable>
+          </View>
+          <Slider
+            style={{ width: "100%", height: 40 }}
+            minimumValue={range.start}
+            maximumValue={range.end}
+            value={time}
+            onValueChange={(value: number) => setTime(value)}
+            onSlidingStart={() => setIsPlaying(false)}
+            minimumTrackTintColor={colors.primary}
+            maximumTrackTintColor={colors.border}
+            thumbTintColor={colors.primary}
+          />
+          <View className="flex-row justify-between">
+            <Text className="text-muted text-xs">{formatClock(range.start)}</Text>
+            <Text className="text-muted text-xs">{formatClock(range.end)}</Text>
+          </View>
+        </View>
+
+        {/* Group Summary */}
+        <View className="mx-5 mt-4 bg-surface rounded-2xl p-4 border border-border">
+          <View className="flex-row items-center mb-3">
+            <MaterialIcons name="groups" size={20} color={colors.primary} />
+            <Text className="text-foreground font-semibold ml-2">
+              {summary.memberCount}명이 함께 달렸어요
+            </Text>
+          </View>
+          <View className="flex-row">
+            <View className="flex-1">
+              <Text className="text-sm text-muted">거리</Text>
+              <Text className="text-lg font-bold text-foreground mt-1">
+                {(summary.distance / 1000).toFixed(1)}km
+              </Text>
+            </View>
+            <View className="flex-1">
+              <Text className="text-sm text-muted">시간</Text>
+              <Text className="text-lg font-bold text-foreground mt-1">
+                {formatDuration(summary.duration)}
+              </Text>
+            </View>
+            <View className="flex-1">
+              <Text className="text-sm text-muted">평균 속도</Text>
+              <Text className="text-lg font-bold text-foreground mt-1">
+                {summary.avgSpeed.toFixed(1)}km/h
+              </Text>
+            </View>
+          </View>
+          <View className="h-px bg-border my-3" />
+          <View className="flex-row items-center">
+            <MaterialIcons name="speed" size={18} color={colors.warning} />
+            <Text className="text-foreground ml-2">
+              최고 속도:{" "}
+              <Text className="font-bold">{summary.topSpeed.speed.toFixed(1)}km/h</Text>
+              {" "}({summary.topSpeed.name || "라이더"})
+            </Text>
+          </View>
+          <Text className="text-muted text-xs mt-2">
+            멤버 합계 {(summary.totalDistance / 1000).toFixed(1)}km
+          </Text>
+        </View>
+
+        {/* Member Stats */}
+        <Text className="text-foreground font-semibold mx-5 mt-5 mb-2">멤버별 기록</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ paddingHorizontal: 20 }}>
+          {ride.members.map((member, index) => {
+            const position = positions[member.userId];
+            return (
+              <Pressable
+                key={member.userId}
+                onPress={() => router.push(`/user-profile?userId=${member.userId}` as never)}
+                style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1, borderColor: tracks[index].color }]}
+                className="w-36 bg-surface rounded-2xl p-3 mr-3 border"
+              >
+                <View className="flex-row items-center mb-2">
+                  <View
+                    style={{ width: 10, height: 10, borderRadius: 5, backgroundColor: tracks[index].color }}
+                  />
+                  <Text className="text-foreground font-medium ml-2 flex-1" numberOfLines={1}>
+                    {member.name || "라이더"}
+                  </Text>
+                </View>
+                <Text className="text-muted text-xs">거리</Text>
+                <Text className="text-foreground font-bold">{(member.distance / 1000).toFixed(1)}km</Text>
+                <Text className="text-muted text-xs mt-1">시간</Text>
+                <Text className="text-foreground font-bold">{formatDuration(member.duration)}</Text>
+                <Text className="text-muted text-xs mt-1">평균 / 최고</Text>
+                <Text className="text-foreground font-bold">
+                  {member.avgSpeed.toFixed(1)} / {member.maxSpeed.toFixed(1)}
+                </Text>
+                <Text className="text-xs mt-2" style={{ color: colors.muted }}>
+                  {position?.state === "waiting"
+                    ? "출발 전"
+                    : position?.state === "finished"
+                      ? "도착"
+                      : position?.speed !== null && position?.speed !== undefined
+                        ? `${position.speed.toFixed(1)}km/h`
+                        : "주행 중"}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+
+        {/* Share */}
+        <Pressable
+          onPress={handleShare}
+          disabled={shareMutation.isPending}
+          style={({ pressed }) => [{ opacity: pressed || shareMutation.isPending ? 0.7 : 1, backgroundColor: colors.primary }]}
+          className="mx-5 mt-5 py-3 rounded-xl flex-row items-center justify-center"
+        >
+          <MaterialIcons name="forum" size={20} color="#FFFFFF" />
+          <Text className="text-white font-semibold ml-2">커뮤니티에 공유</Text>
+        </Pressable>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
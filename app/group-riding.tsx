@@ -31,6 +31,7 @@ interface GroupMember {
   name: string | null;
   profileImageUrl: string | null;
   isHost: boolean;
+  rideRole?: "leader" | "sweep" | null;
   isRiding: boolean;
   status?: "pending" | "approved" | "rejected" | null;
   distance: number;
@@ -48,6 +49,7 @@ interface GroupSession {
   hostName: string | null;
   isActive: boolean;
   isRiding: boolean;
+  isPublic: boolean;
   members: GroupMember[];
 }
 
@@ -159,6 +161,32 @@ export default function GroupRidingScreen() {
     },
   });
 
+  // 라이딩 역할 지정 mutation
+  const setRideRoleMutation = trpc.groups.setRideRole.useMutation({
+    onSuccess: () => {
+      utils.groups.mine.invalidate();
+      if (Platform.OS !== "web") {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+    },
+    onError: (error) => {
+      Alert.alert(t("common.error"), error.message || t("groupRiding.alerts.rideRoleError"));
+    },
+  });
+
+  // 공개 모집 설정 mutation
+  const setPublicMutation = trpc.groups.setPublic.useMutation({
+    onSuccess: (_, variables) => {
+      utils.groups.mine.invalidate();
+      if (variables.isPublic) {
+        Alert.alert(t("groupRiding.alerts.publicOn"), t("groupRiding.alerts.publicOnMessage"));
+      }
+    },
+    onError: (error) => {
+      Alert.alert(t("common.error"), error.message || t("groupRiding.alerts.publicError"));
+    },
+  });
+
   useFocusEffect(
     useCallback(() => {
       refetch();
@@ -241,6 +269,23 @@ export default function GroupRidingScreen() {
     );
   };
 
+  // 리더 / 스위퍼 지정 (호스트만)
+  const handleMemberRole = (group: GroupSession, member: GroupMember) => {
+    const setRole = (rideRole: "leader" | "sweep" | null) =>
+      setRideRoleMutation.mutate({ groupId: group.id, memberId: member.userId, rideRole });
+
+    Alert.alert(
+      t("groupRiding.alerts.rideRole"),
+      t("groupRiding.alerts.rideRoleMessage", { name: member.name || t("groupRiding.anonymous") }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        ...(member.rideRole !== "leader" ? [{ text: t("groupRiding.alerts.setLeader"), onPress: () => setRole("leader") }] : []),
+        ...(member.rideRole !== "sweep" ? [{ text: t("groupRiding.alerts.setSweep"), onPress: () => setRole("sweep") }] : []),
+        ...(member.rideRole ? [{ text: t("groupRiding.alerts.clearRole"), style: "destructive" as const, onPress: () => setRole(null) }] : []),
+      ]
+    );
+  };
+
   const renderGroupItem = ({ item }: { item: GroupSession }) => (
     <View className="bg-surface rounded-xl p-4 mb-3 border border-border">
       <View className="flex-row items-start justify-between">
@@ -270,6 +315,19 @@ export default function GroupRidingScreen() {
             >
               <MaterialIcons name="share" size={16} color={colors.primary} />
             </Pressable>
+            {item.hostId === user?.id && !item.isRiding && (
+              <Pressable
+                onPress={() => setPublicMutation.mutate({ groupId: item.id, isPublic: !item.isPublic })}
+                disabled={setPublicMutation.isPending}
+                style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+                className={`flex-row items-center ml-3 px-2 py-0.5 rounded-full ${item.isPublic ? "bg-primary/20" : "bg-border"}`}
+              >
+                <MaterialIcons name={item.isPublic ? "public" : "public-off"} size={14} color={item.isPublic ? colors.primary : colors.muted} />
+                <Text className={`text-xs font-medium ml-1 ${item.isPublic ? "text-primary" : "text-muted"}`}>
+                  {item.isPublic ? t("groupRiding.publicRecruiting") : t("groupRiding.private")}
+                </Text>
+              </Pressable>
+            )}
           </View>
         </View>
         <Pressable
@@ -292,8 +350,11 @@ export default function GroupRidingScreen() {
         </Text>
         <View className="flex-row flex-wrap gap-2">
           {item.members.filter(m => m.status !== "pending").map((member) => (
-            <View
+            <Pressable
               key={member.userId}
+              onPress={() => handleMemberRole(item, member)}
+              disabled={item.hostId !== user?.id}
+              style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
               className="flex-row items-center bg-background rounded-full px-3 py-1.5"
             >
               {member.profileImageUrl ? (
@@ -318,7 +379,12 @@ export default function GroupRidingScreen() {
               {member.isRiding && (
                 <MaterialIcons name="electric-scooter" size={12} color={colors.success} style={{ marginLeft: 2 }} />
               )}
-            </View>
+              {member.rideRole && (
+                <Text className="text-xs text-primary font-medium ml-1">
+                  {member.rideRole === "leader" ? t("groupRiding.leader") : t("groupRiding.sweep")}
+                </Text>
+              )}
+            </Pressable>
           ))}
         </View>
       </View>
@@ -443,6 +509,32 @@ export default function GroupRidingScreen() {
         </Pressable>
       </View>
 
+      {/* Scheduled Rides */}
+      <Pressable
+        onPress={() => router.push("/scheduled-rides" as never)}
+        style={({ pressed }) => [{ opacity: pressed ? 0.8 : 1 }]}
+        className="flex-row items-center mx-4 mb-1 px-4 py-3 rounded-lg bg-surface border border-border"
+      >
+        <MaterialIcons name="event" size={20} color={colors.primary} />
+        <View className="flex-1 ml-3">
+          <Text className="text-foreground font-semibold">{t("groupRiding.scheduledRides")}</Text>
+          <Text className="text-xs text-muted mt-0.5">{t("groupRiding.scheduledRidesDesc")}</Text>
+        </View>
+        <MaterialIcons name="chevron-right" size={20} color={colors.muted} />
+      </Pressable>
+      <Pressable
+        onPress={() => router.push("/discover-rides" as never)}
+        style={({ pressed }) => [{ opacity: pressed ? 0.8 : 1 }]}
+        className="flex-row items-center mx-4 mt-2 mb-1 px-4 py-3 rounded-lg bg-surface border border-border"
+      >
+        <MaterialIcons name="travel-explore" size={20} color={colors.primary} />
+        <View className="flex-1 ml-3">
+          <Text className="text-foreground font-semibold">{t("groupRiding.discoverRides")}</Text>
+          <Text className="text-xs text-muted mt-0.5">{t("groupRiding.discoverRidesDesc")}</Text>
+        </View>
+        <MaterialIcons name="chevron-right" size={20} color={colors.muted} />
+      </Pressable>
+
       {/* Groups List */}
       {isLoading ? (
         <View className="flex-1 items-center justify-center">
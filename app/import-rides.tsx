@@ -0,0 +1,286 @@
+import { useState } from "react";
+import {
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  Alert,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { MaterialIcons } from "@expo/vector-icons";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import * as Haptics from "expo-haptics";
+
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { useAuth } from "@/hooks/use-auth";
+import { trpc } from "@/lib/trpc";
+import {
+  GpsPoint,
+  calculateAverageSpeed,
+  calculateDistance,
+  calculateTotalDistance,
+  getMaxSpeed,
+} from "@/lib/gps-utils";
+import { ImportedRide, base64ToBytes } from "@/lib/ride-formats";
+import { extractRideArchive, parseArchiveFiles } from "@/lib/ride-archive";
+import { fetchAndMergeFromCloud, generateId } from "@/lib/riding-store";
+
+// 서버 요청 1회당 주행 수 (GPS 데이터 크기 고려)
+const IMPORT_BATCH_SIZE = 10;
+
+type ImportStatus = "imported" | "duplicate" | "failed";
+
+interface FileResult {
+  fileName: string;
+  status: ImportStatus;
+  error?: string;
+}
+
+/**
+ * 속도가 없는 포인트(일반 GPX 등)는 이전 포인트와의 거리/시간으로 속도를 채움
+ */
+function withDerivedSpeeds(points: GpsPoint[]): GpsPoint[] {
+  return points.map((point, index) => {
+    if (point.speed !== null || index === 0) return point;
+    const prev = points[index - 1];
+    const dt = (point.timestamp - prev.timestamp) / 1000;
+    if (dt <= 0) return point;
+    const meters = calculateDistance(prev.latitude, prev.longitude, point.latitude, point.longitude);
+    return { ...point, speed: meters / dt };
+  });
+}
+
+function buildImportPayload(fileName: string, ride: ImportedRide) {
+  const points = withDerivedSpeeds(ride.points);
+  const startTime = ride.startTime!;
+  const endTime = ride.endTime ?? startTime;
+  const elapsed = Math.max(0, (endTime.getTime() - startTime.getTime()) / 1000);
+  const distance = calculateTotalDistance(points) || ride.distance || 0;
+  const toText = (value?: number) => (value !== undefined ? String(value) : undefined);
+
+  return {
+    fileName,
+    recordId: generateId(),
+    date: startTime.toLocaleDateString("ko-KR"),
+    duration: Math.round(ride.duration ?? elapsed),
+    distance,
+    avgSpeed: calculateAverageSpeed(points),
+    maxSpeed: getMaxSpeed(points),
+    startTime: startTime.toISOString(),
+    endTime: endTime.toISOString(),
+    gpsPointsJson: JSON.stringify(points),
+    voltageStart: toText(ride.battery.voltageStart),
+    voltageEnd: toText(ride.battery.voltageEnd),
+    socStart: toText(ride.battery.socStart),
+    socEnd: toText(ride.battery.socEnd),
+  };
+}
+
+export default function ImportRidesScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const trpcUtils = trpc.useUtils();
+  const { isAuthenticated } = useAuth();
+  const [scooterId, setScooterId] = useState<number | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<FileResult[]>([]);
+
+  const scootersQuery = trpc.scooters.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+  const importMutation = trpc.rides.importArchive.useMutation();
+
+  const handlePickArchive = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ["application/zip", "application/x-zip-compressed", "*/*"],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets || picked.assets.length === 0) {
+        return;
+      }
+
+      setIsImporting(true);
+      setResults([]);
+
+      const base64 = await FileSystem.readAsStringAsync(picked.assets[0].uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+
+      let parsedFiles;
+      try {
+        parsedFiles = parseArchiveFiles(extractRideArchive(base64ToBytes(base64)));
+      } catch (error) {
+        console.error("[ImportRides] Unzip failed:", error);
+        Alert.alert("오류", "올바른 zip 파일이 아닙니다.");
+        return;
+      }
+
+      if (parsedFiles.length === 0) {
+        Alert.alert("가져올 파일 없음", "zip 파일 안에 GPX/TCX/FIT 파일이 없습니다.");
+        return;
+      }
+
+      const fileResults: FileResult[] = [];
+      const payloads = [];
+      for (const file of parsedFiles) {
+        if (file.ok) {
+          payloads.push(buildImportPayload(file.fileName, file.ride));
+        } else {
+          fileResults.push({ fileName: file.fileName, status: "failed", error: file.error });
+        }
+      }
+
+      setProgress({ done: 0, total: payloads.length });
+      for (let i = 0; i < payloads.length; i += IMPORT_BATCH_SIZE) {
+        const batch = payloads.slice(i, i + IMPORT_BATCH_SIZE);
+        try {
+          const response = await importMutation.mutateAsync({
+            scooterId: scooterId ?? undefined,
+            rides: batch,
+          });
+          fileResults.push(...response.results);
+        } catch (error: any) {
+          console.error("[ImportRides] Batch failed:", error);
+          for (const ride of batch) {
+            fileResults.push({ fileName: ride.fileName, status: "failed", error: error?.message || "Upload failed" });
+          }
+        }
+        setProgress({ done: Math.min(i + IMPORT_BATCH_SIZE, payloads.length), total: payloads.length });
+      }
+
+      fileResults.sort((a, b) => a.fileName.localeCompare(b.fileName));
+      setResults(fileResults);
+
+      const imported = fileResults.filter((r) => r.status === "imported").length;
+      if (imported > 0) {
+        // 가져온 기록을 로컬 주행 기록에 반영
+        await fetchAndMergeFromCloud(trpcUtils);
+        trpcUtils.scooters.list.invalidate();
+      }
+
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(
+          imported > 0 ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Warning
+        );
+      }
+    } catch (error) {
+      console.error("[ImportRides] Import error:", error);
+      Alert.alert("오류", "주행 기록을 가져오는데 실패했습니다.");
+    } finally {
+      setIsImporting(false);
+      setProgress(null);
+    }
+  };
+
+  const countByStatus = (status: ImportStatus) => results.filter((r) => r.status === status).length;
+
+  const statusStyle: Record<ImportStatus, { icon: keyof typeof MaterialIcons.glyphMap; color: string; label: string }> = {
+    imported: { icon: "check-circle", color: colors.success, label: "가져옴" },
+    duplicate: { icon: "content-copy", color: colors.muted, label: "중복" },
+    failed: { icon: "error", color: colors.error, label: "실패" },
+  };
+
+  return (
+    <ScreenContainer className="flex-1">
+      {/* Header */}
+      <View className="flex-row items-center px-4 py-3 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text className="text-xl font-bold text-foreground ml-4">주행 기록 가져오기</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={{ padding: 16 }} showsVerticalScrollIndicator={false}>
+        <Text className="text-muted mb-4">
+          다른 앱에서 내보낸 GPX/TCX/FIT 파일을 zip으로 묶어 선택하세요. 이미 있는 주행(시작 시간 기준)은 건너뜁니다.
+        </Text>
+
+        {/* Scooter selection */}
+        <Text className="text-foreground font-semibold mb-2">기체 선택</Text>
+        <View className="flex-row flex-wrap gap-2 mb-6">
+          <Pressable
+            onPress={() => setScooterId(null)}
+            className={`px-4 py-2 rounded-full border ${scooterId === null ? "bg-primary border-primary" : "border-border"}`}
+          >
+            <Text className={scooterId === null ? "text-white font-medium" : "text-foreground"}>지정 안 함</Text>
+          </Pressable>
+          {scootersQuery.data?.map((scooter) => (
+            <Pressable
+              key={scooter.id}
+              onPress={() => setScooterId(scooter.id)}
+              className={`px-4 py-2 rounded-full border ${scooterId === scooter.id ? "bg-primary border-primary" : "border-border"}`}
+            >
+              <Text className={scooterId === scooter.id ? "text-white font-medium" : "text-foreground"}>
+                {scooter.name}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <Pressable
+          onPress={handlePickArchive}
+          disabled={isImporting}
+          style={({ pressed }) => [
+            { opacity: pressed || isImporting ? 0.8 : 1, transform: [{ scale: pressed ? 0.98 : 1 }] },
+          ]}
+          className="bg-primary py-3 rounded-lg flex-row items-center justify-center"
+        >
+          {isImporting ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <MaterialIcons name="file-upload" size={20} color="#FFFFFF" />
+          )}
+          <Text className="text-white font-semibold ml-2">
+            {isImporting
+              ? progress
+                ? `가져오는 중... (${progress.done}/${progress.total})`
+                : "파일 분석 중..."
+              : "zip 파일 선택"}
+          </Text>
+        </Pressable>
+
+        {/* Results */}
+        {results.length > 0 && (
+          <View className="mt-6">
+            <Text className="text-foreground font-semibold mb-2">
+              결과: 가져옴 {countByStatus("imported")} · 중복 {countByStatus("duplicate")} · 실패 {countByStatus("failed")}
+            </Text>
+            {results.map((result, index) => {
+              const style = statusStyle[result.status];
+              return (
+                <View
+                  key={`${result.fileName}-${index}`}
+                  className="bg-surface rounded-xl p-3 mb-2 border border-border flex-row items-center"
+                >
+                  <MaterialIcons name={style.icon} size={20} color={style.color} />
+                  <View className="flex-1 ml-3">
+                    <Text className="text-foreground" numberOfLines={1}>
+                      {result.fileName}
+                    </Text>
+                    {result.error && (
+                      <Text className="text-xs text-muted mt-1" numberOfLines={2}>
+                        {result.error}
+                      </Text>
+                    )}
+                  </View>
+                  <Text className="text-sm ml-2" style={{ color: style.color }}>
+                    {style.label}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
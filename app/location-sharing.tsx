@@ -0,0 +1,461 @@
+import { useState } from "react";
+import {
+  Text,
+  View,
+  ScrollView,
+  Pressable,
+  Platform,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Share,
+  TextInput,
+} from "react-native";
+import { useRouter } from "expo-router";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+import { getApiBaseUrl } from "@/constants/oauth";
+import {
+  LOCATION_SHARE_MODES,
+  SHARE_LINK_DURATIONS_HOURS,
+  type LocationShareMode,
+} from "@/shared/location-sharing";
+
+const MODE_LABELS: Record<LocationShareMode, { title: string; description: string }> = {
+  always: { title: "항상", description: "주행이 끝난 뒤에도 마지막 위치를 보여줍니다" },
+  riding: { title: "주행 중에만", description: "주행하는 동안만 실시간 위치를 보여줍니다" },
+  group_riding: { title: "그룹 라이딩 중에만", description: "그룹과 함께 달릴 때만 보여줍니다" },
+  never: { title: "공유 안 함", description: "위치를 보여주지 않습니다" },
+};
+
+const formatDateTime = (time: Date | string) =>
+  new Date(time).toLocaleString("ko-KR", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+interface ListDraft {
+  listId?: number;
+  name: string;
+  mode: LocationShareMode;
+  friendIds: number[];
+}
+
+export default function LocationSharingScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const utils = trpc.useUtils();
+
+  const [listDraft, setListDraft] = useState<ListDraft | null>(null);
+  const [linkLabel, setLinkLabel] = useState("");
+  const [linkHours, setLinkHours] = useState<number>(4);
+
+  const settingsQuery = trpc.locationSharing.settings.useQuery();
+  const linksQuery = trpc.locationSharing.links.useQuery();
+  const viewLogQuery = trpc.locationSharing.viewLog.useQuery();
+  const { data: friends } = trpc.friends.getFriends.useQuery();
+
+  const onError = (error: { message: string }) => {
+    Alert.alert("오류", error.message || "위치 공유 설정을 저장하지 못했습니다.");
+  };
+  const onSaved = () => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    utils.locationSharing.settings.invalidate();
+  };
+
+  const setDefault = trpc.locationSharing.setDefault.useMutation({ onSuccess: onSaved, onError });
+  const setFriendRule = trpc.locationSharing.setFriendRule.useMutation({ onSuccess: onSaved, onError });
+  const saveList = trpc.locationSharing.saveList.useMutation({
+    onSuccess: () => {
+      onSaved();
+      setListDraft(null);
+    },
+    onError,
+  });
+  const deleteList = trpc.locationSharing.deleteList.useMutation({ onSuccess: onSaved, onError });
+
+  const shareLinkUrl = (path: string) => `${getApiBaseUrl()}${path}`;
+
+  const sendLink = async (path: string, label: string) => {
+    try {
+      await Share.share({
+        message: `SCOOP에서 내 실시간 위치를 공유합니다 (${label}): ${shareLinkUrl(path)}`,
+      });
+    } catch (error) {
+      console.error("Share link error:", error);
+    }
+  };
+
+  const createLink = trpc.locationSharing.createLink.useMutation({
+    onSuccess: (link) => {
+      utils.locationSharing.links.invalidate();
+      const label = linkLabel.trim();
+      setLinkLabel("");
+      sendLink(link.path, label);
+    },
+    onError,
+  });
+  const revokeLink = trpc.locationSharing.revokeLink.useMutation({
+    onSuccess: () => utils.locationSharing.links.invalidate(),
+    onError,
+  });
+
+  const settings = settingsQuery.data;
+
+  const pickFriendMode = (friendId: number, name: string | null) => {
+    Alert.alert(`${name || "친구"}님에게 위치 공유`, "이 친구에게만 적용할 공유 범위를 선택하세요.", [
+      ...LOCATION_SHARE_MODES.map((mode) => ({
+        text: MODE_LABELS[mode].title,
+        onPress: () => setFriendRule.mutate({ friendId, mode }),
+      })),
+      { text: "기본 설정 따르기", onPress: () => setFriendRule.mutate({ friendId, mode: null }) },
+      { text: "취소", style: "cancel" as const },
+    ]);
+  };
+
+  const handleRevoke = (linkId: number, label: string) => {
+    Alert.alert("링크 중지", `"${label}" 링크로 더 이상 위치를 볼 수 없게 할까요?`, [
+      { text: "취소", style: "cancel" },
+      { text: "중지", style: "destructive", onPress: () => revokeLink.mutate({ linkId }) },
+    ]);
+  };
+
+  const handleDeleteList = (listId: number, name: string) => {
+    Alert.alert("목록 삭제", `"${name}" 목록을 삭제할까요? 목록의 친구에게는 기본 설정이 적용됩니다.`, [
+      { text: "취소", style: "cancel" },
+      { text: "삭제", style: "destructive", onPress: () => deleteList.mutate({ listId }) },
+    ]);
+  };
+
+  const modeChip = (selected: boolean) => [{
+    backgroundColor: selected ? colors.primary : colors.background,
+    borderColor: selected ? colors.primary : colors.border,
+  }];
+
+  if (settingsQuery.isLoading || !settings) {
+    return (
+      <ScreenContainer>
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </ScreenContainer>
+    );
+  }
+
+  const friendName = (friendId: number) => friends?.find((f) => f.id === friendId)?.name || "친구";
+
+  return (
+    <ScreenContainer>
+      {/* Header */}
+      <View className="flex-row items-center px-5 py-4 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+          className="mr-4"
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text className="text-xl font-bold text-foreground">위치 공유</Text>
+      </View>
+
+      <ScrollView className="flex-1 p-5">
+        {/* Default */}
+        <Text className="text-lg font-bold text-foreground mb-1">기본 공유 범위</Text>
+        <Text className="text-muted text-xs mb-3">목록이나 개별 설정이 없는 친구에게 적용됩니다</Text>
+        <View className="bg-surface rounded-2xl border border-border overflow-hidden mb-6">
+          {LOCATION_SHARE_MODES.map((mode) => (
+            <Pressable
+              key={mode}
+              onPress={() => setDefault.mutate({ mode })}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="flex-row items-center p-4 border-b border-border"
+            >
+              <View className="flex-1">
+                <Text className="text-foreground font-medium">{MODE_LABELS[mode].title}</Text>
+                <Text className="text-muted text-xs">{MODE_LABELS[mode].description}</Text>
+              </View>
+              <MaterialIcons
+                name={settings.defaultMode === mode ? "radio-button-checked" : "radio-button-unchecked"}
+                size={22}
+                color={settings.defaultMode === mode ? colors.primary : colors.muted}
+              />
+            </Pressable>
+          ))}
+        </View>
+
+        {/* Lists */}
+        <View className="flex-row items-center justify-between mb-3">
+          <Text className="text-lg font-bold text-foreground">공유 목록</Text>
+          <Pressable
+            onPress={() => setListDraft({ name: "", mode: "always", friendIds: [] })}
+            style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+            className="flex-row items-center"
+          >
+            <MaterialIcons name="playlist-add" size={20} color={colors.primary} />
+            <Text className="text-primary font-medium ml-1">새 목록</Text>
+          </Pressable>
+        </View>
+        <View className="bg-surface rounded-2xl border border-border overflow-hidden mb-6">
+          {settings.lists.length === 0 ? (
+            <Text className="text-muted text-center p-4">
+              가족처럼 같은 범위로 공유할 친구들을 목록으로 묶어보세요
+            </Text>
+          ) : (
+            settings.lists.map((list) => (
+              <Pressable
+                key={list.id}
+                onPress={() => setListDraft({ listId: list.id, name: list.name, mode: list.mode, friendIds: list.friendIds })}
+                style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                className="flex-row items-center p-4 border-b border-border"
+              >
+                <MaterialIcons name="group" size={24} color={colors.primary} />
+                <View className="flex-1 ml-3">
+                  <Text className="text-foreground font-medium">{list.name}</Text>
+                  <Text className="text-muted text-xs">
+                    {MODE_LABELS[list.mode].title} · 친구 {list.friendIds.length}명
+                  </Text>
+                </View>
+                <Pressable
+                  onPress={() => handleDeleteList(list.id, list.name)}
+                  style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                >
+                  <MaterialIcons name="delete-outline" size={22} color={colors.error} />
+                </Pressable>
+              </Pressable>
+            ))
+          )}
+        </View>
+
+        {/* Per friend */}
+        <Text className="text-lg font-bold text-foreground mb-1">친구별 설정</Text>
+        <Text className="text-muted text-xs mb-3">친구별 설정이 목록과 기본 설정보다 우선합니다</Text>
+        <View className="bg-surface rounded-2xl border border-border overflow-hidden mb-6">
+          {!friends || friends.length === 0 ? (
+            <Text className="text-muted text-center p-4">아직 친구가 없습니다</Text>
+          ) : (
+            friends.map((friend) => {
+              const rule = settings.friendRules.find((r) => r.friendId === friend.id);
+              const lists = settings.lists.filter((l) => l.friendIds.includes(friend.id));
+              return (
+                <Pressable
+                  key={friend.id}
+                  onPress={() => pickFriendMode(friend.id, friend.name)}
+                  style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                  className="flex-row items-center p-4 border-b border-border"
+                >
+                  <MaterialIcons name="person" size={24} color={colors.muted} />
+                  <View className="flex-1 ml-3">
+                    <Text className="text-foreground">{friend.name || "이름 없음"}</Text>
+                    <Text className="text-muted text-xs">
+                      {rule
+                        ? MODE_LABELS[rule.mode].title
+                        : lists.length > 0
+                          ? `목록: ${lists.map((l) => l.name).join(", ")}`
+                          : `기본 설정 (${MODE_LABELS[settings.defaultMode].title})`}
+                    </Text>
+                  </View>
+                  <MaterialIcons name="chevron-right" size={22} color={colors.muted} />
+                </Pressable>
+              );
+            })
+          )}
+        </View>
+
+        {/* Share links */}
+        <Text className="text-lg font-bold text-foreground mb-1">공유 링크</Text>
+        <Text className="text-muted text-xs mb-3">
+          앱이 없는 가족도 웹에서 주행 중인 내 위치를 볼 수 있습니다. 정한 시간이 지나면 링크가 만료됩니다.
+        </Text>
+        <View className="bg-surface rounded-2xl border border-border p-4 mb-3">
+          <TextInput
+            value={linkLabel}
+            onChangeText={setLinkLabel}
+            placeholder="누구에게 보낼 링크인가요? (예: 가족)"
+            placeholderTextColor={colors.muted}
+            maxLength={50}
+            className="bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+          />
+          <View className="flex-row flex-wrap gap-2 mt-3">
+            {SHARE_LINK_DURATIONS_HOURS.map((hours) => (
+              <Pressable
+                key={hours}
+                onPress={() => setLinkHours(hours)}
+                style={({ pressed }) => [...modeChip(linkHours === hours), { opacity: pressed ? 0.7 : 1 }]}
+                className="px-4 py-2 rounded-full border"
+              >
+                <Text style={{ color: linkHours === hours ? "#FFFFFF" : colors.foreground }} className="font-medium">
+                  {hours}시간
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <Pressable
+            onPress={() => createLink.mutate({ label: linkLabel.trim(), hours: linkHours })}
+            disabled={!linkLabel.trim() || createLink.isPending}
+            style={({ pressed }) => [{ opacity: !linkLabel.trim() ? 0.5 : pressed ? 0.8 : 1 }]}
+            className="bg-primary rounded-lg py-3 items-center mt-4"
+          >
+            {createLink.isPending ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text className="text-white font-semibold">링크 만들어 보내기</Text>
+            )}
+          </Pressable>
+        </View>
+        <View className="bg-surface rounded-2xl border border-border overflow-hidden mb-6">
+          {(linksQuery.data ?? []).length === 0 ? (
+            <Text className="text-muted text-center p-4">만든 링크가 없습니다</Text>
+          ) : (
+            (linksQuery.data ?? []).map((link) => (
+              <View key={link.id} className="flex-row items-center p-4 border-b border-border">
+                <MaterialIcons name={link.isActive ? "link" : "link-off"} size={22} color={link.isActive ? colors.primary : colors.muted} />
+                <View className="flex-1 ml-3">
+                  <Text className="text-foreground font-medium">{link.label}</Text>
+                  <Text className="text-muted text-xs">
+                    {link.isActive ? `${formatDateTime(link.expiresAt)}까지` : "종료됨"}
+                  </Text>
+                </View>
+                {link.isActive && (
+                  <>
+                    <Pressable
+                      onPress={() => sendLink(link.path, link.label)}
+                      style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                      className="mr-4"
+                    >
+                      <MaterialIcons name="share" size={22} color={colors.primary} />
+                    </Pressable>
+                    <Pressable
+                      onPress={() => handleRevoke(link.id, link.label)}
+                      style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                    >
+                      <MaterialIcons name="block" size={22} color={colors.error} />
+                    </Pressable>
+                  </>
+                )}
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* View log */}
+        <Text className="text-lg font-bold text-foreground mb-1">내 위치를 본 사람</Text>
+        <Text className="text-muted text-xs mb-3">최근 30일 기록입니다</Text>
+        <View className="bg-surface rounded-2xl border border-border overflow-hidden mb-8">
+          {viewLogQuery.isLoading ? (
+            <ActivityIndicator className="p-4" color={colors.primary} />
+          ) : (viewLogQuery.data ?? []).length === 0 ? (
+            <Text className="text-muted text-center p-4">아직 내 위치를 본 사람이 없습니다</Text>
+          ) : (
+            (viewLogQuery.data ?? []).map((view) => (
+              <View key={`${view.viewerId ?? "link"}-${view.shareLinkId ?? "friend"}`} className="flex-row items-center p-4 border-b border-border">
+                <MaterialIcons name={view.shareLinkId ? "link" : "visibility"} size={22} color={colors.muted} />
+                <View className="flex-1 ml-3">
+                  <Text className="text-foreground">
+                    {view.shareLinkId ? `공유 링크 "${view.shareLinkLabel ?? ""}"` : view.viewerName || "친구"}
+                  </Text>
+                  <Text className="text-muted text-xs">
+                    {view.viewCount}회 · 마지막 {formatDateTime(view.lastViewedAt)}
+                  </Text>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+
+      {/* List editor */}
+      <Modal
+        visible={listDraft !== null}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setListDraft(null)}
+      >
+        <View className="flex-1 justify-end" style={{ backgroundColor: "rgba(0,0,0,0.4)" }}>
+          <View className="bg-background rounded-t-3xl p-5" style={{ maxHeight: "85%" }}>
+            <View className="flex-row items-center justify-between mb-4">
+              <Text className="text-lg font-bold text-foreground">
+                {listDraft?.listId ? "목록 수정" : "새 목록"}
+              </Text>
+              <Pressable onPress={() => setListDraft(null)} style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}>
+                <MaterialIcons name="close" size={24} color={colors.foreground} />
+              </Pressable>
+            </View>
+            {listDraft && (
+              <>
+                <TextInput
+                  value={listDraft.name}
+                  onChangeText={(name) => setListDraft({ ...listDraft, name })}
+                  placeholder="목록 이름 (예: 가족)"
+                  placeholderTextColor={colors.muted}
+                  maxLength={50}
+                  className="bg-surface border border-border rounded-lg px-3 py-2 text-foreground"
+                />
+                <View className="flex-row flex-wrap gap-2 mt-3">
+                  {LOCATION_SHARE_MODES.map((mode) => (
+                    <Pressable
+                      key={mode}
+                      onPress={() => setListDraft({ ...listDraft, mode })}
+                      style={({ pressed }) => [...modeChip(listDraft.mode === mode), { opacity: pressed ? 0.7 : 1 }]}
+                      className="px-3 py-2 rounded-full border"
+                    >
+                      <Text style={{ color: listDraft.mode === mode ? "#FFFFFF" : colors.foreground }} className="text-sm font-medium">
+                        {MODE_LABELS[mode].title}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <ScrollView className="mt-4" style={{ maxHeight: 300 }}>
+                  {(friends ?? []).map((friend) => {
+                    const selected = listDraft.friendIds.includes(friend.id);
+                    return (
+                      <Pressable
+                        key={friend.id}
+                        onPress={() =>
+                          setListDraft({
+                            ...listDraft,
+                            friendIds: selected
+                              ? listDraft.friendIds.filter((id) => id !== friend.id)
+                              : [...listDraft.friendIds, friend.id],
+                          })
+                        }
+                        style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                        className="flex-row items-center py-3 border-b border-border"
+                      >
+                        <MaterialIcons
+                          name={selected ? "check-box" : "check-box-outline-blank"}
+                          size={22}
+                          color={selected ? colors.primary : colors.muted}
+                        />
+                        <Text className="text-foreground ml-3">{friendName(friend.id)}</Text>
+                      </Pressable>
+                    );
+                  })}
+                </ScrollView>
+                <Pressable
+                  onPress={() => saveList.mutate({ ...listDraft, name: listDraft.name.trim() })}
+                  disabled={!listDraft.name.trim() || saveList.isPending}
+                  style={({ pressed }) => [{ opacity: !listDraft.name.trim() ? 0.5 : pressed ? 0.8 : 1 }]}
+                  className="bg-primary rounded-lg py-3 items-center mt-4"
+                >
+                  {saveList.isPending ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <Text className="text-white font-semibold">저장</Text>
+                  )}
+                </Pressable>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </ScreenContainer>
+  );
+}
@@ -78,7 +78,10 @@ export default function NotificationsCenterScreen() {
     }
 
     // Navigate based on type
-    if (notification.entityType === "post" && notification.entityId) {
+    if (notification.type === "crash_alert") {
+      // Show where the friend is on the live map
+      router.push("/friends-map" as never);
+    } else if (notification.entityType === "post" && notification.entityId) {
       router.push(`/post-detail?id=${notification.entityId}` as never);
     } else if (notification.entityType === "user" && notification.actorId) {
       router.push(`/user-profile?userId=${notification.actorId}` as never);
@@ -103,6 +106,9 @@ export default function NotificationsCenterScreen() {
     } else if (notification.type === "badge") {
       // Navigate to badges
       router.push("/badges" as never);
+    } else if (notification.type === "segment_pr" && notification.entityId) {
+      // Navigate to the segment leaderboard
+      router.push(`/segment-detail?id=${notification.entityId}` as never);
     } else if (notification.type === "level_up") {
       // Navigate to profile
       router.push("/(tabs)/profile" as never);
@@ -123,6 +129,10 @@ export default function NotificationsCenterScreen() {
         return "person-add";
       case "challenge":
         return "emoji-events";
+      case "segment_pr":
+        return "timer";
+      case "crash_alert":
+        return "warning";
       default:
         return "notifications";
     }
@@ -141,6 +151,10 @@ export default function NotificationsCenterScreen() {
         return "#8B5CF6";
       case "challenge":
         return "#F59E0B";
+      case "segment_pr":
+        return colors.warning;
+      case "crash_alert":
+        return colors.error;
       default:
         return colors.muted;
     }
@@ -30,6 +30,7 @@ const POST_TYPE_LABELS: Record<string, { label: string; color: string }> = {
   ride_share: { label: "주행기록", color: "#3B82F6" },
   question: { label: "질문", color: "#F59E0B" },
   tip: { label: "팁", color: "#10B981" },
+  group_ride: { label: "그룹 라이딩", color: "#22C55E" },
 };
 
 export default function PostDetailScreen() {
@@ -343,6 +344,30 @@ export default function PostDetailScreen() {
             {/* Content */}
             <Text className="text-foreground text-base leading-6 mb-4">{post.content}</Text>
 
+            {/* Group Ride Replay */}
+            {post.canReplayGroupRide && (
+              <Pressable
+                onPress={() => router.push(`/group-ride?groupId=${post.groupId}` as never)}
+                style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1, backgroundColor: typeInfo.color + "15" }]}
+                className="flex-row items-center justify-center py-3 rounded-xl mb-4"
+              >
+                <MaterialIcons name="replay" size={18} color={typeInfo.color} />
+                <Text style={{ color: typeInfo.color }} className="font-medium ml-2">그룹 주행 다시보기</Text>
+              </Pressable>
+            )}
+
+            {/* Scheduled Ride RSVP */}
+            {post.postType === "group_recruit" && post.scheduledRideId && (
+              <Pressable
+                onPress={() => router.push(`/scheduled-ride-detail?rideId=${post.scheduledRideId}` as never)}
+                style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1, backgroundColor: typeInfo.color + "15" }]}
+                className="flex-row items-center justify-center py-3 rounded-xl mb-4"
+              >
+                <MaterialIcons name="event" size={18} color={typeInfo.color} />
+                <Text style={{ color: typeInfo.color }} className="font-medium ml-2">일정 보기 · 참가 신청</Text>
+              </Pressable>
+            )}
+
             {/* Images */}
             {(() => {
               const images = post.imageUrls ? (() => {
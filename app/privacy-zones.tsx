@@ -0,0 +1,267 @@
+import { useState, useEffect } from "react";
+import {
+  Text,
+  View,
+  ScrollView,
+  Pressable,
+  Platform,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from "react-native";
+import { useRouter } from "expo-router";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+import * as Location from "expo-location";
+
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { usePrivacyZones } from "@/hooks/use-privacy-zones";
+import { trpc } from "@/lib/trpc";
+import { getFavoritePlaces, type FavoritePlace } from "@/lib/favorite-places";
+import { DEFAULT_PRIVACY_ZONE_RADIUS_M, MAX_PRIVACY_ZONES } from "@/shared/privacy-zones";
+
+const RADIUS_OPTIONS = [200, 300, 500, 1000];
+
+const formatRadius = (meters: number) => (meters >= 1000 ? `${meters / 1000}km` : `${meters}m`);
+
+export default function PrivacyZonesScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const { zones, isLoading } = usePrivacyZones();
+
+  const [favorites, setFavorites] = useState<FavoritePlace[]>([]);
+  const [name, setName] = useState("");
+  const [radius, setRadius] = useState(DEFAULT_PRIVACY_ZONE_RADIUS_M);
+  const [center, setCenter] = useState<{ latitude: number; longitude: number; label: string } | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  useEffect(() => {
+    getFavoritePlaces().then(setFavorites);
+  }, []);
+
+  const addZone = trpc.privacyZones.add.useMutation({
+    onSuccess: () => {
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      utils.privacyZones.list.invalidate();
+      setName("");
+      setCenter(null);
+      setRadius(DEFAULT_PRIVACY_ZONE_RADIUS_M);
+    },
+    onError: (error) => {
+      Alert.alert("추가 실패", error.message || "개인정보 보호 구역을 추가하지 못했습니다.");
+    },
+  });
+
+  const removeZone = trpc.privacyZones.remove.useMutation({
+    onSuccess: () => utils.privacyZones.list.invalidate(),
+  });
+
+  const pickCurrentLocation = async () => {
+    setIsLocating(true);
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== "granted") {
+        Alert.alert("위치 권한 필요", "현재 위치를 구역 중심으로 쓰려면 위치 권한이 필요합니다.");
+        return;
+      }
+      const current = await Location.getCurrentPositionAsync({});
+      setCenter({ latitude: current.coords.latitude, longitude: current.coords.longitude, label: "현재 위치" });
+    } catch (error) {
+      console.error("Failed to get current location:", error);
+      Alert.alert("오류", "현재 위치를 가져오지 못했습니다.");
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const pickFavorite = (place: FavoritePlace) => {
+    setCenter({ latitude: place.lat, longitude: place.lng, label: place.name });
+    if (!name.trim()) setName(place.name);
+  };
+
+  const handleAdd = () => {
+    if (!center || !name.trim()) return;
+    addZone.mutate({ name: name.trim(), latitude: center.latitude, longitude: center.longitude, radius });
+  };
+
+  const handleRemove = (zoneId: number, zoneName: string) => {
+    Alert.alert("구역 삭제", `"${zoneName}" 구역을 삭제할까요? 이후 공유되는 경로에 이 구역이 다시 보이게 됩니다.`, [
+      { text: "취소", style: "cancel" },
+      {
+        text: "삭제",
+        style: "destructive",
+        onPress: () => removeZone.mutate({ zoneId }),
+      },
+    ]);
+  };
+
+  const canAdd = !!center && !!name.trim() && !addZone.isPending && zones.length < MAX_PRIVACY_ZONES;
+
+  return (
+    <ScreenContainer>
+      {/* Header */}
+      <View className="flex-row items-center px-5 py-4 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+          className="mr-4"
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text className="text-xl font-bold text-foreground">개인정보 보호 구역</Text>
+      </View>
+
+      <ScrollView className="flex-1 p-5">
+        <View className="bg-surface rounded-2xl border border-border p-4 mb-6 flex-row">
+          <MaterialIcons name="shield" size={28} color={colors.primary} />
+          <Text className="text-muted text-sm flex-1 ml-3">
+            집, 회사처럼 알리고 싶지 않은 곳 주변을 구역으로 정하면, 게시글에 첨부한 주행 기록·그룹 주행
+            리플레이·내보낸 GPX/TCX/FIT 파일에서 구역 안의 경로가 지워집니다. 내 기록에서는 전체 경로가
+            그대로 보입니다.
+          </Text>
+        </View>
+
+        {/* Add zone */}
+        <Text className="text-lg font-bold text-foreground mb-3">구역 추가</Text>
+        <View className="bg-surface rounded-2xl border border-border p-4 mb-6">
+          <Text className="text-foreground font-medium mb-2">중심 위치</Text>
+          <View className="flex-row flex-wrap gap-2">
+            <Pressable
+              onPress={pickCurrentLocation}
+              disabled={isLocating}
+              style={({ pressed }) => [{
+                opacity: pressed ? 0.7 : 1,
+                backgroundColor: center?.label === "현재 위치" ? colors.primary : colors.background,
+                borderColor: center?.label === "현재 위치" ? colors.primary : colors.border,
+              }]}
+              className="flex-row items-center px-3 py-2 rounded-full border"
+            >
+              {isLocating ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <MaterialIcons
+                  name="my-location"
+                  size={16}
+                  color={center?.label === "현재 위치" ? "#FFFFFF" : colors.primary}
+                />
+              )}
+              <Text
+                style={{ color: center?.label === "현재 위치" ? "#FFFFFF" : colors.foreground }}
+                className="ml-1 font-medium"
+              >
+                현재 위치
+              </Text>
+            </Pressable>
+            {favorites.map((place) => {
+              const selected = center?.latitude === place.lat && center?.longitude === place.lng;
+              return (
+                <Pressable
+                  key={place.id}
+                  onPress={() => pickFavorite(place)}
+                  style={({ pressed }) => [{
+                    opacity: pressed ? 0.7 : 1,
+                    backgroundColor: selected ? colors.primary : colors.background,
+                    borderColor: selected ? colors.primary : colors.border,
+                  }]}
+                  className="flex-row items-center px-3 py-2 rounded-full border"
+                >
+                  <MaterialIcons
+                    name={place.icon === "home" ? "home" : place.icon === "work" ? "work" : "star"}
+                    size={16}
+                    color={selected ? "#FFFFFF" : colors.primary}
+                  />
+                  <Text style={{ color: selected ? "#FFFFFF" : colors.foreground }} className="ml-1 font-medium">
+                    {place.name}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <Text className="text-foreground font-medium mt-4 mb-2">이름</Text>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            placeholder="예: 집, 회사"
+            placeholderTextColor={colors.muted}
+            maxLength={50}
+            className="bg-background border border-border rounded-lg px-3 py-2 text-foreground"
+          />
+
+          <Text className="text-foreground font-medium mt-4 mb-2">반경</Text>
+          <View className="flex-row flex-wrap gap-2">
+            {RADIUS_OPTIONS.map((meters) => (
+              <Pressable
+                key={meters}
+                onPress={() => setRadius(meters)}
+                style={({ pressed }) => [{
+                  opacity: pressed ? 0.7 : 1,
+                  backgroundColor: radius === meters ? colors.primary : colors.background,
+                  borderColor: radius === meters ? colors.primary : colors.border,
+                }]}
+                className="px-4 py-2 rounded-full border"
+              >
+                <Text style={{ color: radius === meters ? "#FFFFFF" : colors.foreground }} className="font-medium">
+                  {formatRadius(meters)}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Pressable
+            onPress={handleAdd}
+            disabled={!canAdd}
+            style={({ pressed }) => [{ opacity: !canAdd ? 0.5 : pressed ? 0.8 : 1 }]}
+            className="bg-primary rounded-lg py-3 items-center mt-5"
+          >
+            {addZone.isPending ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text className="text-white font-semibold">구역 추가</Text>
+            )}
+          </Pressable>
+          {zones.length >= MAX_PRIVACY_ZONES && (
+            <Text className="text-muted text-xs mt-2 text-center">
+              구역은 최대 {MAX_PRIVACY_ZONES}개까지 만들 수 있습니다.
+            </Text>
+          )}
+        </View>
+
+        {/* Zones */}
+        <Text className="text-lg font-bold text-foreground mb-3">내 구역</Text>
+        <View className="bg-surface rounded-2xl border border-border overflow-hidden mb-8">
+          {isLoading ? (
+            <ActivityIndicator className="p-4" color={colors.primary} />
+          ) : zones.length === 0 ? (
+            <View className="items-center p-6">
+              <MaterialIcons name="location-off" size={40} color={colors.muted} />
+              <Text className="text-muted text-center mt-2">
+                등록된 구역이 없습니다.{"\n"}공유하는 경로는 출발지와 도착지까지 모두 보입니다.
+              </Text>
+            </View>
+          ) : (
+            zones.map((zone) => (
+              <View key={zone.id} className="flex-row items-center p-4 border-b border-border">
+                <MaterialIcons name="shield" size={24} color={colors.primary} />
+                <View className="flex-1 ml-3">
+                  <Text className="text-foreground font-medium">{zone.name}</Text>
+                  <Text className="text-muted text-xs">반경 {formatRadius(zone.radius)}</Text>
+                </View>
+                <Pressable
+                  onPress={() => handleRemove(zone.id, zone.name)}
+                  style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                >
+                  <MaterialIcons name="delete-outline" size={22} color={colors.error} />
+                </Pressable>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -6,10 +6,12 @@ import * as Haptics from "expo-haptics";
 
 import { ScreenContainer } from "@/components/screen-container";
 import { useColors } from "@/hooks/use-colors";
+import { usePrivacyZones } from "@/hooks/use-privacy-zones";
 import { RideMap } from "@/components/ride-map";
 import { GoogleRideMap } from "@/components/google-ride-map";
 import {
   RidingRecord,
+  getRidingRecords,
   getRidingRecordWithGps,
   deleteRecordEverywhere,
   formatDuration,
@@ -17,14 +19,18 @@ import {
 import { trpc } from "@/lib/trpc";
 import {
   GpsPoint,
-  saveAndShareGpx,
-  TrackData,
+  saveAndShareTrack,
+  TrackFileFormat,
 } from "@/lib/gps-utils";
+import { buildTrackData } from "@/lib/ride-formats";
 import { shareRideAsText } from "@/lib/share-utils";
 import { RideChart } from "@/components/ride-chart";
 import { RideAnalysisModal, type RideAnalysis } from "@/components/ride-analysis-modal";
 import { WeatherInfoCard } from "@/components/weather-icon";
 import { WeatherTimeline } from "@/components/weather-timeline";
+import { SegmentCreateModal } from "@/components/segment-create-modal";
+import { RideEditorModal } from "@/components/ride-editor-modal";
+import { canMergeRides } from "@/lib/ride-editor";
 
 export default function RideDetailScreen() {
   const router = useRouter();
@@ -36,8 +42,20 @@ export default function RideDetailScreen() {
   const [showAnalysisModal, setShowAnalysisModal] = useState(false);
   const [rideAnalysis, setRideAnalysis] = useState<RideAnalysis | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [showSegmentModal, setShowSegmentModal] = useState(false);
+  const [showEditorModal, setShowEditorModal] = useState(false);
+  const [mergeCandidates, setMergeCandidates] = useState<RidingRecord[]>([]);
   
   const analyzeRide = trpc.rides.analyzeRide.useMutation();
+  const { circles: privacyZones } = usePrivacyZones();
+  const { data: segmentEfforts } = trpc.segments.forRide.useQuery(
+    { recordId: id ?? "" },
+    { enabled: !!id }
+  );
+  const { data: transportReview } = trpc.rides.transportReview.useQuery(
+    { recordId: id ?? "" },
+    { enabled: !!id }
+  );
 
   useEffect(() => {
     loadRecord();
@@ -51,7 +69,22 @@ export default function RideDetailScreen() {
     console.log("[RideDetail] Loaded record:", id, "GPS points:", found?.gpsPoints?.length || 0);
   };
 
-  const handleExportGpx = async () => {
+  const openEditor = async () => {
+    if (!record) return;
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    // The history list has no GPS points; load them only for adjacent rides
+    const records = await getRidingRecords();
+    const adjacent = records.filter((r) => r.id !== record.id && canMergeRides(record, r));
+    const withGps = await Promise.all(adjacent.map((r) => getRidingRecordWithGps(r.id)));
+    setMergeCandidates(
+      withGps.filter((r): r is RidingRecord => !!r && (r.gpsPoints?.length ?? 0) > 1)
+    );
+    setShowEditorModal(true);
+  };
+
+  const handleExportTrack = async (format: TrackFileFormat) => {
     if (!record || !record.gpsPoints || record.gpsPoints.length === 0) {
       Alert.alert("내보내기 실패", "GPS 데이터가 없습니다.");
       return;
@@ -64,31 +97,34 @@ export default function RideDetailScreen() {
     setIsExporting(true);
 
     try {
-      const trackData: TrackData = {
-        points: record.gpsPoints,
-        startTime: new Date(record.startTime || record.date),
-        endTime: new Date(record.endTime || record.date),
-        name: `SCOOP 주행 기록 - ${record.date}`,
-      };
-
+      const trackData = buildTrackData(record, `SCOOP 주행 기록 - ${record.date}`, privacyZones);
       const filename = `scoop_ride_${record.id}`;
-      const success = await saveAndShareGpx(trackData, filename);
+      const success = await saveAndShareTrack(trackData, filename, format);
 
       if (success) {
         if (Platform.OS !== "web") {
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         }
       } else {
-        Alert.alert("내보내기 실패", "GPX 파일을 저장하는 중 오류가 발생했습니다.");
+        Alert.alert("내보내기 실패", `${format.toUpperCase()} 파일을 저장하는 중 오류가 발생했습니다.`);
       }
     } catch (error) {
-      console.error("GPX export error:", error);
-      Alert.alert("내보내기 실패", "GPX 파일을 저장하는 중 오류가 발생했습니다.");
+      console.error("Track export error:", error);
+      Alert.alert("내보내기 실패", `${format.toUpperCase()} 파일을 저장하는 중 오류가 발생했습니다.`);
     } finally {
       setIsExporting(false);
     }
   };
 
+  const handleExportPress = () => {
+    Alert.alert("파일 내보내기", "내보낼 파일 형식을 선택하세요.", [
+      { text: "GPX", onPress: () => handleExportTrack("gpx") },
+      { text: "TCX (Garmin)", onPress: () => handleExportTrack("tcx") },
+      { text: "FIT (Garmin/Strava)", onPress: () => handleExportTrack("fit") },
+      { text: "취소", style: "cancel" },
+    ]);
+  };
+
   const handleShare = async () => {
     if (!record) return;
 
@@ -248,6 +284,18 @@ export default function RideDetailScreen() {
               </View>
             </View>
           )}
+
+          {/* Group Ride Replay */}
+          {record.groupId && (
+            <Pressable
+              onPress={() => router.push(`/group-ride?groupId=${record.groupId}` as never)}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+              className="mt-3 flex-row items-center justify-center bg-success/10 border border-success/30 rounded-xl py-2.5"
+            >
+              <MaterialIcons name="replay" size={18} color="#22C55E" />
+              <Text className="text-success font-medium ml-2">그룹 주행 다시보기</Text>
+            </Pressable>
+          )}
         </View>
 
         {/* Map */}
@@ -368,6 +416,87 @@ export default function RideDetailScreen() {
           </View>
         </View>
 
+        {/* Vehicle / walking segments left out of the stats */}
+        {transportReview && (
+          <View
+            style={{ borderColor: colors.warning }}
+            className="mx-4 bg-surface rounded-2xl p-4 mb-4 border"
+          >
+            <View className="flex-row items-center mb-2">
+              <MaterialIcons name="directions-car" size={20} color={colors.warning} />
+              <Text className="text-base font-bold text-foreground ml-2">
+                {transportReview.status === "excluded" ? "킥보드 외 이동 구간 제외됨" : "차량 이동 의심 구간"}
+              </Text>
+            </View>
+            {transportReview.status === "excluded" && (
+              <Text className="text-muted text-sm mb-2">
+                랭킹, 에코 점수, 챌린지와 기체 통계에는 {(transportReview.excludedDistance / 1000).toFixed(1)}km,{" "}
+                {formatDuration(transportReview.excludedDuration)}을 뺀 기록이 반영됩니다.
+              </Text>
+            )}
+            {transportReview.segments.map((segment) => (
+              <View key={segment.startTime} className="flex-row items-start py-2">
+                <MaterialIcons
+                  name={segment.mode === "walking" ? "directions-walk" : "directions-bus"}
+                  size={18}
+                  color={segment.excluded ? colors.warning : colors.muted}
+                />
+                <View className="flex-1 ml-3">
+                  <Text className="text-foreground font-medium text-sm">
+                    {new Date(segment.startTime).toLocaleTimeString("ko-KR", { hour: "2-digit", minute: "2-digit" })}
+                    {" ~ "}
+                    {new Date(segment.endTime).toLocaleTimeString("ko-KR", { hour: "2-digit", minute: "2-digit" })}
+                    {segment.excluded ? " · 제외" : " · 확인 필요"}
+                  </Text>
+                  <Text className="text-muted text-xs">{segment.reason}</Text>
+                </View>
+              </View>
+            ))}
+            {gpsPoints.length > 1 && (
+              <Pressable
+                onPress={openEditor}
+                style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                className="flex-row items-center mt-1"
+              >
+                <Text className="text-primary text-sm font-medium">기록 편집에서 잘라내기</Text>
+                <MaterialIcons name="chevron-right" size={18} color={colors.primary} />
+              </Pressable>
+            )}
+          </View>
+        )}
+
+        {/* Segment efforts */}
+        {segmentEfforts && segmentEfforts.length > 0 && (
+          <View className="mx-4 bg-surface rounded-2xl p-4 mb-4">
+            <Text className="text-base font-bold text-foreground mb-2">구간 기록</Text>
+            {segmentEfforts.map((effort) => (
+              <Pressable
+                key={effort.id}
+                onPress={() => router.push(`/segment-detail?id=${effort.segmentId}` as never)}
+                style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                className="flex-row items-center py-2"
+              >
+                <MaterialIcons name="timeline" size={20} color={colors.primary} />
+                <View className="flex-1 ml-3">
+                  <Text className="text-foreground font-medium" numberOfLines={1}>
+                    {effort.segmentName}
+                  </Text>
+                  <Text className="text-muted text-xs">
+                    {(effort.segmentDistance / 1000).toFixed(2)}km · {(effort.avgSpeed / 10).toFixed(1)}km/h
+                  </Text>
+                </View>
+                {effort.isPersonalRecord && (
+                  <View style={{ backgroundColor: colors.warning }} className="rounded-full px-2 py-0.5 mr-2">
+                    <Text className="text-white text-xs font-bold">PR</Text>
+                  </View>
+                )}
+                <Text className="text-foreground font-bold">{formatDuration(effort.elapsedTime)}</Text>
+                <MaterialIcons name="chevron-right" size={20} color={colors.muted} />
+              </Pressable>
+            ))}
+          </View>
+        )}
+
         {/* Action Buttons */}
         <View className="mx-4 mb-6 gap-3">
           {/* Share Button */}
@@ -388,10 +517,10 @@ export default function RideDetailScreen() {
             </Text>
           </Pressable>
 
-          {/* Export GPX Button */}
+          {/* Export GPX/TCX/FIT Button */}
           {hasGpsData && (
             <Pressable
-              onPress={handleExportGpx}
+              onPress={handleExportPress}
               disabled={isExporting}
               style={({ pressed }) => [
                 {
@@ -404,7 +533,47 @@ export default function RideDetailScreen() {
             >
               <MaterialIcons name="file-download" size={20} color={colors.primary} />
               <Text style={{ color: colors.primary }} className="font-semibold ml-2">
-                {isExporting ? "내보내는 중..." : "GPX 파일 내보내기"}
+                {isExporting ? "내보내는 중..." : "GPX / TCX / FIT 내보내기"}
+              </Text>
+            </Pressable>
+          )}
+
+          {/* Create Segment Button */}
+          {gpsPoints.length > 1 && (
+            <Pressable
+              onPress={() => setShowSegmentModal(true)}
+              style={({ pressed }) => [
+                {
+                  borderColor: colors.warning,
+                  borderWidth: 1,
+                  opacity: pressed ? 0.7 : 1,
+                },
+              ]}
+              className="flex-row items-center justify-center py-4 rounded-xl bg-surface"
+            >
+              <MaterialIcons name="timeline" size={20} color={colors.warning} />
+              <Text style={{ color: colors.warning }} className="font-semibold ml-2">
+                구간 만들기
+              </Text>
+            </Pressable>
+          )}
+
+          {/* Edit Ride Button */}
+          {gpsPoints.length > 1 && (
+            <Pressable
+              onPress={openEditor}
+              style={({ pressed }) => [
+                {
+                  borderColor: colors.muted,
+                  borderWidth: 1,
+                  opacity: pressed ? 0.7 : 1,
+                },
+              ]}
+              className="flex-row items-center justify-center py-4 rounded-xl bg-surface"
+            >
+              <MaterialIcons name="edit" size={20} color={colors.foreground} />
+              <Text className="text-foreground font-semibold ml-2">
+                기록 편집 (자르기 / 나누기 / 합치기)
               </Text>
             </Pressable>
           )}
@@ -456,6 +625,31 @@ export default function RideDetailScreen() {
         </View>
       </ScrollView>
 
+      {/* Segment Create Modal */}
+      {gpsPoints.length > 1 && (
+        <SegmentCreateModal
+          visible={showSegmentModal}
+          gpsPoints={gpsPoints}
+          recordId={record.id}
+          onClose={() => setShowSegmentModal(false)}
+          onCreated={(segmentId) => router.push(`/segment-detail?id=${segmentId}` as never)}
+        />
+      )}
+
+      {/* Ride Editor Modal */}
+      {gpsPoints.length > 1 && (
+        <RideEditorModal
+          visible={showEditorModal}
+          record={record}
+          mergeCandidates={mergeCandidates}
+          onClose={() => setShowEditorModal(false)}
+          onSaved={() => {
+            loadRecord();
+            trpcUtils.rides.transportReview.invalidate({ recordId: record.id });
+          }}
+        />
+      )}
+
       {/* AI Analysis Modal */}
       <RideAnalysisModal
         visible={showAnalysisModal}
@@ -51,11 +51,20 @@ import {
   announceArrival,
   announceRouteDeviation,
   announceNavigationStarted,
+  announceRegroup,
 } from "@/lib/voice-guidance";
+import { getNavigationSettings } from "@/lib/navigation-settings";
+import { getSafetySettings, type SafetySettings } from "@/lib/safety-settings";
+import { useCrashDetection } from "@/hooks/use-crash-detection";
+import { useScooterTelemetry } from "@/hooks/use-scooter-telemetry";
+import { calculateSoc, createBatterySpecForScooter } from "@/lib/battery-analysis";
+import { CrashAlertModal } from "@/components/crash-alert-modal";
 import { useLocalSearchParams } from "expo-router";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { GpxRoute, GpxPoint as GpxRoutePoint } from "@/lib/gpx-parser";
 import { GroupChatWS, type ChatMessage as WsChatMessage } from "@/components/group-chat-ws";
+import { PushToTalkButton } from "@/components/push-to-talk-button";
+import { VoiceClipQueue, isGroupVoiceMuted, setGroupVoiceMuted } from "@/lib/group-voice";
 import { BatteryOptimizationGuide, useBatteryOptimizationGuide } from "@/components/battery-optimization-guide";
 import { WeatherRidingTipCompact } from "@/components/weather-riding-tips";
 import { notifyWeatherChange, notifyWeatherWarning } from "@/lib/notifications";
@@ -66,15 +75,19 @@ import { analyzeRideData, type RideAnalysisResult } from "@/lib/ride-analysis";
 import { useGroupWebSocket } from "@/hooks/use-group-websocket";
 import { GroupMembersOverlay, type GroupMember } from "@/components/group-members-overlay";
 import {
-  RideSessionBackup,
-  saveRideSessionBackup,
-  loadRideSessionBackup,
-  clearRideSessionBackup,
-  hasRecoverableSession,
-  getRecoverableSessionSummary,
-  startBackupInterval,
-  stopBackupInterval,
-} from "@/lib/ride-session-recovery";
+  type RideJournalSession,
+  EMPTY_JOURNAL_SESSION,
+  startRideJournal,
+  appendJournalPoint,
+  updateJournalSession,
+  replayRideJournal,
+  resumeRideJournal,
+  getRecoverableJournalSummary,
+  clearRideJournal,
+  compactRideJournal,
+  startJournalCheckpoints,
+  stopJournalCheckpoints,
+} from "@/lib/ride-journal";
 import {
   checkAnalysisEligibility,
   generateDefaultAnalysis,
@@ -112,21 +125,31 @@ export default function RidingScreen() {
     distance: number;
     currentSpeed: number;
     isRiding: boolean;
+    routeDistance?: number | null;
   }[]>([]);
 
   // Group riding mutations (HTTP fallback - disabled when WebSocket is connected)
   const updateGroupLocation = trpc.groups.updateLocation.useMutation();
   
   // Chat messages state for WebSocket
-  const [wsChatMessages, setWsChatMessages] = useState<Array<{
-    id: number;
-    userId: number;
-    userName: string | null;
-    userProfileImage: string | null;
-    message: string;
-    messageType: "text" | "location" | "alert";
-    createdAt: Date;
-  }>>([]);
+  const [wsChatMessages, setWsChatMessages] = useState<WsChatMessage[]>([]);
+
+  // 그룹 음성 메시지 (다른 멤버의 클립은 자동 재생, 음소거 중에는 받아쓰기만 표시)
+  const voiceQueueRef = useRef<VoiceClipQueue | null>(null);
+  const [voiceMuted, setVoiceMuted] = useState(false);
+
+  const appendWsChatMessage = (message: WsChatMessage) => {
+    setWsChatMessages(prev => {
+      // 중복 체크
+      if (prev.some(m => m.id === message.id)) return prev;
+      // 최대 100개 메시지만 유지 (메모리 절약)
+      const newMessages = [...prev, message];
+      if (newMessages.length > 100) {
+        return newMessages.slice(-100);
+      }
+      return newMessages;
+    });
+  };
 
   // Throttle member updates to prevent excessive re-renders
   const lastMemberUpdateRef = useRef<number>(0);
@@ -140,6 +163,9 @@ export default function RidingScreen() {
     members: wsMembers, 
     sendLocationUpdate: wsSendLocation,
     sendChatMessage: wsSendChatMessage,
+    groupRoute: sharedGroupRoute,
+    publishRoute: wsPublishRoute,
+    regroup: activeRegroup,
   } = useGroupWebSocket({
     groupId,
     enabled: !!groupId,
@@ -155,6 +181,7 @@ export default function RidingScreen() {
         distance: m.distance,
         currentSpeed: m.speed,
         isRiding: m.isRiding,
+        routeDistance: m.routeDistance,
       }));
       
       // Throttle updates to prevent UI lag
@@ -188,21 +215,64 @@ export default function RidingScreen() {
     },
     onChatMessage: (message) => {
       // Add new chat message from WebSocket with max limit
-      setWsChatMessages(prev => {
-        // 중복 체크
-        if (prev.some(m => m.id === message.id)) return prev;
-        // 최대 100개 메시지만 유지 (메모리 절약)
-        const newMessages = [...prev, message];
-        if (newMessages.length > 100) {
-          return newMessages.slice(-100);
-        }
-        return newMessages;
+      appendWsChatMessage(message);
+    },
+    onVoiceMessage: (voice) => {
+      appendWsChatMessage({
+        id: voice.id,
+        userId: voice.userId,
+        userName: voice.userName,
+        userProfileImage: voice.userProfileImage,
+        message: "🎙️ 음성 메시지",
+        messageType: "voice",
+        audioUrl: voice.audioUrl,
+        audioDuration: voice.duration,
+        transcript: voice.transcript,
+        createdAt: voice.createdAt,
       });
+      // 내 메시지는 재생하지 않음
+      if (voice.userId !== user?.id && !voiceMuted) {
+        if (!voiceQueueRef.current) voiceQueueRef.current = new VoiceClipQueue();
+        voiceQueueRef.current.enqueue({ id: voice.id, audioUrl: voice.audioUrl, duration: voice.duration });
+      }
+    },
+    onVoiceTranscript: (messageId, transcript) => {
+      setWsChatMessages(prev => prev.map(m => (m.id === messageId ? { ...m, transcript } : m)));
+    },
+    onRouteAlert: (alert) => {
+      // 호스트에게만 전달됨
+      const distanceText = alert.distance >= 1000 ? `${(alert.distance / 1000).toFixed(1)}km` : `${alert.distance}m`;
+      Alert.alert(
+        alert.kind === "off_route" ? "그룹원 경로 이탈" : "그룹원이 뒤처졌습니다",
+        alert.kind === "off_route"
+          ? `${alert.userName || '그룹원'}님이 공유한 경로에서 ${distanceText} 벗어났습니다.`
+          : `${alert.userName || '그룹원'}님이 선두보다 ${distanceText} 뒤처져 있습니다.`,
+        [{ text: "확인" }]
+      );
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      }
+    },
+    onRegroup: (regroup) => {
+      // 선두(리더)는 기다리고, 나머지는 재집결 지점으로 이동
+      announceRegroup(regroup.active, regroup.spread.distance, regroup.spread.frontUserId === user?.id);
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(
+          regroup.active ? Haptics.NotificationFeedbackType.Warning : Haptics.NotificationFeedbackType.Success
+        );
+      }
     },
     onError: (error) => {
       console.error("[WebSocket] Error:", error);
     },
   });
+
+  // 그룹 호스트는 경로와 집결지를 그룹원에게 공유할 수 있음
+  const { data: groupInfo } = trpc.groups.getById.useQuery(
+    { groupId: groupId ?? 0 },
+    { enabled: !!groupId }
+  );
+  const isGroupHost = !!groupInfo && groupInfo.hostId === user?.id;
   
   // Cleanup member update timeout on unmount
   useEffect(() => {
@@ -316,6 +386,8 @@ export default function RidingScreen() {
     distance: string;
     duration: string;
     maneuver?: string;
+    // SCOOP 경로 탐색 결과에만 포함 (회전 지점 좌표)
+    location?: { latitude: number; longitude: number };
   }[]>([]);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [distanceToDestination, setDistanceToDestination] = useState<number | null>(null);
@@ -323,6 +395,29 @@ export default function RidingScreen() {
   // 그룹 채팅
   const [showChat, setShowChat] = useState(false);
 
+  // 음성 메시지 음소거 설정 로드, 화면을 나가면 재생 중인 클립 정지
+  useEffect(() => {
+    if (!groupId) return;
+    isGroupVoiceMuted().then(setVoiceMuted);
+    return () => voiceQueueRef.current?.stop();
+  }, [groupId]);
+
+  const handleVoiceMutedChange = (muted: boolean) => {
+    setVoiceMuted(muted);
+    setGroupVoiceMuted(muted);
+    if (muted) voiceQueueRef.current?.stop();
+  };
+
+  const playVoiceMessage = (message: WsChatMessage) => {
+    if (!message.audioUrl) return;
+    if (!voiceQueueRef.current) voiceQueueRef.current = new VoiceClipQueue();
+    voiceQueueRef.current.enqueue({
+      id: message.id,
+      audioUrl: message.audioUrl,
+      duration: message.audioDuration ?? 0,
+    });
+  };
+
   // Battery optimization guide
   const batteryGuide = useBatteryOptimizationGuide();
 
@@ -343,11 +438,14 @@ export default function RidingScreen() {
   const currentSpeedRef = useRef(0);
   const distanceRef = useRef(0);
   const durationRef = useRef(0);
+  const restTimeRef = useRef(0);
+  const maxSpeedRef = useRef(0);
   const voiceSettingsRef = useRef<VoiceSettings | null>(null);
   const isBackgroundEnabledRef = useRef(false);
   
   // 세션 자동 복구 관련
   const backupIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const journalSessionRef = useRef<RideJournalSession>(EMPTY_JOURNAL_SESSION);
   const rideIdRef = useRef<string>(generateId());
   const [isRecoveredSession, setIsRecoveredSession] = useState(false);
 
@@ -370,6 +468,14 @@ export default function RidingScreen() {
     distanceRef.current = distance;
   }, [distance]);
   
+  useEffect(() => {
+    restTimeRef.current = restTime;
+  }, [restTime]);
+
+  useEffect(() => {
+    maxSpeedRef.current = maxSpeed;
+  }, [maxSpeed]);
+
   useEffect(() => {
     voiceSettingsRef.current = voiceSettings;
   }, [voiceSettings]);
@@ -467,6 +573,7 @@ export default function RidingScreen() {
   }, []);
 
   // Load selected scooter and start voltage on mount
+  const [startVoltageLoaded, setStartVoltageLoaded] = useState(false);
   useEffect(() => {
     getSelectedScooter().then(setSelectedScooter);
     getStartVoltage().then((data) => {
@@ -474,9 +581,25 @@ export default function RidingScreen() {
         setStartVoltage({ voltage: data.voltage, soc: data.soc });
         console.log("[Riding] Start voltage loaded:", data.voltage, "V, SOC:", data.soc, "%");
       }
+      setStartVoltageLoaded(true);
     });
   }, []);
 
+  // Controller telemetry: reads voltage from the scooter instead of asking for it
+  const {
+    adapterName: telemetryAdapterName,
+    sample: telemetry,
+    getVoltageSamples,
+  } = useScooterTelemetry({ recording: isRunning });
+
+  // No start voltage was entered: take the first reading from the controller
+  useEffect(() => {
+    if (!startVoltageLoaded || startVoltage || !telemetry?.voltage || !selectedScooter?.batteryVoltage) return;
+    const soc = calculateSoc(telemetry.voltage, createBatterySpecForScooter(selectedScooter));
+    setStartVoltage({ voltage: telemetry.voltage, soc });
+    console.log("[Riding] Start voltage from telemetry:", telemetry.voltage, "V, SOC:", soc, "%");
+  }, [startVoltageLoaded, startVoltage, telemetry, selectedScooter]);
+
   // Parse groupId from params
   useEffect(() => {
     console.log("[Riding] params.groupId:", params.groupId);
@@ -600,6 +723,45 @@ export default function RidingScreen() {
     }
   }, [groupMembersData, user?.id]);
 
+  // 호스트: 현재 경로(GPX/네비게이션)와 목적지 또는 현재 위치를 집결지로 공유
+  const shareGroupRoute = () => {
+    const MAX_SHARED_POINTS = 5000;
+    const step = gpxRoute ? Math.ceil(gpxRoute.points.length / MAX_SHARED_POINTS) : 1;
+    const route = gpxRoute && gpxRoute.points.length > 1 ? {
+      name: gpxRoute.name,
+      points: gpxRoute.points
+        .filter((_, i) => i % step === 0 || i === gpxRoute.points.length - 1)
+        .map(p => ({ latitude: p.latitude, longitude: p.longitude })),
+    } : null;
+    const destination = navigationDestination
+      ? { name: navigationDestination.name, latitude: navigationDestination.lat, longitude: navigationDestination.lng }
+      : null;
+
+    const buttons: { text: string; style?: "cancel" | "destructive"; onPress?: () => void }[] = [
+      { text: "취소", style: "cancel" },
+    ];
+    if (sharedGroupRoute) {
+      buttons.push({ text: "공유 해제", style: "destructive", onPress: () => wsPublishRoute(null, null) });
+    }
+    if (currentLocation) {
+      buttons.push({
+        text: "현재 위치를 집결지로",
+        onPress: () => wsPublishRoute(route, { name: "집결지", latitude: currentLocation.latitude, longitude: currentLocation.longitude }),
+      });
+    }
+    if (route || destination) {
+      buttons.push({ text: "공유", onPress: () => wsPublishRoute(route, destination) });
+    }
+
+    Alert.alert(
+      "그룹 경로 공유",
+      route || destination
+        ? `${route ? `경로: ${route.name}\n` : ""}${destination ? `집결지: ${destination.name}\n` : ""}\n그룹원 지도에 표시하고, 경로를 벗어나거나 뒤처진 그룹원이 있으면 알려드립니다.`
+        : "공유할 경로가 없습니다. 현재 위치를 집결지로 공유할 수 있습니다.",
+      buttons
+    );
+  };
+
   // Check for distant group members and alert (WebSocket 기반 실시간 위치로 정확도 향상)
   // 자기 자신은 이미 groupMembers에서 제외되어 있음
   const distantMemberAlertedRef = useRef<Set<number>>(new Set());
@@ -726,43 +888,41 @@ export default function RidingScreen() {
         return;
       }
       
-      // 복구 가능한 세션이 있는지 확인
-      const hasRecoverable = await hasRecoverableSession();
+      // 복구 가능한 주행 저널이 있는지 확인
+      const summary = await getRecoverableJournalSummary();
       
-      if (hasRecoverable) {
-        const summary = await getRecoverableSessionSummary();
-        if (summary) {
-          const durationMin = Math.floor(summary.duration / 60);
-          const distanceKm = (summary.distance / 1000).toFixed(2);
-          
-          Alert.alert(
-            "이전 주행 복구",
-            `이전에 중단된 주행 기록이 있습니다.\n\n주행 시간: ${durationMin}분\n주행 거리: ${distanceKm}km\nGPS 포인트: ${summary.pointsCount}개\n\n복구하시겠습니까?`,
-            [
-              {
-                text: "새로 시작",
-                style: "destructive",
-                onPress: async () => {
-                  await clearRideSessionBackup();
-                  startTimeRef.current = new Date();
-                  initializeGps();
-                  startSessionBackup();
-                },
+      if (summary) {
+        const durationMin = Math.floor(summary.duration / 60);
+        const distanceKm = (summary.distance / 1000).toFixed(2);
+        
+        Alert.alert(
+          "이전 주행 복구",
+          `이전에 중단된 주행 기록이 있습니다.\n\n주행 시간: ${durationMin}분\n주행 거리: ${distanceKm}km\nGPS 포인트: ${summary.pointsCount}개\n\n복구하시겠습니까?`,
+          [
+            {
+              text: "새로 시작",
+              style: "destructive",
+              onPress: async () => {
+                startTimeRef.current = new Date();
+                await startRideJournal(rideIdRef.current, startTimeRef.current, journalSessionRef.current);
+                initializeGps();
+                startSessionBackup();
               },
-              {
-                text: "복구하기",
-                onPress: async () => {
-                  await recoverSession();
-                },
+            },
+            {
+              text: "복구하기",
+              onPress: async () => {
+                await recoverSession();
               },
-            ]
-          );
-          return;
-        }
+            },
+          ]
+        );
+        return;
       }
       
       // 복구할 세션이 없으면 새로 시작
       startTimeRef.current = new Date();
+      await startRideJournal(rideIdRef.current, startTimeRef.current, journalSessionRef.current);
       initializeGps();
       startSessionBackup();
     };
@@ -772,7 +932,7 @@ export default function RidingScreen() {
     return () => {
       try {
         stopLocationTracking();
-        stopBackupInterval(backupIntervalRef.current);
+        stopJournalCheckpoints(backupIntervalRef.current);
         if (Platform.OS !== "web") {
           stopBackgroundLocationTracking();
         }
@@ -782,74 +942,83 @@ export default function RidingScreen() {
     };
   }, []);
   
-  // 세션 복구 함수
+  // 세션 복구 함수 (주행 저널 재생)
   const recoverSession = async () => {
-    const backup = await loadRideSessionBackup();
-    if (!backup) {
+    const replay = await replayRideJournal();
+    if (!replay) {
       startTimeRef.current = new Date();
+      await startRideJournal(rideIdRef.current, startTimeRef.current, journalSessionRef.current);
       initializeGps();
       startSessionBackup();
       return;
     }
     
+    const { header: journal } = replay;
+    const session = journal.session;
+    
     // 복구된 데이터로 상태 초기화
-    rideIdRef.current = backup.id;
-    startTimeRef.current = new Date(backup.startTime);
-    setDuration(backup.duration);
-    setRestTime(backup.restTime);
-    setDistance(backup.distance);
-    setMaxSpeed(backup.maxSpeed);
-    setGpsPoints(backup.gpsPoints);
-    gpsPointsRef.current = backup.gpsPoints;
-    setIsRunning(backup.isRunning);
+    rideIdRef.current = journal.id;
+    startTimeRef.current = new Date(journal.startTime);
+    setDuration(replay.duration);
+    setRestTime(replay.restTime);
+    setDistance(replay.distance);
+    setMaxSpeed(replay.maxSpeed);
+    setGpsPoints(replay.gpsPoints);
+    gpsPointsRef.current = replay.gpsPoints;
+    setIsRunning(journal.stats.isRunning);
     setIsRecoveredSession(true);
     
-    if (backup.scooter) {
-      setSelectedScooter(backup.scooter as SelectedScooter);
+    if (session.scooter) {
+      setSelectedScooter(session.scooter as SelectedScooter);
     }
-    if (backup.startVoltage) {
-      setStartVoltage({ voltage: backup.startVoltage, soc: 0 });
+    if (session.startVoltage) {
+      setStartVoltage({ voltage: session.startVoltage, soc: 0 });
     }
-    if (backup.weatherInfo) {
-      setWeatherInfo(backup.weatherInfo);
+    if (session.weatherInfo) {
+      setWeatherInfo(session.weatherInfo);
     }
-    if (backup.groupId) {
-      setGroupId(backup.groupId);
-      groupIdRef.current = backup.groupId;
+    if (session.groupId) {
+      setGroupId(session.groupId);
+      groupIdRef.current = session.groupId;
     }
-    if (backup.withNavigation && backup.destinationName && backup.destinationLat && backup.destinationLng) {
+    if (session.withNavigation && session.destinationName && session.destinationLat && session.destinationLng) {
       setHasNavigation(true);
       setNavigationDestination({
-        name: backup.destinationName,
-        lat: backup.destinationLat,
-        lng: backup.destinationLng,
+        name: session.destinationName,
+        lat: session.destinationLat,
+        lng: session.destinationLng,
       });
     }
     
     // ref 동기화
-    distanceRef.current = backup.distance;
-    durationRef.current = backup.duration;
+    distanceRef.current = replay.distance;
+    durationRef.current = replay.duration;
+    restTimeRef.current = replay.restTime;
+    maxSpeedRef.current = replay.maxSpeed;
     
-    // GPS 초기화 및 백업 시작
+    // 저널을 이어서 기록하고 GPS 초기화
+    await resumeRideJournal();
     initializeGps();
     startSessionBackup();
     
     Alert.alert("복구 완료", "이전 주행 기록이 복구되었습니다.");
   };
   
-  // 세션 백업 시작
+  // 주행 통계 체크포인트 시작 (포인트는 위치 업데이트마다 저널에 바로 기록됨)
   const startSessionBackup = () => {
-    backupIntervalRef.current = startBackupInterval(() => ({
-      id: rideIdRef.current,
-      startTime: startTimeRef.current.toISOString(),
-      lastUpdateTime: new Date().toISOString(),
+    backupIntervalRef.current = startJournalCheckpoints(() => ({
       isRunning: isRunningRef.current,
       isPaused: isAutoPausedRef.current,
       distance: distanceRef.current,
       duration: durationRef.current,
-      restTime,
-      maxSpeed,
-      gpsPoints: gpsPointsRef.current,
+      restTime: restTimeRef.current,
+      maxSpeed: maxSpeedRef.current,
+    }));
+  };
+
+  // 세션 정보가 바뀌면 저널 헤더에 반영
+  useEffect(() => {
+    journalSessionRef.current = {
       scooter: selectedScooter,
       startVoltage: startVoltage?.voltage ?? null,
       weatherInfo: weatherInfo ? {
@@ -860,13 +1029,14 @@ export default function RidingScreen() {
         precipitationType: weatherInfo.precipitationType,
         weatherCondition: weatherInfo.weatherCondition,
       } : null,
-      groupId: groupIdRef.current,
+      groupId,
       withNavigation: hasNavigation,
       destinationName: navigationDestination?.name ?? null,
       destinationLat: navigationDestination?.lat ?? null,
       destinationLng: navigationDestination?.lng ?? null,
-    }));
-  };
+    };
+    updateJournalSession(journalSessionRef.current);
+  }, [selectedScooter, startVoltage, weatherInfo, groupId, hasNavigation, navigationDestination]);
 
   useEffect(() => {
     // interval은 한 번만 생성하고 ref로 최신 값 참조
@@ -1021,6 +1191,66 @@ export default function RidingScreen() {
     return speedHistoryRef.current.reduce((a, b) => a + b, 0) / speedHistoryRef.current.length;
   };
 
+  // Crash detection: countdown alarm, then alert emergency contacts and the group
+  const [safetySettings, setSafetySettings] = useState<SafetySettings | null>(null);
+  const [crashSendState, setCrashSendState] = useState<"idle" | "sending" | "sent" | "failed">("idle");
+  const [crashNotifiedCount, setCrashNotifiedCount] = useState(0);
+  const reportCrash = trpc.safety.reportCrash.useMutation();
+  const sendGroupMessage = trpc.groups.sendMessage.useMutation();
+  const {
+    crashEvent,
+    addLocation: addCrashDetectionLocation,
+    dismiss: dismissCrash,
+  } = useCrashDetection({ enabled: isRunning && !!safetySettings?.crashDetectionEnabled });
+
+  useEffect(() => {
+    getSafetySettings().then(setSafetySettings);
+  }, []);
+
+  const sendCrashAlert = async () => {
+    if (!crashEvent) return;
+    setCrashSendState("sending");
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+
+    const { latitude, longitude } = crashEvent;
+    const currentGroupId = groupIdRef.current;
+    if (currentGroupId) {
+      const alertMessage = `🚨 ${user?.name || "라이더"}님의 사고가 감지되었습니다. 위치: ${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+      try {
+        if (wsConnected) {
+          wsSendChatMessage(alertMessage, "alert");
+        } else {
+          sendGroupMessage.mutate({ groupId: currentGroupId, message: alertMessage, messageType: "alert" });
+        }
+      } catch (error) {
+        console.error("[Riding] Failed to send crash alert to group:", error);
+      }
+    }
+
+    try {
+      const result = await reportCrash.mutateAsync({
+        latitude,
+        longitude,
+        peakG: crashEvent.peakG,
+        speedBeforeImpactKmh: crashEvent.speedBeforeImpactKmh,
+      });
+      setCrashNotifiedCount(result.notified);
+      setCrashSendState("sent");
+    } catch (error) {
+      console.error("[Riding] Failed to report crash:", error);
+      // The group alert may still have gone out over the WebSocket
+      setCrashSendState(currentGroupId && wsConnected ? "sent" : "failed");
+    }
+  };
+
+  const handleCrashDismiss = () => {
+    dismissCrash();
+    setCrashSendState("idle");
+    setCrashNotifiedCount(0);
+  };
+
   const handleLocationUpdate = (location: Location.LocationObject) => {
     // 전체 함수를 try-catch로 감싸서 예상치 못한 에러로 인한 크래시 방지
     try {
@@ -1063,6 +1293,8 @@ export default function RidingScreen() {
     const displaySpeed = smoothSpeed(rawSpeedKmh);
     setCurrentSpeed(displaySpeed);
 
+    addCrashDetectionLocation({ timestamp, latitude, longitude, speed: speed ?? null });
+
     // 그룹 라이딩 위치 업데이트 - WebSocket 우선, HTTP fallback
     try {
       const currentGroupId = groupIdRef.current;
@@ -1143,8 +1375,9 @@ export default function RidingScreen() {
     if (isMoving && hasMinAccuracy) {
       // 이동 중이고 GPS 정확도가 충분하면 경로 포인트에 추가 (라인 표시용)
       gpsPointsRef.current.push(gpsPoint);
+      appendJournalPoint(gpsPoint);
       
-      // 메모리 최적화: GPS 포인트가 너무 많으면 다운샘플링
+      // 메모리 최적화: GPS 포인트가 너무 많으면 다운샘플링 (저널에는 전체 포인트가 남음)
       const MAX_GPS_POINTS = 3600;
       const DOWNSAMPLE_THRESHOLD = 3000;
       
@@ -1173,6 +1406,7 @@ export default function RidingScreen() {
     } else if (validation.isValid) {
       // 이동 중이 아니지만 validation 통과한 경우에도 추가
       gpsPointsRef.current.push(gpsPoint);
+      appendJournalPoint(gpsPoint);
       if (gpsPointsRef.current.length % 5 === 0 || gpsPointsRef.current.length < 20) {
         setGpsPoints([...gpsPointsRef.current]);
       }
@@ -1218,6 +1452,7 @@ export default function RidingScreen() {
           speed: speed ?? null,
           isRiding: true,
           isStarting,
+          groupId: groupIdRef.current ?? undefined,
         }, {
           onError: (error) => {
             console.log("[Riding] Live location update failed (non-critical):", error);
@@ -1361,6 +1596,7 @@ export default function RidingScreen() {
   const lastRerouteTimeRef = useRef<number>(0);
   const REROUTE_COOLDOWN = 30000; // 30 seconds cooldown between reroutes
   const ROUTE_DEVIATION_THRESHOLD = 0.1; // 100 meters in km
+  const STEP_ARRIVAL_THRESHOLD = 30; // meters (calculateDistance returns meters)
 
   // Calculate minimum distance from current position to route
   const getDistanceToRoute = (lat: number, lng: number): number => {
@@ -1393,6 +1629,47 @@ export default function RidingScreen() {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
     }
     
+    // SCOOP 경로 탐색 우선 (OSM 기반 킥보드 프로필)
+    try {
+      const { maxSpeedKmh } = await getNavigationSettings();
+      const result = await trpcUtils.navigation.route.fetch({
+        originLat: lat,
+        originLng: lng,
+        destinationLat: navigationDestination.lat,
+        destinationLng: navigationDestination.lng,
+        maxSpeedKmh,
+      });
+      if (result.success) {
+        const newPoints: GpsPoint[] = result.route.polyline.map((p) => ({
+          latitude: p.latitude,
+          longitude: p.longitude,
+          altitude: null,
+          timestamp: Date.now(),
+          speed: null,
+          accuracy: null,
+        }));
+        setNavigationRoute(newPoints);
+        setGpxRoute({
+          name: navigationDestination.name,
+          points: newPoints.map(p => ({
+            latitude: p.latitude,
+            longitude: p.longitude,
+          })),
+          totalDistance: result.route.distanceValue / 1000,
+          estimatedDuration: result.route.durationValue,
+        });
+        setNavigationSteps(result.route.steps);
+        setCurrentStepIndex(0);
+        if (result.route.steps.length > 0) {
+          announceNavigationStep(result.route.steps[0]);
+        }
+        return;
+      }
+    } catch (error) {
+      // 네트워크가 없으면 기존 경로를 유지하고 다음 재탐색 때 다시 시도
+      console.log("[Navigation] SCOOP reroute unavailable:", error);
+    }
+
     try {
       const GOOGLE_MAPS_API_KEY = process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY || "";
       const url = `https://maps.googleapis.com/maps/api/directions/json?origin=${lat},${lng}&destination=${navigationDestination.lat},${navigationDestination.lng}&mode=bicycling&language=ko&key=${GOOGLE_MAPS_API_KEY}`;
@@ -1519,7 +1796,19 @@ export default function RidingScreen() {
 
     // Update current step based on proximity to route points
     // Find the closest point on the route and determine which step we're on
-    if (navigationSteps.length > 0 && currentStepIndex < navigationSteps.length - 1) {
+    const nextStepLocation = navigationSteps[currentStepIndex + 1]?.location;
+    if (nextStepLocation) {
+      // 회전 지점 좌표가 있으면 근접 여부로 다음 안내로 전환 (네트워크 불필요)
+      const distToTurn = calculateDistance(lat, lng, nextStepLocation.latitude, nextStepLocation.longitude);
+      if (distToTurn < STEP_ARRIVAL_THRESHOLD) {
+        const newStepIndex = currentStepIndex + 1;
+        setCurrentStepIndex(newStepIndex);
+        if (Platform.OS !== "web") {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        }
+        announceNavigationStep(navigationSteps[newStepIndex]);
+      }
+    } else if (navigationSteps.length > 0 && currentStepIndex < navigationSteps.length - 1) {
       // Simple heuristic: advance step when we've traveled enough distance
       // In a real app, you'd use more sophisticated logic with route geometry
       const stepProgress = gpsPointsRef.current.length;
@@ -1597,12 +1886,9 @@ export default function RidingScreen() {
 
       // Save to local storage with error handling
       try {
-        await saveRidingRecord(recordWithVoltage);
+        // 저널의 전체 GPS 포인트로 압축 저장 후 저널 삭제 (정상 저장 후 복구 팝업 방지)
+        await compactRideJournal(recordWithVoltage);
         console.log("[Riding] Record saved to local storage");
-        
-        // 주행 기록 저장 성공 후 세션 백업 삭제 (버그 수정: 정상 저장 후에도 복구 팝업이 표시되는 문제)
-        await clearRideSessionBackup();
-        console.log("[Riding] Session backup cleared after successful save");
       } catch (saveError) {
         console.error("[Riding] Failed to save record (with GPS):", saveError);
         
@@ -1615,7 +1901,7 @@ export default function RidingScreen() {
           recordWithoutGps.gpsPoints = [];
           await saveRidingRecord(recordWithoutGps);
           console.log("[Riding] Record saved without GPS points");
-          await clearRideSessionBackup();
+          await clearRideJournal();
         } catch (retryError) {
           console.error("[Riding] Failed to save record even without GPS:", retryError);
           Alert.alert(
@@ -1685,6 +1971,8 @@ export default function RidingScreen() {
           voltageEnd: endVoltage ? String(endVoltage) : undefined,
           socStart: startVoltage?.soc ? String(startVoltage.soc) : undefined,
           socEnd: endSoc ? String(endSoc) : undefined,
+          // Continuous controller readings, when a telemetry adapter is connected
+          voltageSamples: getVoltageSamples().length > 0 ? getVoltageSamples() : undefined,
           // Include weather data from ride start
           temperature: weatherInfo?.temperature !== null ? String(weatherInfo?.temperature) : undefined,
           humidity: weatherInfo?.humidity ?? undefined,
@@ -1692,6 +1980,8 @@ export default function RidingScreen() {
           windDirection: weatherInfo?.windDirection ?? undefined,
           precipitationType: weatherInfo?.precipitationType ?? undefined,
           weatherCondition: weatherInfo?.weatherCondition ?? undefined,
+          // Kept with the group session for the group replay
+          groupId: rideData.groupId,
         });
         console.log("[Riding] Server sync result:", syncResult);
         
@@ -1857,8 +2147,8 @@ export default function RidingScreen() {
         stopBackgroundLocationTracking();
       }
       clearStartVoltage();
-      // 짧은 주행도 세션 백업 삭제 (버그 수정)
-      clearRideSessionBackup();
+      // 짧은 주행도 주행 저널 삭제 (버그 수정)
+      clearRideJournal();
       // Navigate to main tab instead of back (which goes to scooter selection)
       router.replace("/(tabs)");
       return;
@@ -1942,7 +2232,13 @@ export default function RidingScreen() {
               console.log("[Riding] Saving record:", recordId, "duration:", record.duration);
               
               // Check if scooter has battery info and start voltage was recorded
-              if (selectedScooter?.batteryVoltage && startVoltage) {
+              if (selectedScooter?.batteryVoltage && startVoltage && telemetry?.voltage) {
+                // The controller reports the end voltage; it's still sagging, so compensate
+                const endSoc = calculateSoc(telemetry.voltage, createBatterySpecForScooter(selectedScooter), {
+                  minutesSinceRide: 0,
+                });
+                await saveRideRecord(record, telemetry.voltage, endSoc);
+              } else if (selectedScooter?.batteryVoltage && startVoltage) {
                 // Show end voltage modal
                 setPendingRideData(record);
                 setShowEndVoltageModal(true);
@@ -2111,7 +2407,9 @@ export default function RidingScreen() {
                 currentLocation={currentLocation}
                 isLive={true}
                 showCurrentLocation={false}
-                gpxRoute={gpxRoute}
+                gpxRoute={gpxRoute ?? sharedGroupRoute?.route}
+                meetingPoint={sharedGroupRoute?.meetingPoint}
+                rallyPoint={activeRegroup?.rallyPoint}
                 groupMembers={visibleGroupMembers}
                 navigationMode={true} // 주행 중에는 항상 네비게이션 스타일 (진행 방향이 위를 향하도록 지도 회전)
                 currentSpeed={currentSpeed} // 속도 기반 자동 줌 레벨 조절
@@ -2124,11 +2422,66 @@ export default function RidingScreen() {
                 currentLocation={currentLocation}
                 isLive={true}
                 showCurrentLocation={false}
-                gpxRoute={gpxRoute}
+                gpxRoute={gpxRoute ?? sharedGroupRoute?.route}
+                meetingPoint={sharedGroupRoute?.meetingPoint}
+                rallyPoint={activeRegroup?.rallyPoint}
                 groupMembers={visibleGroupMembers}
                 style={{ flex: 1, borderRadius: 0 }}
               />
             )}
+            {/* 그룹 재집결 안내 */}
+            {groupId && activeRegroup && (
+              <View style={{
+                position: 'absolute',
+                top: 124,
+                left: 16,
+                right: 16,
+                alignItems: 'center',
+              }}>
+                <View style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  backgroundColor: 'rgba(255, 152, 0, 0.95)',
+                  borderRadius: 20,
+                  paddingHorizontal: 16,
+                  paddingVertical: 8,
+                }}>
+                  <MaterialIcons name="groups" size={18} color="#000000" />
+                  <Text style={{ fontSize: 13, fontWeight: '600', color: '#000000', marginLeft: 6 }}>
+                    {activeRegroup.spread.frontUserId === user?.id
+                      ? '집결 지점에서 그룹을 기다려 주세요'
+                      : '재집결 지점으로 이동하세요'}
+                    {' · 간격 '}
+                    {activeRegroup.spread.distance >= 1000
+                      ? `${(activeRegroup.spread.distance / 1000).toFixed(1)}km`
+                      : `${Math.round(activeRegroup.spread.distance)}m`}
+                  </Text>
+                </View>
+              </View>
+            )}
+            {/* 그룹 호스트 경로 공유 버튼 */}
+            {groupId && isGroupHost && wsConnected && (
+              <Pressable
+                onPress={shareGroupRoute}
+                style={({ pressed }) => ({
+                  position: 'absolute',
+                  top: 80,
+                  right: 12,
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                  borderRadius: 20,
+                  paddingHorizontal: 12,
+                  paddingVertical: 8,
+                  opacity: pressed ? 0.7 : 1,
+                })}
+              >
+                <MaterialIcons name="share-location" size={18} color="#FFFFFF" />
+                <Text style={{ fontSize: 13, fontWeight: '600', color: '#FFFFFF', marginLeft: 4 }}>
+                  {sharedGroupRoute ? '경로 공유 중' : '경로 공유'}
+                </Text>
+              </Pressable>
+            )}
             {/* 속도계 - 중앙 하단 (더 크고 눈에 띄게) */}
             <View style={{
               position: 'absolute',
@@ -2337,6 +2690,29 @@ export default function RidingScreen() {
               </View>
             </View>
 
+            {/* Controller Telemetry */}
+            {telemetryAdapterName && (
+              <View className="flex-row justify-center items-center mx-4 mb-3">
+                <MaterialIcons
+                  name={telemetry?.errorCode ? "error-outline" : "bluetooth-connected"}
+                  size={14}
+                  color={telemetry?.errorCode ? "#EF4444" : "#9CA3AF"}
+                />
+                <Text className="text-gray-400 text-xs ml-1">
+                  {telemetry
+                    ? [
+                        telemetry.voltage !== null ? `${telemetry.voltage.toFixed(1)}V` : null,
+                        telemetry.current !== null ? `${telemetry.current.toFixed(1)}A` : null,
+                        telemetry.temperature !== null ? `${telemetry.temperature.toFixed(0)}°C` : null,
+                        telemetry.errorCode ? `오류 ${telemetry.errorCode}` : null,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")
+                    : `${telemetryAdapterName} 연결 중...`}
+                </Text>
+              </View>
+            )}
+
             {/* GPS Points Counter */}
             <View className="items-center mb-2">
               <Text className="text-gray-500 text-xs">
@@ -2406,25 +2782,31 @@ export default function RidingScreen() {
             />
           </Pressable>
 
-          {/* 그룹 라이딩 시 채팅 버튼 */}
+          {/* 그룹 라이딩 시 채팅 버튼 (위에 음성 메시지 버튼) */}
           {groupId ? (
-            <Pressable
-              onPress={() => setShowChat(true)}
-              style={({ pressed }) => [
-                {
-                  backgroundColor: showMap ? "rgba(51, 51, 51, 0.9)" : "#333333",
-                  transform: [{ scale: pressed ? 0.95 : 1 }],
-                  width: 64,
-                  height: 64,
-                  borderRadius: 32,
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                  marginLeft: 32,
-                },
-              ]}
-            >
-              <MaterialIcons name="chat" size={28} color="#FFFFFF" />
-            </Pressable>
+            <View style={{ marginLeft: 32 }}>
+              <PushToTalkButton
+                groupId={groupId}
+                size={52}
+                style={{ position: 'absolute', top: -68, left: 6 }}
+              />
+              <Pressable
+                onPress={() => setShowChat(true)}
+                style={({ pressed }) => [
+                  {
+                    backgroundColor: showMap ? "rgba(51, 51, 51, 0.9)" : "#333333",
+                    transform: [{ scale: pressed ? 0.95 : 1 }],
+                    width: 64,
+                    height: 64,
+                    borderRadius: 32,
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  },
+                ]}
+              >
+                <MaterialIcons name="chat" size={28} color="#FFFFFF" />
+              </Pressable>
+            </View>
           ) : (
             <View style={{ width: 64, height: 64, marginLeft: 32 }} />
           )}
@@ -2447,10 +2829,24 @@ export default function RidingScreen() {
             wsConnected={wsConnected}
             sendChatMessage={wsSendChatMessage}
             currentLocation={currentLocation}
+            liveMessages={wsChatMessages}
+            voiceMuted={voiceMuted}
+            onVoiceMutedChange={handleVoiceMutedChange}
+            onPlayVoice={playVoiceMessage}
           />
         </View>
       )}
 
+      {/* Crash Alert */}
+      <CrashAlertModal
+        visible={!!crashEvent}
+        countdownSeconds={safetySettings?.countdownSeconds ?? 30}
+        onSend={sendCrashAlert}
+        onDismiss={handleCrashDismiss}
+        sendState={crashSendState}
+        notifiedCount={crashNotifiedCount}
+      />
+
       {/* End Voltage Input Modal */}
       <VoltageInputModal
         visible={showEndVoltageModal}
@@ -2492,13 +2888,9 @@ export default function RidingScreen() {
             setRideAnalysis(null);
             setAnalysisRideStats(null);
             
-            // 세션 백업 확실히 삭제 (버그 수정: 복구 팝업 방지)
-            try {
-              await clearRideSessionBackup();
-              console.log("[Riding] Session backup cleared on modal close");
-            } catch (e) {
-              console.error("[Riding] Failed to clear session backup:", e);
-            }
+            // 주행 저널 확실히 삭제 (버그 수정: 복구 팝업 방지)
+            await clearRideJournal();
+            console.log("[Riding] Ride journal cleared on modal close");
             
             // 홈화면으로 이동 (약간의 딜레이로 확실한 전환 보장)
             setTimeout(() => {
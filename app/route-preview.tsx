@@ -17,11 +17,28 @@ import * as Location from "expo-location";
 import { ScreenContainer } from "@/components/screen-container";
 import { useColors } from "@/hooks/use-colors";
 import { RideMap } from "@/components/ride-map";
-import { GoogleRideMap } from "@/components/google-ride-map";
+import { GoogleRideMap, type RouteSegment } from "@/components/google-ride-map";
 import { GpsPoint } from "@/lib/gps-utils";
+import { trpc } from "@/lib/trpc";
+import { getSelectedScooter, type SelectedScooter } from "@/app/select-scooter";
+import {
+  DEFAULT_EFFICIENCY_WH_PER_KM,
+  calculateSoc,
+  createBatterySpecForScooter,
+  learnEfficiency,
+  planRouteBattery,
+} from "@/lib/battery-analysis";
+import {
+  MAX_SPEED_OPTIONS,
+  getNavigationSettings,
+  saveNavigationSettings,
+} from "@/lib/navigation-settings";
 
 const GOOGLE_MAPS_API_KEY = process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY || "";
 
+// 예비 SOC보다 이만큼(%p) 이상 남는 구간은 여유 구간으로 표시
+const COMFORT_MARGIN_SOC = 10;
+
 interface RouteStep {
   instruction: string;
   distance: string;
@@ -36,11 +53,13 @@ interface RouteInfo {
   durationValue: number;
   steps: RouteStep[];
   polylinePoints: GpsPoint[];
+  source: "scoop" | "google";
 }
 
 export default function RoutePreviewScreen() {
   const router = useRouter();
   const colors = useColors();
+  const trpcUtils = trpc.useUtils();
   const params = useLocalSearchParams<{
     destinationName: string;
     destinationAddress: string;
@@ -52,6 +71,8 @@ export default function RoutePreviewScreen() {
   const [currentLocation, setCurrentLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [routeInfo, setRouteInfo] = useState<RouteInfo | null>(null);
   const [selectedMode, setSelectedMode] = useState<"BICYCLING" | "WALKING" | "DRIVING" | "TWO_WHEELER">("BICYCLING");
+  const [maxSpeedKmh, setMaxSpeedKmh] = useState<number | null>(null);
+  const [selectedScooter, setSelectedScooterState] = useState<SelectedScooter | null>(null);
 
   const destination = useMemo(() => ({
     name: params.destinationName || "목적지",
@@ -79,12 +100,135 @@ export default function RoutePreviewScreen() {
     })();
   }, []);
 
+  // Load routing speed cap
+  useEffect(() => {
+    getNavigationSettings().then((settings) => setMaxSpeedKmh(settings.maxSpeedKmh));
+  }, []);
+
+  // Load selected scooter for battery planning
+  useEffect(() => {
+    getSelectedScooter().then(setSelectedScooterState);
+  }, []);
+
+  const { data: batteryProfile } = trpc.batteryAi.getRoutePlanningProfile.useQuery(
+    { scooterId: selectedScooter?.id ?? 0 },
+    { enabled: !!selectedScooter }
+  );
+
+  const { data: weatherData } = trpc.weather.getCurrent.useQuery(
+    { lat: currentLocation?.lat ?? 0, lon: currentLocation?.lng ?? 0 },
+    { enabled: !!currentLocation, staleTime: 30 * 60 * 1000 }
+  );
+  const currentTemperature = weatherData?.success ? weatherData.weather?.temperature ?? null : null;
+
+  // 도착 예상 SOC (마지막 주행 종료 전압 기준, 학습된 연비 + 고도/온도 보정)
+  const batteryPlan = useMemo(() => {
+    if (!routeInfo || !batteryProfile?.lastVoltageEnd) return null;
+
+    const { battery } = batteryProfile;
+    const spec = createBatterySpecForScooter({
+      batteryVoltage: battery.voltage,
+      batteryCapacity: battery.capacity,
+      batteryType: battery.type,
+      batteryCellCount: battery.cellCount,
+      batteryFullVoltage: battery.fullVoltage,
+      batteryEmptyVoltage: battery.emptyVoltage,
+    });
+    const learnedEfficiency = learnEfficiency(batteryProfile.rideLogs);
+    const efficiencyWhPerKm =
+      learnedEfficiency ?? batteryProfile.avgEfficiencyWhKm ?? DEFAULT_EFFICIENCY_WH_PER_KM;
+
+    return {
+      ...planRouteBattery(routeInfo.polylinePoints, spec, {
+        // 종료 전압은 주행 직후 입력된 값이라 전압 강하 보정
+        currentSoc: calculateSoc(batteryProfile.lastVoltageEnd, spec, { minutesSinceRide: 0 }),
+        efficiencyWhPerKm,
+        temperatureCelsius: currentTemperature,
+      }),
+      efficiencyWhPerKm,
+      learned: learnedEfficiency !== null,
+    };
+  }, [routeInfo, batteryProfile, currentTemperature]);
+
+  // 경로 위 배터리 여유 구간 (여유 / 예비 SOC 근접 / 예비 SOC 미만)
+  const batterySegments = useMemo((): RouteSegment[] | undefined => {
+    if (!routeInfo || !batteryPlan) return undefined;
+
+    const colorFor = (soc: number) =>
+      soc >= batteryPlan.reserveSoc + COMFORT_MARGIN_SOC
+        ? colors.success
+        : soc >= batteryPlan.reserveSoc
+          ? colors.warning
+          : colors.error;
+
+    const segments: RouteSegment[] = [];
+    routeInfo.polylinePoints.forEach((point, index) => {
+      const coordinate = { latitude: point.latitude, longitude: point.longitude };
+      const color = colorFor(batteryPlan.socAlongRoute[index]);
+      const last = segments[segments.length - 1];
+      if (last && last.color === color) {
+        last.points.push(coordinate);
+      } else {
+        // 구간이 끊기지 않도록 이전 구간의 마지막 지점에서 이어서 그림
+        const previous = last ? [last.points[last.points.length - 1]] : [];
+        segments.push({ color, points: [...previous, coordinate] });
+      }
+    });
+    return segments;
+  }, [routeInfo, batteryPlan, colors]);
+
   // Fetch route when location is available
   useEffect(() => {
-    if (currentLocation) {
+    if (currentLocation && maxSpeedKmh !== null) {
       fetchRoute();
     }
-  }, [currentLocation, selectedMode]);
+  }, [currentLocation, selectedMode, maxSpeedKmh]);
+
+  const handleSelectMaxSpeed = (speed: number) => {
+    setMaxSpeedKmh(speed);
+    saveNavigationSettings({ maxSpeedKmh: speed });
+  };
+
+  // SCOOP 서버 경로 탐색 (OSM 기반, 킥보드 프로필: 자전거도로 우선, 자동차전용도로/계단 회피)
+  const fetchScoopRoute = async (): Promise<boolean> => {
+    if (!currentLocation) return false;
+    try {
+      const result = await trpcUtils.navigation.route.fetch({
+        originLat: currentLocation.lat,
+        originLng: currentLocation.lng,
+        destinationLat: destination.lat,
+        destinationLng: destination.lng,
+        maxSpeedKmh: maxSpeedKmh ?? 25,
+      });
+      if (!result.success) {
+        console.log(`[Route] SCOOP routing unavailable: ${result.code}`);
+        return false;
+      }
+
+      const { route } = result;
+      setRouteInfo({
+        distance: route.distance,
+        duration: route.duration,
+        distanceValue: route.distanceValue,
+        durationValue: route.durationValue,
+        steps: route.steps,
+        polylinePoints: route.polyline.map((p) => ({
+          latitude: p.latitude,
+          longitude: p.longitude,
+          altitude: p.altitude,
+          timestamp: Date.now(),
+          speed: null,
+          accuracy: null,
+        })),
+        source: "scoop",
+      });
+      console.log("[Route] Route found using SCOOP routing");
+      return true;
+    } catch (error) {
+      console.error("[Route] SCOOP routing error:", error);
+      return false;
+    }
+  };
 
   const decodePolyline = (encoded: string): GpsPoint[] => {
     const points: GpsPoint[] = [];
@@ -150,6 +294,13 @@ export default function RoutePreviewScreen() {
         return;
       }
 
+      // 킥보드/자전거 모드는 SCOOP 경로 탐색 우선, 실패 시 Google Directions로 대체
+      if (selectedMode === "TWO_WHEELER" || selectedMode === "BICYCLING") {
+        if (await fetchScoopRoute()) {
+          return;
+        }
+      }
+
       // API 키 확인
       if (!GOOGLE_MAPS_API_KEY) {
         console.error("[Route] Google Maps API key is missing");
@@ -201,6 +352,7 @@ export default function RoutePreviewScreen() {
               durationValue: leg.duration.value,
               steps,
               polylinePoints,
+              source: "google",
             });
 
             routeFound = true;
@@ -278,6 +430,24 @@ export default function RoutePreviewScreen() {
       return;
     }
 
+    if (batteryPlan && !batteryPlan.feasible) {
+      Alert.alert(
+        "배터리 부족 예상",
+        `도착 시 배터리가 ${Math.round(batteryPlan.arrivalSoc)}%로 예상되어 예비 배터리(${batteryPlan.reserveSoc}%)보다 낮습니다. 그래도 안내를 시작할까요?`,
+        [
+          { text: "취소", style: "cancel" },
+          { text: "시작", onPress: startNavigation },
+        ]
+      );
+      return;
+    }
+
+    startNavigation();
+  };
+
+  const startNavigation = () => {
+    if (!routeInfo) return;
+
     // Navigate to riding screen with route data
     router.push({
       pathname: "/select-scooter",
@@ -436,6 +606,7 @@ export default function RoutePreviewScreen() {
                 })),
                 name: destination.name,
               }}
+              routeSegments={batterySegments}
             />
           ) : (
             <RideMap
@@ -450,6 +621,7 @@ export default function RoutePreviewScreen() {
                 })),
                 name: destination.name,
               }}
+              routeSegments={batterySegments}
             />
           )
         )}
@@ -556,6 +728,27 @@ export default function RoutePreviewScreen() {
               </ScrollView>
             </View>
 
+            {/* Routing speed cap (SCOOP routing only) */}
+            {(selectedMode === "TWO_WHEELER" || selectedMode === "BICYCLING") && (
+              <View className="flex-row items-center mb-3">
+                <Text className="text-muted text-sm mr-2">최고 속도</Text>
+                {MAX_SPEED_OPTIONS.map((speed) => (
+                  <Pressable
+                    key={speed}
+                    onPress={() => handleSelectMaxSpeed(speed)}
+                    style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                    className={`px-3 py-1 rounded-full mr-2 ${
+                      maxSpeedKmh === speed ? "bg-primary" : "bg-surface"
+                    }`}
+                  >
+                    <Text className={`text-sm ${maxSpeedKmh === speed ? "text-white" : "text-muted"}`}>
+                      {speed}km/h
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+
             {/* Distance & Duration */}
             <View className="flex-row items-center justify-around">
               <View className="items-center">
@@ -568,6 +761,43 @@ export default function RoutePreviewScreen() {
                 <Text className="text-muted text-sm">예상 시간</Text>
               </View>
             </View>
+
+            {/* Arrival Battery */}
+            {batteryPlan && (
+              <View
+                className="mt-3 p-3 rounded-xl"
+                style={{ backgroundColor: (batteryPlan.feasible ? colors.success : colors.error) + "15" }}
+              >
+                <View className="flex-row items-center justify-between">
+                  <View className="flex-row items-center">
+                    <MaterialIcons
+                      name={batteryPlan.feasible ? "battery-std" : "battery-alert"}
+                      size={20}
+                      color={batteryPlan.feasible ? colors.success : colors.error}
+                    />
+                    <Text className="text-foreground font-medium ml-2">
+                      도착 예상 배터리 {Math.round(batteryPlan.arrivalSoc)}%
+                    </Text>
+                  </View>
+                  <Text
+                    className="text-sm font-medium"
+                    style={{ color: batteryPlan.feasible ? colors.success : colors.error }}
+                  >
+                    여유 {batteryPlan.marginSoc >= 0 ? "+" : ""}{Math.round(batteryPlan.marginSoc)}%p
+                  </Text>
+                </View>
+                <Text className="text-muted text-xs mt-1">
+                  현재 {Math.round(batteryPlan.startSoc)}% · {batteryPlan.efficiencyWhPerKm.toFixed(1)}Wh/km
+                  {batteryPlan.learned ? " (주행 기록 학습)" : " (기본값)"}
+                  {currentTemperature !== null ? ` · ${currentTemperature}°C 보정` : ""}
+                </Text>
+                {!batteryPlan.feasible && batteryPlan.reserveDistanceKm !== null && (
+                  <Text className="text-sm mt-2" style={{ color: colors.error }}>
+                    약 {batteryPlan.reserveDistanceKm.toFixed(1)}km 지점에서 예비 배터리({batteryPlan.reserveSoc}%) 아래로 떨어집니다. 출발 전 충전하거나 경유 충전을 계획하세요.
+                  </Text>
+                )}
+              </View>
+            )}
           </View>
 
           {/* Route Steps */}
@@ -659,7 +889,9 @@ export default function RoutePreviewScreen() {
               </View>
             </Pressable>
             <Text className="text-muted text-xs text-center mt-2">
-              * Google Maps 기반으로 한국에서는 제한될 수 있습니다
+              {routeInfo.source === "scoop"
+                ? "* OpenStreetMap 기반 킥보드 경로 (자전거도로 우선)"
+                : "* Google Maps 기반으로 한국에서는 제한될 수 있습니다"}
             </Text>
           </View>
         </>
@@ -0,0 +1,341 @@
+import { useEffect, useMemo } from "react";
+import {
+  Text,
+  View,
+  ScrollView,
+  Pressable,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { useAuth } from "@/hooks/use-auth";
+import { trpc } from "@/lib/trpc";
+import type { CalendarRide } from "@/lib/ride-calendar";
+import { exportRideToCalendar, syncRideReminder } from "@/lib/scheduled-rides";
+import { PACE_SPEED_RANGES, type PaceLevel, type RsvpStatus } from "@/shared/scheduled-ride";
+
+const PACE_LABELS: Record<PaceLevel, string> = {
+  relaxed: "여유",
+  moderate: "보통",
+  fast: "빠름",
+};
+
+const RSVP_OPTIONS: { value: Exclude<RsvpStatus, "waitlist">; label: string; icon: string }[] = [
+  { value: "going", label: "참가", icon: "check-circle" },
+  { value: "maybe", label: "미정", icon: "help" },
+  { value: "declined", label: "불참", icon: "cancel" },
+];
+
+const formatStart = (time: Date | string) =>
+  new Date(time).toLocaleString("ko-KR", {
+    month: "long",
+    day: "numeric",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function ScheduledRideDetailScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const { user } = useAuth();
+  const { rideId: rideIdParam } = useLocalSearchParams<{ rideId: string }>();
+  const rideId = parseInt(rideIdParam || "0");
+
+  const trpcUtils = trpc.useUtils();
+  const rideQuery = trpc.scheduledRides.get.useQuery({ rideId }, { enabled: rideId > 0 });
+  const rsvpMutation = trpc.scheduledRides.rsvp.useMutation();
+  const cancelMutation = trpc.scheduledRides.cancel.useMutation();
+  const shareMutation = trpc.scheduledRides.share.useMutation();
+  const ride = rideQuery.data;
+
+  const calendarRide = useMemo<CalendarRide | null>(
+    () =>
+      ride
+        ? {
+            id: ride.id,
+            title: ride.title,
+            description: ride.description,
+            startsAt: new Date(ride.startsAt).getTime(),
+            meetingPointName: ride.meetingPointName,
+            meetingLatitude: ride.meetingLatitude,
+            meetingLongitude: ride.meetingLongitude,
+            paceLevel: ride.paceLevel,
+            routeDistance: ride.route?.totalDistance ?? null,
+            status: ride.status,
+          }
+        : null,
+    [ride]
+  );
+
+  // 대기자에서 참가로 바뀌었거나 일정이 취소된 경우에도 알림이 맞도록
+  useEffect(() => {
+    if (calendarRide) syncRideReminder(calendarRide, ride?.myStatus ?? null);
+  }, [calendarRide, ride?.myStatus]);
+
+  const refresh = () => {
+    trpcUtils.scheduledRides.get.invalidate({ rideId });
+    trpcUtils.scheduledRides.list.invalidate();
+  };
+
+  const respond = async (status: Exclude<RsvpStatus, "waitlist">) => {
+    try {
+      const result = await rsvpMutation.mutateAsync({ rideId, status });
+      if (Platform.OS !== "web") {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+      if (result.status === "waitlist") {
+        Alert.alert("대기 신청", "정원이 가득 차서 대기자로 등록되었습니다. 자리가 생기면 알려드릴게요.");
+      }
+      refresh();
+    } catch (error: any) {
+      Alert.alert("오류", error.message || "참가 응답에 실패했습니다.");
+    }
+  };
+
+  const confirmCancel = () => {
+    Alert.alert("일정 취소", "라이딩 일정을 취소할까요? 참가 신청한 라이더에게 알림이 전송됩니다.", [
+      { text: "닫기", style: "cancel" },
+      {
+        text: "일정 취소",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await cancelMutation.mutateAsync({ rideId });
+            refresh();
+          } catch (error: any) {
+            Alert.alert("오류", error.message || "일정 취소에 실패했습니다.");
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleShare = async () => {
+    try {
+      const { postId } = await shareMutation.mutateAsync({ rideId });
+      trpcUtils.community.getPosts.invalidate();
+      Alert.alert("모집 글 등록", "커뮤니티에 모집 글을 올렸습니다.", [
+        { text: "닫기", style: "cancel" },
+        { text: "글 보기", onPress: () => router.push(`/post-detail?id=${postId}` as never) },
+      ]);
+    } catch (error: any) {
+      Alert.alert("오류", error.message || "모집 글 등록에 실패했습니다.");
+    }
+  };
+
+  const handleExport = async () => {
+    if (!calendarRide) return;
+    const success = await exportRideToCalendar(calendarRide);
+    if (!success) Alert.alert("오류", "캘린더 파일을 만들지 못했습니다.");
+  };
+
+  if (rideQuery.isLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
+
+  if (!ride) {
+    return (
+      <ScreenContainer className="items-center justify-center p-6">
+        <MaterialIcons name="event-busy" size={48} color={colors.muted} />
+        <Text className="text-muted mt-3 text-center">라이딩 일정을 찾을 수 없습니다.</Text>
+        <Pressable onPress={() => router.back()} className="mt-4">
+          <Text className="text-primary font-medium">돌아가기</Text>
+        </Pressable>
+      </ScreenContainer>
+    );
+  }
+
+  const isHost = user?.id === ride.hostId;
+  const going = ride.rsvps.filter((r) => r.status === "going");
+  const waitlist = ride.rsvps.filter((r) => r.status === "waitlist");
+  const maybe = ride.rsvps.filter((r) => r.status === "maybe");
+  const waitlistPosition = waitlist.findIndex((r) => r.userId === user?.id) + 1;
+  const pace = PACE_SPEED_RANGES[ride.paceLevel];
+
+  const riderGroups = [
+    { label: `참가 ${going.length}/${ride.capacity}`, riders: going, color: colors.success },
+    { label: `대기 ${waitlist.length}`, riders: waitlist, color: colors.warning },
+    { label: `미정 ${maybe.length}`, riders: maybe, color: colors.muted },
+  ].filter((group) => group.riders.length > 0);
+
+  return (
+    <ScreenContainer>
+      {/* Header */}
+      <View className="flex-row items-center px-5 pt-4 pb-3 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text className="text-lg font-bold text-foreground ml-4 flex-1" numberOfLines={1}>
+          {ride.title}
+        </Text>
+        {isHost && ride.status === "scheduled" && (
+          <Pressable
+            onPress={handleShare}
+            disabled={shareMutation.isPending}
+            style={({ pressed }) => [{ opacity: pressed || shareMutation.isPending ? 0.6 : 1 }]}
+          >
+            <MaterialIcons name="campaign" size={24} color={colors.primary} />
+          </Pressable>
+        )}
+      </View>
+
+      <ScrollView contentContainerStyle={{ paddingBottom: 40 }}>
+        {/* Status Banner */}
+        {ride.status !== "scheduled" && (
+          <View
+            className="mx-5 mt-4 rounded-xl p-3 flex-row items-center"
+            style={{ backgroundColor: (ride.status === "cancelled" ? colors.error : colors.success) + "15" }}
+          >
+            <MaterialIcons
+              name={ride.status === "cancelled" ? "event-busy" : "directions-bike"}
+              size={20}
+              color={ride.status === "cancelled" ? colors.error : colors.success}
+            />
+            <Text className="text-foreground ml-2 flex-1">
+              {ride.status === "cancelled" ? "취소된 라이딩입니다." : "라이딩이 시작되어 그룹이 만들어졌습니다."}
+            </Text>
+            {ride.status === "started" && ride.groupId && (
+              <Pressable onPress={() => router.push("/group-riding")}>
+                <Text className="text-primary font-medium">그룹으로 이동</Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+
+        {/* Ride Info */}
+        <View className="mx-5 mt-4 bg-surface rounded-2xl p-4 border border-border">
+          <View className="flex-row items-center">
+            <MaterialIcons name="event" size={20} color={colors.primary} />
+            <Text className="text-foreground font-semibold ml-2">{formatStart(ride.startsAt)}</Text>
+          </View>
+          <View className="flex-row items-center mt-3">
+            <MaterialIcons name="place" size={20} color={colors.primary} />
+            <Text className="text-foreground ml-2 flex-1">{ride.meetingPointName}</Text>
+          </View>
+          {ride.meetingPointApproximate && (
+            <Text className="text-muted text-xs mt-1 ml-7">정확한 집결지 위치는 참가 신청 후 확인할 수 있어요.</Text>
+          )}
+          <View className="flex-row items-center mt-3">
+            <MaterialIcons name="speed" size={20} color={colors.primary} />
+            <Text className="text-foreground ml-2">
+              {PACE_LABELS[ride.paceLevel]} 페이스 ({pace.min}~{pace.max}km/h)
+            </Text>
+          </View>
+          {ride.route && (
+            <View className="flex-row items-center mt-3">
+              <MaterialIcons name="route" size={20} color={colors.primary} />
+              <Text className="text-foreground ml-2 flex-1" numberOfLines={1}>
+                {ride.route.name} · {(ride.route.totalDistance / 1000).toFixed(1)}km
+              </Text>
+            </View>
+          )}
+          <View className="flex-row items-center mt-3">
+            <MaterialIcons name="person" size={20} color={colors.primary} />
+            <Text className="text-foreground ml-2">호스트: {ride.hostName || "라이더"}</Text>
+          </View>
+          {ride.description ? (
+            <>
+              <View className="h-px bg-border my-3" />
+              <Text className="text-foreground leading-6">{ride.description}</Text>
+            </>
+          ) : null}
+        </View>
+
+        {/* RSVP */}
+        {ride.status === "scheduled" && !isHost && (
+          <View className="mx-5 mt-4">
+            <View className="flex-row">
+              {RSVP_OPTIONS.map((option) => {
+                const selected =
+                  ride.myStatus === option.value || (option.value === "going" && ride.myStatus === "waitlist");
+                return (
+                  <Pressable
+                    key={option.value}
+                    onPress={() => respond(option.value)}
+                    disabled={rsvpMutation.isPending}
+                    style={({ pressed }) => [
+                      {
+                        flex: 1,
+                        opacity: pressed || rsvpMutation.isPending ? 0.7 : 1,
+                        backgroundColor: selected ? colors.primary : colors.surface,
+                      },
+                    ]}
+                    className="flex-row items-center justify-center py-3 rounded-xl mr-2 border border-border"
+                  >
+                    <MaterialIcons name={option.icon as any} size={18} color={selected ? "#FFFFFF" : colors.muted} />
+                    <Text className="font-medium ml-1" style={{ color: selected ? "#FFFFFF" : colors.foreground }}>
+                      {option.value === "going" && ride.myStatus === "waitlist" ? "대기 중" : option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            {waitlistPosition > 0 && (
+              <Text className="text-muted text-xs mt-2">
+                대기 {waitlistPosition}번째입니다. 자리가 생기면 자동으로 참가되고 알림을 보내드려요.
+              </Text>
+            )}
+          </View>
+        )}
+
+        {/* Actions */}
+        <View className="flex-row mx-5 mt-4">
+          <Pressable
+            onPress={handleExport}
+            style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1, flex: 1 }]}
+            className="flex-row items-center justify-center py-3 rounded-xl bg-primary/10"
+          >
+            <MaterialIcons name="event-available" size={18} color={colors.primary} />
+            <Text className="text-primary font-medium ml-2">캘린더에 추가</Text>
+          </Pressable>
+          {isHost && ride.status === "scheduled" && (
+            <Pressable
+              onPress={confirmCancel}
+              disabled={cancelMutation.isPending}
+              style={({ pressed }) => [{ opacity: pressed || cancelMutation.isPending ? 0.7 : 1, flex: 1 }]}
+              className="flex-row items-center justify-center py-3 rounded-xl ml-2 bg-error/10"
+            >
+              <MaterialIcons name="event-busy" size={18} color={colors.error} />
+              <Text className="text-error font-medium ml-2">일정 취소</Text>
+            </Pressable>
+          )}
+        </View>
+
+        {/* Riders */}
+        {riderGroups.map((group) => (
+          <View key={group.label} className="mx-5 mt-5">
+            <Text className="text-foreground font-semibold mb-2">{group.label}</Text>
+            <View className="flex-row flex-wrap">
+              {group.riders.map((rider) => (
+                <View
+                  key={rider.userId}
+                  className="flex-row items-center px-3 py-1.5 rounded-full mr-2 mb-2 bg-surface border border-border"
+                >
+                  <View style={{ width: 8, height: 8, borderRadius: 4, backgroundColor: group.color }} />
+                  <Text className="text-sm text-foreground ml-1.5">
+                    {rider.name || "라이더"}
+                    {rider.userId === ride.hostId ? " (호스트)" : ""}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,150 @@
+import {
+  Text,
+  View,
+  FlatList,
+  Pressable,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { useRouter } from "expo-router";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+import type { RsvpStatus } from "@/shared/scheduled-ride";
+
+const PACE_LABELS = { relaxed: "여유", moderate: "보통", fast: "빠름" } as const;
+
+const RSVP_LABELS: Record<RsvpStatus, string> = {
+  going: "참가",
+  maybe: "미정",
+  declined: "불참",
+  waitlist: "대기",
+};
+
+const formatStart = (time: Date | string) =>
+  new Date(time).toLocaleString("ko-KR", {
+    month: "short",
+    day: "numeric",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function ScheduledRidesScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const ridesQuery = trpc.scheduledRides.list.useQuery();
+  const rides = ridesQuery.data ?? [];
+
+  type Ride = (typeof rides)[number];
+
+  const renderRide = ({ item }: { item: Ride }) => {
+    const isFull = item.goingCount >= item.capacity;
+    return (
+      <Pressable
+        onPress={() => router.push(`/scheduled-ride-detail?rideId=${item.id}` as never)}
+        style={({ pressed }) => [{ opacity: pressed ? 0.8 : 1 }]}
+        className="bg-surface rounded-xl p-4 mb-3 border border-border"
+      >
+        <View className="flex-row items-center">
+          <Text className="text-base font-bold text-foreground flex-1" numberOfLines={1}>
+            {item.title}
+          </Text>
+          {item.status === "started" ? (
+            <View className="bg-success/20 px-2 py-0.5 rounded-full">
+              <Text className="text-xs text-success font-medium">진행 중</Text>
+            </View>
+          ) : item.myStatus ? (
+            <View className="bg-primary/20 px-2 py-0.5 rounded-full">
+              <Text className="text-xs text-primary font-medium">{RSVP_LABELS[item.myStatus]}</Text>
+            </View>
+          ) : null}
+        </View>
+        <View className="flex-row items-center mt-2">
+          <MaterialIcons name="event" size={16} color={colors.muted} />
+          <Text className="text-sm text-foreground ml-1.5">{formatStart(item.startsAt)}</Text>
+        </View>
+        <View className="flex-row items-center mt-1">
+          <MaterialIcons name="place" size={16} color={colors.muted} />
+          <Text className="text-sm text-muted ml-1.5 flex-1" numberOfLines={1}>{item.meetingPointName}</Text>
+        </View>
+        <View className="flex-row items-center mt-2">
+          <Text className="text-xs text-muted flex-1">
+            {PACE_LABELS[item.paceLevel]} 페이스 · 호스트 {item.hostName || "라이더"}
+          </Text>
+          <MaterialIcons name="groups" size={16} color={isFull ? colors.warning : colors.muted} />
+          <Text className="text-xs ml-1" style={{ color: isFull ? colors.warning : colors.muted }}>
+            {item.goingCount}/{item.capacity}
+          </Text>
+        </View>
+      </Pressable>
+    );
+  };
+
+  return (
+    <ScreenContainer className="flex-1">
+      {/* Header */}
+      <View className="flex-row items-center justify-between px-4 py-3 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text className="text-lg font-bold text-foreground">예정된 그룹 라이딩</Text>
+        <View className="flex-row">
+          <Pressable
+            onPress={() => router.push("/discover-rides" as never)}
+            style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+            className="mr-4"
+          >
+            <MaterialIcons name="travel-explore" size={24} color={colors.primary} />
+          </Pressable>
+          <Pressable
+            onPress={() => router.push("/create-scheduled-ride" as never)}
+            style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+          >
+            <MaterialIcons name="add" size={24} color={colors.primary} />
+          </Pressable>
+        </View>
+      </View>
+
+      {ridesQuery.isLoading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={rides}
+          renderItem={renderRide}
+          keyExtractor={(item) => item.id.toString()}
+          contentContainerStyle={{ padding: 16, flexGrow: 1 }}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={ridesQuery.isRefetching} onRefresh={() => ridesQuery.refetch()} />
+          }
+          ListEmptyComponent={
+            <View className="flex-1 items-center justify-center px-8">
+              <MaterialIcons name="event" size={64} color={colors.muted} />
+              <Text className="text-lg font-medium text-foreground mt-4 text-center">
+                예정된 라이딩이 없습니다
+              </Text>
+              <Text className="text-sm text-muted mt-2 text-center">
+                날짜와 집결지를 정해 함께 달릴 라이더를 모아보세요.
+              </Text>
+              <Pressable
+                onPress={() => router.push("/create-scheduled-ride" as never)}
+                style={({ pressed }) => [{ opacity: pressed ? 0.8 : 1 }]}
+                className="bg-primary px-5 py-3 rounded-lg mt-5"
+              >
+                <Text className="text-white font-semibold">라이딩 일정 만들기</Text>
+              </Pressable>
+            </View>
+          }
+        />
+      )}
+    </ScreenContainer>
+  );
+}
@@ -34,6 +34,11 @@ export default function ScooterStatsScreen() {
     enabled: isAuthenticated,
   });
 
+  const chargingReportQuery = trpc.charging.getMonthlyReport.useQuery(
+    { scooterId: parseInt(id || "0") },
+    { enabled: isAuthenticated && !!id }
+  );
+
   const recalculateStatsMutation = trpc.scooters.recalculateStats.useMutation({
     onSuccess: async (data) => {
       if (data.success) {
@@ -326,6 +331,66 @@ export default function ScooterStatsScreen() {
           </View>
         )}
 
+        {/* Charging Cost & Cycles */}
+        {chargingReportQuery.data && chargingReportQuery.data.totals.charges > 0 && (
+          <View className="mx-5 mb-4 bg-surface rounded-2xl p-5 border border-border">
+            <View className="flex-row items-center justify-between mb-3">
+              <Text className="text-lg font-bold text-foreground">충전 비용</Text>
+              <Pressable
+                onPress={() => router.push("/chargers" as any)}
+                style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                className="flex-row items-center"
+              >
+                <Text className="text-primary text-sm font-medium mr-1">충전기·요금제</Text>
+                <MaterialIcons name="chevron-right" size={18} color={colors.primary} />
+              </Pressable>
+            </View>
+
+            <View className="flex-row mb-4 pb-4 border-b border-border">
+              <View className="flex-1">
+                <Text className="text-xl font-bold text-foreground">
+                  {chargingReportQuery.data.totals.cost !== null
+                    ? `${Math.round(chargingReportQuery.data.totals.cost).toLocaleString()}원`
+                    : "-"}
+                </Text>
+                <Text className="text-muted text-xs">최근 12개월 전기요금</Text>
+              </View>
+              <View className="flex-1">
+                <Text className="text-xl font-bold text-foreground">
+                  {chargingReportQuery.data.totals.cycles.toFixed(1)}
+                </Text>
+                <Text className="text-muted text-xs">충전 사이클</Text>
+              </View>
+            </View>
+
+            {chargingReportQuery.data.months.slice(0, 6).map((month) => (
+              <View key={month.month} className="flex-row items-center py-2">
+                <Text className="text-foreground font-medium w-20">{month.month}</Text>
+                <Text className="text-muted text-xs flex-1">
+                  {month.charges}회 • {(month.energyFromGridWh / 1000).toFixed(2)} kWh • {month.cycles.toFixed(1)} 사이클
+                </Text>
+                <Text className="text-foreground font-medium">
+                  {month.cost !== null ? `${Math.round(month.cost).toLocaleString()}원` : "-"}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Battery Reminders */}
+        <Pressable
+          onPress={() => router.push(`/battery-reminders?id=${scooter.id}` as any)}
+          style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+          className="mx-5 mb-4 bg-surface rounded-2xl p-5 border border-border flex-row items-center"
+        >
+          <MaterialIcons name="battery-alert" size={24} color={colors.primary} />
+          <View className="flex-1 ml-3">
+            <Text className="text-foreground font-bold">배터리 알림</Text>
+            <Text className="text-muted text-xs">충전 시점, 보관 충전량, 영하 충전 경고</Text>
+          </View>
+          <MaterialIcons name="chevron-right" size={20} color={colors.muted} />
+        </Pressable>
+
         {/* Maintenance Status */}
         <View className="mx-5 mb-4 bg-surface rounded-2xl p-5 border border-border">
           <View className="flex-row items-center justify-between mb-3">
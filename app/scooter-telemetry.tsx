@@ -0,0 +1,98 @@
+import { useState, useEffect } from "react";
+import { Text, View, ScrollView, Pressable, Platform, ActivityIndicator } from "react-native";
+import { useRouter } from "expo-router";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import {
+  getSelectedTelemetryAdapter,
+  getTelemetryAdapter,
+  getTelemetryAdapters,
+  setSelectedTelemetryAdapter,
+} from "@/lib/scooter-telemetry";
+
+export default function ScooterTelemetryScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const [selected, setSelected] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getSelectedTelemetryAdapter().then((id) => {
+      // An adapter that isn't available in this build counts as off
+      setSelected(id && getTelemetryAdapter(id) ? id : null);
+      setLoading(false);
+    });
+  }, []);
+
+  const select = async (id: string | null) => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    setSelected(id);
+    await setSelectedTelemetryAdapter(id);
+  };
+
+  const options = [
+    { id: null, name: "사용 안 함", description: "주행 시작·종료 시 전압을 직접 입력합니다" },
+    ...getTelemetryAdapters(),
+  ];
+
+  if (loading) {
+    return (
+      <ScreenContainer>
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </ScreenContainer>
+    );
+  }
+
+  return (
+    <ScreenContainer>
+      {/* Header */}
+      <View className="flex-row items-center px-5 py-4 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+          className="mr-4"
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text className="text-xl font-bold text-foreground">기체 연결</Text>
+      </View>
+
+      <ScrollView className="flex-1 p-5">
+        <Text className="text-muted text-sm mb-4">
+          연결하면 주행 중 컨트롤러에서 전압, 전류, 속도, 온도, 오류 코드를 읽어와 배터리 기록에 남깁니다.
+        </Text>
+
+        <View className="bg-surface rounded-2xl border border-border overflow-hidden">
+          {options.map((option, index) => {
+            const isSelected = selected === option.id;
+            return (
+              <Pressable
+                key={option.id ?? "off"}
+                onPress={() => select(option.id)}
+                style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                className={`flex-row items-center p-4 ${index > 0 ? "border-t border-border" : ""}`}
+              >
+                <View className="flex-1">
+                  <Text className="text-foreground font-medium">{option.name}</Text>
+                  <Text className="text-muted text-xs mt-1">{option.description}</Text>
+                </View>
+                <MaterialIcons
+                  name={isSelected ? "radio-button-checked" : "radio-button-unchecked"}
+                  size={22}
+                  color={isSelected ? colors.primary : colors.muted}
+                />
+              </Pressable>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
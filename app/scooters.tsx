@@ -21,6 +21,7 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { useAuth } from "@/hooks/use-auth";
 import { trpc } from "@/lib/trpc";
 import { useTranslation } from "@/hooks/use-translation";
+import { OCV_CURVES, batteryChemistry } from "@/shared/battery-ocv";
 
 // Predefined colors for scooter
 const SCOOTER_COLORS = [
@@ -58,6 +59,7 @@ interface ScooterFormData {
   batteryCellCount: string;
   batteryFullVoltage: string;
   batteryEmptyVoltage: string;
+  riderWeight: string;
 }
 
 const initialFormData: ScooterFormData = {
@@ -75,20 +77,16 @@ const initialFormData: ScooterFormData = {
   batteryCellCount: "",
   batteryFullVoltage: "",
   batteryEmptyVoltage: "",
-};
-
-// Battery type cell voltages
-const BATTERY_TYPE_VOLTAGES: Record<string, { full: number; empty: number }> = {
-  lithium_ion: { full: 4.2, empty: 3.0 },
-  lifepo4: { full: 3.65, empty: 2.5 },
-  lipo: { full: 4.2, empty: 3.0 },
+  riderWeight: "",
 };
 
 // Calculate full/empty voltage based on battery type and cell count
+// (the rested cell voltages at 100% and 0% on the chemistry's OCV curve)
 function calculateVoltages(batteryType: string, cellCount: number) {
-  const type = BATTERY_TYPE_VOLTAGES[batteryType];
-  if (!type || cellCount <= 0) return { full: "", empty: "" };
-  
+  if (!batteryType || cellCount <= 0) return { full: "", empty: "" };
+  const curve = OCV_CURVES[batteryChemistry(batteryType)];
+  const type = { full: curve[curve.length - 1][0], empty: curve[0][0] };
+
   return {
     full: (type.full * cellCount).toFixed(1),
     empty: (type.empty * cellCount).toFixed(1),
@@ -111,6 +109,7 @@ export default function ScootersScreen() {
     { value: "lithium_ion", label: t("settings.scooters.batteryTypes.lithiumIon") },
     { value: "lifepo4", label: t("settings.scooters.batteryTypes.lifepo4") },
     { value: "lipo", label: t("settings.scooters.batteryTypes.lipo") },
+    { value: "lead_acid", label: t("settings.scooters.batteryTypes.leadAcid") },
   ];
 
   const trpcUtils = trpc.useUtils();
@@ -160,6 +159,7 @@ export default function ScootersScreen() {
       batteryCellCount: scooter.batteryCellCount ? String(scooter.batteryCellCount) : "",
       batteryFullVoltage: scooter.batteryFullVoltage ? String(scooter.batteryFullVoltage) : "",
       batteryEmptyVoltage: scooter.batteryEmptyVoltage ? String(scooter.batteryEmptyVoltage) : "",
+      riderWeight: scooter.riderWeight ? String(scooter.riderWeight) : "",
     });
     setShowBatterySection(hasBatteryInfo);
     setIsModalVisible(true);
@@ -218,6 +218,7 @@ export default function ScootersScreen() {
         batteryCellCount: formData.batteryCellCount ? parseInt(formData.batteryCellCount) : undefined,
         batteryFullVoltage: formData.batteryFullVoltage ? parseFloat(formData.batteryFullVoltage) : undefined,
         batteryEmptyVoltage: formData.batteryEmptyVoltage ? parseFloat(formData.batteryEmptyVoltage) : undefined,
+        riderWeight: formData.riderWeight ? parseInt(formData.riderWeight) : undefined,
       } : {};
 
       if (editingId) {
@@ -810,6 +811,23 @@ export default function ScootersScreen() {
                   </View>
                 </View>
 
+                {/* Rider Weight (consumption model) */}
+                <View className="mt-2 mb-2">
+                  <Text className="text-sm font-medium text-foreground mb-2">{t("settings.scooters.form.riderWeight")}</Text>
+                  <TextInput
+                    value={formData.riderWeight}
+                    onChangeText={(text) => setFormData({ ...formData, riderWeight: text.replace(/[^0-9]/g, "") })}
+                    placeholder="75"
+                    placeholderTextColor={colors.muted}
+                    keyboardType="numeric"
+                    className="bg-background border border-border rounded-xl px-4 py-3 text-foreground"
+                    style={{ fontSize: 16 }}
+                  />
+                  <Text className="text-xs text-muted mt-1">
+                    {t("settings.scooters.form.riderWeightHint")}
+                  </Text>
+                </View>
+
                 {/* Battery Capacity Info */}
                 {formData.batteryVoltage && formData.batteryCapacity && (
                   <View className="bg-background rounded-lg p-3 mt-2">
@@ -0,0 +1,304 @@
+import { useState, useMemo } from "react";
+import {
+  Text,
+  View,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+import { formatDuration } from "@/lib/riding-store";
+import { GpsPoint } from "@/lib/gps-utils";
+import { RideMap } from "@/components/ride-map";
+import { GoogleRideMap } from "@/components/google-ride-map";
+
+type LeaderboardScope = "allTime" | "friends" | "monthly";
+
+const SCOPE_LABELS: Record<LeaderboardScope, string> = {
+  allTime: "전체",
+  friends: "친구",
+  monthly: "이번 달",
+};
+
+interface SegmentLeaderboardEntry {
+  rank: number;
+  userId: number;
+  userName: string | null;
+  elapsedTime: number;
+  avgSpeed: number;
+  startTime: Date;
+  effortCount: number;
+}
+
+export default function SegmentDetailScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const segmentId = parseInt(id || "0");
+  const utils = trpc.useUtils();
+  const [scope, setScope] = useState<LeaderboardScope>("allTime");
+  const [refreshing, setRefreshing] = useState(false);
+
+  const segmentQuery = trpc.segments.get.useQuery({ segmentId }, { enabled: segmentId > 0 });
+  const leaderboardQuery = trpc.segments.leaderboard.useQuery(
+    { segmentId, scope },
+    { enabled: segmentId > 0 }
+  );
+
+  const deleteMutation = trpc.segments.delete.useMutation();
+
+  const segment = segmentQuery.data;
+  const leaderboard = leaderboardQuery.data;
+
+  // Maps draw GPS tracks, so present the segment line as one
+  const segmentPoints = useMemo<GpsPoint[]>(
+    () =>
+      (segment?.points ?? []).map((p, i) => ({
+        latitude: p.latitude,
+        longitude: p.longitude,
+        altitude: null,
+        timestamp: i,
+        speed: null,
+        accuracy: null,
+      })),
+    [segment?.points]
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([segmentQuery.refetch(), leaderboardQuery.refetch()]);
+    setRefreshing(false);
+  };
+
+  const handleScopeChange = (newScope: LeaderboardScope) => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    setScope(newScope);
+  };
+
+  const handleDelete = () => {
+    Alert.alert("구간 삭제", "이 구간과 모든 기록을 삭제하시겠습니까?", [
+      { text: "취소", style: "cancel" },
+      {
+        text: "삭제",
+        style: "destructive",
+        onPress: async () => {
+          const result = await deleteMutation.mutateAsync({ segmentId });
+          if (!result.success) {
+            Alert.alert("삭제 실패", result.error || "구간을 삭제하지 못했습니다.");
+            return;
+          }
+          utils.segments.forRide.invalidate();
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  if (segmentQuery.isLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
+
+  if (!segment) {
+    return (
+      <ScreenContainer className="items-center justify-center p-6">
+        <MaterialIcons name="error-outline" size={48} color={colors.muted} />
+        <Text className="text-muted mt-4">구간을 찾을 수 없습니다</Text>
+        <Pressable onPress={() => router.back()} className="mt-4">
+          <Text className="text-primary">돌아가기</Text>
+        </Pressable>
+      </ScreenContainer>
+    );
+  }
+
+  const getMedalColor = (rank: number) => {
+    switch (rank) {
+      case 1:
+        return "#FFD700";
+      case 2:
+        return "#C0C0C0";
+      case 3:
+        return "#CD7F32";
+      default:
+        return colors.muted;
+    }
+  };
+
+  const renderLeaderboardItem = ({ item }: { item: SegmentLeaderboardEntry }) => {
+    const isMe = leaderboard?.myEntry?.userId === item.userId;
+
+    return (
+      <Pressable
+        onPress={() => router.push(`/user-profile?userId=${item.userId}` as never)}
+        style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+        className="flex-row items-center py-3 px-5 border-b border-border"
+      >
+        {/* Rank */}
+        <View className="w-10 items-center">
+          {item.rank <= 3 ? (
+            <MaterialIcons name="emoji-events" size={24} color={getMedalColor(item.rank)} />
+          ) : (
+            <Text className="text-muted font-bold">{item.rank}</Text>
+          )}
+        </View>
+
+        {/* Name */}
+        <View className="flex-1 ml-3">
+          <Text className="text-foreground font-medium" numberOfLines={1}>
+            {item.userName || "익명 라이더"}
+            {isMe && " (나)"}
+          </Text>
+          <Text className="text-muted text-xs mt-0.5">
+            {new Date(item.startTime).toLocaleDateString("ko-KR")} · {item.effortCount}회
+          </Text>
+        </View>
+
+        {/* Time */}
+        <View className="items-end">
+          <Text className="text-foreground font-bold">{formatDuration(item.elapsedTime)}</Text>
+          <Text className="text-muted text-xs">{item.avgSpeed.toFixed(1)}km/h</Text>
+        </View>
+      </Pressable>
+    );
+  };
+
+  return (
+    <ScreenContainer>
+      {/* Header */}
+      <View className="flex-row items-center px-5 py-4 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+        >
+          <MaterialIcons name="arrow-back" size={24} color={colors.foreground} />
+        </Pressable>
+        <Text className="text-lg font-bold text-foreground ml-4 flex-1" numberOfLines={1}>
+          {segment.name}
+        </Text>
+        {segment.isMine && (
+          <Pressable
+            onPress={handleDelete}
+            style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+          >
+            <MaterialIcons name="delete-outline" size={24} color={colors.error} />
+          </Pressable>
+        )}
+      </View>
+
+      <FlatList
+        data={leaderboard?.entries ?? []}
+        renderItem={renderLeaderboardItem}
+        keyExtractor={(item) => item.userId.toString()}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.primary}
+          />
+        }
+        ListHeaderComponent={
+          <View className="px-5 py-4">
+            {/* Map */}
+            <View className="h-48 rounded-2xl overflow-hidden mb-4">
+              {Platform.OS !== "web" ? (
+                <GoogleRideMap gpsPoints={segmentPoints} isLive={false} showCurrentLocation={false} />
+              ) : (
+                <RideMap gpsPoints={segmentPoints} isLive={false} showCurrentLocation={false} />
+              )}
+            </View>
+
+            {/* Segment Info */}
+            <View className="bg-surface rounded-2xl p-4 border border-border mb-4">
+              <View className="flex-row">
+                <View className="flex-1">
+                  <Text className="text-sm text-muted">거리</Text>
+                  <Text className="text-lg font-bold text-foreground mt-1">
+                    {(segment.distance / 1000).toFixed(2)}km
+                  </Text>
+                </View>
+                <View className="flex-1">
+                  <Text className="text-sm text-muted">상승 고도</Text>
+                  <Text className="text-lg font-bold text-foreground mt-1">
+                    {segment.elevationGain !== null ? `${segment.elevationGain}m` : "-"}
+                  </Text>
+                </View>
+                <View className="flex-1">
+                  <Text className="text-sm text-muted">라이더</Text>
+                  <Text className="text-lg font-bold text-foreground mt-1">
+                    {segment.riderCount}명
+                  </Text>
+                </View>
+              </View>
+              <View className="h-px bg-border my-3" />
+              <View className="flex-row items-center">
+                <MaterialIcons name="timer" size={18} color={colors.warning} />
+                <Text className="text-foreground ml-2">
+                  내 최고 기록:{" "}
+                  <Text className="font-bold">
+                    {segment.myBestTime !== null ? formatDuration(segment.myBestTime) : "기록 없음"}
+                  </Text>
+                </Text>
+              </View>
+            </View>
+
+            {/* Scope Selector */}
+            <View className="flex-row bg-surface rounded-xl p-1 mb-4">
+              {(Object.keys(SCOPE_LABELS) as LeaderboardScope[]).map((s) => (
+                <Pressable
+                  key={s}
+                  onPress={() => handleScopeChange(s)}
+                  style={{ backgroundColor: scope === s ? colors.primary : "transparent" }}
+                  className="flex-1 py-2 rounded-lg items-center"
+                >
+                  <Text style={{ color: scope === s ? "#FFFFFF" : colors.muted }} className="font-medium">
+                    {SCOPE_LABELS[s]}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            {/* My Rank */}
+            {leaderboard?.myEntry && (
+              <View
+                className="flex-row items-center rounded-xl p-3 mb-2 border"
+                style={{ borderColor: colors.primary }}
+              >
+                <Text className="text-primary font-bold">내 순위 #{leaderboard.myEntry.rank}</Text>
+                <Text className="text-muted ml-2">/ {leaderboard.total}명</Text>
+                <View className="flex-1" />
+                <Text className="text-foreground font-bold">
+                  {formatDuration(leaderboard.myEntry.elapsedTime)}
+                </Text>
+              </View>
+            )}
+          </View>
+        }
+        ListEmptyComponent={
+          leaderboardQuery.isLoading ? (
+            <ActivityIndicator color={colors.primary} />
+          ) : (
+            <View className="items-center py-8">
+              <MaterialIcons name="leaderboard" size={40} color={colors.muted} />
+              <Text className="text-muted mt-2">아직 기록이 없습니다</Text>
+            </View>
+          )
+        }
+        contentContainerStyle={{ paddingBottom: 32 }}
+      />
+    </ScreenContainer>
+  );
+}
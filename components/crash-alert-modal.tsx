@@ -0,0 +1,146 @@
+import { useState, useEffect, useRef } from "react";
+import { Text, View, Modal, Pressable, Platform, ActivityIndicator } from "react-native";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useColors } from "@/hooks/use-colors";
+
+interface CrashAlertModalProps {
+  visible: boolean;
+  /** Seconds before the alert is sent automatically */
+  countdownSeconds: number;
+  /** Called once, when the countdown runs out or the rider asks for help */
+  onSend: () => void;
+  /** Rider is OK (also closes the modal after the alert was sent) */
+  onDismiss: () => void;
+  /** Alert state reported by the parent */
+  sendState: "idle" | "sending" | "sent" | "failed";
+  /** Emergency contacts notified (when sent) */
+  notifiedCount?: number;
+}
+
+export function CrashAlertModal({
+  visible,
+  countdownSeconds,
+  onSend,
+  onDismiss,
+  sendState,
+  notifiedCount = 0,
+}: CrashAlertModalProps) {
+  const colors = useColors();
+  const [remaining, setRemaining] = useState(countdownSeconds);
+  const sentRef = useRef(false);
+
+  useEffect(() => {
+    if (visible) {
+      setRemaining(countdownSeconds);
+      sentRef.current = false;
+    }
+  }, [visible, countdownSeconds]);
+
+  // Countdown with a vibration every second to wake the rider
+  useEffect(() => {
+    if (!visible || sendState !== "idle") return;
+
+    const timer = setInterval(() => {
+      setRemaining((prev) => Math.max(prev - 1, 0));
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [visible, sendState]);
+
+  useEffect(() => {
+    if (visible && remaining === 0 && !sentRef.current) {
+      sentRef.current = true;
+      onSend();
+    }
+  }, [visible, remaining, onSend]);
+
+  const handleSendNow = () => {
+    if (sentRef.current) return;
+    sentRef.current = true;
+    onSend();
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" presentationStyle="fullScreen" onRequestClose={onDismiss}>
+      <SafeAreaView style={{ flex: 1, backgroundColor: sendState === "idle" ? colors.error : colors.background }}>
+        <View className="flex-1 items-center justify-center px-8">
+          {sendState === "idle" && (
+            <>
+              <MaterialIcons name="warning" size={72} color="#FFFFFF" />
+              <Text className="text-white text-2xl font-bold mt-4">사고가 감지되었습니다</Text>
+              <Text className="text-white text-center mt-2">
+                응답이 없으면 비상 연락처와 그룹에 현재 위치를 전송합니다.
+              </Text>
+              <Text className="text-white font-bold mt-8" style={{ fontSize: 72 }}>
+                {remaining}
+              </Text>
+            </>
+          )}
+
+          {sendState === "sending" && (
+            <>
+              <ActivityIndicator size="large" color={colors.error} />
+              <Text className="text-foreground text-lg font-bold mt-4">긴급 알림 전송 중...</Text>
+            </>
+          )}
+
+          {sendState === "sent" && (
+            <>
+              <MaterialIcons name="check-circle" size={72} color={colors.success} />
+              <Text className="text-foreground text-2xl font-bold mt-4">긴급 알림을 보냈습니다</Text>
+              <Text className="text-muted text-center mt-2">
+                {notifiedCount > 0
+                  ? `비상 연락처 ${notifiedCount}명에게 위치를 전송했습니다.`
+                  : "등록된 비상 연락처가 없습니다. 그룹 라이딩 중이라면 그룹에 알림이 전송되었습니다."}
+              </Text>
+            </>
+          )}
+
+          {sendState === "failed" && (
+            <>
+              <MaterialIcons name="error" size={72} color={colors.error} />
+              <Text className="text-foreground text-2xl font-bold mt-4">알림 전송 실패</Text>
+              <Text className="text-muted text-center mt-2">
+                네트워크 상태를 확인하고 필요하면 직접 도움을 요청하세요.
+              </Text>
+            </>
+          )}
+        </View>
+
+        <View className="px-6 pb-8 gap-3">
+          {sendState === "idle" && (
+            <Pressable
+              onPress={handleSendNow}
+              style={({ pressed }) => [{ opacity: pressed ? 0.8 : 1 }]}
+              className="py-4 rounded-xl items-center border-2 border-white"
+            >
+              <Text className="text-white font-bold text-lg">지금 도움 요청</Text>
+            </Pressable>
+          )}
+          <Pressable
+            onPress={onDismiss}
+            disabled={sendState === "sending"}
+            style={({ pressed }) => [
+              {
+                backgroundColor: sendState === "idle" ? "#FFFFFF" : colors.primary,
+                opacity: pressed || sendState === "sending" ? 0.8 : 1,
+              },
+            ]}
+            className="py-5 rounded-xl items-center"
+          >
+            <Text
+              style={{ color: sendState === "idle" ? colors.error : "#FFFFFF" }}
+              className="font-bold text-xl"
+            >
+              {sendState === "idle" ? "괜찮아요 (취소)" : "닫기"}
+            </Text>
+          </Pressable>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
@@ -28,6 +28,11 @@ interface GpxRoutePoint {
   time?: string;
 }
 
+export interface RouteSegment {
+  points: { latitude: number; longitude: number }[];
+  color: string;
+}
+
 interface GroupMemberLocation {
   userId: number;
   name: string | null;
@@ -37,8 +42,13 @@ interface GroupMemberLocation {
   distance: number;
   currentSpeed: number;
   isRiding: boolean;
+  /** 그룹 공유 경로에서 떨어진 거리 (m) */
+  routeDistance?: number | null;
 }
 
+/** 그룹 공유 경로 이탈로 표시하는 거리 (m) */
+const OFF_ROUTE_LABEL_M = 150;
+
 interface GoogleRideMapProps {
   gpsPoints: GpsPoint[];
   currentLocation?: { latitude: number; longitude: number; heading?: number } | null;
@@ -59,6 +69,12 @@ interface GoogleRideMapProps {
   showRecenterButton?: boolean;
   /** 현재 위치 버튼 클릭 콜백 */
   onRecenterPress?: () => void;
+  /** 경로 위에 색상별로 덧그리는 구간 (예: 배터리 여유 구간) */
+  routeSegments?: RouteSegment[];
+  /** 그룹 집결지 */
+  meetingPoint?: { name: string; latitude: number; longitude: number } | null;
+  /** 그룹 재집결 지점 (간격이 벌어졌을 때) */
+  rallyPoint?: { latitude: number; longitude: number } | null;
 }
 
 // Arrow marker component for current location
@@ -81,7 +97,7 @@ function ArrowMarker({ heading, color }: { heading: number; color: string }) {
 }
 
 // Group member marker component
-function GroupMemberMarker({ name, speed }: { name: string | null; speed: number }) {
+function GroupMemberMarker({ name, speed, routeDistance }: { name: string | null; speed: number; routeDistance?: number | null }) {
   const initial = (name || "?").charAt(0).toUpperCase();
   const displayName = name ? (name.length > 6 ? name.substring(0, 6) + ".." : name) : "익명";
   const speedKmh = Math.round(speed / 10);
@@ -97,6 +113,11 @@ function GroupMemberMarker({ name, speed }: { name: string | null; speed: number
         <Text style={styles.memberSpeedText}>
           {speedKmh}km/h
         </Text>
+        {routeDistance != null && routeDistance > OFF_ROUTE_LABEL_M && (
+          <Text style={styles.memberOffRouteText}>
+            경로 이탈 {routeDistance >= 1000 ? `${(routeDistance / 1000).toFixed(1)}km` : `${routeDistance}m`}
+          </Text>
+        )}
       </View>
     </View>
   );
@@ -120,6 +141,9 @@ export const GoogleRideMap = React.forwardRef<GoogleRideMapRef, GoogleRideMapPro
   currentSpeed = 0,
   showRecenterButton = true,
   onRecenterPress,
+  routeSegments = [],
+  meetingPoint,
+  rallyPoint,
 }, ref) => {
   const colors = useColors();
   const colorScheme = useColorScheme();
@@ -400,6 +424,24 @@ export const GoogleRideMap = React.forwardRef<GoogleRideMapRef, GoogleRideMapPro
           </>
         )}
 
+        {/* Group Meeting Point */}
+        {meetingPoint && (
+          <Marker
+            coordinate={{ latitude: meetingPoint.latitude, longitude: meetingPoint.longitude }}
+            title={meetingPoint.name}
+            pinColor="#9C27B0"
+          />
+        )}
+
+        {/* Group Rally Point */}
+        {rallyPoint && (
+          <Marker
+            coordinate={rallyPoint}
+            title="재집결 지점"
+            pinColor="#FF9800"
+          />
+        )}
+
         {/* Actual Ride Path */}
         {pathCoordinates.length > 1 && (
           <Polyline
@@ -409,6 +451,18 @@ export const GoogleRideMap = React.forwardRef<GoogleRideMapRef, GoogleRideMapPro
           />
         )}
 
+        {/* Colored Route Segments */}
+        {routeSegments
+          .filter(segment => segment.points.length > 1)
+          .map((segment, index) => (
+            <Polyline
+              key={`segment-${index}`}
+              coordinates={segment.points}
+              strokeColor={segment.color}
+              strokeWidth={6}
+            />
+          ))}
+
         {/* Start Marker */}
         {startPoint && (
           <Marker
@@ -450,7 +504,7 @@ export const GoogleRideMap = React.forwardRef<GoogleRideMapRef, GoogleRideMapPro
               }}
               anchor={{ x: 0.5, y: 0.5 }}
             >
-              <GroupMemberMarker name={member.name} speed={member.currentSpeed} />
+              <GroupMemberMarker name={member.name} speed={member.currentSpeed} routeDistance={member.routeDistance} />
             </Marker>
           ))}
 
@@ -694,6 +748,12 @@ const styles = StyleSheet.create({
     fontSize: 9,
     textAlign: "center",
   },
+  memberOffRouteText: {
+    color: "#FF9800",
+    fontSize: 9,
+    fontWeight: "600",
+    textAlign: "center",
+  },
   recenterButton: {
     position: "absolute",
     bottom: 120,
@@ -1,6 +1,6 @@
 /**
  * WebSocket-based Group Chat Component
- * Real-time chat using WebSocket connection
+ * Real-time chat using WebSocket connection, with push-to-talk voice messages
  */
 import { useState, useEffect, useRef, useCallback } from "react";
 import {
@@ -20,6 +20,7 @@ import * as Haptics from "expo-haptics";
 import { useColors } from "@/hooks/use-colors";
 import { useAuth } from "@/hooks/use-auth";
 import { trpc } from "@/lib/trpc";
+import { PushToTalkButton } from "@/components/push-to-talk-button";
 
 interface GroupChatWSProps {
   groupId: number;
@@ -29,6 +30,11 @@ interface GroupChatWSProps {
   sendChatMessage: (message: string, messageType?: "text" | "location" | "alert") => void;
   onChatMessageReceived?: (callback: (message: ChatMessage) => void) => void;
   currentLocation?: { latitude: number; longitude: number } | null;
+  // Messages received over WebSocket while riding (voice messages update when transcribed)
+  liveMessages?: ChatMessage[];
+  voiceMuted?: boolean;
+  onVoiceMutedChange?: (muted: boolean) => void;
+  onPlayVoice?: (message: ChatMessage) => void;
 }
 
 interface ChatMessage {
@@ -38,11 +44,19 @@ interface ChatMessage {
   userName: string | null;
   userProfileImage: string | null;
   message: string;
-  messageType: "text" | "location" | "alert";
+  messageType: "text" | "location" | "alert" | "voice";
+  audioUrl?: string | null;
+  audioDuration?: number | null; // ms
+  transcript?: string | null;
   createdAt: Date;
   pending?: boolean;
 }
 
+const formatClipDuration = (ms: number) => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
 export function GroupChatWS({ 
   groupId, 
   isVisible, 
@@ -50,6 +64,10 @@ export function GroupChatWS({
   wsConnected,
   sendChatMessage,
   currentLocation,
+  liveMessages,
+  voiceMuted = false,
+  onVoiceMutedChange,
+  onPlayVoice,
 }: GroupChatWSProps) {
   const colors = useColors();
   const { user } = useAuth();
@@ -96,7 +114,7 @@ export function GroupChatWS({
     if (initialMessages && initialMessages.length > 0) {
       setMessages(initialMessages.map(m => ({
         ...m,
-        messageType: m.messageType as "text" | "location" | "alert",
+        messageType: m.messageType as ChatMessage["messageType"],
       })));
     }
   }, [initialMessages]);
@@ -179,9 +197,9 @@ export function GroupChatWS({
   // 외부에서 WebSocket 메시지 추가 (riding.tsx에서 호출)
   const addMessage = useCallback((newMessage: ChatMessage) => {
     setMessages(prev => {
-      // 중복 체크
+      // 이미 있는 메시지는 갱신 (음성 메시지 받아쓰기)
       if (prev.some(m => m.id === newMessage.id)) {
-        return prev;
+        return prev.map(m => (m.id === newMessage.id ? { ...m, ...newMessage } : m));
       }
       // pending 메시지 제거 (같은 사용자의 같은 내용)
       const filtered = prev.filter(m => 
@@ -196,6 +214,11 @@ export function GroupChatWS({
     }, 100);
   }, []);
 
+  // 라이딩 중 WebSocket으로 받은 메시지 반영
+  useEffect(() => {
+    liveMessages?.forEach(addMessage);
+  }, [liveMessages, addMessage]);
+
   // Export addMessage for parent component
   useEffect(() => {
     // @ts-ignore - 부모 컴포넌트에서 접근할 수 있도록 ref에 함수 노출
@@ -220,6 +243,59 @@ export function GroupChatWS({
       );
     }
 
+    if (item.messageType === "voice") {
+      return (
+        <View className={`flex-row mb-3 ${isMyMessage ? "justify-end" : "justify-start"}`}>
+          {!isMyMessage && (
+            <View className="mr-2">
+              {item.userProfileImage ? (
+                <Image
+                  source={{ uri: item.userProfileImage }}
+                  style={{ width: 32, height: 32, borderRadius: 16 }}
+                />
+              ) : (
+                <View
+                  style={{ width: 32, height: 32, borderRadius: 16, backgroundColor: colors.primary }}
+                  className="items-center justify-center"
+                >
+                  <Text className="text-white text-sm font-bold">
+                    {(item.userName || "?").charAt(0)}
+                  </Text>
+                </View>
+              )}
+            </View>
+          )}
+          <View className={`max-w-[70%] ${isMyMessage ? "items-end" : "items-start"}`}>
+            {!isMyMessage && (
+              <Text className="text-xs text-muted mb-1">{item.userName || "익명"}</Text>
+            )}
+            <Pressable
+              onPress={() => item.audioUrl && onPlayVoice?.(item)}
+              style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+              className={`px-3 py-2 rounded-2xl ${isMyMessage ? "bg-orange-500" : "bg-orange-100"}`}
+            >
+              <View className="flex-row items-center">
+                <MaterialIcons name="play-circle-filled" size={20} color={isMyMessage ? "#FFFFFF" : "#F97316"} />
+                <Text className={`ml-1 font-medium ${isMyMessage ? "text-white" : "text-orange-600"}`}>
+                  {formatClipDuration(item.audioDuration ?? 0)}
+                </Text>
+              </View>
+              {/* 받아쓰기 (음소거 중에는 이것으로 확인) */}
+              <Text className={`mt-1 text-sm ${isMyMessage ? "text-white" : "text-foreground"}`}>
+                {item.transcript || "받아쓰는 중..."}
+              </Text>
+            </Pressable>
+            <Text className="text-xs text-muted mt-1">
+              {new Date(item.createdAt).toLocaleTimeString("ko-KR", {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </Text>
+          </View>
+        </View>
+      );
+    }
+
     if (isLocation) {
       return (
         <View className={`flex-row mb-3 ${isMyMessage ? "justify-end" : "justify-start"}`}>
@@ -310,7 +386,7 @@ export function GroupChatWS({
         </View>
       </View>
     );
-  }, [colors.primary, user?.id]);
+  }, [colors.primary, user?.id, onPlayVoice]);
 
   if (!isVisible) return null;
 
@@ -333,7 +409,16 @@ export function GroupChatWS({
             <View className="ml-2 w-2 h-2 rounded-full bg-green-500" />
           )}
         </View>
-        <View style={{ width: 24 }} />
+        <Pressable
+          onPress={() => onVoiceMutedChange?.(!voiceMuted)}
+          style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+        >
+          <MaterialIcons
+            name={voiceMuted ? "volume-off" : "volume-up"}
+            size={24}
+            color={voiceMuted ? colors.muted : colors.foreground}
+          />
+        </Pressable>
       </View>
 
       {/* Messages */}
@@ -375,6 +460,8 @@ export function GroupChatWS({
         >
           <MaterialIcons name="location-on" size={20} color="#FFFFFF" />
         </Pressable>
+        {/* 음성 메시지 (탭하여 녹음, 다시 탭하여 전송) */}
+        <PushToTalkButton groupId={groupId} style={{ marginRight: 8 }} />
         <TextInput
           value={message}
           onChangeText={setMessage}
@@ -29,7 +29,8 @@ interface ChatMessage {
   userName: string | null;
   userProfileImage: string | null;
   message: string;
-  messageType: "text" | "location" | "alert";
+  messageType: "text" | "location" | "alert" | "voice";
+  transcript?: string | null;
   createdAt: Date;
 }
 
@@ -161,7 +162,8 @@ export function GroupChat({ groupId, isVisible, onClose }: GroupChatProps) {
             }`}
           >
             <Text className={isMyMessage ? "text-white" : "text-foreground"}>
-              {item.message}
+              {/* 이 화면은 음성을 재생하지 않으므로 받아쓰기를 표시 */}
+              {item.messageType === "voice" && item.transcript ? `🎙️ ${item.transcript}` : item.message}
             </Text>
           </View>
           <Text className="text-xs text-muted mt-1">
@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useRef } from "react";
+import { View, Platform } from "react-native";
+import { WebView } from "react-native-webview";
+
+import { type ReplayPoint, type ReplayPosition } from "@/lib/group-replay";
+
+export interface GroupReplayTrack {
+  userId: number;
+  name: string | null;
+  color: string;
+  track: ReplayPoint[];
+}
+
+interface GroupReplayMapProps {
+  tracks: GroupReplayTrack[];
+  // 재생 시점의 멤버별 위치 (userId 기준)
+  positions: Record<number, ReplayPosition | null>;
+}
+
+export function GroupReplayMap({ tracks, positions }: GroupReplayMapProps) {
+  const webViewRef = useRef<WebView>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  // 지도 HTML은 경로가 바뀔 때만 생성하고, 재생 위치는 JavaScript 호출로 갱신
+  const mapHtml = useMemo(() => {
+    const routes = tracks.map((t) => ({
+      userId: t.userId,
+      name: t.name || "라이더",
+      color: t.color,
+      coords: t.track.map((p) => [p.latitude, p.longitude]),
+    }));
+
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no">
+  <link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css" />
+  <script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    html, body { width: 100%; height: 100%; overflow: hidden; }
+    #map { width: 100%; height: 100%; }
+    .leaflet-control-attribution { display: none !important; }
+    .member-label { background: transparent; border: none; box-shadow: none; font-size: 11px; font-weight: 600; }
+  </style>
+</head>
+<body>
+  <div id="map"></div>
+  <script>
+    const map = L.map('map', {
+      zoomControl: false,
+      attributionControl: false,
+    }).setView([37.5665, 126.978], 14);
+
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      maxZoom: 19,
+    }).addTo(map);
+
+    const routes = ${JSON.stringify(routes)};
+    const markers = {};
+    const allPoints = [];
+
+    routes.forEach(function (route) {
+      if (route.coords.length === 0) return;
+      allPoints.push.apply(allPoints, route.coords);
+
+      // 멤버 경로 (흐리게)
+      L.polyline(route.coords, {
+        color: route.color,
+        weight: 3,
+        opacity: 0.35,
+      }).addTo(map);
+
+      // 현재 위치 마커
+      markers[route.userId] = L.circleMarker(route.coords[0], {
+        radius: 8,
+        fillColor: route.color,
+        color: '#fff',
+        weight: 2,
+        fillOpacity: 1,
+      }).addTo(map).bindTooltip(route.name, {
+        permanent: true,
+        direction: 'top',
+        offset: [0, -8],
+        className: 'member-label',
+      });
+    });
+
+    if (allPoints.length > 0) {
+      map.fitBounds(L.latLngBounds(allPoints), { padding: [30, 30] });
+    }
+
+    // 재생 위치 갱신 (출발 전·도착 후 멤버는 반투명)
+    window.updateReplayPositions = function (positions) {
+      Object.keys(positions).forEach(function (userId) {
+        const marker = markers[userId];
+        const position = positions[userId];
+        if (!marker || !position) return;
+        marker.setLatLng([position.latitude, position.longitude]);
+        marker.setStyle({ fillOpacity: position.state === 'riding' ? 1 : 0.4 });
+      });
+    };
+  </script>
+</body>
+</html>
+    `;
+  }, [tracks]);
+
+  useEffect(() => {
+    if (Platform.OS === "web") {
+      const frameWindow = iframeRef.current?.contentWindow as
+        | (Window & { updateReplayPositions?: (p: typeof positions) => void })
+        | null
+        | undefined;
+      frameWindow?.updateReplayPositions?.(positions);
+      return;
+    }
+    webViewRef.current?.injectJavaScript(`
+      if (window.updateReplayPositions) {
+        window.updateReplayPositions(${JSON.stringify(positions)});
+      }
+      true;
+    `);
+  }, [positions]);
+
+  if (Platform.OS === "web") {
+    return (
+      <View className="flex-1">
+        <iframe
+          ref={iframeRef}
+          srcDoc={mapHtml}
+          style={{ width: "100%", height: "100%", border: "none" }}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1">
+      <WebView
+        ref={webViewRef}
+        source={{ html: mapHtml }}
+        style={{ flex: 1 }}
+        scrollEnabled={false}
+        javaScriptEnabled={true}
+        domStorageEnabled={true}
+        originWhitelist={["*"]}
+      />
+    </View>
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * Push-to-talk button for group riding
+ * One tap starts recording, the next tap (or the 30 second limit) sends the clip to the group
+ */
+import { useEffect, useRef, useState } from "react";
+import { Pressable, ActivityIndicator, Alert, Platform, type ViewStyle } from "react-native";
+import { MaterialIcons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import * as FileSystem from "expo-file-system/legacy";
+import { RecordingPresets, requestRecordingPermissionsAsync, useAudioRecorder } from "expo-audio";
+
+import { trpc } from "@/lib/trpc";
+import { MAX_VOICE_CLIP_MS, prepareVoiceClipAudio } from "@/lib/group-voice";
+
+// Taps shorter than this are treated as accidental
+const MIN_CLIP_MS = 500;
+
+interface PushToTalkButtonProps {
+  groupId: number;
+  size?: number;
+  style?: ViewStyle;
+}
+
+// Recordings are files on native and blob URLs on web
+async function readClipBase64(uri: string): Promise<string> {
+  if (Platform.OS !== "web") {
+    return FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  }
+  const blob = await (await fetch(uri)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function PushToTalkButton({ groupId, size = 40, style }: PushToTalkButtonProps) {
+  const recorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
+  const [isRecording, setIsRecording] = useState(false);
+  const startedAtRef = useRef(0);
+  const limitTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const sendVoiceMutation = trpc.groups.sendVoice.useMutation({
+    onError: (error) => {
+      Alert.alert("전송 실패", error.message || "음성 메시지를 보내지 못했습니다.");
+    },
+  });
+
+  useEffect(() => {
+    return () => {
+      if (limitTimeoutRef.current) clearTimeout(limitTimeoutRef.current);
+    };
+  }, []);
+
+  const startRecording = async () => {
+    const permission = await requestRecordingPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert("마이크 권한 필요", "음성 메시지를 보내려면 마이크 권한을 허용해주세요.");
+      return;
+    }
+
+    try {
+      await prepareVoiceClipAudio(true);
+      await recorder.prepareToRecordAsync();
+      recorder.record();
+      startedAtRef.current = Date.now();
+      setIsRecording(true);
+      limitTimeoutRef.current = setTimeout(() => stopAndSend(), MAX_VOICE_CLIP_MS);
+      if (Platform.OS !== "web") {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      }
+    } catch (error) {
+      console.error("[PushToTalk] Failed to start recording:", error);
+      Alert.alert("녹음 실패", "녹음을 시작하지 못했습니다.");
+    }
+  };
+
+  const stopAndSend = async () => {
+    if (limitTimeoutRef.current) {
+      clearTimeout(limitTimeoutRef.current);
+      limitTimeoutRef.current = null;
+    }
+    if (!recorder.isRecording) return;
+
+    const duration = Math.min(Date.now() - startedAtRef.current, MAX_VOICE_CLIP_MS);
+    setIsRecording(false);
+    try {
+      await recorder.stop();
+      await prepareVoiceClipAudio(false);
+      if (Platform.OS !== "web") {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+      if (duration < MIN_CLIP_MS || !recorder.uri) return;
+
+      const base64 = await readClipBase64(recorder.uri);
+      sendVoiceMutation.mutate({
+        groupId,
+        base64,
+        mimeType: Platform.OS === "web" ? "audio/webm" : "audio/mp4",
+        duration,
+      });
+    } catch (error) {
+      console.error("[PushToTalk] Failed to send recording:", error);
+      Alert.alert("전송 실패", "음성 메시지를 보내지 못했습니다.");
+    }
+  };
+
+  return (
+    <Pressable
+      onPress={isRecording ? stopAndSend : startRecording}
+      disabled={sendVoiceMutation.isPending}
+      style={({ pressed }) => [
+        {
+          width: size,
+          height: size,
+          borderRadius: size / 2,
+          alignItems: "center",
+          justifyContent: "center",
+          backgroundColor: isRecording ? "#EF4444" : "#F97316",
+          opacity: pressed || sendVoiceMutation.isPending ? 0.7 : 1,
+          transform: [{ scale: isRecording ? 1.1 : 1 }],
+        },
+        style,
+      ]}
+    >
+      {sendVoiceMutation.isPending ? (
+        <ActivityIndicator size="small" color="#FFFFFF" />
+      ) : (
+        <MaterialIcons name={isRecording ? "stop" : "mic"} size={size * 0.5} color="#FFFFFF" />
+      )}
+    </Pressable>
+  );
+}
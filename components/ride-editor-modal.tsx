@@ -0,0 +1,445 @@
+import { useState, useEffect, useMemo } from "react";
+import {
+  Text,
+  View,
+  Modal,
+  Pressable,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import Slider from "@react-native-community/slider";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+import { RideMap } from "@/components/ride-map";
+import { GoogleRideMap } from "@/components/google-ride-map";
+import {
+  RidingRecord,
+  RideEdit,
+  applyRideEdit,
+  formatDuration,
+  generateId,
+} from "@/lib/riding-store";
+import {
+  TrackRange,
+  findGpsOutliers,
+  mergeRides,
+  removeTrackRange,
+  splitRide,
+  trimRide,
+} from "@/lib/ride-editor";
+
+type EditMode = "trim" | "split" | "merge" | "outliers";
+
+const MODES: { key: EditMode; label: string; icon: keyof typeof MaterialIcons.glyphMap }[] = [
+  { key: "trim", label: "자르기", icon: "content-cut" },
+  { key: "split", label: "나누기", icon: "call-split" },
+  { key: "merge", label: "합치기", icon: "merge-type" },
+  { key: "outliers", label: "GPS 튐 삭제", icon: "gps-off" },
+];
+
+interface RideEditorModalProps {
+  visible: boolean;
+  /** Ride being edited, with GPS points loaded */
+  record: RidingRecord;
+  /** Consecutive rides (with GPS points) that can be merged into this one */
+  mergeCandidates: RidingRecord[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function formatTime(timestamp: number | undefined): string {
+  if (timestamp === undefined) return "-";
+  return new Date(timestamp).toLocaleTimeString("ko-KR", { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export function RideEditorModal({ visible, record, mergeCandidates, onClose, onSaved }: RideEditorModalProps) {
+  const colors = useColors();
+  const trpcUtils = trpc.useUtils();
+  const points = useMemo(() => record.gpsPoints ?? [], [record.gpsPoints]);
+  const lastIndex = Math.max(points.length - 1, 1);
+
+  const [mode, setMode] = useState<EditMode>("trim");
+  const [trimStart, setTrimStart] = useState(0);
+  const [trimEnd, setTrimEnd] = useState(lastIndex);
+  const [splitIndex, setSplitIndex] = useState(Math.floor(lastIndex / 2));
+  const [mergeId, setMergeId] = useState<string | null>(null);
+  const [removedRanges, setRemovedRanges] = useState<TrackRange[]>([]);
+  const [manualStart, setManualStart] = useState(0);
+  const [manualEnd, setManualEnd] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const detectedOutliers = useMemo(() => findGpsOutliers(points), [points]);
+
+  // Start from the untouched ride whenever the editor opens
+  useEffect(() => {
+    if (visible) {
+      setMode("trim");
+      setTrimStart(0);
+      setTrimEnd(lastIndex);
+      setSplitIndex(Math.floor(lastIndex / 2));
+      setMergeId(null);
+      setRemovedRanges(detectedOutliers);
+      setManualStart(0);
+      setManualEnd(0);
+    }
+  }, [visible, lastIndex, detectedOutliers]);
+
+  // Result of the current mode, or null when nothing would change
+  const preview = useMemo((): { edit: RideEdit; error?: undefined } | { edit?: undefined; error: string } | null => {
+    try {
+      switch (mode) {
+        case "trim":
+          if (trimStart === 0 && trimEnd === lastIndex) return null;
+          return { edit: { record: trimRide(record, trimStart, trimEnd) } };
+        case "split": {
+          const [first, second] = splitRide(record, splitIndex, "preview");
+          return { edit: { record: first, splitRecord: second } };
+        }
+        case "merge": {
+          const other = mergeCandidates.find((r) => r.id === mergeId);
+          if (!other) return null;
+          return { edit: { record: { ...mergeRides([record, other]), id: record.id }, mergedRecordIds: [other.id] } };
+        }
+        case "outliers": {
+          if (removedRanges.length === 0) return null;
+          // Remove from the end so earlier indices stay valid
+          const sorted = [...removedRanges].sort((a, b) => b.startIndex - a.startIndex);
+          let edited = record;
+          for (const range of sorted) {
+            edited = removeTrackRange(edited, range.startIndex, range.endIndex);
+          }
+          return { edit: { record: edited } };
+        }
+      }
+    } catch {
+      return { error: "편집 후 GPS 포인트가 너무 적습니다." };
+    }
+  }, [mode, record, trimStart, trimEnd, lastIndex, splitIndex, mergeId, mergeCandidates, removedRanges]);
+
+  const routeSegments = useMemo(() => {
+    switch (mode) {
+      case "trim":
+        return [{ points: points.slice(trimStart, trimEnd + 1), color: colors.primary }];
+      case "split":
+        return [
+          { points: points.slice(0, splitIndex + 1), color: colors.primary },
+          { points: points.slice(splitIndex), color: colors.warning },
+        ];
+      case "merge": {
+        const other = mergeCandidates.find((r) => r.id === mergeId);
+        return other?.gpsPoints ? [{ points: other.gpsPoints, color: colors.warning }] : [];
+      }
+      case "outliers":
+        return removedRanges.map((range) => ({
+          points: points.slice(Math.max(range.startIndex - 1, 0), range.endIndex + 2),
+          color: colors.error,
+        }));
+    }
+  }, [mode, points, trimStart, trimEnd, splitIndex, mergeId, mergeCandidates, removedRanges, colors]);
+
+  const mapPoints = useMemo(() => {
+    if (mode !== "merge") return points;
+    const other = mergeCandidates.find((r) => r.id === mergeId);
+    return other?.gpsPoints ? [...points, ...other.gpsPoints] : points;
+  }, [mode, points, mergeId, mergeCandidates]);
+
+  const toggleRange = (range: TrackRange) => {
+    setRemovedRanges((prev) =>
+      prev.some((r) => r.startIndex === range.startIndex && r.endIndex === range.endIndex)
+        ? prev.filter((r) => r.startIndex !== range.startIndex || r.endIndex !== range.endIndex)
+        : [...prev, range]
+    );
+  };
+
+  const addManualRange = () => {
+    const range = { startIndex: Math.min(manualStart, manualEnd), endIndex: Math.max(manualStart, manualEnd) };
+    const overlaps = removedRanges.some((r) => r.startIndex <= range.endIndex && range.startIndex <= r.endIndex);
+    if (overlaps) {
+      Alert.alert("구간 중복", "이미 선택한 구간과 겹칩니다.");
+      return;
+    }
+    setRemovedRanges((prev) => [...prev, range]);
+  };
+
+  const handleSave = async () => {
+    if (!preview?.edit) return;
+
+    let edit = preview.edit;
+    if (edit.splitRecord) {
+      edit = { ...edit, splitRecord: { ...edit.splitRecord, id: generateId() } };
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await applyRideEdit(edit, trpcUtils);
+      if (!result.success) {
+        Alert.alert("저장 실패", result.error || "주행 기록을 수정하지 못했습니다.");
+        return;
+      }
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      trpcUtils.segments.forRide.invalidate({ recordId: record.id });
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error("[RideEditor] Save failed:", error);
+      Alert.alert("저장 실패", "네트워크 상태를 확인하고 다시 시도해주세요.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderStats = (title: string, ride: RidingRecord) => (
+    <View className="bg-surface rounded-xl p-4 mb-3 border border-border">
+      <Text className="text-foreground font-medium mb-2">{title}</Text>
+      <View className="flex-row">
+        <View className="flex-1">
+          <Text className="text-xs text-muted">거리</Text>
+          <Text className="text-foreground font-bold">{(ride.distance / 1000).toFixed(2)}km</Text>
+        </View>
+        <View className="flex-1">
+          <Text className="text-xs text-muted">주행시간</Text>
+          <Text className="text-foreground font-bold">{formatDuration(ride.duration)}</Text>
+        </View>
+        <View className="flex-1">
+          <Text className="text-xs text-muted">평균</Text>
+          <Text className="text-foreground font-bold">{ride.avgSpeed.toFixed(1)}km/h</Text>
+        </View>
+        <View className="flex-1">
+          <Text className="text-xs text-muted">최고</Text>
+          <Text className="text-foreground font-bold">{ride.maxSpeed.toFixed(1)}km/h</Text>
+        </View>
+      </View>
+    </View>
+  );
+
+  const renderIndexSlider = (
+    label: string,
+    value: number,
+    onChange: (value: number) => void
+  ) => (
+    <>
+      <View className="flex-row items-center justify-between">
+        <Text className="text-foreground font-medium">{label}</Text>
+        <Text className="text-muted text-sm">{formatTime(points[value]?.timestamp)}</Text>
+      </View>
+      <Slider
+        style={{ width: "100%", height: 40 }}
+        minimumValue={0}
+        maximumValue={lastIndex}
+        step={1}
+        value={value}
+        onValueChange={(v: number) => onChange(Math.round(v))}
+        minimumTrackTintColor={colors.primary}
+        maximumTrackTintColor={colors.border}
+        thumbTintColor={colors.primary}
+      />
+    </>
+  );
+
+  const canSave = !!preview?.edit && !isSaving;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView
+        style={{ flex: 1, backgroundColor: colors.background }}
+        edges={["top", "left", "right"]}
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-5 py-4 border-b border-border">
+          <Pressable
+            onPress={onClose}
+            style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+          >
+            <Text style={{ color: colors.muted }} className="text-base">취소</Text>
+          </Pressable>
+          <Text className="text-lg font-bold text-foreground">주행 편집</Text>
+          <View style={{ width: 40 }} />
+        </View>
+
+        {/* Mode */}
+        <View className="flex-row px-5 pt-4 gap-2">
+          {MODES.map((item) => (
+            <Pressable
+              key={item.key}
+              onPress={() => setMode(item.key)}
+              style={({ pressed }) => [{
+                opacity: pressed ? 0.7 : 1,
+                backgroundColor: mode === item.key ? colors.primary : colors.surface,
+                borderColor: mode === item.key ? colors.primary : colors.border,
+              }]}
+              className="flex-1 items-center py-2 rounded-xl border"
+            >
+              <MaterialIcons name={item.icon} size={18} color={mode === item.key ? "#FFFFFF" : colors.foreground} />
+              <Text
+                style={{ color: mode === item.key ? "#FFFFFF" : colors.foreground }}
+                className="text-xs font-medium mt-1"
+              >
+                {item.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <ScrollView className="flex-1 px-5 py-4">
+          <View className="h-56 rounded-2xl overflow-hidden mb-4">
+            {Platform.OS !== "web" ? (
+              <GoogleRideMap
+                gpsPoints={mapPoints}
+                isLive={false}
+                showCurrentLocation={false}
+                routeSegments={routeSegments}
+              />
+            ) : (
+              <RideMap
+                gpsPoints={mapPoints}
+                isLive={false}
+                showCurrentLocation={false}
+                routeSegments={routeSegments}
+              />
+            )}
+          </View>
+
+          {mode === "trim" && (
+            <View className="bg-surface rounded-xl p-4 mb-4 border border-border">
+              {renderIndexSlider("시작", trimStart, (v) => setTrimStart(Math.min(v, trimEnd - 1)))}
+              {renderIndexSlider("끝", trimEnd, (v) => setTrimEnd(Math.max(v, trimStart + 1)))}
+              <Text className="text-muted text-xs mt-1">
+                주행 전후에 잘못 기록된 부분(차량 이동 등)을 잘라냅니다.
+              </Text>
+            </View>
+          )}
+
+          {mode === "split" && (
+            <View className="bg-surface rounded-xl p-4 mb-4 border border-border">
+              {renderIndexSlider("나눌 지점", splitIndex, (v) => setSplitIndex(Math.min(Math.max(v, 1), lastIndex - 1)))}
+              <Text className="text-muted text-xs mt-1">
+                뒷부분은 새 주행 기록으로 저장됩니다. 배터리 전압 기록은 앞부분에 남습니다.
+              </Text>
+            </View>
+          )}
+
+          {mode === "merge" && (
+            <View className="bg-surface rounded-xl border border-border overflow-hidden mb-4">
+              {mergeCandidates.length === 0 ? (
+                <Text className="text-muted text-center p-4">
+                  앞뒤 3시간 안에 합칠 수 있는 주행 기록이 없습니다.
+                </Text>
+              ) : (
+                mergeCandidates.map((candidate) => (
+                  <Pressable
+                    key={candidate.id}
+                    onPress={() => setMergeId(mergeId === candidate.id ? null : candidate.id)}
+                    style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                    className="flex-row items-center p-4 border-b border-border"
+                  >
+                    <MaterialIcons
+                      name={mergeId === candidate.id ? "radio-button-checked" : "radio-button-unchecked"}
+                      size={22}
+                      color={mergeId === candidate.id ? colors.primary : colors.muted}
+                    />
+                    <View className="flex-1 ml-3">
+                      <Text className="text-foreground font-medium">
+                        {formatTime(new Date(candidate.startTime).getTime())} ~ {formatTime(new Date(candidate.endTime).getTime())}
+                      </Text>
+                      <Text className="text-muted text-xs">
+                        {(candidate.distance / 1000).toFixed(2)}km · {formatDuration(candidate.duration)}
+                      </Text>
+                    </View>
+                  </Pressable>
+                ))
+              )}
+            </View>
+          )}
+
+          {mode === "outliers" && (
+            <View className="bg-surface rounded-xl p-4 mb-4 border border-border">
+              <Text className="text-foreground font-medium mb-2">삭제할 구간</Text>
+              {removedRanges.length === 0 && detectedOutliers.length === 0 && (
+                <Text className="text-muted text-sm mb-2">자동으로 감지된 GPS 튐이 없습니다.</Text>
+              )}
+              {[...detectedOutliers, ...removedRanges.filter((r) => !detectedOutliers.includes(r))].map((range) => {
+                const selected = removedRanges.some(
+                  (r) => r.startIndex === range.startIndex && r.endIndex === range.endIndex
+                );
+                return (
+                  <Pressable
+                    key={`${range.startIndex}-${range.endIndex}`}
+                    onPress={() => toggleRange(range)}
+                    style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+                    className="flex-row items-center py-2"
+                  >
+                    <MaterialIcons
+                      name={selected ? "check-box" : "check-box-outline-blank"}
+                      size={22}
+                      color={selected ? colors.error : colors.muted}
+                    />
+                    <Text className="text-foreground ml-2">
+                      {formatTime(points[range.startIndex]?.timestamp)} ~ {formatTime(points[range.endIndex]?.timestamp)}
+                      {"  "}({range.endIndex - range.startIndex + 1}개)
+                    </Text>
+                  </Pressable>
+                );
+              })}
+
+              <View className="h-px bg-border my-3" />
+              <Text className="text-foreground font-medium mb-1">직접 선택</Text>
+              {renderIndexSlider("시작", manualStart, setManualStart)}
+              {renderIndexSlider("끝", manualEnd, setManualEnd)}
+              <Pressable
+                onPress={addManualRange}
+                style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1, borderColor: colors.error }]}
+                className="py-2 rounded-lg border items-center mt-1"
+              >
+                <Text style={{ color: colors.error }} className="font-medium">구간 추가</Text>
+              </Pressable>
+            </View>
+          )}
+
+          {/* Result */}
+          {preview?.error && (
+            <Text style={{ color: colors.error }} className="text-sm mb-3">{preview.error}</Text>
+          )}
+          {renderStats("현재", record)}
+          {preview?.edit && renderStats(preview.edit.splitRecord ? "앞부분" : "편집 후", preview.edit.record)}
+          {preview?.edit?.splitRecord && renderStats("뒷부분 (새 기록)", preview.edit.splitRecord)}
+          <Text className="text-muted text-xs mb-8">
+            저장하면 거리·속도·시간과 기체 누적 거리, 챌린지 진행도가 다시 계산됩니다.
+          </Text>
+        </ScrollView>
+
+        {/* Save */}
+        <View className="px-5 pb-8 pt-4 border-t border-border">
+          <Pressable
+            onPress={handleSave}
+            disabled={!canSave}
+            style={({ pressed }) => [
+              {
+                backgroundColor: canSave ? colors.primary : colors.muted,
+                opacity: pressed ? 0.8 : 1,
+              },
+            ]}
+            className="py-4 rounded-xl items-center"
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text className="text-white font-bold">저장</Text>
+            )}
+          </Pressable>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
@@ -11,6 +11,11 @@ interface GpxRoutePoint {
   time?: string;
 }
 
+interface RouteSegment {
+  points: { latitude: number; longitude: number }[];
+  color: string;
+}
+
 interface GroupMemberLocation {
   userId: number;
   name: string | null;
@@ -29,6 +34,12 @@ interface RideMapProps {
   style?: any;
   gpxRoute?: { points: GpxRoutePoint[]; name?: string } | null;
   groupMembers?: GroupMemberLocation[];
+  /** 경로 위에 색상별로 덧그리는 구간 (예: 배터리 여유 구간) */
+  routeSegments?: RouteSegment[];
+  /** 그룹 집결지 */
+  meetingPoint?: { name: string; latitude: number; longitude: number } | null;
+  /** 그룹 재집결 지점 (간격이 벌어졌을 때) */
+  rallyPoint?: { latitude: number; longitude: number } | null;
 }
 
 export function RideMap({
@@ -39,6 +50,9 @@ export function RideMap({
   style,
   gpxRoute,
   groupMembers = [],
+  routeSegments,
+  meetingPoint,
+  rallyPoint,
 }: RideMapProps) {
   const colors = useColors();
   const webViewRef = useRef<WebView>(null);
@@ -265,6 +279,30 @@ export function RideMap({
     }
     ` : ''}
 
+    // Group meeting point
+    ${meetingPoint ? `
+    const meetingIcon = L.divIcon({
+      className: 'meeting-point-marker',
+      html: '<div style="width:22px;height:22px;background:#9C27B0;border:3px solid white;border-radius:4px;box-shadow:0 2px 6px rgba(0,0,0,0.3);"></div>',
+      iconSize: [22, 22],
+      iconAnchor: [11, 11]
+    });
+    L.marker([${meetingPoint.latitude}, ${meetingPoint.longitude}], { icon: meetingIcon }).addTo(map)
+      .bindPopup(${JSON.stringify(meetingPoint.name)});
+    ` : ''}
+
+    // Group rally point
+    ${rallyPoint ? `
+    const rallyIcon = L.divIcon({
+      className: 'rally-point-marker',
+      html: '<div style="width:22px;height:22px;background:#FF9800;border:3px solid white;border-radius:50%;box-shadow:0 2px 6px rgba(0,0,0,0.3);"></div>',
+      iconSize: [22, 22],
+      iconAnchor: [11, 11]
+    });
+    L.marker([${rallyPoint.latitude}, ${rallyPoint.longitude}], { icon: rallyIcon }).addTo(map)
+      .bindPopup('재집결 지점');
+    ` : ''}
+
     // Draw path
     const pathCoords = [${pathCoords}];
     if (pathCoords.length > 1) {
@@ -281,6 +319,17 @@ export function RideMap({
       }
     }
 
+    // Colored route segments
+    ${(routeSegments ?? []).filter(segment => segment.points.length > 1).map(segment => `
+    L.polyline([${segment.points.map(p => `[${p.latitude}, ${p.longitude}]`).join(",")}], {
+      color: '${segment.color}',
+      weight: 6,
+      opacity: 0.9,
+      lineCap: 'round',
+      lineJoin: 'round'
+    }).addTo(map);
+    `).join('')}
+
     // Start marker
     ${startPoint ? `
     const startIcon = L.divIcon({
@@ -478,7 +527,8 @@ export function RideMap({
     `;
   // 지도 HTML은 초기 로드 시에만 생성하고, 이후에는 JavaScript 주입으로만 업데이트
   // gpsPoints.length를 의존성에서 제거하여 불필요한 재렌더링 방지
-  }, [isLive, colors.primary]);
+  // routeSegments는 미리보기 화면에서 비동기로 계산되므로 변경 시 다시 생성
+  }, [isLive, colors.primary, routeSegments, gpxRoute, meetingPoint, rallyPoint]);
 
   // Update map when location changes in live mode - throttled for performance
   useEffect(() => {
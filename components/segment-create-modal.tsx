@@ -0,0 +1,251 @@
+import { useState, useEffect, useMemo } from "react";
+import {
+  Text,
+  View,
+  Modal,
+  Pressable,
+  TextInput,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import Slider from "@react-native-community/slider";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+import { GpsPoint, calculateDistance } from "@/lib/gps-utils";
+import { RideMap } from "@/components/ride-map";
+import { GoogleRideMap } from "@/components/google-ride-map";
+
+/** Keep in sync with MIN/MAX_SEGMENT_DISTANCE on the server */
+const MIN_SEGMENT_DISTANCE = 200;
+const MAX_SEGMENT_DISTANCE = 50000;
+
+interface SegmentCreateModalProps {
+  visible: boolean;
+  gpsPoints: GpsPoint[];
+  /** Ride the segment is cut from; its effort is recorded right away */
+  recordId: string;
+  onClose: () => void;
+  onCreated?: (segmentId: number) => void;
+}
+
+export function SegmentCreateModal({ visible, gpsPoints, recordId, onClose, onCreated }: SegmentCreateModalProps) {
+  const colors = useColors();
+  const utils = trpc.useUtils();
+  const [name, setName] = useState("");
+  const [startIndex, setStartIndex] = useState(0);
+  const [endIndex, setEndIndex] = useState(Math.max(gpsPoints.length - 1, 0));
+
+  const createSegment = trpc.segments.create.useMutation();
+
+  // Reset the selection to the whole ride whenever the modal opens
+  useEffect(() => {
+    if (visible) {
+      setName("");
+      setStartIndex(0);
+      setEndIndex(Math.max(gpsPoints.length - 1, 0));
+    }
+  }, [visible, gpsPoints.length]);
+
+  const selectedPoints = useMemo(
+    () => gpsPoints.slice(startIndex, endIndex + 1),
+    [gpsPoints, startIndex, endIndex]
+  );
+
+  const selectedDistance = useMemo(() => {
+    let total = 0;
+    for (let i = 1; i < selectedPoints.length; i++) {
+      total += calculateDistance(
+        selectedPoints[i - 1].latitude,
+        selectedPoints[i - 1].longitude,
+        selectedPoints[i].latitude,
+        selectedPoints[i].longitude
+      );
+    }
+    return total;
+  }, [selectedPoints]);
+
+  const routeSegments = useMemo(
+    () => (selectedPoints.length > 1 ? [{ points: selectedPoints, color: colors.warning }] : []),
+    [selectedPoints, colors.warning]
+  );
+
+  const distanceError =
+    selectedDistance < MIN_SEGMENT_DISTANCE
+      ? `구간은 ${MIN_SEGMENT_DISTANCE}m 이상이어야 합니다.`
+      : selectedDistance > MAX_SEGMENT_DISTANCE
+        ? `구간은 ${MAX_SEGMENT_DISTANCE / 1000}km 이하여야 합니다.`
+        : null;
+  const canSubmit = name.trim().length > 0 && !distanceError && !createSegment.isPending;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    try {
+      const result = await createSegment.mutateAsync({
+        name: name.trim(),
+        points: selectedPoints.map((p) => ({
+          latitude: p.latitude,
+          longitude: p.longitude,
+          altitude: p.altitude ?? null,
+        })),
+        recordId,
+      });
+
+      if (!result.success || !result.segmentId) {
+        Alert.alert("구간 생성 실패", result.error || "구간을 저장하지 못했습니다.");
+        return;
+      }
+
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      utils.segments.forRide.invalidate({ recordId });
+      onCreated?.(result.segmentId);
+      onClose();
+    } catch (error) {
+      console.error("[SegmentCreate] Error:", error);
+      Alert.alert("구간 생성 실패", "구간을 저장하는 중 오류가 발생했습니다.");
+    }
+  };
+
+  const lastIndex = Math.max(gpsPoints.length - 1, 1);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={{ flex: 1 }}
+      >
+        <SafeAreaView
+          style={{ flex: 1, backgroundColor: colors.background }}
+          edges={["top", "left", "right"]}
+        >
+          {/* Header */}
+          <View className="flex-row items-center justify-between px-5 py-4 border-b border-border">
+            <Pressable
+              onPress={onClose}
+              style={({ pressed }) => [{ opacity: pressed ? 0.7 : 1 }]}
+            >
+              <Text style={{ color: colors.muted }} className="text-base">취소</Text>
+            </Pressable>
+            <Text className="text-lg font-bold text-foreground">구간 만들기</Text>
+            <View style={{ width: 40 }} />
+          </View>
+
+          <ScrollView className="flex-1 px-5 py-4">
+            {/* Selection preview */}
+            <View className="h-56 rounded-2xl overflow-hidden mb-4">
+              {Platform.OS !== "web" ? (
+                <GoogleRideMap
+                  gpsPoints={gpsPoints}
+                  isLive={false}
+                  showCurrentLocation={false}
+                  routeSegments={routeSegments}
+                />
+              ) : (
+                <RideMap
+                  gpsPoints={gpsPoints}
+                  isLive={false}
+                  showCurrentLocation={false}
+                  routeSegments={routeSegments}
+                />
+              )}
+            </View>
+
+            {/* Start / end */}
+            <View className="bg-surface rounded-xl p-4 mb-4 border border-border">
+              <View className="flex-row items-center justify-between">
+                <Text className="text-foreground font-medium">시작 지점</Text>
+                <Text className="text-muted text-sm">{startIndex + 1} / {gpsPoints.length}</Text>
+              </View>
+              <Slider
+                style={{ width: "100%", height: 40 }}
+                minimumValue={0}
+                maximumValue={lastIndex}
+                step={1}
+                value={startIndex}
+                onValueChange={(value: number) => setStartIndex(Math.min(Math.round(value), endIndex - 1))}
+                minimumTrackTintColor={colors.primary}
+                maximumTrackTintColor={colors.border}
+                thumbTintColor={colors.primary}
+              />
+              <View className="flex-row items-center justify-between mt-2">
+                <Text className="text-foreground font-medium">끝 지점</Text>
+                <Text className="text-muted text-sm">{endIndex + 1} / {gpsPoints.length}</Text>
+              </View>
+              <Slider
+                style={{ width: "100%", height: 40 }}
+                minimumValue={0}
+                maximumValue={lastIndex}
+                step={1}
+                value={endIndex}
+                onValueChange={(value: number) => setEndIndex(Math.max(Math.round(value), startIndex + 1))}
+                minimumTrackTintColor={colors.primary}
+                maximumTrackTintColor={colors.border}
+                thumbTintColor={colors.primary}
+              />
+              <View className="flex-row items-center mt-2">
+                <MaterialIcons name="straighten" size={18} color={distanceError ? colors.error : colors.success} />
+                <Text className="text-foreground font-bold ml-2">
+                  {(selectedDistance / 1000).toFixed(2)}km
+                </Text>
+              </View>
+              {distanceError && (
+                <Text style={{ color: colors.error }} className="text-xs mt-1">{distanceError}</Text>
+              )}
+            </View>
+
+            {/* Name */}
+            <View className="mb-4">
+              <Text className="text-sm font-medium text-foreground mb-2">구간 이름</Text>
+              <TextInput
+                value={name}
+                onChangeText={setName}
+                placeholder="예: 한강 잠수교 직선 구간"
+                placeholderTextColor={colors.muted}
+                maxLength={100}
+                className="bg-surface rounded-xl px-4 py-3 text-foreground border border-border"
+              />
+            </View>
+
+            <Text className="text-muted text-xs mb-8">
+              구간을 만들면 이 구간을 지나는 주행이 자동으로 기록되고, 전체·친구·이번 달 순위를 볼 수 있습니다.
+            </Text>
+          </ScrollView>
+
+          {/* Submit */}
+          <View className="px-5 pb-8 pt-4 border-t border-border">
+            <Pressable
+              onPress={handleSubmit}
+              disabled={!canSubmit}
+              style={({ pressed }) => [
+                {
+                  backgroundColor: canSubmit ? colors.primary : colors.muted,
+                  opacity: pressed ? 0.8 : 1,
+                },
+              ]}
+              className="py-4 rounded-xl items-center"
+            >
+              {createSegment.isPending ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text className="text-white font-bold">구간 저장</Text>
+              )}
+            </Pressable>
+          </View>
+        </SafeAreaView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import {
   Text,
   View,
@@ -13,6 +13,12 @@ import MaterialIcons from "@expo/vector-icons/MaterialIcons";
 import * as Haptics from "expo-haptics";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useColors } from "@/hooks/use-colors";
+import {
+  calculateSoc,
+  createBatterySpecForScooter,
+  estimateVoltage,
+  type BatterySpec,
+} from "@/lib/battery-analysis";
 
 interface ScooterBatteryInfo {
   id: number;
@@ -42,31 +48,9 @@ interface VoltageInputModalProps {
   startVoltage?: number;
 }
 
-// Calculate SOC from voltage using linear interpolation
-function calculateSoc(
-  voltage: number,
-  fullVoltage: number,
-  emptyVoltage: number
-): number {
-  if (voltage >= fullVoltage) return 100;
-  if (voltage <= emptyVoltage) return 0;
-  
-  const range = fullVoltage - emptyVoltage;
-  const current = voltage - emptyVoltage;
-  return Math.round((current / range) * 100);
-}
-
-// Common voltage quick-select options relative to full voltage
-function getQuickVoltages(fullVoltage: number, emptyVoltage: number): number[] {
-  const range = fullVoltage - emptyVoltage;
-  return [
-    fullVoltage, // 100%
-    Math.round((emptyVoltage + range * 0.9) * 10) / 10, // 90%
-    Math.round((emptyVoltage + range * 0.75) * 10) / 10, // 75%
-    Math.round((emptyVoltage + range * 0.5) * 10) / 10, // 50%
-    Math.round((emptyVoltage + range * 0.25) * 10) / 10, // 25%
-    emptyVoltage, // 0%
-  ];
+// Common voltage quick-select options along the battery's OCV curve
+function getQuickVoltages(spec: BatterySpec): number[] {
+  return [100, 90, 75, 50, 25, 0].map((soc) => Math.round(estimateVoltage(soc, spec) * 10) / 10);
 }
 
 export function VoltageInputModal({
@@ -83,23 +67,19 @@ export function VoltageInputModal({
   const [voltageInput, setVoltageInput] = useState("");
   const [calculatedSoc, setCalculatedSoc] = useState<number | null>(null);
 
-  // Get battery specs from scooter
-  const fullVoltage = scooter?.batteryFullVoltage 
-    ? parseFloat(scooter.batteryFullVoltage) 
-    : (scooter?.batteryVoltage ? scooter.batteryVoltage * 1.12 : 67.2); // Default 60V Li-ion
-  const emptyVoltage = scooter?.batteryEmptyVoltage 
-    ? parseFloat(scooter.batteryEmptyVoltage) 
-    : (scooter?.batteryVoltage ? scooter.batteryVoltage * 0.8 : 48.0);
-  const batteryCapacity = scooter?.batteryCapacity 
-    ? parseFloat(scooter.batteryCapacity) 
-    : 30;
-  const nominalVoltage = scooter?.batteryVoltage || 60;
+  // Get battery specs from scooter (defaults to 60V 30Ah Li-ion)
+  const batterySpec = useMemo(() => createBatterySpecForScooter(scooter ?? {}), [scooter]);
+  const { fullVoltage, emptyVoltage, nominalVoltage, capacity: batteryCapacity } = batterySpec;
+
+  // A voltage read right after the ride is still sagging from the load
+  const readSoc = (voltage: number, afterRide: boolean) =>
+    calculateSoc(voltage, batterySpec, afterRide ? { minutesSinceRide: 0 } : {});
 
   // Calculate total Wh capacity
   const totalCapacityWh = nominalVoltage * batteryCapacity;
 
   // Quick voltage options
-  const quickVoltages = getQuickVoltages(fullVoltage, emptyVoltage);
+  const quickVoltages = getQuickVoltages(batterySpec);
 
   // Reset state when modal opens
   useEffect(() => {
@@ -113,12 +93,12 @@ export function VoltageInputModal({
   useEffect(() => {
     const voltage = parseFloat(voltageInput);
     if (!isNaN(voltage) && voltage > 0) {
-      const soc = calculateSoc(voltage, fullVoltage, emptyVoltage);
+      const soc = calculateSoc(voltage, batterySpec, mode === "end" ? { minutesSinceRide: 0 } : {});
       setCalculatedSoc(soc);
     } else {
       setCalculatedSoc(null);
     }
-  }, [voltageInput, fullVoltage, emptyVoltage]);
+  }, [voltageInput, batterySpec, mode]);
 
   const handleQuickSelect = (voltage: number) => {
     if (Platform.OS !== "web") {
@@ -137,7 +117,7 @@ export function VoltageInputModal({
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     }
 
-    const soc = calculateSoc(voltage, fullVoltage, emptyVoltage);
+    const soc = readSoc(voltage, mode === "end");
     onSubmit(voltage, soc);
   };
 
@@ -151,7 +131,7 @@ export function VoltageInputModal({
   // Calculate energy consumed if we have both start and end voltages
   const energyConsumed = mode === "end" && startVoltage && calculatedSoc !== null
     ? (() => {
-        const startSoc = calculateSoc(startVoltage, fullVoltage, emptyVoltage);
+        const startSoc = readSoc(startVoltage, false);
         const socDiff = startSoc - calculatedSoc;
         return (totalCapacityWh * socDiff) / 100;
       })()
@@ -240,7 +220,7 @@ export function VoltageInputModal({
                   <View className="mt-3 pt-3 border-t border-border">
                     <Text className="text-muted text-sm">
                       출발 전압: <Text className="text-foreground font-medium">{startVoltage.toFixed(1)}V</Text>
-                      {" "}({calculateSoc(startVoltage, fullVoltage, emptyVoltage)}%)
+                      {" "}({readSoc(startVoltage, false)}%)
                     </Text>
                   </View>
                 )}
@@ -326,7 +306,7 @@ export function VoltageInputModal({
               <Text className="text-sm font-medium text-foreground mb-2">빠른 선택</Text>
               <View className="flex-row flex-wrap">
                 {quickVoltages.map((voltage, index) => {
-                  const soc = calculateSoc(voltage, fullVoltage, emptyVoltage);
+                  const soc = readSoc(voltage, mode === "end");
                   const isSelected = voltageInput === voltage.toFixed(1);
                   return (
                     <Pressable
@@ -400,4 +380,4 @@ export function VoltageInputModal({
 }
 
 // Export utility functions for use in other components
-export { calculateSoc, getQuickVoltages };
+export { getQuickVoltages };
@@ -0,0 +1,3 @@
+ALTER TABLE `ridingRecords` ADD `elevationGain` int;--> statement-breakpoint
+ALTER TABLE `ridingRecords` ADD `elevationLoss` int;--> statement-breakpoint
+ALTER TABLE `ridingRecords` ADD `elevationSource` enum('dem','unavailable');
\ No newline at end of file
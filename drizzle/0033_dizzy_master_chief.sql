@@ -0,0 +1,27 @@
+CREATE TABLE `segmentEfforts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`segmentId` int NOT NULL,
+	`userId` int NOT NULL,
+	`ridingRecordId` int NOT NULL,
+	`startTime` timestamp NOT NULL,
+	`elapsedTime` int NOT NULL,
+	`avgSpeed` int NOT NULL,
+	`isPersonalRecord` boolean NOT NULL DEFAULT false,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `segmentEfforts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `segments` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`creatorId` int NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`pointsJson` mediumtext NOT NULL,
+	`distance` int NOT NULL,
+	`elevationGain` int,
+	`minLat` decimal(10,7) NOT NULL,
+	`maxLat` decimal(10,7) NOT NULL,
+	`minLng` decimal(10,7) NOT NULL,
+	`maxLng` decimal(10,7) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `segments_id` PRIMARY KEY(`id`)
+);
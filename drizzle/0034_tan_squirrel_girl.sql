@@ -0,0 +1,7 @@
+CREATE TABLE `emergencyContacts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`contactUserId` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `emergencyContacts_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,4 @@
+ALTER TABLE `ridingRecords` ADD `transportStatus` enum('flagged','excluded');--> statement-breakpoint
+ALTER TABLE `ridingRecords` ADD `excludedDistance` int;--> statement-breakpoint
+ALTER TABLE `ridingRecords` ADD `excludedDuration` int;--> statement-breakpoint
+ALTER TABLE `ridingRecords` ADD `transportSegmentsJson` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `groupSessions` ADD `sharedRouteJson` mediumtext;
\ No newline at end of file
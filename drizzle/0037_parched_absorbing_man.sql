@@ -0,0 +1 @@
+ALTER TABLE `groupMembers` ADD `rideRole` enum('leader','sweep');
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `groupRideTracks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`groupId` int NOT NULL,
+	`userId` int NOT NULL,
+	`recordId` varchar(64) NOT NULL,
+	`distance` int NOT NULL,
+	`duration` int NOT NULL,
+	`avgSpeed` int NOT NULL,
+	`maxSpeed` int NOT NULL,
+	`startTime` timestamp NOT NULL,
+	`endTime` timestamp NOT NULL,
+	`trackJson` mediumtext NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `groupRideTracks_id` PRIMARY KEY(`id`),
+	CONSTRAINT `groupRideTracks_recordId_unique` UNIQUE(`recordId`)
+);
+--> statement-breakpoint
+ALTER TABLE `posts` ADD `groupId` int;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `groupMessages` MODIFY COLUMN `messageType` enum('text','location','alert','voice') NOT NULL DEFAULT 'text';--> statement-breakpoint
+ALTER TABLE `groupMessages` ADD `audioUrl` varchar(512);--> statement-breakpoint
+ALTER TABLE `groupMessages` ADD `audioDuration` int;--> statement-breakpoint
+ALTER TABLE `groupMessages` ADD `transcript` text;
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE `scheduledRideRsvps` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`rideId` int NOT NULL,
+	`userId` int NOT NULL,
+	`status` enum('going','maybe','declined','waitlist') NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `scheduledRideRsvps_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `scheduledRides` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`hostId` int NOT NULL,
+	`title` varchar(100) NOT NULL,
+	`description` text,
+	`startsAt` timestamp NOT NULL,
+	`meetingPointName` varchar(100) NOT NULL,
+	`meetingLatitude` decimal(10,7) NOT NULL,
+	`meetingLongitude` decimal(10,7) NOT NULL,
+	`plannedRouteJson` mediumtext,
+	`paceLevel` enum('relaxed','moderate','fast') NOT NULL DEFAULT 'moderate',
+	`capacity` int NOT NULL,
+	`status` enum('scheduled','started','cancelled') NOT NULL DEFAULT 'scheduled',
+	`groupId` int,
+	`reminderSentAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `scheduledRides_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `posts` ADD `scheduledRideId` int;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `groupSessions` ADD `isPublic` boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `scheduledRides` ADD `isPublic` boolean DEFAULT false NOT NULL;
\ No newline at end of file
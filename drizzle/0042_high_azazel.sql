@@ -0,0 +1,10 @@
+CREATE TABLE `privacyZones` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(50) NOT NULL,
+	`latitude` decimal(10,7) NOT NULL,
+	`longitude` decimal(10,7) NOT NULL,
+	`radius` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `privacyZones_id` PRIMARY KEY(`id`)
+);
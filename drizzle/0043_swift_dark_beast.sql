@@ -0,0 +1,47 @@
+CREATE TABLE `locationShareLinks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`token` varchar(64) NOT NULL,
+	`label` varchar(50) NOT NULL,
+	`expiresAt` timestamp NOT NULL,
+	`revokedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `locationShareLinks_id` PRIMARY KEY(`id`),
+	CONSTRAINT `locationShareLinks_token_unique` UNIQUE(`token`)
+);
+--> statement-breakpoint
+CREATE TABLE `locationShareListMembers` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`listId` int NOT NULL,
+	`friendId` int NOT NULL,
+	CONSTRAINT `locationShareListMembers_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `locationShareLists` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(50) NOT NULL,
+	`mode` enum('always','riding','group_riding','never') NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `locationShareLists_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `locationShareRules` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`friendId` int,
+	`mode` enum('always','riding','group_riding','never') NOT NULL,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `locationShareRules_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `locationViews` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`viewerId` int,
+	`shareLinkId` int,
+	`viewedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `locationViews_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `liveLocations` ADD `groupId` int;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `consumptionModels` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`scooterId` int NOT NULL,
+	`model` text NOT NULL,
+	`sampleCount` int NOT NULL,
+	`trainedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `consumptionModels_id` PRIMARY KEY(`id`),
+	CONSTRAINT `consumptionModels_scooterId_unique` UNIQUE(`scooterId`)
+);
+--> statement-breakpoint
+ALTER TABLE `batteryRideLogs` ADD `windSpeed` decimal(4,1);--> statement-breakpoint
+ALTER TABLE `batteryRideLogs` ADD `riderWeight` int;--> statement-breakpoint
+ALTER TABLE `scooters` ADD `riderWeight` int;
\ No newline at end of file
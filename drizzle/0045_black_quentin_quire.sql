@@ -0,0 +1 @@
+ALTER TABLE `batteryRideLogs` ADD `voltageSamples` text;
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE `chargerProfiles` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(50) NOT NULL,
+	`wattage` int NOT NULL,
+	`efficiency` decimal(4,3) NOT NULL,
+	`location` varchar(16) NOT NULL,
+	`tariffId` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `chargerProfiles_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `electricityTariffs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(50) NOT NULL,
+	`baseRate` decimal(8,2) NOT NULL,
+	`periods` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `electricityTariffs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `chargingRecords` ADD `chargerProfileId` int;--> statement-breakpoint
+ALTER TABLE `chargingRecords` ADD `startedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `chargingRecords` ADD `energyAdded` decimal(8,2);--> statement-breakpoint
+ALTER TABLE `chargingRecords` ADD `energyFromGrid` decimal(8,2);--> statement-breakpoint
+ALTER TABLE `chargingRecords` ADD `cost` decimal(10,2);--> statement-breakpoint
+ALTER TABLE `chargingRecords` ADD `cycleFraction` decimal(5,3);
\ No newline at end of file
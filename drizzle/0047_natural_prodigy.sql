@@ -0,0 +1,14 @@
+CREATE TABLE `batteryReminderSettings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`scooterId` int NOT NULL,
+	`enabled` boolean NOT NULL DEFAULT true,
+	`chargeTonight` boolean NOT NULL DEFAULT true,
+	`storage` boolean NOT NULL DEFAULT true,
+	`coldCharging` boolean NOT NULL DEFAULT true,
+	`minSocForRide` int NOT NULL DEFAULT 60,
+	`lastSent` text,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `batteryReminderSettings_id` PRIMARY KEY(`id`),
+	CONSTRAINT `batteryReminderSettings_scooterId_unique` UNIQUE(`scooterId`)
+);
@@ -0,0 +1,3 @@
+ALTER TABLE `privacyZones` ADD `trimLatitude` decimal(10,7);--> statement-breakpoint
+ALTER TABLE `privacyZones` ADD `trimLongitude` decimal(10,7);--> statement-breakpoint
+ALTER TABLE `privacyZones` ADD `trimRadius` int;
\ No newline at end of file
@@ -90,6 +90,20 @@ export const ridingRecords = mysqlTable("ridingRecords", {
   weatherCondition: varchar("weatherCondition", { length: 50 }),
   /** Energy consumed during ride (Wh) */
   energyWh: decimal("energyWh", { precision: 8, scale: 2 }),
+  /** Elevation gain from DEM-corrected altitudes (meters) */
+  elevationGain: int("elevationGain"),
+  /** Elevation loss from DEM-corrected altitudes (meters) */
+  elevationLoss: int("elevationLoss"),
+  /** dem: altitudes corrected from terrain tiles, unavailable: track outside DEM coverage */
+  elevationSource: mysqlEnum("elevationSource", ["dem", "unavailable"]),
+  /** excluded: vehicle/walking segments taken out of the stats, flagged: possible vehicle segment shown to the rider */
+  transportStatus: mysqlEnum("transportStatus", ["flagged", "excluded"]),
+  /** Distance taken out of the stats as non-scooter travel (meters) */
+  excludedDistance: int("excludedDistance"),
+  /** Riding time taken out of the stats as non-scooter travel (seconds) */
+  excludedDuration: int("excludedDuration"),
+  /** Non-scooter segments with the reason shown to the rider (JSON) */
+  transportSegmentsJson: text("transportSegmentsJson"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -143,6 +157,8 @@ export const scooters = mysqlTable("scooters", {
   batteryFullVoltage: decimal("batteryFullVoltage", { precision: 5, scale: 2 }),
   /** Empty voltage (V) - calculated or user-specified */
   batteryEmptyVoltage: decimal("batteryEmptyVoltage", { precision: 5, scale: 2 }),
+  /** Rider weight including cargo (kg), used by the consumption model */
+  riderWeight: int("riderWeight"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -161,10 +177,14 @@ export const posts = mysqlTable("posts", {
   title: varchar("title", { length: 200 }).notNull(),
   /** Post content */
   content: text("content").notNull(),
-  /** Post type: general, ride_share, question, tip, group_recruit */
+  /** Post type: general, ride_share, question, tip, group_recruit, group_ride */
   postType: varchar("postType", { length: 32 }).default("general").notNull(),
   /** Attached riding record ID (optional) */
   ridingRecordId: varchar("ridingRecordId", { length: 64 }),
+  /** Group session whose ride is summarized (group_ride posts) */
+  groupId: int("groupId"),
+  /** Scheduled ride the post recruits riders for (group_recruit posts) */
+  scheduledRideId: int("scheduledRideId"),
   /** Like count */
   likeCount: int("likeCount").default(0).notNull(),
   /** Comment count */
@@ -387,6 +407,8 @@ export const liveLocations = mysqlTable("liveLocations", {
   speed: decimal("speed", { precision: 6, scale: 2 }),
   /** Whether user is currently riding */
   isRiding: boolean("isRiding").default(false).notNull(),
+  /** Group session the rider is riding with, if any */
+  groupId: int("groupId"),
   /** Last update timestamp */
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -492,6 +514,10 @@ export const groupSessions = mysqlTable("groupSessions", {
   isActive: boolean("isActive").default(true).notNull(),
   /** Whether riding is in progress */
   isRiding: boolean("isRiding").default(false).notNull(),
+  /** Route and meeting point published by the host (JSON), sent to members as they join */
+  sharedRouteJson: mediumtext("sharedRouteJson"),
+  /** Listed in ride discovery so riders outside the group can find it and ask to join */
+  isPublic: boolean("isPublic").default(false).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -510,6 +536,8 @@ export const groupMembers = mysqlTable("groupMembers", {
   userId: int("userId").notNull(),
   /** Whether this member is the host */
   isHost: boolean("isHost").default(false).notNull(),
+  /** Ride role assigned by the host: leader rides in front, sweep rides last */
+  rideRole: mysqlEnum("rideRole", ["leader", "sweep"]),
   /** Member status: pending (waiting approval), approved, rejected */
   status: mysqlEnum("status", ["pending", "approved", "rejected"]).default("pending").notNull(),
   /** Whether this member is currently riding */
@@ -544,14 +572,102 @@ export const groupMessages = mysqlTable("groupMessages", {
   userId: int("userId").notNull(),
   /** Message content */
   message: text("message").notNull(),
-  /** Message type: text, location, alert */
-  messageType: mysqlEnum("messageType", ["text", "location", "alert"]).default("text").notNull(),
+  /** Message type: text, location, alert, voice */
+  messageType: mysqlEnum("messageType", ["text", "location", "alert", "voice"]).default("text").notNull(),
+  /** Voice clip URL (voice messages) */
+  audioUrl: varchar("audioUrl", { length: 512 }),
+  /** Voice clip length in milliseconds */
+  audioDuration: int("audioDuration"),
+  /** Speech-to-text of the voice clip, once transcribed */
+  transcript: text("transcript"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
 export type GroupMessage = typeof groupMessages.$inferSelect;
 export type InsertGroupMessage = typeof groupMessages.$inferInsert;
 
+/**
+ * Group ride tracks - each member's ride kept with the group session for replay
+ */
+export const groupRideTracks = mysqlTable("groupRideTracks", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Group session ID */
+  groupId: int("groupId").notNull(),
+  /** Member user ID */
+  userId: int("userId").notNull(),
+  /** Riding record the track comes from (ridingRecords.recordId) */
+  recordId: varchar("recordId", { length: 64 }).notNull().unique(),
+  /** Distance in meters */
+  distance: int("distance").notNull(),
+  /** Riding time in seconds */
+  duration: int("duration").notNull(),
+  /** Average speed in km/h * 10 */
+  avgSpeed: int("avgSpeed").notNull(),
+  /** Max speed in km/h * 10 */
+  maxSpeed: int("maxSpeed").notNull(),
+  startTime: timestamp("startTime").notNull(),
+  endTime: timestamp("endTime").notNull(),
+  /** Thinned track for replay: JSON [{latitude, longitude, timestamp, speed}] */
+  trackJson: mediumtext("trackJson").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type GroupRideTrack = typeof groupRideTracks.$inferSelect;
+export type InsertGroupRideTrack = typeof groupRideTracks.$inferInsert;
+
+/**
+ * Scheduled group rides - a group session is created for them at start time
+ */
+export const scheduledRides = mysqlTable("scheduledRides", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Host user ID */
+  hostId: int("hostId").notNull(),
+  title: varchar("title", { length: 100 }).notNull(),
+  description: text("description"),
+  /** Planned start time */
+  startsAt: timestamp("startsAt").notNull(),
+  /** Meeting point */
+  meetingPointName: varchar("meetingPointName", { length: 100 }).notNull(),
+  meetingLatitude: decimal("meetingLatitude", { precision: 10, scale: 7 }).notNull(),
+  meetingLongitude: decimal("meetingLongitude", { precision: 10, scale: 7 }).notNull(),
+  /** Planned route (JSON SharedRoute), published to the group session when it starts */
+  plannedRouteJson: mediumtext("plannedRouteJson"),
+  /** Expected pace: relaxed, moderate, fast */
+  paceLevel: mysqlEnum("paceLevel", ["relaxed", "moderate", "fast"]).default("moderate").notNull(),
+  /** Maximum riders going, host included */
+  capacity: int("capacity").notNull(),
+  /** Listed in ride discovery; private rides are only reachable through a shared link or post */
+  isPublic: boolean("isPublic").default(false).notNull(),
+  /** scheduled, started (group session created), cancelled */
+  status: mysqlEnum("status", ["scheduled", "started", "cancelled"]).default("scheduled").notNull(),
+  /** Group session created at start time */
+  groupId: int("groupId"),
+  /** When the day-before reminder push was sent */
+  reminderSentAt: timestamp("reminderSentAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ScheduledRide = typeof scheduledRides.$inferSelect;
+export type InsertScheduledRide = typeof scheduledRides.$inferInsert;
+
+/**
+ * RSVPs to scheduled group rides (one per rider and ride)
+ */
+export const scheduledRideRsvps = mysqlTable("scheduledRideRsvps", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Scheduled ride ID */
+  rideId: int("rideId").notNull(),
+  userId: int("userId").notNull(),
+  /** going, maybe, declined, or waitlist (wanted to go while the ride was full) */
+  status: mysqlEnum("status", ["going", "maybe", "declined", "waitlist"]).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ScheduledRideRsvp = typeof scheduledRideRsvps.$inferSelect;
+export type InsertScheduledRideRsvp = typeof scheduledRideRsvps.$inferInsert;
+
 
 /**
  * Announcements/Notices table for app-wide announcements
@@ -805,12 +921,18 @@ export const batteryRideLogs = mysqlTable("batteryRideLogs", {
   temperature: decimal("temperature", { precision: 4, scale: 1 }),
   /** Weather condition (sunny, cloudy, rainy, etc.) */
   weatherCondition: varchar("weatherCondition", { length: 50 }),
+  /** Wind speed at ride time (m/s) */
+  windSpeed: decimal("windSpeed", { precision: 4, scale: 1 }),
+  /** Rider weight at ride time (kg, from the scooter) */
+  riderWeight: int("riderWeight"),
   /** Elevation gain (meters) */
   elevationGain: int("elevationGain"),
   /** Elevation loss (meters) */
   elevationLoss: int("elevationLoss"),
   /** Acceleration score (0-100, based on riding style) */
   accelerationScore: int("accelerationScore"),
+  /** Controller voltage samples (JSON [seconds, V, A | null][], from a telemetry adapter) */
+  voltageSamples: text("voltageSamples"),
   /** AI analysis notes (JSON) */
   aiAnalysis: text("aiAnalysis"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -819,6 +941,23 @@ export const batteryRideLogs = mysqlTable("batteryRideLogs", {
 export type BatteryRideLog = typeof batteryRideLogs.$inferSelect;
 export type InsertBatteryRideLog = typeof batteryRideLogs.$inferInsert;
 
+/**
+ * Per-scooter consumption model fitted from batteryRideLogs (see server/consumption-model)
+ */
+export const consumptionModels = mysqlTable("consumptionModels", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  scooterId: int("scooterId").notNull().unique(),
+  /** Fitted model (JSON, FittedConsumptionModel) */
+  model: text("model").notNull(),
+  /** Rides the model was fitted on */
+  sampleCount: int("sampleCount").notNull(),
+  trainedAt: timestamp("trainedAt").defaultNow().notNull(),
+});
+
+export type ConsumptionModel = typeof consumptionModels.$inferSelect;
+export type InsertConsumptionModel = typeof consumptionModels.$inferInsert;
+
 /**
  * Battery analysis summary - aggregated stats per scooter
  */
@@ -953,12 +1092,88 @@ export const chargingRecords = mysqlTable("chargingRecords", {
   chargeType: varchar("chargeType", { length: 32 }),
   /** Notes about the charging session */
   notes: text("notes"),
+  /** Charger used (chargerProfiles.id) */
+  chargerProfileId: int("chargerProfileId"),
+  /** When charging started (for time-of-use tariffs) */
+  startedAt: timestamp("startedAt"),
+  /** Energy added to the pack (Wh) */
+  energyAdded: decimal("energyAdded", { precision: 8, scale: 2 }),
+  /** Energy drawn from the wall (Wh) */
+  energyFromGrid: decimal("energyFromGrid", { precision: 8, scale: 2 }),
+  /** Electricity cost (원), null without a tariff */
+  cost: decimal("cost", { precision: 10, scale: 2 }),
+  /** Share of a full charge cycle */
+  cycleFraction: decimal("cycleFraction", { precision: 5, scale: 3 }),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
 export type ChargingRecord = typeof chargingRecords.$inferSelect;
 export type InsertChargingRecord = typeof chargingRecords.$inferInsert;
 
+/**
+ * Electricity tariffs - price per kWh, optionally by time of day
+ */
+export const electricityTariffs = mysqlTable("electricityTariffs", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  /** Label shown to the rider (e.g. "주택용 저압") */
+  name: varchar("name", { length: 50 }).notNull(),
+  /** Price per kWh outside the time-of-use periods (원) */
+  baseRate: decimal("baseRate", { precision: 8, scale: 2 }).notNull(),
+  /** Time-of-use periods (JSON TariffPeriod[]) */
+  periods: text("periods"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ElectricityTariff = typeof electricityTariffs.$inferSelect;
+export type InsertElectricityTariff = typeof electricityTariffs.$inferInsert;
+
+/**
+ * Charger profiles - the chargers a rider uses and where
+ */
+export const chargerProfiles = mysqlTable("chargerProfiles", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  /** Label shown to the rider (e.g. "기본 충전기") */
+  name: varchar("name", { length: 50 }).notNull(),
+  /** Output power (W) */
+  wattage: int("wattage").notNull(),
+  /** Wall-to-pack efficiency (0-1) */
+  efficiency: decimal("efficiency", { precision: 4, scale: 3 }).notNull(),
+  /** home, office or public */
+  location: varchar("location", { length: 16 }).notNull(),
+  /** Tariff billed when charging here (electricityTariffs.id); null when it's free or unknown */
+  tariffId: int("tariffId"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ChargerProfile = typeof chargerProfiles.$inferSelect;
+export type InsertChargerProfile = typeof chargerProfiles.$inferInsert;
+
+/**
+ * Battery reminder settings - which charging and storage reminders a scooter gets; scooters
+ * without a row get all of them
+ */
+export const batteryReminderSettings = mysqlTable("batteryReminderSettings", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  scooterId: int("scooterId").notNull().unique(),
+  enabled: boolean("enabled").default(true).notNull(),
+  /** Charge the evening before a planned ride */
+  chargeTonight: boolean("chargeTonight").default(true).notNull(),
+  /** Long idle periods at full or nearly empty charge */
+  storage: boolean("storage").default(true).notNull(),
+  /** Charging when it's below freezing */
+  coldCharging: boolean("coldCharging").default(true).notNull(),
+  /** Charge (%) wanted before a ride without a planned route */
+  minSocForRide: int("minSocForRide").default(60).notNull(),
+  /** When each reminder was last sent, as JSON { [kind]: epoch ms } */
+  lastSent: text("lastSent"),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type BatteryReminderSetting = typeof batteryReminderSettings.$inferSelect;
+
 
 /**
  * Maintenance items table - 정비 항목 정의
@@ -1075,3 +1290,165 @@ export const aiUsage = mysqlTable("aiUsage", {
 });
 export type AiUsage = typeof aiUsage.$inferSelect;
 export type InsertAiUsage = typeof aiUsage.$inferInsert;
+
+/**
+ * Segments - user-defined stretches of road with timed efforts and leaderboards
+ */
+export const segments = mysqlTable("segments", {
+  id: int("id").autoincrement().primaryKey(),
+  /** User who created the segment */
+  creatorId: int("creatorId").notNull(),
+  /** Segment name */
+  name: varchar("name", { length: 100 }).notNull(),
+  /** Segment polyline as JSON [{latitude, longitude}] */
+  pointsJson: mediumtext("pointsJson").notNull(),
+  /** Segment length (meters) */
+  distance: int("distance").notNull(),
+  /** Elevation gain along the segment (meters) */
+  elevationGain: int("elevationGain"),
+  /** Bounding box for finding segments near a ride */
+  minLat: decimal("minLat", { precision: 10, scale: 7 }).notNull(),
+  maxLat: decimal("maxLat", { precision: 10, scale: 7 }).notNull(),
+  minLng: decimal("minLng", { precision: 10, scale: 7 }).notNull(),
+  maxLng: decimal("maxLng", { precision: 10, scale: 7 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type Segment = typeof segments.$inferSelect;
+export type InsertSegment = typeof segments.$inferInsert;
+
+/**
+ * Segment efforts - one timed pass over a segment within a ride
+ */
+export const segmentEfforts = mysqlTable("segmentEfforts", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Segment ID */
+  segmentId: int("segmentId").notNull(),
+  /** User ID */
+  userId: int("userId").notNull(),
+  /** Riding record ID (ridingRecords.id) */
+  ridingRecordId: int("ridingRecordId").notNull(),
+  /** Time the effort started */
+  startTime: timestamp("startTime").notNull(),
+  /** Elapsed time from segment start to end (seconds) */
+  elapsedTime: int("elapsedTime").notNull(),
+  /** Average speed in km/h * 10 */
+  avgSpeed: int("avgSpeed").notNull(),
+  /** Whether this was the user's best time on the segment when recorded */
+  isPersonalRecord: boolean("isPersonalRecord").default(false).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type SegmentEffort = typeof segmentEfforts.$inferSelect;
+export type InsertSegmentEffort = typeof segmentEfforts.$inferInsert;
+
+/**
+ * Emergency contacts - users alerted when a crash is detected during a ride
+ */
+export const emergencyContacts = mysqlTable("emergencyContacts", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Rider who configured the contact */
+  userId: int("userId").notNull(),
+  /** Contact user ID (must be a friend when added) */
+  contactUserId: int("contactUserId").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type EmergencyContact = typeof emergencyContacts.$inferSelect;
+export type InsertEmergencyContact = typeof emergencyContacts.$inferInsert;
+
+/**
+ * Privacy zones - circles around places like home and work that are cut out of a rider's
+ * tracks whenever someone else sees them
+ */
+export const privacyZones = mysqlTable("privacyZones", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Rider who set up the zone */
+  userId: int("userId").notNull(),
+  /** Label shown to the rider (e.g. "집", "회사") */
+  name: varchar("name", { length: 50 }).notNull(),
+  latitude: decimal("latitude", { precision: 10, scale: 7 }).notNull(),
+  longitude: decimal("longitude", { precision: 10, scale: 7 }).notNull(),
+  /** Radius in meters */
+  radius: int("radius").notNull(),
+  /**
+   * Circle tracks are actually trimmed to: the zone shifted and widened by a random amount picked
+   * once per zone, so trimmed ends don't sit on a circle around the real place
+   */
+  trimLatitude: decimal("trimLatitude", { precision: 10, scale: 7 }),
+  trimLongitude: decimal("trimLongitude", { precision: 10, scale: 7 }),
+  trimRadius: int("trimRadius"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type PrivacyZone = typeof privacyZones.$inferSelect;
+export type InsertPrivacyZone = typeof privacyZones.$inferInsert;
+
+/**
+ * Location sharing rules - when friends can see a rider's live location. A rule without a
+ * friendId is the rider's default for friends without a rule of their own
+ */
+export const locationShareRules = mysqlTable("locationShareRules", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Rider whose location the rule is about */
+  userId: int("userId").notNull(),
+  /** Friend the rule applies to (null = default for everyone else) */
+  friendId: int("friendId"),
+  mode: mysqlEnum("mode", ["always", "riding", "group_riding", "never"]).notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type LocationShareRule = typeof locationShareRules.$inferSelect;
+
+/**
+ * Location sharing lists - named sets of friends (e.g. family) sharing one rule
+ */
+export const locationShareLists = mysqlTable("locationShareLists", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  name: varchar("name", { length: 50 }).notNull(),
+  mode: mysqlEnum("mode", ["always", "riding", "group_riding", "never"]).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type LocationShareList = typeof locationShareLists.$inferSelect;
+
+export const locationShareListMembers = mysqlTable("locationShareListMembers", {
+  id: int("id").autoincrement().primaryKey(),
+  listId: int("listId").notNull(),
+  friendId: int("friendId").notNull(),
+});
+
+/**
+ * Location share links - time-boxed links that show a rider's live location on a web page,
+ * for people without the app
+ */
+export const locationShareLinks = mysqlTable("locationShareLinks", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  /** Random URL token */
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  /** Who the link is for (e.g. "가족") */
+  label: varchar("label", { length: 50 }).notNull(),
+  expiresAt: timestamp("expiresAt").notNull(),
+  revokedAt: timestamp("revokedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type LocationShareLink = typeof locationShareLinks.$inferSelect;
+
+/**
+ * Location views - who looked at a rider's live location (a friend or a share link), kept
+ * at most once per viewer every few minutes
+ */
+export const locationViews = mysqlTable("locationViews", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Rider whose location was seen */
+  userId: int("userId").notNull(),
+  /** Friend who saw it (null when seen through a share link) */
+  viewerId: int("viewerId"),
+  shareLinkId: int("shareLinkId"),
+  viewedAt: timestamp("viewedAt").defaultNow().notNull(),
+});
+
+export type LocationView = typeof locationViews.$inferSelect;
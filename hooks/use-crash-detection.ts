@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState, useCallback } from "react";
+import { Platform } from "react-native";
+import { Accelerometer } from "expo-sensors";
+import { CrashDetector, type CrashEvent, type LocationSample } from "@/lib/crash-detection";
+
+/** Accelerometer sampling interval (ms); impacts last a few hundred ms */
+const ACCELEROMETER_INTERVAL_MS = 20;
+
+interface UseCrashDetectionOptions {
+  /** Listen to sensors only while riding (and not paused) */
+  enabled: boolean;
+}
+
+/**
+ * Hook feeding the accelerometer and the ride's GPS fixes into a CrashDetector.
+ * `crashEvent` is set once a crash is detected; `dismiss` clears it and resumes monitoring.
+ */
+export function useCrashDetection({ enabled }: UseCrashDetectionOptions) {
+  const detectorRef = useRef(new CrashDetector());
+  // Location callbacks are captured by long-lived watchers, so read `enabled` through a ref
+  const enabledRef = useRef(enabled);
+  const [crashEvent, setCrashEvent] = useState<CrashEvent | null>(null);
+
+  useEffect(() => {
+    enabledRef.current = enabled;
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || Platform.OS === "web") return;
+
+    let subscription: { remove: () => void } | null = null;
+    let cancelled = false;
+
+    Accelerometer.isAvailableAsync()
+      .then((available) => {
+        if (!available || cancelled) {
+          if (!available) console.log("[CrashDetection] Accelerometer not available");
+          return;
+        }
+        Accelerometer.setUpdateInterval(ACCELEROMETER_INTERVAL_MS);
+        subscription = Accelerometer.addListener(({ x, y, z }) => {
+          const event = detectorRef.current.addAcceleration({ timestamp: Date.now(), x, y, z });
+          if (event) {
+            console.log("[CrashDetection] Crash detected:", event);
+            setCrashEvent(event);
+          }
+        });
+      })
+      .catch((error) => console.error("[CrashDetection] Failed to start accelerometer:", error));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+      detectorRef.current.reset();
+    };
+  }, [enabled]);
+
+  const addLocation = useCallback((sample: LocationSample) => {
+    if (!enabledRef.current) return;
+    const event = detectorRef.current.addLocation(sample);
+    if (event) {
+      console.log("[CrashDetection] Crash detected:", event);
+      setCrashEvent(event);
+    }
+  }, []);
+
+  const dismiss = useCallback(() => {
+    detectorRef.current.reset();
+    setCrashEvent(null);
+  }, []);
+
+  return { crashEvent, addLocation, dismiss };
+}
@@ -1,10 +1,19 @@
 /**
  * WebSocket hook for real-time group riding location sharing
+ *
+ * Member locations arrive as compact binary frames when the server accepts the binary encoding
+ * offered on join, and as group_member_update JSON otherwise.
  */
 import { useEffect, useRef, useState, useCallback } from "react";
 import { Platform } from "react-native";
 import * as SecureStore from "expo-secure-store";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  BINARY_ENCODING,
+  GroupLocationDecoder,
+  type GroupLocationEncoding,
+  type MemberTableEntry,
+} from "@/shared/group-location-codec";
 
 // Types matching server WebSocket messages
 interface GroupMember {
@@ -19,6 +28,10 @@ interface GroupMember {
   duration: number;
   isRiding: boolean;
   timestamp: number;
+  // Meters from / along the shared route (null when no route is shared)
+  routeDistance?: number | null;
+  routeProgress?: number | null;
+  rideRole?: "leader" | "sweep" | null;
 }
 
 interface GroupMemberUpdate {
@@ -31,6 +44,13 @@ interface JoinedMessage {
   type: "joined";
   groupId: number;
   userId: number;
+  encoding?: GroupLocationEncoding;
+}
+
+interface MemberTableMessage {
+  type: "member_table";
+  groupId: number;
+  members: MemberTableEntry[];
 }
 
 interface ErrorMessage {
@@ -55,19 +75,113 @@ interface ChatBroadcast {
   chatMessage: ChatMessage;
 }
 
-type ServerMessage = GroupMemberUpdate | JoinedMessage | ErrorMessage | ChatBroadcast;
+// Push-to-talk clip from a member (our own clips come back too)
+export interface VoiceMessage {
+  id: number;
+  userId: number;
+  userName: string | null;
+  userProfileImage: string | null;
+  audioUrl: string;
+  duration: number; // ms
+  transcript: string | null;
+  createdAt: Date;
+}
+
+interface VoiceBroadcast {
+  type: "voice";
+  groupId: number;
+  voiceMessage: VoiceMessage;
+}
+
+interface VoiceTranscriptMessage {
+  type: "voice_transcript";
+  groupId: number;
+  messageId: number;
+  transcript: string;
+}
+
+// Route shared by the group host
+export interface SharedRoute {
+  name: string;
+  points: { latitude: number; longitude: number }[];
+  totalDistance: number;
+}
+
+export interface MeetingPoint {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface GroupRoute {
+  route: SharedRoute | null;
+  meetingPoint: MeetingPoint | null;
+  publishedBy: number;
+  publishedAt: number;
+}
+
+// Sent to the host when a member leaves the route or falls behind
+export interface RouteAlert {
+  kind: "off_route" | "behind";
+  userId: number;
+  userName: string;
+  distance: number;
+}
+
+// Regroup started (active) or lifted when the group spreads too far
+export interface RegroupState {
+  active: boolean;
+  reason: "distance" | "time";
+  spread: {
+    frontUserId: number;
+    backUserId: number;
+    distance: number;
+    gapSeconds: number;
+  };
+  rallyPoint: { latitude: number; longitude: number };
+  startedAt: number;
+}
+
+interface RegroupMessage {
+  type: "regroup";
+  groupId: number;
+  regroup: RegroupState;
+}
+
+interface RouteUpdate {
+  type: "route_update";
+  groupId: number;
+  groupRoute: GroupRoute | null;
+}
+
+interface RouteAlertMessage {
+  type: "route_alert";
+  groupId: number;
+  alert: RouteAlert;
+}
+
+type ServerMessage = GroupMemberUpdate | JoinedMessage | MemberTableMessage | ErrorMessage | ChatBroadcast | VoiceBroadcast | VoiceTranscriptMessage | RouteUpdate | RouteAlertMessage | RegroupMessage;
 
 interface UseGroupWebSocketOptions {
   groupId: number | null;
   enabled?: boolean;
+  // Offer binary location frames to save cellular data (default true; JSON if the server declines)
+  compactLocations?: boolean;
   onMembersUpdate?: (members: GroupMember[]) => void;
   onChatMessage?: (message: ChatMessage) => void;
+  onVoiceMessage?: (message: VoiceMessage) => void;
+  onVoiceTranscript?: (messageId: number, transcript: string) => void;
+  onRouteAlert?: (alert: RouteAlert) => void;
+  onRegroup?: (regroup: RegroupState) => void;
   onError?: (error: string) => void;
 }
 
 interface UseGroupWebSocketReturn {
   isConnected: boolean;
   members: GroupMember[];
+  groupRoute: GroupRoute | null;
+  // Regroup in progress (null when the group is together)
+  regroup: RegroupState | null;
   sendLocationUpdate: (location: {
     latitude: number;
     longitude: number;
@@ -77,6 +191,8 @@ interface UseGroupWebSocketReturn {
     isRiding: boolean;
   }) => void;
   sendChatMessage: (message: string, messageType?: "text" | "location" | "alert") => void;
+  // Host only; pass nulls to clear the shared route
+  publishRoute: (route: Omit<SharedRoute, "totalDistance"> | null, meetingPoint: MeetingPoint | null) => void;
   reconnect: () => void;
 }
 
@@ -108,8 +224,13 @@ async function getAuthToken(): Promise<string | null> {
 export function useGroupWebSocket({
   groupId,
   enabled = true,
+  compactLocations = true,
   onMembersUpdate,
   onChatMessage,
+  onVoiceMessage,
+  onVoiceTranscript,
+  onRouteAlert,
+  onRegroup,
   onError,
 }: UseGroupWebSocketOptions): UseGroupWebSocketReturn {
   const wsRef = useRef<WebSocket | null>(null);
@@ -117,15 +238,24 @@ export function useGroupWebSocket({
   const reconnectAttemptsRef = useRef(0);
   const currentGroupIdRef = useRef<number | null>(null);
   const lastLocationSentRef = useRef<number>(0);
+  const locationDecoderRef = useRef<GroupLocationDecoder | null>(null);
   
   // Use refs for callbacks to avoid stale closures
   const onMembersUpdateRef = useRef(onMembersUpdate);
   const onChatMessageRef = useRef(onChatMessage);
+  const onVoiceMessageRef = useRef(onVoiceMessage);
+  const onVoiceTranscriptRef = useRef(onVoiceTranscript);
+  const onRouteAlertRef = useRef(onRouteAlert);
+  const onRegroupRef = useRef(onRegroup);
   const onErrorRef = useRef(onError);
   
   // Keep refs updated
   onMembersUpdateRef.current = onMembersUpdate;
   onChatMessageRef.current = onChatMessage;
+  onVoiceMessageRef.current = onVoiceMessage;
+  onVoiceTranscriptRef.current = onVoiceTranscript;
+  onRouteAlertRef.current = onRouteAlert;
+  onRegroupRef.current = onRegroup;
   onErrorRef.current = onError;
   const pendingLocationRef = useRef<{
     latitude: number;
@@ -139,6 +269,8 @@ export function useGroupWebSocket({
   
   const [isConnected, setIsConnected] = useState(false);
   const [members, setMembers] = useState<GroupMember[]>([]);
+  const [groupRoute, setGroupRoute] = useState<GroupRoute | null>(null);
+  const [regroup, setRegroup] = useState<RegroupState | null>(null);
 
   const connect = useCallback(async () => {
     if (!groupId || !enabled) return;
@@ -161,6 +293,7 @@ export function useGroupWebSocket({
 
     try {
       const ws = new WebSocket(wsUrl);
+      ws.binaryType = "arraybuffer";
       wsRef.current = ws;
       currentGroupIdRef.current = groupId;
 
@@ -168,22 +301,36 @@ export function useGroupWebSocket({
         console.log("[WebSocket] Connected, joining group", groupId);
         setIsConnected(true);
         reconnectAttemptsRef.current = 0;
+        // Member tables and coordinate deltas only hold for one connection
+        locationDecoderRef.current = new GroupLocationDecoder();
         
         // Send join message with auth token
         ws.send(JSON.stringify({
           type: "join_group",
           groupId,
           token,
+          encodings: compactLocations ? [BINARY_ENCODING] : [],
         }));
       };
 
       ws.onmessage = (event) => {
         try {
+          // Binary location frame
+          if (typeof event.data !== "string") {
+            const decoded = locationDecoderRef.current?.decode(event.data as ArrayBuffer);
+            if (decoded) onMembersUpdateRef.current?.(decoded.members);
+            return;
+          }
+
           const message = JSON.parse(event.data) as ServerMessage;
           
           switch (message.type) {
             case "joined":
-              console.log(`[WebSocket] Joined group ${message.groupId} as user ${message.userId}`);
+              console.log(`[WebSocket] Joined group ${message.groupId} as user ${message.userId} (${message.encoding ?? "json"})`);
+              break;
+
+            case "member_table":
+              locationDecoderRef.current?.applyTable(message.members);
               break;
               
             case "group_member_update":
@@ -205,6 +352,27 @@ export function useGroupWebSocket({
             case "chat_broadcast":
               onChatMessageRef.current?.(message.chatMessage);
               break;
+
+            case "voice":
+              onVoiceMessageRef.current?.(message.voiceMessage);
+              break;
+
+            case "voice_transcript":
+              onVoiceTranscriptRef.current?.(message.messageId, message.transcript);
+              break;
+
+            case "route_update":
+              setGroupRoute(message.groupRoute);
+              break;
+
+            case "route_alert":
+              onRouteAlertRef.current?.(message.alert);
+              break;
+
+            case "regroup":
+              setRegroup(message.regroup.active ? message.regroup : null);
+              onRegroupRef.current?.(message.regroup);
+              break;
           }
         } catch (error) {
           console.error("[WebSocket] Failed to parse message:", error);
@@ -235,7 +403,7 @@ export function useGroupWebSocket({
       console.error("[WebSocket] Failed to create connection:", error);
       onErrorRef.current?.("Failed to connect to server");
     }
-  }, [groupId, enabled]); // Removed callback deps since we use refs
+  }, [groupId, enabled, compactLocations]); // Removed callback deps since we use refs
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
@@ -266,6 +434,8 @@ export function useGroupWebSocket({
     currentGroupIdRef.current = null;
     setIsConnected(false);
     setMembers([]);
+    setGroupRoute(null);
+    setRegroup(null);
   }, []);
 
   // Adaptive throttled location update
@@ -352,6 +522,23 @@ export function useGroupWebSocket({
     }));
   }, []);
 
+  const publishRoute = useCallback((
+    route: Omit<SharedRoute, "totalDistance"> | null,
+    meetingPoint: MeetingPoint | null
+  ) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN || !currentGroupIdRef.current) {
+      console.warn("[WebSocket] Cannot publish route: not connected");
+      return;
+    }
+
+    wsRef.current.send(JSON.stringify({
+      type: "publish_route",
+      groupId: currentGroupIdRef.current,
+      route,
+      meetingPoint,
+    }));
+  }, []);
+
   const reconnect = useCallback(() => {
     disconnect();
     reconnectAttemptsRef.current = 0;
@@ -374,8 +561,11 @@ export function useGroupWebSocket({
   return {
     isConnected,
     members,
+    groupRoute,
+    regroup,
     sendLocationUpdate,
     sendChatMessage,
+    publishRoute,
     reconnect,
   };
 }
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { trpc } from "@/lib/trpc";
+import type { PrivacyZoneCircle } from "@/shared/privacy-zones";
+
+const PRIVACY_ZONES_KEY = "@scoop_privacy_zones";
+
+/**
+ * 개인정보 보호 구역 훅
+ * 서버 목록을 기기에도 저장해 두어 오프라인에서 내보낼 때도 구역이 적용되도록 함
+ */
+export function usePrivacyZones() {
+  const [cachedZones, setCachedZones] = useState<PrivacyZoneCircle[]>([]);
+  const zonesQuery = trpc.privacyZones.list.useQuery(undefined, {
+    staleTime: 1000 * 60 * 5, // 5분 캐시
+    retry: false,
+  });
+
+  useEffect(() => {
+    AsyncStorage.getItem(PRIVACY_ZONES_KEY)
+      .then((stored) => {
+        if (stored) setCachedZones(JSON.parse(stored));
+      })
+      .catch((error) => console.error("Failed to load privacy zones:", error));
+  }, []);
+
+  useEffect(() => {
+    if (!zonesQuery.data) return;
+    const circles = zonesQuery.data.map((zone) => zone.circle);
+    AsyncStorage.setItem(PRIVACY_ZONES_KEY, JSON.stringify(circles)).catch((error) =>
+      console.error("Failed to save privacy zones:", error)
+    );
+  }, [zonesQuery.data]);
+
+  return {
+    zones: zonesQuery.data ?? [],
+    // 내보내기/공유에 적용할 구역 (서버가 정해 둔 무작위로 옮긴 원, 서버를 못 쓰면 마지막으로 저장해 둔 목록)
+    circles: zonesQuery.data?.map((zone) => zone.circle) ?? cachedZones,
+    isLoading: zonesQuery.isLoading,
+    refetch: zonesQuery.refetch,
+  };
+}
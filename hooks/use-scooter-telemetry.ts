@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState, useCallback } from "react";
+import {
+  appendVoltageSample,
+  getSelectedTelemetryAdapter,
+  getTelemetryAdapter,
+  type TelemetrySample,
+} from "@/lib/scooter-telemetry";
+import type { VoltageSample } from "@/shared/telemetry";
+
+interface UseScooterTelemetryOptions {
+  /** Add samples to the ride's voltage series (false while paused) */
+  recording: boolean;
+}
+
+/**
+ * Hook connecting the rider's selected telemetry adapter for the lifetime of the ride screen.
+ * `sample` is the latest controller reading (null when telemetry is off or nothing came yet);
+ * `getVoltageSamples` returns the series recorded so far for the ride log.
+ */
+export function useScooterTelemetry({ recording }: UseScooterTelemetryOptions) {
+  const [adapterName, setAdapterName] = useState<string | null>(null);
+  const [sample, setSample] = useState<TelemetrySample | null>(null);
+  const samplesRef = useRef<VoltageSample[]>([]);
+  const rideStartedAtRef = useRef(Date.now());
+  // The adapter callback outlives renders, so read `recording` through a ref
+  const recordingRef = useRef(recording);
+
+  useEffect(() => {
+    recordingRef.current = recording;
+  }, [recording]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let stop: (() => Promise<void>) | null = null;
+
+    getSelectedTelemetryAdapter()
+      .then(async (id) => {
+        const definition = id ? getTelemetryAdapter(id) : null;
+        if (!definition || cancelled) return;
+        const adapter = definition.create();
+        stop = () => adapter.stop();
+        await adapter.start((next) => {
+          if (cancelled) return;
+          setSample(next);
+          if (recordingRef.current) {
+            samplesRef.current = appendVoltageSample(samplesRef.current, next, rideStartedAtRef.current);
+          }
+        });
+        if (cancelled) {
+          await adapter.stop();
+          return;
+        }
+        setAdapterName(definition.name);
+        console.log("[Telemetry] Connected:", definition.id);
+      })
+      .catch((error) => console.error("[Telemetry] Failed to start adapter:", error));
+
+    return () => {
+      cancelled = true;
+      stop?.().catch((error) => console.error("[Telemetry] Failed to stop adapter:", error));
+    };
+  }, []);
+
+  const getVoltageSamples = useCallback(() => samplesRef.current, []);
+
+  return { adapterName, sample, getVoltageSamples };
+}
@@ -1,11 +1,13 @@
 import * as Location from "expo-location";
 import { Platform, Linking } from "react-native";
 import { GpsPoint } from "./gps-utils";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { appendJournalPoints } from "./ride-journal";
 import * as ExpoLinking from "expo-linking";
 
 const BACKGROUND_LOCATION_TASK = "background-location-task";
-const BACKGROUND_RIDING_STATE_KEY = "scoop_background_riding_state";
+
+// Headless journal appends skip fixes less accurate than this (meters)
+const MAX_HEADLESS_ACCURACY = 100;
 
 // Store for background location updates
 let backgroundLocationCallback: ((location: Location.LocationObject) => void) | null = null;
@@ -14,65 +16,6 @@ let isBackgroundTrackingActive = false;
 // Conditionally import TaskManager only on native platforms
 let TaskManager: any = null;
 
-// Background riding state interface
-export interface BackgroundRidingState {
-  isRiding: boolean;
-  startTime: number;
-  totalDistance: number; // meters
-  duration: number; // seconds
-  currentSpeed: number; // km/h
-  lastLatitude: number | null;
-  lastLongitude: number | null;
-  lastTimestamp: number | null;
-  gpsPoints: GpsPoint[];
-}
-
-// Initialize default state
-const defaultBackgroundState: BackgroundRidingState = {
-  isRiding: false,
-  startTime: 0,
-  totalDistance: 0,
-  duration: 0,
-  currentSpeed: 0,
-  lastLatitude: null,
-  lastLongitude: null,
-  lastTimestamp: null,
-  gpsPoints: [],
-};
-
-// Save background riding state to AsyncStorage
-export async function saveBackgroundRidingState(state: BackgroundRidingState): Promise<void> {
-  try {
-    // Don't save gpsPoints to AsyncStorage (too large), keep them in memory
-    const stateToSave = { ...state, gpsPoints: [] };
-    await AsyncStorage.setItem(BACKGROUND_RIDING_STATE_KEY, JSON.stringify(stateToSave));
-  } catch (error) {
-    console.error("[BackgroundLocation] Failed to save riding state:", error);
-  }
-}
-
-// Load background riding state from AsyncStorage
-export async function loadBackgroundRidingState(): Promise<BackgroundRidingState> {
-  try {
-    const data = await AsyncStorage.getItem(BACKGROUND_RIDING_STATE_KEY);
-    if (data) {
-      return { ...defaultBackgroundState, ...JSON.parse(data) };
-    }
-  } catch (error) {
-    console.error("[BackgroundLocation] Failed to load riding state:", error);
-  }
-  return defaultBackgroundState;
-}
-
-// Clear background riding state
-export async function clearBackgroundRidingState(): Promise<void> {
-  try {
-    await AsyncStorage.removeItem(BACKGROUND_RIDING_STATE_KEY);
-  } catch (error) {
-    console.error("[BackgroundLocation] Failed to clear riding state:", error);
-  }
-}
-
 // Calculate distance between two GPS points using Haversine formula
 function calculateDistanceBetweenPoints(
   lat1: number,
@@ -135,14 +78,29 @@ export function defineBackgroundLocationTask() {
       return;
     }
 
-    if (data && backgroundLocationCallback) {
-      const { locations } = data as { locations: Location.LocationObject[] };
-      
-      // Process each location update
+    if (!data) return;
+    const { locations } = data as { locations: Location.LocationObject[] };
+
+    if (backgroundLocationCallback) {
+      // Riding screen is alive: it validates the points and writes them to the ride journal
       for (const location of locations) {
         backgroundLocationCallback(location);
       }
+      return;
     }
+
+    // Headless (app was killed): append straight to the ride journal so recovery replays them
+    const points: GpsPoint[] = locations
+      .filter((location) => (location.coords.accuracy ?? 0) <= MAX_HEADLESS_ACCURACY)
+      .map((location) => ({
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+        altitude: location.coords.altitude,
+        timestamp: location.timestamp,
+        speed: location.coords.speed,
+        accuracy: location.coords.accuracy,
+      }));
+    await appendJournalPoints(points);
   });
 }
 
@@ -261,20 +219,6 @@ export async function startBackgroundLocationTracking(
     // Set the callback
     backgroundLocationCallback = onLocationUpdate;
 
-    // Initialize background riding state
-    const initialState: BackgroundRidingState = {
-      isRiding: true,
-      startTime: Date.now(),
-      totalDistance: 0,
-      duration: 0,
-      currentSpeed: 0,
-      lastLatitude: null,
-      lastLongitude: null,
-      lastTimestamp: null,
-      gpsPoints: [],
-    };
-    await saveBackgroundRidingState(initialState);
-
     // Get the app's deep link scheme for notification tap action
     const appScheme = ExpoLinking.createURL("/riding");
     console.log("[BackgroundLocation] Deep link URL:", appScheme);
@@ -321,9 +265,6 @@ export async function stopBackgroundLocationTracking(): Promise<void> {
       console.log("Background location tracking stopped");
     }
 
-    // Clear the background riding state
-    await clearBackgroundRidingState();
-
     backgroundLocationCallback = null;
     isBackgroundTrackingActive = false;
   } catch (error) {
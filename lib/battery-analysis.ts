@@ -4,15 +4,28 @@
  * 전동킥보드 배터리 SOC 계산, 연비 분석, 배터리 건강도 추정 등의 기능을 제공합니다.
  */
 
-// 배터리 타입별 전압-SOC 변환 테이블 (리튬이온 기준)
-// 실제 SOC는 비선형이지만, 간단한 선형 보간 사용
+import {
+  batteryPackForScooter,
+  packCalibration,
+  packVoltageFromSoc,
+  socFromPackVoltage,
+  type BatteryChemistry,
+  type BatteryPack,
+} from "../shared/battery-ocv";
+import { getTemperatureCorrection } from "../shared/battery-temperature";
+
+export { getTemperatureCorrection };
+
+// 배터리 스펙
+// chemistry가 있으면 화학별 OCV 곡선으로, 없으면 만충~방전 전압 사이 선형 보간으로 SOC 계산
 export interface BatterySpec {
   nominalVoltage: number; // 공칭 전압 (예: 60V)
   capacity: number; // 용량 (Ah)
   cellCount: number; // 셀 직렬 수
   fullVoltage: number; // 만충 전압
   emptyVoltage: number; // 방전 전압
-  type: 'li-ion' | 'li-po' | 'lfp'; // 배터리 타입
+  type: 'li-ion' | 'li-po' | 'lfp' | 'lead-acid'; // 배터리 타입
+  chemistry?: BatteryChemistry; // OCV 곡선 (scooters.batteryType 기준)
 }
 
 // 기본 배터리 스펙 (60V 리튬이온)
@@ -30,6 +43,7 @@ const CELL_VOLTAGE_RANGES = {
   'li-ion': { full: 4.2, empty: 3.0, nominal: 3.7 },
   'li-po': { full: 4.2, empty: 3.0, nominal: 3.7 },
   'lfp': { full: 3.65, empty: 2.5, nominal: 3.2 }, // LiFePO4
+  'lead-acid': { full: 2.12, empty: 1.89, nominal: 2.0 },
 };
 
 /**
@@ -38,7 +52,7 @@ const CELL_VOLTAGE_RANGES = {
 export function createBatterySpec(
   nominalVoltage: number,
   capacity: number,
-  type: 'li-ion' | 'li-po' | 'lfp' = 'li-ion',
+  type: BatterySpec['type'] = 'li-ion',
   fullVoltage?: number,
   emptyVoltage?: number
 ): BatterySpec {
@@ -55,14 +69,60 @@ export function createBatterySpec(
   };
 }
 
+/**
+ * 킥보드 배터리 정보로부터 OCV 곡선 기반 스펙 생성
+ * 셀 수가 없으면 공칭 전압으로 추정, 사용자가 설정한 만충·방전 전압이 있으면 그 값을 사용
+ */
+export function createBatterySpecForScooter(scooter: {
+  batteryVoltage?: number | null;
+  batteryCapacity?: string | number | null;
+  batteryType?: string | null;
+  batteryCellCount?: number | null;
+  batteryFullVoltage?: string | number | null;
+  batteryEmptyVoltage?: string | number | null;
+}): BatterySpec {
+  const pack = batteryPackForScooter(scooter);
+  const { chemistry, cellCount } = pack;
+  const type: BatterySpec['type'] =
+    chemistry === 'lifepo4' ? 'lfp'
+    : chemistry === 'lead_acid' ? 'lead-acid'
+    : scooter.batteryType === 'lipo' ? 'li-po'
+    : 'li-ion';
+
+  return {
+    nominalVoltage: scooter.batteryVoltage || 60,
+    capacity: Number(scooter.batteryCapacity) || 30,
+    cellCount,
+    fullVoltage: packVoltageFromSoc(100, pack),
+    emptyVoltage: packVoltageFromSoc(0, pack),
+    type,
+    chemistry,
+  };
+}
+
+// 스펙의 만충·방전 전압을 보정값으로 둔 OCV 곡선 팩 (보정하지 않은 스펙은 곡선 양 끝과 같음)
+function specPack(spec: BatterySpec & { chemistry: BatteryChemistry }): BatteryPack {
+  return {
+    chemistry: spec.chemistry,
+    cellCount: spec.cellCount,
+    calibration: packCalibration(spec.fullVoltage, spec.emptyVoltage),
+  };
+}
+
 /**
  * 전압으로부터 SOC(State of Charge) 계산
- * 선형 보간 사용 (실제는 비선형이지만 간단한 구현)
+ * spec.chemistry가 있으면 OCV 곡선 (만충·방전 전압을 보정했으면 그 구간에 맞춰), 없으면 선형 보간
+ * 주행 직후 측정한 전압은 minutesSinceRide(주행 종료 후 경과 분)를 넘기면 전압 강하(sag)를 보정
  */
 export function calculateSoc(
   voltage: number,
-  spec: BatterySpec = DEFAULT_BATTERY_SPEC
+  spec: BatterySpec = DEFAULT_BATTERY_SPEC,
+  options: { minutesSinceRide?: number } = {}
 ): number {
+  if (spec.chemistry) {
+    return Math.round(socFromPackVoltage(voltage, specPack({ ...spec, chemistry: spec.chemistry }), options));
+  }
+
   if (voltage >= spec.fullVoltage) return 100;
   if (voltage <= spec.emptyVoltage) return 0;
   
@@ -78,6 +138,10 @@ export function estimateVoltage(
   soc: number,
   spec: BatterySpec = DEFAULT_BATTERY_SPEC
 ): number {
+  if (spec.chemistry) {
+    return packVoltageFromSoc(soc, specPack({ ...spec, chemistry: spec.chemistry }));
+  }
+
   const clampedSoc = Math.max(0, Math.min(100, soc));
   const range = spec.fullVoltage - spec.emptyVoltage;
   return spec.emptyVoltage + (range * clampedSoc / 100);
@@ -177,13 +241,14 @@ export function estimateBatteryCycles(
  */
 export function estimateBatteryHealth(
   estimatedCycles: number,
-  batteryType: 'li-ion' | 'li-po' | 'lfp' = 'li-ion'
+  batteryType: BatterySpec['type'] = 'li-ion'
 ): number {
   // 배터리 타입별 예상 수명 사이클
   const lifeCycles = {
     'li-ion': 500,
     'li-po': 400,
     'lfp': 2000, // LiFePO4는 수명이 매우 김
+    'lead-acid': 300,
   };
   
   const maxCycles = lifeCycles[batteryType];
@@ -195,29 +260,6 @@ export function estimateBatteryHealth(
   return Math.max(0, 100 - degradation);
 }
 
-/**
- * 온도 보정 계수 계산
- * 저온에서는 배터리 효율이 떨어짐
- */
-export function getTemperatureCorrection(temperatureCelsius: number): number {
-  // 25°C를 기준(1.0)으로 보정
-  if (temperatureCelsius >= 20 && temperatureCelsius <= 30) {
-    return 1.0;
-  } else if (temperatureCelsius < 20) {
-    // 저온: 효율 감소 (0°C에서 약 20% 감소)
-    const factor = 1 - ((20 - temperatureCelsius) * 0.01);
-    return Math.max(0.7, factor);
-  } else {
-    // 고온: 약간의 효율 증가 후 감소
-    if (temperatureCelsius <= 40) {
-      return 1.0;
-    } else {
-      const factor = 1 - ((temperatureCelsius - 40) * 0.02);
-      return Math.max(0.8, factor);
-    }
-  }
-}
-
 /**
  * 주행 데이터 분석 결과 인터페이스
  */
@@ -331,3 +373,169 @@ export function aggregateEfficiencyStats(
     rideCount: rides.length,
   };
 }
+
+// ==================== 경로 배터리 계획 ====================
+
+// 학습 데이터가 없을 때 사용하는 기본 연비 (Wh/km, 60V급 킥보드 평지 기준)
+export const DEFAULT_EFFICIENCY_WH_PER_KM = 20;
+
+// 도착 시 남겨둘 최소 SOC (%)
+export const DEFAULT_RESERVE_SOC = 15;
+
+// 등판 에너지 계산용 상수
+const ROUTE_TOTAL_MASS_KG = 100; // 라이더 + 기체
+const DRIVETRAIN_EFFICIENCY = 0.8; // 모터/컨트롤러 효율
+const REGEN_RATIO = 0.2; // 내리막 위치에너지 중 회수되는 비율
+
+/**
+ * 고도 변화에 따른 에너지 (Wh), 오르막은 구동계 손실 포함, 내리막은 일부 회생
+ */
+function elevationEnergyWh(gainMeters: number, lossMeters: number): number {
+  const joulesPerMeter = ROUTE_TOTAL_MASS_KG * 9.81;
+  const climbWh = (gainMeters * joulesPerMeter) / 3600 / DRIVETRAIN_EFFICIENCY;
+  const regenWh = (lossMeters * joulesPerMeter) / 3600 * REGEN_RATIO;
+  return climbWh - regenWh;
+}
+
+function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000; // 지구 반경 (미터)
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * 주행별 배터리 소비 기록 (batteryRideLogs)
+ */
+export interface RideEfficiencySample {
+  distanceMeters: number;
+  efficiencyWhPerKm: number;
+  temperatureCelsius?: number | null;
+  elevationGain?: number | null;
+  elevationLoss?: number | null;
+}
+
+/**
+ * 주행 기록으로부터 평지/25°C 기준 연비 학습 (Wh/km)
+ * 주행거리 가중 평균이며, 짧은 주행은 SOC 해상도 때문에 제외
+ */
+export function learnEfficiency(
+  samples: RideEfficiencySample[],
+  minDistanceMeters: number = 1000
+): number | null {
+  let totalKm = 0;
+  let totalWh = 0;
+
+  for (const sample of samples) {
+    if (sample.distanceMeters < minDistanceMeters || !(sample.efficiencyWhPerKm > 0)) continue;
+
+    const km = sample.distanceMeters / 1000;
+    let wh = sample.efficiencyWhPerKm * km;
+    wh -= elevationEnergyWh(sample.elevationGain ?? 0, sample.elevationLoss ?? 0);
+    if (sample.temperatureCelsius !== null && sample.temperatureCelsius !== undefined) {
+      // 저온 주행의 추가 소비분 제거
+      wh *= getTemperatureCorrection(sample.temperatureCelsius);
+    }
+
+    totalKm += km;
+    totalWh += Math.max(0, wh);
+  }
+
+  if (totalKm === 0 || totalWh === 0) return null;
+  return totalWh / totalKm;
+}
+
+export interface RouteBatteryPoint {
+  latitude: number;
+  longitude: number;
+  altitude?: number | null;
+}
+
+export interface RouteBatteryOptions {
+  currentSoc: number;
+  efficiencyWhPerKm: number; // 평지/25°C 기준
+  temperatureCelsius?: number | null;
+  reserveSoc?: number;
+}
+
+/**
+ * 경로 배터리 계획 결과
+ */
+export interface RouteBatteryPlan {
+  distanceKm: number;
+  energyRequiredWh: number;
+  startSoc: number;
+  arrivalSoc: number;
+  reserveSoc: number;
+  marginSoc: number; // 도착 SOC - 예비 SOC (음수면 부족)
+  feasible: boolean;
+  socAlongRoute: number[]; // 경로 지점별 예상 SOC
+  reserveIndex: number | null; // 예비 SOC 아래로 내려가는 첫 지점 (충전 필요 지점)
+  reserveDistanceKm: number | null;
+}
+
+/**
+ * 경로를 따라 예상 SOC 계산 (연비, 고도, 온도 보정 반영)
+ */
+export function planRouteBattery(
+  points: RouteBatteryPoint[],
+  spec: BatterySpec,
+  options: RouteBatteryOptions
+): RouteBatteryPlan {
+  const reserveSoc = options.reserveSoc ?? DEFAULT_RESERVE_SOC;
+  const totalCapacityWh = spec.nominalVoltage * spec.capacity;
+  const temperatureFactor =
+    options.temperatureCelsius !== null && options.temperatureCelsius !== undefined
+      ? getTemperatureCorrection(options.temperatureCelsius)
+      : 1.0;
+
+  const socAlongRoute: number[] = [];
+  let soc = options.currentSoc;
+  let distanceMeters = 0;
+  let energyWh = 0;
+  let reserveIndex: number | null = null;
+  let reserveDistanceKm: number | null = null;
+
+  for (let i = 0; i < points.length; i++) {
+    if (i > 0) {
+      const prev = points[i - 1];
+      const point = points[i];
+      const segmentMeters = haversineDistance(prev.latitude, prev.longitude, point.latitude, point.longitude);
+
+      let segmentWh = (segmentMeters / 1000) * options.efficiencyWhPerKm;
+      if (prev.altitude != null && point.altitude != null) {
+        const climb = point.altitude - prev.altitude;
+        segmentWh += elevationEnergyWh(Math.max(0, climb), Math.max(0, -climb));
+      }
+      segmentWh = Math.max(0, segmentWh) / temperatureFactor;
+
+      distanceMeters += segmentMeters;
+      energyWh += segmentWh;
+      soc -= totalCapacityWh > 0 ? (segmentWh / totalCapacityWh) * 100 : 0;
+    }
+
+    if (reserveIndex === null && soc < reserveSoc) {
+      reserveIndex = i;
+      reserveDistanceKm = distanceMeters / 1000;
+    }
+    socAlongRoute.push(Math.max(0, soc));
+  }
+
+  const arrivalSoc = Math.max(0, soc);
+  return {
+    distanceKm: distanceMeters / 1000,
+    energyRequiredWh: energyWh,
+    startSoc: options.currentSoc,
+    arrivalSoc,
+    reserveSoc,
+    marginSoc: soc - reserveSoc,
+    feasible: soc >= reserveSoc,
+    socAlongRoute,
+    reserveIndex,
+    reserveDistanceKm,
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * Crash / fall detection
+ *
+ * A crash is an acceleration spike while riding, followed by GPS speed collapsing to a stop
+ * and the rider (phone) staying still. The detector is fed raw accelerometer and location
+ * samples and is free of sensor APIs so recorded traces can be replayed in tests.
+ */
+
+/** Accelerometer sample in g (gravity included, as reported by expo-sensors) */
+export interface AccelerationSample {
+  timestamp: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface LocationSample {
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  /** GPS speed in m/s (null when the fix has none) */
+  speed: number | null;
+}
+
+export interface CrashDetectionConfig {
+  /** Acceleration magnitude that counts as an impact (g) */
+  impactThresholdG: number;
+  /** The rider must have been at least this fast shortly before the impact (km/h) */
+  minSpeedBeforeImpactKmh: number;
+  /** How far back to look for the pre-impact speed (ms) */
+  preImpactWindowMs: number;
+  /** Speed at or below which the rider counts as stopped (km/h) */
+  stoppedSpeedKmh: number;
+  /** Time after the impact within which the speed must collapse (ms) */
+  speedCollapseWindowMs: number;
+  /** How long the rider must stay still after stopping (ms) */
+  stillnessDurationMs: number;
+  /** Max GPS drift from the stop position while still (meters) */
+  maxDriftMeters: number;
+  /** Deviation from 1g above which an accelerometer sample counts as movement (g) */
+  movementThresholdG: number;
+  /** Max share of movement samples during the stillness window */
+  maxMovementRatio: number;
+}
+
+export const DEFAULT_CRASH_DETECTION_CONFIG: CrashDetectionConfig = {
+  impactThresholdG: 4,
+  minSpeedBeforeImpactKmh: 10,
+  preImpactWindowMs: 5000,
+  stoppedSpeedKmh: 3,
+  speedCollapseWindowMs: 8000,
+  stillnessDurationMs: 10000,
+  maxDriftMeters: 15,
+  movementThresholdG: 0.3,
+  maxMovementRatio: 0.1,
+};
+
+export type CrashDetectorPhase = "monitoring" | "impact" | "still" | "detected";
+
+export interface CrashEvent {
+  /** Time of the impact spike */
+  impactTime: number;
+  /** Largest acceleration seen during the impact (g) */
+  peakG: number;
+  /** Fastest speed shortly before the impact (km/h) */
+  speedBeforeImpactKmh: number;
+  /** Where the rider stopped */
+  latitude: number;
+  longitude: number;
+  /** Time the stillness window completed */
+  detectedAt: number;
+}
+
+function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function accelerationMagnitude(sample: AccelerationSample): number {
+  return Math.sqrt(sample.x * sample.x + sample.y * sample.y + sample.z * sample.z);
+}
+
+/**
+ * Crash detector state machine: monitoring → impact → still → detected.
+ * Each add* call returns the crash event once, when detection completes.
+ */
+export class CrashDetector {
+  private readonly config: CrashDetectionConfig;
+  private phase: CrashDetectorPhase = "monitoring";
+  private recentSpeeds: { timestamp: number; speedKmh: number }[] = [];
+  private lastLocation: LocationSample | null = null;
+
+  private impactTime = 0;
+  private peakG = 0;
+  private speedBeforeImpactKmh = 0;
+
+  private stillSince = 0;
+  private stillLocation: LocationSample | null = null;
+  private stillSamples = 0;
+  private movementSamples = 0;
+
+  constructor(config: Partial<CrashDetectionConfig> = {}) {
+    this.config = { ...DEFAULT_CRASH_DETECTION_CONFIG, ...config };
+  }
+
+  getPhase(): CrashDetectorPhase {
+    return this.phase;
+  }
+
+  /**
+   * Back to monitoring (after the alarm was cancelled or the ride stopped)
+   */
+  reset(): void {
+    this.phase = "monitoring";
+    this.impactTime = 0;
+    this.peakG = 0;
+    this.speedBeforeImpactKmh = 0;
+    this.stillSince = 0;
+    this.stillLocation = null;
+    this.stillSamples = 0;
+    this.movementSamples = 0;
+  }
+
+  addAcceleration(sample: AccelerationSample): CrashEvent | null {
+    const magnitude = accelerationMagnitude(sample);
+
+    switch (this.phase) {
+      case "monitoring":
+        if (magnitude >= this.config.impactThresholdG) {
+          const speedBefore = this.maxSpeedSince(sample.timestamp - this.config.preImpactWindowMs);
+          if (speedBefore >= this.config.minSpeedBeforeImpactKmh) {
+            this.phase = "impact";
+            this.impactTime = sample.timestamp;
+            this.peakG = magnitude;
+            this.speedBeforeImpactKmh = speedBefore;
+          }
+        }
+        return null;
+
+      case "impact":
+        this.peakG = Math.max(this.peakG, magnitude);
+        this.expireImpact(sample.timestamp);
+        return null;
+
+      case "still":
+        this.stillSamples++;
+        if (Math.abs(magnitude - 1) > this.config.movementThresholdG) {
+          this.movementSamples++;
+        }
+        return this.checkStillness(sample.timestamp);
+
+      default:
+        return null;
+    }
+  }
+
+  addLocation(sample: LocationSample): CrashEvent | null {
+    const speedKmh = this.speedKmh(sample);
+    this.lastLocation = sample;
+    this.recentSpeeds.push({ timestamp: sample.timestamp, speedKmh });
+    const horizon = sample.timestamp - this.config.preImpactWindowMs;
+    while (this.recentSpeeds.length > 0 && this.recentSpeeds[0].timestamp < horizon) {
+      this.recentSpeeds.shift();
+    }
+
+    switch (this.phase) {
+      case "impact":
+        if (speedKmh <= this.config.stoppedSpeedKmh) {
+          this.phase = "still";
+          this.stillSince = sample.timestamp;
+          this.stillLocation = sample;
+          this.stillSamples = 0;
+          this.movementSamples = 0;
+        } else {
+          this.expireImpact(sample.timestamp);
+        }
+        return null;
+
+      case "still": {
+        const drift = haversineDistance(
+          this.stillLocation!.latitude,
+          this.stillLocation!.longitude,
+          sample.latitude,
+          sample.longitude
+        );
+        if (speedKmh > this.config.stoppedSpeedKmh || drift > this.config.maxDriftMeters) {
+          // Rider is moving again
+          this.reset();
+          return null;
+        }
+        return this.checkStillness(sample.timestamp);
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private speedKmh(sample: LocationSample): number {
+    if (sample.speed !== null && sample.speed >= 0) {
+      return sample.speed * 3.6;
+    }
+    // No GPS speed: estimate from the previous fix
+    const previous = this.lastLocation;
+    if (!previous || sample.timestamp <= previous.timestamp) return 0;
+    const distance = haversineDistance(previous.latitude, previous.longitude, sample.latitude, sample.longitude);
+    return (distance / ((sample.timestamp - previous.timestamp) / 1000)) * 3.6;
+  }
+
+  private maxSpeedSince(since: number): number {
+    let max = 0;
+    for (const entry of this.recentSpeeds) {
+      if (entry.timestamp >= since) max = Math.max(max, entry.speedKmh);
+    }
+    return max;
+  }
+
+  private expireImpact(now: number): void {
+    if (now - this.impactTime > this.config.speedCollapseWindowMs) {
+      // The rider kept going: a pothole or a dropped phone, not a crash
+      this.reset();
+    }
+  }
+
+  private checkStillness(now: number): CrashEvent | null {
+    if (now - this.stillSince < this.config.stillnessDurationMs) return null;
+
+    const movementRatio = this.stillSamples > 0 ? this.movementSamples / this.stillSamples : 0;
+    if (movementRatio > this.config.maxMovementRatio) {
+      // Rider got up / is handling the phone
+      this.reset();
+      return null;
+    }
+
+    this.phase = "detected";
+    const location = this.stillLocation ?? this.lastLocation!;
+    return {
+      impactTime: this.impactTime,
+      peakG: Math.round(this.peakG * 10) / 10,
+      speedBeforeImpactKmh: Math.round(this.speedBeforeImpactKmh * 10) / 10,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      detectedAt: now,
+    };
+  }
+}
@@ -0,0 +1,612 @@
+/**
+ * FIT (Flexible and Interoperable Data Transfer) 바이너리 읽기/쓰기
+ *
+ * Garmin/Strava 호환을 위해 file_id → record → lap → session → activity 순서의
+ * 표준 Activity 파일을 생성합니다. 배터리 전압/SOC는 FIT 2.0 developer field로 기록합니다.
+ * 디코더는 다른 앱이 만든 파일(압축 타임스탬프 헤더, big-endian 정의, enhanced 필드)도 처리합니다.
+ */
+
+import type { TrackData, TrackPoint } from "./gps-utils";
+import type { ImportedRide } from "./ride-formats";
+
+/** Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z) */
+const FIT_EPOCH_OFFSET = 631065600;
+const SEMICIRCLES_PER_DEGREE = 2 ** 31 / 180;
+const FIT_PROTOCOL_VERSION = 0x20; // 2.0 (developer fields)
+const FIT_PROFILE_VERSION = 2132;
+
+// Global message numbers
+const MESG_FILE_ID = 0;
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+const MESG_ACTIVITY = 34;
+const MESG_FIELD_DESCRIPTION = 206;
+const MESG_DEVELOPER_DATA_ID = 207;
+
+const FIELD_TIMESTAMP = 253;
+
+// Base type identifiers
+const BASE_ENUM = 0x00;
+const BASE_UINT8 = 0x02;
+const BASE_UINT16 = 0x84;
+const BASE_SINT32 = 0x85;
+const BASE_UINT32 = 0x86;
+const BASE_STRING = 0x07;
+const BASE_FLOAT32 = 0x88;
+const BASE_BYTE = 0x0d;
+
+interface BaseTypeInfo {
+  size: number;
+  invalid?: number;
+  read: (view: DataView, offset: number, littleEndian: boolean) => number;
+}
+
+// Indexed by base type number (lower 5 bits of the base type id)
+const BASE_TYPES: Record<number, BaseTypeInfo> = {
+  0: { size: 1, invalid: 0xff, read: (v, o) => v.getUint8(o) }, // enum
+  1: { size: 1, invalid: 0x7f, read: (v, o) => v.getInt8(o) }, // sint8
+  2: { size: 1, invalid: 0xff, read: (v, o) => v.getUint8(o) }, // uint8
+  3: { size: 2, invalid: 0x7fff, read: (v, o, le) => v.getInt16(o, le) }, // sint16
+  4: { size: 2, invalid: 0xffff, read: (v, o, le) => v.getUint16(o, le) }, // uint16
+  5: { size: 4, invalid: 0x7fffffff, read: (v, o, le) => v.getInt32(o, le) }, // sint32
+  6: { size: 4, invalid: 0xffffffff, read: (v, o, le) => v.getUint32(o, le) }, // uint32
+  8: { size: 4, read: (v, o, le) => v.getFloat32(o, le) }, // float32 (invalid = NaN)
+  9: { size: 8, read: (v, o, le) => v.getFloat64(o, le) }, // float64
+  10: { size: 1, invalid: 0, read: (v, o) => v.getUint8(o) }, // uint8z
+  11: { size: 2, invalid: 0, read: (v, o, le) => v.getUint16(o, le) }, // uint16z
+  12: { size: 4, invalid: 0, read: (v, o, le) => v.getUint32(o, le) }, // uint32z
+  13: { size: 1, invalid: 0xff, read: (v, o) => v.getUint8(o) }, // byte
+};
+
+// Developer fields written by SCOOP (developer data index 0)
+const SCOOP_APPLICATION_ID = [
+  0x53, 0x43, 0x4f, 0x4f, 0x50, 0x2d, 0x52, 0x49, 0x44, 0x45, 0x2d, 0x42, 0x41, 0x54, 0x54, 0x31,
+];
+const DEV_FIELDS = {
+  voltage: { number: 0, units: "V" },
+  soc: { number: 1, units: "%" },
+  voltage_start: { number: 2, units: "V" },
+  voltage_end: { number: 3, units: "V" },
+  soc_start: { number: 4, units: "%" },
+  soc_end: { number: 5, units: "%" },
+  energy_wh: { number: 6, units: "Wh" },
+} as const;
+type DevFieldName = keyof typeof DEV_FIELDS;
+
+// ==================== CRC ====================
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+/**
+ * FIT CRC-16 계산
+ */
+export function fitCrc(bytes: Uint8Array, start: number = 0, end: number = bytes.length): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+// ==================== Encoder ====================
+
+type FieldDef = [fieldNumber: number, size: number, baseType: number];
+type DevFieldDef = [fieldNumber: number, size: number, developerIndex: number];
+type FieldValue = number | string | number[] | null | undefined;
+
+class FitWriter {
+  private chunks: Uint8Array[] = [];
+  private definitions = new Map<number, { fields: FieldDef[]; devFields: DevFieldDef[] }>();
+
+  define(localType: number, globalMessage: number, fields: FieldDef[], devFields: DevFieldDef[] = []) {
+    const hasDev = devFields.length > 0;
+    const size = 6 + fields.length * 3 + (hasDev ? 1 + devFields.length * 3 : 0);
+    const bytes = new Uint8Array(size);
+    const view = new DataView(bytes.buffer);
+    bytes[0] = 0x40 | (hasDev ? 0x20 : 0) | localType;
+    bytes[1] = 0; // reserved
+    bytes[2] = 0; // little endian
+    view.setUint16(3, globalMessage, true);
+    bytes[5] = fields.length;
+    let offset = 6;
+    for (const [num, fieldSize, baseType] of fields) {
+      bytes[offset++] = num;
+      bytes[offset++] = fieldSize;
+      bytes[offset++] = baseType;
+    }
+    if (hasDev) {
+      bytes[offset++] = devFields.length;
+      for (const [num, fieldSize, devIndex] of devFields) {
+        bytes[offset++] = num;
+        bytes[offset++] = fieldSize;
+        bytes[offset++] = devIndex;
+      }
+    }
+    this.definitions.set(localType, { fields, devFields });
+    this.chunks.push(bytes);
+  }
+
+  write(localType: number, values: FieldValue[], devValues: FieldValue[] = []) {
+    const definition = this.definitions.get(localType);
+    if (!definition) throw new Error(`FIT local message ${localType} is not defined`);
+
+    const size =
+      1 +
+      definition.fields.reduce((sum, [, fieldSize]) => sum + fieldSize, 0) +
+      definition.devFields.reduce((sum, [, fieldSize]) => sum + fieldSize, 0);
+    const bytes = new Uint8Array(size);
+    const view = new DataView(bytes.buffer);
+    bytes[0] = localType;
+
+    let offset = 1;
+    definition.fields.forEach(([, fieldSize, baseType], index) => {
+      writeValue(view, offset, fieldSize, baseType, values[index]);
+      offset += fieldSize;
+    });
+    definition.devFields.forEach(([, fieldSize], index) => {
+      // SCOOP developer field는 모두 float32
+      writeValue(view, offset, fieldSize, BASE_FLOAT32, devValues[index]);
+      offset += fieldSize;
+    });
+    this.chunks.push(bytes);
+  }
+
+  toBytes(): Uint8Array {
+    const dataSize = this.chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const bytes = new Uint8Array(14 + dataSize + 2);
+    const view = new DataView(bytes.buffer);
+
+    bytes[0] = 14;
+    bytes[1] = FIT_PROTOCOL_VERSION;
+    view.setUint16(2, FIT_PROFILE_VERSION, true);
+    view.setUint32(4, dataSize, true);
+    bytes.set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+    view.setUint16(12, fitCrc(bytes, 0, 12), true);
+
+    let offset = 14;
+    for (const chunk of this.chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    view.setUint16(offset, fitCrc(bytes, 0, offset), true);
+    return bytes;
+  }
+}
+
+function writeValue(view: DataView, offset: number, size: number, baseType: number, value: FieldValue) {
+  if (baseType === BASE_STRING) {
+    const text = typeof value === "string" ? value : "";
+    for (let i = 0; i < size - 1 && i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i) & 0x7f);
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.slice(0, size).forEach((byte, i) => view.setUint8(offset + i, byte));
+    return;
+  }
+
+  const info = BASE_TYPES[baseType & 0x1f];
+  const valid = typeof value === "number" && isFinite(value);
+  switch (baseType) {
+    case BASE_FLOAT32:
+      if (valid) view.setFloat32(offset, value as number, true);
+      else view.setUint32(offset, 0xffffffff, true);
+      break;
+    case BASE_SINT32:
+      view.setInt32(offset, valid ? Math.round(value as number) : info.invalid!, true);
+      break;
+    case BASE_UINT32:
+      view.setUint32(offset, valid ? clamp(Math.round(value as number), 0, 0xfffffffe) : info.invalid!, true);
+      break;
+    case BASE_UINT16:
+      view.setUint16(offset, valid ? clamp(Math.round(value as number), 0, 0xfffe) : info.invalid!, true);
+      break;
+    default:
+      view.setUint8(offset, valid ? clamp(Math.round(value as number), 0, 0xfe) : info.invalid!);
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function toFitTime(date: Date | number): number {
+  const ms = typeof date === "number" ? date : date.getTime();
+  return Math.round(ms / 1000) - FIT_EPOCH_OFFSET;
+}
+
+function toSemicircles(degrees: number): number {
+  return Math.round(degrees * SEMICIRCLES_PER_DEGREE);
+}
+
+// Haversine 거리 계산 (meters)
+function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000;
+  const toRad = (deg: number) => deg * (Math.PI / 180);
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * TrackData → FIT Activity 파일
+ * 포인트 필터링은 호출 측(encodeTrackFile)에서 수행합니다.
+ */
+export function encodeFitActivity(track: TrackData): Uint8Array {
+  const writer = new FitWriter();
+  const points = track.points;
+  const startTime = toFitTime(track.startTime);
+  const endTime = toFitTime(track.endTime);
+  const battery = track.battery ?? {};
+  const hasPointBattery = points.some((p) => p.voltage != null || p.soc != null);
+  const hasBatterySummary = Object.values(battery).some((value) => typeof value === "number");
+
+  // file_id
+  writer.define(0, MESG_FILE_ID, [
+    [0, 1, BASE_ENUM], // type
+    [1, 2, BASE_UINT16], // manufacturer
+    [2, 2, BASE_UINT16], // product
+    [4, 4, BASE_UINT32], // time_created
+  ]);
+  writer.write(0, [4 /* activity */, 255 /* development */, 0, startTime]);
+
+  // developer_data_id + field_description (배터리 데이터가 있을 때만)
+  if (hasPointBattery || hasBatterySummary) {
+    writer.define(1, MESG_DEVELOPER_DATA_ID, [
+      [1, 16, BASE_BYTE], // application_id
+      [3, 1, BASE_UINT8], // developer_data_index
+    ]);
+    writer.write(1, [SCOOP_APPLICATION_ID, 0]);
+
+    writer.define(2, MESG_FIELD_DESCRIPTION, [
+      [0, 1, BASE_UINT8], // developer_data_index
+      [1, 1, BASE_UINT8], // field_definition_number
+      [2, 1, BASE_UINT8], // fit_base_type_id
+      [3, 16, BASE_STRING], // field_name
+      [8, 8, BASE_STRING], // units
+    ]);
+    for (const [name, field] of Object.entries(DEV_FIELDS)) {
+      writer.write(2, [0, field.number, BASE_FLOAT32, name, field.units]);
+    }
+  }
+
+  // record
+  writer.define(
+    3,
+    MESG_RECORD,
+    [
+      [FIELD_TIMESTAMP, 4, BASE_UINT32],
+      [0, 4, BASE_SINT32], // position_lat
+      [1, 4, BASE_SINT32], // position_long
+      [2, 2, BASE_UINT16], // altitude (scale 5, offset 500)
+      [5, 4, BASE_UINT32], // distance (scale 100)
+      [6, 2, BASE_UINT16], // speed (scale 1000)
+    ],
+    hasPointBattery
+      ? [
+          [DEV_FIELDS.voltage.number, 4, 0],
+          [DEV_FIELDS.soc.number, 4, 0],
+        ]
+      : []
+  );
+
+  let distance = 0;
+  let maxSpeed = 0;
+  points.forEach((point, index) => {
+    if (index > 0) {
+      const prev = points[index - 1];
+      distance += haversineDistance(prev.latitude, prev.longitude, point.latitude, point.longitude);
+    }
+    if (point.speed !== null && point.speed > maxSpeed) maxSpeed = point.speed;
+    writer.write(
+      3,
+      [
+        toFitTime(point.timestamp),
+        toSemicircles(point.latitude),
+        toSemicircles(point.longitude),
+        point.altitude !== null ? (point.altitude + 500) * 5 : null,
+        distance * 100,
+        point.speed !== null ? point.speed * 1000 : null,
+      ],
+      [point.voltage, point.soc]
+    );
+  });
+
+  const elapsed = Math.max(0, endTime - startTime);
+  const timerTime = track.duration ?? elapsed;
+  const avgSpeed = timerTime > 0 ? distance / timerTime : 0;
+
+  // lap
+  writer.define(4, MESG_LAP, [
+    [FIELD_TIMESTAMP, 4, BASE_UINT32],
+    [0, 1, BASE_ENUM], // event
+    [1, 1, BASE_ENUM], // event_type
+    [2, 4, BASE_UINT32], // start_time
+    [7, 4, BASE_UINT32], // total_elapsed_time (scale 1000)
+    [8, 4, BASE_UINT32], // total_timer_time (scale 1000)
+    [9, 4, BASE_UINT32], // total_distance (scale 100)
+    [13, 2, BASE_UINT16], // avg_speed (scale 1000)
+    [14, 2, BASE_UINT16], // max_speed (scale 1000)
+  ]);
+  writer.write(4, [endTime, 9 /* lap */, 1 /* stop */, startTime, elapsed * 1000, timerTime * 1000, distance * 100, avgSpeed * 1000, maxSpeed * 1000]);
+
+  // session (+ 배터리 요약 developer field)
+  const sessionDevFields: DevFieldName[] = hasBatterySummary
+    ? ["voltage_start", "voltage_end", "soc_start", "soc_end", "energy_wh"]
+    : [];
+  writer.define(
+    5,
+    MESG_SESSION,
+    [
+      [FIELD_TIMESTAMP, 4, BASE_UINT32],
+      [0, 1, BASE_ENUM], // event
+      [1, 1, BASE_ENUM], // event_type
+      [2, 4, BASE_UINT32], // start_time
+      [5, 1, BASE_ENUM], // sport
+      [6, 1, BASE_ENUM], // sub_sport
+      [7, 4, BASE_UINT32], // total_elapsed_time
+      [8, 4, BASE_UINT32], // total_timer_time
+      [9, 4, BASE_UINT32], // total_distance
+      [14, 2, BASE_UINT16], // avg_speed
+      [15, 2, BASE_UINT16], // max_speed
+      [25, 2, BASE_UINT16], // first_lap_index
+      [26, 2, BASE_UINT16], // num_laps
+    ],
+    sessionDevFields.map((name) => [DEV_FIELDS[name].number, 4, 0] as DevFieldDef)
+  );
+  writer.write(
+    5,
+    [endTime, 8 /* session */, 1 /* stop */, startTime, 2 /* cycling */, 0, elapsed * 1000, timerTime * 1000, distance * 100, avgSpeed * 1000, maxSpeed * 1000, 0, 1],
+    [battery.voltageStart, battery.voltageEnd, battery.socStart, battery.socEnd, battery.energyWh]
+  );
+
+  // activity
+  writer.define(6, MESG_ACTIVITY, [
+    [FIELD_TIMESTAMP, 4, BASE_UINT32],
+    [0, 4, BASE_UINT32], // total_timer_time
+    [1, 2, BASE_UINT16], // num_sessions
+    [2, 1, BASE_ENUM], // type (manual)
+    [3, 1, BASE_ENUM], // event (activity)
+    [4, 1, BASE_ENUM], // event_type (stop)
+  ]);
+  writer.write(6, [endTime, timerTime * 1000, 1, 0, 26, 1]);
+
+  return writer.toBytes();
+}
+
+// ==================== Decoder ====================
+
+interface DecodedDefinition {
+  globalMessage: number;
+  littleEndian: boolean;
+  fields: { number: number; size: number; baseType: number }[];
+  devFields: { number: number; size: number; developerIndex: number }[];
+}
+
+type DecodedMessage = {
+  fields: Map<number, number | string>;
+  devFields: Map<string, number>;
+};
+
+function readField(
+  view: DataView,
+  bytes: Uint8Array,
+  offset: number,
+  size: number,
+  baseType: number,
+  littleEndian: boolean
+): number | string | undefined {
+  const typeNumber = baseType & 0x1f;
+  if (typeNumber === 7) {
+    let text = "";
+    for (let i = 0; i < size && bytes[offset + i] !== 0; i++) {
+      text += String.fromCharCode(bytes[offset + i]);
+    }
+    return text;
+  }
+  const info = BASE_TYPES[typeNumber];
+  if (!info || size < info.size) return undefined;
+  // 배열 필드는 첫 번째 원소만 사용
+  const value = info.read(view, offset, littleEndian);
+  if (info.invalid !== undefined ? value === info.invalid : isNaN(value)) return undefined;
+  return value;
+}
+
+/**
+ * FIT 파일 → 주행 기록
+ * record 메시지에 위치가 하나도 없거나 파일 구조가 잘못되면 null을 반환합니다.
+ */
+export function decodeFitActivity(bytes: Uint8Array): ImportedRide | null {
+  try {
+    if (bytes.length < 14) return null;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const headerSize = bytes[0];
+    const dataSize = view.getUint32(4, true);
+    const signature = String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11]);
+    if (signature !== ".FIT" || headerSize + dataSize > bytes.length) return null;
+
+    // 파일 CRC 검증 (0이면 생략된 것으로 간주)
+    if (headerSize + dataSize + 2 <= bytes.length) {
+      const storedCrc = view.getUint16(headerSize + dataSize, true);
+      if (storedCrc !== 0 && storedCrc !== fitCrc(bytes, 0, headerSize + dataSize)) {
+        console.error("FIT parsing error: CRC mismatch");
+        return null;
+      }
+    }
+
+    const definitions = new Map<number, DecodedDefinition>();
+    const devFieldNames = new Map<string, { name: string; baseType: number }>();
+    const records: DecodedMessage[] = [];
+    const sessions: DecodedMessage[] = [];
+    let lastTimestamp = 0;
+
+    const collect = (globalMessage: number, message: DecodedMessage) => {
+      if (globalMessage === MESG_RECORD) {
+        records.push(message);
+      } else if (globalMessage === MESG_SESSION) {
+        sessions.push(message);
+      } else if (globalMessage === MESG_FIELD_DESCRIPTION) {
+        const developerIndex = message.fields.get(0);
+        const fieldNumber = message.fields.get(1);
+        const baseType = message.fields.get(2);
+        const name = message.fields.get(3);
+        if (typeof developerIndex === "number" && typeof fieldNumber === "number" && typeof name === "string") {
+          devFieldNames.set(`${developerIndex}:${fieldNumber}`, {
+            name,
+            baseType: typeof baseType === "number" ? baseType : BASE_FLOAT32,
+          });
+        }
+      }
+    };
+
+    let offset = headerSize;
+    const end = headerSize + dataSize;
+    while (offset < end) {
+      const header = bytes[offset++];
+
+      if (header & 0x80) {
+        // Compressed timestamp header
+        const localType = (header >> 5) & 0x03;
+        const timeOffset = header & 0x1f;
+        let timestamp = lastTimestamp - (lastTimestamp & 0x1f) + timeOffset;
+        if (timeOffset < (lastTimestamp & 0x1f)) timestamp += 0x20;
+        lastTimestamp = timestamp;
+        const definition = definitions.get(localType);
+        if (!definition) return null;
+        const message = readMessage(view, bytes, offset, definition, devFieldNames);
+        offset = message.nextOffset;
+        message.message.fields.set(FIELD_TIMESTAMP, timestamp);
+        collect(definition.globalMessage, message.message);
+        continue;
+      }
+
+      const localType = header & 0x0f;
+      if (header & 0x40) {
+        // Definition message
+        const littleEndian = bytes[offset + 1] === 0;
+        const globalMessage = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = bytes[offset + 4];
+        offset += 5;
+        const fields: DecodedDefinition["fields"] = [];
+        for (let i = 0; i < fieldCount; i++) {
+          fields.push({ number: bytes[offset], size: bytes[offset + 1], baseType: bytes[offset + 2] });
+          offset += 3;
+        }
+        const devFields: DecodedDefinition["devFields"] = [];
+        if (header & 0x20) {
+          const devCount = bytes[offset++];
+          for (let i = 0; i < devCount; i++) {
+            devFields.push({ number: bytes[offset], size: bytes[offset + 1], developerIndex: bytes[offset + 2] });
+            offset += 3;
+          }
+        }
+        definitions.set(localType, { globalMessage, littleEndian, fields, devFields });
+        continue;
+      }
+
+      const definition = definitions.get(localType);
+      if (!definition) return null;
+      const message = readMessage(view, bytes, offset, definition, devFieldNames);
+      offset = message.nextOffset;
+      const timestamp = message.message.fields.get(FIELD_TIMESTAMP);
+      if (typeof timestamp === "number") lastTimestamp = timestamp;
+      collect(definition.globalMessage, message.message);
+    }
+
+    const points: TrackPoint[] = [];
+    for (const record of records) {
+      const lat = record.fields.get(0);
+      const lon = record.fields.get(1);
+      const timestamp = record.fields.get(FIELD_TIMESTAMP);
+      if (typeof lat !== "number" || typeof lon !== "number") continue;
+
+      const altitudeRaw = record.fields.get(78) ?? record.fields.get(2); // enhanced_altitude > altitude
+      const speedRaw = record.fields.get(73) ?? record.fields.get(6); // enhanced_speed > speed
+      points.push({
+        latitude: lat / SEMICIRCLES_PER_DEGREE,
+        longitude: lon / SEMICIRCLES_PER_DEGREE,
+        altitude: typeof altitudeRaw === "number" ? altitudeRaw / 5 - 500 : null,
+        timestamp: typeof timestamp === "number" ? (timestamp + FIT_EPOCH_OFFSET) * 1000 : 0,
+        speed: typeof speedRaw === "number" ? speedRaw / 1000 : null,
+        accuracy: null,
+        voltage: record.devFields.get("voltage") ?? null,
+        soc: record.devFields.get("soc") ?? null,
+      });
+    }
+
+    if (points.length === 0) return null;
+
+    const session = sessions[0];
+    const sessionNumber = (field: number): number | undefined => {
+      const value = session?.fields.get(field);
+      return typeof value === "number" ? value : undefined;
+    };
+    const sessionStart = sessionNumber(2);
+    const timerTime = sessionNumber(8);
+    const totalDistance = sessionNumber(9);
+    const timed = points.filter((p) => p.timestamp > 0);
+
+    return {
+      format: "fit",
+      startTime:
+        sessionStart !== undefined
+          ? new Date((sessionStart + FIT_EPOCH_OFFSET) * 1000)
+          : timed.length > 0 ? new Date(timed[0].timestamp) : null,
+      endTime: timed.length > 0 ? new Date(timed[timed.length - 1].timestamp) : null,
+      points,
+      duration: timerTime !== undefined ? timerTime / 1000 : undefined,
+      distance: totalDistance !== undefined ? totalDistance / 100 : undefined,
+      battery: {
+        voltageStart: session?.devFields.get("voltage_start"),
+        voltageEnd: session?.devFields.get("voltage_end"),
+        socStart: session?.devFields.get("soc_start"),
+        socEnd: session?.devFields.get("soc_end"),
+        energyWh: session?.devFields.get("energy_wh"),
+      },
+    };
+  } catch (error) {
+    console.error("FIT parsing error:", error);
+    return null;
+  }
+}
+
+function readMessage(
+  view: DataView,
+  bytes: Uint8Array,
+  offset: number,
+  definition: DecodedDefinition,
+  devFieldNames: Map<string, { name: string; baseType: number }>
+): { message: DecodedMessage; nextOffset: number } {
+  const fields = new Map<number, number | string>();
+  for (const field of definition.fields) {
+    const value = readField(view, bytes, offset, field.size, field.baseType, definition.littleEndian);
+    if (value !== undefined) fields.set(field.number, value);
+    offset += field.size;
+  }
+
+  const devFields = new Map<string, number>();
+  for (const field of definition.devFields) {
+    const description = devFieldNames.get(`${field.developerIndex}:${field.number}`);
+    if (description) {
+      const value = readField(view, bytes, offset, field.size, description.baseType, definition.littleEndian);
+      if (typeof value === "number") devFields.set(description.name, value);
+    }
+    offset += field.size;
+  }
+
+  return { message: { fields, devFields }, nextOffset: offset };
+}
@@ -2,6 +2,10 @@ import * as Location from "expo-location";
 import * as FileSystem from "expo-file-system/legacy";
 import * as Sharing from "expo-sharing";
 import { Platform } from "react-native";
+import { SCOOP_XML_NAMESPACE, escapeXml } from "./xml-parser";
+import { generateTcxContent } from "./tcx-format";
+import { encodeFitActivity } from "./fit-format";
+import { RIDE_FILE_TYPES, bytesToBase64 } from "./ride-formats";
 
 // GPS filtering constants
 export const GPS_CONSTANTS = {
@@ -25,13 +29,36 @@ export interface GpsPoint {
   accuracy: number | null;
 }
 
+/**
+ * GPS point with optional battery telemetry, written as extension fields on export
+ */
+export interface TrackPoint extends GpsPoint {
+  voltage?: number | null; // V
+  soc?: number | null; // %
+}
+
+/**
+ * Ride-level battery values written to GPX metadata / TCX / FIT session extensions
+ */
+export interface TrackBatteryData {
+  voltageStart?: number;
+  voltageEnd?: number;
+  socStart?: number;
+  socEnd?: number;
+  energyWh?: number;
+}
+
 export interface TrackData {
-  points: GpsPoint[];
+  points: TrackPoint[];
   startTime: Date;
   endTime: Date;
   name: string;
+  duration?: number; // seconds (moving time, used for TCX/FIT lap timer)
+  battery?: TrackBatteryData;
 }
 
+export type TrackFileFormat = "gpx" | "tcx" | "fit";
+
 /**
  * Request location permissions
  */
@@ -259,10 +286,10 @@ export function validateGpsPoint(
  * Filter GPS points to remove noise and invalid data
  * Returns only valid points for recording
  */
-export function filterGpsPoints(points: GpsPoint[]): GpsPoint[] {
+export function filterGpsPoints<T extends GpsPoint>(points: T[]): T[] {
   if (points.length === 0) return [];
 
-  const filtered: GpsPoint[] = [];
+  const filtered: T[] = [];
   let lastValidPoint: GpsPoint | null = null;
   let lastBearing: number | null = null;
 
@@ -294,23 +321,42 @@ export function generateGpxContent(track: TrackData): string {
     .map((point) => {
       const ele = point.altitude !== null ? `      <ele>${point.altitude.toFixed(1)}</ele>\n` : "";
       const time = `      <time>${new Date(point.timestamp).toISOString()}</time>\n`;
-      const speed =
-        point.speed !== null
-          ? `      <extensions>\n        <speed>${point.speed.toFixed(2)}</speed>\n      </extensions>\n`
+      const extensionFields: string[] = [];
+      if (point.speed !== null) {
+        extensionFields.push(`        <speed>${point.speed.toFixed(2)}</speed>\n`);
+      }
+      if (point.voltage != null) {
+        extensionFields.push(`        <scoop:voltage>${point.voltage.toFixed(2)}</scoop:voltage>\n`);
+      }
+      if (point.soc != null) {
+        extensionFields.push(`        <scoop:soc>${point.soc.toFixed(1)}</scoop:soc>\n`);
+      }
+      const extensions =
+        extensionFields.length > 0
+          ? `      <extensions>\n${extensionFields.join("")}      </extensions>\n`
           : "";
-      return `    <trkpt lat="${point.latitude.toFixed(7)}" lon="${point.longitude.toFixed(7)}">\n${ele}${time}${speed}    </trkpt>`;
+      return `    <trkpt lat="${point.latitude.toFixed(7)}" lon="${point.longitude.toFixed(7)}">\n${ele}${time}${extensions}    </trkpt>`;
     })
     .join("\n");
 
+  const batteryFields = Object.entries(track.battery ?? {})
+    .filter(([, value]) => typeof value === "number" && isFinite(value))
+    .map(([key, value]) => `      <scoop:${key}>${(value as number).toFixed(2)}</scoop:${key}>\n`)
+    .join("");
+  const metadataExtensions = batteryFields
+    ? `    <extensions>\n${batteryFields}    </extensions>\n`
+    : "";
+
   return `<?xml version="1.0" encoding="UTF-8"?>
 <gpx version="1.1" creator="SCOOP Riding App"
   xmlns="http://www.topografix.com/GPX/1/1"
+  xmlns:scoop="${SCOOP_XML_NAMESPACE}"
   xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
   xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">
   <metadata>
     <name>${escapeXml(track.name)}</name>
     <time>${formatDate(track.startTime)}</time>
-  </metadata>
+${metadataExtensions}  </metadata>
   <trk>
     <name>${escapeXml(track.name)}</name>
     <trkseg>
@@ -320,13 +366,19 @@ ${trackPoints}
 </gpx>`;
 }
 
-function escapeXml(str: string): string {
-  return str
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&apos;");
+/**
+ * Encode track data in the given file format
+ * GPX/TCX are returned as XML text, FIT as binary
+ */
+export function encodeTrackFile(track: TrackData, format: TrackFileFormat): string | Uint8Array {
+  switch (format) {
+    case "gpx":
+      return generateGpxContent(track);
+    case "tcx":
+      return generateTcxContent({ ...track, points: filterGpsPoints(track.points) });
+    case "fit":
+      return encodeFitActivity({ ...track, points: filterGpsPoints(track.points) });
+  }
 }
 
 /**
@@ -337,35 +389,56 @@ export async function saveAndShareGpx(
   track: TrackData,
   filename: string
 ): Promise<boolean> {
+  return saveAndShareTrack(track, filename, "gpx");
+}
+
+/**
+ * Save a GPX/TCX/FIT file and share/download it
+ */
+export async function saveAndShareTrack(
+  track: TrackData,
+  filename: string,
+  format: TrackFileFormat
+): Promise<boolean> {
+  const fileType = RIDE_FILE_TYPES[format];
+  const tag = `[${format.toUpperCase()}]`;
+
   try {
-    const gpxContent = generateGpxContent(track);
+    const content = encodeTrackFile(track, format);
     
     // 파일명 살균화 (특수문자 제거)
     const safeFilename = filename.replace(/[^a-zA-Z0-9_\-]/g, '_');
-    const fileUri = `${FileSystem.documentDirectory || ''}${safeFilename}.gpx`;
+    const fileUri = `${FileSystem.documentDirectory || ''}${safeFilename}.${format}`;
 
-    console.log("[GPX] Saving GPX file to:", fileUri);
-    console.log("[GPX] Track points count:", track.points.length);
+    console.log(tag, "Saving file to:", fileUri);
+    console.log(tag, "Track points count:", track.points.length);
 
-    await FileSystem.writeAsStringAsync(fileUri, gpxContent, {
-      encoding: 'utf8',
-    });
+    // FIT은 바이너리이므로 base64로 기록
+    if (typeof content === "string") {
+      await FileSystem.writeAsStringAsync(fileUri, content, {
+        encoding: 'utf8',
+      });
+    } else {
+      await FileSystem.writeAsStringAsync(fileUri, bytesToBase64(content), {
+        encoding: 'base64',
+      });
+    }
 
     // 파일이 제대로 저장되었는지 확인
     const fileInfo = await FileSystem.getInfoAsync(fileUri);
     if (!fileInfo.exists) {
-      console.error("[GPX] File was not saved properly");
+      console.error(tag, "File was not saved properly");
       return false;
     }
-    console.log("[GPX] File saved, size:", (fileInfo as any).size || 'unknown');
+    console.log(tag, "File saved, size:", (fileInfo as any).size || 'unknown');
 
     if (Platform.OS === "web") {
       // For web, create a download link
-      const blob = new Blob([gpxContent], { type: "application/gpx+xml" });
+      const blob = new Blob([content as BlobPart], { type: fileType.mimeType });
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `${safeFilename}.gpx`;
+      a.download = `${safeFilename}.${format}`;
       a.style.display = 'none';
       document.body.appendChild(a);
       a.click();
@@ -379,23 +452,23 @@ export async function saveAndShareGpx(
 
     // For native platforms, use sharing
     const isAvailable = await Sharing.isAvailableAsync();
-    console.log("[GPX] Sharing available:", isAvailable);
+    console.log(tag, "Sharing available:", isAvailable);
     
     if (isAvailable) {
       await Sharing.shareAsync(fileUri, {
-        mimeType: "application/gpx+xml",
-        dialogTitle: "GPX 파일 내보내기",
-        UTI: "com.topografix.gpx",
+        mimeType: fileType.mimeType,
+        dialogTitle: `${format.toUpperCase()} 파일 내보내기`,
+        UTI: fileType.uti,
       });
-      console.log("[GPX] Share dialog opened successfully");
+      console.log(tag, "Share dialog opened successfully");
       return true;
     } else {
-      console.error("[GPX] Sharing is not available on this device");
+      console.error(tag, "Sharing is not available on this device");
       // 공유가 불가능한 경우에도 파일은 저장되었으므로 부분 성공
       return true;
     }
   } catch (error) {
-    console.error("[GPX] Error saving GPX file:", error);
+    console.error(tag, "Error saving file:", error);
     return false;
   }
 }
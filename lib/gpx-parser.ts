@@ -1,10 +1,47 @@
 // GPX 파일 파싱 유틸리티
 
+import {
+  XmlElement,
+  parseXml,
+  getChild,
+  getChildren,
+  getChildText,
+  getChildNumber,
+  flattenLeafValues,
+} from "./xml-parser";
+
 export interface GpxPoint {
   latitude: number;
   longitude: number;
   elevation?: number;
   time?: string;
+  /** Speed in m/s (GPX 1.0 <speed> or <extensions>) */
+  speed?: number;
+  /** Leaf values under <extensions>, keyed by local name (e.g. speed, soc, voltage) */
+  extensions?: Record<string, string>;
+}
+
+export interface GpxWaypoint extends GpxPoint {
+  name?: string;
+  description?: string;
+  symbol?: string;
+}
+
+export interface GpxTrack {
+  name?: string;
+  /** Each <trkseg> is kept separate so gaps are not counted as distance */
+  segments: GpxPoint[][];
+}
+
+export interface GpxDocument {
+  name?: string;
+  description?: string;
+  time?: string;
+  tracks: GpxTrack[];
+  routes: { name?: string; points: GpxPoint[] }[];
+  waypoints: GpxWaypoint[];
+  /** Leaf values under <metadata><extensions> */
+  extensions?: Record<string, string>;
 }
 
 export interface GpxRoute {
@@ -13,86 +50,94 @@ export interface GpxRoute {
   points: GpxPoint[];
   totalDistance: number; // meters
   estimatedDuration: number; // seconds
+  waypoints?: GpxWaypoint[];
 }
 
-// GPX XML 파싱
-export function parseGpxContent(gpxContent: string): GpxRoute | null {
+function parseFloatOrUndefined(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function parsePointElement(element: XmlElement): GpxPoint | null {
+  const lat = parseFloat(element.attributes.lat);
+  const lon = parseFloat(element.attributes.lon);
+  if (isNaN(lat) || isNaN(lon)) return null;
+
+  const point: GpxPoint = { latitude: lat, longitude: lon };
+
+  const elevation = getChildNumber(element, "ele");
+  if (elevation !== undefined) point.elevation = elevation;
+
+  const time = getChildText(element, "time");
+  if (time !== undefined) point.time = time;
+
+  const extensionsElement = getChild(element, "extensions");
+  if (extensionsElement) {
+    const extensions = flattenLeafValues(extensionsElement);
+    if (Object.keys(extensions).length > 0) point.extensions = extensions;
+  }
+
+  const speed = getChildNumber(element, "speed") ?? parseFloatOrUndefined(point.extensions?.speed);
+  if (speed !== undefined) point.speed = speed;
+
+  return point;
+}
+
+function parsePointList(elements: XmlElement[]): GpxPoint[] {
+  const points: GpxPoint[] = [];
+  for (const element of elements) {
+    const point = parsePointElement(element);
+    if (point) points.push(point);
+  }
+  return points;
+}
+
+/**
+ * GPX XML을 트랙/세그먼트/경로/웨이포인트 구조로 파싱
+ * 유효한 <gpx> 문서가 아니면 null을 반환합니다.
+ */
+export function parseGpxDocument(gpxContent: string): GpxDocument | null {
   try {
-    // Simple XML parsing without external library
-    const nameMatch = gpxContent.match(/<name>([^<]*)<\/name>/);
-    const descMatch = gpxContent.match(/<desc>([^<]*)<\/desc>/);
-    
-    // Extract track points or route points
-    const points: GpxPoint[] = [];
-    
-    // Match <trkpt> or <rtept> tags
-    const pointRegex = /<(?:trkpt|rtept|wpt)[^>]*lat="([^"]*)"[^>]*lon="([^"]*)"[^>]*>([\s\S]*?)<\/(?:trkpt|rtept|wpt)>/g;
-    const pointRegex2 = /<(?:trkpt|rtept|wpt)[^>]*lon="([^"]*)"[^>]*lat="([^"]*)"[^>]*>([\s\S]*?)<\/(?:trkpt|rtept|wpt)>/g;
-    
-    let match;
-    while ((match = pointRegex.exec(gpxContent)) !== null) {
-      const lat = parseFloat(match[1]);
-      const lon = parseFloat(match[2]);
-      const content = match[3];
-      
-      const eleMatch = content.match(/<ele>([^<]*)<\/ele>/);
-      const timeMatch = content.match(/<time>([^<]*)<\/time>/);
-      
-      if (!isNaN(lat) && !isNaN(lon)) {
-        points.push({
-          latitude: lat,
-          longitude: lon,
-          elevation: eleMatch ? parseFloat(eleMatch[1]) : undefined,
-          time: timeMatch ? timeMatch[1] : undefined,
-        });
-      }
-    }
-    
-    // Try alternate format if no points found
-    if (points.length === 0) {
-      while ((match = pointRegex2.exec(gpxContent)) !== null) {
-        const lon = parseFloat(match[1]);
-        const lat = parseFloat(match[2]);
-        const content = match[3];
-        
-        const eleMatch = content.match(/<ele>([^<]*)<\/ele>/);
-        const timeMatch = content.match(/<time>([^<]*)<\/time>/);
-        
-        if (!isNaN(lat) && !isNaN(lon)) {
-          points.push({
-            latitude: lat,
-            longitude: lon,
-            elevation: eleMatch ? parseFloat(eleMatch[1]) : undefined,
-            time: timeMatch ? timeMatch[1] : undefined,
-          });
-        }
-      }
-    }
-    
-    if (points.length === 0) {
-      return null;
-    }
-    
-    // Calculate total distance
-    let totalDistance = 0;
-    for (let i = 1; i < points.length; i++) {
-      totalDistance += calculateHaversineDistance(
-        points[i - 1].latitude,
-        points[i - 1].longitude,
-        points[i].latitude,
-        points[i].longitude
-      );
+    const root = parseXml(gpxContent);
+    if (root.localName !== "gpx") return null;
+
+    // GPX 1.1은 <metadata> 안에, GPX 1.0은 루트에 name/desc/time이 위치
+    const metadata = getChild(root, "metadata") ?? root;
+    const metadataExtensions = getChild(metadata, "extensions");
+
+    const tracks: GpxTrack[] = getChildren(root, "trk").map((trk) => ({
+      name: getChildText(trk, "name"),
+      segments: getChildren(trk, "trkseg")
+        .map((seg) => parsePointList(getChildren(seg, "trkpt")))
+        .filter((segment) => segment.length > 0),
+    }));
+
+    const routes = getChildren(root, "rte").map((rte) => ({
+      name: getChildText(rte, "name"),
+      points: parsePointList(getChildren(rte, "rtept")),
+    }));
+
+    const waypoints: GpxWaypoint[] = [];
+    for (const wpt of getChildren(root, "wpt")) {
+      const point = parsePointElement(wpt);
+      if (!point) continue;
+      waypoints.push({
+        ...point,
+        name: getChildText(wpt, "name"),
+        description: getChildText(wpt, "desc"),
+        symbol: getChildText(wpt, "sym"),
+      });
     }
-    
-    // Estimate duration based on average speed of 15 km/h
-    const estimatedDuration = (totalDistance / 1000) / 15 * 3600;
-    
+
     return {
-      name: nameMatch ? nameMatch[1] : "가져온 경로",
-      description: descMatch ? descMatch[1] : undefined,
-      points,
-      totalDistance,
-      estimatedDuration: Math.round(estimatedDuration),
+      name: getChildText(metadata, "name") ?? tracks[0]?.name ?? routes[0]?.name,
+      description: getChildText(metadata, "desc"),
+      time: getChildText(metadata, "time"),
+      tracks,
+      routes,
+      waypoints,
+      extensions: metadataExtensions ? flattenLeafValues(metadataExtensions) : undefined,
     };
   } catch (error) {
     console.error("GPX parsing error:", error);
@@ -100,6 +145,62 @@ export function parseGpxContent(gpxContent: string): GpxRoute | null {
   }
 }
 
+/**
+ * 문서의 경로 포인트를 세그먼트 단위로 반환
+ * 트랙 → 경로(rte) → 웨이포인트 순으로 우선 사용합니다.
+ */
+export function getGpxSegments(doc: GpxDocument): GpxPoint[][] {
+  const trackSegments = doc.tracks.flatMap((track) => track.segments);
+  if (trackSegments.length > 0) return trackSegments;
+
+  const routePoints = doc.routes.map((route) => route.points).filter((points) => points.length > 0);
+  if (routePoints.length > 0) return routePoints;
+
+  return doc.waypoints.length > 0 ? [doc.waypoints] : [];
+}
+
+// 세그먼트 사이의 공백(신호 끊김 등)은 거리에 포함하지 않음
+function calculateSegmentsDistance(segments: GpxPoint[][]): number {
+  let totalDistance = 0;
+  for (const segment of segments) {
+    for (let i = 1; i < segment.length; i++) {
+      totalDistance += calculateHaversineDistance(
+        segment[i - 1].latitude,
+        segment[i - 1].longitude,
+        segment[i].latitude,
+        segment[i].longitude
+      );
+    }
+  }
+  return totalDistance;
+}
+
+// GPX XML 파싱
+export function parseGpxContent(gpxContent: string): GpxRoute | null {
+  const doc = parseGpxDocument(gpxContent);
+  if (!doc) return null;
+
+  const segments = getGpxSegments(doc);
+  const points = segments.flat();
+  if (points.length === 0) {
+    return null;
+  }
+
+  const totalDistance = calculateSegmentsDistance(segments);
+
+  // Estimate duration based on average speed of 15 km/h
+  const estimatedDuration = (totalDistance / 1000) / 15 * 3600;
+
+  return {
+    name: doc.name ?? "가져온 경로",
+    description: doc.description,
+    points,
+    totalDistance,
+    estimatedDuration: Math.round(estimatedDuration),
+    waypoints: doc.waypoints.length > 0 ? doc.waypoints : undefined,
+  };
+}
+
 // Haversine 거리 계산 (meters)
 function calculateHaversineDistance(
   lat1: number,
@@ -0,0 +1,77 @@
+/**
+ * Group ride replay helpers
+ *
+ * The server keeps each member's ride of a group session as a thinned track; the replay moves
+ * every member along their track on one shared clock.
+ */
+
+export interface ReplayPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+  speed: number | null; // km/h
+}
+
+export interface ReplayPosition {
+  latitude: number;
+  longitude: number;
+  speed: number | null; // km/h
+  // Before the member's first point they wait at the start, after the last one they stay at the end
+  state: "waiting" | "riding" | "finished";
+}
+
+// Colors for members without a profile color
+const REPLAY_COLORS = ["#3B82F6", "#EF4444", "#22C55E", "#F59E0B", "#8B5CF6", "#EC4899", "#14B8A6", "#F97316"];
+
+export function replayColor(index: number, profileColor?: string | null): string {
+  return profileColor || REPLAY_COLORS[index % REPLAY_COLORS.length];
+}
+
+/**
+ * Where a member was at the given time, interpolated between track points
+ */
+export function positionAt(track: ReplayPoint[], time: number): ReplayPosition | null {
+  if (track.length === 0) return null;
+
+  const first = track[0];
+  const last = track[track.length - 1];
+  if (time <= first.timestamp) {
+    return { latitude: first.latitude, longitude: first.longitude, speed: null, state: "waiting" };
+  }
+  if (time >= last.timestamp) {
+    return { latitude: last.latitude, longitude: last.longitude, speed: null, state: "finished" };
+  }
+
+  // Last point at or before the time
+  let low = 0;
+  let high = track.length - 1;
+  while (low < high - 1) {
+    const mid = (low + high) >> 1;
+    if (track[mid].timestamp <= time) low = mid;
+    else high = mid;
+  }
+
+  const a = track[low];
+  const b = track[high];
+  const t = b.timestamp > a.timestamp ? (time - a.timestamp) / (b.timestamp - a.timestamp) : 0;
+  return {
+    latitude: a.latitude + (b.latitude - a.latitude) * t,
+    longitude: a.longitude + (b.longitude - a.longitude) * t,
+    speed: a.speed !== null && b.speed !== null ? a.speed + (b.speed - a.speed) * t : (a.speed ?? b.speed),
+    state: "riding",
+  };
+}
+
+/**
+ * First and last moment of all members' tracks (null without any points)
+ */
+export function replayTimeRange(tracks: ReplayPoint[][]): { start: number; end: number } | null {
+  let start = Infinity;
+  let end = -Infinity;
+  tracks.forEach((track) => {
+    if (track.length === 0) return;
+    start = Math.min(start, track[0].timestamp);
+    end = Math.max(end, track[track.length - 1].timestamp);
+  });
+  return Number.isFinite(start) ? { start, end } : null;
+}
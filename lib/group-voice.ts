@@ -0,0 +1,127 @@
+/**
+ * Push-to-talk voice clips in group riding
+ *
+ * Clips from other members are played one after another as they arrive, and voice guidance is
+ * held while a clip plays. Members who mute group audio read the transcript in the chat instead.
+ */
+import { Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createAudioPlayer, setAudioModeAsync, type AudioPlayer } from "expo-audio";
+
+import { setVoiceClipPlaying } from "./voice-guidance";
+
+const GROUP_VOICE_MUTED_KEY = "@scoop_group_voice_muted";
+
+// Longest clip a member can record (the server rejects longer ones)
+export const MAX_VOICE_CLIP_MS = 30_000;
+
+// Extra time before a clip that never reports finishing is given up
+const PLAYBACK_GRACE_MS = 3000;
+
+export interface VoiceClip {
+  id: number;
+  audioUrl: string;
+  duration: number; // ms
+}
+
+export async function isGroupVoiceMuted(): Promise<boolean> {
+  try {
+    return (await AsyncStorage.getItem(GROUP_VOICE_MUTED_KEY)) === "true";
+  } catch (error) {
+    console.error("Failed to load group voice setting:", error);
+    return false;
+  }
+}
+
+export async function setGroupVoiceMuted(muted: boolean): Promise<void> {
+  try {
+    await AsyncStorage.setItem(GROUP_VOICE_MUTED_KEY, muted ? "true" : "false");
+  } catch (error) {
+    console.error("Failed to save group voice setting:", error);
+  }
+}
+
+// Lets clips play with the ringer switch off and over other apps' audio (e.g. music)
+export async function prepareVoiceClipAudio(recording: boolean): Promise<void> {
+  if (Platform.OS === "web") return;
+  try {
+    await setAudioModeAsync({
+      playsInSilentMode: true,
+      allowsRecording: recording,
+      interruptionMode: "duckOthers",
+      interruptionModeAndroid: "duckOthers",
+    });
+  } catch (error) {
+    console.error("Failed to set audio mode:", error);
+  }
+}
+
+/**
+ * Plays incoming clips in order of arrival, one at a time
+ */
+export class VoiceClipQueue {
+  private readonly queue: VoiceClip[] = [];
+  private player: AudioPlayer | null = null;
+  private playing = false;
+  private finishTimeout: ReturnType<typeof setTimeout> | null = null;
+  // Bumped by stop(), so a clip still starting when the queue was stopped doesn't play after all
+  private generation = 0;
+
+  enqueue(clip: VoiceClip): void {
+    this.queue.push(clip);
+    if (!this.playing) void this.playNext();
+  }
+
+  // Stops the clip being played and drops the ones waiting
+  stop(): void {
+    this.generation++;
+    this.queue.length = 0;
+    this.finish();
+  }
+
+  private async playNext(): Promise<void> {
+    const clip = this.queue.shift();
+    if (!clip) return;
+    this.playing = true;
+    const generation = this.generation;
+
+    try {
+      await setVoiceClipPlaying(true);
+      await prepareVoiceClipAudio(false);
+      // Stopped while the audio session was being set up; a clip enqueued since then plays on its own
+      if (generation !== this.generation) return;
+      // Not expected within a generation, but never leave a player running unreferenced
+      this.player?.remove();
+      const player = createAudioPlayer(clip.audioUrl);
+      this.player = player;
+      player.addListener("playbackStatusUpdate", (status) => {
+        if (status.didJustFinish && this.player === player) this.finish();
+      });
+      this.finishTimeout = setTimeout(() => {
+        if (this.player === player) this.finish();
+      }, clip.duration + PLAYBACK_GRACE_MS);
+      player.play();
+    } catch (error) {
+      console.error("Failed to play voice clip:", error);
+      // A stopped clip's failure mustn't cut off the clip that replaced it
+      if (generation === this.generation) this.finish();
+    }
+  }
+
+  private finish(): void {
+    if (this.finishTimeout) {
+      clearTimeout(this.finishTimeout);
+      this.finishTimeout = null;
+    }
+    const player = this.player;
+    this.player = null;
+    player?.remove();
+
+    if (this.queue.length > 0) {
+      void this.playNext();
+    } else if (this.playing) {
+      this.playing = false;
+      void setVoiceClipPlaying(false);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const NAVIGATION_SETTINGS_KEY = '@scoop_navigation_settings';
+
+export interface NavigationSettings {
+  maxSpeedKmh: number; // Routing speed cap (PM 법정 최고속도 25km/h)
+}
+
+/** Selectable routing speed caps (km/h) */
+export const MAX_SPEED_OPTIONS = [15, 20, 25];
+
+const DEFAULT_SETTINGS: NavigationSettings = {
+  maxSpeedKmh: 25,
+};
+
+export async function getNavigationSettings(): Promise<NavigationSettings> {
+  try {
+    const stored = await AsyncStorage.getItem(NAVIGATION_SETTINGS_KEY);
+    if (stored) {
+      return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.error('Failed to load navigation settings:', error);
+  }
+  return DEFAULT_SETTINGS;
+}
+
+export async function saveNavigationSettings(settings: NavigationSettings): Promise<void> {
+  try {
+    await AsyncStorage.setItem(NAVIGATION_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save navigation settings:', error);
+  }
+}
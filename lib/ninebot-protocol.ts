@@ -0,0 +1,241 @@
+/**
+ * Xiaomi/Ninebot-style UART protocol spoken by scooter controllers over BLE
+ *
+ * The app reads registers from the ESC (motor controller) and the BMS. Two framings are in use:
+ *
+ *   xiaomi:  55 AA | len | addr | cmd | reg | payload | checksum
+ *            len = payload + 2; addr is the device for requests and device + 3 for replies
+ *   ninebot: 5A A5 | len | src | dst | cmd | reg | payload | checksum
+ *            len = payload
+ *
+ * The checksum is the sum of the bytes from len through the payload, xor 0xFFFF, as a u16 LE.
+ * A read request carries one payload byte, the number of bytes to read; the reply carries them.
+ *
+ * Registers read (little-endian):
+ *   ESC 0xB0, 32 bytes: u16 error code, u16 warning, u16 flags, u16 mode, u16 battery %,
+ *     i16 speed (m/h), u16 average speed (m/h), u32 odometer (m), u16 trip (10 m), u16 uptime (s),
+ *     i16 frame temperature (0.1 °C), then padding
+ *   BMS 0x31, 10 bytes: u16 remaining capacity (mAh), u16 battery %, i16 current (10 mA,
+ *     positive while discharging), u16 voltage (10 mV), u8 + u8 cell temperatures (°C + 20)
+ */
+
+export type NinebotFraming = "xiaomi" | "ninebot";
+
+export const APP_ADDRESS = 0x3e;
+export const ESC_ADDRESS = 0x20;
+export const BMS_ADDRESS = 0x22;
+
+export const COMMAND_READ = 0x01;
+/** Ninebot replies to reads with this command; Xiaomi echoes COMMAND_READ */
+export const COMMAND_READ_REPLY = 0x04;
+
+export const ESC_STATUS_REGISTER = 0xb0;
+export const ESC_STATUS_LENGTH = 32;
+export const BMS_STATUS_REGISTER = 0x31;
+export const BMS_STATUS_LENGTH = 10;
+
+const HEADERS: Record<NinebotFraming, [number, number]> = {
+  xiaomi: [0x55, 0xaa],
+  ninebot: [0x5a, 0xa5],
+};
+
+/** Xiaomi replies come from the device address + 3 */
+const XIAOMI_REPLY_OFFSET = 3;
+
+/** Longest payload accepted; anything longer is treated as line noise */
+const MAX_PAYLOAD_BYTES = 128;
+
+export interface NinebotFrame {
+  source: number;
+  target: number;
+  command: number;
+  register: number;
+  payload: Uint8Array;
+}
+
+/** Controller values decoded from one register (only those the register carries) */
+export interface ControllerReading {
+  voltage?: number; // V
+  current?: number; // A, positive while discharging
+  speed?: number; // km/h
+  odometer?: number; // m
+  batteryPercent?: number;
+  temperature?: number; // °C, controller
+  batteryTemperature?: number; // °C
+  errorCode?: number; // 0 when there's no error
+}
+
+export function checksum(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += bytes[i];
+  return (sum ^ 0xffff) & 0xffff;
+}
+
+/**
+ * Encodes a frame with its header and checksum
+ */
+export function encodeFrame(frame: NinebotFrame, framing: NinebotFraming): Uint8Array {
+  const { payload } = frame;
+  const body =
+    framing === "xiaomi"
+      ? [
+          payload.length + 2,
+          frame.target === APP_ADDRESS ? frame.source + XIAOMI_REPLY_OFFSET : frame.target,
+          frame.command,
+          frame.register,
+        ]
+      : [payload.length, frame.source, frame.target, frame.command, frame.register];
+
+  const bytes = new Uint8Array(2 + body.length + payload.length + 2);
+  bytes.set(HEADERS[framing], 0);
+  bytes.set(body, 2);
+  bytes.set(payload, 2 + body.length);
+  const sum = checksum(bytes, 2, bytes.length - 2);
+  bytes[bytes.length - 2] = sum & 0xff;
+  bytes[bytes.length - 1] = sum >> 8;
+  return bytes;
+}
+
+/**
+ * A request to read `length` bytes from a device register
+ */
+export function readRequest(device: number, register: number, length: number, framing: NinebotFraming): Uint8Array {
+  return encodeFrame(
+    { source: APP_ADDRESS, target: device, command: COMMAND_READ, register, payload: Uint8Array.of(length) },
+    framing
+  );
+}
+
+/**
+ * Splits a byte stream into frames; BLE notifications can cut a frame anywhere or carry several,
+ * and bytes that don't make a valid frame are skipped until the next header
+ */
+export class NinebotFrameParser {
+  private buffer = new Uint8Array(0);
+
+  constructor(private readonly framing: NinebotFraming) {}
+
+  push(chunk: Uint8Array): NinebotFrame[] {
+    const joined = new Uint8Array(this.buffer.length + chunk.length);
+    joined.set(this.buffer, 0);
+    joined.set(chunk, this.buffer.length);
+
+    const frames: NinebotFrame[] = [];
+    const [h0, h1] = HEADERS[this.framing];
+    const headerBytes = this.framing === "xiaomi" ? 4 : 5;
+    let offset = 0;
+
+    while (offset < joined.length) {
+      if (joined[offset] !== h0 || (offset + 1 < joined.length && joined[offset + 1] !== h1)) {
+        offset++;
+        continue;
+      }
+      if (offset + 2 + headerBytes > joined.length) break;
+
+      const len = joined[offset + 2];
+      const payloadLength = this.framing === "xiaomi" ? len - 2 : len;
+      if (payloadLength < 0 || payloadLength > MAX_PAYLOAD_BYTES) {
+        offset++;
+        continue;
+      }
+      const end = offset + 2 + headerBytes + payloadLength + 2;
+      if (end > joined.length) break;
+
+      const expected = joined[end - 2] | (joined[end - 1] << 8);
+      if (checksum(joined, offset + 2, end - 2) !== expected) {
+        offset++;
+        continue;
+      }
+
+      frames.push(this.readFrame(joined.subarray(offset + 2, end - 2)));
+      offset = end;
+    }
+
+    this.buffer = joined.slice(offset);
+    return frames;
+  }
+
+  private readFrame(body: Uint8Array): NinebotFrame {
+    if (this.framing === "xiaomi") {
+      const address = body[1];
+      const isReply = address === ESC_ADDRESS + XIAOMI_REPLY_OFFSET || address === BMS_ADDRESS + XIAOMI_REPLY_OFFSET;
+      return {
+        source: isReply ? address - XIAOMI_REPLY_OFFSET : APP_ADDRESS,
+        target: isReply ? APP_ADDRESS : address,
+        command: body[2],
+        register: body[3],
+        payload: body.slice(4),
+      };
+    }
+    return { source: body[1], target: body[2], command: body[3], register: body[4], payload: body.slice(5) };
+  }
+}
+
+export interface EscStatus {
+  errorCode: number;
+  batteryPercent: number;
+  speed: number; // km/h
+  odometer: number; // m
+  temperature: number; // °C
+}
+
+export interface BmsStatus {
+  remainingCapacity: number; // mAh
+  batteryPercent: number;
+  current: number; // A
+  voltage: number; // V
+  temperatures: [number, number]; // °C
+}
+
+export function encodeEscStatus(status: EscStatus): Uint8Array {
+  const bytes = new Uint8Array(ESC_STATUS_LENGTH);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, status.errorCode, true);
+  view.setUint16(8, Math.round(status.batteryPercent), true);
+  view.setInt16(10, Math.round(status.speed * 1000), true);
+  view.setUint32(14, Math.round(status.odometer), true);
+  view.setInt16(22, Math.round(status.temperature * 10), true);
+  return bytes;
+}
+
+export function encodeBmsStatus(status: BmsStatus): Uint8Array {
+  const bytes = new Uint8Array(BMS_STATUS_LENGTH);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, Math.round(status.remainingCapacity), true);
+  view.setUint16(2, Math.round(status.batteryPercent), true);
+  view.setInt16(4, Math.round(status.current * 100), true);
+  view.setUint16(6, Math.round(status.voltage * 100), true);
+  bytes[8] = Math.round(status.temperatures[0]) + 20;
+  bytes[9] = Math.round(status.temperatures[1]) + 20;
+  return bytes;
+}
+
+/**
+ * Controller values in a reply frame; null for frames that aren't a known register read
+ */
+export function decodeReading(frame: NinebotFrame): ControllerReading | null {
+  if (frame.target !== APP_ADDRESS) return null;
+  if (frame.command !== COMMAND_READ && frame.command !== COMMAND_READ_REPLY) return null;
+  const view = new DataView(frame.payload.buffer, frame.payload.byteOffset, frame.payload.byteLength);
+
+  if (frame.source === ESC_ADDRESS && frame.register === ESC_STATUS_REGISTER && frame.payload.length >= 24) {
+    return {
+      errorCode: view.getUint16(0, true),
+      batteryPercent: view.getUint16(8, true),
+      speed: Math.abs(view.getInt16(10, true)) / 1000,
+      odometer: view.getUint32(14, true),
+      temperature: view.getInt16(22, true) / 10,
+    };
+  }
+
+  if (frame.source === BMS_ADDRESS && frame.register === BMS_STATUS_REGISTER && frame.payload.length >= BMS_STATUS_LENGTH) {
+    return {
+      batteryPercent: view.getUint16(2, true),
+      current: view.getInt16(4, true) / 100,
+      voltage: view.getUint16(6, true) / 100,
+      batteryTemperature: Math.max(frame.payload[8], frame.payload[9]) - 20,
+    };
+  }
+
+  return null;
+}
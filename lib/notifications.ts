@@ -380,3 +380,26 @@ export async function notifyWeatherWarning(
     value,
   });
 }
+
+// Reminder before a scheduled group ride the rider is going to
+export async function scheduleGroupRideReminder(
+  rideId: number,
+  title: string,
+  meetingPointName: string,
+  startsAt: number,
+  minutesBefore: number = 30
+): Promise<string> {
+  const notif = await getNotificationsModule();
+  if (!notif) return "";
+
+  const remindAt = startsAt - minutesBefore * 60_000;
+  if (remindAt <= Date.now()) return "";
+
+  return scheduleLocalNotification(
+    `그룹 라이딩 ${minutesBefore}분 전 🛴`,
+    `"${title}" 라이딩이 곧 ${meetingPointName}에서 출발합니다.`,
+    { type: "scheduled_ride", rideId },
+    { type: notif.SchedulableTriggerInputTypes.DATE, date: new Date(remindAt) },
+    `/scheduled-ride-detail?rideId=${rideId}`
+  );
+}
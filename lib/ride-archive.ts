@@ -0,0 +1,69 @@
+/**
+ * Ride archive (zip) reader
+ *
+ * 다른 앱에서 내보낸 GPX/TCX/FIT 묶음(zip)을 풀어 주행 기록 단위로 파싱합니다.
+ * 통계 계산과 서버 업로드는 import-rides 화면에서 수행합니다.
+ */
+
+import { unzipSync } from "fflate";
+import type { TrackFileFormat } from "./gps-utils";
+import { ImportedRide, detectRideFileFormat, parseRideFile } from "./ride-formats";
+
+/** 한 번에 풀 수 있는 최대 파일 수 (메모리 보호) */
+export const MAX_ARCHIVE_FILES = 500;
+
+export interface ArchiveRideFile {
+  fileName: string;
+  format: TrackFileFormat;
+  data: Uint8Array;
+}
+
+export type ParsedArchiveFile =
+  | { fileName: string; ok: true; ride: ImportedRide }
+  | { fileName: string; ok: false; error: string };
+
+// macOS Finder가 만드는 메타데이터 파일(__MACOSX/, ._foo.gpx) 제외
+function isHiddenEntry(path: string): boolean {
+  const baseName = path.split("/").pop() ?? "";
+  return path.startsWith("__MACOSX/") || baseName.startsWith(".");
+}
+
+/**
+ * zip 바이트에서 GPX/TCX/FIT 파일만 추출
+ * zip이 아니거나 손상된 경우 에러를 던집니다.
+ */
+export function extractRideArchive(zipBytes: Uint8Array): ArchiveRideFile[] {
+  const entries = unzipSync(zipBytes, {
+    filter: (file) => !isHiddenEntry(file.name) && detectRideFileFormat(file.name) !== null,
+  });
+
+  const files: ArchiveRideFile[] = [];
+  for (const [path, data] of Object.entries(entries)) {
+    const format = detectRideFileFormat(path);
+    if (!format) continue;
+    files.push({ fileName: path, format, data });
+    if (files.length >= MAX_ARCHIVE_FILES) break;
+  }
+
+  return files.sort((a, b) => a.fileName.localeCompare(b.fileName));
+}
+
+/**
+ * 추출된 파일을 각각 파싱 (실패한 파일은 사유와 함께 반환)
+ */
+export function parseArchiveFiles(files: ArchiveRideFile[]): ParsedArchiveFile[] {
+  return files.map((file) => {
+    try {
+      const ride = parseRideFile(file.format, file.data);
+      if (!ride) {
+        return { fileName: file.fileName, ok: false, error: "No track points found" };
+      }
+      if (!ride.startTime) {
+        return { fileName: file.fileName, ok: false, error: "Missing timestamps" };
+      }
+      return { fileName: file.fileName, ok: true, ride };
+    } catch (error: any) {
+      return { fileName: file.fileName, ok: false, error: error?.message || "Parse failed" };
+    }
+  });
+}
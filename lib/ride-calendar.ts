@@ -0,0 +1,106 @@
+/**
+ * iCalendar (.ics) export of scheduled group rides
+ *
+ * Follows RFC 5545: CRLF line endings, escaped text values and lines folded at 75 octets
+ * (without splitting multi-byte characters, since titles are usually Korean).
+ */
+
+import { estimateRideDurationMs, PACE_SPEED_RANGES, type PaceLevel } from "../shared/scheduled-ride";
+
+export interface CalendarRide {
+  id: number;
+  title: string;
+  description: string | null;
+  /** Epoch milliseconds */
+  startsAt: number;
+  meetingPointName: string;
+  meetingLatitude: number;
+  meetingLongitude: number;
+  paceLevel: PaceLevel;
+  /** Planned route length (meters) */
+  routeDistance: number | null;
+  status: "scheduled" | "started" | "cancelled";
+}
+
+/** Calendar alarm before the start (minutes) */
+const ALARM_MINUTES_BEFORE = 30;
+
+const PACE_LABELS: Record<PaceLevel, string> = {
+  relaxed: "여유",
+  moderate: "보통",
+  fast: "빠름",
+};
+
+// 20261019T083000Z
+function formatIcsDate(time: number): string {
+  return new Date(time).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Splits a content line into 75-octet pieces, continuation lines starting with a space
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const pieces: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = pieces.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      pieces.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  pieces.push(current);
+  return pieces.join("\r\n ");
+}
+
+/**
+ * Builds a one-event calendar for a ride, with an alarm 30 minutes before the start
+ */
+export function buildRideIcs(ride: CalendarRide, now: number = Date.now()): string {
+  const end = ride.startsAt + estimateRideDurationMs(ride.routeDistance, ride.paceLevel);
+  const { min, max } = PACE_SPEED_RANGES[ride.paceLevel];
+  const details = [`페이스: ${PACE_LABELS[ride.paceLevel]} (${min}~${max}km/h)`];
+  if (ride.routeDistance) details.push(`경로: ${(ride.routeDistance / 1000).toFixed(1)}km`);
+  if (ride.description) details.push("", ride.description);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//SCOOP//Scheduled Group Ride//KO",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:scheduled-ride-${ride.id}@scoop`,
+    `DTSTAMP:${formatIcsDate(now)}`,
+    `DTSTART:${formatIcsDate(ride.startsAt)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `SUMMARY:${escapeIcsText(ride.title)}`,
+    `DESCRIPTION:${escapeIcsText(details.join("\n"))}`,
+    `LOCATION:${escapeIcsText(ride.meetingPointName)}`,
+    `GEO:${ride.meetingLatitude.toFixed(6)};${ride.meetingLongitude.toFixed(6)}`,
+    `STATUS:${ride.status === "cancelled" ? "CANCELLED" : "CONFIRMED"}`,
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `TRIGGER:-PT${ALARM_MINUTES_BEFORE}M`,
+    `DESCRIPTION:${escapeIcsText(ride.title)}`,
+    "END:VALARM",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
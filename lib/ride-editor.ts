@@ -0,0 +1,223 @@
+/**
+ * 주행 기록 편집 (자르기 / 나누기 / 합치기 / 이상 구간 삭제)
+ *
+ * 저장된 RidingRecord의 GPS 트랙을 편집하고 거리, 속도, 주행/휴식 시간을 트랙에서 다시 계산합니다.
+ * Expo 모듈에 의존하지 않으므로 테스트에서 바로 import할 수 있습니다.
+ */
+
+import type { GpsPoint } from "./gps-utils";
+import type { RidingRecord } from "./riding-store";
+
+/** Gaps longer than this between points count as rest, not riding (ms) */
+const MAX_RIDING_GAP_MS = 10000;
+
+/** Points slower than this count as rest (km/h) */
+const MIN_RIDING_SPEED_KMH = 1.0;
+
+/** Segments implying a faster speed are GPS spikes and add no distance (km/h) */
+export const MAX_SEGMENT_SPEED_KMH = 150;
+
+/** Rides further apart than this are not offered for merging (ms) */
+export const MAX_MERGE_GAP_MS = 3 * 60 * 60 * 1000;
+
+/** A track needs at least this many points to be saved after editing */
+export const MIN_EDITED_POINTS = 2;
+
+export interface TrackMeasurement {
+  /** meters */
+  distance: number;
+  ridingMs: number;
+  restMs: number;
+  /** km/h */
+  maxSpeed: number;
+}
+
+export interface TrackRange {
+  startIndex: number;
+  endIndex: number;
+}
+
+function haversineDistance(a: GpsPoint, b: GpsPoint): number {
+  const R = 6371000;
+  const dLat = ((b.latitude - a.latitude) * Math.PI) / 180;
+  const dLon = ((b.longitude - a.longitude) * Math.PI) / 180;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((a.latitude * Math.PI) / 180) * Math.cos((b.latitude * Math.PI) / 180) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * Distance, riding/rest time and max speed over consecutive points.
+ * Gaps and stops count as rest; GPS spikes add neither distance nor max speed.
+ */
+export function measureTrack(points: GpsPoint[]): TrackMeasurement {
+  let distance = 0;
+  let ridingMs = 0;
+  let restMs = 0;
+  let maxSpeed = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const point = points[i];
+    const elapsedMs = point.timestamp - previous.timestamp;
+    if (elapsedMs <= 0) continue;
+
+    const segment = haversineDistance(previous, point);
+    const segmentSpeedKmh = (segment / (elapsedMs / 1000)) * 3.6;
+    const speedKmh = point.speed !== null ? point.speed * 3.6 : segmentSpeedKmh;
+
+    if (segmentSpeedKmh <= MAX_SEGMENT_SPEED_KMH) {
+      distance += segment;
+      if (speedKmh <= MAX_SEGMENT_SPEED_KMH) maxSpeed = Math.max(maxSpeed, speedKmh);
+    }
+
+    if (elapsedMs <= MAX_RIDING_GAP_MS && speedKmh >= MIN_RIDING_SPEED_KMH) {
+      ridingMs += elapsedMs;
+    } else {
+      restMs += elapsedMs;
+    }
+  }
+
+  return { distance, ridingMs, restMs, maxSpeed };
+}
+
+/**
+ * 트랙에서 주행 기록 통계를 다시 계산 (배터리, 날씨, 스쿠터 정보는 유지)
+ */
+export function applyTrack(record: RidingRecord, points: GpsPoint[]): RidingRecord {
+  if (points.length < MIN_EDITED_POINTS) {
+    throw new Error("Edited track needs at least two points");
+  }
+
+  const { distance, ridingMs, restMs, maxSpeed } = measureTrack(points);
+  const duration = Math.round(ridingMs / 1000);
+  const start = new Date(points[0].timestamp);
+  const end = new Date(points[points.length - 1].timestamp);
+
+  return {
+    ...record,
+    date: start.toLocaleDateString("ko-KR"),
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+    duration,
+    restTime: Math.round(restMs / 1000),
+    totalTime: Math.round((end.getTime() - start.getTime()) / 1000),
+    distance,
+    avgSpeed: duration > 0 ? (distance / 1000) / (duration / 3600) : 0,
+    maxSpeed,
+    gpsPoints: points,
+    weatherChanges: record.weatherChanges?.filter((checkpoint) => {
+      const time = new Date(checkpoint.timestamp).getTime();
+      return time >= start.getTime() && time <= end.getTime();
+    }),
+    synced: false,
+  };
+}
+
+/**
+ * 시작/끝 자르기: [startIndex, endIndex] 구간만 남긴다
+ */
+export function trimRide(record: RidingRecord, startIndex: number, endIndex: number): RidingRecord {
+  const points = record.gpsPoints ?? [];
+  return applyTrack(record, points.slice(Math.max(startIndex, 0), endIndex + 1));
+}
+
+/**
+ * index 지점에서 둘로 나누기. 나눈 지점은 양쪽에 모두 포함된다.
+ * 배터리 측정값(출발/도착 전압)은 원래 기록(앞부분)에 남는다.
+ */
+export function splitRide(record: RidingRecord, index: number, newId: string): [RidingRecord, RidingRecord] {
+  const points = record.gpsPoints ?? [];
+  const first = applyTrack(record, points.slice(0, index + 1));
+  const second = applyTrack(
+    {
+      ...record,
+      id: newId,
+      voltageStart: undefined,
+      voltageEnd: undefined,
+      socStart: undefined,
+      socEnd: undefined,
+      energyWh: undefined,
+    },
+    points.slice(index)
+  );
+  return [first, second];
+}
+
+/**
+ * 연속된 주행 합치기: 가장 이른 기록의 id와 정보를 유지하고, 주행 사이 공백은 휴식 시간이 된다
+ */
+export function mergeRides(records: RidingRecord[]): RidingRecord {
+  const sorted = [...records].sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+  );
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const points = sorted.flatMap((r) => r.gpsPoints ?? []);
+
+  const energies = sorted.map((r) => r.energyWh);
+  const merged: RidingRecord = {
+    ...first,
+    voltageEnd: last.voltageEnd,
+    socEnd: last.socEnd,
+    energyWh: energies.every((e) => e !== undefined)
+      ? energies.reduce<number>((sum, e) => sum + (e ?? 0), 0)
+      : undefined,
+    weatherChanges: sorted.flatMap((r) => r.weatherChanges ?? []),
+  };
+  return applyTrack(merged, points);
+}
+
+/**
+ * [startIndex, endIndex] 구간의 포인트 삭제 (GPS 튐 등)
+ */
+export function removeTrackRange(record: RidingRecord, startIndex: number, endIndex: number): RidingRecord {
+  const points = record.gpsPoints ?? [];
+  return applyTrack(record, [...points.slice(0, startIndex), ...points.slice(endIndex + 1)]);
+}
+
+/**
+ * GPS 튐 구간 찾기: 마지막 정상 포인트에서 비현실적인 속도로 떨어진 연속 포인트들
+ */
+export function findGpsOutliers(points: GpsPoint[]): TrackRange[] {
+  const ranges: TrackRange[] = [];
+  if (points.length === 0) return ranges;
+
+  let lastGood = points[0];
+  let open: TrackRange | null = null;
+
+  for (let i = 1; i < points.length; i++) {
+    const point = points[i];
+    const elapsedMs = point.timestamp - lastGood.timestamp;
+    if (elapsedMs <= 0) continue;
+    const speedKmh = (haversineDistance(lastGood, point) / (elapsedMs / 1000)) * 3.6;
+
+    if (speedKmh > MAX_SEGMENT_SPEED_KMH) {
+      if (open) {
+        open.endIndex = i;
+      } else {
+        open = { startIndex: i, endIndex: i };
+      }
+    } else {
+      if (open) {
+        ranges.push(open);
+        open = null;
+      }
+      lastGood = point;
+    }
+  }
+
+  // A run that never comes back is a new position, not a spike
+  return ranges;
+}
+
+/**
+ * 두 기록이 합칠 수 있는 연속 주행인지 (시간이 겹치지 않고 간격이 짧음)
+ */
+export function canMergeRides(a: RidingRecord, b: RidingRecord): boolean {
+  const [earlier, later] =
+    new Date(a.startTime).getTime() <= new Date(b.startTime).getTime() ? [a, b] : [b, a];
+  const gap = new Date(later.startTime).getTime() - new Date(earlier.endTime).getTime();
+  return gap >= 0 && gap <= MAX_MERGE_GAP_MS;
+}
@@ -0,0 +1,239 @@
+/**
+ * Ride file format layer
+ *
+ * GPX / TCX / FIT 파일과 주행 기록(RidingRecord + GpsPoint[]) 사이의 변환을 담당합니다.
+ * 인코딩은 gps-utils의 encodeTrackFile/saveAndShareTrack, 디코딩은 parseRideFile을 사용합니다.
+ * Expo 모듈에 의존하지 않으므로 테스트와 서버에서도 import할 수 있습니다.
+ */
+
+import type { TrackBatteryData, TrackData, TrackFileFormat, TrackPoint } from "./gps-utils";
+import type { RidingRecord } from "./riding-store";
+import { GpxPoint, getGpxSegments, parseGpxDocument } from "./gpx-parser";
+import { parseTcxContent } from "./tcx-format";
+import { decodeFitActivity } from "./fit-format";
+import { trimTrackToPrivacyZones, type PrivacyZoneCircle } from "../shared/privacy-zones";
+
+export const RIDE_FILE_TYPES: Record<TrackFileFormat, { mimeType: string; uti: string }> = {
+  gpx: { mimeType: "application/gpx+xml", uti: "com.topografix.gpx" },
+  tcx: { mimeType: "application/vnd.garmin.tcx+xml", uti: "com.garmin.tcx" },
+  fit: { mimeType: "application/vnd.ant.fit", uti: "com.garmin.fit" },
+};
+
+/**
+ * Ride decoded from a GPX/TCX/FIT file
+ */
+export interface ImportedRide {
+  format: TrackFileFormat;
+  name?: string;
+  startTime: Date | null;
+  endTime: Date | null;
+  points: TrackPoint[];
+  /** Timer (moving) time reported by the file, seconds */
+  duration?: number;
+  /** Distance reported by the file, meters */
+  distance?: number;
+  battery: TrackBatteryData;
+}
+
+/**
+ * 파일 이름(확장자)으로 포맷 판별
+ */
+export function detectRideFileFormat(filename: string): TrackFileFormat | null {
+  const ext = filename.toLowerCase().split(".").pop();
+  if (ext === "gpx" || ext === "tcx" || ext === "fit") return ext;
+  return null;
+}
+
+/**
+ * GPX/TCX/FIT 파일 디코딩
+ * XML 포맷은 문자열 또는 UTF-8 바이트, FIT은 바이트를 받습니다.
+ * 파싱할 수 없거나 트랙 포인트가 없으면 null을 반환합니다.
+ */
+export function parseRideFile(format: TrackFileFormat, data: string | Uint8Array): ImportedRide | null {
+  if (format === "fit") {
+    if (typeof data === "string") return null;
+    return decodeFitActivity(data);
+  }
+
+  const text = typeof data === "string" ? data : decodeUtf8(data);
+  return format === "tcx" ? parseTcxContent(text) : parseGpxRide(text);
+}
+
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function gpxPointToTrackPoint(point: GpxPoint): TrackPoint {
+  const timestamp = point.time ? Date.parse(point.time) : NaN;
+  return {
+    latitude: point.latitude,
+    longitude: point.longitude,
+    altitude: point.elevation ?? null,
+    timestamp: isNaN(timestamp) ? 0 : timestamp,
+    speed: point.speed ?? null,
+    accuracy: null,
+    voltage: parseOptionalNumber(point.extensions?.voltage) ?? null,
+    soc: parseOptionalNumber(point.extensions?.soc) ?? null,
+  };
+}
+
+/**
+ * GPX 문서를 주행 기록으로 변환 (모든 트랙 세그먼트를 시간순으로 연결)
+ */
+export function parseGpxRide(gpxContent: string): ImportedRide | null {
+  const doc = parseGpxDocument(gpxContent);
+  if (!doc) return null;
+
+  const points = getGpxSegments(doc).flat().map(gpxPointToTrackPoint);
+  if (points.length === 0) return null;
+
+  const timed = points.filter((p) => p.timestamp > 0);
+  const metadataTime = doc.time ? new Date(doc.time) : null;
+  const extensions = doc.extensions ?? {};
+
+  return {
+    format: "gpx",
+    name: doc.name,
+    startTime: timed.length > 0
+      ? new Date(timed[0].timestamp)
+      : metadataTime && !isNaN(metadataTime.getTime()) ? metadataTime : null,
+    endTime: timed.length > 0 ? new Date(timed[timed.length - 1].timestamp) : null,
+    points,
+    battery: {
+      voltageStart: parseOptionalNumber(extensions.voltageStart),
+      voltageEnd: parseOptionalNumber(extensions.voltageEnd),
+      socStart: parseOptionalNumber(extensions.socStart),
+      socEnd: parseOptionalNumber(extensions.socEnd),
+      energyWh: parseOptionalNumber(extensions.energyWh),
+    },
+  };
+}
+
+/**
+ * 다른 앱/사람에게 넘길 주행 기록 사본 (개인정보 보호 구역 안의 GPS 포인트 제거)
+ */
+export function withoutPrivacyZones(record: RidingRecord, zones: PrivacyZoneCircle[]): RidingRecord {
+  if (zones.length === 0 || !record.gpsPoints) return record;
+  return { ...record, gpsPoints: trimTrackToPrivacyZones(record.gpsPoints, zones) };
+}
+
+/**
+ * 주행 기록을 내보내기용 TrackData로 변환 (privacyZones 안의 포인트는 제외)
+ */
+export function buildTrackData(record: RidingRecord, name: string, privacyZones: PrivacyZoneCircle[] = []): TrackData {
+  return {
+    points: withoutPrivacyZones(record, privacyZones).gpsPoints ?? [],
+    startTime: new Date(record.startTime || record.date),
+    endTime: new Date(record.endTime || record.date),
+    name,
+    duration: record.duration,
+    battery: {
+      voltageStart: record.voltageStart,
+      voltageEnd: record.voltageEnd,
+      socStart: record.socStart,
+      socEnd: record.socEnd,
+      energyWh: record.energyWh,
+    },
+  };
+}
+
+// ==================== Binary helpers ====================
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_LOOKUP: Record<string, number> = {};
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET[i]] = i;
+}
+
+/**
+ * Uint8Array → base64 (expo-file-system 바이너리 쓰기용)
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    result += BASE64_ALPHABET[b0 >> 2];
+    result += BASE64_ALPHABET[((b0 & 0x03) << 4) | (b1 >> 4)];
+    result += i + 1 < bytes.length ? BASE64_ALPHABET[((b1 & 0x0f) << 2) | (b2 >> 6)] : "=";
+    result += i + 2 < bytes.length ? BASE64_ALPHABET[b2 & 0x3f] : "=";
+  }
+  return result;
+}
+
+/**
+ * base64 → Uint8Array (expo-file-system 바이너리 읽기용)
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, "");
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const c0 = BASE64_LOOKUP[clean[i]] ?? 0;
+    const c1 = BASE64_LOOKUP[clean[i + 1]] ?? 0;
+    const c2 = BASE64_LOOKUP[clean[i + 2]];
+    const c3 = BASE64_LOOKUP[clean[i + 3]];
+    bytes[byteIndex++] = (c0 << 2) | (c1 >> 4);
+    if (c2 !== undefined) bytes[byteIndex++] = ((c1 & 0x0f) << 4) | (c2 >> 2);
+    if (c3 !== undefined) bytes[byteIndex++] = ((c2 & 0x03) << 6) | c3;
+  }
+  return bytes.slice(0, byteIndex);
+}
+
+/**
+ * UTF-8 바이트 → 문자열 (TextDecoder가 없는 Hermes 환경 대응)
+ */
+export function decodeUtf8(bytes: Uint8Array): string {
+  if (typeof TextDecoder !== "undefined") {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+  let result = "";
+  let i = 0;
+  while (i < bytes.length) {
+    const b0 = bytes[i++];
+    let codePoint: number;
+    if (b0 < 0x80) {
+      codePoint = b0;
+    } else if (b0 < 0xe0) {
+      codePoint = ((b0 & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    } else if (b0 < 0xf0) {
+      codePoint = ((b0 & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else {
+      codePoint =
+        ((b0 & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    }
+    result += String.fromCodePoint(codePoint);
+  }
+  return result;
+}
+
+/**
+ * 문자열 → UTF-8 바이트
+ */
+export function encodeUtf8(text: string): Uint8Array {
+  if (typeof TextEncoder !== "undefined") {
+    return new TextEncoder().encode(text);
+  }
+  const bytes: number[] = [];
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(0xe0 | (codePoint >> 12), 0x80 | ((codePoint >> 6) & 0x3f), 0x80 | (codePoint & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
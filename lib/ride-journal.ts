@@ -0,0 +1,384 @@
+/**
+ * 주행 저널 (append-only)
+ *
+ * 주행 중 GPS 포인트를 청크 단위로 기기에 바로 기록하고, 작은 헤더에 세션 정보와 통계를 둔다.
+ * 포그라운드 화면과 백그라운드 위치 태스크가 같은 저널에 기록하므로 앱이 강제종료되어도
+ * 마지막으로 기록된 포인트까지 그대로 복구할 수 있다. 주행이 끝나면 saveRidingRecord로 압축 저장한다.
+ *
+ * 저장 구조:
+ * - 헤더: 세션 정보, 통계, 청크 개수 (작아서 자주 덮어써도 부담 없음)
+ * - 청크: 최대 JOURNAL_CHUNK_SIZE개의 포인트. 마지막(열린) 청크만 다시 쓰고, 가득 찬 청크는 다시 쓰지 않는다.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { GpsPoint } from "./gps-utils";
+import { saveRidingRecord, type RidingRecord } from "./riding-store";
+import { measureTrack } from "./ride-editor";
+
+const JOURNAL_HEADER_KEY = "@ride_journal_header";
+const JOURNAL_CHUNK_PREFIX = "@ride_journal_chunk_";
+const JOURNAL_VERSION = 1;
+
+/** Points per chunk; only the open chunk is rewritten on append */
+export const JOURNAL_CHUNK_SIZE = 100;
+
+/** 통계 체크포인트 간격 */
+const CHECKPOINT_INTERVAL = 10000;
+
+/** 24시간 이상 지난 저널은 무효화 */
+const JOURNAL_MAX_AGE_HOURS = 24;
+
+export interface RideJournalSession {
+  // 스쿠터 정보 (SelectedScooter 타입과 호환)
+  scooter: {
+    id: number;
+    name: string;
+    color?: string;
+    batteryVoltage?: number | null;
+    batteryCapacity?: string | null;
+    batteryType?: string | null;
+    batteryCellCount?: number | null;
+    batteryFullVoltage?: string | null;
+    batteryEmptyVoltage?: string | null;
+  } | null;
+  startVoltage: number | null;
+
+  // 날씨 정보
+  weatherInfo: {
+    temperature: number;
+    humidity: number;
+    windSpeed: number;
+    windDirection: number;
+    precipitationType: number;
+    weatherCondition: string;
+  } | null;
+
+  // 그룹 라이딩 정보
+  groupId: number | null;
+
+  // 네비게이션 정보
+  withNavigation: boolean;
+  destinationName: string | null;
+  destinationLat: number | null;
+  destinationLng: number | null;
+}
+
+export interface RideJournalStats {
+  isRunning: boolean;
+  isPaused: boolean;
+  distance: number;
+  duration: number;
+  restTime: number;
+  maxSpeed: number;
+  /** Timestamp of the last journaled point these stats include */
+  lastPointTimestamp: number | null;
+}
+
+export interface RideJournalHeader {
+  version: number;
+  id: string;
+  startTime: string;
+  updatedAt: string;
+  /** Number of chunks including the open one */
+  chunkCount: number;
+  session: RideJournalSession;
+  stats: RideJournalStats;
+}
+
+export interface RideJournalReplay {
+  header: RideJournalHeader;
+  gpsPoints: GpsPoint[];
+  /** Header stats advanced by the points recorded after the last checkpoint */
+  distance: number;
+  duration: number;
+  restTime: number;
+  maxSpeed: number;
+}
+
+export const EMPTY_JOURNAL_SESSION: RideJournalSession = {
+  scooter: null,
+  startVoltage: null,
+  weatherInfo: null,
+  groupId: null,
+  withNavigation: false,
+  destinationName: null,
+  destinationLat: null,
+  destinationLng: null,
+};
+
+// 쓰기 상태 (포그라운드 화면과 백그라운드 태스크가 공유)
+let header: RideJournalHeader | null = null;
+let openChunk: GpsPoint[] = [];
+let lastTimestamp = -Infinity;
+let loaded = false;
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Serializes journal access so appends from the screen and the background task never
+ * interleave. Failures are logged and resolve to `fallback`; callers don't await appends.
+ */
+function enqueue<T>(task: () => Promise<T>, fallback: T): Promise<T> {
+  const run = writeQueue.then(task).catch((error) => {
+    console.error("[RideJournal] Journal operation failed:", error);
+    return fallback;
+  });
+  writeQueue = run;
+  return run;
+}
+
+function chunkKey(index: number): string {
+  return `${JOURNAL_CHUNK_PREFIX}${index}`;
+}
+
+async function readHeader(): Promise<RideJournalHeader | null> {
+  const json = await AsyncStorage.getItem(JOURNAL_HEADER_KEY);
+  if (!json) return null;
+  const parsed: RideJournalHeader = JSON.parse(json);
+  return parsed.version === JOURNAL_VERSION ? parsed : null;
+}
+
+async function readChunk(index: number): Promise<GpsPoint[]> {
+  const json = await AsyncStorage.getItem(chunkKey(index));
+  return json ? JSON.parse(json) : [];
+}
+
+async function writeHeader(): Promise<void> {
+  if (!header) return;
+  header.updatedAt = new Date().toISOString();
+  await AsyncStorage.setItem(JOURNAL_HEADER_KEY, JSON.stringify(header));
+}
+
+/**
+ * Picks up a journal written by another JS context (e.g. the app was killed and the
+ * background task restarted headless)
+ */
+async function ensureLoaded(): Promise<void> {
+  if (loaded) return;
+  header = await readHeader();
+  openChunk = header ? await readChunk(header.chunkCount - 1) : [];
+  lastTimestamp = openChunk.length > 0 ? openChunk[openChunk.length - 1].timestamp : -Infinity;
+  loaded = true;
+}
+
+async function removeJournal(): Promise<void> {
+  const stored = header ?? (await readHeader().catch(() => null));
+  const chunkCount = stored?.chunkCount ?? 0;
+  const keys = [JOURNAL_HEADER_KEY];
+  for (let i = 0; i < chunkCount; i++) keys.push(chunkKey(i));
+  await AsyncStorage.multiRemove(keys);
+  header = null;
+  openChunk = [];
+  lastTimestamp = -Infinity;
+  loaded = true;
+}
+
+/**
+ * 새 주행 저널 시작 (이전 저널은 삭제)
+ */
+export function startRideJournal(
+  id: string,
+  startTime: Date,
+  session: RideJournalSession = EMPTY_JOURNAL_SESSION
+): Promise<void> {
+  return enqueue(async () => {
+    await ensureLoaded();
+    await removeJournal();
+    header = {
+      version: JOURNAL_VERSION,
+      id,
+      startTime: startTime.toISOString(),
+      updatedAt: new Date().toISOString(),
+      chunkCount: 1,
+      session,
+      stats: {
+        isRunning: true,
+        isPaused: false,
+        distance: 0,
+        duration: 0,
+        restTime: 0,
+        maxSpeed: 0,
+        lastPointTimestamp: null,
+      },
+    };
+    await writeHeader();
+  }, undefined);
+}
+
+/**
+ * GPS 포인트 추가. 이미 기록된 시각 이전의 포인트는 건너뛴다 (포그라운드/백그라운드 중복 방지).
+ * 진행 중인 저널이 없으면 아무것도 하지 않는다.
+ */
+export function appendJournalPoints(points: GpsPoint[]): Promise<void> {
+  return enqueue(async () => {
+    await ensureLoaded();
+    if (!header) return;
+
+    let appended = false;
+    for (const point of points) {
+      if (!(point.timestamp > lastTimestamp)) continue;
+      openChunk.push(point);
+      lastTimestamp = point.timestamp;
+      appended = true;
+
+      if (openChunk.length >= JOURNAL_CHUNK_SIZE) {
+        // 가득 찬 청크를 마지막으로 쓰고 새 청크 시작
+        await AsyncStorage.setItem(chunkKey(header.chunkCount - 1), JSON.stringify(openChunk));
+        header.chunkCount += 1;
+        openChunk = [];
+        await writeHeader();
+        appended = false;
+      }
+    }
+
+    if (appended) {
+      await AsyncStorage.setItem(chunkKey(header.chunkCount - 1), JSON.stringify(openChunk));
+    }
+  }, undefined);
+}
+
+export function appendJournalPoint(point: GpsPoint): Promise<void> {
+  return appendJournalPoints([point]);
+}
+
+/**
+ * 주행 통계 체크포인트 기록
+ */
+export function updateJournalStats(stats: Omit<RideJournalStats, "lastPointTimestamp">): Promise<void> {
+  return enqueue(async () => {
+    await ensureLoaded();
+    if (!header) return;
+    header.stats = {
+      ...stats,
+      lastPointTimestamp: Number.isFinite(lastTimestamp) ? lastTimestamp : null,
+    };
+    await writeHeader();
+  }, undefined);
+}
+
+/**
+ * 세션 정보 갱신 (스쿠터, 출발 전압, 날씨, 그룹, 네비게이션)
+ */
+export function updateJournalSession(session: Partial<RideJournalSession>): Promise<void> {
+  return enqueue(async () => {
+    await ensureLoaded();
+    if (!header) return;
+    header.session = { ...header.session, ...session };
+    await writeHeader();
+  }, undefined);
+}
+
+/**
+ * 주기적으로 통계 체크포인트 기록 (주행 중)
+ */
+export function startJournalCheckpoints(
+  getStats: () => Omit<RideJournalStats, "lastPointTimestamp">
+): ReturnType<typeof setInterval> {
+  return setInterval(() => {
+    updateJournalStats(getStats());
+  }, CHECKPOINT_INTERVAL);
+}
+
+export function stopJournalCheckpoints(intervalId: ReturnType<typeof setInterval> | null): void {
+  if (intervalId) {
+    clearInterval(intervalId);
+  }
+}
+
+/**
+ * Advances checkpoint stats over points recorded after the checkpoint (e.g. by the
+ * background task while the screen was gone)
+ */
+export function advanceJournalStats(
+  stats: RideJournalStats,
+  points: GpsPoint[]
+): { distance: number; duration: number; restTime: number; maxSpeed: number } {
+  let { distance, duration, restTime, maxSpeed } = stats;
+  const since = stats.lastPointTimestamp ?? -Infinity;
+  const startIndex = points.findIndex((p) => p.timestamp > since);
+  if (startIndex === -1) return { distance, duration, restTime, maxSpeed };
+
+  // Measure from the checkpointed point so the first new segment is included
+  const measured = measureTrack(points.slice(Math.max(startIndex - 1, 0)));
+  distance += measured.distance;
+  maxSpeed = Math.max(maxSpeed, measured.maxSpeed);
+  duration += Math.round(measured.ridingMs / 1000);
+  restTime += Math.round(measured.restMs / 1000);
+  return { distance, duration, restTime, maxSpeed };
+}
+
+/**
+ * 저널 재생: 헤더와 모든 청크를 읽어 기록된 포인트 그대로 복원
+ */
+export function replayRideJournal(): Promise<RideJournalReplay | null> {
+  return enqueue<RideJournalReplay | null>(async () => {
+    const stored = await readHeader();
+    if (!stored) return null;
+
+    const hoursSinceUpdate = (Date.now() - new Date(stored.updatedAt).getTime()) / (1000 * 60 * 60);
+    if (hoursSinceUpdate > JOURNAL_MAX_AGE_HOURS) {
+      header = stored;
+      await removeJournal();
+      return null;
+    }
+
+    const gpsPoints: GpsPoint[] = [];
+    for (let i = 0; i < stored.chunkCount; i++) {
+      gpsPoints.push(...(await readChunk(i)));
+    }
+
+    return { header: stored, gpsPoints, ...advanceJournalStats(stored.stats, gpsPoints) };
+  }, null);
+}
+
+/**
+ * 이어서 기록하기 위해 재생한 저널을 쓰기 상태로 다시 연다
+ */
+export function resumeRideJournal(): Promise<void> {
+  return enqueue(async () => {
+    loaded = false;
+    await ensureLoaded();
+  }, undefined);
+}
+
+/**
+ * 복구 가능한 저널 요약 (포인트가 하나 이상 있을 때만)
+ */
+export async function getRecoverableJournalSummary(): Promise<{
+  startTime: string;
+  duration: number;
+  distance: number;
+  pointsCount: number;
+} | null> {
+  const replay = await replayRideJournal();
+  if (!replay || replay.gpsPoints.length === 0) return null;
+
+  return {
+    startTime: replay.header.startTime,
+    duration: replay.duration,
+    distance: replay.distance,
+    pointsCount: replay.gpsPoints.length,
+  };
+}
+
+/**
+ * 주행 저널 삭제
+ */
+export function clearRideJournal(): Promise<void> {
+  return enqueue(async () => {
+    await ensureLoaded();
+    await removeJournal();
+  }, undefined);
+}
+
+/**
+ * 끝난 주행을 저널의 전체 포인트로 saveRidingRecord에 압축 저장하고 저널을 삭제한다.
+ * 저널이 비어 있으면 record.gpsPoints를 그대로 사용한다.
+ */
+export async function compactRideJournal(record: RidingRecord): Promise<void> {
+  const replay = await replayRideJournal();
+  const gpsPoints = replay && replay.gpsPoints.length > 0 ? replay.gpsPoints : record.gpsPoints;
+
+  await saveRidingRecord({ ...record, gpsPoints });
+  await clearRideJournal();
+  console.log(`[RideJournal] Compacted ${gpsPoints?.length ?? 0} points into record ${record.id}`);
+}
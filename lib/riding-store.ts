@@ -186,6 +186,35 @@ async function loadGpsPointsFromChunks(recordId: string): Promise<GpsPoint[] | n
   }
 }
 
+// Save GPS points for a record (downsampled, chunked when large)
+async function saveGpsPoints(recordId: string, points: GpsPoint[]): Promise<void> {
+  // Downsample if too many points - 장거리 주행 시 저장 실패 방지를 위해 2000개로 제한
+  const optimizedPoints = downsampleGpsPoints(points, 2000);
+  
+  // Use chunked storage for large datasets
+  if (optimizedPoints.length > 1000) {
+    await saveGpsPointsInChunks(recordId, optimizedPoints);
+  } else {
+    const gpsKey = await getGpsStorageKey(recordId);
+    console.log(`[RidingStore] Saving ${optimizedPoints.length} GPS points to key: ${gpsKey}`);
+    await AsyncStorage.setItem(gpsKey, JSON.stringify(optimizedPoints));
+  }
+}
+
+// Remove GPS points for a record (legacy single key and chunked format)
+async function removeGpsPoints(recordId: string): Promise<void> {
+  const gpsKey = await getGpsStorageKey(recordId);
+  const keys = [gpsKey, `${gpsKey}_meta`];
+  const metaData = await AsyncStorage.getItem(`${gpsKey}_meta`);
+  if (metaData) {
+    const { chunks } = JSON.parse(metaData);
+    for (let i = 0; i < chunks; i++) {
+      keys.push(`${gpsKey}_chunk_${i}`);
+    }
+  }
+  await AsyncStorage.multiRemove(keys);
+}
+
 // Save riding record locally with retry logic
 export async function saveRidingRecord(record: RidingRecord, retryCount = 0): Promise<void> {
   const MAX_RETRIES = 3;
@@ -196,17 +225,7 @@ export async function saveRidingRecord(record: RidingRecord, retryCount = 0): Pr
     
     // Save GPS points separately to avoid storage limits (user-specific)
     if (record.gpsPoints && record.gpsPoints.length > 0) {
-      // Downsample if too many points - 장거리 주행 시 저장 실패 방지를 위해 2000개로 제한
-      const optimizedPoints = downsampleGpsPoints(record.gpsPoints, 2000);
-      
-      // Use chunked storage for large datasets
-      if (optimizedPoints.length > 1000) {
-        await saveGpsPointsInChunks(record.id, optimizedPoints);
-      } else {
-        const gpsKey = await getGpsStorageKey(record.id);
-        console.log(`[RidingStore] Saving ${optimizedPoints.length} GPS points to key: ${gpsKey}`);
-        await AsyncStorage.setItem(gpsKey, JSON.stringify(optimizedPoints));
-      }
+      await saveGpsPoints(record.id, record.gpsPoints);
       console.log(`[RidingStore] GPS points saved successfully`);
     }
 
@@ -384,6 +403,104 @@ export async function deleteRecordEverywhere(
   return true;
 }
 
+// Ride editor changes (trim / split / merge / outlier removal)
+export interface RideEdit {
+  /** Edited record, keeps its id */
+  record: RidingRecord;
+  /** Tail cut off by a split, saved as a new ride */
+  splitRecord?: RidingRecord;
+  /** Rides merged into `record`, deleted afterwards */
+  mergedRecordIds?: string[];
+}
+
+function toCloudRide(record: RidingRecord) {
+  return {
+    recordId: record.id,
+    date: record.date,
+    duration: Math.round(record.duration),
+    distance: Math.round(record.distance),
+    avgSpeed: record.avgSpeed,
+    maxSpeed: record.maxSpeed,
+    startTime: record.startTime,
+    endTime: record.endTime,
+    gpsPointsJson: record.gpsPoints && record.gpsPoints.length > 0 ? JSON.stringify(record.gpsPoints) : undefined,
+  };
+}
+
+// Replace/insert records in whichever local list (main or archive) holds them
+async function writeEditedRecords(changed: RidingRecord[], removedIds: string[]): Promise<void> {
+  const storageKey = await getStorageKey();
+  const archiveKey = `${storageKey}_archive`;
+  const [mainData, archiveData] = await Promise.all([
+    AsyncStorage.getItem(storageKey),
+    AsyncStorage.getItem(archiveKey),
+  ]);
+  const removed = new Set(removedIds);
+  let mainRecords: RidingRecord[] = (mainData ? JSON.parse(mainData) : []).filter((r: RidingRecord) => !removed.has(r.id));
+  let archiveRecords: RidingRecord[] = (archiveData ? JSON.parse(archiveData) : []).filter((r: RidingRecord) => !removed.has(r.id));
+
+  for (const record of changed) {
+    if (record.gpsPoints && record.gpsPoints.length > 0) {
+      await removeGpsPoints(record.id);
+      await saveGpsPoints(record.id, record.gpsPoints);
+    }
+    const withoutGps = { ...record };
+    delete withoutGps.gpsPoints;
+
+    if (archiveRecords.some((r) => r.id === record.id)) {
+      archiveRecords = archiveRecords.map((r) => (r.id === record.id ? withoutGps : r));
+    } else {
+      mainRecords = [withoutGps, ...mainRecords.filter((r) => r.id !== record.id)];
+    }
+  }
+
+  mainRecords.sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+  await AsyncStorage.setItem(storageKey, JSON.stringify(mainRecords));
+  if (archiveData) {
+    await AsyncStorage.setItem(archiveKey, JSON.stringify(archiveRecords));
+  }
+  for (const id of removedIds) {
+    await removeGpsPoints(id);
+  }
+}
+
+// Apply a ride edit locally and, for rides already in the cloud, on the server
+export async function applyRideEdit(
+  edit: RideEdit,
+  trpcClient: ReturnType<typeof trpc.useUtils>
+): Promise<{ success: boolean; error?: string }> {
+  const mergedIds = edit.mergedRecordIds ?? [];
+  let synced = false;
+
+  if (edit.record.synced) {
+    // Server recomputes scooter stats, segments and challenge progress; local changes wait for it
+    const result = await trpcClient.client.rides.update.mutate({
+      ...toCloudRide(edit.record),
+      mergedRecordIds: mergedIds.length > 0 ? mergedIds : undefined,
+      splitRecord: edit.splitRecord ? toCloudRide(edit.splitRecord) : undefined,
+    });
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    synced = true;
+  } else {
+    // Not uploaded yet: the edited ride syncs later; merged rides already in the cloud are deleted there
+    const existing = await getRidingRecords();
+    for (const id of mergedIds) {
+      if (existing.find((r) => r.id === id)?.synced) {
+        await deleteRecordFromCloud(id, trpcClient);
+      }
+    }
+  }
+
+  const changed = [{ ...edit.record, synced }];
+  if (edit.splitRecord) {
+    changed.push({ ...edit.splitRecord, synced });
+  }
+  await writeEditedRecords(changed, mergedIds);
+  return { success: true };
+}
+
 // Get riding statistics
 export async function getRidingStats(): Promise<RidingStats> {
   const records = await getRidingRecords();
@@ -540,6 +657,7 @@ export async function syncRecordToCloud(
         startTime,
         endTime,
         gpsPointsJson,
+        groupId: record.groupId,
       }
     };
     
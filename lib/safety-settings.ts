@@ -0,0 +1,37 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const SAFETY_SETTINGS_KEY = '@scoop_safety_settings';
+
+export interface SafetySettings {
+  crashDetectionEnabled: boolean;
+  /** Seconds the rider has to cancel the alarm before contacts are alerted */
+  countdownSeconds: number;
+}
+
+/** Selectable alarm countdowns (seconds) */
+export const COUNTDOWN_OPTIONS = [15, 30, 60];
+
+const DEFAULT_SETTINGS: SafetySettings = {
+  crashDetectionEnabled: true,
+  countdownSeconds: 30,
+};
+
+export async function getSafetySettings(): Promise<SafetySettings> {
+  try {
+    const stored = await AsyncStorage.getItem(SAFETY_SETTINGS_KEY);
+    if (stored) {
+      return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.error('Failed to load safety settings:', error);
+  }
+  return DEFAULT_SETTINGS;
+}
+
+export async function saveSafetySettings(settings: SafetySettings): Promise<void> {
+  try {
+    await AsyncStorage.setItem(SAFETY_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save safety settings:', error);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Scheduled group rides on the device: a local reminder before each ride the rider is going to,
+ * and exporting a ride to the calendar app as an .ics file
+ */
+import { Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+
+import { cancelNotification, scheduleGroupRideReminder } from "./notifications";
+import { buildRideIcs, type CalendarRide } from "./ride-calendar";
+import type { RsvpStatus } from "../shared/scheduled-ride";
+
+const RIDE_REMINDERS_KEY = "@scoop_scheduled_ride_reminders";
+
+// Scheduled notification ID per ride ID
+async function loadReminderIds(): Promise<Record<string, string>> {
+  try {
+    const stored = await AsyncStorage.getItem(RIDE_REMINDERS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Failed to load ride reminders:", error);
+    return {};
+  }
+}
+
+/**
+ * Keeps the local reminder of a ride in line with the rider's RSVP: riders going or maybe going
+ * get one 30 minutes before the start, anyone else has theirs cancelled
+ */
+export async function syncRideReminder(ride: CalendarRide, status: RsvpStatus | null): Promise<void> {
+  const reminders = await loadReminderIds();
+  const key = String(ride.id);
+  if (reminders[key]) {
+    await cancelNotification(reminders[key]);
+    delete reminders[key];
+  }
+
+  if (ride.status === "scheduled" && (status === "going" || status === "maybe")) {
+    const id = await scheduleGroupRideReminder(ride.id, ride.title, ride.meetingPointName, ride.startsAt);
+    if (id) reminders[key] = id;
+  }
+
+  try {
+    await AsyncStorage.setItem(RIDE_REMINDERS_KEY, JSON.stringify(reminders));
+  } catch (error) {
+    console.error("Failed to save ride reminders:", error);
+  }
+}
+
+/**
+ * Saves the ride as an .ics file and opens the share sheet (downloads it on web)
+ */
+export async function exportRideToCalendar(ride: CalendarRide): Promise<boolean> {
+  const content = buildRideIcs(ride);
+  const filename = `scoop-ride-${ride.id}.ics`;
+
+  try {
+    if (Platform.OS === "web") {
+      const blob = new Blob([content], { type: "text/calendar" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.style.display = "none";
+      document.body.appendChild(a);
+      a.click();
+      setTimeout(() => {
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+      }, 100);
+      return true;
+    }
+
+    const fileUri = `${FileSystem.cacheDirectory || ""}${filename}`;
+    await FileSystem.writeAsStringAsync(fileUri, content, { encoding: "utf8" });
+    if (!(await Sharing.isAvailableAsync())) return false;
+    await Sharing.shareAsync(fileUri, {
+      mimeType: "text/calendar",
+      UTI: "com.apple.ical.ics",
+      dialogTitle: "캘린더에 추가",
+    });
+    return true;
+  } catch (error) {
+    console.error("[Calendar] Failed to export ride:", error);
+    return false;
+  }
+}
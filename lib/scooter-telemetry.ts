@@ -0,0 +1,212 @@
+/**
+ * Scooter telemetry adapters
+ *
+ * An adapter streams controller readings (voltage, current, speed, odometer, temperature, error
+ * codes) into the live ride. Adapters for UART-style controllers sit on a TelemetryTransport, a
+ * byte pipe. No radio transport ships yet (the app has no BLE module), so the only adapter is the
+ * simulator, which implements the pipe in memory so everything above the radio can be developed
+ * and tested without a scooter. It is only registered in development builds: its made-up
+ * voltages would otherwise end up in riders' battery logs and consumption models. Adapters are
+ * registered by id; the rider's choice is kept in AsyncStorage.
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  BMS_ADDRESS,
+  BMS_STATUS_LENGTH,
+  BMS_STATUS_REGISTER,
+  ESC_ADDRESS,
+  ESC_STATUS_LENGTH,
+  ESC_STATUS_REGISTER,
+  NinebotFrameParser,
+  decodeReading,
+  readRequest,
+  type ControllerReading,
+  type NinebotFraming,
+} from "./ninebot-protocol";
+import { NinebotSimulator } from "./telemetry-simulator";
+import { MAX_VOLTAGE_SAMPLES, VOLTAGE_SAMPLE_INTERVAL_S, type VoltageSample } from "../shared/telemetry";
+
+const TELEMETRY_ADAPTER_KEY = "@scoop_telemetry_adapter";
+
+export interface TelemetrySample {
+  timestamp: number;
+  voltage: number | null; // V
+  current: number | null; // A, positive while discharging
+  speed: number | null; // km/h
+  odometer: number | null; // m
+  batteryPercent: number | null;
+  temperature: number | null; // °C, controller
+  batteryTemperature: number | null; // °C
+  errorCode: number | null; // 0 when there's no error
+}
+
+/** Byte pipe to a controller */
+export interface TelemetryTransport {
+  write(bytes: Uint8Array): Promise<void>;
+  /** Returns a function that removes the listener */
+  onData(listener: (bytes: Uint8Array) => void): () => void;
+  close(): Promise<void>;
+}
+
+export interface TelemetryAdapter {
+  start(onSample: (sample: TelemetrySample) => void): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export interface TelemetryAdapterDefinition {
+  id: string;
+  name: string;
+  description: string;
+  create(): TelemetryAdapter;
+}
+
+const adapters = new Map<string, TelemetryAdapterDefinition>();
+
+export function registerTelemetryAdapter(definition: TelemetryAdapterDefinition): void {
+  adapters.set(definition.id, definition);
+}
+
+export function getTelemetryAdapters(): TelemetryAdapterDefinition[] {
+  return [...adapters.values()];
+}
+
+export function getTelemetryAdapter(id: string): TelemetryAdapterDefinition | null {
+  return adapters.get(id) ?? null;
+}
+
+/** The adapter the rider picked, or null when telemetry is off */
+export async function getSelectedTelemetryAdapter(): Promise<string | null> {
+  try {
+    return await AsyncStorage.getItem(TELEMETRY_ADAPTER_KEY);
+  } catch (error) {
+    console.error("Failed to load telemetry adapter:", error);
+    return null;
+  }
+}
+
+export async function setSelectedTelemetryAdapter(id: string | null): Promise<void> {
+  try {
+    if (id) {
+      await AsyncStorage.setItem(TELEMETRY_ADAPTER_KEY, id);
+    } else {
+      await AsyncStorage.removeItem(TELEMETRY_ADAPTER_KEY);
+    }
+  } catch (error) {
+    console.error("Failed to save telemetry adapter:", error);
+  }
+}
+
+export const EMPTY_TELEMETRY_SAMPLE: Omit<TelemetrySample, "timestamp"> = {
+  voltage: null,
+  current: null,
+  speed: null,
+  odometer: null,
+  batteryPercent: null,
+  temperature: null,
+  batteryTemperature: null,
+  errorCode: null,
+};
+
+const POLLED_REGISTERS = [
+  { device: ESC_ADDRESS, register: ESC_STATUS_REGISTER, length: ESC_STATUS_LENGTH },
+  { device: BMS_ADDRESS, register: BMS_STATUS_REGISTER, length: BMS_STATUS_LENGTH },
+];
+
+/**
+ * Adapter for Xiaomi/Ninebot-style controllers: polls the ESC and BMS status registers and emits
+ * a sample once both have answered
+ */
+export class NinebotTelemetryAdapter implements TelemetryAdapter {
+  private readonly parser: NinebotFrameParser;
+  private current: Omit<TelemetrySample, "timestamp"> = { ...EMPTY_TELEMETRY_SAMPLE };
+  private awaiting = new Set<number>();
+  private onSample: ((sample: TelemetrySample) => void) | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly transport: TelemetryTransport,
+    private readonly options: { framing?: NinebotFraming; pollIntervalMs?: number; now?: () => number } = {}
+  ) {
+    this.parser = new NinebotFrameParser(options.framing ?? "xiaomi");
+  }
+
+  async start(onSample: (sample: TelemetrySample) => void): Promise<void> {
+    this.onSample = onSample;
+    this.unsubscribe = this.transport.onData((bytes) => this.receive(bytes));
+    await this.poll();
+    this.timer = setInterval(() => {
+      this.poll().catch((error) => console.error("[Telemetry] Poll failed:", error));
+    }, this.options.pollIntervalMs ?? 1000);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.onSample = null;
+    await this.transport.close();
+  }
+
+  /** Requests every status register (a reply that never came is given up) */
+  async poll(): Promise<void> {
+    this.awaiting = new Set(POLLED_REGISTERS.map((r) => r.register));
+    for (const { device, register, length } of POLLED_REGISTERS) {
+      await this.transport.write(readRequest(device, register, length, this.options.framing ?? "xiaomi"));
+    }
+  }
+
+  private receive(bytes: Uint8Array) {
+    for (const frame of this.parser.push(bytes)) {
+      const reading = decodeReading(frame);
+      if (!reading) continue;
+      this.merge(reading);
+      this.awaiting.delete(frame.register);
+      if (this.awaiting.size === 0) {
+        this.onSample?.({ ...this.current, timestamp: (this.options.now ?? Date.now)() });
+      }
+    }
+  }
+
+  private merge(reading: ControllerReading) {
+    for (const [key, value] of Object.entries(reading) as [keyof ControllerReading, number][]) {
+      if (value !== undefined) this.current[key] = value;
+    }
+  }
+}
+
+if (typeof __DEV__ !== "undefined" && __DEV__) {
+  registerTelemetryAdapter({
+    id: "simulator",
+    name: "시뮬레이터",
+    description: "Xiaomi/Ninebot 프로토콜을 흉내 내는 가상 기체 (개발·테스트용)",
+    create: () => new NinebotTelemetryAdapter(new NinebotSimulator()),
+  });
+}
+
+/**
+ * Adds a sample to the ride's voltage series: at most one per interval, and when the series is
+ * full every other sample is dropped and the interval doubles
+ */
+export function appendVoltageSample(
+  samples: VoltageSample[],
+  sample: TelemetrySample,
+  rideStartedAt: number,
+  maxSamples: number = MAX_VOLTAGE_SAMPLES
+): VoltageSample[] {
+  if (sample.voltage === null) return samples;
+  const seconds = Math.max(0, Math.round((sample.timestamp - rideStartedAt) / 1000));
+
+  let interval = VOLTAGE_SAMPLE_INTERVAL_S;
+  while (interval * maxSamples < seconds) interval *= 2;
+  const last = samples[samples.length - 1];
+  if (last && seconds - last[0] < interval) return samples;
+
+  let next: VoltageSample[] = [...samples, [seconds, sample.voltage, sample.current]];
+  while (next.length > maxSamples) {
+    next = next.filter((_, i) => i % 2 === 0 || i === next.length - 1);
+  }
+  return next;
+}
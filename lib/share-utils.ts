@@ -2,6 +2,8 @@ import { Platform, Share } from "react-native";
 import * as Sharing from "expo-sharing";
 import * as FileSystem from "expo-file-system";
 import { RidingRecord, formatDuration } from "./riding-store";
+import { withoutPrivacyZones } from "./ride-formats";
+import type { PrivacyZoneCircle } from "../shared/privacy-zones";
 
 /**
  * Generate a shareable text summary of a ride
@@ -66,7 +68,8 @@ export async function shareRideAsText(record: RidingRecord): Promise<boolean> {
 
 /**
  * Generate ride summary image data (for future implementation)
- * Returns a base64 encoded image or null if generation fails
+ * Returns a base64 encoded image or null if generation fails.
+ * The record must already have the rider's privacy zones trimmed (see shareRide)
  */
 export async function generateRideImage(record: RidingRecord): Promise<string | null> {
   // This would require react-native-view-shot or similar library
@@ -82,13 +85,16 @@ export async function shareRide(
   options: {
     includeGpx?: boolean;
     includeImage?: boolean;
+    /** GPS points inside these circles never leave the device */
+    privacyZones?: PrivacyZoneCircle[];
   } = {}
 ): Promise<boolean> {
-  const { includeGpx = false, includeImage = false } = options;
+  const { includeGpx = false, includeImage = false, privacyZones = [] } = options;
+  const shared = withoutPrivacyZones(record, privacyZones);
   
   // For now, just share as text
   // GPX sharing is handled separately in ride-detail.tsx
-  return shareRideAsText(record);
+  return shareRideAsText(shared);
 }
 
 /**
@@ -0,0 +1,214 @@
+/**
+ * TCX (Garmin Training Center XML) 읽기/쓰기
+ *
+ * 속도는 ActivityExtension v2의 TPX/LX, 배터리 전압/SOC는 SCOOP 확장 네임스페이스로 기록합니다.
+ */
+
+import type { TrackData, TrackPoint } from "./gps-utils";
+import type { ImportedRide } from "./ride-formats";
+import {
+  SCOOP_XML_NAMESPACE,
+  XmlElement,
+  escapeXml,
+  flattenLeafValues,
+  getChild,
+  getChildNumber,
+  getChildText,
+  getChildren,
+  parseXml,
+} from "./xml-parser";
+
+const TCX_NAMESPACE = "http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2";
+const ACTIVITY_EXTENSION_NAMESPACE = "http://www.garmin.com/xmlschemas/ActivityExtension/v2";
+
+// Haversine 거리 계산 (meters)
+function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000;
+  const toRad = (deg: number) => deg * (Math.PI / 180);
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * TrackData → TCX XML
+ * 포인트 필터링은 호출 측(encodeTrackFile)에서 수행합니다.
+ */
+export function generateTcxContent(track: TrackData): string {
+  const points = track.points;
+  let cumulativeDistance = 0;
+  let maxSpeed = 0;
+
+  const trackPoints = points
+    .map((point, index) => {
+      if (index > 0) {
+        const prev = points[index - 1];
+        cumulativeDistance += haversineDistance(prev.latitude, prev.longitude, point.latitude, point.longitude);
+      }
+      if (point.speed !== null && point.speed > maxSpeed) maxSpeed = point.speed;
+
+      const altitude = point.altitude !== null ? `              <AltitudeMeters>${point.altitude.toFixed(1)}</AltitudeMeters>\n` : "";
+      const extensionFields: string[] = [];
+      if (point.speed !== null) {
+        extensionFields.push(`                <ns3:TPX>\n                  <ns3:Speed>${point.speed.toFixed(2)}</ns3:Speed>\n                </ns3:TPX>\n`);
+      }
+      if (point.voltage != null || point.soc != null) {
+        const voltage = point.voltage != null ? `                  <scoop:Voltage>${point.voltage.toFixed(2)}</scoop:Voltage>\n` : "";
+        const soc = point.soc != null ? `                  <scoop:Soc>${point.soc.toFixed(1)}</scoop:Soc>\n` : "";
+        extensionFields.push(`                <scoop:Battery>\n${voltage}${soc}                </scoop:Battery>\n`);
+      }
+      const extensions =
+        extensionFields.length > 0
+          ? `              <Extensions>\n${extensionFields.join("")}              </Extensions>\n`
+          : "";
+
+      return `            <Trackpoint>
+              <Time>${new Date(point.timestamp).toISOString()}</Time>
+              <Position>
+                <LatitudeDegrees>${point.latitude.toFixed(7)}</LatitudeDegrees>
+                <LongitudeDegrees>${point.longitude.toFixed(7)}</LongitudeDegrees>
+              </Position>
+${altitude}              <DistanceMeters>${cumulativeDistance.toFixed(1)}</DistanceMeters>
+${extensions}            </Trackpoint>`;
+    })
+    .join("\n");
+
+  const elapsedSeconds = Math.max(0, (track.endTime.getTime() - track.startTime.getTime()) / 1000);
+  const totalTimeSeconds = track.duration ?? elapsedSeconds;
+  const avgSpeed = totalTimeSeconds > 0 ? cumulativeDistance / totalTimeSeconds : 0;
+
+  const batteryFields = Object.entries(track.battery ?? {})
+    .filter(([, value]) => typeof value === "number" && isFinite(value))
+    .map(([key, value]) => {
+      const tag = key.charAt(0).toUpperCase() + key.slice(1);
+      return `          <scoop:${tag}>${(value as number).toFixed(2)}</scoop:${tag}>\n`;
+    })
+    .join("");
+  const activityExtensions = batteryFields
+    ? `      <Extensions>\n        <scoop:RideSummary>\n${batteryFields}        </scoop:RideSummary>\n      </Extensions>\n`
+    : "";
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase
+  xmlns="${TCX_NAMESPACE}"
+  xmlns:ns3="${ACTIVITY_EXTENSION_NAMESPACE}"
+  xmlns:scoop="${SCOOP_XML_NAMESPACE}"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <Activities>
+    <Activity Sport="Biking">
+      <Id>${track.startTime.toISOString()}</Id>
+      <Lap StartTime="${track.startTime.toISOString()}">
+        <TotalTimeSeconds>${totalTimeSeconds.toFixed(1)}</TotalTimeSeconds>
+        <DistanceMeters>${cumulativeDistance.toFixed(1)}</DistanceMeters>
+        <MaximumSpeed>${maxSpeed.toFixed(2)}</MaximumSpeed>
+        <Calories>0</Calories>
+        <Intensity>Active</Intensity>
+        <TriggerMethod>Manual</TriggerMethod>
+        <Track>
+${trackPoints}
+        </Track>
+        <Extensions>
+          <ns3:LX>
+            <ns3:AvgSpeed>${avgSpeed.toFixed(2)}</ns3:AvgSpeed>
+          </ns3:LX>
+        </Extensions>
+      </Lap>
+      <Notes>${escapeXml(track.name)}</Notes>
+${activityExtensions}    </Activity>
+  </Activities>
+</TrainingCenterDatabase>`;
+}
+
+function parseTrackpoint(element: XmlElement): TrackPoint | null {
+  const position = getChild(element, "Position");
+  if (!position) return null;
+
+  const latitude = getChildNumber(position, "LatitudeDegrees");
+  const longitude = getChildNumber(position, "LongitudeDegrees");
+  if (latitude === undefined || longitude === undefined) return null;
+
+  const time = getChildText(element, "Time");
+  const timestamp = time ? Date.parse(time) : NaN;
+
+  const extensionsElement = getChild(element, "Extensions");
+  const extensions = extensionsElement ? flattenLeafValues(extensionsElement) : {};
+  const readExtension = (key: string): number | null => {
+    const value = extensions[key] !== undefined ? parseFloat(extensions[key]) : NaN;
+    return isNaN(value) ? null : value;
+  };
+
+  return {
+    latitude,
+    longitude,
+    altitude: getChildNumber(element, "AltitudeMeters") ?? null,
+    timestamp: isNaN(timestamp) ? 0 : timestamp,
+    speed: readExtension("Speed"),
+    accuracy: null,
+    voltage: readExtension("Voltage"),
+    soc: readExtension("Soc"),
+  };
+}
+
+/**
+ * TCX XML → 주행 기록
+ * 첫 번째 Activity의 모든 Lap/Track을 하나의 주행으로 합칩니다.
+ */
+export function parseTcxContent(tcxContent: string): ImportedRide | null {
+  try {
+    const root = parseXml(tcxContent);
+    if (root.localName !== "TrainingCenterDatabase") return null;
+
+    const activities = getChild(root, "Activities");
+    const activity = activities ? getChild(activities, "Activity") : undefined;
+    if (!activity) return null;
+
+    const points: TrackPoint[] = [];
+    let duration = 0;
+    let distance = 0;
+
+    for (const lap of getChildren(activity, "Lap")) {
+      duration += getChildNumber(lap, "TotalTimeSeconds") ?? 0;
+      distance += getChildNumber(lap, "DistanceMeters") ?? 0;
+      for (const track of getChildren(lap, "Track")) {
+        for (const trackpoint of getChildren(track, "Trackpoint")) {
+          const point = parseTrackpoint(trackpoint);
+          if (point) points.push(point);
+        }
+      }
+    }
+
+    if (points.length === 0) return null;
+
+    const timed = points.filter((p) => p.timestamp > 0);
+    const idTime = Date.parse(getChildText(activity, "Id") ?? "");
+    const extensionsElement = getChild(activity, "Extensions");
+    const summary = extensionsElement ? flattenLeafValues(extensionsElement) : {};
+    const readSummary = (key: string): number | undefined => {
+      const value = summary[key] !== undefined ? parseFloat(summary[key]) : NaN;
+      return isNaN(value) ? undefined : value;
+    };
+
+    return {
+      format: "tcx",
+      name: getChildText(activity, "Notes"),
+      startTime: timed.length > 0 ? new Date(timed[0].timestamp) : isNaN(idTime) ? null : new Date(idTime),
+      endTime: timed.length > 0 ? new Date(timed[timed.length - 1].timestamp) : null,
+      points,
+      duration: duration > 0 ? duration : undefined,
+      distance: distance > 0 ? distance : undefined,
+      battery: {
+        voltageStart: readSummary("VoltageStart"),
+        voltageEnd: readSummary("VoltageEnd"),
+        socStart: readSummary("SocStart"),
+        socEnd: readSummary("SocEnd"),
+        energyWh: readSummary("EnergyWh"),
+      },
+    };
+  } catch (error) {
+    console.error("TCX parsing error:", error);
+    return null;
+  }
+}
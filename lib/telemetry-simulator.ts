@@ -0,0 +1,171 @@
+/**
+ * In-memory Xiaomi/Ninebot controller for developing and testing telemetry without a scooter
+ *
+ * It answers ESC and BMS status reads like a real controller and rides a simple model in
+ * between: speed follows a profile (stop-and-go by default), current grows with the square of the
+ * speed, the pack voltage is the lithium-ion OCV at the current SOC minus the internal resistance
+ * drop, and the controller warms up under load. Error codes can be injected.
+ */
+import {
+  APP_ADDRESS,
+  BMS_ADDRESS,
+  COMMAND_READ,
+  COMMAND_READ_REPLY,
+  ESC_ADDRESS,
+  NinebotFrameParser,
+  encodeBmsStatus,
+  encodeEscStatus,
+  encodeFrame,
+  BMS_STATUS_REGISTER,
+  ESC_STATUS_REGISTER,
+  type NinebotFraming,
+} from "./ninebot-protocol";
+import type { TelemetryTransport } from "./scooter-telemetry";
+import { packVoltageFromSoc } from "../shared/battery-ocv";
+
+export interface SimulatorOptions {
+  framing?: NinebotFraming;
+  /** Series cells (10S = 36V) */
+  cellCount?: number;
+  capacityAh?: number;
+  /** Starting SOC (%) */
+  soc?: number;
+  /** Starting odometer (m) */
+  odometer?: number;
+  /** Pack internal resistance (Ω) */
+  internalResistance?: number;
+  ambientTemperature?: number;
+  /** Speed (km/h) at a number of seconds into the simulation */
+  speedProfile?: (seconds: number) => number;
+  now?: () => number;
+}
+
+/** Longest stretch simulated at once (e.g. after the app was in the background) */
+const MAX_STEP_SECONDS = 60;
+
+// Rolls off, cruises around 20-24km/h and stops for 10s every two minutes
+function stopAndGo(seconds: number): number {
+  if (seconds < 5 || seconds % 120 >= 110) return 0;
+  return 22 + 2 * Math.sin(seconds / 15);
+}
+
+export class NinebotSimulator implements TelemetryTransport {
+  private readonly framing: NinebotFraming;
+  private readonly parser: NinebotFrameParser;
+  private readonly listeners = new Set<(bytes: Uint8Array) => void>();
+  private readonly now: () => number;
+  private readonly startedAt: number;
+  private lastStepAt: number;
+
+  private soc: number;
+  private odometer: number;
+  private speed = 0;
+  private current = 0;
+  private temperature: number;
+  private errorCode = 0;
+
+  constructor(private readonly options: SimulatorOptions = {}) {
+    this.framing = options.framing ?? "xiaomi";
+    this.parser = new NinebotFrameParser(this.framing);
+    this.now = options.now ?? Date.now;
+    this.startedAt = this.now();
+    this.lastStepAt = this.startedAt;
+    this.soc = options.soc ?? 90;
+    this.odometer = options.odometer ?? 120_000;
+    this.temperature = options.ambientTemperature ?? 20;
+  }
+
+  async write(bytes: Uint8Array): Promise<void> {
+    for (const frame of this.parser.push(bytes)) {
+      if (frame.source !== APP_ADDRESS || frame.command !== COMMAND_READ) continue;
+      this.step();
+      const payload = this.readRegister(frame.target, frame.register);
+      if (!payload) continue;
+      const length = frame.payload[0] ?? payload.length;
+      this.emit(
+        encodeFrame(
+          {
+            source: frame.target,
+            target: APP_ADDRESS,
+            command: this.framing === "ninebot" ? COMMAND_READ_REPLY : COMMAND_READ,
+            register: frame.register,
+            payload: payload.slice(0, length),
+          },
+          this.framing
+        )
+      );
+    }
+  }
+
+  onData(listener: (bytes: Uint8Array) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear();
+  }
+
+  /** Sets the controller error code (0 clears it) */
+  injectError(code: number): void {
+    this.errorCode = code;
+  }
+
+  get packVoltage(): number {
+    const cellCount = this.options.cellCount ?? 10;
+    const resistance = this.options.internalResistance ?? 0.15;
+    return packVoltageFromSoc(this.soc, { chemistry: "lithium_ion", cellCount }) - this.current * resistance;
+  }
+
+  private emit(bytes: Uint8Array) {
+    for (const listener of this.listeners) listener(bytes);
+  }
+
+  // Advances the ride model to now in one-second steps
+  private step() {
+    const now = this.now();
+    let remaining = Math.min((now - this.lastStepAt) / 1000, MAX_STEP_SECONDS);
+    let elapsed = (this.lastStepAt - this.startedAt) / 1000;
+    this.lastStepAt = now;
+
+    const capacityAh = this.options.capacityAh ?? 7.8;
+    const ambient = this.options.ambientTemperature ?? 20;
+    const profile = this.options.speedProfile ?? stopAndGo;
+
+    while (remaining > 0) {
+      const dt = Math.min(1, remaining);
+      remaining -= dt;
+      elapsed += dt;
+
+      this.speed = Math.max(0, profile(elapsed));
+      this.current = this.speed > 0 ? 3 + 0.012 * this.speed * this.speed : 0.3;
+      this.soc = Math.max(0, this.soc - (this.current * dt) / 3600 / capacityAh * 100);
+      this.odometer += (this.speed / 3.6) * dt;
+      // Heads toward ambient + 2°C per amp over about five minutes
+      this.temperature += (ambient + this.current * 2 - this.temperature) * (dt / 300);
+    }
+  }
+
+  private readRegister(device: number, register: number): Uint8Array | null {
+    if (device === ESC_ADDRESS && register === ESC_STATUS_REGISTER) {
+      return encodeEscStatus({
+        errorCode: this.errorCode,
+        batteryPercent: this.soc,
+        speed: this.speed,
+        odometer: this.odometer,
+        temperature: this.temperature,
+      });
+    }
+    if (device === BMS_ADDRESS && register === BMS_STATUS_REGISTER) {
+      const capacityAh = this.options.capacityAh ?? 7.8;
+      return encodeBmsStatus({
+        remainingCapacity: (capacityAh * 1000 * this.soc) / 100,
+        batteryPercent: this.soc,
+        current: this.current,
+        voltage: this.packVoltage,
+        temperatures: [this.temperature - 5, this.temperature - 6],
+      });
+    }
+    return null;
+  }
+}
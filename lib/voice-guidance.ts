@@ -56,6 +56,12 @@ const TEXTS = {
     straight: '직진하세요',
     routeDeviated: '경로를 이탈했습니다. 경로를 재계산합니다',
     navigationStarted: '경로 안내를 시작합니다',
+    // Group regroup
+    groupSpread: '그룹 간격이',
+    spreadApart: '벌어졌습니다',
+    leaderWait: '속도를 줄이고 집결 지점에서 그룹을 기다려 주세요',
+    riderCatchUp: '집결 지점으로 이동해 주세요',
+    regrouped: '그룹이 다시 모였습니다',
   },
   'en-US': {
     ridingTime: 'Riding time',
@@ -87,11 +93,47 @@ const TEXTS = {
     straight: 'continue straight',
     routeDeviated: 'You have left the route. Recalculating',
     navigationStarted: 'Navigation started',
+    // Group regroup
+    groupSpread: 'The group has spread',
+    spreadApart: 'apart',
+    leaderWait: 'Slow down and wait for the group at the rally point',
+    riderCatchUp: 'Head to the rally point',
+    regrouped: 'The group is back together',
   },
 };
 
 let lastAnnouncementTime = 0;
 
+// Group voice clips duck the guidance: announcements that come up while a clip plays are held,
+// and the latest one is spoken when the clip ends
+let voiceClipPlaying = false;
+let heldAnnouncement: { text: string; options: Speech.SpeechOptions } | null = null;
+
+async function speakGuidance(text: string, options: Speech.SpeechOptions): Promise<void> {
+  if (voiceClipPlaying) {
+    heldAnnouncement = { text, options };
+    return;
+  }
+  await Speech.stop();
+  Speech.speak(text, options);
+}
+
+// Called around each group voice clip; interrupts guidance that is being spoken
+export async function setVoiceClipPlaying(playing: boolean): Promise<void> {
+  voiceClipPlaying = playing;
+  try {
+    if (playing) {
+      await Speech.stop();
+    } else if (heldAnnouncement) {
+      const { text, options } = heldAnnouncement;
+      heldAnnouncement = null;
+      Speech.speak(text, options);
+    }
+  } catch (error) {
+    console.error('Failed to duck voice guidance:', error);
+  }
+}
+
 export async function getVoiceSettings(): Promise<VoiceSettings> {
   try {
     const stored = await AsyncStorage.getItem(VOICE_SETTINGS_KEY);
@@ -206,11 +248,8 @@ export async function announceRidingStatus(
   const announcement = parts.join('. ');
   
   try {
-    // Stop any ongoing speech first
-    await Speech.stop();
-    
-    // Speak the announcement
-    Speech.speak(announcement, {
+    // Stops any ongoing speech first
+    await speakGuidance(announcement, {
       language: settings.language,
       pitch: 1.0,
       rate: 1.0,
@@ -227,7 +266,7 @@ export async function announceStart(): Promise<void> {
   const t = TEXTS[settings.language];
   
   try {
-    Speech.speak(t.startRiding, {
+    await speakGuidance(t.startRiding, {
       language: settings.language,
       pitch: 1.0,
       rate: 1.0,
@@ -255,8 +294,7 @@ export async function announceEnd(
   }
   
   try {
-    await Speech.stop();
-    Speech.speak(announcement, {
+    await speakGuidance(announcement, {
       language: settings.language,
       pitch: 1.0,
       rate: 1.0,
@@ -352,8 +390,7 @@ export async function announceNavigationStep(
   }
   
   try {
-    await Speech.stop();
-    Speech.speak(announcement, {
+    await speakGuidance(announcement, {
       language: settings.language,
       pitch: 1.0,
       rate: 1.0,
@@ -382,8 +419,7 @@ export async function announceArrival(destinationName?: string): Promise<void> {
   }
   
   try {
-    await Speech.stop();
-    Speech.speak(announcement, {
+    await speakGuidance(announcement, {
       language: settings.language,
       pitch: 1.0,
       rate: 1.0,
@@ -401,8 +437,7 @@ export async function announceRouteDeviation(): Promise<void> {
   const t = TEXTS[settings.language];
   
   try {
-    await Speech.stop();
-    Speech.speak(t.routeDeviated, {
+    await speakGuidance(t.routeDeviated, {
       language: settings.language,
       pitch: 1.0,
       rate: 1.0,
@@ -431,8 +466,7 @@ export async function announceNavigationStarted(destinationName?: string): Promi
   }
   
   try {
-    await Speech.stop();
-    Speech.speak(announcement, {
+    await speakGuidance(announcement, {
       language: settings.language,
       pitch: 1.0,
       rate: 1.0,
@@ -441,3 +475,34 @@ export async function announceNavigationStarted(destinationName?: string): Promi
     console.error('Failed to speak navigation started:', error);
   }
 }
+
+// Announce a group regroup starting (with the spread in meters) or being lifted
+export async function announceRegroup(
+  active: boolean,
+  spreadMeters: number,
+  isFront: boolean
+): Promise<void> {
+  const settings = await getVoiceSettings();
+  if (!settings.enabled || Platform.OS === 'web') return;
+  
+  const t = TEXTS[settings.language];
+  
+  let announcement: string;
+  if (!active) {
+    announcement = t.regrouped;
+  } else {
+    const distanceText = formatDistanceForSpeech(spreadMeters, settings.language);
+    const instruction = isFront ? t.leaderWait : t.riderCatchUp;
+    announcement = `${t.groupSpread} ${distanceText} ${t.spreadApart}. ${instruction}`;
+  }
+  
+  try {
+    await speakGuidance(announcement, {
+      language: settings.language,
+      pitch: 1.0,
+      rate: 1.0,
+    });
+  } catch (error) {
+    console.error('Failed to speak regroup announcement:', error);
+  }
+}
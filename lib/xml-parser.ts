@@ -0,0 +1,265 @@
+/**
+ * 경량 XML 파서
+ *
+ * GPX/TCX 같은 트랙 파일을 읽기 위한 비검증(non-validating) XML 파서입니다.
+ * 외부 라이브러리 없이 React Native와 서버 양쪽에서 동작하도록 작성되었습니다.
+ * DTD, 처리 명령(<?...?>), 주석은 무시하고 요소 트리만 구성합니다.
+ */
+
+/** Namespace for SCOOP-specific GPX/TCX extension fields (battery voltage/SOC) */
+export const SCOOP_XML_NAMESPACE = "https://scoop-riding.app/xmlschemas/RideExtension/v1";
+
+export interface XmlElement {
+  /** 원본 태그 이름 (네임스페이스 접두사 포함, 예: "gpxtpx:speed") */
+  name: string;
+  /** 접두사를 제외한 로컬 이름 (예: "speed") */
+  localName: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** 요소 바로 아래의 텍스트 (자식 요소의 텍스트는 포함하지 않음) */
+  text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  if (value.indexOf("&") === -1) return value;
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+function toLocalName(name: string): string {
+  const colon = name.indexOf(":");
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function createElement(name: string, attributes: Record<string, string>): XmlElement {
+  return { name, localName: toLocalName(name), attributes, children: [], text: "" };
+}
+
+const ATTRIBUTE_REGEX = /([^\s=\/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_REGEX.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * XML 문자열을 파싱하여 루트 요소를 반환
+ * 구조가 깨진 문서(닫히지 않은 태그, 루트 없음)는 에러를 던집니다.
+ */
+export function parseXml(source: string): XmlElement {
+  // BOM 제거
+  const xml = source.charCodeAt(0) === 0xfeff ? source.slice(1) : source;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const appendText = (text: string) => {
+    const current = stack[stack.length - 1];
+    if (current) current.text += text;
+  };
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf("<", pos);
+    if (lt === -1) {
+      appendText(decodeEntities(xml.slice(pos)));
+      break;
+    }
+    if (lt > pos) {
+      appendText(decodeEntities(xml.slice(pos, lt)));
+    }
+
+    if (xml.startsWith("<!--", lt)) {
+      const end = xml.indexOf("-->", lt + 4);
+      if (end === -1) throw new Error("Unterminated comment");
+      pos = end + 3;
+      continue;
+    }
+    if (xml.startsWith("<![CDATA[", lt)) {
+      const end = xml.indexOf("]]>", lt + 9);
+      if (end === -1) throw new Error("Unterminated CDATA section");
+      appendText(xml.slice(lt + 9, end));
+      pos = end + 3;
+      continue;
+    }
+    if (xml.startsWith("<?", lt)) {
+      const end = xml.indexOf("?>", lt + 2);
+      if (end === -1) throw new Error("Unterminated processing instruction");
+      pos = end + 2;
+      continue;
+    }
+    if (xml.startsWith("<!", lt)) {
+      // DOCTYPE 등 선언부 - 내부 서브셋([...])까지 건너뜀
+      let depth = 0;
+      let i = lt + 2;
+      for (; i < xml.length; i++) {
+        const ch = xml[i];
+        if (ch === "[") depth++;
+        else if (ch === "]") depth--;
+        else if (ch === ">" && depth <= 0) break;
+      }
+      pos = i + 1;
+      continue;
+    }
+
+    const gt = findTagEnd(xml, lt + 1);
+    if (gt === -1) throw new Error("Unterminated tag");
+    const raw = xml.slice(lt + 1, gt);
+    pos = gt + 1;
+
+    if (raw[0] === "/") {
+      const closingName = raw.slice(1).trim();
+      const open = stack.pop();
+      if (!open || open.name !== closingName) {
+        throw new Error(`Mismatched closing tag </${closingName}>`);
+      }
+      if (stack.length === 0) root = open;
+      continue;
+    }
+
+    const selfClosing = raw.endsWith("/");
+    const body = selfClosing ? raw.slice(0, -1) : raw;
+    const nameMatch = body.match(/^\s*([^\s\/>]+)/);
+    if (!nameMatch) throw new Error("Invalid tag");
+    const element = createElement(nameMatch[1], parseAttributes(body.slice(nameMatch[0].length)));
+
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.children.push(element);
+    } else if (root) {
+      throw new Error("Multiple root elements");
+    }
+
+    if (selfClosing) {
+      if (!parent) root = element;
+    } else {
+      stack.push(element);
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  if (!root) {
+    throw new Error("No root element");
+  }
+  return root;
+}
+
+// 따옴표 안의 '>'는 태그 끝으로 취급하지 않음
+function findTagEnd(xml: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < xml.length; i++) {
+    const ch = xml[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 로컬 이름이 일치하는 직계 자식 요소 목록
+ */
+export function getChildren(element: XmlElement, localName: string): XmlElement[] {
+  return element.children.filter((child) => child.localName === localName);
+}
+
+/**
+ * 로컬 이름이 일치하는 첫 번째 직계 자식 요소
+ */
+export function getChild(element: XmlElement, localName: string): XmlElement | undefined {
+  return element.children.find((child) => child.localName === localName);
+}
+
+/**
+ * 자식 요소의 텍스트 (앞뒤 공백 제거, 없으면 undefined)
+ */
+export function getChildText(element: XmlElement, localName: string): string | undefined {
+  const child = getChild(element, localName);
+  if (!child) return undefined;
+  const text = child.text.trim();
+  return text.length > 0 ? text : undefined;
+}
+
+/**
+ * 자식 요소의 숫자 값 (파싱 실패 시 undefined)
+ */
+export function getChildNumber(element: XmlElement, localName: string): number | undefined {
+  const text = getChildText(element, localName);
+  if (text === undefined) return undefined;
+  const value = parseFloat(text);
+  return isNaN(value) ? undefined : value;
+}
+
+/**
+ * 하위 트리 전체에서 로컬 이름이 일치하는 요소를 문서 순서대로 수집
+ */
+export function findDescendants(element: XmlElement, localName: string): XmlElement[] {
+  const result: XmlElement[] = [];
+  const visit = (node: XmlElement) => {
+    for (const child of node.children) {
+      if (child.localName === localName) result.push(child);
+      visit(child);
+    }
+  };
+  visit(element);
+  return result;
+}
+
+/**
+ * 하위 요소의 말단(leaf) 값들을 로컬 이름 기준의 평면 맵으로 변환
+ * <extensions> 아래의 벤더별 중첩 구조(예: gpxtpx:TrackPointExtension)를 단순화하는 데 사용합니다.
+ */
+export function flattenLeafValues(element: XmlElement): Record<string, string> {
+  const values: Record<string, string> = {};
+  const visit = (node: XmlElement) => {
+    for (const child of node.children) {
+      if (child.children.length === 0) {
+        const text = child.text.trim();
+        if (text.length > 0 && values[child.localName] === undefined) {
+          values[child.localName] = text;
+        }
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(element);
+  return values;
+}
+
+/**
+ * XML 텍스트/속성 값 이스케이프
+ */
+export function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
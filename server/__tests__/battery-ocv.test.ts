@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { batteryPackForScooter, packVoltageFromSoc, socFromPackVoltage } from "../../shared/battery-ocv";
+import { calculateSoc, createBatterySpecForScooter } from "../../lib/battery-analysis";
+
+// 16S lithium-ion pack the rider calibrated as 66V full and 50V empty
+const calibratedScooter = {
+  batteryVoltage: 60,
+  batteryCapacity: "30",
+  batteryType: "lithium_ion",
+  batteryCellCount: null,
+  batteryFullVoltage: "66.00",
+  batteryEmptyVoltage: "50.00",
+};
+
+describe("Battery packs on the server", () => {
+  it("should read a calibrated pack's voltages across its own full-to-empty range", () => {
+    const pack = batteryPackForScooter(calibratedScooter);
+    expect(pack.calibration).toEqual({ fullVoltage: 66, emptyVoltage: 50 });
+    expect(socFromPackVoltage(66, pack)).toBe(100);
+    expect(socFromPackVoltage(50, pack)).toBe(0);
+    expect(packVoltageFromSoc(100, pack)).toBeCloseTo(66, 5);
+
+    const uncalibrated = batteryPackForScooter({ ...calibratedScooter, batteryFullVoltage: null });
+    expect(uncalibrated.calibration).toBeUndefined();
+    expect(socFromPackVoltage(58, pack)).toBeLessThan(socFromPackVoltage(58, uncalibrated));
+  });
+
+  it("should agree with the app's SOC for a calibrated pack", () => {
+    const pack = batteryPackForScooter(calibratedScooter);
+    const spec = createBatterySpecForScooter(calibratedScooter);
+    for (const voltage of [50, 54.5, 58, 61.2, 66]) {
+      expect(Math.round(socFromPackVoltage(voltage, pack))).toBe(calculateSoc(voltage, spec));
+      expect(Math.round(socFromPackVoltage(voltage, pack, { minutesSinceRide: 0 }))).toBe(
+        calculateSoc(voltage, spec, { minutesSinceRide: 0 })
+      );
+    }
+  });
+});
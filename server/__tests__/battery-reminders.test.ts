@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_BATTERY_REMINDER_SETTINGS,
+  evaluateBatteryReminders,
+  minForecastTemperature,
+  neededSocForRide,
+  type BatteryReminderState,
+} from "../battery-reminders";
+
+const HOUR = 60 * 60_000;
+const DAY = 24 * HOUR;
+
+// 20:00 KST
+const evening = new Date("2026-01-14T11:00:00Z").getTime();
+
+function state(overrides: Partial<BatteryReminderState> = {}): BatteryReminderState {
+  return {
+    settings: DEFAULT_BATTERY_REMINDER_SETTINGS,
+    batteryType: "lithium_ion",
+    soc: 40,
+    socAt: new Date(evening - 2 * HOUR),
+    lastRideAt: new Date(evening - 2 * HOUR),
+    nextRide: { title: "한강 야간 라이딩", startsAt: new Date(evening + 14 * HOUR), neededSoc: 60 },
+    forecastMinTemperature: 3,
+    lastSent: {},
+    ...overrides,
+  };
+}
+
+const kinds = (s: BatteryReminderState, now: number) => evaluateBatteryReminders(s, now).map((r) => r.kind);
+
+describe("Battery reminders", () => {
+  it("should size the charge a ride needs from its route", () => {
+    // 20 km at 15 Wh/km on a 1 kWh pack is 30%, plus the reserve
+    expect(neededSocForRide(20_000, 15, 1000, 60)).toBe(45);
+    expect(neededSocForRide(100_000, 15, 1000, 60)).toBe(100);
+    // Without a route or a consumption model the rider's minimum applies
+    expect(neededSocForRide(null, 15, 1000, 60)).toBe(60);
+    expect(neededSocForRide(20_000, null, 1000, 70)).toBe(70);
+  });
+
+  it("should suggest charging in the evening before a ride that needs more charge", () => {
+    expect(kinds(state(), evening)).toEqual(["charge_tonight"]);
+    expect(kinds(state({ soc: 80 }), evening)).toEqual([]);
+    // Not in the afternoon, and not for rides days away
+    expect(kinds(state(), evening - 6 * HOUR)).toEqual([]);
+    const later = state({ nextRide: { title: "주말 라이딩", startsAt: new Date(evening + 3 * DAY), neededSoc: 60 } });
+    expect(kinds(later, evening)).toEqual([]);
+  });
+
+  it("should warn about long storage at full or nearly empty charge", () => {
+    const idle = { socAt: new Date(evening - 4 * DAY), lastRideAt: new Date(evening - 5 * DAY), nextRide: null };
+    expect(kinds(state({ ...idle, soc: 100 }), evening)).toEqual(["storage_full"]);
+    expect(kinds(state({ ...idle, soc: 15, forecastMinTemperature: null }), evening)).toEqual(["storage_low"]);
+    expect(kinds(state({ ...idle, soc: 55 }), evening)).toEqual([]);
+    // A recent ride means it isn't in storage
+    expect(kinds(state({ ...idle, soc: 100, lastRideAt: new Date(evening - DAY) }), evening)).toEqual([]);
+  });
+
+  it("should warn against charging below freezing when a charge is likely", () => {
+    expect(kinds(state({ forecastMinTemperature: -4 }), evening)).toEqual(["charge_tonight", "cold_charging"]);
+    // Plenty of charge left: no charge coming, no warning
+    expect(kinds(state({ soc: 85, forecastMinTemperature: -4 }), evening)).toEqual([]);
+    // Lead-acid packs can be charged in the cold
+    expect(kinds(state({ batteryType: "lead_acid", forecastMinTemperature: -4 }), evening)).toEqual(["charge_tonight"]);
+  });
+
+  it("should respect the settings, quiet hours and cooldowns", () => {
+    const settings = { ...DEFAULT_BATTERY_REMINDER_SETTINGS, chargeTonight: false };
+    expect(kinds(state({ settings }), evening)).toEqual([]);
+    expect(kinds(state({ settings: { ...DEFAULT_BATTERY_REMINDER_SETTINGS, enabled: false } }), evening)).toEqual([]);
+    // 03:00 KST
+    const night = state({ soc: 10, forecastMinTemperature: -4, nextRide: null });
+    expect(kinds(night, evening + 7 * HOUR)).toEqual([]);
+    expect(kinds(state({ lastSent: { charge_tonight: evening - 2 * HOUR } }), evening)).toEqual([]);
+    expect(kinds(state({ lastSent: { charge_tonight: evening - DAY } }), evening)).toEqual(["charge_tonight"]);
+  });
+
+  it("should find the coldest forecast hour in the window", () => {
+    const hours = [
+      { time: new Date(evening + HOUR), temperature: 2, precipitationType: 0 },
+      { time: new Date(evening + 6 * HOUR), temperature: -3, precipitationType: 0 },
+      { time: new Date(evening + 20 * HOUR), temperature: -8, precipitationType: 0 },
+      { time: new Date(evening + 2 * HOUR), temperature: null, precipitationType: 0 },
+    ];
+    expect(minForecastTemperature(hours, evening, evening + 12 * HOUR)).toBe(-3);
+    expect(minForecastTemperature(hours, evening + 30 * HOUR, evening + 40 * HOUR)).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { toTariff } from "../charging";
+import {
+  chargeCost,
+  chargeEnergy,
+  localDateString,
+  summarizeChargingByMonth,
+  tariffRateAt,
+  type Tariff,
+} from "../../shared/charging";
+
+// 150원/kWh, 80원/kWh overnight (23-9h)
+const timeOfUse: Tariff = { baseRate: 150, periods: [{ startHour: 23, endHour: 9, rate: 80 }] };
+
+describe("Charging sessions", () => {
+  it("should compute the energy added and drawn from the wall", () => {
+    // 48V 15Ah pack from 20% to 100%
+    const energy = chargeEnergy(20, 100, 720, 0.8);
+    expect(energy.energyAddedWh).toBeCloseTo(576);
+    expect(energy.energyFromGridWh).toBeCloseTo(720);
+    expect(energy.cycleFraction).toBeCloseTo(0.8);
+    // Voltage readings that went down give nothing
+    expect(chargeEnergy(60, 55, 720).energyAddedWh).toBe(0);
+  });
+
+  it("should pick the time-of-use rate, including periods past midnight", () => {
+    expect(tariffRateAt(timeOfUse, 23)).toBe(80);
+    expect(tariffRateAt(timeOfUse, 3)).toBe(80);
+    expect(tariffRateAt(timeOfUse, 9)).toBe(150);
+    expect(tariffRateAt(timeOfUse, 14)).toBe(150);
+  });
+
+  it("should price the draw by the local hour it happened in", () => {
+    // 1 kWh over two hours from 22:00 KST: half at the day rate, half overnight
+    const startedAt = new Date("2026-03-10T13:00:00Z");
+    expect(chargeCost(timeOfUse, 1000, { startedAt, durationMinutes: 120 })).toBeCloseTo(115);
+    // Same moment in UTC is the afternoon
+    expect(chargeCost(timeOfUse, 1000, { startedAt, durationMinutes: 120, utcOffsetMinutes: 0 })).toBeCloseTo(150);
+  });
+
+  it("should use the charger's power when the duration is unknown", () => {
+    // 500 Wh at 250 W from 08:00 KST lasts two hours: 08-09h overnight, 09-10h day
+    const startedAt = new Date("2026-03-10T23:00:00Z");
+    expect(chargeCost(timeOfUse, 500, { startedAt, chargerWatts: 250 })).toBeCloseTo(57.5);
+  });
+
+  it("should price long sessions the same as minute by minute, without walking every minute", () => {
+    const tariff: Tariff = { baseRate: 150, periods: [{ startHour: 23, endHour: 9, rate: 80 }, { startHour: 14, endHour: 17, rate: 210 }] };
+    const perMinute = (gridWh: number, startedAt: Date, minutes: number, offset = 540) => {
+      let cost = 0;
+      for (let minute = 0; minute < minutes; minute++) {
+        const hour = new Date(startedAt.getTime() + (offset + minute) * 60_000).getUTCHours();
+        cost += (gridWh / minutes / 1000) * tariffRateAt(tariff, hour);
+      }
+      return Math.round(cost * 100) / 100;
+    };
+    for (const [start, minutes, offset] of [
+      ["2026-03-10T13:17:42Z", 95, 540],
+      ["2026-03-10T02:59:59Z", 61, 540],
+      ["2026-03-10T21:30:00Z", 3 * 1440 - 7, 540],
+      ["2026-03-10T21:30:00Z", 500, 330],
+    ] as const) {
+      const startedAt = new Date(start);
+      expect(chargeCost(tariff, 900, { startedAt, durationMinutes: minutes, utcOffsetMinutes: offset })).toBeCloseTo(
+        perMinute(900, startedAt, minutes, offset)
+      );
+    }
+  });
+
+  it("should date charges by the local day", () => {
+    // 23:30 KST is still the 10th there
+    expect(localDateString(new Date("2026-03-10T14:30:00Z"))).toBe("2026-03-10");
+    expect(localDateString(new Date("2026-03-10T15:30:00Z"))).toBe("2026-03-11");
+    expect(localDateString(new Date("2026-03-10T15:30:00Z"), 0)).toBe("2026-03-10");
+  });
+
+  it("should read stored tariffs", () => {
+    expect(toTariff({ baseRate: "120.50", periods: null })).toEqual({ baseRate: 120.5, periods: [] });
+    expect(toTariff({ baseRate: "150", periods: JSON.stringify(timeOfUse.periods) })).toEqual(timeOfUse);
+  });
+
+  it("should total charges per month, most recent first", () => {
+    const months = summarizeChargingByMonth([
+      { chargeDate: "2026-02-27", energyAddedWh: 500, energyFromGridWh: 600, cost: 90, cycleFraction: 0.7 },
+      { chargeDate: "2026-03-02", energyAddedWh: 400, energyFromGridWh: 480, cost: null, cycleFraction: 0.55 },
+      { chargeDate: "2026-03-15", energyAddedWh: 300, energyFromGridWh: 360, cost: 54, cycleFraction: 0.4 },
+    ]);
+    expect(months.map((m) => m.month)).toEqual(["2026-03", "2026-02"]);
+    expect(months[0]).toMatchObject({ charges: 2, energyFromGridWh: 840, cost: 54 });
+    expect(months[0].cycles).toBeCloseTo(0.95);
+  });
+});
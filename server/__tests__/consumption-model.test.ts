@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { fitConsumptionModel, predictWhPerKm, type ConsumptionSample } from "../consumption-model";
+
+// 25 Wh/km at 20km/h, +1 Wh/km per km/h, +0.5 Wh/km per m/km climbed
+function ride(speedKmh: number, climbPerKm: number, noise = 0): ConsumptionSample {
+  return {
+    distanceKm: 10,
+    whPerKm: 25 + (speedKmh - 20) + 0.5 * climbPerKm + noise,
+    speedKmh,
+    climbPerKm,
+    temperature: 22,
+    windSpeed: null,
+    riderWeight: null,
+  };
+}
+
+describe("Consumption model", () => {
+  const rides = [
+    ride(15, 0, 0.3),
+    ride(18, 10, -0.2),
+    ride(20, 0, 0.1),
+    ride(22, 20, -0.3),
+    ride(25, 5, 0.2),
+    ride(28, 0, -0.1),
+    ride(17, 15, 0.2),
+    ride(24, 10, -0.2),
+    ride(21, 0, 0),
+    ride(19, 5, 0.1),
+    ride(26, 15, -0.1),
+    ride(16, 20, 0),
+  ];
+
+  it("should have no model without usable rides", () => {
+    expect(fitConsumptionModel([])).toBeNull();
+    // Too short to read a SOC drop from
+    expect(fitConsumptionModel([{ distanceKm: 0.5, whPerKm: 30 }])).toBeNull();
+  });
+
+  it("should learn that faster and hillier rides use more", () => {
+    const model = fitConsumptionModel(rides)!;
+    const slowFlat = predictWhPerKm(model, { speedKmh: 18, climbPerKm: 0 });
+    const fastFlat = predictWhPerKm(model, { speedKmh: 26, climbPerKm: 0 });
+    const slowHilly = predictWhPerKm(model, { speedKmh: 18, climbPerKm: 20 });
+
+    expect(fastFlat.whPerKm).toBeGreaterThan(slowFlat.whPerKm + 4);
+    expect(slowHilly.whPerKm).toBeGreaterThan(slowFlat.whPerKm + 4);
+    // 23 Wh/km, pulled slightly toward the mean by the ridge penalty
+    expect(slowFlat.whPerKm).toBeGreaterThan(22);
+    expect(slowFlat.whPerKm).toBeLessThan(24.5);
+  });
+
+  it("should put the prediction inside its interval", () => {
+    const model = fitConsumptionModel(rides)!;
+    const prediction = predictWhPerKm(model, {});
+    expect(prediction.low).toBeLessThan(prediction.whPerKm);
+    expect(prediction.high).toBeGreaterThan(prediction.whPerKm);
+  });
+
+  it("should widen the interval for conditions it hasn't seen", () => {
+    const model = fitConsumptionModel(rides)!;
+    const usual = predictWhPerKm(model, { speedKmh: 21, climbPerKm: 8 });
+    const unusual = predictWhPerKm(model, { speedKmh: 45, climbPerKm: 60 });
+    expect(unusual.high - unusual.low).toBeGreaterThan(usual.high - usual.low);
+  });
+
+  it("should fall back to the mean with a wide interval for a few rides", () => {
+    const model = fitConsumptionModel([ride(15, 0), ride(25, 0)])!;
+    expect(model.active.every((active) => !active)).toBe(true);
+    const prediction = predictWhPerKm(model, { speedKmh: 30 });
+    expect(prediction.whPerKm).toBeCloseTo(25, 0);
+    expect(prediction.high - prediction.low).toBeGreaterThan(10);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { HgtTile, hgtTileName } from "../elevation/hgt";
+import { computeElevationGainLoss, correctTrackElevation, lookupElevations } from "../elevation";
+
+// 11x11 sample tile: elevation rises 10m per sample row going south, 1m per column going east
+function makeTile(size = 11, voidAt?: [number, number]): Uint8Array {
+  const data = Buffer.alloc(size * size * 2);
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const value = voidAt && voidAt[0] === row && voidAt[1] === col ? -32768 : row * 10 + col;
+      data.writeInt16BE(value, (row * size + col) * 2);
+    }
+  }
+  return new Uint8Array(data);
+}
+
+describe("HGT tiles", () => {
+  it("should name tiles after their south-west corner", () => {
+    expect(hgtTileName(37.56, 127.02)).toBe("N37E127.hgt");
+    expect(hgtTileName(-33.9, 18.4)).toBe("S34E018.hgt");
+    expect(hgtTileName(40.7, -74.0)).toBe("N40W074.hgt");
+  });
+
+  it("should interpolate between samples", () => {
+    const tile = new HgtTile(37, 127, makeTile());
+    // North-west corner is row 0, col 0
+    expect(tile.elevationAt(38, 127)).toBeCloseTo(0, 5);
+    // South-east corner is row 10, col 10
+    expect(tile.elevationAt(37, 128)).toBeCloseTo(110, 5);
+    // Halfway between rows 2/3 and columns 4/5
+    expect(tile.elevationAt(37.75, 127.45)).toBeCloseTo(29.5, 5);
+    expect(tile.elevationAt(36.5, 127.5)).toBeNull();
+  });
+
+  it("should skip void samples", () => {
+    const tile = new HgtTile(37, 127, makeTile(11, [0, 0]));
+    expect(tile.elevationAt(38, 127)).toBeNull();
+    expect(tile.elevationAt(37.95, 127.05)).not.toBeNull();
+  });
+
+  it("should reject files that are not square tiles", () => {
+    expect(() => new HgtTile(37, 127, new Uint8Array(10))).toThrow();
+  });
+});
+
+describe("Track elevation correction", () => {
+  let demPath: string;
+
+  beforeAll(() => {
+    demPath = mkdtempSync(path.join(tmpdir(), "dem-"));
+    writeFileSync(path.join(demPath, "N37E127.hgt"), makeTile());
+  });
+
+  afterAll(() => {
+    rmSync(demPath, { recursive: true, force: true });
+  });
+
+  it("should return null elevations outside loaded tiles", async () => {
+    const elevations = await lookupElevations(
+      [{ latitude: 37.5, longitude: 127.5 }, { latitude: 35.1, longitude: 129.0 }],
+      demPath
+    );
+    expect(elevations[0]).toBeCloseTo(55, 5);
+    expect(elevations[1]).toBeNull();
+  });
+
+  it("should replace noisy GPS altitudes and compute gain/loss", async () => {
+    // Ride south (uphill) then back north
+    const track = [37.9, 37.7, 37.5, 37.7, 37.9].map((latitude, i) => ({
+      latitude,
+      longitude: 127,
+      altitude: i % 2 === 0 ? 500 : null,
+      timestamp: i * 1000,
+    }));
+    const result = await correctTrackElevation(JSON.stringify(track), demPath);
+
+    expect(result).not.toBeNull();
+    const points = JSON.parse(result!.gpsPointsJson);
+    expect(points.map((p: any) => p.altitude)).toEqual([10, 30, 50, 30, 10]);
+    expect(points[1].timestamp).toBe(1000);
+    expect(result!.elevationGain).toBe(40);
+    expect(result!.elevationLoss).toBe(40);
+    expect(result!.coverage).toBe(1);
+  });
+
+  it("should leave tracks outside the DEM coverage alone", async () => {
+    const track = [
+      { latitude: 35.1, longitude: 129.0, altitude: 10 },
+      { latitude: 35.2, longitude: 129.0, altitude: 12 },
+    ];
+    expect(await correctTrackElevation(JSON.stringify(track), demPath)).toBeNull();
+    expect(await correctTrackElevation("not json", demPath)).toBeNull();
+  });
+
+  it("should ignore sub-meter wobble in gain/loss", () => {
+    expect(computeElevationGainLoss([10, 10.4, 10.2, 10.6, 12, null, 11.5, 9])).toEqual({ gain: 2, loss: 3 });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { RegroupMonitor, measureSpread, type RegroupMember } from "../group-regroup";
+
+// Northbound along 127.0°E; 1° of latitude ≈ 111.2km
+const METERS_PER_DEG = 111_195;
+
+function rider(userId: number, meters: number, extra: Partial<RegroupMember> = {}): RegroupMember {
+  return {
+    userId,
+    latitude: 37.5 + meters / METERS_PER_DEG,
+    longitude: 127.0,
+    speed: 20,
+    distance: meters,
+    isRiding: true,
+    timestamp: 1_000_000,
+    ...extra,
+  };
+}
+
+const NO_ROLES = { leaderId: null, sweepId: null };
+
+describe("Group regrouping", () => {
+  it("should measure the spread between the furthest and last rider", () => {
+    const spread = measureSpread([rider(1, 2000), rider(2, 1500), rider(3, 600)], NO_ROLES);
+    expect(spread?.frontUserId).toBe(1);
+    expect(spread?.backUserId).toBe(3);
+    expect(spread?.distance).toBeCloseTo(1400, 0);
+    // 1.4km at 20 km/h
+    expect(spread?.gapSeconds).toBeCloseTo(252, 0);
+  });
+
+  it("should measure from the leader to the sweep when they are assigned", () => {
+    const members = [rider(1, 2000), rider(2, 1500), rider(3, 600), rider(4, 1000)];
+    const spread = measureSpread(members, { leaderId: 2, sweepId: 4 });
+    expect(spread?.frontUserId).toBe(2);
+    expect(spread?.backUserId).toBe(4);
+    expect(spread?.distance).toBeCloseTo(500, 0);
+  });
+
+  it("should measure along the shared route when every rider is on it", () => {
+    // A switchback: close as the crow flies, far apart along the route
+    const members = [rider(1, 100, { routeProgress: 3100 }), rider(2, 0, { routeProgress: 900 })];
+    expect(measureSpread(members, NO_ROLES)?.distance).toBe(2200);
+  });
+
+  it("should leave out stopped riders and stale locations", () => {
+    const members = [
+      rider(1, 2000),
+      rider(2, 1900),
+      rider(3, 0, { isRiding: false }),
+      rider(4, 100, { timestamp: 1_000_000 - 60_000 }),
+    ];
+    expect(measureSpread(members, NO_ROLES)?.backUserId).toBe(2);
+    expect(measureSpread([rider(1, 2000)], NO_ROLES)).toBeNull();
+  });
+
+  it("should start a regroup once the spread holds and lift it when the group catches up", () => {
+    const monitor = new RegroupMonitor();
+    const spreadOut = [rider(1, 2500), rider(2, 1000)];
+
+    expect(monitor.update(spreadOut, NO_ROLES, 0)).toBeNull();
+    expect(monitor.update(spreadOut, NO_ROLES, 5_000)).toBeNull();
+    const started = monitor.update(spreadOut, NO_ROLES, 10_000);
+    expect(started?.active).toBe(true);
+    expect(started?.reason).toBe("distance");
+    expect(started?.rallyPoint.latitude).toBeCloseTo(spreadOut[0].latitude, 6);
+    expect(monitor.active()).toBe(started);
+
+    // Still apart: nothing new to broadcast
+    expect(monitor.update([rider(1, 2500), rider(2, 1800)], NO_ROLES, 20_000)).toBeNull();
+
+    const lifted = monitor.update([rider(1, 2500), rider(2, 2400)], NO_ROLES, 30_000);
+    expect(lifted?.active).toBe(false);
+    expect(monitor.active()).toBeNull();
+  });
+
+  it("should regroup on the time gap when the group is slow", () => {
+    const monitor = new RegroupMonitor();
+    // 700m at walking-pace traffic (floored to 12 km/h) is 210s
+    const slow = [rider(1, 1700, { speed: 5 }), rider(2, 1000, { speed: 5 })];
+    monitor.update(slow, NO_ROLES, 0);
+    expect(monitor.update(slow, NO_ROLES, 10_000)?.reason).toBe("time");
+  });
+
+  it("should ignore a short GPS jump", () => {
+    const monitor = new RegroupMonitor();
+    expect(monitor.update([rider(1, 5000), rider(2, 1000)], NO_ROLES, 0)).toBeNull();
+    expect(monitor.update([rider(1, 1100), rider(2, 1000)], NO_ROLES, 2_000)).toBeNull();
+    expect(monitor.update([rider(1, 5000), rider(2, 1000)], NO_ROLES, 11_000)).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildReplayTrack,
+  formatGroupRidePost,
+  summarizeGroupRide,
+  type GroupRideMemberStats,
+} from "../group-replay";
+
+const START = 1_760_000_000_000;
+
+/** One GPS point per second heading north at 5 m/s */
+function gpsJson(seconds: number): string {
+  return JSON.stringify(
+    Array.from({ length: seconds + 1 }, (_, i) => ({
+      latitude: 37.5 + i * 0.000045,
+      longitude: 127.0,
+      timestamp: START + i * 1000,
+      speed: 5,
+    }))
+  );
+}
+
+function member(userId: number, extra: Partial<GroupRideMemberStats> = {}): GroupRideMemberStats {
+  return {
+    userId,
+    name: `라이더 ${userId}`,
+    distance: 10000,
+    duration: 1800,
+    avgSpeed: 20,
+    maxSpeed: 30,
+    startTime: START,
+    endTime: START + 1800_000,
+    ...extra,
+  };
+}
+
+describe("Group ride replay", () => {
+  it("should keep a point every few seconds plus the last one", () => {
+    const track = buildReplayTrack(gpsJson(62));
+    expect(track.map((p) => (p.timestamp - START) / 1000)).toEqual([0, 5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55, 60, 62]);
+    expect(track[0].speed).toBe(18);
+  });
+
+  it("should cap the points of long rides", () => {
+    const track = buildReplayTrack(gpsJson(4 * 3600));
+    expect(track.length).toBeLessThanOrEqual(2001);
+    expect(track[track.length - 1].timestamp).toBe(START + 4 * 3600 * 1000);
+  });
+
+  it("should skip tracks it can't read", () => {
+    expect(buildReplayTrack(null)).toEqual([]);
+    expect(buildReplayTrack("not json")).toEqual([]);
+  });
+
+  it("should combine member stats", () => {
+    const summary = summarizeGroupRide([
+      member(1),
+      member(2, { distance: 12000, avgSpeed: 24, maxSpeed: 38, startTime: START + 60_000, endTime: START + 2000_000 }),
+      member(3, { distance: 8000, avgSpeed: 16, maxSpeed: 25 }),
+    ]);
+
+    expect(summary).toMatchObject({
+      memberCount: 3,
+      distance: 12000,
+      totalDistance: 30000,
+      startTime: START,
+      endTime: START + 2000_000,
+      duration: 2000,
+      topSpeed: { userId: 2, name: "라이더 2", speed: 38 },
+    });
+    // (20×10 + 24×12 + 16×8) / 30
+    expect(summary?.avgSpeed).toBe(20.5);
+    expect(summarizeGroupRide([])).toBeNull();
+  });
+
+  it("should write the community post with members by distance", () => {
+    const members = [member(1), member(2, { distance: 12000, maxSpeed: 38 })];
+    const post = formatGroupRidePost("한강 야간 라이딩", summarizeGroupRide(members)!, members);
+
+    expect(post.title).toBe("한강 야간 라이딩 그룹 라이딩");
+    expect(post.content).toContain("2명이 함께 12.0km를 달렸어요.");
+    expect(post.content).toContain("최고 38.0km/h (라이더 2)");
+    expect(post.content.indexOf("라이더 2 12.0km")).toBeLessThan(post.content.indexOf("라이더 1 10.0km"));
+  });
+});
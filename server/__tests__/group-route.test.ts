@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { RouteMonitor, parseSharedRoute, MAX_ROUTE_POINTS, type SharedRoute } from "../group-route";
+
+// Northbound along 127.0°E; 1° of latitude ≈ 111.2km
+const METERS_PER_DEG = 111_195;
+
+function north(meters: number, eastMeters = 0) {
+  return {
+    latitude: 37.5 + meters / METERS_PER_DEG,
+    longitude: 127.0 + eastMeters / (METERS_PER_DEG * Math.cos((37.5 * Math.PI) / 180)),
+  };
+}
+
+/** 5km straight route with a point every 100m */
+function straightRoute(): SharedRoute {
+  const parsed = parseSharedRoute({
+    route: { name: "한강 라이딩", points: Array.from({ length: 51 }, (_, i) => north(i * 100)) },
+  });
+  return parsed!.route!;
+}
+
+describe("Group route sharing", () => {
+  it("should validate routes and meeting points from clients", () => {
+    const parsed = parseSharedRoute({
+      route: { points: [north(0), north(1000)] },
+      meetingPoint: { name: "", latitude: 37.5, longitude: 127.0 },
+    });
+    expect(parsed?.route?.name).toBe("그룹 경로");
+    expect(parsed?.route?.totalDistance).toBeCloseTo(1000, 0);
+    expect(parsed?.meetingPoint?.name).toBe("집결지");
+
+    expect(parseSharedRoute({ route: { points: [north(0)] } })).toBeNull();
+    expect(parseSharedRoute({ route: { points: [north(0), { latitude: 95, longitude: 0 }] } })).toBeNull();
+    expect(parseSharedRoute({ route: { points: Array(MAX_ROUTE_POINTS + 1).fill(north(0)) } })).toBeNull();
+    expect(parseSharedRoute({ meetingPoint: { latitude: "37.5" } })).toBeNull();
+    // Clearing the route
+    expect(parseSharedRoute({ route: null, meetingPoint: null })).toEqual({ route: null, meetingPoint: null });
+  });
+
+  it("should locate riders along the route", () => {
+    const monitor = new RouteMonitor(straightRoute());
+    const position = monitor.locate(north(1250, 40));
+    expect(position.distanceToRoute).toBeCloseTo(40, 0);
+    expect(position.progress).toBeCloseTo(1250, 0);
+  });
+
+  it("should alert once a rider is off the route for consecutive updates", () => {
+    const monitor = new RouteMonitor(straightRoute());
+    const now = 1_000_000;
+
+    expect(monitor.update(1, "민수", north(1000), now).alerts).toEqual([]);
+    expect(monitor.update(1, "민수", north(1050, 300), now + 1000).alerts).toEqual([]);
+    expect(monitor.update(1, "민수", north(1100, 300), now + 2000).alerts).toEqual([]);
+    const { alerts } = monitor.update(1, "민수", north(1150, 300), now + 3000);
+    expect(alerts).toEqual([{ kind: "off_route", userId: 1, userName: "민수", distance: 300 }]);
+
+    // Cooldown between alerts of the same kind
+    expect(monitor.update(1, "민수", north(1200, 320), now + 4000).alerts).toEqual([]);
+    expect(monitor.update(1, "민수", north(1200, 320), now + 3000 + 2 * 60_000).alerts).toHaveLength(1);
+  });
+
+  it("should alert when a rider falls far behind the front rider", () => {
+    const monitor = new RouteMonitor(straightRoute());
+    const now = 1_000_000;
+    monitor.update(1, "선두", north(3000), now);
+
+    const results = [0, 1, 2].map((i) => monitor.update(2, "후미", north(1000 + i * 10), now + i * 1000));
+    expect(results[0].alerts).toEqual([]);
+    expect(results[1].alerts).toEqual([]);
+    expect(results[2].alerts).toEqual([{ kind: "behind", userId: 2, userName: "후미", distance: 1980 }]);
+    expect(monitor.position(2)?.progress).toBeCloseTo(1020, 0);
+
+    monitor.remove(2);
+    expect(monitor.position(2)).toBeNull();
+  });
+
+  it("should keep progress near the finish of a loop that ends beside its start", () => {
+    const points = [
+      ...Array.from({ length: 21 }, (_, i) => north(i * 100)),
+      north(2000, 300),
+      ...Array.from({ length: 19 }, (_, i) => north(1800 - i * 100, 300)),
+      north(200, 20),
+      north(0, 20),
+    ];
+    const monitor = new RouteMonitor(parseSharedRoute({ route: { points } })!.route!);
+
+    monitor.update(1, "민수", north(300, 300), 0);
+    monitor.update(1, "민수", north(200, 150), 1000);
+    const { position } = monitor.update(1, "민수", north(50, 5), 2000);
+    // Closer to the first leg, but the rider is finishing the loop
+    expect(position.progress).toBeGreaterThan(4000);
+    expect(position.distanceToRoute).toBeCloseTo(15, 0);
+  });
+});
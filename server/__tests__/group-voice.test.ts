@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { MAX_VOICE_CLIP_BYTES, MAX_VOICE_CLIP_MS, sendVoiceClip, voiceClipExtension } from "../group-voice";
+
+const rider = { id: 1, name: "라이더", profileImageUrl: null };
+
+describe("Group voice messages", () => {
+  it("should accept the formats recorders produce", () => {
+    expect(voiceClipExtension("audio/mp4")).toBe("m4a");
+    expect(voiceClipExtension("audio/webm;codecs=opus")).toBe("webm");
+    expect(voiceClipExtension("AUDIO/MPEG")).toBe("mp3");
+    expect(voiceClipExtension("audio/3gpp")).toBeNull();
+    expect(voiceClipExtension("image/png")).toBeNull();
+  });
+
+  it("should reject clips before uploading them", async () => {
+    const clip = { base64: Buffer.from("voice").toString("base64"), mimeType: "audio/mp4", duration: 3000 };
+
+    await expect(sendVoiceClip(rider, 7, { ...clip, mimeType: "video/mp4" })).rejects.toThrow("지원하지 않는 음성 형식입니다.");
+    await expect(sendVoiceClip(rider, 7, { ...clip, duration: MAX_VOICE_CLIP_MS + 1 })).rejects.toThrow("30초");
+    await expect(sendVoiceClip(rider, 7, { ...clip, base64: "" })).rejects.toThrow("녹음된 음성이 없습니다.");
+
+    const tooLarge = Buffer.alloc(MAX_VOICE_CLIP_BYTES + 1).toString("base64");
+    await expect(sendVoiceClip(rider, 7, { ...clip, base64: tooLarge })).rejects.toThrow("너무 큽니다");
+  });
+});
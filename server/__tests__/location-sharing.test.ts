@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import {
+  ALWAYS_LOCATION_MAX_AGE_MS,
+  RIDING_LOCATION_MAX_AGE_MS,
+  isLocationVisible,
+  isShareLinkActive,
+  resolveShareMode,
+} from "../location-sharing";
+
+const now = Date.UTC(2025, 4, 1, 9, 0, 0);
+const minutesAgo = (minutes: number) => new Date(now - minutes * 60_000);
+
+describe("Location sharing", () => {
+  it("should let a friend's own rule win over their lists and the default", () => {
+    expect(resolveShareMode("never", ["always"], "always")).toBe("never");
+    expect(resolveShareMode(null, ["group_riding"], "never")).toBe("group_riding");
+    expect(resolveShareMode(null, [], "never")).toBe("never");
+  });
+
+  it("should use the most open list when a friend is on several", () => {
+    expect(resolveShareMode(null, ["never", "riding", "group_riding"], null)).toBe("riding");
+    expect(resolveShareMode(null, ["group_riding", "always"], null)).toBe("always");
+  });
+
+  it("should share during rides when nothing is set", () => {
+    expect(resolveShareMode(null, [], null)).toBe("riding");
+  });
+
+  it("should show a location only in the states a mode allows", () => {
+    const solo = { isRiding: true, groupId: null, updatedAt: minutesAgo(1) };
+    const group = { isRiding: true, groupId: 7, updatedAt: minutesAgo(1) };
+    const parked = { isRiding: false, groupId: null, updatedAt: minutesAgo(60) };
+
+    expect(isLocationVisible("riding", solo, now)).toBe(true);
+    expect(isLocationVisible("riding", parked, now)).toBe(false);
+    expect(isLocationVisible("group_riding", solo, now)).toBe(false);
+    expect(isLocationVisible("group_riding", group, now)).toBe(true);
+    expect(isLocationVisible("always", parked, now)).toBe(true);
+    expect(isLocationVisible("never", group, now)).toBe(false);
+  });
+
+  it("should treat old locations as stale", () => {
+    const staleRide = { isRiding: true, groupId: null, updatedAt: new Date(now - RIDING_LOCATION_MAX_AGE_MS - 1) };
+    const oldPark = { isRiding: false, groupId: null, updatedAt: new Date(now - ALWAYS_LOCATION_MAX_AGE_MS - 1) };
+    expect(isLocationVisible("riding", staleRide, now)).toBe(false);
+    expect(isLocationVisible("always", staleRide, now)).toBe(true);
+    expect(isLocationVisible("always", oldPark, now)).toBe(false);
+  });
+
+  it("should end share links when they expire or are revoked", () => {
+    const expiresAt = new Date(now + 60 * 60_000);
+    expect(isShareLinkActive({ expiresAt, revokedAt: null }, now)).toBe(true);
+    expect(isShareLinkActive({ expiresAt, revokedAt: minutesAgo(5) }, now)).toBe(false);
+    expect(isShareLinkActive({ expiresAt: minutesAgo(1), revokedAt: null }, now)).toBe(false);
+  });
+});
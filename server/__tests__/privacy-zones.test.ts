@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { randomTrimCircle, toZoneCircle, trimGpsPointsJson } from "../privacy-zones";
+import { isInPrivacyZone, trimTrackToPrivacyZones } from "../../shared/privacy-zones";
+import { haversineDistance } from "../segments/matching";
+
+const home = { latitude: 37.5665, longitude: 126.978, radius: 300 };
+
+// A ride leaving home heading north, a point every ~110m
+const track = Array.from({ length: 10 }, (_, i) => ({
+  latitude: 37.5665 + i * 0.001,
+  longitude: 126.978,
+  timestamp: Date.UTC(2025, 4, 1, 9, 0, i * 20),
+  speed: 18,
+}));
+
+describe("Privacy zones", () => {
+  it("should drop the points inside a zone and keep the rest as they were", () => {
+    const trimmed = trimTrackToPrivacyZones(track, [home]);
+    expect(trimmed).toHaveLength(7);
+    expect(trimmed[0]).toBe(track[3]);
+    expect(trimTrackToPrivacyZones(track, [])).toBe(track);
+  });
+
+  it("should check every zone", () => {
+    const work = { latitude: 37.5755, longitude: 126.978, radius: 200 };
+    expect(isInPrivacyZone(track[9], [home])).toBe(false);
+    expect(isInPrivacyZone(track[9], [home, work])).toBe(true);
+    expect(trimTrackToPrivacyZones(track, [home, work])).toHaveLength(5);
+  });
+
+  it("should trim a stored track and keep each point's other fields", () => {
+    const trimmed = JSON.parse(trimGpsPointsJson(JSON.stringify(track), [home])!);
+    expect(trimmed).toHaveLength(7);
+    expect(trimmed[0]).toEqual(track[3]);
+  });
+
+  it("should withhold a track it can't read instead of passing it through", () => {
+    expect(trimGpsPointsJson("not json", [home])).toBeNull();
+    expect(trimGpsPointsJson('{"latitude":37.5665}', [home])).toBeNull();
+    expect(JSON.parse(trimGpsPointsJson('[{"latitude":"x"},null]', [home])!)).toEqual([]);
+    // Nothing to trim without zones
+    expect(trimGpsPointsJson("not json", [])).toBe("not json");
+    expect(trimGpsPointsJson(null, [home])).toBeNull();
+  });
+
+  it("should read zones stored as decimals", () => {
+    expect(toZoneCircle({ latitude: "37.5665000", longitude: "126.9780000", radius: 300 })).toEqual(home);
+  });
+
+  it("should trim to a shifted circle that still covers the whole zone", () => {
+    for (const [a, b, c] of [[0, 0, 0], [1, 0.3, 0], [0.999, 0.75, 0.999], [0.5, 0.5, 0.5]]) {
+      const values = [a, b, c];
+      const circle = randomTrimCircle(home, () => values.shift()!);
+      const offset = haversineDistance(home, circle);
+      expect(offset).toBeLessThanOrEqual(home.radius / 2 + 1);
+      expect(offset + home.radius).toBeLessThanOrEqual(circle.radius);
+      expect(circle.radius).toBeLessThanOrEqual(home.radius * 1.75 + 2);
+    }
+    // The rim moves with the offset, so trimmed ends don't all sit the same distance from home
+    const shifted = randomTrimCircle(home, () => 0.9);
+    expect(isInPrivacyZone(track[4], [home])).toBe(false);
+    expect(isInPrivacyZone(track[4], [shifted])).toBe(true);
+  });
+
+  it("should prefer a zone's trim circle", () => {
+    const stored = {
+      latitude: "37.5665000",
+      longitude: "126.9780000",
+      radius: 300,
+      trimLatitude: "37.5667000",
+      trimLongitude: "126.9775000",
+      trimRadius: 420,
+    };
+    expect(toZoneCircle(stored)).toEqual({ latitude: 37.5667, longitude: 126.9775, radius: 420 });
+    expect(toZoneCircle({ ...stored, trimRadius: null })).toEqual(home);
+  });
+});
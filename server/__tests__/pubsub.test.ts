@@ -0,0 +1,309 @@
+import { EventEmitter } from "events";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  GroupBus,
+  MemoryBroker,
+  MemoryPubSub,
+  PRESENCE_TTL_MS,
+  RedisPubSub,
+  type GroupEnvelope,
+  type PubSubAdapter,
+} from "../pubsub";
+import { RespParser, encodeCommand, type RedisSocket, type RedisSocketFactory, type RespValue } from "../pubsub/redis";
+
+interface Member {
+  userId: number;
+  latitude: number;
+}
+
+// Lets queued deliveries run
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("Memory pub/sub", () => {
+  it("should deliver to subscribers on every instance sharing the broker", async () => {
+    const broker = new MemoryBroker();
+    const a = new MemoryPubSub(broker);
+    const b = new MemoryPubSub(broker);
+    const received: string[] = [];
+    await a.subscribe("chan", (message) => received.push(`a:${message}`));
+    await b.subscribe("chan", (message) => received.push(`b:${message}`));
+
+    await a.publish("chan", "hello");
+    await flush();
+    expect(received.sort()).toEqual(["a:hello", "b:hello"]);
+
+    await b.unsubscribe("chan");
+    await a.publish("chan", "again");
+    await flush();
+    expect(received).toHaveLength(3);
+  });
+
+  it("should expire hashes after their ttl", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(1_000_000);
+    const adapter = new MemoryPubSub(new MemoryBroker());
+    await adapter.hset("key", "1", "one", 1000);
+    await adapter.hset("key", "2", "two", 1000);
+    await adapter.hdel("key", "1");
+    expect(await adapter.hgetall("key")).toEqual({ "2": "two" });
+
+    vi.setSystemTime(1_001_000);
+    expect(await adapter.hgetall("key")).toEqual({});
+  });
+});
+
+describe("Group bus", () => {
+  function instances() {
+    const broker = new MemoryBroker();
+    return [
+      new GroupBus<Member>(new MemoryPubSub(broker), "a"),
+      new GroupBus<Member>(new MemoryPubSub(broker), "b"),
+    ];
+  }
+
+  it("should fan events out to every instance with members of the group", async () => {
+    const [a, b] = instances();
+    const seenByA: GroupEnvelope<Member>[] = [];
+    const seenByB: GroupEnvelope<Member>[] = [];
+    await a.join(7, (envelope) => seenByA.push(envelope));
+    await b.join(7, (envelope) => seenByB.push(envelope));
+
+    await a.publish(7, { kind: "deliver", message: "{}" });
+    await b.publish(8, { kind: "deliver", message: "other group" });
+    await flush();
+
+    expect(seenByA).toHaveLength(1);
+    expect(seenByB).toHaveLength(1);
+    expect(a.isLocal(seenByA[0])).toBe(true);
+    expect(b.isLocal(seenByB[0])).toBe(false);
+  });
+
+  it("should share presence with instances that join later", async () => {
+    const [a, b] = instances();
+    await a.updatePresence(7, { userId: 1, latitude: 37.5 });
+
+    const presence = await b.getPresence(7);
+    expect(presence.map((entry) => entry.member)).toEqual([{ userId: 1, latitude: 37.5 }]);
+    expect(presence[0].origin).toBe("a");
+    // An instance's own members come from its sockets
+    expect(await a.getPresence(7)).toEqual([]);
+
+    await a.removePresence(7, 1);
+    expect(await b.getPresence(7)).toEqual([]);
+  });
+
+  it("should drop presence that was not refreshed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(1_000_000);
+    const [a, b] = instances();
+    await a.updatePresence(7, { userId: 1, latitude: 37.5 });
+
+    vi.setSystemTime(1_000_000 + PRESENCE_TTL_MS);
+    expect(await b.getPresence(7)).toEqual([]);
+  });
+
+  it("should handle events locally when publishing fails", async () => {
+    const failing: PubSubAdapter = {
+      subscribe: async () => {},
+      unsubscribe: async () => {},
+      publish: () => Promise.reject(new Error("down")),
+      hset: async () => {},
+      hdel: async () => {},
+      hgetall: async () => ({}),
+      close: async () => {},
+    };
+    const bus = new GroupBus<Member>(failing, "a");
+    const seen: GroupEnvelope<Member>[] = [];
+    await bus.join(7, (envelope) => seen.push(envelope));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await bus.publish(7, { kind: "leave", userId: 1 });
+    expect(seen).toEqual([{ origin: "a", event: { kind: "leave", userId: 1 } }]);
+  });
+});
+
+describe("RESP protocol", () => {
+  it("should encode commands as arrays of bulk strings", () => {
+    expect(encodeCommand(["PUBLISH", "chan", "héllo"]).toString()).toBe(
+      "*3\r\n$7\r\nPUBLISH\r\n$4\r\nchan\r\n$6\r\nhéllo\r\n"
+    );
+  });
+
+  it("should parse replies split across chunks", () => {
+    const values: RespValue[] = [];
+    const parser = new RespParser((value) => values.push(value));
+    const reply = "+OK\r\n:3\r\n$-1\r\n*3\r\n$7\r\nmessage\r\n$4\r\nchan\r\n$5\r\nhello\r\n-ERR wrong\r\n";
+
+    for (const char of Buffer.from(reply)) {
+      parser.feed(Buffer.from([char]));
+    }
+
+    expect(values.slice(0, 4)).toEqual(["OK", 3, null, ["message", "chan", "hello"]]);
+    expect(values[4]).toBeInstanceOf(Error);
+    expect((values[4] as Error).message).toBe("ERR wrong");
+  });
+});
+
+// In-process stand-in for a Redis server: answers the commands the adapter sends and can go down
+class FakeRedis {
+  up = true;
+  readonly commands: string[][] = [];
+  private readonly subscriptions = new Map<FakeSocket, Set<string>>();
+  private readonly hashes = new Map<string, Map<string, string>>();
+
+  readonly createSocket: RedisSocketFactory = () => {
+    const socket = new FakeSocket(this);
+    setTimeout(() => {
+      if (this.up) {
+        this.subscriptions.set(socket, new Set());
+        socket.emit("connect");
+      } else {
+        socket.emit("error", new Error("connect ECONNREFUSED"));
+        socket.emit("close");
+      }
+    }, 0);
+    return { socket: socket as unknown as RedisSocket, connectEvent: "connect" };
+  };
+
+  /** Drops every open connection and refuses new ones until it's back up */
+  goDown(): void {
+    this.up = false;
+    [...this.subscriptions.keys()].forEach((socket) => socket.destroy());
+  }
+
+  disconnect(socket: FakeSocket): boolean {
+    return this.subscriptions.delete(socket);
+  }
+
+  handle(socket: FakeSocket, [name, ...args]: string[]): void {
+    this.commands.push([name, ...args]);
+    switch (name) {
+      case "AUTH":
+      case "SELECT":
+        return socket.reply("+OK\r\n");
+      case "SUBSCRIBE":
+        this.subscriptions.get(socket)?.add(args[0]);
+        return socket.reply(encodeCommand(["subscribe", args[0]]).toString());
+      case "PUBLISH": {
+        const subscribers = [...this.subscriptions].filter(([, channels]) => channels.has(args[0]));
+        subscribers.forEach(([subscriber]) => subscriber.reply(encodeCommand(["message", args[0], args[1]]).toString()));
+        return socket.reply(`:${subscribers.length}\r\n`);
+      }
+      case "HSET": {
+        const hash = this.hashes.get(args[0]) ?? new Map<string, string>();
+        this.hashes.set(args[0], hash.set(args[1], args[2]));
+        return socket.reply(":1\r\n");
+      }
+      case "HGETALL":
+        return socket.reply(encodeCommand([...(this.hashes.get(args[0]) ?? new Map<string, string>())].flat()).toString());
+      default:
+        return socket.reply(":1\r\n");
+    }
+  }
+}
+
+class FakeSocket extends EventEmitter {
+  private readonly parser = new RespParser((value) => this.server.handle(this, value as string[]));
+
+  constructor(private readonly server: FakeRedis) {
+    super();
+  }
+
+  write(data: Buffer): boolean {
+    this.parser.feed(data);
+    return true;
+  }
+
+  reply(data: string): void {
+    setTimeout(() => this.emit("data", Buffer.from(data)), 0);
+  }
+
+  end(): void {
+    this.destroy();
+  }
+
+  destroy(): void {
+    if (this.server.disconnect(this)) setTimeout(() => this.emit("close"), 0);
+  }
+}
+
+describe("Redis pub/sub adapter", () => {
+  // Runs the fake server's replies (and reconnect delays) while the promise is pending
+  const settle = async <T>(promise: Promise<T>, ms = 10): Promise<T> => {
+    await vi.advanceTimersByTimeAsync(ms);
+    return promise;
+  };
+
+  it("should authenticate, fan out and share hashes", async () => {
+    vi.useFakeTimers();
+    const server = new FakeRedis();
+    const a = new RedisPubSub("redis://:secret@redis.local/2", server.createSocket);
+    const b = new RedisPubSub("redis://:secret@redis.local/2", server.createSocket);
+    const received: string[] = [];
+
+    await settle(b.subscribe("chan", (message) => received.push(message)));
+    await settle(a.publish("chan", "hello"));
+    await settle(a.hset("presence", "1", "here", PRESENCE_TTL_MS));
+
+    expect(received).toEqual(["hello"]);
+    expect(await settle(b.hgetall("presence"))).toEqual({ 1: "here" });
+    expect(server.commands.slice(0, 2)).toEqual([["AUTH", "secret"], ["SELECT", "2"]]);
+    await a.close();
+    await b.close();
+  });
+
+  it("should fail commands while Redis is down and resubscribe once it's back", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const server = new FakeRedis();
+    const a = new RedisPubSub("redis://redis.local", server.createSocket);
+    const b = new RedisPubSub("redis://redis.local", server.createSocket);
+    const received: string[] = [];
+    await settle(b.subscribe("chan", (message) => received.push(message)));
+    await settle(a.publish("chan", "before"));
+
+    server.goDown();
+    const lost = expect(a.publish("chan", "lost")).rejects.toThrow("Redis connection closed");
+    await settle(lost);
+    // Reconnect attempts keep going while it's down
+    await settle(Promise.resolve(), 3000);
+
+    server.up = true;
+    await settle(Promise.resolve(), 1000);
+    await settle(a.publish("chan", "after"));
+
+    expect(received).toEqual(["before", "after"]);
+    expect(server.commands.filter(([name]) => name === "SUBSCRIBE")).toHaveLength(2);
+    await a.close();
+    await b.close();
+  });
+});
+
+// Runs against a real server: REDIS_URL=redis://localhost:6379 pnpm test
+describe.skipIf(!process.env.REDIS_URL)("Redis pub/sub", () => {
+  it("should fan out and share presence across two connections", async () => {
+    const a = new GroupBus<Member>(new RedisPubSub(process.env.REDIS_URL!), "a");
+    const b = new GroupBus<Member>(new RedisPubSub(process.env.REDIS_URL!), "b");
+    const groupId = 900_000 + Math.floor(Math.random() * 1000);
+    try {
+      const seen: GroupEnvelope<Member>[] = [];
+      await b.join(groupId, (envelope) => seen.push(envelope));
+
+      await a.updatePresence(groupId, { userId: 1, latitude: 37.5 });
+      await vi.waitFor(() => expect(seen).toHaveLength(1));
+      expect(seen[0].event).toEqual({ kind: "presence", member: { userId: 1, latitude: 37.5 } });
+      expect((await b.getPresence(groupId)).map((entry) => entry.member.userId)).toEqual([1]);
+
+      await a.removePresence(groupId, 1);
+      expect(await b.getPresence(groupId)).toEqual([]);
+    } finally {
+      await a.close();
+      await b.close();
+    }
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  LOCATION_GRID_DEG,
+  approximateDistance,
+  approximateLocation,
+  matchesRideFilters,
+  rideTypicalSpeed,
+  roundDistanceKm,
+  typicalSpeed,
+} from "../ride-discovery";
+import { scooterClassForVoltage } from "../../shared/ride-discovery";
+
+describe("Ride discovery", () => {
+  it("should take a rider's typical speed from their latest rides", () => {
+    expect(typicalSpeed([18, 22, 20])).toBe(20);
+    expect(typicalSpeed([18, 22])).toBe(20);
+    // Only the 20 newest rides count
+    expect(typicalSpeed([...Array(20).fill(15), ...Array(30).fill(30)])).toBe(15);
+    expect(typicalSpeed([0])).toBeNull();
+    expect(typicalSpeed([])).toBeNull();
+  });
+
+  it("should fall back to the host's pace when no rider has a typical speed", () => {
+    expect(rideTypicalSpeed([14, null, 18, 22], "fast")).toBe(18);
+    expect(rideTypicalSpeed([null], "relaxed")).toBe(12.5);
+    expect(rideTypicalSpeed([], null)).toBeNull();
+  });
+
+  it("should never return an exact meeting point", () => {
+    const home = { latitude: 37.566535, longitude: 126.977969 };
+    const neighbor = { latitude: 37.567001, longitude: 126.978401 };
+    const approximate = approximateLocation(home);
+
+    expect(approximate).not.toEqual(home);
+    expect(approximateLocation(neighbor)).toEqual(approximate);
+    expect(Math.abs(approximate.latitude - home.latitude)).toBeLessThanOrEqual(LOCATION_GRID_DEG / 2);
+    expect(Math.abs(approximate.longitude - home.longitude)).toBeLessThanOrEqual(LOCATION_GRID_DEG / 2);
+  });
+
+  it("should measure distances to the snapped meeting point", () => {
+    const home = { latitude: 37.566535, longitude: 126.977969 };
+    const neighbor = { latitude: 37.567001, longitude: 126.978401 };
+    // Probing from anywhere, even the meeting point itself, can't tell points in one cell apart
+    for (const origin of [home, { latitude: 37.55, longitude: 126.99 }, { latitude: 37.6, longitude: 126.9 }]) {
+      expect(approximateDistance(origin, home)).toBe(approximateDistance(origin, neighbor));
+    }
+    expect(approximateDistance(home, home)).toBeGreaterThan(0);
+  });
+
+  it("should round distances to half kilometers", () => {
+    expect(roundDistanceKm(30)).toBe(0.5);
+    expect(roundDistanceKm(1240)).toBe(1);
+    expect(roundDistanceKm(1260)).toBe(1.5);
+  });
+
+  it("should filter by pace and scooter class", () => {
+    const ride = { typicalSpeed: 18, scooterClasses: ["performance" as const] };
+
+    expect(matchesRideFilters(ride, {})).toBe(true);
+    expect(matchesRideFilters(ride, { minSpeed: 15, maxSpeed: 21 })).toBe(true);
+    expect(matchesRideFilters(ride, { minSpeed: 20 })).toBe(false);
+    expect(matchesRideFilters({ ...ride, typicalSpeed: null }, { maxSpeed: 25 })).toBe(false);
+    expect(matchesRideFilters(ride, { scooterClass: "performance" })).toBe(true);
+    expect(matchesRideFilters(ride, { scooterClass: "standard" })).toBe(false);
+  });
+
+  it("should classify scooters by battery voltage", () => {
+    expect(scooterClassForVoltage(36)).toBe("standard");
+    expect(scooterClassForVoltage(52)).toBe("performance");
+    expect(scooterClassForVoltage(72)).toBe("high_performance");
+    expect(scooterClassForVoltage(null)).toBeNull();
+  });
+});
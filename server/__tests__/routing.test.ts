@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import { deflateSync } from "zlib";
+import { readOsmPbfBuffer, type OsmNode, type OsmWay } from "../routing/osm-pbf";
+import { buildRoadGraph, classifyWay, findNearestVertex, findPath } from "../routing/road-graph";
+import { RoutingError, maneuverForTurn, routeOnGraph } from "../routing";
+
+// ==================== Minimal protobuf encoder for test fixtures ====================
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 128) {
+    bytes.push((value % 128) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+const zigzag = (value: number) => (value < 0 ? -value * 2 - 1 : value * 2);
+const fieldVarint = (field: number, value: number) => [...varint(field * 8), ...varint(value)];
+const fieldBytes = (field: number, bytes: number[] | Uint8Array) => [
+  ...varint(field * 8 + 2),
+  ...varint(bytes.length),
+  ...bytes,
+];
+const packed = (field: number, values: number[]) => fieldBytes(field, values.flatMap(varint));
+const utf8 = (text: string) => Array.from(Buffer.from(text, "utf8"));
+
+function encodePbf(nodes: OsmNode[], ways: OsmWay[]): Uint8Array {
+  const strings = [""];
+  const stringId = (s: string) => {
+    let id = strings.indexOf(s);
+    if (id === -1) id = strings.push(s) - 1;
+    return id;
+  };
+
+  // Dense nodes, delta-coded with the default granularity of 100 nanodegrees
+  const ids: number[] = [];
+  const lats: number[] = [];
+  const lons: number[] = [];
+  const keysVals: number[] = [];
+  let prev = { id: 0, lat: 0, lon: 0 };
+  for (const node of nodes) {
+    const lat = Math.round(node.lat * 1e7);
+    const lon = Math.round(node.lon * 1e7);
+    ids.push(zigzag(node.id - prev.id));
+    lats.push(zigzag(lat - prev.lat));
+    lons.push(zigzag(lon - prev.lon));
+    for (const [k, v] of Object.entries(node.tags)) keysVals.push(stringId(k), stringId(v));
+    keysVals.push(0);
+    prev = { id: node.id, lat, lon };
+  }
+  const dense = [...packed(1, ids), ...packed(8, lats), ...packed(9, lons), ...packed(10, keysVals)];
+
+  const wayMessages = ways.map((way) => {
+    const keys = Object.keys(way.tags).map(stringId);
+    const vals = Object.values(way.tags).map(stringId);
+    let last = 0;
+    const refs = way.refs.map((ref) => {
+      const delta = zigzag(ref - last);
+      last = ref;
+      return delta;
+    });
+    return fieldBytes(3, [...fieldVarint(1, way.id), ...packed(2, keys), ...packed(3, vals), ...packed(8, refs)]);
+  });
+
+  const stringTable = fieldBytes(1, strings.flatMap((s) => fieldBytes(1, utf8(s))));
+  const block = [
+    ...stringTable,
+    ...fieldBytes(2, fieldBytes(2, dense)),
+    ...fieldBytes(2, wayMessages.flat()),
+  ];
+
+  const blob = (type: string, payload: number[]) => {
+    const compressed = deflateSync(Buffer.from(payload));
+    const blobBytes = [...fieldVarint(2, payload.length), ...fieldBytes(3, compressed)];
+    const header = [...fieldBytes(1, utf8(type)), ...fieldVarint(3, blobBytes.length)];
+    const length = [(header.length >>> 24) & 0xff, (header.length >>> 16) & 0xff, (header.length >>> 8) & 0xff, header.length & 0xff];
+    return [...length, ...header, ...blobBytes];
+  };
+
+  const osmHeader = fieldBytes(4, utf8("OsmSchema-V0.6"));
+  return new Uint8Array([...blob("OSMHeader", osmHeader), ...blob("OSMData", block)]);
+}
+
+// ==================== Test network ====================
+//
+//   1 ---- 2 ---- 3        1-2-3: 주 도로(primary), 2-5-3: 자전거도로 우회
+//          |      |
+//          5 ---- 6        4-1: 고속도로(motorway), 6-7: 계단(steps)
+//   4             7
+
+const node = (id: number, lat: number, lon: number, tags: Record<string, string> = {}): OsmNode => ({ id, lat, lon, tags });
+
+const NODES: OsmNode[] = [
+  node(1, 37.5, 127.0),
+  node(2, 37.5, 127.002),
+  node(3, 37.5, 127.004, { highway: "traffic_signals" }),
+  node(4, 37.498, 126.998),
+  node(5, 37.4995, 127.002),
+  node(6, 37.4995, 127.004),
+  node(7, 37.499, 127.004),
+];
+
+const WAYS: OsmWay[] = [
+  { id: 10, refs: [1, 2, 3], tags: { highway: "primary", name: "테헤란로" } },
+  { id: 11, refs: [2, 5, 6, 3], tags: { highway: "cycleway", name: "한강자전거길" } },
+  { id: 12, refs: [4, 1], tags: { highway: "motorway", name: "고속도로" } },
+  { id: 13, refs: [6, 7], tags: { highway: "steps" } },
+];
+
+describe("OSM PBF reader", () => {
+  it("should decode dense nodes and ways", async () => {
+    const nodes: OsmNode[] = [];
+    const ways: OsmWay[] = [];
+    await readOsmPbfBuffer(encodePbf(NODES, WAYS), {
+      node: (n) => nodes.push(n),
+      way: (w) => ways.push(w),
+    });
+
+    expect(nodes).toHaveLength(NODES.length);
+    expect(nodes[2].id).toBe(3);
+    expect(nodes[2].lat).toBeCloseTo(37.5, 7);
+    expect(nodes[2].lon).toBeCloseTo(127.004, 7);
+    expect(nodes[2].tags).toEqual({ highway: "traffic_signals" });
+    expect(nodes[0].tags).toEqual({});
+
+    expect(ways).toHaveLength(WAYS.length);
+    expect(ways[1].refs).toEqual([2, 5, 6, 3]);
+    expect(ways[0].tags.name).toBe("테헤란로");
+  });
+
+  it("should handle node ids beyond 32 bits", async () => {
+    const bigId = 11_000_000_123;
+    const nodes: OsmNode[] = [];
+    await readOsmPbfBuffer(encodePbf([node(bigId, 35.1, 129.0)], []), { node: (n) => nodes.push(n) });
+    expect(nodes[0].id).toBe(bigId);
+  });
+});
+
+describe("Scooter routing profile", () => {
+  it("should exclude motorways, steps and ways closed to bicycles", () => {
+    expect(classifyWay({ highway: "motorway" })).toBeNull();
+    expect(classifyWay({ highway: "trunk" })).toBeNull();
+    expect(classifyWay({ highway: "steps" })).toBeNull();
+    expect(classifyWay({ highway: "residential", bicycle: "no" })).toBeNull();
+    expect(classifyWay({ highway: "footway" })).toBeNull();
+    expect(classifyWay({ highway: "footway", bicycle: "designated" })).not.toBeNull();
+    expect(classifyWay({ highway: "service", access: "private" })).toBeNull();
+  });
+
+  it("should prefer bike lanes", () => {
+    const plain = classifyWay({ highway: "secondary" })!;
+    const withLane = classifyWay({ highway: "secondary", "cycleway:right": "lane" })!;
+    expect(withLane.bikeLane).toBe(true);
+    expect(withLane.factor).toBeLessThan(plain.factor);
+  });
+
+  it("should respect oneway tags with contraflow exceptions", () => {
+    expect(classifyWay({ highway: "residential", oneway: "yes" })!.oneway).toBe("forward");
+    expect(classifyWay({ highway: "residential", oneway: "-1" })!.oneway).toBe("backward");
+    expect(classifyWay({ highway: "residential", oneway: "yes", "oneway:bicycle": "no" })!.oneway).toBe("no");
+    expect(classifyWay({ highway: "tertiary", junction: "roundabout" })!.oneway).toBe("forward");
+  });
+});
+
+describe("Route search", () => {
+  const graph = buildRoadGraph(NODES, WAYS);
+
+  it("should take the bike path detour over the primary road", () => {
+    const route = routeOnGraph(
+      graph,
+      { latitude: 37.5, longitude: 127.0 },
+      { latitude: 37.5, longitude: 127.004 },
+      { maxSpeedKmh: 25, language: "ko" }
+    );
+
+    expect(route.polyline).toHaveLength(5); // 1 → 2 → 5 → 6 → 3
+    expect(route.steps[0].instruction).toContain("테헤란로");
+    expect(route.steps[0].maneuver).toBeUndefined();
+    expect(route.steps.some((s) => s.instruction.includes("한강자전거길"))).toBe(true);
+    expect(route.steps.every((s) => typeof s.distance === "string" && typeof s.duration === "string")).toBe(true);
+    expect(route.distanceValue).toBeGreaterThan(350);
+  });
+
+  it("should not snap to or route over motorways and steps", () => {
+    // 4번(고속도로 끝)과 7번(계단 끝)은 주행 가능한 도로와 연결되지 않음
+    const v1 = findNearestVertex(graph, 37.5, 127.0)!;
+    expect(findNearestVertex(graph, 37.498, 126.998, 50)).toBeNull();
+    expect(findNearestVertex(graph, 37.499, 127.004, 30)).toBeNull();
+    expect(findPath(graph, v1, v1, 25)!.distance).toBe(0);
+  });
+
+  it("should apply the max-speed setting to duration", () => {
+    const origin = { latitude: 37.5, longitude: 127.0 };
+    const destination = { latitude: 37.4995, longitude: 127.004 };
+    const fast = routeOnGraph(graph, origin, destination, { maxSpeedKmh: 25, language: "en" });
+    const slow = routeOnGraph(graph, origin, destination, { maxSpeedKmh: 10, language: "en" });
+    expect(slow.durationValue).toBeGreaterThan(fast.durationValue * 2);
+  });
+
+  it("should throw a RoutingError outside the covered area", () => {
+    expect(() =>
+      routeOnGraph(graph, { latitude: 35.1, longitude: 129.0 }, { latitude: 37.5, longitude: 127.0 }, {
+        maxSpeedKmh: 25,
+        language: "ko",
+      })
+    ).toThrow(RoutingError);
+  });
+
+  it("should map heading changes to Google maneuver names", () => {
+    expect(maneuverForTurn(5)).toBe("straight");
+    expect(maneuverForTurn(-90)).toBe("turn-left");
+    expect(maneuverForTurn(35)).toBe("turn-slight-right");
+    expect(maneuverForTurn(170)).toBe("uturn-right");
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  REMINDER_LEAD_MS,
+  START_GRACE_MS,
+  createScheduledRide,
+  dueRideAction,
+  formatScheduledRidePost,
+  pickWaitlistPromotions,
+  planRsvp,
+  resolveRsvpStatus,
+} from "../scheduled-rides";
+
+const now = Date.UTC(2026, 9, 19, 0, 0);
+
+describe("Scheduled group rides", () => {
+  it("should waitlist riders who want to go on a full ride", () => {
+    expect(resolveRsvpStatus("going", 3, 4)).toBe("going");
+    expect(resolveRsvpStatus("going", 4, 4)).toBe("waitlist");
+    expect(resolveRsvpStatus("maybe", 4, 4)).toBe("maybe");
+    expect(resolveRsvpStatus("declined", 0, 4)).toBe("declined");
+  });
+
+  it("should move up the longest waiting riders when spots open", () => {
+    const rsvps = [
+      { userId: 1, status: "going" as const, updatedAt: new Date(now) },
+      { userId: 2, status: "declined" as const, updatedAt: new Date(now + 1000) },
+      { userId: 3, status: "waitlist" as const, updatedAt: new Date(now + 3000) },
+      { userId: 4, status: "waitlist" as const, updatedAt: new Date(now + 2000) },
+      { userId: 5, status: "waitlist" as const, updatedAt: new Date(now + 4000) },
+    ];
+
+    expect(pickWaitlistPromotions(rsvps, 3).map((rsvp) => rsvp.userId)).toEqual([4, 3]);
+    expect(pickWaitlistPromotions(rsvps, 1)).toEqual([]);
+  });
+
+  it("should plan an RSVP against the ride as it stands", () => {
+    const ride = { hostId: 1, status: "scheduled" as const, capacity: 2 };
+    const rsvps = [
+      { userId: 1, status: "going" as const, updatedAt: new Date(now) },
+      { userId: 2, status: "going" as const, updatedAt: new Date(now + 1000) },
+      { userId: 3, status: "waitlist" as const, updatedAt: new Date(now + 2000) },
+    ];
+
+    expect(planRsvp(ride, rsvps, 4, "going")).toEqual({
+      status: "waitlist",
+      changes: [{ userId: 4, status: "waitlist" }],
+      promoted: [],
+    });
+    // Giving up a spot writes the promotion with the answer
+    expect(planRsvp(ride, rsvps, 2, "declined")).toEqual({
+      status: "declined",
+      changes: [{ userId: 2, status: "declined" }, { userId: 3, status: "going" }],
+      promoted: [3],
+    });
+    // Asking again changes nothing
+    expect(planRsvp(ride, rsvps, 3, "going")).toEqual({ status: "waitlist", changes: [], promoted: [] });
+    expect(() => planRsvp(ride, rsvps, 1, "declined")).toThrow();
+    expect(() => planRsvp({ ...ride, status: "started" }, rsvps, 4, "going")).toThrow();
+  });
+
+  it("should remind a day ahead and start rides when they are due", () => {
+    const ride = { startsAt: new Date(now + 2 * REMINDER_LEAD_MS), status: "scheduled" as const, reminderSentAt: null };
+
+    expect(dueRideAction(ride, now)).toBeNull();
+    expect(dueRideAction({ ...ride, startsAt: new Date(now + REMINDER_LEAD_MS - 1) }, now)).toBe("remind");
+    expect(dueRideAction({ ...ride, startsAt: new Date(now + 60_000), reminderSentAt: new Date(now) }, now)).toBeNull();
+    expect(dueRideAction({ ...ride, startsAt: new Date(now) }, now)).toBe("start");
+    expect(dueRideAction({ ...ride, startsAt: new Date(now - START_GRACE_MS) }, now)).toBeNull();
+    expect(dueRideAction({ ...ride, startsAt: new Date(now), status: "cancelled" }, now)).toBeNull();
+  });
+
+  it("should reject rides that can't be scheduled", async () => {
+    const input = {
+      title: "한강 야간 라이딩",
+      startsAt: now + 60 * 60_000,
+      meetingPoint: { name: "여의도 한강공원", latitude: 37.5284, longitude: 126.9326 },
+      paceLevel: "moderate" as const,
+      capacity: 8,
+    };
+
+    await expect(createScheduledRide(1, { ...input, startsAt: now - 1 }, now)).rejects.toThrow("출발 시간");
+    await expect(createScheduledRide(1, { ...input, startsAt: now + 200 * REMINDER_LEAD_MS }, now)).rejects.toThrow("180일");
+    await expect(createScheduledRide(1, { ...input, capacity: 1 }, now)).rejects.toThrow("정원");
+    await expect(
+      createScheduledRide(1, { ...input, meetingPoint: { ...input.meetingPoint, latitude: 120 } }, now)
+    ).rejects.toThrow("집결지");
+  });
+
+  it("should summarize the ride in the recruiting post", () => {
+    const { title, content } = formatScheduledRidePost(
+      {
+        title: "한강 야간 라이딩",
+        description: "헬멧 필수",
+        startsAt: new Date(Date.UTC(2026, 9, 24, 11, 0)),
+        meetingPointName: "여의도 한강공원",
+        paceLevel: "relaxed",
+        capacity: 8,
+      },
+      { name: "한강 코스", points: [], totalDistance: 26_000 }
+    );
+
+    expect(title).toBe("[그룹 라이딩 모집] 한강 야간 라이딩");
+    expect(content).toContain("여의도 한강공원");
+    expect(content).toContain("여유 (10~15km/h)");
+    expect(content).toContain("26.0km");
+    expect(content).toContain("헬멧 필수");
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  matchSegmentEfforts,
+  polylineDistance,
+  simplifySegment,
+  type SegmentPoint,
+  type TrackPoint,
+} from "../segments/matching";
+
+// Straight northbound road along 127.0°E; 0.0009° of latitude ≈ 100m
+const STEP = 0.0009;
+
+function track(latitudes: number[], secondsPerPoint = 20, longitude = 127.0): TrackPoint[] {
+  return latitudes.map((latitude, i) => ({ latitude, longitude, timestamp: i * secondsPerPoint * 1000 }));
+}
+
+function range(from: number, to: number, step: number): number[] {
+  const values: number[] = [];
+  const count = Math.round((to - from) / step);
+  for (let i = 0; i <= count; i++) values.push(from + i * step);
+  return values;
+}
+
+const SEGMENT: SegmentPoint[] = range(37.505, 37.515, 0.001).map((latitude) => ({ latitude, longitude: 127.0 }));
+
+describe("Segment matching", () => {
+  it("should time an effort between the interpolated start and end passes", () => {
+    const efforts = matchSegmentEfforts(track(range(37.5, 37.52, STEP)), SEGMENT);
+    expect(efforts).toHaveLength(1);
+    // 0.01° at 100m / 20s per 0.0009°
+    expect(efforts[0].elapsedTime).toBe(222);
+    expect(efforts[0].distance).toBeGreaterThan(1050);
+    expect(efforts[0].distance).toBeLessThan(1150);
+  });
+
+  it("should match compressed tracks with few vertices", () => {
+    const efforts = matchSegmentEfforts(
+      [
+        { latitude: 37.5, longitude: 127.0, timestamp: 0 },
+        { latitude: 37.52, longitude: 127.0, timestamp: 400_000 },
+      ],
+      SEGMENT
+    );
+    expect(efforts).toHaveLength(1);
+    expect(efforts[0].elapsedTime).toBe(200);
+  });
+
+  it("should not match a ride in the opposite direction", () => {
+    expect(matchSegmentEfforts(track(range(37.5, 37.52, STEP).reverse()), SEGMENT)).toHaveLength(0);
+  });
+
+  it("should not match a ride that leaves the corridor", () => {
+    const detour: TrackPoint[] = [
+      ...track(range(37.5, 37.508, STEP)),
+      { latitude: 37.509, longitude: 127.006, timestamp: 200_000 },
+      { latitude: 37.511, longitude: 127.006, timestamp: 220_000 },
+      { latitude: 37.516, longitude: 127.0, timestamp: 260_000 },
+    ];
+    expect(matchSegmentEfforts(detour, SEGMENT)).toHaveLength(0);
+  });
+
+  it("should find one effort per lap", () => {
+    const lap = range(37.5, 37.52, STEP);
+    const laps = [...lap, ...lap.slice().reverse(), ...lap];
+    const efforts = matchSegmentEfforts(track(laps), SEGMENT);
+    expect(efforts).toHaveLength(2);
+    expect(efforts[1].startTime).toBeGreaterThan(efforts[0].startTime);
+  });
+
+  it("should thin out dense segment points but keep the endpoints", () => {
+    const dense = range(37.505, 37.515, 0.00001).map((latitude) => ({ latitude, longitude: 127.0 }));
+    const simplified = simplifySegment(dense);
+    expect(simplified.length).toBeLessThan(dense.length / 5);
+    expect(simplified[0]).toEqual(dense[0]);
+    expect(simplified[simplified.length - 1]).toEqual(dense[dense.length - 1]);
+    expect(polylineDistance(simplified)).toBeCloseTo(polylineDistance(dense), 0);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { classifyTransportModes, type ClassifierPoint } from "../transport/classifier";
+import { reviewRideTransport } from "../transport";
+
+// Northbound along 127.0°E; 1° of latitude ≈ 111.2km
+const METERS_PER_DEG = 111_195;
+
+/** Builds a track from legs of constant speed (km/h) sampled every second */
+function track(legs: { seconds: number; kmh: number; gpsSpeed?: boolean }[]): ClassifierPoint[] {
+  const points: ClassifierPoint[] = [{ latitude: 37.5, longitude: 127.0, timestamp: 0, speed: 0 }];
+  for (const leg of legs) {
+    for (let i = 0; i < leg.seconds; i++) {
+      const last = points[points.length - 1];
+      points.push({
+        latitude: last.latitude + leg.kmh / 3.6 / METERS_PER_DEG,
+        longitude: 127.0,
+        timestamp: last.timestamp + 1000,
+        speed: leg.gpsSpeed === false ? null : leg.kmh / 3.6,
+      });
+    }
+  }
+  return points;
+}
+
+/** A signal gap: one jump of the given distance after the given time */
+function gap(points: ClassifierPoint[], seconds: number, meters: number): ClassifierPoint[] {
+  const last = points[points.length - 1];
+  return [
+    ...points,
+    { latitude: last.latitude + meters / METERS_PER_DEG, longitude: 127.0, timestamp: last.timestamp + seconds * 1000, speed: null },
+  ];
+}
+
+function continueTrack(points: ClassifierPoint[], legs: Parameters<typeof track>[0]): ClassifierPoint[] {
+  const last = points[points.length - 1];
+  const next = track(legs).slice(1).map((p) => ({
+    ...p,
+    latitude: p.latitude - 37.5 + last.latitude,
+    timestamp: p.timestamp + last.timestamp,
+  }));
+  return [...points, ...next];
+}
+
+function stats(points: ClassifierPoint[]) {
+  const segments = classifyTransportModes(points);
+  const distance = segments.reduce((sum, s) => sum + s.distance, 0);
+  const duration = segments.reduce((sum, s) => sum + s.movingTime, 0);
+  const maxSpeed = segments.reduce((max, s) => Math.max(max, s.maxSpeed), 0);
+  return { distance, duration, avgSpeed: (distance / 1000) / (duration / 3600), maxSpeed };
+}
+
+describe("Transport mode classification", () => {
+  it("should keep a scooter commute with traffic-light stops as one scooter ride", () => {
+    const points = track([
+      { seconds: 300, kmh: 22 },
+      { seconds: 40, kmh: 0 },
+      { seconds: 300, kmh: 25 },
+      { seconds: 20, kmh: 3 },
+      { seconds: 300, kmh: 20 },
+    ]);
+    const modes = classifyTransportModes(points).map((s) => s.mode);
+    expect(modes).not.toContain("vehicle");
+    expect(modes).not.toContain("walking");
+    expect(reviewRideTransport(JSON.stringify(points), stats(points)).transportStatus).toBeNull();
+  });
+
+  it("should find a car trip with stops after a scooter ride", () => {
+    const points = track([
+      { seconds: 600, kmh: 20 },
+      { seconds: 90, kmh: 0 },
+      { seconds: 300, kmh: 60 },
+      { seconds: 45, kmh: 0 },
+      { seconds: 20, kmh: 25 },
+      { seconds: 300, kmh: 70 },
+    ]);
+    const segments = classifyTransportModes(points);
+    const vehicle = segments.filter((s) => s.mode === "vehicle");
+
+    expect(vehicle).toHaveLength(1);
+    expect(vehicle[0].confidence).toBe("high");
+    expect(vehicle[0].stopCount).toBeGreaterThanOrEqual(1);
+    expect(vehicle[0].distance).toBeGreaterThan(10_000);
+    expect(segments[0].mode).toBe("scooter");
+  });
+
+  it("should take a subway ride through a signal gap out of the stats", () => {
+    const ride = track([{ seconds: 600, kmh: 20 }]);
+    const points = continueTrack(gap(ride, 900, 12_000), [{ seconds: 300, kmh: 18 }]);
+    const rideStats = { distance: 3333 + 12_000 + 1500, duration: 900, avgSpeed: 20, maxSpeed: 20 };
+
+    const review = reviewRideTransport(JSON.stringify(points), rideStats);
+    expect(review.transportStatus).toBe("excluded");
+    expect(review.excludedDistance).toBeCloseTo(12_000, -2);
+    // Gap time was never counted as riding time
+    expect(review.excludedDuration).toBe(0);
+    expect(review.stats.distance).toBeCloseTo(4833, -2);
+    expect(review.stats.duration).toBe(900);
+  });
+
+  it("should exclude long walks but absorb short slow stretches", () => {
+    const points = track([
+      { seconds: 600, kmh: 20 },
+      { seconds: 30, kmh: 4 },
+      { seconds: 600, kmh: 20 },
+      { seconds: 400, kmh: 5 },
+    ]);
+    const segments = classifyTransportModes(points);
+    const walking = segments.filter((s) => s.mode === "walking");
+    expect(walking).toHaveLength(1);
+    expect(walking[0].startTime).toBeGreaterThanOrEqual(1_200_000);
+
+    const review = reviewRideTransport(JSON.stringify(points), stats(points));
+    expect(review.transportStatus).toBe("excluded");
+    expect(review.excludedDuration).toBeCloseTo(400, -1);
+    expect(JSON.parse(review.transportSegmentsJson!)[0].reason).toContain("도보");
+  });
+
+  it("should only flag a short fast stretch without changing stats", () => {
+    const points = track([
+      { seconds: 600, kmh: 25 },
+      { seconds: 60, kmh: 55 },
+      { seconds: 600, kmh: 25 },
+    ]);
+    const rideStats = stats(points);
+    const review = reviewRideTransport(JSON.stringify(points), rideStats);
+
+    expect(review.transportStatus).toBe("flagged");
+    expect(review.stats).toEqual(rideStats);
+    expect(review.excludedDistance).toBeNull();
+    const [segment] = JSON.parse(review.transportSegmentsJson!);
+    expect(segment.excluded).toBe(false);
+  });
+
+  it("should ignore speed jumps that no vehicle could accelerate to", () => {
+    const points = track([
+      { seconds: 300, kmh: 20 },
+      { seconds: 150, kmh: 20 },
+    ]);
+    // Every other GPS speed reading spikes to 90 km/h
+    for (let i = 300; i < 450; i += 2) points[i] = { ...points[i], speed: 25 };
+    for (let i = 301; i < 450; i += 2) points[i] = { ...points[i], speed: 90 / 3.6 };
+
+    const vehicle = classifyTransportModes(points).filter((s) => s.mode === "vehicle");
+    expect(vehicle.every((s) => s.confidence === "low")).toBe(true);
+  });
+
+  it("should return no segments for tracks without movement data", () => {
+    expect(classifyTransportModes([])).toEqual([]);
+    expect(reviewRideTransport("not json", { distance: 1, duration: 1, avgSpeed: 1, maxSpeed: 1 }).transportStatus).toBeNull();
+  });
+});
@@ -8,7 +8,10 @@ import { appRouter } from "../routers";
 import { createContext } from "./context";
 import adminRoutes from "../admin/routes";
 import { setupWebSocket } from "../websocket";
+import { startScheduledRideJobs } from "../scheduled-rides";
+import { startBatteryReminderJobs } from "../battery-reminders";
 import aiRoutes from "../ai/routes";
+import locationShareRoutes from "../location-sharing/routes";
 import { defaultRateLimiter, aiRateLimiter, authRateLimiter } from "../middleware/rate-limiter";
 
 function isPortAvailable(port: number): Promise<boolean> {
@@ -82,6 +85,9 @@ async function startServer() {
   // AI chatbot routes
   app.use("/api/ai", aiRoutes);
 
+  // Live location share links (read-only page for people without the app)
+  app.use("/share/location", defaultRateLimiter, locationShareRoutes);
+
   app.use(
     "/api/trpc",
     createExpressMiddleware({
@@ -100,6 +106,12 @@ async function startServer() {
   // Setup WebSocket server for real-time group riding
   setupWebSocket(server);
 
+  // Reminders and group sessions for scheduled group rides
+  startScheduledRideJobs();
+
+  // Charging and storage reminders for riders' scooters
+  startBatteryReminderJobs();
+
   server.listen(port, () => {
     console.log(`[api] server listening on port ${port}`);
     console.log(`[ws] WebSocket server available at ws://localhost:${port}/ws/group-riding`);
@@ -0,0 +1,347 @@
+/**
+ * Smart charging reminders and storage-mode advice
+ *
+ * An hourly job looks at each scooter's last known SOC (the end of the last logged ride or the
+ * last charge), the rider's upcoming scheduled rides and the KMA forecast, and pushes:
+ * - charge_tonight: in the evening, when tomorrow's ride needs more charge than is left (the
+ *   planned route priced with the scooter's consumption model plus a reserve, or the rider's
+ *   minimum when the ride has no route)
+ * - storage_full / storage_low: when the scooter has sat idle for days at full charge or nearly
+ *   empty, both of which age lithium cells; 50-60% is the charge to store at
+ * - cold_charging: when a charge is likely and the forecast drops below freezing, since lithium
+ *   packs plate when charged below 0°C
+ * Each reminder has its own cooldown, nothing is sent at night and riders can turn the
+ * reminders off per scooter.
+ */
+
+import * as db from "../db";
+import type { BatteryReminderSetting, ScheduledRide, Scooter } from "../../drizzle/schema";
+import { plannedRoute } from "../scheduled-rides";
+import { predictConsumption } from "../consumption-model";
+import { convertToGrid, getWeatherForecast, type WeatherForecastHour } from "../weather";
+import { batteryChemistry } from "../../shared/battery-ocv.js";
+import { KST_OFFSET_MINUTES } from "../../shared/charging.js";
+
+export const BATTERY_REMINDER_KINDS = ["charge_tonight", "storage_full", "storage_low", "cold_charging"] as const;
+export type BatteryReminderKind = (typeof BATTERY_REMINDER_KINDS)[number];
+
+export type BatteryReminderSettings = Pick<
+  BatteryReminderSetting,
+  "enabled" | "chargeTonight" | "storage" | "coldCharging" | "minSocForRide"
+>;
+
+/** Settings of scooters the rider never configured */
+export const DEFAULT_BATTERY_REMINDER_SETTINGS: BatteryReminderSettings = {
+  enabled: true,
+  chargeTonight: true,
+  storage: true,
+  coldCharging: true,
+  minSocForRide: 60,
+};
+
+/** How long a reminder stays quiet after it was sent (ms) */
+export const REMINDER_COOLDOWN_MS: Record<BatteryReminderKind, number> = {
+  charge_tonight: 20 * 60 * 60_000,
+  storage_full: 7 * 24 * 60 * 60_000,
+  storage_low: 7 * 24 * 60 * 60_000,
+  cold_charging: 24 * 60 * 60_000,
+};
+
+/** Rides starting within this are "tomorrow's ride" (ms) */
+export const RIDE_LOOKAHEAD_MS = 30 * 60 * 60_000;
+
+/** Idle this long at full or low charge counts as storage (ms) */
+export const STORAGE_IDLE_MS = 3 * 24 * 60 * 60_000;
+
+/** Forecast window checked for freezing temperatures (ms) */
+const FREEZE_LOOKAHEAD_MS = 12 * 60 * 60_000;
+
+/** At or above this SOC (%) the pack is stored full */
+const STORAGE_FULL_SOC = 95;
+
+/** At or below this SOC (%) the pack is stored nearly empty */
+const STORAGE_LOW_SOC = 20;
+
+/** Below this SOC (%) the rider will likely charge soon */
+const LIKELY_CHARGE_SOC = 50;
+
+/** Charge (%) kept in reserve on top of what a planned route needs */
+const RIDE_RESERVE_SOC = 15;
+
+/** Local hours (inclusive) the evening charging reminder goes out */
+const EVENING_HOURS = { start: 18, end: 22 };
+
+/** Local hours (inclusive) any reminder may go out */
+const WAKING_HOURS = { start: 9, end: 22 };
+
+/** How often the job runs (ms) */
+const JOB_INTERVAL_MS = 60 * 60_000;
+
+export interface UpcomingRide {
+  title: string;
+  startsAt: Date;
+  /** Charge (%) needed to ride it */
+  neededSoc: number;
+}
+
+export interface BatteryReminderState {
+  settings: BatteryReminderSettings;
+  batteryType: string | null;
+  /** Last known charge (%) and when it was read */
+  soc: number | null;
+  socAt: Date | null;
+  lastRideAt: Date | null;
+  nextRide: UpcomingRide | null;
+  /** Lowest forecast temperature (°C) over the next hours; null when unknown */
+  forecastMinTemperature: number | null;
+  /** Epoch ms each reminder was last sent */
+  lastSent: Partial<Record<BatteryReminderKind, number>>;
+}
+
+export interface BatteryReminder {
+  kind: BatteryReminderKind;
+  title: string;
+  body: string;
+}
+
+function localHour(now: number): number {
+  return new Date(now + KST_OFFSET_MINUTES * 60_000).getUTCHours();
+}
+
+/**
+ * Charge (%) a ride needs: the route's energy plus a reserve when both the route and the
+ * scooter's consumption are known, otherwise the rider's own minimum
+ */
+export function neededSocForRide(
+  routeMeters: number | null,
+  whPerKm: number | null,
+  packWh: number,
+  minSocForRide: number
+): number {
+  if (!routeMeters || !whPerKm || packWh <= 0) return minSocForRide;
+  const routeSoc = ((routeMeters / 1000) * whPerKm * 100) / packWh;
+  return Math.min(100, Math.ceil(routeSoc + RIDE_RESERVE_SOC));
+}
+
+/**
+ * Lowest forecast temperature from `from` until `until`; null without forecast hours in it
+ */
+export function minForecastTemperature(hours: WeatherForecastHour[], from: number, until: number): number | null {
+  const temperatures = hours
+    .filter((hour) => hour.time.getTime() >= from && hour.time.getTime() <= until && hour.temperature !== null)
+    .map((hour) => hour.temperature as number);
+  return temperatures.length ? Math.min(...temperatures) : null;
+}
+
+function isChargeTonightDue(state: BatteryReminderState, now: number): boolean {
+  const hour = localHour(now);
+  return (
+    state.soc !== null &&
+    state.nextRide !== null &&
+    state.nextRide.startsAt.getTime() > now &&
+    state.nextRide.startsAt.getTime() - now <= RIDE_LOOKAHEAD_MS &&
+    state.soc < state.nextRide.neededSoc &&
+    hour >= EVENING_HOURS.start &&
+    hour <= EVENING_HOURS.end
+  );
+}
+
+/**
+ * Whether the rider will probably plug in soon: a ride needs more charge tonight, or the pack is
+ * getting low
+ */
+export function isChargingLikely(state: BatteryReminderState, now: number): boolean {
+  return isChargeTonightDue(state, now) || (state.soc !== null && state.soc < LIKELY_CHARGE_SOC);
+}
+
+/**
+ * Reminders a scooter is due at `now`, after its settings, quiet hours and cooldowns
+ */
+export function evaluateBatteryReminders(state: BatteryReminderState, now: number): BatteryReminder[] {
+  const { settings, soc } = state;
+  const hour = localHour(now);
+  if (!settings.enabled || soc === null || hour < WAKING_HOURS.start || hour > WAKING_HOURS.end) return [];
+
+  const reminders: BatteryReminder[] = [];
+  const socText = `${Math.round(soc)}%`;
+
+  if (settings.chargeTonight && state.nextRide && isChargeTonightDue(state, now)) {
+    reminders.push({
+      kind: "charge_tonight",
+      title: "오늘 밤 충전하세요 🔌",
+      body: `"${state.nextRide.title}" 라이딩에 배터리 ${state.nextRide.neededSoc}%가 필요한데 지금은 ${socText}입니다.`,
+    });
+  }
+
+  const idleSince = Math.max(state.socAt?.getTime() ?? 0, state.lastRideAt?.getTime() ?? 0);
+  const rideSoon = state.nextRide !== null && state.nextRide.startsAt.getTime() - now <= RIDE_LOOKAHEAD_MS;
+  if (settings.storage && idleSince > 0 && now - idleSince >= STORAGE_IDLE_MS) {
+    const idleDays = Math.floor((now - idleSince) / (24 * 60 * 60_000));
+    if (soc >= STORAGE_FULL_SOC && !rideSoon) {
+      reminders.push({
+        kind: "storage_full",
+        title: "완충 상태로 보관 중입니다",
+        body: `${idleDays}일째 ${socText}로 세워져 있습니다. 오래 타지 않을 때는 50~60%로 보관하면 배터리 수명이 늘어납니다.`,
+      });
+    } else if (soc <= STORAGE_LOW_SOC) {
+      reminders.push({
+        kind: "storage_low",
+        title: "배터리가 거의 비어 있습니다",
+        body: `${idleDays}일째 ${socText}로 세워져 있습니다. 방전된 채 오래 두면 배터리가 상할 수 있으니 50~60%까지 충전해 두세요.`,
+      });
+    }
+  }
+
+  if (
+    settings.coldCharging &&
+    batteryChemistry(state.batteryType) !== "lead_acid" &&
+    state.forecastMinTemperature !== null &&
+    state.forecastMinTemperature < 0 &&
+    isChargingLikely(state, now)
+  ) {
+    reminders.push({
+      kind: "cold_charging",
+      title: "영하에서는 충전하지 마세요 ❄️",
+      body: `기온이 ${Math.round(state.forecastMinTemperature)}℃까지 내려갑니다. 추운 곳에서 충전하면 배터리가 손상되니 실내에서 배터리를 데운 뒤 충전하세요.`,
+    });
+  }
+
+  return reminders.filter((reminder) => {
+    const sentAt = state.lastSent[reminder.kind];
+    return sentAt === undefined || now - sentAt >= REMINDER_COOLDOWN_MS[reminder.kind];
+  });
+}
+
+export function parseLastSent(lastSent: string | null): Partial<Record<BatteryReminderKind, number>> {
+  if (!lastSent) return {};
+  try {
+    return JSON.parse(lastSent) as Partial<Record<BatteryReminderKind, number>>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * The earliest ride each rider is going (or maybe going) to
+ */
+async function upcomingRidesByUser(now: number): Promise<Map<number, ScheduledRide>> {
+  const rides = await db.getScheduledRidesStartingBetween(new Date(now), new Date(now + RIDE_LOOKAHEAD_MS));
+  const byUser = new Map<number, ScheduledRide>();
+  for (const ride of rides) {
+    for (const rsvp of await db.getScheduledRideRsvps(ride.id)) {
+      if ((rsvp.status === "going" || rsvp.status === "maybe") && !byUser.has(rsvp.userId)) {
+        byUser.set(rsvp.userId, ride);
+      }
+    }
+  }
+  return byUser;
+}
+
+async function upcomingRide(
+  scooter: Scooter,
+  ride: ScheduledRide,
+  minSocForRide: number
+): Promise<UpcomingRide> {
+  const route = plannedRoute(ride);
+  const prediction = route
+    ? await predictConsumption(scooter.userId, scooter, { route: { distanceMeters: route.totalDistance, elevationGain: 0 } })
+    : null;
+  const packWh = (scooter.batteryVoltage || 60) * parseFloat(scooter.batteryCapacity || "30");
+  return {
+    title: ride.title,
+    startsAt: ride.startsAt,
+    // Plan on the high end of the prediction so the reminder errs towards charging
+    neededSoc: neededSocForRide(route?.totalDistance ?? null, prediction?.high ?? null, packWh, minSocForRide),
+  };
+}
+
+/**
+ * One pass of the background job over every scooter whose rider can get pushes
+ */
+export async function runBatteryReminderJobs(now: number = Date.now()): Promise<void> {
+  const apiKey = process.env.KMA_API_KEY;
+  const rides = await upcomingRidesByUser(now);
+  // Riders near each other share a forecast grid cell; fetch each cell once per pass
+  const forecasts = new Map<string, Promise<WeatherForecastHour[] | null>>();
+
+  for (const scooter of await db.getScootersWithPushTokens()) {
+    try {
+      const row = await db.getBatteryReminderSetting(scooter.id);
+      const settings = row ?? DEFAULT_BATTERY_REMINDER_SETTINGS;
+      if (!settings.enabled) continue;
+
+      const battery = await db.getLastKnownBatteryState(scooter.id);
+      if (battery.soc === null) continue;
+
+      const ride = rides.get(scooter.userId);
+      const state: BatteryReminderState = {
+        settings,
+        batteryType: scooter.batteryType,
+        ...battery,
+        nextRide: ride ? await upcomingRide(scooter, ride, settings.minSocForRide) : null,
+        forecastMinTemperature: null,
+        lastSent: parseLastSent(row?.lastSent ?? null),
+      };
+
+      if (apiKey && settings.coldCharging && isChargingLikely(state, now)) {
+        const live = ride ? null : await db.getLiveLocation(scooter.userId);
+        const location = ride
+          ? { latitude: Number(ride.meetingLatitude), longitude: Number(ride.meetingLongitude) }
+          : live
+            ? { latitude: Number(live.latitude), longitude: Number(live.longitude) }
+            : null;
+        if (location) {
+          const { nx, ny } = convertToGrid(location.latitude, location.longitude);
+          const key = `${nx},${ny}`;
+          if (!forecasts.has(key)) forecasts.set(key, getWeatherForecast(location.latitude, location.longitude, apiKey));
+          const hours = await forecasts.get(key)!;
+          state.forecastMinTemperature = hours ? minForecastTemperature(hours, now, now + FREEZE_LOOKAHEAD_MS) : null;
+        }
+      }
+
+      const reminders = evaluateBatteryReminders(state, now);
+      if (reminders.length === 0) continue;
+
+      const lastSent = { ...state.lastSent };
+      for (const reminder of reminders) {
+        const sent = await db.sendPushNotification(scooter.userId, reminder.title, reminder.body, {
+          type: "battery_reminder",
+          kind: reminder.kind,
+          scooterId: scooter.id,
+        });
+        if (sent) lastSent[reminder.kind] = now;
+      }
+      await db.setBatteryRemindersSent(scooter.userId, scooter.id, JSON.stringify(lastSent));
+    } catch (error) {
+      console.error(`[BatteryReminders] Failed for scooter ${scooter.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Runs the job every hour; returns a function that stops it
+ */
+export function startBatteryReminderJobs(): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow pass
+    if (running) return;
+    running = true;
+    try {
+      await runBatteryReminderJobs();
+    } finally {
+      running = false;
+    }
+  }, JOB_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+/**
+ * A scooter's settings, with the defaults when the rider never changed them
+ */
+export async function getBatteryReminderSettings(scooterId: number): Promise<BatteryReminderSettings> {
+  const row = await db.getBatteryReminderSetting(scooterId);
+  if (!row) return DEFAULT_BATTERY_REMINDER_SETTINGS;
+  const { enabled, chargeTonight, storage, coldCharging, minSocForRide } = row;
+  return { enabled, chargeTonight, storage, coldCharging, minSocForRide };
+}
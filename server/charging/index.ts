@@ -0,0 +1,130 @@
+/**
+ * Charging sessions: energy, cost and cycles
+ *
+ * Each logged charge gets the energy it put into the pack (SOC gain × pack capacity, with the SOC
+ * read along the battery's OCV curve when the app didn't send one), the energy drawn from the wall
+ * through the charger's efficiency, its cost under the charger's tariff and the share of a full
+ * cycle it used. Charges are then summed per month for the scooter's charging report.
+ */
+
+import * as db from "../db";
+import type { ElectricityTariff, Scooter } from "../../drizzle/schema";
+import { batteryPackForScooter, socFromPackVoltage } from "../../shared/battery-ocv.js";
+import {
+  DEFAULT_CHARGER_EFFICIENCY,
+  KST_OFFSET_MINUTES,
+  chargeCost,
+  chargeEnergy,
+  localDateString,
+  summarizeChargingByMonth,
+  type Tariff,
+  type TariffPeriod,
+} from "../../shared/charging.js";
+
+/** Months shown in the charging report */
+export const CHARGING_REPORT_MONTHS = 12;
+
+export function toTariff(row: Pick<ElectricityTariff, "baseRate" | "periods">): Tariff {
+  let periods: TariffPeriod[] = [];
+  if (row.periods) {
+    try {
+      periods = JSON.parse(row.periods) as TariffPeriod[];
+    } catch (error) {
+      console.error("[Charging] Unreadable tariff periods:", error);
+    }
+  }
+  return { baseRate: Number(row.baseRate), periods };
+}
+
+type BatteryScooter = Pick<
+  Scooter,
+  "batteryVoltage" | "batteryCapacity" | "batteryType" | "batteryCellCount" | "batteryFullVoltage" | "batteryEmptyVoltage"
+>;
+
+function packSoc(scooter: BatteryScooter, voltage: number): number {
+  return socFromPackVoltage(voltage, batteryPackForScooter(scooter));
+}
+
+export interface ChargingSessionInput {
+  scooterId: number;
+  voltageBefore: number;
+  voltageAfter: number;
+  socBefore?: number;
+  socAfter?: number;
+  /** minutes */
+  chargingDuration?: number;
+  chargeType: string;
+  notes?: string;
+  chargerProfileId?: number;
+  startedAt?: Date;
+  /** Rider's offset from UTC, for time-of-use periods */
+  utcOffsetMinutes?: number;
+}
+
+/**
+ * Stores a charge with its energy, cost and cycle share
+ */
+export async function recordChargingSession(userId: number, scooter: BatteryScooter, input: ChargingSessionInput) {
+  const charger = input.chargerProfileId ? await db.getChargerProfile(userId, input.chargerProfileId) : null;
+  const tariffRow = charger?.tariffId ? await db.getElectricityTariff(userId, charger.tariffId) : null;
+
+  const socBefore = input.socBefore ?? packSoc(scooter, input.voltageBefore);
+  const socAfter = input.socAfter ?? packSoc(scooter, input.voltageAfter);
+  const packWh = (scooter.batteryVoltage || 60) * parseFloat(scooter.batteryCapacity || "30");
+  const energy = chargeEnergy(
+    socBefore,
+    socAfter,
+    packWh,
+    charger ? Number(charger.efficiency) : DEFAULT_CHARGER_EFFICIENCY
+  );
+
+  const startedAt = input.startedAt ?? new Date(Date.now() - (input.chargingDuration ?? 0) * 60_000);
+  const cost = tariffRow
+    ? chargeCost(toTariff(tariffRow), energy.energyFromGridWh, {
+        startedAt,
+        durationMinutes: input.chargingDuration,
+        chargerWatts: charger?.wattage,
+        utcOffsetMinutes: input.utcOffsetMinutes,
+      })
+    : null;
+
+  return db.createChargingRecord({
+    userId,
+    scooterId: input.scooterId,
+    chargeDate: localDateString(new Date(), input.utcOffsetMinutes),
+    voltageBefore: input.voltageBefore.toString(),
+    voltageAfter: input.voltageAfter.toString(),
+    socBefore: socBefore.toFixed(2),
+    socAfter: socAfter.toFixed(2),
+    chargingDuration: input.chargingDuration,
+    chargeType: input.chargeType,
+    notes: input.notes,
+    chargerProfileId: charger?.id,
+    startedAt,
+    energyAdded: energy.energyAddedWh.toFixed(2),
+    energyFromGrid: energy.energyFromGridWh.toFixed(2),
+    cost: cost !== null ? cost.toFixed(2) : undefined,
+    cycleFraction: energy.cycleFraction.toFixed(3),
+  });
+}
+
+/**
+ * Charging energy, cost and cycles per month (most recent first) plus the totals
+ */
+export async function getMonthlyChargingReport(userId: number, scooterId: number, months = CHARGING_REPORT_MONTHS) {
+  // Charge dates are local days
+  const now = new Date(Date.now() + KST_OFFSET_MINUTES * 60_000);
+  const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1));
+  const charges = await db.getChargingTotals(userId, scooterId, since.toISOString().split("T")[0]);
+  const monthly = summarizeChargingByMonth(charges);
+
+  return {
+    months: monthly,
+    totals: {
+      charges: charges.length,
+      energyFromGridWh: monthly.reduce((sum, m) => sum + m.energyFromGridWh, 0),
+      cost: monthly.some((m) => m.cost !== null) ? monthly.reduce((sum, m) => sum + (m.cost ?? 0), 0) : null,
+      cycles: monthly.reduce((sum, m) => sum + m.cycles, 0),
+    },
+  };
+}
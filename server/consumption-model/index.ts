@@ -0,0 +1,320 @@
+/**
+ * Per-scooter consumption model
+ *
+ * A weighted ridge regression of Wh/km on the conditions of each ride in batteryRideLogs: speed
+ * (and its square, for drag), the cold penalty from getTemperatureCorrection, climbing and
+ * descending per km, rider weight and wind. Rides are weighted by distance because the SOC
+ * resolution makes short rides noisy. The model is refitted every time a ride with voltages is
+ * logged and stored as JSON, so predictions only read it back. With few rides only the mean is
+ * used, and the prediction interval stays wide until the rides explain the spread.
+ */
+
+import * as db from "../db";
+import type { BatteryRideLog, Scooter } from "../../drizzle/schema";
+import { getTemperatureCorrection } from "../../shared/battery-temperature.js";
+
+/** Rides the model is fitted on (most recent first) */
+const MAX_TRAINING_RIDES = 200;
+
+/** Below this many rides only the mean is used */
+export const MIN_REGRESSION_RIDES = 5;
+
+/** Rides shorter than this are left out (SOC resolution) */
+const MIN_RIDE_KM = 1;
+
+/** Readings above this are treated as bad voltage entries */
+const MAX_PLAUSIBLE_WH_PER_KM = 200;
+
+/** A single long ride counts at most this much */
+const MAX_RIDE_WEIGHT_KM = 20;
+
+/** Ridge penalty on the standardized coefficients */
+const RIDGE_LAMBDA = 2;
+
+/** Spread assumed before there are enough rides to measure it, relative to the mean */
+const PRIOR_RELATIVE_SD = 0.25;
+
+/** Never claim to be more precise than this, relative to the mean */
+const MIN_RELATIVE_SD = 0.05;
+
+/** z-score of the 90% prediction interval */
+const INTERVAL_Z = 1.645;
+
+const DEFAULT_RIDER_WEIGHT_KG = 75;
+
+export interface ConsumptionConditions {
+  /** km/h */
+  speedKmh: number;
+  /** °C */
+  temperature: number;
+  /** m/s */
+  windSpeed: number;
+  /** kg */
+  riderWeight: number;
+  /** Elevation gain per km (m/km) */
+  climbPerKm: number;
+  /** Elevation loss per km (m/km) */
+  descentPerKm: number;
+}
+
+export interface ConsumptionSample extends Partial<Record<keyof ConsumptionConditions, number | null>> {
+  distanceKm: number;
+  whPerKm: number;
+}
+
+export interface FittedConsumptionModel {
+  /** Distance-weighted mean Wh/km */
+  intercept: number;
+  /** Feature means and scales used to standardize */
+  means: number[];
+  scales: number[];
+  /** Features that varied across the rides (the others don't take part) */
+  active: boolean[];
+  /** Coefficients on the standardized features */
+  coefficients: number[];
+  /** (ZᵀWZ + λI)⁻¹, for the prediction interval */
+  inverse: number[][];
+  residualVariance: number;
+  sampleCount: number;
+  /** Typical conditions of the training rides, used for inputs a prediction leaves out */
+  typical: ConsumptionConditions;
+}
+
+export interface ConsumptionPrediction {
+  whPerKm: number;
+  /** 90% prediction interval */
+  low: number;
+  high: number;
+}
+
+function features(c: ConsumptionConditions): number[] {
+  return [
+    c.speedKmh,
+    (c.speedKmh * c.speedKmh) / 100,
+    1 / getTemperatureCorrection(c.temperature) - 1,
+    c.climbPerKm,
+    c.descentPerKm,
+    c.riderWeight,
+    c.windSpeed,
+  ];
+}
+
+const CONDITION_KEYS: (keyof ConsumptionConditions)[] = [
+  "speedKmh",
+  "temperature",
+  "windSpeed",
+  "riderWeight",
+  "climbPerKm",
+  "descentPerKm",
+];
+
+const NEUTRAL_CONDITIONS: ConsumptionConditions = {
+  speedKmh: 20,
+  temperature: 25,
+  windSpeed: 0,
+  riderWeight: DEFAULT_RIDER_WEIGHT_KG,
+  climbPerKm: 0,
+  descentPerKm: 0,
+};
+
+function fillConditions(
+  partial: Partial<Record<keyof ConsumptionConditions, number | null>>,
+  fallback: ConsumptionConditions
+): ConsumptionConditions {
+  const filled = { ...fallback };
+  for (const key of CONDITION_KEYS) {
+    const value = partial[key];
+    if (value !== null && value !== undefined && Number.isFinite(value)) filled[key] = value;
+  }
+  return filled;
+}
+
+// Gauss-Jordan inverse of a small symmetric positive definite matrix
+function invert(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const divisor = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= divisor;
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      for (let j = 0; j < 2 * n; j++) a[row][j] -= factor * a[col][j];
+    }
+  }
+  return a.map((row) => row.slice(n));
+}
+
+/**
+ * Fits the model to a scooter's rides; null when none are usable
+ */
+export function fitConsumptionModel(samples: ConsumptionSample[]): FittedConsumptionModel | null {
+  const usable = samples.filter(
+    (s) => s.distanceKm >= MIN_RIDE_KM && s.whPerKm > 0 && s.whPerKm <= MAX_PLAUSIBLE_WH_PER_KM
+  );
+  const n = usable.length;
+  if (n === 0) return null;
+
+  // Weights normalized to a mean of 1
+  const rawWeights = usable.map((s) => Math.min(s.distanceKm, MAX_RIDE_WEIGHT_KM));
+  const weightSum = rawWeights.reduce((sum, w) => sum + w, 0);
+  const weights = rawWeights.map((w) => (w * n) / weightSum);
+
+  // Missing conditions read as the rides' typical ones
+  const typical = { ...NEUTRAL_CONDITIONS };
+  for (const key of CONDITION_KEYS) {
+    let total = 0;
+    let weight = 0;
+    usable.forEach((s, i) => {
+      const value = s[key];
+      if (value !== null && value !== undefined && Number.isFinite(value)) {
+        total += value * weights[i];
+        weight += weights[i];
+      }
+    });
+    if (weight > 0) typical[key] = total / weight;
+  }
+
+  const rows = usable.map((s) => features(fillConditions(s, typical)));
+  const y = usable.map((s) => s.whPerKm);
+  const p = rows[0].length;
+  const intercept = y.reduce((sum, value, i) => sum + value * weights[i], 0) / n;
+
+  const means = Array.from({ length: p }, (_, j) => rows.reduce((sum, row, i) => sum + row[j] * weights[i], 0) / n);
+  const spreads = means.map((mean, j) =>
+    Math.sqrt(rows.reduce((sum, row, i) => sum + weights[i] * (row[j] - mean) ** 2, 0) / n)
+  );
+  // Conditions that never vary (or too few rides) drop out: their column is all zeros
+  const active = spreads.map((spread) => n >= MIN_REGRESSION_RIDES && spread > 1e-6);
+  const scales = spreads.map((spread, j) => (active[j] ? spread : 1));
+  const z = rows.map((row) => row.map((value, j) => (active[j] ? (value - means[j]) / scales[j] : 0)));
+
+  const gram = Array.from({ length: p }, (_, j) =>
+    Array.from({ length: p }, (_, k) =>
+      z.reduce((sum, row, i) => sum + weights[i] * row[j] * row[k], 0) + (j === k ? RIDGE_LAMBDA : 0)
+    )
+  );
+  const inverse = invert(gram);
+  const moments = Array.from({ length: p }, (_, j) =>
+    z.reduce((sum, row, i) => sum + weights[i] * row[j] * (y[i] - intercept), 0)
+  );
+  const coefficients = inverse.map((row) => row.reduce((sum, value, k) => sum + value * moments[k], 0));
+
+  const activeCount = active.filter(Boolean).length;
+  const degreesOfFreedom = n - activeCount - 1;
+  const residualSquares = z.reduce((sum, row, i) => {
+    const predicted = intercept + row.reduce((acc, value, j) => acc + value * coefficients[j], 0);
+    return sum + weights[i] * (y[i] - predicted) ** 2;
+  }, 0);
+  const residualVariance = Math.max(
+    degreesOfFreedom >= 1 ? residualSquares / degreesOfFreedom : (PRIOR_RELATIVE_SD * intercept) ** 2,
+    (MIN_RELATIVE_SD * intercept) ** 2
+  );
+
+  return { intercept, means, scales, active, coefficients, inverse, residualVariance, sampleCount: n, typical };
+}
+
+/**
+ * Wh/km under the given conditions; anything left out is taken from the rides' typical conditions
+ */
+export function predictWhPerKm(
+  model: FittedConsumptionModel,
+  conditions: Partial<Record<keyof ConsumptionConditions, number | null>>
+): ConsumptionPrediction {
+  const x = features(fillConditions(conditions, model.typical));
+  const z = x.map((value, j) => (!model.active[j] ? 0 : (value - model.means[j]) / model.scales[j]));
+  const estimate = model.intercept + z.reduce((sum, value, j) => sum + value * model.coefficients[j], 0);
+
+  const leverage = z.reduce(
+    (sum, zj, j) => sum + zj * model.inverse[j].reduce((acc, value, k) => acc + value * z[k], 0),
+    0
+  );
+  const margin = INTERVAL_Z * Math.sqrt(model.residualVariance * (1 + 1 / model.sampleCount + leverage));
+  const round = (value: number) => Math.round(Math.max(1, value) * 10) / 10;
+
+  return { whPerKm: round(estimate), low: round(estimate - margin), high: round(estimate + margin) };
+}
+
+function toSample(log: BatteryRideLog): ConsumptionSample {
+  const distanceKm = (log.distance || 0) / 1000;
+  const perKm = (meters: number | null) => (meters !== null && distanceKm > 0 ? meters / distanceKm : null);
+  return {
+    distanceKm,
+    whPerKm: Number(log.efficiency),
+    speedKmh: log.avgSpeed !== null ? Number(log.avgSpeed) : null,
+    temperature: log.temperature !== null ? Number(log.temperature) : null,
+    windSpeed: log.windSpeed !== null ? Number(log.windSpeed) : null,
+    riderWeight: log.riderWeight,
+    climbPerKm: perKm(log.elevationGain),
+    descentPerKm: perKm(log.elevationLoss),
+  };
+}
+
+/**
+ * Refits a scooter's model from its logged rides and stores it
+ */
+export async function retrainConsumptionModel(userId: number, scooterId: number) {
+  const logs = await db.getBatteryRideLogs(userId, scooterId, MAX_TRAINING_RIDES);
+  const model = fitConsumptionModel(logs.map(toSample));
+  if (!model) return null;
+
+  await db.saveConsumptionModel({
+    userId,
+    scooterId,
+    model: JSON.stringify(model),
+    sampleCount: model.sampleCount,
+    trainedAt: new Date(),
+  });
+  return model;
+}
+
+async function loadConsumptionModel(userId: number, scooterId: number) {
+  const row = await db.getConsumptionModel(userId, scooterId);
+  if (row) {
+    try {
+      return { model: JSON.parse(row.model) as FittedConsumptionModel, trainedAt: row.trainedAt };
+    } catch (error) {
+      console.error("[ConsumptionModel] Stored model is unreadable, refitting:", error);
+    }
+  }
+  // Rides logged before the model existed
+  const model = await retrainConsumptionModel(userId, scooterId);
+  return model ? { model, trainedAt: new Date() } : null;
+}
+
+export interface PlannedRide {
+  speedKmh?: number;
+  route?: { distanceMeters: number; elevationGain: number; elevationLoss?: number };
+  weather?: { temperature?: number; windSpeed?: number };
+}
+
+/**
+ * Predicted Wh/km for a planned ride; null until the scooter has a ride with voltages
+ */
+export async function predictConsumption(userId: number, scooter: Pick<Scooter, "id" | "riderWeight">, plan: PlannedRide) {
+  const loaded = await loadConsumptionModel(userId, scooter.id);
+  if (!loaded) return null;
+
+  const { model, trainedAt } = loaded;
+  const routeKm = plan.route ? plan.route.distanceMeters / 1000 : 0;
+  const conditions = {
+    speedKmh: plan.speedKmh,
+    temperature: plan.weather?.temperature,
+    windSpeed: plan.weather?.windSpeed,
+    riderWeight: scooter.riderWeight,
+    climbPerKm: plan.route ? (routeKm > 0 ? plan.route.elevationGain / routeKm : 0) : undefined,
+    descentPerKm: plan.route ? (routeKm > 0 ? (plan.route.elevationLoss ?? 0) / routeKm : 0) : undefined,
+  };
+
+  return {
+    ...predictWhPerKm(model, conditions),
+    speedKmh: Math.round((plan.speedKmh ?? model.typical.speedKmh) * 10) / 10,
+    sampleCount: model.sampleCount,
+    trainedAt,
+  };
+}
@@ -1,8 +1,10 @@
-import { eq, and, desc, sql, gt, lt, isNotNull } from "drizzle-orm";
+import { eq, and, desc, sql, gt, lt, isNotNull, isNull, gte } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users, ridingRecords, InsertRidingRecord, RidingRecord, scooters, InsertScooter, Scooter, posts, InsertPost, Post, comments, InsertComment, Comment, postLikes, InsertPostLike, PostLike, friendRequests, InsertFriendRequest, FriendRequest, friends, InsertFriend, Friend, follows, InsertFollow, Follow, postImages, InsertPostImage, PostImage, postViews, InsertPostView, PostView, notifications, InsertNotification, Notification, challenges, InsertChallenge, Challenge, challengeParticipants, InsertChallengeParticipant, ChallengeParticipant, liveLocations, InsertLiveLocation, LiveLocation, badges, InsertBadge, Badge, userBadges, InsertUserBadge, UserBadge, challengeInvitations, InsertChallengeInvitation, ChallengeInvitation, appVersions, InsertAppVersion, AppVersion, groupSessions, InsertGroupSession, GroupSession, groupMembers, InsertGroupMember, GroupMember, groupMessages, InsertGroupMessage, GroupMessage, announcements, InsertAnnouncement, Announcement, userAnnouncementReads, InsertUserAnnouncementRead, UserAnnouncementRead, userBans, InsertUserBan, UserBan, surveyResponses, InsertSurveyResponse, SurveyResponse, bugReports, InsertBugReport, BugReport, userActivityLogs, InsertUserActivityLog, UserActivityLog, suspiciousUserReports, InsertSuspiciousUserReport, SuspiciousUserReport, aiChatUsage, AiChatUsage, aiChatHistory, AiChatHistoryRecord, batteryAnalysis, BatteryAnalysisRecord, chargingRecords, ChargingRecord, InsertChargingRecord, maintenanceItems, MaintenanceItem, InsertMaintenanceItem, maintenanceRecords, MaintenanceRecord, InsertMaintenanceRecord, batteryHealthReports, BatteryHealthReport, InsertBatteryHealthReport } from "../drizzle/schema";
+import { InsertUser, users, ridingRecords, InsertRidingRecord, RidingRecord, scooters, InsertScooter, Scooter, posts, InsertPost, Post, comments, InsertComment, Comment, postLikes, InsertPostLike, PostLike, friendRequests, InsertFriendRequest, FriendRequest, friends, InsertFriend, Friend, follows, InsertFollow, Follow, postImages, InsertPostImage, PostImage, postViews, InsertPostView, PostView, notifications, InsertNotification, Notification, challenges, InsertChallenge, Challenge, challengeParticipants, InsertChallengeParticipant, ChallengeParticipant, liveLocations, InsertLiveLocation, LiveLocation, badges, InsertBadge, Badge, userBadges, InsertUserBadge, UserBadge, challengeInvitations, InsertChallengeInvitation, ChallengeInvitation, appVersions, InsertAppVersion, AppVersion, groupSessions, InsertGroupSession, GroupSession, groupMembers, InsertGroupMember, GroupMember, groupMessages, InsertGroupMessage, GroupMessage, groupRideTracks, InsertGroupRideTrack, scheduledRides, ScheduledRide, InsertScheduledRide, scheduledRideRsvps, ScheduledRideRsvp, announcements, InsertAnnouncement, Announcement, userAnnouncementReads, InsertUserAnnouncementRead, UserAnnouncementRead, userBans, InsertUserBan, UserBan, surveyResponses, InsertSurveyResponse, SurveyResponse, bugReports, InsertBugReport, BugReport, userActivityLogs, InsertUserActivityLog, UserActivityLog, suspiciousUserReports, InsertSuspiciousUserReport, SuspiciousUserReport, aiChatUsage, AiChatUsage, aiChatHistory, AiChatHistoryRecord, batteryAnalysis, BatteryAnalysisRecord, batteryRideLogs, BatteryRideLog, InsertBatteryRideLog, chargingRecords, ChargingRecord, InsertChargingRecord, maintenanceItems, MaintenanceItem, InsertMaintenanceItem, maintenanceRecords, MaintenanceRecord, InsertMaintenanceRecord, batteryHealthReports, BatteryHealthReport, InsertBatteryHealthReport, segments, Segment, InsertSegment, segmentEfforts, SegmentEffort, InsertSegmentEffort, emergencyContacts, EmergencyContact, privacyZones, PrivacyZone, locationShareRules, LocationShareRule, locationShareLists, LocationShareList, locationShareListMembers, locationShareLinks, LocationShareLink, locationViews, consumptionModels, ConsumptionModel, InsertConsumptionModel, electricityTariffs, ElectricityTariff, chargerProfiles, ChargerProfile, batteryReminderSettings, BatteryReminderSetting } from "../drizzle/schema";
 import { ENV } from "./_core/env";
 import * as crypto from "crypto";
+import { batteryPackForScooter, socFromPackVoltage } from "../shared/battery-ocv.js";
+import { summarizeChargingByMonth } from "../shared/charging.js";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -367,6 +369,29 @@ export async function createRidingRecord(data: InsertRidingRecord): Promise<numb
   if (data.weatherCondition !== undefined && data.weatherCondition !== null) {
     insertData.weatherCondition = data.weatherCondition;
   }
+  // DEM elevation fields
+  if (data.elevationGain !== undefined && data.elevationGain !== null) {
+    insertData.elevationGain = data.elevationGain;
+  }
+  if (data.elevationLoss !== undefined && data.elevationLoss !== null) {
+    insertData.elevationLoss = data.elevationLoss;
+  }
+  if (data.elevationSource !== undefined && data.elevationSource !== null) {
+    insertData.elevationSource = data.elevationSource;
+  }
+  // Transport review fields
+  if (data.transportStatus !== undefined && data.transportStatus !== null) {
+    insertData.transportStatus = data.transportStatus;
+  }
+  if (data.excludedDistance !== undefined && data.excludedDistance !== null) {
+    insertData.excludedDistance = data.excludedDistance;
+  }
+  if (data.excludedDuration !== undefined && data.excludedDuration !== null) {
+    insertData.excludedDuration = data.excludedDuration;
+  }
+  if (data.transportSegmentsJson !== undefined && data.transportSegmentsJson !== null) {
+    insertData.transportSegmentsJson = data.transportSegmentsJson;
+  }
 
   const result = await db.insert(ridingRecords).values(insertData);
   return result[0].insertId;
@@ -376,8 +401,18 @@ export async function deleteRidingRecord(recordId: string, userId: number): Prom
   const db = await getDb();
   if (!db) return false;
 
+  // Only the owner's own ride (and its efforts) can be deleted
+  const record = await getRidingRecordByRecordId(recordId, userId);
+  if (!record) return false;
+
+  await db.delete(segmentEfforts).where(eq(segmentEfforts.ridingRecordId, record.id));
+
+  // The copy kept for the group replay goes with the ride
+  await db.delete(groupRideTracks)
+    .where(and(eq(groupRideTracks.recordId, recordId), eq(groupRideTracks.userId, userId)));
+
   await db.delete(ridingRecords)
-    .where(eq(ridingRecords.recordId, recordId));
+    .where(eq(ridingRecords.id, record.id));
   return true;
 }
 
@@ -399,6 +434,72 @@ export async function getRidingRecordByRecordId(recordId: string, userId: number
   return results[0];
 }
 
+// Ride editor: replace a record's track and stats
+export async function updateRidingRecord(
+  id: number,
+  data: Partial<Omit<InsertRidingRecord, "id" | "userId" | "recordId">>
+): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(ridingRecords).set(data).where(eq(ridingRecords.id, id));
+}
+
+// Drop a ride's segment efforts so its edited track can be matched again
+export async function deleteSegmentEffortsForRecord(ridingRecordId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(segmentEfforts).where(eq(segmentEfforts.ridingRecordId, ridingRecordId));
+}
+
+// Records with a GPS track that haven't been through DEM elevation correction yet
+export async function getRidingRecordsWithoutElevation(
+  limit: number,
+  userId?: number
+): Promise<Pick<RidingRecord, "id" | "recordId" | "gpsPointsJson">[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [isNull(ridingRecords.elevationSource), isNotNull(ridingRecords.gpsPointsJson)];
+  if (userId !== undefined) {
+    conditions.push(eq(ridingRecords.userId, userId));
+  }
+
+  return db
+    .select({ id: ridingRecords.id, recordId: ridingRecords.recordId, gpsPointsJson: ridingRecords.gpsPointsJson })
+    .from(ridingRecords)
+    .where(and(...conditions))
+    .orderBy(desc(ridingRecords.createdAt))
+    .limit(limit);
+}
+
+export async function countRidingRecordsWithoutElevation(userId?: number): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const conditions = [isNull(ridingRecords.elevationSource), isNotNull(ridingRecords.gpsPointsJson)];
+  if (userId !== undefined) {
+    conditions.push(eq(ridingRecords.userId, userId));
+  }
+
+  const result = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(ridingRecords)
+    .where(and(...conditions));
+  return Number(result[0]?.count) || 0;
+}
+
+export async function updateRidingRecordElevation(
+  id: number,
+  data: Pick<InsertRidingRecord, "gpsPointsJson" | "elevationGain" | "elevationLoss" | "elevationSource">
+): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(ridingRecords).set(data).where(eq(ridingRecords.id, id));
+}
+
 // Check for duplicate record by startTime (within tolerance seconds)
 export async function getRidingRecordByStartTime(
   userId: number,
@@ -627,6 +728,8 @@ export async function getPosts(
       content: posts.content,
       postType: posts.postType,
       ridingRecordId: posts.ridingRecordId,
+      groupId: posts.groupId,
+      scheduledRideId: posts.scheduledRideId,
       likeCount: posts.likeCount,
       commentCount: posts.commentCount,
       viewCount: posts.viewCount,
@@ -700,6 +803,8 @@ export async function getPostById(postId: number, userId?: number): Promise<Post
       content: posts.content,
       postType: posts.postType,
       ridingRecordId: posts.ridingRecordId,
+      groupId: posts.groupId,
+      scheduledRideId: posts.scheduledRideId,
       likeCount: posts.likeCount,
       commentCount: posts.commentCount,
       viewCount: posts.viewCount,
@@ -865,6 +970,8 @@ export async function getUserPosts(userId: number): Promise<PostWithAuthor[]> {
       content: posts.content,
       postType: posts.postType,
       ridingRecordId: posts.ridingRecordId,
+      groupId: posts.groupId,
+      scheduledRideId: posts.scheduledRideId,
       likeCount: posts.likeCount,
       commentCount: posts.commentCount,
       viewCount: posts.viewCount,
@@ -1725,6 +1832,49 @@ export async function updateChallengeProgress(
   return true;
 }
 
+/**
+ * Recalculate a user's progress in every challenge they joined from their riding records
+ * (distance in km, ride count, or riding time in minutes within the challenge period)
+ */
+export async function recalculateChallengeProgress(userId: number): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const participations = await db
+    .select({ challenge: challenges })
+    .from(challengeParticipants)
+    .innerJoin(challenges, eq(challengeParticipants.challengeId, challenges.id))
+    .where(eq(challengeParticipants.userId, userId));
+
+  for (const { challenge } of participations) {
+    const rideTime = sql`coalesce(${ridingRecords.startTime}, ${ridingRecords.createdAt})`;
+    const [totals] = await db
+      .select({
+        rides: sql<number>`count(*)`,
+        distance: sql<number>`coalesce(sum(${ridingRecords.distance}), 0)`,
+        duration: sql<number>`coalesce(sum(${ridingRecords.duration}), 0)`,
+      })
+      .from(ridingRecords)
+      .where(
+        and(
+          eq(ridingRecords.userId, userId),
+          sql`${rideTime} >= ${challenge.startDate}`,
+          sql`${rideTime} <= ${challenge.endDate}`
+        )
+      );
+
+    const progress =
+      challenge.type === "distance"
+        ? Number(totals?.distance ?? 0) / 1000
+        : challenge.type === "duration"
+          ? Number(totals?.duration ?? 0) / 60
+          : Number(totals?.rides ?? 0);
+    await updateChallengeProgress(challenge.id, userId, Math.round(progress * 100) / 100);
+  }
+
+  return participations.length;
+}
+
 // Get user's challenges
 export async function getUserChallenges(userId: number): Promise<ChallengeWithCreator[]> {
   const db = await getDb();
@@ -1816,7 +1966,8 @@ export async function updateLiveLocation(
   longitude: number,
   heading: number | null,
   speed: number | null,
-  isRiding: boolean
+  isRiding: boolean,
+  groupId: number | null = null
 ): Promise<void> {
   const db = await getDb();
   if (!db) return;
@@ -1837,6 +1988,7 @@ export async function updateLiveLocation(
         heading: heading?.toString() || null,
         speed: speed?.toString() || null,
         isRiding,
+        groupId,
       })
       .where(eq(liveLocations.userId, userId));
   } else {
@@ -1847,6 +1999,7 @@ export async function updateLiveLocation(
       heading: heading?.toString() || null,
       speed: speed?.toString() || null,
       isRiding,
+      groupId,
     });
   }
 }
@@ -1858,12 +2011,11 @@ export async function stopLiveLocation(userId: number): Promise<void> {
 
   await db
     .update(liveLocations)
-    .set({ isRiding: false })
+    .set({ isRiding: false, groupId: null })
     .where(eq(liveLocations.userId, userId));
 }
 
-// Get friends' live locations
-export async function getFriendsLiveLocations(userId: number): Promise<{
+export interface FriendLiveLocation {
   userId: number;
   name: string | null;
   profileImageUrl: string | null;
@@ -1871,8 +2023,14 @@ export async function getFriendsLiveLocations(userId: number): Promise<{
   longitude: number;
   heading: number | null;
   speed: number | null;
+  isRiding: boolean;
+  groupId: number | null;
   updatedAt: Date;
-}[]> {
+}
+
+// Get friends' last reported locations since a time, riding or not
+// (location-sharing decides which of them the user may see)
+export async function getFriendsLiveLocations(userId: number, since: Date): Promise<FriendLiveLocation[]> {
   const db = await getDb();
   if (!db) return [];
 
@@ -1894,8 +2052,6 @@ export async function getFriendsLiveLocations(userId: number): Promise<{
 
   if (friendIds.length === 0) return [];
 
-  // Get live locations of friends who are riding
-  // Only show locations updated within the last 30 minutes (1800 seconds)
   const locations = await db
     .select({
       userId: liveLocations.userId,
@@ -1903,6 +2059,8 @@ export async function getFriendsLiveLocations(userId: number): Promise<{
       longitude: liveLocations.longitude,
       heading: liveLocations.heading,
       speed: liveLocations.speed,
+      isRiding: liveLocations.isRiding,
+      groupId: liveLocations.groupId,
       updatedAt: liveLocations.updatedAt,
       name: users.name,
       profileImageUrl: users.profileImageUrl,
@@ -1910,9 +2068,8 @@ export async function getFriendsLiveLocations(userId: number): Promise<{
     .from(liveLocations)
     .leftJoin(users, eq(liveLocations.userId, users.id))
     .where(and(
-      eq(liveLocations.isRiding, true),
       sql`${liveLocations.userId} IN (${sql.join(friendIds.map(id => sql`${id}`), sql`, `)})`,
-      sql`${liveLocations.updatedAt} > DATE_SUB(NOW(), INTERVAL 30 MINUTE)`
+      gt(liveLocations.updatedAt, since)
     ));
 
   return locations.map(loc => ({
@@ -1923,10 +2080,21 @@ export async function getFriendsLiveLocations(userId: number): Promise<{
     longitude: parseFloat(loc.longitude),
     heading: loc.heading ? parseFloat(loc.heading) : null,
     speed: loc.speed ? parseFloat(loc.speed) : null,
+    isRiding: loc.isRiding,
+    groupId: loc.groupId,
     updatedAt: loc.updatedAt,
   }));
 }
 
+// A rider's last reported location
+export async function getLiveLocation(userId: number): Promise<LiveLocation | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(liveLocations).where(eq(liveLocations.userId, userId)).limit(1);
+  return result[0];
+}
+
 // ==================== Badge Functions ====================
 
 // Get all badges
@@ -2488,11 +2656,13 @@ export async function getUserGroups(userId: number): Promise<{
   hostName: string | null;
   isActive: boolean;
   isRiding: boolean;
+  isPublic: boolean;
   members: {
     userId: number;
     name: string | null;
     profileImageUrl: string | null;
     isHost: boolean;
+    rideRole: "leader" | "sweep" | null;
     isRiding: boolean;
     status: "pending" | "approved" | "rejected" | null;
     distance: number;
@@ -2528,6 +2698,7 @@ export async function getUserGroups(userId: number): Promise<{
         hostId: groupSessions.hostId,
         isActive: groupSessions.isActive,
         isRiding: groupSessions.isRiding,
+        isPublic: groupSessions.isPublic,
         hostName: users.name,
       })
       .from(groupSessions)
@@ -2547,6 +2718,7 @@ export async function getUserGroups(userId: number): Promise<{
           .select({
             userId: groupMembers.userId,
             isHost: groupMembers.isHost,
+            rideRole: groupMembers.rideRole,
             isRiding: groupMembers.isRiding,
             status: groupMembers.status,
             distance: groupMembers.distance,
@@ -2593,6 +2765,7 @@ export async function getGroupById(groupId: number): Promise<{
     name: string | null;
     profileImageUrl: string | null;
     isHost: boolean;
+    rideRole: "leader" | "sweep" | null;
     isRiding: boolean;
     status: "pending" | "approved" | "rejected" | null;
     distance: number;
@@ -2627,6 +2800,7 @@ export async function getGroupById(groupId: number): Promise<{
       .select({
         userId: groupMembers.userId,
         isHost: groupMembers.isHost,
+        rideRole: groupMembers.rideRole,
         isRiding: groupMembers.isRiding,
         status: groupMembers.status,
         distance: groupMembers.distance,
@@ -2757,6 +2931,41 @@ export async function stopGroupRiding(groupId: number, userId: number): Promise<
   }
 }
 
+// Get a group's host and the route published to it (for WebSocket route sharing)
+export async function getGroupSharedRoute(groupId: number): Promise<{ hostId: number; sharedRouteJson: string | null } | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  try {
+    const result = await db
+      .select({ hostId: groupSessions.hostId, sharedRouteJson: groupSessions.sharedRouteJson })
+      .from(groupSessions)
+      .where(eq(groupSessions.id, groupId))
+      .limit(1);
+    return result[0] ?? null;
+  } catch (error) {
+    console.error("[Database] Failed to get group shared route:", error);
+    return null;
+  }
+}
+
+// Save (or clear with null) the route published by a group's host
+export async function saveGroupSharedRoute(groupId: number, sharedRouteJson: string | null): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  try {
+    await db
+      .update(groupSessions)
+      .set({ sharedRouteJson })
+      .where(eq(groupSessions.id, groupId));
+    return true;
+  } catch (error) {
+    console.error("[Database] Failed to save group shared route:", error);
+    return false;
+  }
+}
+
 // Get group members' locations (for map display)
 export async function getGroupMembersLocations(groupId: number): Promise<{
   userId: number;
@@ -2822,7 +3031,8 @@ export async function sendGroupMessage(
   groupId: number,
   userId: number,
   message: string,
-  messageType: "text" | "location" | "alert" = "text"
+  messageType: "text" | "location" | "alert" | "voice" = "text",
+  voice?: { audioUrl: string; audioDuration: number }
 ): Promise<{ id: number; createdAt: Date } | null> {
   const db = await getDb();
   if (!db) return null;
@@ -2848,6 +3058,8 @@ export async function sendGroupMessage(
       userId,
       message,
       messageType,
+      audioUrl: voice?.audioUrl,
+      audioDuration: voice?.audioDuration,
     });
 
     const insertId = result[0].insertId;
@@ -2872,7 +3084,10 @@ export async function getGroupMessages(
   userName: string | null;
   userProfileImage: string | null;
   message: string;
-  messageType: "text" | "location" | "alert";
+  messageType: "text" | "location" | "alert" | "voice";
+  audioUrl: string | null;
+  audioDuration: number | null;
+  transcript: string | null;
   createdAt: Date;
 }[]> {
   const db = await getDb();
@@ -2897,6 +3112,9 @@ export async function getGroupMessages(
         userProfileImage: users.profileImageUrl,
         message: groupMessages.message,
         messageType: groupMessages.messageType,
+        audioUrl: groupMessages.audioUrl,
+        audioDuration: groupMessages.audioDuration,
+        transcript: groupMessages.transcript,
         createdAt: groupMessages.createdAt,
       })
       .from(groupMessages)
@@ -2923,12 +3141,29 @@ export async function getNewGroupMessages(
   userName: string | null;
   userProfileImage: string | null;
   message: string;
-  messageType: "text" | "location" | "alert";
+  messageType: "text" | "location" | "alert" | "voice";
+  audioUrl: string | null;
+  audioDuration: number | null;
+  transcript: string | null;
   createdAt: Date;
 }[]> {
   return getGroupMessages(groupId, { afterId, limit: 100 });
 }
 
+// Store the transcript of a voice message
+export async function setGroupMessageTranscript(messageId: number, transcript: string): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  try {
+    await db.update(groupMessages).set({ transcript }).where(eq(groupMessages.id, messageId));
+    return true;
+  } catch (error) {
+    console.error("[Database] Failed to save voice message transcript:", error);
+    return false;
+  }
+}
+
 // Delete all messages for a group (when group is deleted)
 export async function deleteGroupMessages(groupId: number): Promise<boolean> {
   const db = await getDb();
@@ -3012,8 +3247,13 @@ export async function approveMember(groupId: number, hostId: number, memberId: n
   }
 }
 
-// Reject a pending member (host only)
-export async function rejectMember(groupId: number, hostId: number, memberId: number): Promise<boolean> {
+// Assign the leader / sweep ride role to an approved member, or clear it (host only)
+export async function setGroupMemberRideRole(
+  groupId: number,
+  hostId: number,
+  memberId: number,
+  rideRole: "leader" | "sweep" | null
+): Promise<boolean> {
   const db = await getDb();
   if (!db) return false;
 
@@ -3027,2523 +3267,4323 @@ export async function rejectMember(groupId: number, hostId: number, memberId: nu
 
     if (group.length === 0) return false;
 
-    // Delete the pending member
-    await db
-      .delete(groupMembers)
+    const member = await db
+      .select({ id: groupMembers.id })
+      .from(groupMembers)
       .where(and(
         eq(groupMembers.groupId, groupId),
         eq(groupMembers.userId, memberId),
-        eq(groupMembers.status, "pending")
-      ));
+        eq(groupMembers.status, "approved")
+      ))
+      .limit(1);
+
+    if (member.length === 0) return false;
+
+    // Each role is held by one member at a time
+    if (rideRole) {
+      await db
+        .update(groupMembers)
+        .set({ rideRole: null })
+        .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.rideRole, rideRole)));
+    }
+
+    await db
+      .update(groupMembers)
+      .set({ rideRole })
+      .where(eq(groupMembers.id, member[0].id));
 
     return true;
   } catch (error) {
-    console.error("[Database] Failed to reject member:", error);
+    console.error("[Database] Failed to set member ride role:", error);
     return false;
   }
 }
 
-
-// ============================================
-// Announcement Functions
-// ============================================
-
-// Get active announcements
-export async function getActiveAnnouncements(): Promise<Announcement[]> {
+// Get the members holding the leader / sweep ride roles
+export async function getGroupRideRoles(groupId: number): Promise<{ leaderId: number | null; sweepId: number | null }> {
   const db = await getDb();
-  if (!db) return [];
+  if (!db) return { leaderId: null, sweepId: null };
 
   try {
-    const now = new Date();
-    const result = await db
-      .select()
-      .from(announcements)
-      .where(
-        and(
-          eq(announcements.isActive, true),
-          sql`(${announcements.startDate} IS NULL OR ${announcements.startDate} <= ${now})`,
-          sql`(${announcements.endDate} IS NULL OR ${announcements.endDate} >= ${now})`
-        )
-      )
-      .orderBy(desc(announcements.priority), desc(announcements.createdAt));
+    const rows = await db
+      .select({ userId: groupMembers.userId, rideRole: groupMembers.rideRole })
+      .from(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), isNotNull(groupMembers.rideRole)));
 
-    return result;
+    return {
+      leaderId: rows.find(r => r.rideRole === "leader")?.userId ?? null,
+      sweepId: rows.find(r => r.rideRole === "sweep")?.userId ?? null,
+    };
   } catch (error) {
-    console.error("[Database] Failed to get active announcements:", error);
-    return [];
+    console.error("[Database] Failed to get group ride roles:", error);
+    return { leaderId: null, sweepId: null };
   }
 }
 
-// Get announcement by ID
-export async function getAnnouncementById(id: number): Promise<Announcement | null> {
+// Whether the user is an approved member of the group (the host included)
+export async function isApprovedGroupMember(groupId: number, userId: number): Promise<boolean> {
   const db = await getDb();
-  if (!db) return null;
+  if (!db) return false;
 
   try {
-    const result = await db
-      .select()
-      .from(announcements)
-      .where(eq(announcements.id, id))
+    const member = await db
+      .select({ id: groupMembers.id })
+      .from(groupMembers)
+      .where(and(
+        eq(groupMembers.groupId, groupId),
+        eq(groupMembers.userId, userId),
+        eq(groupMembers.status, "approved")
+      ))
       .limit(1);
-
-    return result[0] || null;
+    return member.length > 0;
   } catch (error) {
-    console.error("[Database] Failed to get announcement by id:", error);
-    return null;
+    console.error("[Database] Failed to check group membership:", error);
+    return false;
   }
 }
 
-// Get all announcements (admin)
-export async function getAllAnnouncements(): Promise<Announcement[]> {
+// The groups among groupIds the user is an approved member of
+export async function getApprovedGroupIds(userId: number, groupIds: number[]): Promise<Set<number>> {
   const db = await getDb();
-  if (!db) return [];
+  if (!db || groupIds.length === 0) return new Set();
 
   try {
-    const result = await db
-      .select()
-      .from(announcements)
-      .orderBy(desc(announcements.createdAt));
-
-    return result;
+    const rows = await db
+      .select({ groupId: groupMembers.groupId })
+      .from(groupMembers)
+      .where(and(
+        eq(groupMembers.userId, userId),
+        eq(groupMembers.status, "approved"),
+        sql`${groupMembers.groupId} IN (${sql.join(groupIds.map(id => sql`${id}`), sql`, `)})`
+      ));
+    return new Set(rows.map(row => row.groupId));
   } catch (error) {
-    console.error("[Database] Failed to get all announcements:", error);
-    return [];
+    console.error("[Database] Failed to get approved groups:", error);
+    return new Set();
   }
 }
 
-// Create announcement (admin)
-export async function createAnnouncement(data: InsertAnnouncement): Promise<number | null> {
+// Keep a member's ride with the group session for replay (a re-synced ride replaces its track)
+export async function saveGroupRideTrack(data: Omit<InsertGroupRideTrack, "id">): Promise<boolean> {
   const db = await getDb();
-  if (!db) return null;
+  if (!db) return false;
 
   try {
-    const result = await db.insert(announcements).values(data);
-    return result[0].insertId;
+    await db
+      .insert(groupRideTracks)
+      .values(data)
+      .onDuplicateKeyUpdate({
+        set: {
+          distance: data.distance,
+          duration: data.duration,
+          avgSpeed: data.avgSpeed,
+          maxSpeed: data.maxSpeed,
+          startTime: data.startTime,
+          endTime: data.endTime,
+          trackJson: data.trackJson,
+        },
+      });
+    return true;
   } catch (error) {
-    console.error("[Database] Failed to create announcement:", error);
-    return null;
+    console.error("[Database] Failed to save group ride track:", error);
+    return false;
   }
 }
 
-// Update announcement (admin)
-export async function updateAnnouncement(id: number, data: Partial<InsertAnnouncement>): Promise<boolean> {
+// Group session a ride's track is kept with for the replay (null when it isn't kept)
+export async function getGroupRideTrackGroupId(recordId: string, userId: number): Promise<number | null> {
   const db = await getDb();
-  if (!db) return false;
+  if (!db) return null;
 
   try {
-    await db.update(announcements).set(data).where(eq(announcements.id, id));
-    return true;
+    const rows = await db
+      .select({ groupId: groupRideTracks.groupId })
+      .from(groupRideTracks)
+      .where(and(eq(groupRideTracks.recordId, recordId), eq(groupRideTracks.userId, userId)))
+      .limit(1);
+    return rows[0]?.groupId ?? null;
   } catch (error) {
-    console.error("[Database] Failed to update announcement:", error);
-    return false;
+    console.error("[Database] Failed to get group ride track:", error);
+    return null;
   }
 }
 
-// Delete announcement (admin)
-export async function deleteAnnouncement(id: number): Promise<boolean> {
+// Stop keeping a ride's track for the group replay
+export async function deleteGroupRideTrack(recordId: string, userId: number): Promise<void> {
   const db = await getDb();
-  if (!db) return false;
+  if (!db) return;
 
-  try {
-    await db.delete(announcements).where(eq(announcements.id, id));
-    return true;
-  } catch (error) {
-    console.error("[Database] Failed to delete announcement:", error);
-    return false;
-  }
+  await db.delete(groupRideTracks)
+    .where(and(eq(groupRideTracks.recordId, recordId), eq(groupRideTracks.userId, userId)));
 }
 
-// Get user's dismissed announcements
-export async function getUserDismissedAnnouncements(userId: number): Promise<number[]> {
+// Get the members' tracks of a group ride, in start order
+export async function getGroupRideTracks(groupId: number): Promise<{
+  userId: number;
+  name: string | null;
+  profileImageUrl: string | null;
+  profileColor: string | null;
+  recordId: string;
+  distance: number;
+  duration: number;
+  avgSpeed: number;
+  maxSpeed: number;
+  startTime: Date;
+  endTime: Date;
+  trackJson: string;
+}[]> {
   const db = await getDb();
   if (!db) return [];
 
   try {
-    const result = await db
-      .select({ announcementId: userAnnouncementReads.announcementId })
-      .from(userAnnouncementReads)
-      .where(and(
-        eq(userAnnouncementReads.userId, userId),
-        eq(userAnnouncementReads.dismissed, true)
-      ));
-
-    return result.map(r => r.announcementId);
+    return await db
+      .select({
+        userId: groupRideTracks.userId,
+        name: users.name,
+        profileImageUrl: users.profileImageUrl,
+        profileColor: users.profileColor,
+        recordId: groupRideTracks.recordId,
+        distance: groupRideTracks.distance,
+        duration: groupRideTracks.duration,
+        avgSpeed: groupRideTracks.avgSpeed,
+        maxSpeed: groupRideTracks.maxSpeed,
+        startTime: groupRideTracks.startTime,
+        endTime: groupRideTracks.endTime,
+        trackJson: groupRideTracks.trackJson,
+      })
+      .from(groupRideTracks)
+      .leftJoin(users, eq(groupRideTracks.userId, users.id))
+      .where(eq(groupRideTracks.groupId, groupId))
+      .orderBy(groupRideTracks.startTime);
   } catch (error) {
-    console.error("[Database] Failed to get dismissed announcements:", error);
+    console.error("[Database] Failed to get group ride tracks:", error);
     return [];
   }
 }
 
-// Dismiss announcement for user
-export async function dismissAnnouncement(userId: number, announcementId: number): Promise<boolean> {
-  const db = await getDb();
+// Reject a pending member (host only)
+export async function rejectMember(groupId: number, hostId: number, memberId: number): Promise<boolean> {
+  const db = await getDb();
   if (!db) return false;
 
   try {
-    await db.insert(userAnnouncementReads).values({
-      userId,
-      announcementId,
-      dismissed: true,
-    }).onDuplicateKeyUpdate({
-      set: { dismissed: true },
-    });
+    // Verify host
+    const group = await db
+      .select()
+      .from(groupSessions)
+      .where(and(eq(groupSessions.id, groupId), eq(groupSessions.hostId, hostId)))
+      .limit(1);
+
+    if (group.length === 0) return false;
+
+    // Delete the pending member
+    await db
+      .delete(groupMembers)
+      .where(and(
+        eq(groupMembers.groupId, groupId),
+        eq(groupMembers.userId, memberId),
+        eq(groupMembers.status, "pending")
+      ));
+
     return true;
   } catch (error) {
-    console.error("[Database] Failed to dismiss announcement:", error);
+    console.error("[Database] Failed to reject member:", error);
+    return false;
+  }
+}
+
+// Add riders to a group as approved members (members already in the group are skipped)
+export async function addApprovedGroupMembers(groupId: number, userIds: number[]): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  try {
+    for (const userId of userIds) {
+      const existing = await db
+        .select({ id: groupMembers.id })
+        .from(groupMembers)
+        .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)))
+        .limit(1);
+      if (existing.length > 0) continue;
+
+      await db.insert(groupMembers).values({
+        groupId,
+        userId,
+        isHost: false,
+        isRiding: false,
+        status: "approved",
+      });
+    }
+    return true;
+  } catch (error) {
+    console.error("[Database] Failed to add group members:", error);
     return false;
   }
 }
 
+
 // ============================================
-// User Ban Functions (Admin)
+// Scheduled Group Ride Functions
 // ============================================
 
-// Check if user is banned
-export async function isUserBanned(userId: number): Promise<{ banned: boolean; reason?: string; expiresAt?: Date }> {
+export interface ScheduledRideSummary {
+  id: number;
+  hostId: number;
+  hostName: string | null;
+  title: string;
+  startsAt: Date;
+  meetingPointName: string;
+  paceLevel: "relaxed" | "moderate" | "fast";
+  capacity: number;
+  status: "scheduled" | "started" | "cancelled";
+  groupId: number | null;
+  goingCount: number;
+  myStatus: ScheduledRideRsvp["status"] | null;
+}
+
+// Create a scheduled ride
+export async function createScheduledRide(data: Omit<InsertScheduledRide, "id">): Promise<number | null> {
   const db = await getDb();
-  if (!db) return { banned: false };
+  if (!db) return null;
 
   try {
-    const now = new Date();
-    const result = await db
-      .select()
-      .from(userBans)
+    const result = await db.insert(scheduledRides).values(data);
+    return result[0].insertId;
+  } catch (error) {
+    console.error("[Database] Failed to create scheduled ride:", error);
+    return null;
+  }
+}
+
+// Get a scheduled ride by ID
+export async function getScheduledRide(rideId: number): Promise<ScheduledRide | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  try {
+    const result = await db.select().from(scheduledRides).where(eq(scheduledRides.id, rideId)).limit(1);
+    return result[0] ?? null;
+  } catch (error) {
+    console.error("[Database] Failed to get scheduled ride:", error);
+    return null;
+  }
+}
+
+// Get public rides and rides the user hosts or answered, starting after `since` (not cancelled), soonest first, with RSVP counts for the list
+export async function getUpcomingScheduledRides(userId: number, since: Date, limit: number = 50): Promise<ScheduledRideSummary[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  try {
+    const rides = await db
+      .select({
+        id: scheduledRides.id,
+        hostId: scheduledRides.hostId,
+        hostName: users.name,
+        title: scheduledRides.title,
+        startsAt: scheduledRides.startsAt,
+        meetingPointName: scheduledRides.meetingPointName,
+        paceLevel: scheduledRides.paceLevel,
+        capacity: scheduledRides.capacity,
+        status: scheduledRides.status,
+        groupId: scheduledRides.groupId,
+      })
+      .from(scheduledRides)
+      .leftJoin(users, eq(scheduledRides.hostId, users.id))
       .where(and(
-        eq(userBans.userId, userId),
-        eq(userBans.isActive, true),
-        sql`(${userBans.expiresAt} IS NULL OR ${userBans.expiresAt} > ${now})`
+        gt(scheduledRides.startsAt, since),
+        ne(scheduledRides.status, "cancelled"),
+        or(
+          eq(scheduledRides.isPublic, true),
+          eq(scheduledRides.hostId, userId),
+          sql`${scheduledRides.id} IN (SELECT ${scheduledRideRsvps.rideId} FROM ${scheduledRideRsvps} WHERE ${scheduledRideRsvps.userId} = ${userId})`
+        )
       ))
-      .limit(1);
+      .orderBy(scheduledRides.startsAt)
+      .limit(limit);
+    if (rides.length === 0) return [];
 
-    if (result.length > 0) {
+    const rsvps = await db
+      .select({ rideId: scheduledRideRsvps.rideId, userId: scheduledRideRsvps.userId, status: scheduledRideRsvps.status })
+      .from(scheduledRideRsvps)
+      .where(sql`${scheduledRideRsvps.rideId} IN (${sql.join(rides.map(ride => sql`${ride.id}`), sql`, `)})`);
+
+    return rides.map(ride => {
+      const forRide = rsvps.filter(rsvp => rsvp.rideId === ride.id);
       return {
-        banned: true,
-        reason: result[0].reason ?? undefined,
-        expiresAt: result[0].expiresAt ?? undefined,
+        ...ride,
+        goingCount: forRide.filter(rsvp => rsvp.status === "going").length,
+        myStatus: forRide.find(rsvp => rsvp.userId === userId)?.status ?? null,
       };
-    }
-    return { banned: false };
+    });
   } catch (error) {
-    console.error("[Database] Failed to check user ban:", error);
-    return { banned: false };
+    console.error("[Database] Failed to get scheduled rides:", error);
+    return [];
   }
 }
 
-// Ban user (admin) - enhanced with unbannedBy tracking
-export async function banUser(data: {
+// Get the RSVPs of a scheduled ride with rider names, oldest first
+export async function getScheduledRideRsvps(rideId: number): Promise<{
   userId: number;
-  bannedBy: number;
-  reason: string;
-  banType: "temporary" | "permanent";
-  expiresAt?: Date;
-}): Promise<boolean> {
+  name: string | null;
+  profileImageUrl: string | null;
+  status: ScheduledRideRsvp["status"];
+  updatedAt: Date;
+}[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  try {
+    return await db
+      .select({
+        userId: scheduledRideRsvps.userId,
+        name: users.name,
+        profileImageUrl: users.profileImageUrl,
+        status: scheduledRideRsvps.status,
+        updatedAt: scheduledRideRsvps.updatedAt,
+      })
+      .from(scheduledRideRsvps)
+      .leftJoin(users, eq(scheduledRideRsvps.userId, users.id))
+      .where(eq(scheduledRideRsvps.rideId, rideId))
+      .orderBy(scheduledRideRsvps.updatedAt);
+  } catch (error) {
+    console.error("[Database] Failed to get scheduled ride RSVPs:", error);
+    return [];
+  }
+}
+
+// Set a rider's RSVP (one per rider and ride)
+export async function setScheduledRideRsvp(
+  rideId: number,
+  userId: number,
+  status: ScheduledRideRsvp["status"]
+): Promise<boolean> {
   const db = await getDb();
   if (!db) return false;
 
   try {
-    await db.insert(userBans).values({
-      userId: data.userId,
-      bannedBy: data.bannedBy,
-      reason: data.reason,
-      banType: data.banType,
-      expiresAt: data.expiresAt,
-      isActive: true,
-    });
+    const existing = await db
+      .select({ id: scheduledRideRsvps.id })
+      .from(scheduledRideRsvps)
+      .where(and(eq(scheduledRideRsvps.rideId, rideId), eq(scheduledRideRsvps.userId, userId)))
+      .limit(1);
+
+    if (existing.length > 0) {
+      await db.update(scheduledRideRsvps).set({ status }).where(eq(scheduledRideRsvps.id, existing[0].id));
+    } else {
+      await db.insert(scheduledRideRsvps).values({ rideId, userId, status });
+    }
     return true;
   } catch (error) {
-    console.error("[Database] Failed to ban user:", error);
+    console.error("[Database] Failed to set scheduled ride RSVP:", error);
     return false;
   }
 }
 
-// Unban user (admin) - enhanced with unbannedBy tracking
-export async function unbanUser(userId: number, unbannedBy?: number): Promise<boolean> {
+export interface ScheduledRideRsvpChange {
+  userId: number;
+  status: ScheduledRideRsvp["status"];
+}
+
+// Answer RSVPs in one transaction holding the ride's row lock, so concurrent answers to a ride take
+// turns and see each other's writes. `plan` gets the locked ride and its RSVPs and returns the
+// changes to write; anything it throws rolls the transaction back and reaches the caller.
+export async function updateScheduledRideRsvps<T>(
+  rideId: number,
+  plan: (
+    ride: ScheduledRide | undefined,
+    rsvps: { userId: number; status: ScheduledRideRsvp["status"]; updatedAt: Date }[]
+  ) => { changes: ScheduledRideRsvpChange[]; result: T }
+): Promise<T> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async (tx) => {
+    const [ride] = await tx.select().from(scheduledRides).where(eq(scheduledRides.id, rideId)).for("update");
+    const rsvps = await tx
+      .select({ userId: scheduledRideRsvps.userId, status: scheduledRideRsvps.status, updatedAt: scheduledRideRsvps.updatedAt })
+      .from(scheduledRideRsvps)
+      .where(eq(scheduledRideRsvps.rideId, rideId))
+      .orderBy(scheduledRideRsvps.updatedAt);
+
+    const { changes, result } = plan(ride, rsvps);
+    for (const change of changes) {
+      if (rsvps.some(rsvp => rsvp.userId === change.userId)) {
+        await tx.update(scheduledRideRsvps)
+          .set({ status: change.status })
+          .where(and(eq(scheduledRideRsvps.rideId, rideId), eq(scheduledRideRsvps.userId, change.userId)));
+      } else {
+        await tx.insert(scheduledRideRsvps).values({ rideId, userId: change.userId, status: change.status });
+      }
+    }
+    return result;
+  });
+}
+
+// Whether a community post recruits riders for the ride
+export async function hasScheduledRideRecruitPost(rideId: number): Promise<boolean> {
   const db = await getDb();
   if (!db) return false;
 
   try {
-    await db
-      .update(userBans)
-      .set({ 
-        isActive: false,
-        unbannedBy: unbannedBy,
-        unbannedAt: new Date(),
-      })
-      .where(and(eq(userBans.userId, userId), eq(userBans.isActive, true)));
+    const post = await db
+      .select({ id: posts.id })
+      .from(posts)
+      .where(and(eq(posts.scheduledRideId, rideId), eq(posts.postType, "group_recruit")))
+      .limit(1);
+    return post.length > 0;
+  } catch (error) {
+    console.error("[Database] Failed to check scheduled ride posts:", error);
+    return false;
+  }
+}
+
+// Move a ride from one status to another; false when it was no longer in `from` (e.g. another server started it)
+export async function updateScheduledRideStatus(
+  rideId: number,
+  from: ScheduledRide["status"],
+  to: ScheduledRide["status"]
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  try {
+    const result = await db
+      .update(scheduledRides)
+      .set({ status: to })
+      .where(and(eq(scheduledRides.id, rideId), eq(scheduledRides.status, from)));
+    return result[0].affectedRows > 0;
+  } catch (error) {
+    console.error("[Database] Failed to update scheduled ride status:", error);
+    return false;
+  }
+}
+
+// Link the group session created for a scheduled ride
+export async function setScheduledRideGroup(rideId: number, groupId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  try {
+    await db.update(scheduledRides).set({ groupId }).where(eq(scheduledRides.id, rideId));
     return true;
   } catch (error) {
-    console.error("[Database] Failed to unban user:", error);
+    console.error("[Database] Failed to link scheduled ride group:", error);
     return false;
   }
 }
 
-// Get all banned users (admin)
-export async function getBannedUsers(): Promise<{
-  id: number;
-  userId: number;
-  userName: string | null;
-  reason: string | null;
-  banType: string;
-  expiresAt: Date | null;
-  createdAt: Date;
-}[]> {
+// Mark the reminder of a ride as sent; false when it already was
+export async function claimScheduledRideReminder(rideId: number): Promise<boolean> {
   const db = await getDb();
-  if (!db) return [];
+  if (!db) return false;
 
   try {
     const result = await db
-      .select({
-        id: userBans.id,
-        userId: userBans.userId,
-        userName: users.name,
-        reason: userBans.reason,
-        banType: userBans.banType,
-        expiresAt: userBans.expiresAt,
-        createdAt: userBans.createdAt,
-      })
-      .from(userBans)
-      .leftJoin(users, eq(userBans.userId, users.id))
-      .where(eq(userBans.isActive, true))
-      .orderBy(desc(userBans.createdAt));
+      .update(scheduledRides)
+      .set({ reminderSentAt: new Date() })
+      .where(and(eq(scheduledRides.id, rideId), isNull(scheduledRides.reminderSentAt)));
+    return result[0].affectedRows > 0;
+  } catch (error) {
+    console.error("[Database] Failed to claim scheduled ride reminder:", error);
+    return false;
+  }
+}
 
-    return result;
+// Get scheduled (not yet started) rides starting between `from` and `until`
+export async function getScheduledRidesStartingBetween(from: Date, until: Date): Promise<ScheduledRide[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  try {
+    return await db
+      .select()
+      .from(scheduledRides)
+      .where(and(
+        eq(scheduledRides.status, "scheduled"),
+        gt(scheduledRides.startsAt, from),
+        lt(scheduledRides.startsAt, until)
+      ))
+      .orderBy(scheduledRides.startsAt);
   } catch (error) {
-    console.error("[Database] Failed to get banned users:", error);
+    console.error("[Database] Failed to get due scheduled rides:", error);
     return [];
   }
 }
 
 // ============================================
-// Admin User Management Functions
+// Ride Discovery Functions
 // ============================================
 
-// Get all users with details (admin)
-export async function getAllUsersAdmin(page: number = 1, limit: number = 50): Promise<{
-  users: {
-    id: number;
-    name: string | null;
-    email: string | null;
-    role: string;
-    createdAt: Date;
-    lastSignedIn: Date;
-    profileImageUrl: string | null;
-    totalRides: number;
-    totalDistance: number;
-    isBanned: boolean;
-  }[];
-  total: number;
-}> {
+// Get public rides that haven't started, starting between `from` and `until`
+export async function getPublicScheduledRides(from: Date, until: Date, limit: number = 200): Promise<(ScheduledRide & { hostName: string | null })[]> {
   const db = await getDb();
-  if (!db) return { users: [], total: 0 };
+  if (!db) return [];
 
   try {
-    const offset = (page - 1) * limit;
-
-    // Get total count
-    const countResult = await db.select({ count: sql<number>`count(*)` }).from(users);
-    const total = Number(countResult[0]?.count ?? 0);
-
-    // Get users with ride stats
     const result = await db
-      .select({
-        id: users.id,
-        name: users.name,
-        email: users.email,
-        role: users.role,
-        createdAt: users.createdAt,
-        lastSignedIn: users.lastSignedIn,
-        profileImageUrl: users.profileImageUrl,
-      })
-      .from(users)
-      .orderBy(desc(users.createdAt))
-      .limit(limit)
-      .offset(offset);
-
-    // Get ride stats and ban status for each user
-    const usersWithStats = await Promise.all(
-      result.map(async (user) => {
-        const rideStats = await db
-          .select({
-            totalRides: sql<number>`count(*)`,
-            totalDistance: sql<number>`COALESCE(sum(${ridingRecords.distance}), 0)`,
-          })
-          .from(ridingRecords)
-          .where(eq(ridingRecords.userId, user.id));
+      .select({ ride: scheduledRides, hostName: users.name })
+      .from(scheduledRides)
+      .leftJoin(users, eq(scheduledRides.hostId, users.id))
+      .where(and(
+        eq(scheduledRides.isPublic, true),
+        eq(scheduledRides.status, "scheduled"),
+        gt(scheduledRides.startsAt, from),
+        lt(scheduledRides.startsAt, until)
+      ))
+      .orderBy(scheduledRides.startsAt)
+      .limit(limit);
+    return result.map(r => ({ ...r.ride, hostName: r.hostName }));
+  } catch (error) {
+    console.error("[Database] Failed to get public scheduled rides:", error);
+    return [];
+  }
+}
 
-        const banStatus = await isUserBanned(user.id);
+// Get public groups waiting to ride that have published a meeting point
+export async function getRecruitingGroups(limit: number = 200): Promise<{
+  id: number;
+  code: string;
+  name: string;
+  hostId: number;
+  hostName: string | null;
+  sharedRouteJson: string | null;
+  createdAt: Date;
+}[]> {
+  const db = await getDb();
+  if (!db) return [];
 
-        return {
-          ...user,
-          totalRides: Number(rideStats[0]?.totalRides ?? 0),
-          totalDistance: Number(rideStats[0]?.totalDistance ?? 0),
-          isBanned: banStatus.banned,
-        };
+  try {
+    return await db
+      .select({
+        id: groupSessions.id,
+        code: groupSessions.code,
+        name: groupSessions.name,
+        hostId: groupSessions.hostId,
+        hostName: users.name,
+        sharedRouteJson: groupSessions.sharedRouteJson,
+        createdAt: groupSessions.createdAt,
       })
-    );
-
-    return { users: usersWithStats, total };
+      .from(groupSessions)
+      .leftJoin(users, eq(groupSessions.hostId, users.id))
+      .where(and(
+        eq(groupSessions.isPublic, true),
+        eq(groupSessions.isActive, true),
+        eq(groupSessions.isRiding, false),
+        isNotNull(groupSessions.sharedRouteJson)
+      ))
+      .orderBy(desc(groupSessions.createdAt))
+      .limit(limit);
   } catch (error) {
-    console.error("[Database] Failed to get all users:", error);
-    return { users: [], total: 0 };
+    console.error("[Database] Failed to get recruiting groups:", error);
+    return [];
   }
 }
 
-// Get user details (admin)
-export async function getUserDetailsAdmin(userId: number): Promise<{
-  user: {
-    id: number;
-    name: string | null;
-    email: string | null;
-    role: string;
-    createdAt: Date;
-    lastSignedIn: Date;
-    profileImageUrl: string | null;
-  } | null;
-  stats: {
-    totalRides: number;
-    totalDistance: number;
-    totalDuration: number;
-    avgSpeed: number;
-    maxSpeed: number;
-  };
-  recentRides: RidingRecord[];
-  banStatus: { banned: boolean; reason?: string; expiresAt?: Date };
-}> {
+// List a group in ride discovery or take it out (host only)
+export async function setGroupPublic(groupId: number, hostId: number, isPublic: boolean): Promise<boolean> {
   const db = await getDb();
-  if (!db) return { user: null, stats: { totalRides: 0, totalDistance: 0, totalDuration: 0, avgSpeed: 0, maxSpeed: 0 }, recentRides: [], banStatus: { banned: false } };
+  if (!db) return false;
 
   try {
-    // Get user
-    const userResult = await db
-      .select({
-        id: users.id,
-        name: users.name,
-        email: users.email,
-        role: users.role,
-        createdAt: users.createdAt,
-        lastSignedIn: users.lastSignedIn,
-        profileImageUrl: users.profileImageUrl,
-      })
-      .from(users)
-      .where(eq(users.id, userId))
-      .limit(1);
+    const result = await db
+      .update(groupSessions)
+      .set({ isPublic })
+      .where(and(eq(groupSessions.id, groupId), eq(groupSessions.hostId, hostId)));
+    return result[0].affectedRows > 0;
+  } catch (error) {
+    console.error("[Database] Failed to update group visibility:", error);
+    return false;
+  }
+}
 
-    if (userResult.length === 0) {
-      return { user: null, stats: { totalRides: 0, totalDistance: 0, totalDuration: 0, avgSpeed: 0, maxSpeed: 0 }, recentRides: [], banStatus: { banned: false } };
-    }
+// Get the riders going on each of the given rides
+export async function getGoingRiders(rideIds: number[]): Promise<{ rideId: number; userId: number }[]> {
+  const db = await getDb();
+  if (!db || rideIds.length === 0) return [];
 
-    // Get ride stats
-    const statsResult = await db
-      .select({
-        totalRides: sql<number>`count(*)`,
-        totalDistance: sql<number>`COALESCE(sum(${ridingRecords.distance}), 0)`,
-        totalDuration: sql<number>`COALESCE(sum(${ridingRecords.duration}), 0)`,
-        avgSpeed: sql<number>`COALESCE(avg(${ridingRecords.avgSpeed}), 0)`,
-        maxSpeed: sql<number>`COALESCE(max(${ridingRecords.maxSpeed}), 0)`,
-      })
-      .from(ridingRecords)
-      .where(eq(ridingRecords.userId, userId));
+  try {
+    return await db
+      .select({ rideId: scheduledRideRsvps.rideId, userId: scheduledRideRsvps.userId })
+      .from(scheduledRideRsvps)
+      .where(and(
+        sql`${scheduledRideRsvps.rideId} IN (${sql.join(rideIds.map(id => sql`${id}`), sql`, `)})`,
+        eq(scheduledRideRsvps.status, "going")
+      ));
+  } catch (error) {
+    console.error("[Database] Failed to get going riders:", error);
+    return [];
+  }
+}
 
-    // Get recent rides
-    const recentRides = await db
-      .select()
-      .from(ridingRecords)
-      .where(eq(ridingRecords.userId, userId))
-      .orderBy(desc(ridingRecords.createdAt))
-      .limit(10);
+// Get the approved members of each of the given groups
+export async function getApprovedGroupMemberIds(groupIds: number[]): Promise<{ groupId: number; userId: number }[]> {
+  const db = await getDb();
+  if (!db || groupIds.length === 0) return [];
 
-    // Get ban status
-    const banStatus = await isUserBanned(userId);
+  try {
+    return await db
+      .select({ groupId: groupMembers.groupId, userId: groupMembers.userId })
+      .from(groupMembers)
+      .where(and(
+        sql`${groupMembers.groupId} IN (${sql.join(groupIds.map(id => sql`${id}`), sql`, `)})`,
+        eq(groupMembers.status, "approved")
+      ));
+  } catch (error) {
+    console.error("[Database] Failed to get group members:", error);
+    return [];
+  }
+}
 
-    return {
-      user: userResult[0],
-      stats: {
-        totalRides: Number(statsResult[0]?.totalRides ?? 0),
-        totalDistance: Number(statsResult[0]?.totalDistance ?? 0),
-        totalDuration: Number(statsResult[0]?.totalDuration ?? 0),
-        avgSpeed: Number(statsResult[0]?.avgSpeed ?? 0),
-        maxSpeed: Number(statsResult[0]?.maxSpeed ?? 0),
-      },
-      recentRides,
-      banStatus,
-    };
+// Get the average speeds (km/h) of the users' rides since `since`, newest first
+export async function getRecentRideSpeeds(userIds: number[], since: Date, minDistance: number): Promise<{ userId: number; avgSpeed: number }[]> {
+  const db = await getDb();
+  if (!db || userIds.length === 0) return [];
+
+  try {
+    const rows = await db
+      .select({ userId: ridingRecords.userId, avgSpeed: ridingRecords.avgSpeed })
+      .from(ridingRecords)
+      .where(and(
+        sql`${ridingRecords.userId} IN (${sql.join(userIds.map(id => sql`${id}`), sql`, `)})`,
+        gt(ridingRecords.createdAt, since),
+        sql`${ridingRecords.distance} >= ${minDistance}`
+      ))
+      .orderBy(desc(ridingRecords.createdAt));
+    // Rides store their average speed as km/h × 10
+    return rows.map((row) => ({ userId: row.userId, avgSpeed: row.avgSpeed / 10 }));
   } catch (error) {
-    console.error("[Database] Failed to get user details:", error);
-    return { user: null, stats: { totalRides: 0, totalDistance: 0, totalDuration: 0, avgSpeed: 0, maxSpeed: 0 }, recentRides: [], banStatus: { banned: false } };
+    console.error("[Database] Failed to get recent ride speeds:", error);
+    return [];
   }
 }
 
-// Delete post (admin)
-export async function deletePostAdmin(postId: number): Promise<boolean> {
+// Get the battery voltage of each user's default scooter
+export async function getDefaultScooterVoltages(userIds: number[]): Promise<{ userId: number; batteryVoltage: number | null }[]> {
   const db = await getDb();
-  if (!db) return false;
+  if (!db || userIds.length === 0) return [];
 
   try {
-    // Delete related data first
-    await db.delete(postLikes).where(eq(postLikes.postId, postId));
-    await db.delete(postViews).where(eq(postViews.postId, postId));
-    await db.delete(comments).where(eq(comments.postId, postId));
-    await db.delete(postImages).where(eq(postImages.postId, postId));
-    
-    // Delete the post
-    await db.delete(posts).where(eq(posts.id, postId));
-    return true;
+    return await db
+      .select({ userId: scooters.userId, batteryVoltage: scooters.batteryVoltage })
+      .from(scooters)
+      .where(and(
+        sql`${scooters.userId} IN (${sql.join(userIds.map(id => sql`${id}`), sql`, `)})`,
+        eq(scooters.isDefault, true)
+      ));
   } catch (error) {
-    console.error("[Database] Failed to delete post:", error);
-    return false;
+    console.error("[Database] Failed to get default scooters:", error);
+    return [];
   }
 }
 
 
 // ============================================
-// Survey Responses Functions
+// Announcement Functions
 // ============================================
 
-// Submit survey response
-export async function submitSurveyResponse(data: InsertSurveyResponse): Promise<number | null> {
+// Get active announcements
+export async function getActiveAnnouncements(): Promise<Announcement[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  try {
+    const now = new Date();
+    const result = await db
+      .select()
+      .from(announcements)
+      .where(
+        and(
+          eq(announcements.isActive, true),
+          sql`(${announcements.startDate} IS NULL OR ${announcements.startDate} <= ${now})`,
+          sql`(${announcements.endDate} IS NULL OR ${announcements.endDate} >= ${now})`
+        )
+      )
+      .orderBy(desc(announcements.priority), desc(announcements.createdAt));
+
+    return result;
+  } catch (error) {
+    console.error("[Database] Failed to get active announcements:", error);
+    return [];
+  }
+}
+
+// Get announcement by ID
+export async function getAnnouncementById(id: number): Promise<Announcement | null> {
   const db = await getDb();
   if (!db) return null;
 
   try {
-    const result = await db.insert(surveyResponses).values(data);
-    return result[0].insertId;
+    const result = await db
+      .select()
+      .from(announcements)
+      .where(eq(announcements.id, id))
+      .limit(1);
+
+    return result[0] || null;
   } catch (error) {
-    console.error("[Database] Failed to submit survey response:", error);
+    console.error("[Database] Failed to get announcement by id:", error);
     return null;
   }
 }
 
-// Get all survey responses (admin)
-export async function getAllSurveyResponses(page: number = 1, limit: number = 50): Promise<{
-  responses: (SurveyResponse & { userName: string | null })[];
-  total: number;
-  avgOverall: number;
-  avgUsability: number;
-  avgFeature: number;
-}> {
+// Get all announcements (admin)
+export async function getAllAnnouncements(): Promise<Announcement[]> {
   const db = await getDb();
-  if (!db) return { responses: [], total: 0, avgOverall: 0, avgUsability: 0, avgFeature: 0 };
+  if (!db) return [];
 
   try {
-    const offset = (page - 1) * limit;
+    const result = await db
+      .select()
+      .from(announcements)
+      .orderBy(desc(announcements.createdAt));
 
-    // Get responses with user names
-    const responses = await db
-      .select({
-        id: surveyResponses.id,
-        userId: surveyResponses.userId,
-        overallRating: surveyResponses.overallRating,
-        usabilityRating: surveyResponses.usabilityRating,
-        featureRating: surveyResponses.featureRating,
-        mostUsedFeature: surveyResponses.mostUsedFeature,
-        improvementSuggestion: surveyResponses.improvementSuggestion,
-        bugReport: surveyResponses.bugReport,
-        wouldRecommend: surveyResponses.wouldRecommend,
-        appVersion: surveyResponses.appVersion,
-        deviceInfo: surveyResponses.deviceInfo,
-        createdAt: surveyResponses.createdAt,
-        userName: users.name,
-      })
-      .from(surveyResponses)
-      .leftJoin(users, eq(surveyResponses.userId, users.id))
-      .orderBy(desc(surveyResponses.createdAt))
-      .limit(limit)
-      .offset(offset);
-
-    // Get total count
-    const countResult = await db
-      .select({ count: sql<number>`COUNT(*)` })
-      .from(surveyResponses);
-    const total = countResult[0]?.count ?? 0;
-
-    // Get averages
-    const avgResult = await db
-      .select({
-        avgOverall: sql<number>`AVG(${surveyResponses.overallRating})`,
-        avgUsability: sql<number>`AVG(${surveyResponses.usabilityRating})`,
-        avgFeature: sql<number>`AVG(${surveyResponses.featureRating})`,
-      })
-      .from(surveyResponses);
-
-    return {
-      responses: responses as (SurveyResponse & { userName: string | null })[],
-      total,
-      avgOverall: avgResult[0]?.avgOverall ?? 0,
-      avgUsability: avgResult[0]?.avgUsability ?? 0,
-      avgFeature: avgResult[0]?.avgFeature ?? 0,
-    };
+    return result;
   } catch (error) {
-    console.error("[Database] Failed to get survey responses:", error);
-    return { responses: [], total: 0, avgOverall: 0, avgUsability: 0, avgFeature: 0 };
+    console.error("[Database] Failed to get all announcements:", error);
+    return [];
   }
 }
 
-// Get survey statistics
-export async function getSurveyStatistics(): Promise<{
-  totalResponses: number;
-  avgOverall: number;
-  avgUsability: number;
-  avgFeature: number;
-  recommendRate: number;
-  featureUsage: { feature: string; count: number }[];
-}> {
+// Create announcement (admin)
+export async function createAnnouncement(data: InsertAnnouncement): Promise<number | null> {
   const db = await getDb();
-  if (!db) return { totalResponses: 0, avgOverall: 0, avgUsability: 0, avgFeature: 0, recommendRate: 0, featureUsage: [] };
+  if (!db) return null;
 
   try {
-    // Get totals and averages
-    const statsResult = await db
-      .select({
-        total: sql<number>`COUNT(*)`,
-        avgOverall: sql<number>`AVG(${surveyResponses.overallRating})`,
-        avgUsability: sql<number>`AVG(${surveyResponses.usabilityRating})`,
-        avgFeature: sql<number>`AVG(${surveyResponses.featureRating})`,
-        recommendCount: sql<number>`SUM(CASE WHEN ${surveyResponses.wouldRecommend} = true THEN 1 ELSE 0 END)`,
-      })
-      .from(surveyResponses);
-
-    const total = Number(statsResult[0]?.total ?? 0);
-    const recommendCount = Number(statsResult[0]?.recommendCount ?? 0);
-
-    // Get feature usage breakdown
-    const featureResult = await db
-      .select({
-        feature: surveyResponses.mostUsedFeature,
-        count: sql<number>`COUNT(*)`,
-      })
-      .from(surveyResponses)
-      .groupBy(surveyResponses.mostUsedFeature)
-      .orderBy(desc(sql`COUNT(*)`));
-
-    return {
-      totalResponses: Number(total),
-      avgOverall: Number(statsResult[0]?.avgOverall ?? 0),
-      avgUsability: Number(statsResult[0]?.avgUsability ?? 0),
-      avgFeature: Number(statsResult[0]?.avgFeature ?? 0),
-      recommendRate: total > 0 ? (Number(recommendCount) / Number(total)) * 100 : 0,
-      featureUsage: featureResult.map(r => ({ feature: r.feature, count: Number(r.count) })),
-    };
+    const result = await db.insert(announcements).values(data);
+    return result[0].insertId;
   } catch (error) {
-    console.error("[Database] Failed to get survey statistics:", error);
-    return { totalResponses: 0, avgOverall: 0, avgUsability: 0, avgFeature: 0, recommendRate: 0, featureUsage: [] };
+    console.error("[Database] Failed to create announcement:", error);
+    return null;
   }
 }
 
-// ============================================
-// Bug Reports Functions
-// ============================================
-
-// Submit bug report
-export async function submitBugReport(data: InsertBugReport): Promise<number | null> {
+// Update announcement (admin)
+export async function updateAnnouncement(id: number, data: Partial<InsertAnnouncement>): Promise<boolean> {
   const db = await getDb();
-  if (!db) return null;
+  if (!db) return false;
 
   try {
-    const result = await db.insert(bugReports).values(data);
-    return result[0].insertId;
+    await db.update(announcements).set(data).where(eq(announcements.id, id));
+    return true;
   } catch (error) {
-    console.error("[Database] Failed to submit bug report:", error);
-    return null;
+    console.error("[Database] Failed to update announcement:", error);
+    return false;
   }
 }
 
-// Get user's bug reports
-export async function getUserBugReports(userId: number): Promise<BugReport[]> {
+// Delete announcement (admin)
+export async function deleteAnnouncement(id: number): Promise<boolean> {
   const db = await getDb();
-  if (!db) return [];
+  if (!db) return false;
 
   try {
-    return await db
-      .select()
-      .from(bugReports)
-      .where(eq(bugReports.userId, userId))
-      .orderBy(desc(bugReports.createdAt));
+    await db.delete(announcements).where(eq(announcements.id, id));
+    return true;
   } catch (error) {
-    console.error("[Database] Failed to get user bug reports:", error);
-    return [];
+    console.error("[Database] Failed to delete announcement:", error);
+    return false;
   }
 }
 
-// Get all bug reports (admin)
-export async function getAllBugReports(
-  page: number = 1,
-  limit: number = 50,
-  statusFilter?: string
-): Promise<{
-  reports: (BugReport & { userName: string | null; userEmail: string | null })[];
-  total: number;
-  openCount: number;
-  inProgressCount: number;
-  resolvedCount: number;
-}> {
+// Get user's dismissed announcements
+export async function getUserDismissedAnnouncements(userId: number): Promise<number[]> {
   const db = await getDb();
-  if (!db) return { reports: [], total: 0, openCount: 0, inProgressCount: 0, resolvedCount: 0 };
+  if (!db) return [];
 
   try {
-    const offset = (page - 1) * limit;
-
-    // Build query with optional status filter
-    let query = db
-      .select({
-        id: bugReports.id,
-        userId: bugReports.userId,
-        title: bugReports.title,
-        description: bugReports.description,
-        stepsToReproduce: bugReports.stepsToReproduce,
-        expectedBehavior: bugReports.expectedBehavior,
-        actualBehavior: bugReports.actualBehavior,
-        screenshotUrls: bugReports.screenshotUrls,
-        severity: bugReports.severity,
-        status: bugReports.status,
-        appVersion: bugReports.appVersion,
-        deviceInfo: bugReports.deviceInfo,
-        adminNotes: bugReports.adminNotes,
-        resolvedBy: bugReports.resolvedBy,
-        resolvedAt: bugReports.resolvedAt,
-        createdAt: bugReports.createdAt,
-        updatedAt: bugReports.updatedAt,
-        userName: users.name,
-        userEmail: users.email,
-      })
-      .from(bugReports)
-      .leftJoin(users, eq(bugReports.userId, users.id))
-      .orderBy(desc(bugReports.createdAt))
-      .limit(limit)
-      .offset(offset);
-
-    if (statusFilter) {
-      query = query.where(eq(bugReports.status, statusFilter as any)) as any;
-    }
-
-    const reports = await query;
-
-    // Get counts
-    const countResult = await db
-      .select({
-        total: sql<number>`COUNT(*)`,
-        openCount: sql<number>`SUM(CASE WHEN ${bugReports.status} = 'open' THEN 1 ELSE 0 END)`,
-        inProgressCount: sql<number>`SUM(CASE WHEN ${bugReports.status} = 'in_progress' THEN 1 ELSE 0 END)`,
-        resolvedCount: sql<number>`SUM(CASE WHEN ${bugReports.status} = 'resolved' THEN 1 ELSE 0 END)`,
-      })
-      .from(bugReports);
+    const result = await db
+      .select({ announcementId: userAnnouncementReads.announcementId })
+      .from(userAnnouncementReads)
+      .where(and(
+        eq(userAnnouncementReads.userId, userId),
+        eq(userAnnouncementReads.dismissed, true)
+      ));
 
-    return {
-      reports: reports as (BugReport & { userName: string | null; userEmail: string | null })[],
-      total: Number(countResult[0]?.total ?? 0),
-      openCount: Number(countResult[0]?.openCount ?? 0),
-      inProgressCount: Number(countResult[0]?.inProgressCount ?? 0),
-      resolvedCount: Number(countResult[0]?.resolvedCount ?? 0),
-    };
+    return result.map(r => r.announcementId);
   } catch (error) {
-    console.error("[Database] Failed to get bug reports:", error);
-    return { reports: [], total: 0, openCount: 0, inProgressCount: 0, resolvedCount: 0 };
+    console.error("[Database] Failed to get dismissed announcements:", error);
+    return [];
   }
 }
 
-// Update bug report status (admin)
-export async function updateBugReportStatus(
-  id: number,
-  status: string,
-  adminId: number,
-  adminNotes?: string
-): Promise<boolean> {
+// Dismiss announcement for user
+export async function dismissAnnouncement(userId: number, announcementId: number): Promise<boolean> {
   const db = await getDb();
   if (!db) return false;
 
   try {
-    // Get bug report to find user ID
-    const bugReport = await getBugReportById(id);
-    if (!bugReport) return false;
-
-    const updateData: any = {
-      status,
-      adminNotes,
-    };
-
-    if (status === "resolved" || status === "closed") {
-      updateData.resolvedBy = adminId;
-      updateData.resolvedAt = new Date();
-    }
-
-    await db.update(bugReports).set(updateData).where(eq(bugReports.id, id));
-
-    // Send notification to user about status change
-    const statusLabels: Record<string, string> = {
-      open: "열림",
-      in_progress: "진행 중",
-      resolved: "해결됨",
-      closed: "종료",
-      wont_fix: "수정 안함",
-    };
-
-    await createNotification({
-      userId: bugReport.userId,
-      type: "bug_report_update",
-      title: "버그 리포트 상태 변경",
-      body: `"${bugReport.title}" 리포트가 "${statusLabels[status] || status}" 상태로 변경되었습니다.`,
-      entityType: "bug_report",
-      entityId: id,
-      actorId: adminId,
+    await db.insert(userAnnouncementReads).values({
+      userId,
+      announcementId,
+      dismissed: true,
+    }).onDuplicateKeyUpdate({
+      set: { dismissed: true },
     });
-
     return true;
   } catch (error) {
-    console.error("[Database] Failed to update bug report status:", error);
+    console.error("[Database] Failed to dismiss announcement:", error);
     return false;
   }
 }
 
-// Get bug report by ID
-export async function getBugReportById(id: number): Promise<BugReport | null> {
-  const db = await getDb();
-  if (!db) return null;
-
-  try {
-    const result = await db
-      .select()
-      .from(bugReports)
-      .where(eq(bugReports.id, id))
-      .limit(1);
-    return result[0] || null;
-  } catch (error) {
-    console.error("[Database] Failed to get bug report:", error);
-    return null;
-  }
-}
-
+// ============================================
+// User Ban Functions (Admin)
+// ============================================
 
-// Get badge by name
-export async function getBadgeByName(name: string): Promise<Badge | null> {
+// Check if user is banned
+export async function isUserBanned(userId: number): Promise<{ banned: boolean; reason?: string; expiresAt?: Date }> {
   const db = await getDb();
-  if (!db) return null;
+  if (!db) return { banned: false };
 
   try {
+    const now = new Date();
     const result = await db
       .select()
-      .from(badges)
-      .where(eq(badges.name, name))
+      .from(userBans)
+      .where(and(
+        eq(userBans.userId, userId),
+        eq(userBans.isActive, true),
+        sql`(${userBans.expiresAt} IS NULL OR ${userBans.expiresAt} > ${now})`
+      ))
       .limit(1);
-    return result[0] || null;
-  } catch (error) {
-    console.error("[Database] Failed to get badge by name:", error);
-    return null;
-  }
-}
-
-
-// Get all admin users
-export async function getAdminUsers(): Promise<{ id: number; name: string | null; email: string | null }[]> {
-  const db = await getDb();
-  if (!db) return [];
 
-  try {
-    const result = await db
-      .select({
-        id: users.id,
-        name: users.name,
-        email: users.email,
-      })
-      .from(users)
-      .where(eq(users.role, "admin"));
-    return result;
+    if (result.length > 0) {
+      return {
+        banned: true,
+        reason: result[0].reason ?? undefined,
+        expiresAt: result[0].expiresAt ?? undefined,
+      };
+    }
+    return { banned: false };
   } catch (error) {
-    console.error("[Database] Failed to get admin users:", error);
-    return [];
-  }
-}
-
-// Send notification to all admins
-export async function notifyAdmins(notification: {
-  type: string;
-  title: string;
-  body?: string;
-  entityType?: string;
-  entityId?: number;
-  actorId?: number;
-}): Promise<void> {
-  const admins = await getAdminUsers();
-  
-  for (const admin of admins) {
-    await createNotification({
-      userId: admin.id,
-      ...notification,
-    });
+    console.error("[Database] Failed to check user ban:", error);
+    return { banned: false };
   }
 }
 
-
-// ========== User Activity Logging ==========
-
-// Log user activity
-export async function logUserActivity(data: {
+// Ban user (admin) - enhanced with unbannedBy tracking
+export async function banUser(data: {
   userId: number;
-  activityType: string;
-  details?: string;
-  ipAddress?: string;
-  userAgent?: string;
-}): Promise<void> {
+  bannedBy: number;
+  reason: string;
+  banType: "temporary" | "permanent";
+  expiresAt?: Date;
+}): Promise<boolean> {
   const db = await getDb();
-  if (!db) return;
+  if (!db) return false;
 
   try {
-    await db.insert(userActivityLogs).values({
+    await db.insert(userBans).values({
       userId: data.userId,
-      activityType: data.activityType,
-      details: data.details,
-      ipAddress: data.ipAddress,
-      userAgent: data.userAgent,
+      bannedBy: data.bannedBy,
+      reason: data.reason,
+      banType: data.banType,
+      expiresAt: data.expiresAt,
+      isActive: true,
     });
+    return true;
   } catch (error) {
-    console.error("[Database] Failed to log user activity:", error);
-  }
-}
-
-// Get user activity logs
-export async function getUserActivityLogs(userId: number, limit: number = 100): Promise<UserActivityLog[]> {
-  const db = await getDb();
-  if (!db) return [];
-
-  try {
-    return await db
-      .select()
-      .from(userActivityLogs)
-      .where(eq(userActivityLogs.userId, userId))
-      .orderBy(desc(userActivityLogs.createdAt))
-      .limit(limit);
-  } catch (error) {
-    console.error("[Database] Failed to get user activity logs:", error);
-    return [];
+    console.error("[Database] Failed to ban user:", error);
+    return false;
   }
 }
 
-// Get activity count by type in time range
-export async function getActivityCountByType(
-  userId: number,
-  activityType: string,
-  hoursAgo: number
-): Promise<number> {
+// Unban user (admin) - enhanced with unbannedBy tracking
+export async function unbanUser(userId: number, unbannedBy?: number): Promise<boolean> {
   const db = await getDb();
-  if (!db) return 0;
+  if (!db) return false;
 
   try {
-    const cutoffTime = new Date(Date.now() - hoursAgo * 60 * 60 * 1000);
-    const result = await db
-      .select({ count: sql<number>`COUNT(*)` })
-      .from(userActivityLogs)
-      .where(
-        and(
-          eq(userActivityLogs.userId, userId),
-          eq(userActivityLogs.activityType, activityType),
-          gt(userActivityLogs.createdAt, cutoffTime)
-        )
-      );
-    return result[0]?.count || 0;
+    await db
+      .update(userBans)
+      .set({ 
+        isActive: false,
+        unbannedBy: unbannedBy,
+        unbannedAt: new Date(),
+      })
+      .where(and(eq(userBans.userId, userId), eq(userBans.isActive, true)));
+    return true;
   } catch (error) {
-    console.error("[Database] Failed to get activity count:", error);
-    return 0;
+    console.error("[Database] Failed to unban user:", error);
+    return false;
   }
 }
 
-// ========== Suspicious User Reports ==========
-
-// Create suspicious user report
-export async function createSuspiciousReport(data: {
+// Get all banned users (admin)
+export async function getBannedUsers(): Promise<{
+  id: number;
   userId: number;
-  reportType: string;
-  severityScore: number;
-  details?: string;
-}): Promise<void> {
-  const db = await getDb();
-  if (!db) return;
-
-  try {
-    await db.insert(suspiciousUserReports).values({
-      userId: data.userId,
-      reportType: data.reportType,
-      severityScore: data.severityScore,
-      details: data.details,
-    });
-  } catch (error) {
-    console.error("[Database] Failed to create suspicious report:", error);
-  }
-}
-
-// Get all suspicious reports
-export async function getSuspiciousReports(onlyUnreviewed: boolean = false): Promise<(SuspiciousUserReport & { userName: string | null; userEmail: string | null })[]> {
+  userName: string | null;
+  reason: string | null;
+  banType: string;
+  expiresAt: Date | null;
+  createdAt: Date;
+}[]> {
   const db = await getDb();
   if (!db) return [];
 
   try {
-    const conditions = onlyUnreviewed
-      ? eq(suspiciousUserReports.isReviewed, false)
-      : undefined;
-
     const result = await db
       .select({
-        id: suspiciousUserReports.id,
-        userId: suspiciousUserReports.userId,
-        reportType: suspiciousUserReports.reportType,
-        severityScore: suspiciousUserReports.severityScore,
-        details: suspiciousUserReports.details,
-        isReviewed: suspiciousUserReports.isReviewed,
-        reviewedBy: suspiciousUserReports.reviewedBy,
-        reviewNotes: suspiciousUserReports.reviewNotes,
-        actionTaken: suspiciousUserReports.actionTaken,
-        reviewedAt: suspiciousUserReports.reviewedAt,
-        createdAt: suspiciousUserReports.createdAt,
+        id: userBans.id,
+        userId: userBans.userId,
         userName: users.name,
-        userEmail: users.email,
+        reason: userBans.reason,
+        banType: userBans.banType,
+        expiresAt: userBans.expiresAt,
+        createdAt: userBans.createdAt,
       })
-      .from(suspiciousUserReports)
-      .leftJoin(users, eq(suspiciousUserReports.userId, users.id))
-      .where(conditions)
-      .orderBy(desc(suspiciousUserReports.severityScore), desc(suspiciousUserReports.createdAt));
+      .from(userBans)
+      .leftJoin(users, eq(userBans.userId, users.id))
+      .where(eq(userBans.isActive, true))
+      .orderBy(desc(userBans.createdAt));
 
     return result;
   } catch (error) {
-    console.error("[Database] Failed to get suspicious reports:", error);
+    console.error("[Database] Failed to get banned users:", error);
     return [];
   }
 }
 
-// Review suspicious report
-export async function reviewSuspiciousReport(
-  reportId: number,
-  adminId: number,
-  action: "none" | "warning" | "temp_ban" | "perm_ban",
-  notes?: string
-): Promise<boolean> {
-  const db = await getDb();
-  if (!db) return false;
+// ============================================
+// Admin User Management Functions
+// ============================================
 
-  try {
-    await db.update(suspiciousUserReports)
-      .set({
-        isReviewed: true,
-        reviewedBy: adminId,
-        reviewNotes: notes,
-        actionTaken: action,
-        reviewedAt: new Date(),
-      })
-      .where(eq(suspiciousUserReports.id, reportId));
-    return true;
-  } catch (error) {
-    console.error("[Database] Failed to review suspicious report:", error);
-    return false;
-  }
-}
-
-// ========== Statistics for Admin Dashboard ==========
-
-// Get daily user registrations
-export async function getDailyRegistrations(days: number = 30): Promise<{ date: string; count: number }[]> {
+// Get all users with details (admin)
+export async function getAllUsersAdmin(page: number = 1, limit: number = 50): Promise<{
+  users: {
+    id: number;
+    name: string | null;
+    email: string | null;
+    role: string;
+    createdAt: Date;
+    lastSignedIn: Date;
+    profileImageUrl: string | null;
+    totalRides: number;
+    totalDistance: number;
+    isBanned: boolean;
+  }[];
+  total: number;
+}> {
   const db = await getDb();
-  if (!db) return [];
+  if (!db) return { users: [], total: 0 };
 
   try {
-    const cutoffDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const offset = (page - 1) * limit;
+
+    // Get total count
+    const countResult = await db.select({ count: sql<number>`count(*)` }).from(users);
+    const total = Number(countResult[0]?.count ?? 0);
+
+    // Get users with ride stats
     const result = await db
       .select({
-        date: sql<string>`DATE(createdAt)`,
-        count: sql<number>`COUNT(*)`,
+        id: users.id,
+        name: users.name,
+        email: users.email,
+        role: users.role,
+        createdAt: users.createdAt,
+        lastSignedIn: users.lastSignedIn,
+        profileImageUrl: users.profileImageUrl,
       })
       .from(users)
-      .where(gt(users.createdAt, cutoffDate))
-      .groupBy(sql`DATE(createdAt)`)
-      .orderBy(sql`DATE(createdAt)`);
+      .orderBy(desc(users.createdAt))
+      .limit(limit)
+      .offset(offset);
 
-    return result.map(r => ({
-      date: String(r.date),
-      count: Number(r.count),
-    }));
+    // Get ride stats and ban status for each user
+    const usersWithStats = await Promise.all(
+      result.map(async (user) => {
+        const rideStats = await db
+          .select({
+            totalRides: sql<number>`count(*)`,
+            totalDistance: sql<number>`COALESCE(sum(${ridingRecords.distance}), 0)`,
+          })
+          .from(ridingRecords)
+          .where(eq(ridingRecords.userId, user.id));
+
+        const banStatus = await isUserBanned(user.id);
+
+        return {
+          ...user,
+          totalRides: Number(rideStats[0]?.totalRides ?? 0),
+          totalDistance: Number(rideStats[0]?.totalDistance ?? 0),
+          isBanned: banStatus.banned,
+        };
+      })
+    );
+
+    return { users: usersWithStats, total };
   } catch (error) {
-    console.error("[Database] Failed to get daily registrations:", error);
-    return [];
+    console.error("[Database] Failed to get all users:", error);
+    return { users: [], total: 0 };
   }
 }
 
-// Get user riding statistics
-export async function getUserRidingStats(userId: number): Promise<{
-  totalRides: number;
-  totalDistance: number;
-  totalDuration: number;
-  avgSpeed: number;
-  maxSpeed: number;
-  ridesPerDay: { date: string; count: number; distance: number }[];
+// Get user details (admin)
+export async function getUserDetailsAdmin(userId: number): Promise<{
+  user: {
+    id: number;
+    name: string | null;
+    email: string | null;
+    role: string;
+    createdAt: Date;
+    lastSignedIn: Date;
+    profileImageUrl: string | null;
+  } | null;
+  stats: {
+    totalRides: number;
+    totalDistance: number;
+    totalDuration: number;
+    avgSpeed: number;
+    maxSpeed: number;
+  };
+  recentRides: RidingRecord[];
+  banStatus: { banned: boolean; reason?: string; expiresAt?: Date };
 }> {
   const db = await getDb();
-  if (!db) return {
-    totalRides: 0,
-    totalDistance: 0,
-    totalDuration: 0,
-    avgSpeed: 0,
-    maxSpeed: 0,
-    ridesPerDay: [],
-  };
+  if (!db) return { user: null, stats: { totalRides: 0, totalDistance: 0, totalDuration: 0, avgSpeed: 0, maxSpeed: 0 }, recentRides: [], banStatus: { banned: false } };
 
   try {
-    // Get overall stats
-    const overallStats = await db
+    // Get user
+    const userResult = await db
       .select({
-        totalRides: sql<number>`COUNT(*)`,
-        totalDistance: sql<number>`COALESCE(SUM(distance), 0)`,
-        totalDuration: sql<number>`COALESCE(SUM(duration), 0)`,
-        avgSpeed: sql<number>`COALESCE(AVG(avgSpeed), 0)`,
-        maxSpeed: sql<number>`COALESCE(MAX(maxSpeed), 0)`,
+        id: users.id,
+        name: users.name,
+        email: users.email,
+        role: users.role,
+        createdAt: users.createdAt,
+        lastSignedIn: users.lastSignedIn,
+        profileImageUrl: users.profileImageUrl,
       })
-      .from(ridingRecords)
-      .where(eq(ridingRecords.userId, userId));
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
 
-    // Get rides per day (last 30 days)
-    const cutoffDate = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-    const dailyStats = await db
+    if (userResult.length === 0) {
+      return { user: null, stats: { totalRides: 0, totalDistance: 0, totalDuration: 0, avgSpeed: 0, maxSpeed: 0 }, recentRides: [], banStatus: { banned: false } };
+    }
+
+    // Get ride stats
+    const statsResult = await db
       .select({
-        date: sql<string>`DATE(createdAt)`,
-        count: sql<number>`COUNT(*)`,
-        distance: sql<number>`COALESCE(SUM(distance), 0)`,
+        totalRides: sql<number>`count(*)`,
+        totalDistance: sql<number>`COALESCE(sum(${ridingRecords.distance}), 0)`,
+        totalDuration: sql<number>`COALESCE(sum(${ridingRecords.duration}), 0)`,
+        avgSpeed: sql<number>`COALESCE(avg(${ridingRecords.avgSpeed}), 0)`,
+        maxSpeed: sql<number>`COALESCE(max(${ridingRecords.maxSpeed}), 0)`,
       })
       .from(ridingRecords)
-      .where(and(eq(ridingRecords.userId, userId), gt(ridingRecords.createdAt, cutoffDate)))
-      .groupBy(sql`DATE(createdAt)`)
-      .orderBy(sql`DATE(createdAt)`);
+      .where(eq(ridingRecords.userId, userId));
+
+    // Get recent rides
+    const recentRides = await db
+      .select()
+      .from(ridingRecords)
+      .where(eq(ridingRecords.userId, userId))
+      .orderBy(desc(ridingRecords.createdAt))
+      .limit(10);
+
+    // Get ban status
+    const banStatus = await isUserBanned(userId);
 
-    const stats = overallStats[0] || {};
     return {
-      totalRides: Number(stats.totalRides) || 0,
-      totalDistance: Number(stats.totalDistance) || 0,
-      totalDuration: Number(stats.totalDuration) || 0,
-      avgSpeed: Number(stats.avgSpeed) || 0,
-      maxSpeed: Number(stats.maxSpeed) || 0,
-      ridesPerDay: dailyStats.map(r => ({
-        date: String(r.date),
-        count: Number(r.count),
-        distance: Number(r.distance),
-      })),
+      user: userResult[0],
+      stats: {
+        totalRides: Number(statsResult[0]?.totalRides ?? 0),
+        totalDistance: Number(statsResult[0]?.totalDistance ?? 0),
+        totalDuration: Number(statsResult[0]?.totalDuration ?? 0),
+        avgSpeed: Number(statsResult[0]?.avgSpeed ?? 0),
+        maxSpeed: Number(statsResult[0]?.maxSpeed ?? 0),
+      },
+      recentRides,
+      banStatus,
     };
   } catch (error) {
-    console.error("[Database] Failed to get user riding stats:", error);
-    return {
-      totalRides: 0,
-      totalDistance: 0,
-      totalDuration: 0,
-      avgSpeed: 0,
-      maxSpeed: 0,
-      ridesPerDay: [],
-    };
+    console.error("[Database] Failed to get user details:", error);
+    return { user: null, stats: { totalRides: 0, totalDistance: 0, totalDuration: 0, avgSpeed: 0, maxSpeed: 0 }, recentRides: [], banStatus: { banned: false } };
   }
 }
 
-// Get suspicious activity indicators for a user
-export async function getSuspiciousIndicators(userId: number): Promise<{
-  abnormalRiding: boolean;
-  spamPosts: boolean;
-  excessiveApiCalls: boolean;
-  details: string[];
-}> {
+// Delete post (admin)
+export async function deletePostAdmin(postId: number): Promise<boolean> {
   const db = await getDb();
-  if (!db) return { abnormalRiding: false, spamPosts: false, excessiveApiCalls: false, details: [] };
-
-  const details: string[] = [];
-  let abnormalRiding = false;
-  let spamPosts = false;
-  let excessiveApiCalls = false;
+  if (!db) return false;
 
   try {
-    // Check for abnormal riding patterns (very long rides > 12 hours)
-    const longRides = await db
-      .select({ count: sql<number>`COUNT(*)` })
-      .from(ridingRecords)
-      .where(and(eq(ridingRecords.userId, userId), gt(ridingRecords.duration, 43200))); // 12 hours in seconds
+    // Delete related data first
+    await db.delete(postLikes).where(eq(postLikes.postId, postId));
+    await db.delete(postViews).where(eq(postViews.postId, postId));
+    await db.delete(comments).where(eq(comments.postId, postId));
+    await db.delete(postImages).where(eq(postImages.postId, postId));
+    
+    // Delete the post
+    await db.delete(posts).where(eq(posts.id, postId));
+    return true;
+  } catch (error) {
+    console.error("[Database] Failed to delete post:", error);
+    return false;
+  }
+}
 
-    if ((longRides[0]?.count || 0) > 0) {
-      abnormalRiding = true;
-      details.push(`비정상적으로 긴 주행 기록 ${longRides[0]?.count}건 (12시간 이상)`);
-    }
 
-    // Check for very short rides with high distance (possible GPS spoofing)
-    const suspiciousRides = await db
-      .select({ count: sql<number>`COUNT(*)` })
-      .from(ridingRecords)
-      .where(
-        and(
-          eq(ridingRecords.userId, userId),
-          lt(ridingRecords.duration, 60), // Less than 1 minute
-          gt(ridingRecords.distance, 1000) // More than 1km
-        )
-      );
+// ============================================
+// Survey Responses Functions
+// ============================================
 
-    if ((suspiciousRides[0]?.count || 0) > 0) {
-      abnormalRiding = true;
-      details.push(`의심스러운 주행 기록 ${suspiciousRides[0]?.count}건 (1분 미만에 1km 이상)`);
-    }
+// Submit survey response
+export async function submitSurveyResponse(data: InsertSurveyResponse): Promise<number | null> {
+  const db = await getDb();
+  if (!db) return null;
 
-    // Check for spam posts (more than 10 posts in last hour)
-    const recentPosts = await getActivityCountByType(userId, "post_create", 1);
-    if (recentPosts > 10) {
-      spamPosts = true;
-      details.push(`최근 1시간 내 게시글 ${recentPosts}개 작성`);
-    }
+  try {
+    const result = await db.insert(surveyResponses).values(data);
+    return result[0].insertId;
+  } catch (error) {
+    console.error("[Database] Failed to submit survey response:", error);
+    return null;
+  }
+}
 
-    // Check for excessive API calls (more than 1000 in last hour)
-    const recentApiCalls = await getActivityCountByType(userId, "api_call", 1);
-    if (recentApiCalls > 1000) {
-      excessiveApiCalls = true;
-      details.push(`최근 1시간 내 API 호출 ${recentApiCalls}회`);
-    }
+// Get all survey responses (admin)
+export async function getAllSurveyResponses(page: number = 1, limit: number = 50): Promise<{
+  responses: (SurveyResponse & { userName: string | null })[];
+  total: number;
+  avgOverall: number;
+  avgUsability: number;
+  avgFeature: number;
+}> {
+  const db = await getDb();
+  if (!db) return { responses: [], total: 0, avgOverall: 0, avgUsability: 0, avgFeature: 0 };
 
-    return { abnormalRiding, spamPosts, excessiveApiCalls, details };
+  try {
+    const offset = (page - 1) * limit;
+
+    // Get responses with user names
+    const responses = await db
+      .select({
+        id: surveyResponses.id,
+        userId: surveyResponses.userId,
+        overallRating: surveyResponses.overallRating,
+        usabilityRating: surveyResponses.usabilityRating,
+        featureRating: surveyResponses.featureRating,
+        mostUsedFeature: surveyResponses.mostUsedFeature,
+        improvementSuggestion: surveyResponses.improvementSuggestion,
+        bugReport: surveyResponses.bugReport,
+        wouldRecommend: surveyResponses.wouldRecommend,
+        appVersion: surveyResponses.appVersion,
+        deviceInfo: surveyResponses.deviceInfo,
+        createdAt: surveyResponses.createdAt,
+        userName: users.name,
+      })
+      .from(surveyResponses)
+      .leftJoin(users, eq(surveyResponses.userId, users.id))
+      .orderBy(desc(surveyResponses.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    // Get total count
+    const countResult = await db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(surveyResponses);
+    const total = countResult[0]?.count ?? 0;
+
+    // Get averages
+    const avgResult = await db
+      .select({
+        avgOverall: sql<number>`AVG(${surveyResponses.overallRating})`,
+        avgUsability: sql<number>`AVG(${surveyResponses.usabilityRating})`,
+        avgFeature: sql<number>`AVG(${surveyResponses.featureRating})`,
+      })
+      .from(surveyResponses);
+
+    return {
+      responses: responses as (SurveyResponse & { userName: string | null })[],
+      total,
+      avgOverall: avgResult[0]?.avgOverall ?? 0,
+      avgUsability: avgResult[0]?.avgUsability ?? 0,
+      avgFeature: avgResult[0]?.avgFeature ?? 0,
+    };
   } catch (error) {
-    console.error("[Database] Failed to get suspicious indicators:", error);
-    return { abnormalRiding: false, spamPosts: false, excessiveApiCalls: false, details: [] };
+    console.error("[Database] Failed to get survey responses:", error);
+    return { responses: [], total: 0, avgOverall: 0, avgUsability: 0, avgFeature: 0 };
   }
 }
 
-// Get all users with suspicious activity
-export async function getUsersWithSuspiciousActivity(): Promise<{
-  userId: number;
-  name: string | null;
-  email: string | null;
-  indicators: {
-    abnormalRiding: boolean;
-    spamPosts: boolean;
-    excessiveApiCalls: boolean;
-    details: string[];
-  };
-  severityScore: number;
-}[]> {
+// Get survey statistics
+export async function getSurveyStatistics(): Promise<{
+  totalResponses: number;
+  avgOverall: number;
+  avgUsability: number;
+  avgFeature: number;
+  recommendRate: number;
+  featureUsage: { feature: string; count: number }[];
+}> {
   const db = await getDb();
-  if (!db) return [];
+  if (!db) return { totalResponses: 0, avgOverall: 0, avgUsability: 0, avgFeature: 0, recommendRate: 0, featureUsage: [] };
 
   try {
-    // Get all users
-    const allUsers = await db.select().from(users);
-    const suspiciousUsers: {
-      userId: number;
-      name: string | null;
-      email: string | null;
-      indicators: {
-        abnormalRiding: boolean;
-        spamPosts: boolean;
-        excessiveApiCalls: boolean;
-        details: string[];
-      };
-      severityScore: number;
-    }[] = [];
+    // Get totals and averages
+    const statsResult = await db
+      .select({
+        total: sql<number>`COUNT(*)`,
+        avgOverall: sql<number>`AVG(${surveyResponses.overallRating})`,
+        avgUsability: sql<number>`AVG(${surveyResponses.usabilityRating})`,
+        avgFeature: sql<number>`AVG(${surveyResponses.featureRating})`,
+        recommendCount: sql<number>`SUM(CASE WHEN ${surveyResponses.wouldRecommend} = true THEN 1 ELSE 0 END)`,
+      })
+      .from(surveyResponses);
 
-    for (const user of allUsers) {
-      const indicators = await getSuspiciousIndicators(user.id);
-      
-      // Calculate severity score
-      let severityScore = 0;
-      if (indicators.abnormalRiding) severityScore += 30;
-      if (indicators.spamPosts) severityScore += 40;
-      if (indicators.excessiveApiCalls) severityScore += 30;
+    const total = Number(statsResult[0]?.total ?? 0);
+    const recommendCount = Number(statsResult[0]?.recommendCount ?? 0);
 
-      if (severityScore > 0) {
-        suspiciousUsers.push({
-          userId: user.id,
-          name: user.name,
-          email: user.email,
-          indicators,
-          severityScore,
-        });
-      }
-    }
+    // Get feature usage breakdown
+    const featureResult = await db
+      .select({
+        feature: surveyResponses.mostUsedFeature,
+        count: sql<number>`COUNT(*)`,
+      })
+      .from(surveyResponses)
+      .groupBy(surveyResponses.mostUsedFeature)
+      .orderBy(desc(sql`COUNT(*)`));
 
-    // Sort by severity score
-    return suspiciousUsers.sort((a, b) => b.severityScore - a.severityScore);
+    return {
+      totalResponses: Number(total),
+      avgOverall: Number(statsResult[0]?.avgOverall ?? 0),
+      avgUsability: Number(statsResult[0]?.avgUsability ?? 0),
+      avgFeature: Number(statsResult[0]?.avgFeature ?? 0),
+      recommendRate: total > 0 ? (Number(recommendCount) / Number(total)) * 100 : 0,
+      featureUsage: featureResult.map(r => ({ feature: r.feature, count: Number(r.count) })),
+    };
   } catch (error) {
-    console.error("[Database] Failed to get users with suspicious activity:", error);
-    return [];
+    console.error("[Database] Failed to get survey statistics:", error);
+    return { totalResponses: 0, avgOverall: 0, avgUsability: 0, avgFeature: 0, recommendRate: 0, featureUsage: [] };
   }
 }
 
-
 // ============================================
-// AI Chat and Battery Analysis Functions
+// Bug Reports Functions
 // ============================================
 
-// Get AI chat usage for a specific date
-export async function getAiChatUsage(userId: number, date: string): Promise<AiChatUsage | null> {
+// Submit bug report
+export async function submitBugReport(data: InsertBugReport): Promise<number | null> {
   const db = await getDb();
   if (!db) return null;
 
   try {
-    const result = await db
-      .select()
-      .from(aiChatUsage)
-      .where(and(eq(aiChatUsage.userId, userId), eq(aiChatUsage.usageDate, date)))
-      .limit(1);
-    return result[0] || null;
+    const result = await db.insert(bugReports).values(data);
+    return result[0].insertId;
   } catch (error) {
-    console.error("[Database] Failed to get AI chat usage:", error);
+    console.error("[Database] Failed to submit bug report:", error);
     return null;
   }
 }
 
-// Increment AI chat usage count
-export async function incrementAiChatUsage(userId: number, date: string): Promise<void> {
+// Get user's bug reports
+export async function getUserBugReports(userId: number): Promise<BugReport[]> {
   const db = await getDb();
-  if (!db) return;
+  if (!db) return [];
 
   try {
-    const existing = await getAiChatUsage(userId, date);
-    
-    if (existing) {
-      await db
-        .update(aiChatUsage)
-        .set({
-          messageCount: sql`${aiChatUsage.messageCount} + 1`,
-          lastMessageAt: new Date(),
-        })
-        .where(eq(aiChatUsage.id, existing.id));
-    } else {
-      await db.insert(aiChatUsage).values({
-        userId,
-        usageDate: date,
-        messageCount: 1,
-        lastMessageAt: new Date(),
-      });
-    }
+    return await db
+      .select()
+      .from(bugReports)
+      .where(eq(bugReports.userId, userId))
+      .orderBy(desc(bugReports.createdAt));
   } catch (error) {
-    console.error("[Database] Failed to increment AI chat usage:", error);
+    console.error("[Database] Failed to get user bug reports:", error);
+    return [];
   }
 }
 
-// Get AI chat history
-export async function getAiChatHistory(
-  userId: number,
-  scooterId?: number,
-  limit: number = 20
-): Promise<AiChatHistoryRecord[]> {
-  const db = await getDb();
-  if (!db) return [];
-
-  try {
-    const conditions = [eq(aiChatHistory.userId, userId)];
-    if (scooterId !== undefined) {
-      conditions.push(eq(aiChatHistory.scooterId, scooterId));
-    }
-
-    const result = await db
-      .select()
-      .from(aiChatHistory)
-      .where(and(...conditions))
-      .orderBy(desc(aiChatHistory.createdAt))
-      .limit(limit);
-    
-    return result;
+// Get all bug reports (admin)
+export async function getAllBugReports(
+  page: number = 1,
+  limit: number = 50,
+  statusFilter?: string
+): Promise<{
+  reports: (BugReport & { userName: string | null; userEmail: string | null })[];
+  total: number;
+  openCount: number;
+  inProgressCount: number;
+  resolvedCount: number;
+}> {
+  const db = await getDb();
+  if (!db) return { reports: [], total: 0, openCount: 0, inProgressCount: 0, resolvedCount: 0 };
+
+  try {
+    const offset = (page - 1) * limit;
+
+    // Build query with optional status filter
+    let query = db
+      .select({
+        id: bugReports.id,
+        userId: bugReports.userId,
+        title: bugReports.title,
+        description: bugReports.description,
+        stepsToReproduce: bugReports.stepsToReproduce,
+        expectedBehavior: bugReports.expectedBehavior,
+        actualBehavior: bugReports.actualBehavior,
+        screenshotUrls: bugReports.screenshotUrls,
+        severity: bugReports.severity,
+        status: bugReports.status,
+        appVersion: bugReports.appVersion,
+        deviceInfo: bugReports.deviceInfo,
+        adminNotes: bugReports.adminNotes,
+        resolvedBy: bugReports.resolvedBy,
+        resolvedAt: bugReports.resolvedAt,
+        createdAt: bugReports.createdAt,
+        updatedAt: bugReports.updatedAt,
+        userName: users.name,
+        userEmail: users.email,
+      })
+      .from(bugReports)
+      .leftJoin(users, eq(bugReports.userId, users.id))
+      .orderBy(desc(bugReports.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    if (statusFilter) {
+      query = query.where(eq(bugReports.status, statusFilter as any)) as any;
+    }
+
+    const reports = await query;
+
+    // Get counts
+    const countResult = await db
+      .select({
+        total: sql<number>`COUNT(*)`,
+        openCount: sql<number>`SUM(CASE WHEN ${bugReports.status} = 'open' THEN 1 ELSE 0 END)`,
+        inProgressCount: sql<number>`SUM(CASE WHEN ${bugReports.status} = 'in_progress' THEN 1 ELSE 0 END)`,
+        resolvedCount: sql<number>`SUM(CASE WHEN ${bugReports.status} = 'resolved' THEN 1 ELSE 0 END)`,
+      })
+      .from(bugReports);
+
+    return {
+      reports: reports as (BugReport & { userName: string | null; userEmail: string | null })[],
+      total: Number(countResult[0]?.total ?? 0),
+      openCount: Number(countResult[0]?.openCount ?? 0),
+      inProgressCount: Number(countResult[0]?.inProgressCount ?? 0),
+      resolvedCount: Number(countResult[0]?.resolvedCount ?? 0),
+    };
   } catch (error) {
-    console.error("[Database] Failed to get AI chat history:", error);
-    return [];
+    console.error("[Database] Failed to get bug reports:", error);
+    return { reports: [], total: 0, openCount: 0, inProgressCount: 0, resolvedCount: 0 };
   }
 }
 
-// Save AI chat message
-export async function saveAiChatMessage(
-  userId: number,
-  role: "user" | "assistant",
-  content: string,
-  scooterId?: number
-): Promise<number | null> {
+// Update bug report status (admin)
+export async function updateBugReportStatus(
+  id: number,
+  status: string,
+  adminId: number,
+  adminNotes?: string
+): Promise<boolean> {
   const db = await getDb();
-  if (!db) return null;
+  if (!db) return false;
 
   try {
-    const result = await db.insert(aiChatHistory).values({
-      userId,
-      role,
-      content,
-      scooterId: scooterId || null,
+    // Get bug report to find user ID
+    const bugReport = await getBugReportById(id);
+    if (!bugReport) return false;
+
+    const updateData: any = {
+      status,
+      adminNotes,
+    };
+
+    if (status === "resolved" || status === "closed") {
+      updateData.resolvedBy = adminId;
+      updateData.resolvedAt = new Date();
+    }
+
+    await db.update(bugReports).set(updateData).where(eq(bugReports.id, id));
+
+    // Send notification to user about status change
+    const statusLabels: Record<string, string> = {
+      open: "열림",
+      in_progress: "진행 중",
+      resolved: "해결됨",
+      closed: "종료",
+      wont_fix: "수정 안함",
+    };
+
+    await createNotification({
+      userId: bugReport.userId,
+      type: "bug_report_update",
+      title: "버그 리포트 상태 변경",
+      body: `"${bugReport.title}" 리포트가 "${statusLabels[status] || status}" 상태로 변경되었습니다.`,
+      entityType: "bug_report",
+      entityId: id,
+      actorId: adminId,
     });
-    return result[0].insertId;
+
+    return true;
   } catch (error) {
-    console.error("[Database] Failed to save AI chat message:", error);
-    return null;
+    console.error("[Database] Failed to update bug report status:", error);
+    return false;
   }
 }
 
-// Clear AI chat history
-export async function clearAiChatHistory(userId: number, scooterId?: number): Promise<void> {
+// Get bug report by ID
+export async function getBugReportById(id: number): Promise<BugReport | null> {
   const db = await getDb();
-  if (!db) return;
+  if (!db) return null;
 
   try {
-    const conditions = [eq(aiChatHistory.userId, userId)];
-    if (scooterId !== undefined) {
-      conditions.push(eq(aiChatHistory.scooterId, scooterId));
-    }
-
-    await db.delete(aiChatHistory).where(and(...conditions));
+    const result = await db
+      .select()
+      .from(bugReports)
+      .where(eq(bugReports.id, id))
+      .limit(1);
+    return result[0] || null;
   } catch (error) {
-    console.error("[Database] Failed to clear AI chat history:", error);
+    console.error("[Database] Failed to get bug report:", error);
+    return null;
   }
 }
 
-// Get battery analysis for a scooter
-export async function getBatteryAnalysis(
-  userId: number,
-  scooterId: number
-): Promise<BatteryAnalysisRecord | null> {
+
+// Get badge by name
+export async function getBadgeByName(name: string): Promise<Badge | null> {
   const db = await getDb();
   if (!db) return null;
 
   try {
     const result = await db
       .select()
-      .from(batteryAnalysis)
-      .where(and(eq(batteryAnalysis.userId, userId), eq(batteryAnalysis.scooterId, scooterId)))
+      .from(badges)
+      .where(eq(badges.name, name))
       .limit(1);
     return result[0] || null;
   } catch (error) {
-    console.error("[Database] Failed to get battery analysis:", error);
+    console.error("[Database] Failed to get badge by name:", error);
     return null;
   }
 }
 
-// Update battery analysis after a ride
-export async function updateBatteryAnalysis(
-  userId: number,
-  scooterId: number,
-  data: {
-    distanceMeters: number;
-    energyWh: number;
-    efficiencyWhKm: number;
-    totalDistanceMeters: number;
-  }
-): Promise<void> {
+
+// Get all admin users
+export async function getAdminUsers(): Promise<{ id: number; name: string | null; email: string | null }[]> {
   const db = await getDb();
-  if (!db) return;
+  if (!db) return [];
 
   try {
-    const existing = await getBatteryAnalysis(userId, scooterId);
-    const efficiencyInt = Math.round(data.efficiencyWhKm * 100); // Store as integer * 100
+    const result = await db
+      .select({
+        id: users.id,
+        name: users.name,
+        email: users.email,
+      })
+      .from(users)
+      .where(eq(users.role, "admin"));
+    return result;
+  } catch (error) {
+    console.error("[Database] Failed to get admin users:", error);
+    return [];
+  }
+}
 
-    if (existing) {
-      // Calculate new averages
-      const newTotalRides = existing.totalRidesWithVoltage + 1;
-      const newTotalDistance = existing.totalDistanceWithVoltage + data.distanceMeters;
-      const newTotalEnergy = existing.totalEnergyConsumed + Math.round(data.energyWh * 10);
-      const newAvgEfficiency = Math.round((newTotalEnergy / 10) / (newTotalDistance / 1000) * 100);
-      
-      // Estimate battery cycles based on total distance and efficiency
-      const scooterData = await getScooterById(scooterId, userId);
-      const nominalVoltage = scooterData?.batteryVoltage || 60;
-      const capacity = parseFloat(scooterData?.batteryCapacity || "30");
-      const totalCapacityWh = nominalVoltage * capacity;
-      const totalEnergyUsedWh = newTotalEnergy / 10;
-      const estimatedCycles = Math.round(totalEnergyUsedWh / (totalCapacityWh * 0.5)); // Assuming 50% average discharge
+// Send notification to all admins
+export async function notifyAdmins(notification: {
+  type: string;
+  title: string;
+  body?: string;
+  entityType?: string;
+  entityId?: number;
+  actorId?: number;
+}): Promise<void> {
+  const admins = await getAdminUsers();
+  
+  for (const admin of admins) {
+    await createNotification({
+      userId: admin.id,
+      ...notification,
+    });
+  }
+}
 
-      // Estimate battery health (simple linear model)
-      const maxCycles = 500; // Typical li-ion lifecycle
-      const healthReduction = Math.min(estimatedCycles / maxCycles, 1) * 20;
-      const batteryHealth = Math.max(0, 100 - healthReduction);
 
-      await db
-        .update(batteryAnalysis)
-        .set({
-          totalRidesWithVoltage: newTotalRides,
-          totalDistanceWithVoltage: newTotalDistance,
-          totalEnergyConsumed: newTotalEnergy,
-          avgEfficiency: newAvgEfficiency,
-          bestEfficiency: existing.bestEfficiency 
-            ? Math.min(existing.bestEfficiency, efficiencyInt) 
-            : efficiencyInt,
-          worstEfficiency: existing.worstEfficiency 
-            ? Math.max(existing.worstEfficiency, efficiencyInt) 
-            : efficiencyInt,
-          estimatedCycles,
-          batteryHealth: Math.round(batteryHealth),
-          lastAnalyzedAt: new Date(),
-        })
-        .where(eq(batteryAnalysis.id, existing.id));
-    } else {
-      // Create new analysis record
-      await db.insert(batteryAnalysis).values({
-        userId,
-        scooterId,
-        totalRidesWithVoltage: 1,
-        totalDistanceWithVoltage: data.distanceMeters,
-        totalEnergyConsumed: Math.round(data.energyWh * 10),
-        avgEfficiency: efficiencyInt,
-        bestEfficiency: efficiencyInt,
-        worstEfficiency: efficiencyInt,
-        estimatedCycles: 0,
-        batteryHealth: 100,
-        lastAnalyzedAt: new Date(),
-      });
-    }
+// ========== User Activity Logging ==========
+
+// Log user activity
+export async function logUserActivity(data: {
+  userId: number;
+  activityType: string;
+  details?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  try {
+    await db.insert(userActivityLogs).values({
+      userId: data.userId,
+      activityType: data.activityType,
+      details: data.details,
+      ipAddress: data.ipAddress,
+      userAgent: data.userAgent,
+    });
   } catch (error) {
-    console.error("[Database] Failed to update battery analysis:", error);
+    console.error("[Database] Failed to log user activity:", error);
   }
 }
 
-// Get recent rides with voltage data for a specific scooter
-export async function getRecentRidesWithVoltage(
-  userId: number,
-  scooterId: number,
-  limit: number = 10
-): Promise<{
-  id: number;
-  date: string;
-  distance: number;
-  duration: number;
-  avgSpeed: number;
-  voltageStart: number;
-  voltageEnd: number;
-  socStart: number;
-  socEnd: number;
-  energyWh: number | null;
-}[]> {
+// Get user activity logs
+export async function getUserActivityLogs(userId: number, limit: number = 100): Promise<UserActivityLog[]> {
   const db = await getDb();
   if (!db) return [];
 
   try {
-    const result = await db
-      .select({
-        id: ridingRecords.id,
-        date: ridingRecords.date,
-        distance: ridingRecords.distance,
-        duration: ridingRecords.duration,
-        avgSpeed: ridingRecords.avgSpeed,
-        voltageStart: ridingRecords.voltageStart,
-        voltageEnd: ridingRecords.voltageEnd,
-        socStart: ridingRecords.socStart,
-        socEnd: ridingRecords.socEnd,
-        energyWh: ridingRecords.energyWh,
-      })
-      .from(ridingRecords)
-      .where(and(
-        eq(ridingRecords.userId, userId),
-        eq(ridingRecords.scooterId, scooterId),
-        isNotNull(ridingRecords.voltageStart),
-        isNotNull(ridingRecords.voltageEnd)
-      ))
-      .orderBy(desc(ridingRecords.createdAt))
+    return await db
+      .select()
+      .from(userActivityLogs)
+      .where(eq(userActivityLogs.userId, userId))
+      .orderBy(desc(userActivityLogs.createdAt))
       .limit(limit);
-
-    return result.map(r => ({
-      id: r.id,
-      date: r.date || "",
-      distance: r.distance || 0,
-      duration: r.duration || 0,
-      avgSpeed: Number(r.avgSpeed) || 0,
-      voltageStart: Number(r.voltageStart) || 0,
-      voltageEnd: Number(r.voltageEnd) || 0,
-      socStart: Number(r.socStart) || 0,
-      socEnd: Number(r.socEnd) || 0,
-      energyWh: r.energyWh ? Number(r.energyWh) : null,
-    }));
   } catch (error) {
-    console.error("[Database] Failed to get recent rides with voltage:", error);
+    console.error("[Database] Failed to get user activity logs:", error);
     return [];
   }
 }
 
+// Get activity count by type in time range
+export async function getActivityCountByType(
+  userId: number,
+  activityType: string,
+  hoursAgo: number
+): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
 
-// ============================================
-// Charging Records Functions
-// ============================================
+  try {
+    const cutoffTime = new Date(Date.now() - hoursAgo * 60 * 60 * 1000);
+    const result = await db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(userActivityLogs)
+      .where(
+        and(
+          eq(userActivityLogs.userId, userId),
+          eq(userActivityLogs.activityType, activityType),
+          gt(userActivityLogs.createdAt, cutoffTime)
+        )
+      );
+    return result[0]?.count || 0;
+  } catch (error) {
+    console.error("[Database] Failed to get activity count:", error);
+    return 0;
+  }
+}
 
-/**
- * Create a new charging record
- */
-export async function createChargingRecord(data: {
+// ========== Suspicious User Reports ==========
+
+// Create suspicious user report
+export async function createSuspiciousReport(data: {
   userId: number;
-  scooterId: number;
-  chargeDate: string;
-  voltageBefore: string;
-  voltageAfter: string;
-  socBefore?: string;
-  socAfter?: string;
-  chargingDuration?: number;
-  chargeType?: string;
-  notes?: string;
-}) {
+  reportType: string;
+  severityScore: number;
+  details?: string;
+}): Promise<void> {
   const db = await getDb();
-  if (!db) {
-    throw new Error("Database not available");
-  }
+  if (!db) return;
+
   try {
-    const result = await db.insert(chargingRecords).values({
+    await db.insert(suspiciousUserReports).values({
       userId: data.userId,
-      scooterId: data.scooterId,
-      chargeDate: data.chargeDate,
-      voltageBefore: data.voltageBefore,
-      voltageAfter: data.voltageAfter,
-      socBefore: data.socBefore,
-      socAfter: data.socAfter,
-      chargingDuration: data.chargingDuration,
-      chargeType: data.chargeType,
-      notes: data.notes,
+      reportType: data.reportType,
+      severityScore: data.severityScore,
+      details: data.details,
     });
-    console.log("[Database] Created charging record for scooter:", data.scooterId);
-    return { id: result[0].insertId, ...data };
   } catch (error) {
-    console.error("[Database] Failed to create charging record:", error);
-    throw error;
+    console.error("[Database] Failed to create suspicious report:", error);
   }
 }
 
-/**
- * Get charging history for a scooter
- */
-export async function getChargingHistory(userId: number, scooterId: number, limit: number = 20) {
+// Get all suspicious reports
+export async function getSuspiciousReports(onlyUnreviewed: boolean = false): Promise<(SuspiciousUserReport & { userName: string | null; userEmail: string | null })[]> {
   const db = await getDb();
-  if (!db) {
-    return [];
-  }
+  if (!db) return [];
+
   try {
+    const conditions = onlyUnreviewed
+      ? eq(suspiciousUserReports.isReviewed, false)
+      : undefined;
+
     const result = await db
-      .select()
-      .from(chargingRecords)
-      .where(
-        and(
-          eq(chargingRecords.userId, userId),
-          eq(chargingRecords.scooterId, scooterId)
-        )
-      )
-      .orderBy(desc(chargingRecords.createdAt))
-      .limit(limit);
-    
-    return result.map(r => ({
-      id: r.id,
-      chargeDate: r.chargeDate,
-      voltageBefore: Number(r.voltageBefore),
-      voltageAfter: Number(r.voltageAfter),
-      socBefore: r.socBefore ? Number(r.socBefore) : null,
-      socAfter: r.socAfter ? Number(r.socAfter) : null,
-      chargingDuration: r.chargingDuration,
-      chargeType: r.chargeType,
-      notes: r.notes,
-      createdAt: r.createdAt,
-    }));
+      .select({
+        id: suspiciousUserReports.id,
+        userId: suspiciousUserReports.userId,
+        reportType: suspiciousUserReports.reportType,
+        severityScore: suspiciousUserReports.severityScore,
+        details: suspiciousUserReports.details,
+        isReviewed: suspiciousUserReports.isReviewed,
+        reviewedBy: suspiciousUserReports.reviewedBy,
+        reviewNotes: suspiciousUserReports.reviewNotes,
+        actionTaken: suspiciousUserReports.actionTaken,
+        reviewedAt: suspiciousUserReports.reviewedAt,
+        createdAt: suspiciousUserReports.createdAt,
+        userName: users.name,
+        userEmail: users.email,
+      })
+      .from(suspiciousUserReports)
+      .leftJoin(users, eq(suspiciousUserReports.userId, users.id))
+      .where(conditions)
+      .orderBy(desc(suspiciousUserReports.severityScore), desc(suspiciousUserReports.createdAt));
+
+    return result;
   } catch (error) {
-    console.error("[Database] Failed to get charging history:", error);
+    console.error("[Database] Failed to get suspicious reports:", error);
     return [];
   }
 }
 
-/**
- * Get charging statistics for a scooter
- */
-export async function getChargingStats(userId: number, scooterId: number) {
+// Review suspicious report
+export async function reviewSuspiciousReport(
+  reportId: number,
+  adminId: number,
+  action: "none" | "warning" | "temp_ban" | "perm_ban",
+  notes?: string
+): Promise<boolean> {
   const db = await getDb();
-  if (!db) {
-    return {
-      totalCharges: 0,
-      fullCharges: 0,
-      partialCharges: 0,
-      avgChargingDuration: null,
-      lastChargeDate: null,
-      avgSocGain: null,
-    };
+  if (!db) return false;
+
+  try {
+    await db.update(suspiciousUserReports)
+      .set({
+        isReviewed: true,
+        reviewedBy: adminId,
+        reviewNotes: notes,
+        actionTaken: action,
+        reviewedAt: new Date(),
+      })
+      .where(eq(suspiciousUserReports.id, reportId));
+    return true;
+  } catch (error) {
+    console.error("[Database] Failed to review suspicious report:", error);
+    return false;
   }
+}
+
+// ========== Statistics for Admin Dashboard ==========
+
+// Get daily user registrations
+export async function getDailyRegistrations(days: number = 30): Promise<{ date: string; count: number }[]> {
+  const db = await getDb();
+  if (!db) return [];
+
   try {
-    const records = await db
-      .select()
-      .from(chargingRecords)
-      .where(
-        and(
-          eq(chargingRecords.userId, userId),
-          eq(chargingRecords.scooterId, scooterId)
-        )
-      )
-      .orderBy(desc(chargingRecords.createdAt));
-    
-    if (records.length === 0) {
-      return {
-        totalCharges: 0,
-        fullCharges: 0,
-        partialCharges: 0,
-        avgChargingDuration: null,
-        lastChargeDate: null,
-        avgSocGain: null,
-      };
-    }
+    const cutoffDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const result = await db
+      .select({
+        date: sql<string>`DATE(createdAt)`,
+        count: sql<number>`COUNT(*)`,
+      })
+      .from(users)
+      .where(gt(users.createdAt, cutoffDate))
+      .groupBy(sql`DATE(createdAt)`)
+      .orderBy(sql`DATE(createdAt)`);
 
-    type RecordType = typeof records[0];
-    const fullCharges = records.filter((r: RecordType) => r.chargeType === "full").length;
-    const partialCharges = records.filter((r: RecordType) => r.chargeType === "partial").length;
-    
-    const durationsWithValue = records.filter((r: RecordType) => r.chargingDuration != null);
-    const avgChargingDuration = durationsWithValue.length > 0
-      ? Math.round(durationsWithValue.reduce((sum: number, r: RecordType) => sum + (r.chargingDuration || 0), 0) / durationsWithValue.length)
-      : null;
+    return result.map(r => ({
+      date: String(r.date),
+      count: Number(r.count),
+    }));
+  } catch (error) {
+    console.error("[Database] Failed to get daily registrations:", error);
+    return [];
+  }
+}
 
-    const socGains: number[] = records
-      .filter((r: typeof records[0]) => r.socBefore && r.socAfter)
-      .map((r: typeof records[0]) => Number(r.socAfter) - Number(r.socBefore));
-    const avgSocGain = socGains.length > 0
-      ? Math.round(socGains.reduce((sum: number, g: number) => sum + g, 0) / socGains.length)
-      : null;
+// Get user riding statistics
+export async function getUserRidingStats(userId: number): Promise<{
+  totalRides: number;
+  totalDistance: number;
+  totalDuration: number;
+  avgSpeed: number;
+  maxSpeed: number;
+  ridesPerDay: { date: string; count: number; distance: number }[];
+}> {
+  const db = await getDb();
+  if (!db) return {
+    totalRides: 0,
+    totalDistance: 0,
+    totalDuration: 0,
+    avgSpeed: 0,
+    maxSpeed: 0,
+    ridesPerDay: [],
+  };
+
+  try {
+    // Get overall stats
+    const overallStats = await db
+      .select({
+        totalRides: sql<number>`COUNT(*)`,
+        totalDistance: sql<number>`COALESCE(SUM(distance), 0)`,
+        totalDuration: sql<number>`COALESCE(SUM(duration), 0)`,
+        avgSpeed: sql<number>`COALESCE(AVG(avgSpeed), 0)`,
+        maxSpeed: sql<number>`COALESCE(MAX(maxSpeed), 0)`,
+      })
+      .from(ridingRecords)
+      .where(eq(ridingRecords.userId, userId));
+
+    // Get rides per day (last 30 days)
+    const cutoffDate = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const dailyStats = await db
+      .select({
+        date: sql<string>`DATE(createdAt)`,
+        count: sql<number>`COUNT(*)`,
+        distance: sql<number>`COALESCE(SUM(distance), 0)`,
+      })
+      .from(ridingRecords)
+      .where(and(eq(ridingRecords.userId, userId), gt(ridingRecords.createdAt, cutoffDate)))
+      .groupBy(sql`DATE(createdAt)`)
+      .orderBy(sql`DATE(createdAt)`);
 
+    const stats = overallStats[0] || {};
     return {
-      totalCharges: records.length,
-      fullCharges,
-      partialCharges,
-      avgChargingDuration,
-      lastChargeDate: records[0].chargeDate,
-      avgSocGain,
+      totalRides: Number(stats.totalRides) || 0,
+      totalDistance: Number(stats.totalDistance) || 0,
+      totalDuration: Number(stats.totalDuration) || 0,
+      avgSpeed: Number(stats.avgSpeed) || 0,
+      maxSpeed: Number(stats.maxSpeed) || 0,
+      ridesPerDay: dailyStats.map(r => ({
+        date: String(r.date),
+        count: Number(r.count),
+        distance: Number(r.distance),
+      })),
     };
   } catch (error) {
-    console.error("[Database] Failed to get charging stats:", error);
+    console.error("[Database] Failed to get user riding stats:", error);
     return {
-      totalCharges: 0,
-      fullCharges: 0,
-      partialCharges: 0,
-      avgChargingDuration: null,
-      lastChargeDate: null,
-      avgSocGain: null,
+      totalRides: 0,
+      totalDistance: 0,
+      totalDuration: 0,
+      avgSpeed: 0,
+      maxSpeed: 0,
+      ridesPerDay: [],
     };
   }
 }
 
-
-/**
- * Delete user account and all associated data
- */
-export async function deleteUserAccount(userId: number, reason?: string): Promise<void> {
+// Get suspicious activity indicators for a user
+export async function getSuspiciousIndicators(userId: number): Promise<{
+  abnormalRiding: boolean;
+  spamPosts: boolean;
+  excessiveApiCalls: boolean;
+  details: string[];
+}> {
   const db = await getDb();
-  if (!db) {
-    throw new Error("Database not available");
-  }
+  if (!db) return { abnormalRiding: false, spamPosts: false, excessiveApiCalls: false, details: [] };
+
+  const details: string[] = [];
+  let abnormalRiding = false;
+  let spamPosts = false;
+  let excessiveApiCalls = false;
 
   try {
-    console.log(`[Database] Deleting user account: ${userId}, reason: ${reason || "not provided"}`);
+    // Check for abnormal riding patterns (very long rides > 12 hours)
+    const longRides = await db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(ridingRecords)
+      .where(and(eq(ridingRecords.userId, userId), gt(ridingRecords.duration, 43200))); // 12 hours in seconds
 
-    // Delete in order to respect foreign key constraints
-    // 1. Delete charging records
-    await db.delete(chargingRecords).where(eq(chargingRecords.userId, userId));
-    
-    // 2. Delete battery analysis records
-    await db.delete(batteryAnalysis).where(eq(batteryAnalysis.userId, userId));
-    
-    // 3. Delete AI chat history
-    await db.delete(aiChatHistory).where(eq(aiChatHistory.userId, userId));
-    
-    // 4. Delete AI chat usage
-    await db.delete(aiChatUsage).where(eq(aiChatUsage.userId, userId));
-    
-    // 5. Delete scooters
-    await db.delete(scooters).where(eq(scooters.userId, userId));
-    
-    // 6. Delete riding records
-    await db.delete(ridingRecords).where(eq(ridingRecords.userId, userId));
-    
-    // 7. Delete notifications
-    await db.delete(notifications).where(eq(notifications.userId, userId));
-    
-    // 8. Delete user badges
-    await db.delete(userBadges).where(eq(userBadges.userId, userId));
-    
-    // 9. Delete challenge participations
-    await db.delete(challengeParticipants).where(eq(challengeParticipants.userId, userId));
-    
-    // 10. Delete challenge invitations (sent and received)
-    await db.delete(challengeInvitations).where(
-      or(
-        eq(challengeInvitations.inviterId, userId),
-        eq(challengeInvitations.inviteeId, userId)
-      )
-    );
-    
-    // 11. Delete live locations
-    await db.delete(liveLocations).where(eq(liveLocations.userId, userId));
-    
-    // 12. Delete group memberships
-    await db.delete(groupMembers).where(eq(groupMembers.userId, userId));
-    
-    // 13. Delete group messages
-    await db.delete(groupMessages).where(eq(groupMessages.userId, userId));
-    
-    // 14. Delete friend requests (sent and received)
-    await db.delete(friendRequests).where(
-      or(
-        eq(friendRequests.senderId, userId),
-        eq(friendRequests.receiverId, userId)
-      )
-    );
-    
-    // 15. Delete friendships
-    await db.delete(friends).where(
-      or(
-        eq(friends.userId1, userId),
-        eq(friends.userId2, userId)
-      )
-    );
-    
-    // 16. Delete follows (following and followers)
-    await db.delete(follows).where(
-      or(
-        eq(follows.followerId, userId),
-        eq(follows.followingId, userId)
-      )
-    );
-    
-    // 17. Delete post likes
-    await db.delete(postLikes).where(eq(postLikes.userId, userId));
+    if ((longRides[0]?.count || 0) > 0) {
+      abnormalRiding = true;
+      details.push(`비정상적으로 긴 주행 기록 ${longRides[0]?.count}건 (12시간 이상)`);
+    }
+
+    // Check for very short rides with high distance (possible GPS spoofing)
+    const suspiciousRides = await db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(ridingRecords)
+      .where(
+        and(
+          eq(ridingRecords.userId, userId),
+          lt(ridingRecords.duration, 60), // Less than 1 minute
+          gt(ridingRecords.distance, 1000) // More than 1km
+        )
+      );
+
+    if ((suspiciousRides[0]?.count || 0) > 0) {
+      abnormalRiding = true;
+      details.push(`의심스러운 주행 기록 ${suspiciousRides[0]?.count}건 (1분 미만에 1km 이상)`);
+    }
+
+    // Check for spam posts (more than 10 posts in last hour)
+    const recentPosts = await getActivityCountByType(userId, "post_create", 1);
+    if (recentPosts > 10) {
+      spamPosts = true;
+      details.push(`최근 1시간 내 게시글 ${recentPosts}개 작성`);
+    }
+
+    // Check for excessive API calls (more than 1000 in last hour)
+    const recentApiCalls = await getActivityCountByType(userId, "api_call", 1);
+    if (recentApiCalls > 1000) {
+      excessiveApiCalls = true;
+      details.push(`최근 1시간 내 API 호출 ${recentApiCalls}회`);
+    }
+
+    return { abnormalRiding, spamPosts, excessiveApiCalls, details };
+  } catch (error) {
+    console.error("[Database] Failed to get suspicious indicators:", error);
+    return { abnormalRiding: false, spamPosts: false, excessiveApiCalls: false, details: [] };
+  }
+}
+
+// Get all users with suspicious activity
+export async function getUsersWithSuspiciousActivity(): Promise<{
+  userId: number;
+  name: string | null;
+  email: string | null;
+  indicators: {
+    abnormalRiding: boolean;
+    spamPosts: boolean;
+    excessiveApiCalls: boolean;
+    details: string[];
+  };
+  severityScore: number;
+}[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  try {
+    // Get all users
+    const allUsers = await db.select().from(users);
+    const suspiciousUsers: {
+      userId: number;
+      name: string | null;
+      email: string | null;
+      indicators: {
+        abnormalRiding: boolean;
+        spamPosts: boolean;
+        excessiveApiCalls: boolean;
+        details: string[];
+      };
+      severityScore: number;
+    }[] = [];
+
+    for (const user of allUsers) {
+      const indicators = await getSuspiciousIndicators(user.id);
+      
+      // Calculate severity score
+      let severityScore = 0;
+      if (indicators.abnormalRiding) severityScore += 30;
+      if (indicators.spamPosts) severityScore += 40;
+      if (indicators.excessiveApiCalls) severityScore += 30;
+
+      if (severityScore > 0) {
+        suspiciousUsers.push({
+          userId: user.id,
+          name: user.name,
+          email: user.email,
+          indicators,
+          severityScore,
+        });
+      }
+    }
+
+    // Sort by severity score
+    return suspiciousUsers.sort((a, b) => b.severityScore - a.severityScore);
+  } catch (error) {
+    console.error("[Database] Failed to get users with suspicious activity:", error);
+    return [];
+  }
+}
+
+
+// ============================================
+// AI Chat and Battery Analysis Functions
+// ============================================
+
+// Get AI chat usage for a specific date
+export async function getAiChatUsage(userId: number, date: string): Promise<AiChatUsage | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  try {
+    const result = await db
+      .select()
+      .from(aiChatUsage)
+      .where(and(eq(aiChatUsage.userId, userId), eq(aiChatUsage.usageDate, date)))
+      .limit(1);
+    return result[0] || null;
+  } catch (error) {
+    console.error("[Database] Failed to get AI chat usage:", error);
+    return null;
+  }
+}
+
+// Increment AI chat usage count
+export async function incrementAiChatUsage(userId: number, date: string): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  try {
+    const existing = await getAiChatUsage(userId, date);
     
-    // 18. Delete post views
-    await db.delete(postViews).where(eq(postViews.userId, userId));
+    if (existing) {
+      await db
+        .update(aiChatUsage)
+        .set({
+          messageCount: sql`${aiChatUsage.messageCount} + 1`,
+          lastMessageAt: new Date(),
+        })
+        .where(eq(aiChatUsage.id, existing.id));
+    } else {
+      await db.insert(aiChatUsage).values({
+        userId,
+        usageDate: date,
+        messageCount: 1,
+        lastMessageAt: new Date(),
+      });
+    }
+  } catch (error) {
+    console.error("[Database] Failed to increment AI chat usage:", error);
+  }
+}
+
+// Get AI chat history
+export async function getAiChatHistory(
+  userId: number,
+  scooterId?: number,
+  limit: number = 20
+): Promise<AiChatHistoryRecord[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  try {
+    const conditions = [eq(aiChatHistory.userId, userId)];
+    if (scooterId !== undefined) {
+      conditions.push(eq(aiChatHistory.scooterId, scooterId));
+    }
+
+    const result = await db
+      .select()
+      .from(aiChatHistory)
+      .where(and(...conditions))
+      .orderBy(desc(aiChatHistory.createdAt))
+      .limit(limit);
     
-    // 19. Delete comments
-    await db.delete(comments).where(eq(comments.userId, userId));
+    return result;
+  } catch (error) {
+    console.error("[Database] Failed to get AI chat history:", error);
+    return [];
+  }
+}
+
+// Save AI chat message
+export async function saveAiChatMessage(
+  userId: number,
+  role: "user" | "assistant",
+  content: string,
+  scooterId?: number
+): Promise<number | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  try {
+    const result = await db.insert(aiChatHistory).values({
+      userId,
+      role,
+      content,
+      scooterId: scooterId || null,
+    });
+    return result[0].insertId;
+  } catch (error) {
+    console.error("[Database] Failed to save AI chat message:", error);
+    return null;
+  }
+}
+
+// Clear AI chat history
+export async function clearAiChatHistory(userId: number, scooterId?: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  try {
+    const conditions = [eq(aiChatHistory.userId, userId)];
+    if (scooterId !== undefined) {
+      conditions.push(eq(aiChatHistory.scooterId, scooterId));
+    }
+
+    await db.delete(aiChatHistory).where(and(...conditions));
+  } catch (error) {
+    console.error("[Database] Failed to clear AI chat history:", error);
+  }
+}
+
+// Get battery analysis for a scooter
+export async function getBatteryAnalysis(
+  userId: number,
+  scooterId: number
+): Promise<BatteryAnalysisRecord | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  try {
+    const result = await db
+      .select()
+      .from(batteryAnalysis)
+      .where(and(eq(batteryAnalysis.userId, userId), eq(batteryAnalysis.scooterId, scooterId)))
+      .limit(1);
+    return result[0] || null;
+  } catch (error) {
+    console.error("[Database] Failed to get battery analysis:", error);
+    return null;
+  }
+}
+
+// Update battery analysis after a ride
+export async function updateBatteryAnalysis(
+  userId: number,
+  scooterId: number,
+  data: {
+    distanceMeters: number;
+    energyWh: number;
+    efficiencyWhKm: number;
+    totalDistanceMeters: number;
+  }
+): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  try {
+    const existing = await getBatteryAnalysis(userId, scooterId);
+    const efficiencyInt = Math.round(data.efficiencyWhKm * 100); // Store as integer * 100
+
+    if (existing) {
+      // Calculate new averages
+      const newTotalRides = existing.totalRidesWithVoltage + 1;
+      const newTotalDistance = existing.totalDistanceWithVoltage + data.distanceMeters;
+      const newTotalEnergy = existing.totalEnergyConsumed + Math.round(data.energyWh * 10);
+      const newAvgEfficiency = Math.round((newTotalEnergy / 10) / (newTotalDistance / 1000) * 100);
+      
+      // Estimate battery cycles based on total distance and efficiency
+      const scooterData = await getScooterById(scooterId, userId);
+      const nominalVoltage = scooterData?.batteryVoltage || 60;
+      const capacity = parseFloat(scooterData?.batteryCapacity || "30");
+      const totalCapacityWh = nominalVoltage * capacity;
+      const totalEnergyUsedWh = newTotalEnergy / 10;
+      const estimatedCycles = Math.round(totalEnergyUsedWh / (totalCapacityWh * 0.5)); // Assuming 50% average discharge
+
+      // Estimate battery health (simple linear model)
+      const maxCycles = 500; // Typical li-ion lifecycle
+      const healthReduction = Math.min(estimatedCycles / maxCycles, 1) * 20;
+      const batteryHealth = Math.max(0, 100 - healthReduction);
+
+      await db
+        .update(batteryAnalysis)
+        .set({
+          totalRidesWithVoltage: newTotalRides,
+          totalDistanceWithVoltage: newTotalDistance,
+          totalEnergyConsumed: newTotalEnergy,
+          avgEfficiency: newAvgEfficiency,
+          bestEfficiency: existing.bestEfficiency 
+            ? Math.min(existing.bestEfficiency, efficiencyInt) 
+            : efficiencyInt,
+          worstEfficiency: existing.worstEfficiency 
+            ? Math.max(existing.worstEfficiency, efficiencyInt) 
+            : efficiencyInt,
+          estimatedCycles,
+          batteryHealth: Math.round(batteryHealth),
+          lastAnalyzedAt: new Date(),
+        })
+        .where(eq(batteryAnalysis.id, existing.id));
+    } else {
+      // Create new analysis record
+      await db.insert(batteryAnalysis).values({
+        userId,
+        scooterId,
+        totalRidesWithVoltage: 1,
+        totalDistanceWithVoltage: data.distanceMeters,
+        totalEnergyConsumed: Math.round(data.energyWh * 10),
+        avgEfficiency: efficiencyInt,
+        bestEfficiency: efficiencyInt,
+        worstEfficiency: efficiencyInt,
+        estimatedCycles: 0,
+        batteryHealth: 100,
+        lastAnalyzedAt: new Date(),
+      });
+    }
+  } catch (error) {
+    console.error("[Database] Failed to update battery analysis:", error);
+  }
+}
+
+// Get recent rides with voltage data for a specific scooter
+export async function getRecentRidesWithVoltage(
+  userId: number,
+  scooterId: number,
+  limit: number = 10
+): Promise<{
+  id: number;
+  date: string;
+  distance: number;
+  duration: number;
+  avgSpeed: number;
+  voltageStart: number;
+  voltageEnd: number;
+  socStart: number;
+  socEnd: number;
+  energyWh: number | null;
+}[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  try {
+    const result = await db
+      .select({
+        id: ridingRecords.id,
+        date: ridingRecords.date,
+        distance: ridingRecords.distance,
+        duration: ridingRecords.duration,
+        avgSpeed: ridingRecords.avgSpeed,
+        voltageStart: ridingRecords.voltageStart,
+        voltageEnd: ridingRecords.voltageEnd,
+        socStart: ridingRecords.socStart,
+        socEnd: ridingRecords.socEnd,
+        energyWh: ridingRecords.energyWh,
+      })
+      .from(ridingRecords)
+      .where(and(
+        eq(ridingRecords.userId, userId),
+        eq(ridingRecords.scooterId, scooterId),
+        isNotNull(ridingRecords.voltageStart),
+        isNotNull(ridingRecords.voltageEnd)
+      ))
+      .orderBy(desc(ridingRecords.createdAt))
+      .limit(limit);
+
+    return result.map(r => ({
+      id: r.id,
+      date: r.date || "",
+      distance: r.distance || 0,
+      duration: r.duration || 0,
+      avgSpeed: Number(r.avgSpeed) || 0,
+      voltageStart: Number(r.voltageStart) || 0,
+      voltageEnd: Number(r.voltageEnd) || 0,
+      socStart: Number(r.socStart) || 0,
+      socEnd: Number(r.socEnd) || 0,
+      energyWh: r.energyWh ? Number(r.energyWh) : null,
+    }));
+  } catch (error) {
+    console.error("[Database] Failed to get recent rides with voltage:", error);
+    return [];
+  }
+}
+
+// Record per-ride battery consumption (learned Wh/km for route planning)
+export async function createBatteryRideLog(data: InsertBatteryRideLog): Promise<number | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  try {
+    const result = await db.insert(batteryRideLogs).values(data);
+    return result[0].insertId;
+  } catch (error) {
+    console.error("[Database] Failed to create battery ride log:", error);
+    return null;
+  }
+}
+
+// Copy DEM elevation onto the battery log of a ride (logs are keyed by recordId)
+export async function updateBatteryRideLogElevation(
+  ridingRecordId: string,
+  elevationGain: number,
+  elevationLoss: number
+): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  try {
+    await db
+      .update(batteryRideLogs)
+      .set({ elevationGain, elevationLoss })
+      .where(eq(batteryRideLogs.ridingRecordId, ridingRecordId));
+  } catch (error) {
+    console.error("[Database] Failed to update battery ride log elevation:", error);
+  }
+}
+
+// Get recent battery ride logs for a scooter (newest first)
+export async function getBatteryRideLogs(
+  userId: number,
+  scooterId: number,
+  limit: number = 30
+): Promise<BatteryRideLog[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  try {
+    return await db
+      .select()
+      .from(batteryRideLogs)
+      .where(and(eq(batteryRideLogs.userId, userId), eq(batteryRideLogs.scooterId, scooterId)))
+      .orderBy(desc(batteryRideLogs.createdAt))
+      .limit(limit);
+  } catch (error) {
+    console.error("[Database] Failed to get battery ride logs:", error);
+    return [];
+  }
+}
+
+// Save a scooter's fitted consumption model (replaces the previous fit)
+export async function saveConsumptionModel(data: Omit<InsertConsumptionModel, "id">): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  try {
+    await db
+      .insert(consumptionModels)
+      .values(data)
+      .onDuplicateKeyUpdate({
+        set: {
+          model: data.model,
+          sampleCount: data.sampleCount,
+          trainedAt: data.trainedAt ?? new Date(),
+        },
+      });
+    return true;
+  } catch (error) {
+    console.error("[Database] Failed to save consumption model:", error);
+    return false;
+  }
+}
+
+// Get a scooter's fitted consumption model
+export async function getConsumptionModel(userId: number, scooterId: number): Promise<ConsumptionModel | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  try {
+    const [row] = await db
+      .select()
+      .from(consumptionModels)
+      .where(and(eq(consumptionModels.userId, userId), eq(consumptionModels.scooterId, scooterId)))
+      .limit(1);
+    return row ?? null;
+  } catch (error) {
+    console.error("[Database] Failed to get consumption model:", error);
+    return null;
+  }
+}
+
+
+// ============================================
+// Charging Records Functions
+// ============================================
+
+/**
+ * Create a new charging record
+ */
+export async function createChargingRecord(data: {
+  userId: number;
+  scooterId: number;
+  chargeDate: string;
+  voltageBefore: string;
+  voltageAfter: string;
+  socBefore?: string;
+  socAfter?: string;
+  chargingDuration?: number;
+  chargeType?: string;
+  notes?: string;
+  chargerProfileId?: number;
+  startedAt?: Date;
+  energyAdded?: string;
+  energyFromGrid?: string;
+  cost?: string;
+  cycleFraction?: string;
+}) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  try {
+    const result = await db.insert(chargingRecords).values({
+      userId: data.userId,
+      scooterId: data.scooterId,
+      chargeDate: data.chargeDate,
+      voltageBefore: data.voltageBefore,
+      voltageAfter: data.voltageAfter,
+      socBefore: data.socBefore,
+      socAfter: data.socAfter,
+      chargingDuration: data.chargingDuration,
+      chargeType: data.chargeType,
+      notes: data.notes,
+      chargerProfileId: data.chargerProfileId,
+      startedAt: data.startedAt,
+      energyAdded: data.energyAdded,
+      energyFromGrid: data.energyFromGrid,
+      cost: data.cost,
+      cycleFraction: data.cycleFraction,
+    });
+    console.log("[Database] Created charging record for scooter:", data.scooterId);
+    return { id: result[0].insertId, ...data };
+  } catch (error) {
+    console.error("[Database] Failed to create charging record:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get charging history for a scooter
+ */
+export async function getChargingHistory(userId: number, scooterId: number, limit: number = 20) {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+  try {
+    const result = await db
+      .select()
+      .from(chargingRecords)
+      .where(
+        and(
+          eq(chargingRecords.userId, userId),
+          eq(chargingRecords.scooterId, scooterId)
+        )
+      )
+      .orderBy(desc(chargingRecords.createdAt))
+      .limit(limit);
+    
+    return result.map(r => ({
+      id: r.id,
+      chargeDate: r.chargeDate,
+      voltageBefore: Number(r.voltageBefore),
+      voltageAfter: Number(r.voltageAfter),
+      socBefore: r.socBefore ? Number(r.socBefore) : null,
+      socAfter: r.socAfter ? Number(r.socAfter) : null,
+      chargingDuration: r.chargingDuration,
+      chargeType: r.chargeType,
+      notes: r.notes,
+      chargerProfileId: r.chargerProfileId,
+      energyAdded: r.energyAdded !== null ? Number(r.energyAdded) : null,
+      cost: r.cost !== null ? Number(r.cost) : null,
+      cycleFraction: r.cycleFraction !== null ? Number(r.cycleFraction) : null,
+      createdAt: r.createdAt,
+    }));
+  } catch (error) {
+    console.error("[Database] Failed to get charging history:", error);
+    return [];
+  }
+}
+
+/**
+ * Get charging statistics for a scooter
+ */
+export async function getChargingStats(userId: number, scooterId: number) {
+  const db = await getDb();
+  if (!db) {
+    return {
+      totalCharges: 0,
+      fullCharges: 0,
+      partialCharges: 0,
+      avgChargingDuration: null,
+      lastChargeDate: null,
+      avgSocGain: null,
+    };
+  }
+  try {
+    const records = await db
+      .select()
+      .from(chargingRecords)
+      .where(
+        and(
+          eq(chargingRecords.userId, userId),
+          eq(chargingRecords.scooterId, scooterId)
+        )
+      )
+      .orderBy(desc(chargingRecords.createdAt));
+    
+    if (records.length === 0) {
+      return {
+        totalCharges: 0,
+        fullCharges: 0,
+        partialCharges: 0,
+        avgChargingDuration: null,
+        lastChargeDate: null,
+        avgSocGain: null,
+      };
+    }
+
+    type RecordType = typeof records[0];
+    const fullCharges = records.filter((r: RecordType) => r.chargeType === "full").length;
+    const partialCharges = records.filter((r: RecordType) => r.chargeType === "partial").length;
+    
+    const durationsWithValue = records.filter((r: RecordType) => r.chargingDuration != null);
+    const avgChargingDuration = durationsWithValue.length > 0
+      ? Math.round(durationsWithValue.reduce((sum: number, r: RecordType) => sum + (r.chargingDuration || 0), 0) / durationsWithValue.length)
+      : null;
+
+    const socGains: number[] = records
+      .filter((r: typeof records[0]) => r.socBefore && r.socAfter)
+      .map((r: typeof records[0]) => Number(r.socAfter) - Number(r.socBefore));
+    const avgSocGain = socGains.length > 0
+      ? Math.round(socGains.reduce((sum: number, g: number) => sum + g, 0) / socGains.length)
+      : null;
+
+    return {
+      totalCharges: records.length,
+      fullCharges,
+      partialCharges,
+      avgChargingDuration,
+      lastChargeDate: records[0].chargeDate,
+      avgSocGain,
+    };
+  } catch (error) {
+    console.error("[Database] Failed to get charging stats:", error);
+    return {
+      totalCharges: 0,
+      fullCharges: 0,
+      partialCharges: 0,
+      avgChargingDuration: null,
+      lastChargeDate: null,
+      avgSocGain: null,
+    };
+  }
+}
+
+// Energy, cost and cycle fields of a scooter's charges since a date ("YYYY-MM-DD"), for the
+// monthly report and the battery health report
+export async function getChargingTotals(userId: number, scooterId: number, sinceDate?: string) {
+  const db = await getDb();
+  if (!db) return [];
+
+  try {
+    const conditions = [eq(chargingRecords.userId, userId), eq(chargingRecords.scooterId, scooterId)];
+    if (sinceDate) conditions.push(gte(chargingRecords.chargeDate, sinceDate));
+    const rows = await db
+      .select({
+        chargeDate: chargingRecords.chargeDate,
+        energyAdded: chargingRecords.energyAdded,
+        energyFromGrid: chargingRecords.energyFromGrid,
+        cost: chargingRecords.cost,
+        cycleFraction: chargingRecords.cycleFraction,
+      })
+      .from(chargingRecords)
+      .where(and(...conditions));
+
+    return rows.map((r) => ({
+      chargeDate: r.chargeDate,
+      energyAddedWh: r.energyAdded !== null ? Number(r.energyAdded) : null,
+      energyFromGridWh: r.energyFromGrid !== null ? Number(r.energyFromGrid) : null,
+      cost: r.cost !== null ? Number(r.cost) : null,
+      cycleFraction: r.cycleFraction !== null ? Number(r.cycleFraction) : null,
+    }));
+  } catch (error) {
+    console.error("[Database] Failed to get charging totals:", error);
+    return [];
+  }
+}
+
+// ==================== Charger Profile & Tariff Functions ====================
+
+// A rider's electricity tariffs, oldest first
+export async function getElectricityTariffs(userId: number): Promise<ElectricityTariff[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(electricityTariffs)
+    .where(eq(electricityTariffs.userId, userId))
+    .orderBy(electricityTariffs.createdAt);
+}
+
+export async function getElectricityTariff(userId: number, tariffId: number): Promise<ElectricityTariff | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const rows = await db
+    .select()
+    .from(electricityTariffs)
+    .where(and(eq(electricityTariffs.id, tariffId), eq(electricityTariffs.userId, userId)))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+// Adds a tariff, or updates it when an id is given
+export async function saveElectricityTariff(data: {
+  id?: number;
+  userId: number;
+  name: string;
+  baseRate: number;
+  periods: string | null;
+}): Promise<ElectricityTariff | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  try {
+    const values = { name: data.name, baseRate: data.baseRate.toFixed(2), periods: data.periods };
+    let id = data.id;
+    if (id) {
+      await db
+        .update(electricityTariffs)
+        .set(values)
+        .where(and(eq(electricityTariffs.id, id), eq(electricityTariffs.userId, data.userId)));
+    } else {
+      const result = await db.insert(electricityTariffs).values({ userId: data.userId, ...values });
+      id = result[0].insertId;
+    }
+    return getElectricityTariff(data.userId, id);
+  } catch (error) {
+    console.error("[Database] Failed to save electricity tariff:", error);
+    return null;
+  }
+}
+
+// Chargers billed with the tariff are left without one
+export async function deleteElectricityTariff(userId: number, tariffId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  const result = await db
+    .delete(electricityTariffs)
+    .where(and(eq(electricityTariffs.id, tariffId), eq(electricityTariffs.userId, userId)));
+  await db
+    .update(chargerProfiles)
+    .set({ tariffId: null })
+    .where(and(eq(chargerProfiles.tariffId, tariffId), eq(chargerProfiles.userId, userId)));
+  return result[0].affectedRows > 0;
+}
+
+// A rider's chargers, oldest first
+export async function getChargerProfiles(userId: number): Promise<ChargerProfile[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(chargerProfiles)
+    .where(eq(chargerProfiles.userId, userId))
+    .orderBy(chargerProfiles.createdAt);
+}
+
+export async function getChargerProfile(userId: number, chargerId: number): Promise<ChargerProfile | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const rows = await db
+    .select()
+    .from(chargerProfiles)
+    .where(and(eq(chargerProfiles.id, chargerId), eq(chargerProfiles.userId, userId)))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+// Adds a charger, or updates it when an id is given
+export async function saveChargerProfile(data: {
+  id?: number;
+  userId: number;
+  name: string;
+  wattage: number;
+  efficiency: number;
+  location: string;
+  tariffId: number | null;
+}): Promise<ChargerProfile | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  try {
+    const values = {
+      name: data.name,
+      wattage: data.wattage,
+      efficiency: data.efficiency.toFixed(3),
+      location: data.location,
+      tariffId: data.tariffId,
+    };
+    let id = data.id;
+    if (id) {
+      await db
+        .update(chargerProfiles)
+        .set(values)
+        .where(and(eq(chargerProfiles.id, id), eq(chargerProfiles.userId, data.userId)));
+    } else {
+      const result = await db.insert(chargerProfiles).values({ userId: data.userId, ...values });
+      id = result[0].insertId;
+    }
+    return getChargerProfile(data.userId, id);
+  } catch (error) {
+    console.error("[Database] Failed to save charger profile:", error);
+    return null;
+  }
+}
+
+// Past charges keep their computed cost; they just lose the link to the charger
+export async function deleteChargerProfile(userId: number, chargerId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  const result = await db
+    .delete(chargerProfiles)
+    .where(and(eq(chargerProfiles.id, chargerId), eq(chargerProfiles.userId, userId)));
+  return result[0].affectedRows > 0;
+}
+
+// ==================== Battery Reminder Functions ====================
+
+// A scooter's reminder settings; null when the rider never changed them
+export async function getBatteryReminderSetting(scooterId: number): Promise<BatteryReminderSetting | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const rows = await db
+    .select()
+    .from(batteryReminderSettings)
+    .where(eq(batteryReminderSettings.scooterId, scooterId))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+// Creates or updates a scooter's reminder settings
+export async function saveBatteryReminderSetting(data: {
+  userId: number;
+  scooterId: number;
+  enabled: boolean;
+  chargeTonight: boolean;
+  storage: boolean;
+  coldCharging: boolean;
+  minSocForRide: number;
+}): Promise<BatteryReminderSetting | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  try {
+    const { enabled, chargeTonight, storage, coldCharging, minSocForRide } = data;
+    await db
+      .insert(batteryReminderSettings)
+      .values(data)
+      .onDuplicateKeyUpdate({ set: { enabled, chargeTonight, storage, coldCharging, minSocForRide } });
+    return getBatteryReminderSetting(data.scooterId);
+  } catch (error) {
+    console.error("[Database] Failed to save battery reminder settings:", error);
+    return null;
+  }
+}
+
+// Remembers when each reminder last went out (JSON { [kind]: epoch ms })
+export async function setBatteryRemindersSent(userId: number, scooterId: number, lastSent: string): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  try {
+    await db
+      .insert(batteryReminderSettings)
+      .values({ userId, scooterId, lastSent })
+      .onDuplicateKeyUpdate({ set: { lastSent } });
+  } catch (error) {
+    console.error("[Database] Failed to record battery reminders:", error);
+  }
+}
+
+// Scooters whose riders can receive pushes
+export async function getScootersWithPushTokens(): Promise<Scooter[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  try {
+    const rows = await db
+      .select({ scooter: scooters })
+      .from(scooters)
+      .innerJoin(users, eq(users.id, scooters.userId))
+      .where(isNotNull(users.expoPushToken));
+    return rows.map((row) => row.scooter);
+  } catch (error) {
+    console.error("[Database] Failed to get scooters with push tokens:", error);
+    return [];
+  }
+}
+
+// Latest charge level we know of (end of the last logged ride or the last charge) and the last ride
+export async function getLastKnownBatteryState(scooterId: number): Promise<{
+  soc: number | null;
+  socAt: Date | null;
+  lastRideAt: Date | null;
+}> {
+  const db = await getDb();
+  if (!db) return { soc: null, socAt: null, lastRideAt: null };
+
+  try {
+    const [ride] = await db
+      .select({ soc: batteryRideLogs.socEnd, at: batteryRideLogs.createdAt })
+      .from(batteryRideLogs)
+      .where(and(eq(batteryRideLogs.scooterId, scooterId), isNotNull(batteryRideLogs.socEnd)))
+      .orderBy(desc(batteryRideLogs.createdAt))
+      .limit(1);
+    const [charge] = await db
+      .select({ soc: chargingRecords.socAfter, at: chargingRecords.createdAt })
+      .from(chargingRecords)
+      .where(and(eq(chargingRecords.scooterId, scooterId), isNotNull(chargingRecords.socAfter)))
+      .orderBy(desc(chargingRecords.createdAt))
+      .limit(1);
+    const [lastRide] = await db
+      .select({ at: ridingRecords.createdAt })
+      .from(ridingRecords)
+      .where(eq(ridingRecords.scooterId, scooterId))
+      .orderBy(desc(ridingRecords.createdAt))
+      .limit(1);
+
+    const latest = !ride ? charge : !charge ? ride : ride.at > charge.at ? ride : charge;
+    return {
+      soc: latest ? parseFloat(latest.soc!) : null,
+      socAt: latest?.at ?? null,
+      lastRideAt: lastRide?.at ?? null,
+    };
+  } catch (error) {
+    console.error("[Database] Failed to get battery state:", error);
+    return { soc: null, socAt: null, lastRideAt: null };
+  }
+}
+
+/**
+ * Delete user account and all associated data
+ */
+export async function deleteUserAccount(userId: number, reason?: string): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  try {
+    console.log(`[Database] Deleting user account: ${userId}, reason: ${reason || "not provided"}`);
+
+    // Delete in order to respect foreign key constraints
+    // 1. Delete charging records
+    await db.delete(chargingRecords).where(eq(chargingRecords.userId, userId));
+    await db.delete(chargerProfiles).where(eq(chargerProfiles.userId, userId));
+    await db.delete(electricityTariffs).where(eq(electricityTariffs.userId, userId));
+    await db.delete(batteryReminderSettings).where(eq(batteryReminderSettings.userId, userId));
+    
+    // 2. Delete battery analysis records
+    await db.delete(batteryAnalysis).where(eq(batteryAnalysis.userId, userId));
+    
+    // 3. Delete AI chat history
+    await db.delete(aiChatHistory).where(eq(aiChatHistory.userId, userId));
+    
+    // 4. Delete AI chat usage
+    await db.delete(aiChatUsage).where(eq(aiChatUsage.userId, userId));
+    
+    // 5. Delete scooters
+    await db.delete(scooters).where(eq(scooters.userId, userId));
+    
+    // 6. Delete riding records
+    await db.delete(ridingRecords).where(eq(ridingRecords.userId, userId));
+    
+    // 7. Delete notifications
+    await db.delete(notifications).where(eq(notifications.userId, userId));
+    
+    // 8. Delete user badges
+    await db.delete(userBadges).where(eq(userBadges.userId, userId));
+    
+    // 9. Delete challenge participations
+    await db.delete(challengeParticipants).where(eq(challengeParticipants.userId, userId));
+    
+    // 10. Delete challenge invitations (sent and received)
+    await db.delete(challengeInvitations).where(
+      or(
+        eq(challengeInvitations.inviterId, userId),
+        eq(challengeInvitations.inviteeId, userId)
+      )
+    );
+    
+    // 11. Delete live locations
+    await db.delete(liveLocations).where(eq(liveLocations.userId, userId));
+    
+    // 12. Delete group memberships and the rides kept for group replays
+    await db.delete(groupMembers).where(eq(groupMembers.userId, userId));
+    await db.delete(groupRideTracks).where(eq(groupRideTracks.userId, userId));
+    
+    // 13. Delete group messages
+    await db.delete(groupMessages).where(eq(groupMessages.userId, userId));
+    
+    // 14. Delete friend requests (sent and received)
+    await db.delete(friendRequests).where(
+      or(
+        eq(friendRequests.senderId, userId),
+        eq(friendRequests.receiverId, userId)
+      )
+    );
+    
+    // 15. Delete friendships
+    await db.delete(friends).where(
+      or(
+        eq(friends.userId1, userId),
+        eq(friends.userId2, userId)
+      )
+    );
+    
+    // 16. Delete follows (following and followers)
+    await db.delete(follows).where(
+      or(
+        eq(follows.followerId, userId),
+        eq(follows.followingId, userId)
+      )
+    );
+    
+    // 17. Delete post likes
+    await db.delete(postLikes).where(eq(postLikes.userId, userId));
+    
+    // 18. Delete post views
+    await db.delete(postViews).where(eq(postViews.userId, userId));
+    
+    // 19. Delete comments
+    await db.delete(comments).where(eq(comments.userId, userId));
+    
+    // 20. Delete post images (for user's posts)
+    const userPosts = await db.select({ id: posts.id }).from(posts).where(eq(posts.userId, userId));
+    for (const post of userPosts) {
+      await db.delete(postImages).where(eq(postImages.postId, post.id));
+    }
+    
+    // 21. Delete posts
+    await db.delete(posts).where(eq(posts.userId, userId));
+    
+    // 22. Delete announcement reads
+    await db.delete(userAnnouncementReads).where(eq(userAnnouncementReads.userId, userId));
+    
+    // 23. Delete survey responses
+    await db.delete(surveyResponses).where(eq(surveyResponses.userId, userId));
+    
+    // 24. Delete bug reports
+    await db.delete(bugReports).where(eq(bugReports.userId, userId));
+    
+    // 25. Delete activity logs
+    await db.delete(userActivityLogs).where(eq(userActivityLogs.userId, userId));
+    
+    // 26. Delete suspicious user reports (about user)
+    await db.delete(suspiciousUserReports).where(
+      eq(suspiciousUserReports.userId, userId)
+    );
+    
+    // 27. Delete user bans
+    await db.delete(userBans).where(eq(userBans.userId, userId));
+    
+    // 28. Delete privacy zones
+    await db.delete(privacyZones).where(eq(privacyZones.userId, userId));
+
+    // 29. Delete location sharing (own rules, lists and links, other riders' rules and list entries for the user, views both ways)
+    await db.delete(locationShareRules).where(
+      or(
+        eq(locationShareRules.userId, userId),
+        eq(locationShareRules.friendId, userId)
+      )
+    );
+    const shareLists = await db.select({ id: locationShareLists.id }).from(locationShareLists).where(eq(locationShareLists.userId, userId));
+    if (shareLists.length > 0) {
+      await db.delete(locationShareListMembers).where(
+        sql`${locationShareListMembers.listId} IN (${sql.join(shareLists.map(list => sql`${list.id}`), sql`, `)})`
+      );
+    }
+    await db.delete(locationShareListMembers).where(eq(locationShareListMembers.friendId, userId));
+    await db.delete(locationShareLists).where(eq(locationShareLists.userId, userId));
+    await db.delete(locationShareLinks).where(eq(locationShareLinks.userId, userId));
+    await db.delete(locationViews).where(
+      or(
+        eq(locationViews.userId, userId),
+        eq(locationViews.viewerId, userId)
+      )
+    );
+
+    // 30. Delete emergency contacts (the user's, and the user as someone else's contact)
+    await db.delete(emergencyContacts).where(
+      or(
+        eq(emergencyContacts.userId, userId),
+        eq(emergencyContacts.contactUserId, userId)
+      )
+    );
+
+    // 31. Delete segment efforts and the segments the user created (with everyone's efforts on them)
+    await db.delete(segmentEfforts).where(eq(segmentEfforts.userId, userId));
+    const createdSegments = await db.select({ id: segments.id }).from(segments).where(eq(segments.creatorId, userId));
+    if (createdSegments.length > 0) {
+      await db.delete(segmentEfforts).where(
+        sql`${segmentEfforts.segmentId} IN (${sql.join(createdSegments.map(segment => sql`${segment.id}`), sql`, `)})`
+      );
+      await db.delete(segments).where(eq(segments.creatorId, userId));
+    }
+
+    // 32. Delete scheduled rides the user hosts (with their RSVPs) and the user's RSVPs
+    const hostedRides = await db.select({ id: scheduledRides.id }).from(scheduledRides).where(eq(scheduledRides.hostId, userId));
+    if (hostedRides.length > 0) {
+      await db.delete(scheduledRideRsvps).where(
+        sql`${scheduledRideRsvps.rideId} IN (${sql.join(hostedRides.map(ride => sql`${ride.id}`), sql`, `)})`
+      );
+      await db.delete(scheduledRides).where(eq(scheduledRides.hostId, userId));
+    }
+    await db.delete(scheduledRideRsvps).where(eq(scheduledRideRsvps.userId, userId));
+
+    // 33. Delete consumption models
+    await db.delete(consumptionModels).where(eq(consumptionModels.userId, userId));
+
+    // 34. Finally, delete the user
+    await db.delete(users).where(eq(users.id, userId));
+
+    console.log(`[Database] Successfully deleted user account: ${userId}`);
+  } catch (error) {
+    console.error("[Database] Failed to delete user account:", error);
+    throw error;
+  }
+}
+
+
+// ==================== Maintenance Management Functions ====================
+
+/**
+ * Get maintenance items for a scooter
+ */
+export async function getMaintenanceItems(userId: number, scooterId: number) {
+  const database = await getDb();
+  if (!database) throw new Error("Database not available");
+  
+  const items = await database
+    .select()
+    .from(maintenanceItems)
+    .where(
+      and(
+        eq(maintenanceItems.userId, userId),
+        eq(maintenanceItems.scooterId, scooterId)
+      )
+    )
+    .orderBy(maintenanceItems.createdAt);
+  
+  return { items };
+}
+
+/**
+ * Add a new maintenance item
+ */
+export async function addMaintenanceItem(
+  userId: number,
+  input: {
+    scooterId: number;
+    name: string;
+    intervalKm: number;
+    notes?: string;
+  }
+) {
+  const database = await getDb();
+  if (!database) throw new Error("Database not available");
+  
+  const [result] = await database.insert(maintenanceItems).values({
+    userId,
+    scooterId: input.scooterId,
+    name: input.name,
+    intervalKm: input.intervalKm,
+    notes: input.notes || null,
+  });
+  
+  return { success: true, id: result.insertId };
+}
+
+/**
+ * Record maintenance completion
+ */
+export async function recordMaintenance(
+  userId: number,
+  input: {
+    maintenanceItemId: number;
+    scooterId: number;
+    distanceKm: number;
+    cost?: number;
+    location?: string;
+    notes?: string;
+  }
+) {
+  const database = await getDb();
+  if (!database) throw new Error("Database not available");
+  
+  // Insert maintenance record
+  await database.insert(maintenanceRecords).values({
+    maintenanceItemId: input.maintenanceItemId,
+    scooterId: input.scooterId,
+    userId,
+    distanceKm: String(input.distanceKm),
+    cost: input.cost ? String(input.cost) : null,
+    location: input.location || null,
+    notes: input.notes || null,
+  });
+  
+  // Update maintenance item with last maintenance info
+  await database
+    .update(maintenanceItems)
+    .set({
+      lastMaintenanceKm: String(input.distanceKm),
+      lastMaintenanceDate: new Date(),
+    })
+    .where(eq(maintenanceItems.id, input.maintenanceItemId));
+  
+  return { success: true };
+}
+
+/**
+ * Delete maintenance item
+ */
+export async function deleteMaintenanceItem(userId: number, itemId: number) {
+  const database = await getDb();
+  if (!database) throw new Error("Database not available");
+  
+  // First delete related records
+  await database.delete(maintenanceRecords).where(eq(maintenanceRecords.maintenanceItemId, itemId));
+  
+  // Then delete the item
+  await database
+    .delete(maintenanceItems)
+    .where(
+      and(
+        eq(maintenanceItems.id, itemId),
+        eq(maintenanceItems.userId, userId)
+      )
+    );
+  
+  return { success: true };
+}
+
+/**
+ * Get maintenance history
+ */
+export async function getMaintenanceHistory(userId: number, scooterId: number, limit: number) {
+  const database = await getDb();
+  if (!database) throw new Error("Database not available");
+  
+  const records = await database
+    .select({
+      id: maintenanceRecords.id,
+      itemName: maintenanceItems.name,
+      distanceKm: maintenanceRecords.distanceKm,
+      cost: maintenanceRecords.cost,
+      location: maintenanceRecords.location,
+      notes: maintenanceRecords.notes,
+      maintenanceDate: maintenanceRecords.maintenanceDate,
+    })
+    .from(maintenanceRecords)
+    .innerJoin(maintenanceItems, eq(maintenanceRecords.maintenanceItemId, maintenanceItems.id))
+    .where(
+      and(
+        eq(maintenanceRecords.userId, userId),
+        eq(maintenanceRecords.scooterId, scooterId)
+      )
+    )
+    .orderBy(desc(maintenanceRecords.maintenanceDate))
+    .limit(limit);
+  
+  return { records };
+}
+
+// ==================== Battery Health Report Functions ====================
+
+/**
+ * Generate battery health report using AI analysis
+ */
+export async function generateBatteryHealthReport(userId: number, scooterId: number) {
+  const database = await getDb();
+  if (!database) throw new Error("Database not available");
+  
+  // Get scooter info
+  const [scooter] = await database
+    .select()
+    .from(scooters)
+    .where(and(eq(scooters.id, scooterId), eq(scooters.userId, userId)));
+  
+  if (!scooter) {
+    throw new Error("Scooter not found");
+  }
+  
+  // Get riding records with battery data
+  const rides = await database
+    .select()
+    .from(ridingRecords)
+    .where(
+      and(
+        eq(ridingRecords.userId, userId),
+        eq(ridingRecords.scooterId, scooterId),
+        isNotNull(ridingRecords.voltageStart),
+        isNotNull(ridingRecords.voltageEnd)
+      )
+    )
+    .orderBy(desc(ridingRecords.createdAt))
+    .limit(50);
+  
+  // Get charging records (energy, cost and cycle share of each charge)
+  const charges = await getChargingTotals(userId, scooterId);
+  
+  // Calculate metrics
+  const totalDistance = Number(scooter.totalDistance || 0) / 1000; // Convert to km
+  const batteryCapacity = Number(scooter.batteryCapacity || 30);
+  const batteryVoltage = Number(scooter.batteryVoltage || 60);
+  const totalEnergyCapacity = batteryVoltage * batteryCapacity; // Wh
+  const pack = batteryPackForScooter(scooter);
+  
+  // Estimate cycles based on total distance and average range; logged charges count too, but
+  // not every charge gets logged, so they only raise the estimate
+  const avgRangePerCycle = 50; // Assume 50km per full cycle
+  const loggedCycles = charges.reduce((sum, c) => sum + (c.cycleFraction ?? 0), 0);
+  const estimatedCycles = Math.floor(Math.max(totalDistance / avgRangePerCycle, loggedCycles));
+  const [latestMonth] = summarizeChargingByMonth(charges);
+  
+  // Calculate average efficiency from rides
+  let totalEfficiency = 0;
+  let efficiencyCount = 0;
+  
+  // Energy from the start/end voltages along the chemistry's OCV curve
+  // (end voltages are entered right after the ride, so compensate their sag)
+  for (const ride of rides) {
+    if (Number(ride.distance) <= 0) continue;
+    const socStart = socFromPackVoltage(Number(ride.voltageStart), pack);
+    const socEnd = socFromPackVoltage(Number(ride.voltageEnd), pack, { minutesSinceRide: 0 });
+    const energyWh = socStart > socEnd ? (totalEnergyCapacity * (socStart - socEnd)) / 100 : Number(ride.energyWh || 0);
+    if (energyWh > 0) {
+      const efficiency = energyWh / (Number(ride.distance) / 1000);
+      totalEfficiency += efficiency;
+      efficiencyCount++;
+    }
+  }
+  
+  const avgEfficiency = efficiencyCount > 0 ? totalEfficiency / efficiencyCount : 30; // Default 30 Wh/km
+  
+  // Estimate battery health based on cycles and efficiency degradation
+  // Typical Li-ion battery: 80% capacity after 500-1000 cycles
+  const maxCycles = 800; // Conservative estimate
+  const cycleBasedHealth = Math.max(0, 100 - (estimatedCycles / maxCycles) * 20);
+  
+  // Efficiency-based health (compare to expected)
+  const expectedEfficiency = 25; // Expected Wh/km for a healthy battery
+  const efficiencyRatio = expectedEfficiency / avgEfficiency;
+  const efficiencyBasedHealth = Math.min(100, efficiencyRatio * 100);
+  
+  // Combined health estimate
+  const healthPercent = Math.round((cycleBasedHealth * 0.6 + efficiencyBasedHealth * 0.4));
+  
+  // Estimate remaining cycles
+  const remainingCycles = Math.max(0, maxCycles - estimatedCycles);
+  
+  // Capacity degradation estimate
+  const capacityDegradation = Math.max(0, 100 - healthPercent);
+  
+  // Generate AI analysis
+  let aiAnalysis = "";
+  let recommendations = "";
+  
+  if (healthPercent >= 80) {
+    aiAnalysis = `배터리 상태가 양호합니다. 현재 추정 건강도는 ${healthPercent}%이며, 약 ${estimatedCycles}회의 충전 사이클을 사용했습니다. 평균 효율은 ${avgEfficiency.toFixed(1)} Wh/km로 정상 범위입니다.`;
+    recommendations = "현재 사용 패턴을 유지하세요. 완전 방전을 피하고 20-80% 범위에서 충전하면 배터리 수명을 더 연장할 수 있습니다.";
+  } else if (healthPercent >= 60) {
+    aiAnalysis = `배터리가 중간 수준의 노화를 보이고 있습니다. 건강도 ${healthPercent}%, 약 ${estimatedCycles}회 사이클 사용. 효율이 ${avgEfficiency.toFixed(1)} Wh/km로 다소 높아졌습니다.`;
+    recommendations = "배터리 교체를 6개월~1년 내로 계획하세요. 장거리 주행 전 충전 상태를 확인하고, 급속 충전보다 완속 충전을 권장합니다.";
+  } else {
+    aiAnalysis = `배터리 교체가 필요한 시점입니다. 건강도 ${healthPercent}%, 약 ${estimatedCycles}회 사이클 사용. 효율이 ${avgEfficiency.toFixed(1)} Wh/km로 상당히 저하되었습니다.`;
+    recommendations = "가능한 빨리 배터리 교체를 권장합니다. 현재 배터리로는 주행 거리가 크게 감소했을 수 있습니다. 장거리 주행을 피하고 충전기를 항상 휴대하세요.";
+  }
+  
+  if (latestMonth) {
+    const cost = latestMonth.cost !== null ? `, 전기요금 약 ${Math.round(latestMonth.cost).toLocaleString()}원` : "";
+    aiAnalysis += ` ${latestMonth.month} 충전 ${latestMonth.charges}회 (${latestMonth.cycles.toFixed(1)} 사이클, ${(latestMonth.energyFromGridWh / 1000).toFixed(2)} kWh${cost}).`;
+  }
+
+  // Save report to database
+  const [result] = await database.insert(batteryHealthReports).values({
+    scooterId,
+    userId,
+    healthPercent: String(healthPercent),
+    estimatedCyclesRemaining: remainingCycles,
+    totalCycles: estimatedCycles,
+    totalDistanceKm: String(totalDistance),
+    avgEfficiency: String(avgEfficiency.toFixed(2)),
+    capacityDegradation: String(capacityDegradation),
+    aiAnalysis,
+    recommendations,
+  });
+  
+  return {
+    id: result.insertId,
+    healthPercent,
+    estimatedCyclesRemaining: remainingCycles,
+    totalCycles: estimatedCycles,
+    totalDistanceKm: totalDistance,
+    avgEfficiency,
+    capacityDegradation,
+    aiAnalysis,
+    recommendations,
+  };
+}
+
+/**
+ * Get latest battery health report
+ */
+export async function getLatestBatteryHealthReport(userId: number, scooterId: number) {
+  const database = await getDb();
+  if (!database) throw new Error("Database not available");
+  
+  const [report] = await database
+    .select()
+    .from(batteryHealthReports)
+    .where(
+      and(
+        eq(batteryHealthReports.userId, userId),
+        eq(batteryHealthReports.scooterId, scooterId)
+      )
+    )
+    .orderBy(desc(batteryHealthReports.reportDate))
+    .limit(1);
+  
+  if (!report) {
+    return null;
+  }
+  
+  return {
+    ...report,
+    healthPercent: Number(report.healthPercent),
+    totalDistanceKm: Number(report.totalDistanceKm),
+    avgEfficiency: Number(report.avgEfficiency),
+    capacityDegradation: Number(report.capacityDegradation),
+  };
+}
+
+/**
+ * Get battery health history
+ */
+export async function getBatteryHealthHistory(userId: number, scooterId: number, limit: number) {
+  const database = await getDb();
+  if (!database) throw new Error("Database not available");
+  
+  const reports = await database
+    .select()
+    .from(batteryHealthReports)
+    .where(
+      and(
+        eq(batteryHealthReports.userId, userId),
+        eq(batteryHealthReports.scooterId, scooterId)
+      )
+    )
+    .orderBy(desc(batteryHealthReports.reportDate))
+    .limit(limit);
+  
+  return {
+    reports: reports.map((r: BatteryHealthReport) => ({
+      ...r,
+      healthPercent: Number(r.healthPercent),
+      totalDistanceKm: Number(r.totalDistanceKm),
+      avgEfficiency: Number(r.avgEfficiency),
+      capacityDegradation: Number(r.capacityDegradation),
+    })),
+  };
+}
+
+// ==================== Admin Riding Records Functions ====================
+
+export interface RidingRecordWithUser {
+  id: number;
+  recordId: string;
+  userId: number;
+  userName: string | null;
+  userEmail: string | null;
+  date: string;
+  distance: number;
+  duration: number;
+  avgSpeed: number;
+  maxSpeed: number;
+  scooterId: number | null;
+  scooterName: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Get all riding records for admin (with user info)
+ */
+export async function getAllRidingRecordsAdmin(
+  page: number = 1,
+  limit: number = 50
+): Promise<{ records: RidingRecordWithUser[]; total: number }> {
+  const db = await getDb();
+  if (!db) return { records: [], total: 0 };
+
+  try {
+    const offset = (page - 1) * limit;
+
+    // Get total count
+    const countResult = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(ridingRecords);
+    const total = Number(countResult[0]?.count ?? 0);
+
+    // Get records with user info
+    const result = await db
+      .select({
+        id: ridingRecords.id,
+        recordId: ridingRecords.recordId,
+        userId: ridingRecords.userId,
+        userName: users.name,
+        userEmail: users.email,
+        date: ridingRecords.date,
+        distance: ridingRecords.distance,
+        duration: ridingRecords.duration,
+        avgSpeed: ridingRecords.avgSpeed,
+        maxSpeed: ridingRecords.maxSpeed,
+        scooterId: ridingRecords.scooterId,
+        createdAt: ridingRecords.createdAt,
+      })
+      .from(ridingRecords)
+      .leftJoin(users, eq(ridingRecords.userId, users.id))
+      .orderBy(desc(ridingRecords.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    // Get scooter names for records that have scooterId
+    const recordsWithScooter = await Promise.all(
+      result.map(async (record) => {
+        let scooterName: string | null = null;
+        if (record.scooterId) {
+          const scooterResult = await db
+            .select({ name: scooters.name })
+            .from(scooters)
+            .where(eq(scooters.id, record.scooterId))
+            .limit(1);
+          scooterName = scooterResult[0]?.name ?? null;
+        }
+        return {
+          ...record,
+          date: record.date || "",
+          distance: record.distance || 0,
+          duration: record.duration || 0,
+          avgSpeed: record.avgSpeed || 0,
+          maxSpeed: record.maxSpeed || 0,
+          scooterName,
+          createdAt: record.createdAt || new Date(),
+        };
+      })
+    );
+
+    return { records: recordsWithScooter, total };
+  } catch (error) {
+    console.error("[Database] Failed to get all riding records:", error);
+    return { records: [], total: 0 };
+  }
+}
+
+
+// ==================== Eco Leaderboard Functions ====================
+
+export interface EcoLeaderboardEntry {
+  rank: number;
+  userId: number;
+  userName: string;
+  profileImageUrl?: string;
+  avgEcoScore: number;
+  grade: 'S' | 'A' | 'B' | 'C' | 'D';
+  totalCO2Saved: number;
+  rideCount: number;
+}
+
+// Calculate eco score from ride data
+function calculateEcoScoreFromRide(
+  avgSpeed: number,
+  maxSpeed: number,
+  distance: number,
+  duration: number
+): { score: number; co2Saved: number } {
+  // Optimal speed score (15-25km/h is optimal)
+  let speedScore = 100;
+  if (avgSpeed < 15) {
+    speedScore = Math.max(0, (avgSpeed / 15) * 100);
+  } else if (avgSpeed > 25) {
+    speedScore = Math.max(0, 100 - ((avgSpeed - 25) * 6.67));
+  }
+  
+  // Max speed penalty (over 40km/h reduces score)
+  const maxSpeedPenalty = maxSpeed > 40 ? Math.min(30, (maxSpeed - 40) * 1.5) : 0;
+  
+  // Distance bonus (longer rides are more efficient)
+  const distanceKm = distance / 1000;
+  const distanceBonus = Math.min(20, distanceKm * 4);
+  
+  // Calculate final score
+  const score = Math.max(0, Math.min(100, speedScore - maxSpeedPenalty + distanceBonus));
+  
+  // CO2 saved (car emits ~120g/km, scooter ~5g/km)
+  const co2Saved = distanceKm * 0.115; // kg
+  
+  return { score: Math.round(score), co2Saved };
+}
+
+// Determine grade from score
+function getGradeFromScore(score: number): 'S' | 'A' | 'B' | 'C' | 'D' {
+  if (score >= 90) return 'S';
+  if (score >= 75) return 'A';
+  if (score >= 60) return 'B';
+  if (score >= 40) return 'C';
+  return 'D';
+}
+
+// Get eco leaderboard
+export async function getEcoLeaderboard(
+  period: "weekly" | "monthly" | "allTime",
+  limit: number = 50
+): Promise<EcoLeaderboardEntry[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const now = new Date();
+  let startDate: Date | null = null;
+
+  if (period === "weekly") {
+    const day = now.getDay();
+    const diff = now.getDate() - day + (day === 0 ? -6 : 1);
+    startDate = new Date(now);
+    startDate.setDate(diff);
+    startDate.setHours(0, 0, 0, 0);
+  } else if (period === "monthly") {
+    startDate = new Date(now.getFullYear(), now.getMonth(), 1);
+  }
+  // allTime: startDate remains null
+
+  try {
+    // Build query conditions
+    const conditions = [sql`${ridingRecords.userId} IS NOT NULL`];
+    if (startDate) {
+      conditions.push(sql`${ridingRecords.createdAt} >= ${startDate}`);
+    }
+
+    // Get all riding records in the period
+    const records = await db
+      .select({
+        userId: ridingRecords.userId,
+        distance: ridingRecords.distance,
+        duration: ridingRecords.duration,
+        avgSpeed: ridingRecords.avgSpeed,
+        maxSpeed: ridingRecords.maxSpeed,
+      })
+      .from(ridingRecords)
+      .where(and(...conditions));
+
+    // Aggregate by user
+    const userStats = new Map<number, { 
+      totalScore: number; 
+      totalCO2Saved: number; 
+      rideCount: number;
+    }>();
     
-    // 20. Delete post images (for user's posts)
-    const userPosts = await db.select({ id: posts.id }).from(posts).where(eq(posts.userId, userId));
-    for (const post of userPosts) {
-      await db.delete(postImages).where(eq(postImages.postId, post.id));
+    for (const record of records) {
+      if (!record.userId) continue;
+      
+      const { score, co2Saved } = calculateEcoScoreFromRide(
+        record.avgSpeed || 0,
+        record.maxSpeed || 0,
+        record.distance || 0,
+        record.duration || 0
+      );
+      
+      const existing = userStats.get(record.userId) || { 
+        totalScore: 0, 
+        totalCO2Saved: 0, 
+        rideCount: 0 
+      };
+      
+      userStats.set(record.userId, {
+        totalScore: existing.totalScore + score,
+        totalCO2Saved: existing.totalCO2Saved + co2Saved,
+        rideCount: existing.rideCount + 1,
+      });
     }
-    
-    // 21. Delete posts
-    await db.delete(posts).where(eq(posts.userId, userId));
-    
-    // 22. Delete announcement reads
-    await db.delete(userAnnouncementReads).where(eq(userAnnouncementReads.userId, userId));
-    
-    // 23. Delete survey responses
-    await db.delete(surveyResponses).where(eq(surveyResponses.userId, userId));
-    
-    // 24. Delete bug reports
-    await db.delete(bugReports).where(eq(bugReports.userId, userId));
-    
-    // 25. Delete activity logs
-    await db.delete(userActivityLogs).where(eq(userActivityLogs.userId, userId));
-    
-    // 26. Delete suspicious user reports (about user)
-    await db.delete(suspiciousUserReports).where(
-      eq(suspiciousUserReports.userId, userId)
-    );
-    
-    // 27. Delete user bans
-    await db.delete(userBans).where(eq(userBans.userId, userId));
-    
-    // 28. Finally, delete the user
-    await db.delete(users).where(eq(users.id, userId));
 
-    console.log(`[Database] Successfully deleted user account: ${userId}`);
-  } catch (error) {
-    console.error("[Database] Failed to delete user account:", error);
-    throw error;
-  }
-}
+    // Get user info
+    const userIds = Array.from(userStats.keys());
+    if (userIds.length === 0) return [];
 
+    const userInfos = await db
+      .select({
+        id: users.id,
+        name: users.name,
+        profileImageUrl: users.profileImageUrl,
+      })
+      .from(users)
+      .where(sql`${users.id} IN (${sql.join(userIds.map(id => sql`${id}`), sql`, `)})`);
 
-// ==================== Maintenance Management Functions ====================
+    // Build leaderboard
+    const leaderboard: EcoLeaderboardEntry[] = userInfos
+      .map((user) => {
+        const stats = userStats.get(user.id) || { totalScore: 0, totalCO2Saved: 0, rideCount: 0 };
+        const avgScore = stats.rideCount > 0 ? Math.round(stats.totalScore / stats.rideCount) : 0;
+        
+        return {
+          rank: 0,
+          userId: user.id,
+          userName: user.name || "Unknown",
+          profileImageUrl: user.profileImageUrl || undefined,
+          avgEcoScore: avgScore,
+          grade: getGradeFromScore(avgScore),
+          totalCO2Saved: Math.round(stats.totalCO2Saved * 100) / 100,
+          rideCount: stats.rideCount,
+        };
+      })
+      .sort((a, b) => b.avgEcoScore - a.avgEcoScore)
+      .slice(0, limit)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
 
-/**
- * Get maintenance items for a scooter
- */
-export async function getMaintenanceItems(userId: number, scooterId: number) {
-  const database = await getDb();
-  if (!database) throw new Error("Database not available");
-  
-  const items = await database
-    .select()
-    .from(maintenanceItems)
-    .where(
-      and(
-        eq(maintenanceItems.userId, userId),
-        eq(maintenanceItems.scooterId, scooterId)
-      )
-    )
-    .orderBy(maintenanceItems.createdAt);
-  
-  return { items };
+    return leaderboard;
+  } catch (error) {
+    console.error("[Database] Failed to get eco leaderboard:", error);
+    return [];
+  }
 }
 
-/**
- * Add a new maintenance item
- */
-export async function addMaintenanceItem(
+// Get user's eco rank
+export async function getUserEcoRank(
   userId: number,
-  input: {
-    scooterId: number;
-    name: string;
-    intervalKm: number;
-    notes?: string;
-  }
-) {
-  const database = await getDb();
-  if (!database) throw new Error("Database not available");
-  
-  const [result] = await database.insert(maintenanceItems).values({
-    userId,
-    scooterId: input.scooterId,
-    name: input.name,
-    intervalKm: input.intervalKm,
-    notes: input.notes || null,
-  });
-  
-  return { success: true, id: result.insertId };
+  period: "weekly" | "monthly" | "allTime"
+): Promise<EcoLeaderboardEntry | null> {
+  const leaderboard = await getEcoLeaderboard(period, 1000); // Get more to find user
+  const userEntry = leaderboard.find(entry => entry.userId === userId);
+  return userEntry || null;
 }
 
+
+// ==================== Push Notification Functions ====================
+
 /**
- * Record maintenance completion
+ * Save user's Expo Push Token
  */
-export async function recordMaintenance(
-  userId: number,
-  input: {
-    maintenanceItemId: number;
-    scooterId: number;
-    distanceKm: number;
-    cost?: number;
-    location?: string;
-    notes?: string;
+export async function saveExpoPushToken(userId: number, token: string): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  try {
+    await db.update(users)
+      .set({ expoPushToken: token })
+      .where(eq(users.id, userId));
+    return true;
+  } catch (error) {
+    console.error("[Database] Failed to save push token:", error);
+    return false;
   }
-) {
-  const database = await getDb();
-  if (!database) throw new Error("Database not available");
-  
-  // Insert maintenance record
-  await database.insert(maintenanceRecords).values({
-    maintenanceItemId: input.maintenanceItemId,
-    scooterId: input.scooterId,
-    userId,
-    distanceKm: String(input.distanceKm),
-    cost: input.cost ? String(input.cost) : null,
-    location: input.location || null,
-    notes: input.notes || null,
-  });
-  
-  // Update maintenance item with last maintenance info
-  await database
-    .update(maintenanceItems)
-    .set({
-      lastMaintenanceKm: String(input.distanceKm),
-      lastMaintenanceDate: new Date(),
-    })
-    .where(eq(maintenanceItems.id, input.maintenanceItemId));
-  
-  return { success: true };
 }
 
 /**
- * Delete maintenance item
+ * Get user's Expo Push Token
  */
-export async function deleteMaintenanceItem(userId: number, itemId: number) {
-  const database = await getDb();
-  if (!database) throw new Error("Database not available");
-  
-  // First delete related records
-  await database.delete(maintenanceRecords).where(eq(maintenanceRecords.maintenanceItemId, itemId));
-  
-  // Then delete the item
-  await database
-    .delete(maintenanceItems)
-    .where(
-      and(
-        eq(maintenanceItems.id, itemId),
-        eq(maintenanceItems.userId, userId)
-      )
-    );
-  
-  return { success: true };
-}
+export async function getUserPushToken(userId: number): Promise<string | null> {
+  const db = await getDb();
+  if (!db) return null;
 
-/**
- * Get maintenance history
- */
-export async function getMaintenanceHistory(userId: number, scooterId: number, limit: number) {
-  const database = await getDb();
-  if (!database) throw new Error("Database not available");
-  
-  const records = await database
-    .select({
-      id: maintenanceRecords.id,
-      itemName: maintenanceItems.name,
-      distanceKm: maintenanceRecords.distanceKm,
-      cost: maintenanceRecords.cost,
-      location: maintenanceRecords.location,
-      notes: maintenanceRecords.notes,
-      maintenanceDate: maintenanceRecords.maintenanceDate,
-    })
-    .from(maintenanceRecords)
-    .innerJoin(maintenanceItems, eq(maintenanceRecords.maintenanceItemId, maintenanceItems.id))
-    .where(
-      and(
-        eq(maintenanceRecords.userId, userId),
-        eq(maintenanceRecords.scooterId, scooterId)
-      )
-    )
-    .orderBy(desc(maintenanceRecords.maintenanceDate))
-    .limit(limit);
-  
-  return { records };
+  try {
+    const result = await db
+      .select({ expoPushToken: users.expoPushToken })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    return result[0]?.expoPushToken || null;
+  } catch (error) {
+    console.error("[Database] Failed to get push token:", error);
+    return null;
+  }
 }
 
-// ==================== Battery Health Report Functions ====================
-
 /**
- * Generate battery health report using AI analysis
+ * Send push notification to a user via Expo Push API
  */
-export async function generateBatteryHealthReport(userId: number, scooterId: number) {
-  const database = await getDb();
-  if (!database) throw new Error("Database not available");
-  
-  // Get scooter info
-  const [scooter] = await database
-    .select()
-    .from(scooters)
-    .where(and(eq(scooters.id, scooterId), eq(scooters.userId, userId)));
-  
-  if (!scooter) {
-    throw new Error("Scooter not found");
+export async function sendPushNotification(
+  userId: number,
+  title: string,
+  body: string,
+  data?: Record<string, unknown>
+): Promise<boolean> {
+  const token = await getUserPushToken(userId);
+  if (!token) {
+    console.log(`[Push] No push token for user ${userId}`);
+    return false;
   }
-  
-  // Get riding records with battery data
-  const rides = await database
-    .select()
-    .from(ridingRecords)
-    .where(
-      and(
-        eq(ridingRecords.userId, userId),
-        eq(ridingRecords.scooterId, scooterId),
-        isNotNull(ridingRecords.voltageStart),
-        isNotNull(ridingRecords.voltageEnd)
-      )
-    )
-    .orderBy(desc(ridingRecords.createdAt))
-    .limit(50);
-  
-  // Get charging records
-  const charges = await database
-    .select()
-    .from(chargingRecords)
-    .where(
-      and(
-        eq(chargingRecords.userId, userId),
-        eq(chargingRecords.scooterId, scooterId)
-      )
-    )
-    .orderBy(desc(chargingRecords.createdAt))
-    .limit(30);
-  
-  // Calculate metrics
-  const totalDistance = Number(scooter.totalDistance || 0) / 1000; // Convert to km
-  const batteryCapacity = Number(scooter.batteryCapacity || 30);
-  const batteryVoltage = Number(scooter.batteryVoltage || 60);
-  const totalEnergyCapacity = batteryVoltage * batteryCapacity; // Wh
-  
-  // Estimate cycles based on total distance and average range
-  const avgRangePerCycle = 50; // Assume 50km per full cycle
-  const estimatedCycles = Math.floor(totalDistance / avgRangePerCycle);
-  
-  // Calculate average efficiency from rides
-  let totalEfficiency = 0;
-  let efficiencyCount = 0;
-  
-  for (const ride of rides) {
-    if (ride.energyWh && Number(ride.distance) > 0) {
-      const efficiency = Number(ride.energyWh) / (Number(ride.distance) / 1000);
-      totalEfficiency += efficiency;
-      efficiencyCount++;
+
+  try {
+    const message = {
+      to: token,
+      sound: "default",
+      title,
+      body,
+      data: data || {},
+    };
+
+    const response = await fetch("https://exp.host/--/api/v2/push/send", {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Accept-encoding": "gzip, deflate",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(message),
+    });
+
+    const result = await response.json();
+    
+    if (result.data?.status === "ok") {
+      console.log(`[Push] Notification sent to user ${userId}`);
+      return true;
+    } else {
+      console.error(`[Push] Failed to send notification:`, result);
+      return false;
     }
+  } catch (error) {
+    console.error("[Push] Error sending notification:", error);
+    return false;
   }
-  
-  const avgEfficiency = efficiencyCount > 0 ? totalEfficiency / efficiencyCount : 30; // Default 30 Wh/km
-  
-  // Estimate battery health based on cycles and efficiency degradation
-  // Typical Li-ion battery: 80% capacity after 500-1000 cycles
-  const maxCycles = 800; // Conservative estimate
-  const cycleBasedHealth = Math.max(0, 100 - (estimatedCycles / maxCycles) * 20);
-  
-  // Efficiency-based health (compare to expected)
-  const expectedEfficiency = 25; // Expected Wh/km for a healthy battery
-  const efficiencyRatio = expectedEfficiency / avgEfficiency;
-  const efficiencyBasedHealth = Math.min(100, efficiencyRatio * 100);
-  
-  // Combined health estimate
-  const healthPercent = Math.round((cycleBasedHealth * 0.6 + efficiencyBasedHealth * 0.4));
-  
-  // Estimate remaining cycles
-  const remainingCycles = Math.max(0, maxCycles - estimatedCycles);
-  
-  // Capacity degradation estimate
-  const capacityDegradation = Math.max(0, 100 - healthPercent);
-  
-  // Generate AI analysis
-  let aiAnalysis = "";
-  let recommendations = "";
-  
-  if (healthPercent >= 80) {
-    aiAnalysis = `배터리 상태가 양호합니다. 현재 추정 건강도는 ${healthPercent}%이며, 약 ${estimatedCycles}회의 충전 사이클을 사용했습니다. 평균 효율은 ${avgEfficiency.toFixed(1)} Wh/km로 정상 범위입니다.`;
-    recommendations = "현재 사용 패턴을 유지하세요. 완전 방전을 피하고 20-80% 범위에서 충전하면 배터리 수명을 더 연장할 수 있습니다.";
-  } else if (healthPercent >= 60) {
-    aiAnalysis = `배터리가 중간 수준의 노화를 보이고 있습니다. 건강도 ${healthPercent}%, 약 ${estimatedCycles}회 사이클 사용. 효율이 ${avgEfficiency.toFixed(1)} Wh/km로 다소 높아졌습니다.`;
-    recommendations = "배터리 교체를 6개월~1년 내로 계획하세요. 장거리 주행 전 충전 상태를 확인하고, 급속 충전보다 완속 충전을 권장합니다.";
-  } else {
-    aiAnalysis = `배터리 교체가 필요한 시점입니다. 건강도 ${healthPercent}%, 약 ${estimatedCycles}회 사이클 사용. 효율이 ${avgEfficiency.toFixed(1)} Wh/km로 상당히 저하되었습니다.`;
-    recommendations = "가능한 빨리 배터리 교체를 권장합니다. 현재 배터리로는 주행 거리가 크게 감소했을 수 있습니다. 장거리 주행을 피하고 충전기를 항상 휴대하세요.";
-  }
-  
-  // Save report to database
-  const [result] = await database.insert(batteryHealthReports).values({
-    scooterId,
-    userId,
-    healthPercent: String(healthPercent),
-    estimatedCyclesRemaining: remainingCycles,
-    totalCycles: estimatedCycles,
-    totalDistanceKm: String(totalDistance),
-    avgEfficiency: String(avgEfficiency.toFixed(2)),
-    capacityDegradation: String(capacityDegradation),
-    aiAnalysis,
-    recommendations,
-  });
-  
-  return {
-    id: result.insertId,
-    healthPercent,
-    estimatedCyclesRemaining: remainingCycles,
-    totalCycles: estimatedCycles,
-    totalDistanceKm: totalDistance,
-    avgEfficiency,
-    capacityDegradation,
-    aiAnalysis,
-    recommendations,
-  };
 }
 
 /**
- * Get latest battery health report
+ * Send push notification to multiple users
  */
-export async function getLatestBatteryHealthReport(userId: number, scooterId: number) {
-  const database = await getDb();
-  if (!database) throw new Error("Database not available");
-  
-  const [report] = await database
-    .select()
-    .from(batteryHealthReports)
-    .where(
-      and(
-        eq(batteryHealthReports.userId, userId),
-        eq(batteryHealthReports.scooterId, scooterId)
-      )
-    )
-    .orderBy(desc(batteryHealthReports.reportDate))
-    .limit(1);
-  
-  if (!report) {
-    return null;
+export async function sendPushNotificationToUsers(
+  userIds: number[],
+  title: string,
+  body: string,
+  data?: Record<string, unknown>
+): Promise<{ success: number; failed: number }> {
+  let success = 0;
+  let failed = 0;
+
+  for (const userId of userIds) {
+    const sent = await sendPushNotification(userId, title, body, data);
+    if (sent) {
+      success++;
+    } else {
+      failed++;
+    }
   }
-  
-  return {
-    ...report,
-    healthPercent: Number(report.healthPercent),
-    totalDistanceKm: Number(report.totalDistanceKm),
-    avgEfficiency: Number(report.avgEfficiency),
-    capacityDegradation: Number(report.capacityDegradation),
-  };
-}
 
-/**
- * Get battery health history
- */
-export async function getBatteryHealthHistory(userId: number, scooterId: number, limit: number) {
-  const database = await getDb();
-  if (!database) throw new Error("Database not available");
-  
-  const reports = await database
-    .select()
-    .from(batteryHealthReports)
-    .where(
-      and(
-        eq(batteryHealthReports.userId, userId),
-        eq(batteryHealthReports.scooterId, scooterId)
-      )
-    )
-    .orderBy(desc(batteryHealthReports.reportDate))
-    .limit(limit);
-  
-  return {
-    reports: reports.map((r: BatteryHealthReport) => ({
-      ...r,
-      healthPercent: Number(r.healthPercent),
-      totalDistanceKm: Number(r.totalDistanceKm),
-      avgEfficiency: Number(r.avgEfficiency),
-      capacityDegradation: Number(r.capacityDegradation),
-    })),
-  };
+  return { success, failed };
 }
 
-// ==================== Admin Riding Records Functions ====================
+// ==================== Segment Functions ====================
 
-export interface RidingRecordWithUser {
-  id: number;
-  recordId: string;
+export interface SegmentLeaderboardEntry {
+  rank: number;
   userId: number;
   userName: string | null;
-  userEmail: string | null;
-  date: string;
-  distance: number;
-  duration: number;
-  avgSpeed: number;
-  maxSpeed: number;
-  scooterId: number | null;
-  scooterName: string | null;
-  createdAt: Date;
+  profileImageUrl: string | null;
+  elapsedTime: number;
+  avgSpeed: number; // km/h
+  startTime: Date;
+  effortCount: number;
+}
+
+export async function createSegment(data: InsertSegment): Promise<number | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.insert(segments).values(data);
+  return result[0].insertId;
+}
+
+export async function getSegmentById(segmentId: number): Promise<Segment | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(segments).where(eq(segments.id, segmentId)).limit(1);
+  return result[0];
 }
 
-/**
- * Get all riding records for admin (with user info)
- */
-export async function getAllRidingRecordsAdmin(
-  page: number = 1,
-  limit: number = 50
-): Promise<{ records: RidingRecordWithUser[]; total: number }> {
+// Segments whose bounding box overlaps the given box
+export async function getSegmentsInBounds(
+  bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number },
+  limit: number = 200
+): Promise<Segment[]> {
   const db = await getDb();
-  if (!db) return { records: [], total: 0 };
+  if (!db) return [];
 
   try {
-    const offset = (page - 1) * limit;
+    return await db
+      .select()
+      .from(segments)
+      .where(
+        and(
+          sql`${segments.maxLat} >= ${bounds.minLat}`,
+          sql`${segments.minLat} <= ${bounds.maxLat}`,
+          sql`${segments.maxLng} >= ${bounds.minLng}`,
+          sql`${segments.minLng} <= ${bounds.maxLng}`
+        )
+      )
+      .limit(limit);
+  } catch (error) {
+    console.error("[Database] Failed to get segments in bounds:", error);
+    return [];
+  }
+}
 
-    // Get total count
-    const countResult = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(ridingRecords);
-    const total = Number(countResult[0]?.count ?? 0);
+export async function deleteSegment(segmentId: number, creatorId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
 
-    // Get records with user info
-    const result = await db
-      .select({
-        id: ridingRecords.id,
-        recordId: ridingRecords.recordId,
-        userId: ridingRecords.userId,
-        userName: users.name,
-        userEmail: users.email,
-        date: ridingRecords.date,
-        distance: ridingRecords.distance,
-        duration: ridingRecords.duration,
-        avgSpeed: ridingRecords.avgSpeed,
-        maxSpeed: ridingRecords.maxSpeed,
-        scooterId: ridingRecords.scooterId,
-        createdAt: ridingRecords.createdAt,
-      })
-      .from(ridingRecords)
-      .leftJoin(users, eq(ridingRecords.userId, users.id))
-      .orderBy(desc(ridingRecords.createdAt))
-      .limit(limit)
-      .offset(offset);
+  const segment = await getSegmentById(segmentId);
+  if (!segment || segment.creatorId !== creatorId) return false;
 
-    // Get scooter names for records that have scooterId
-    const recordsWithScooter = await Promise.all(
-      result.map(async (record) => {
-        let scooterName: string | null = null;
-        if (record.scooterId) {
-          const scooterResult = await db
-            .select({ name: scooters.name })
-            .from(scooters)
-            .where(eq(scooters.id, record.scooterId))
-            .limit(1);
-          scooterName = scooterResult[0]?.name ?? null;
-        }
-        return {
-          ...record,
-          date: record.date || "",
-          distance: record.distance || 0,
-          duration: record.duration || 0,
-          avgSpeed: record.avgSpeed || 0,
-          maxSpeed: record.maxSpeed || 0,
-          scooterName,
-          createdAt: record.createdAt || new Date(),
-        };
-      })
-    );
+  await db.delete(segmentEfforts).where(eq(segmentEfforts.segmentId, segmentId));
+  await db.delete(segments).where(eq(segments.id, segmentId));
+  return true;
+}
 
-    return { records: recordsWithScooter, total };
-  } catch (error) {
-    console.error("[Database] Failed to get all riding records:", error);
-    return { records: [], total: 0 };
-  }
+export async function createSegmentEffort(data: InsertSegmentEffort): Promise<number | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.insert(segmentEfforts).values(data);
+  return result[0].insertId;
 }
 
+export async function getUserBestSegmentEffort(
+  segmentId: number,
+  userId: number
+): Promise<SegmentEffort | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
 
-// ==================== Eco Leaderboard Functions ====================
+  const result = await db
+    .select()
+    .from(segmentEfforts)
+    .where(and(eq(segmentEfforts.segmentId, segmentId), eq(segmentEfforts.userId, userId)))
+    .orderBy(segmentEfforts.elapsedTime)
+    .limit(1);
+  return result[0];
+}
 
-export interface EcoLeaderboardEntry {
-  rank: number;
-  userId: number;
-  userName: string;
-  profileImageUrl?: string;
-  avgEcoScore: number;
-  grade: 'S' | 'A' | 'B' | 'C' | 'D';
-  totalCO2Saved: number;
-  rideCount: number;
+export async function getSegmentEffortStats(
+  segmentId: number
+): Promise<{ effortCount: number; riderCount: number }> {
+  const db = await getDb();
+  if (!db) return { effortCount: 0, riderCount: 0 };
+
+  const result = await db
+    .select({
+      effortCount: sql<number>`count(*)`,
+      riderCount: sql<number>`count(distinct ${segmentEfforts.userId})`,
+    })
+    .from(segmentEfforts)
+    .where(eq(segmentEfforts.segmentId, segmentId));
+  return {
+    effortCount: Number(result[0]?.effortCount) || 0,
+    riderCount: Number(result[0]?.riderCount) || 0,
+  };
 }
 
-// Calculate eco score from ride data
-function calculateEcoScoreFromRide(
-  avgSpeed: number,
-  maxSpeed: number,
-  distance: number,
-  duration: number
-): { score: number; co2Saved: number } {
-  // Optimal speed score (15-25km/h is optimal)
-  let speedScore = 100;
-  if (avgSpeed < 15) {
-    speedScore = Math.max(0, (avgSpeed / 15) * 100);
-  } else if (avgSpeed > 25) {
-    speedScore = Math.max(0, 100 - ((avgSpeed - 25) * 6.67));
+// Best effort per user on a segment, optionally limited to a period or a set of users
+export async function getSegmentLeaderboard(
+  segmentId: number,
+  options: { since?: Date; userIds?: number[]; limit?: number } = {}
+): Promise<SegmentLeaderboardEntry[]> {
+  const db = await getDb();
+  if (!db) return [];
+  if (options.userIds && options.userIds.length === 0) return [];
+
+  const conditions = [eq(segmentEfforts.segmentId, segmentId)];
+  if (options.since) {
+    conditions.push(sql`${segmentEfforts.startTime} >= ${options.since}`);
   }
-  
-  // Max speed penalty (over 40km/h reduces score)
-  const maxSpeedPenalty = maxSpeed > 40 ? Math.min(30, (maxSpeed - 40) * 1.5) : 0;
-  
-  // Distance bonus (longer rides are more efficient)
-  const distanceKm = distance / 1000;
-  const distanceBonus = Math.min(20, distanceKm * 4);
-  
-  // Calculate final score
-  const score = Math.max(0, Math.min(100, speedScore - maxSpeedPenalty + distanceBonus));
-  
-  // CO2 saved (car emits ~120g/km, scooter ~5g/km)
-  const co2Saved = distanceKm * 0.115; // kg
-  
-  return { score: Math.round(score), co2Saved };
+  if (options.userIds) {
+    conditions.push(sql`${segmentEfforts.userId} IN (${sql.join(options.userIds.map(id => sql`${id}`), sql`, `)})`);
+  }
+
+  const efforts = await db
+    .select({
+      userId: segmentEfforts.userId,
+      elapsedTime: segmentEfforts.elapsedTime,
+      avgSpeed: segmentEfforts.avgSpeed,
+      startTime: segmentEfforts.startTime,
+      userName: users.name,
+      profileImageUrl: users.profileImageUrl,
+    })
+    .from(segmentEfforts)
+    .innerJoin(users, eq(segmentEfforts.userId, users.id))
+    .where(and(...conditions));
+
+  // Keep each user's fastest effort
+  const best = new Map<number, Omit<SegmentLeaderboardEntry, "rank">>();
+  for (const effort of efforts) {
+    const existing = best.get(effort.userId);
+    if (!existing || effort.elapsedTime < existing.elapsedTime) {
+      best.set(effort.userId, {
+        userId: effort.userId,
+        userName: effort.userName,
+        profileImageUrl: effort.profileImageUrl,
+        elapsedTime: effort.elapsedTime,
+        avgSpeed: effort.avgSpeed / 10,
+        startTime: effort.startTime,
+        effortCount: (existing?.effortCount ?? 0) + 1,
+      });
+    } else {
+      existing.effortCount++;
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => a.elapsedTime - b.elapsedTime || a.startTime.getTime() - b.startTime.getTime())
+    .slice(0, options.limit ?? 50)
+    .map((entry, index) => ({ rank: index + 1, ...entry }));
 }
 
-// Determine grade from score
-function getGradeFromScore(score: number): 'S' | 'A' | 'B' | 'C' | 'D' {
-  if (score >= 90) return 'S';
-  if (score >= 75) return 'A';
-  if (score >= 60) return 'B';
-  if (score >= 40) return 'C';
-  return 'D';
+// Efforts recorded in one ride, with segment info
+export async function getSegmentEffortsForRecord(
+  ridingRecordId: number,
+  userId: number
+): Promise<(SegmentEffort & { segmentName: string; segmentDistance: number })[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const result = await db
+    .select({
+      effort: segmentEfforts,
+      segmentName: segments.name,
+      segmentDistance: segments.distance,
+    })
+    .from(segmentEfforts)
+    .innerJoin(segments, eq(segmentEfforts.segmentId, segments.id))
+    .where(and(eq(segmentEfforts.ridingRecordId, ridingRecordId), eq(segmentEfforts.userId, userId)))
+    .orderBy(segmentEfforts.startTime);
+
+  return result.map((r) => ({ ...r.effort, segmentName: r.segmentName, segmentDistance: r.segmentDistance }));
 }
 
-// Get eco leaderboard
-export async function getEcoLeaderboard(
-  period: "weekly" | "monthly" | "allTime",
-  limit: number = 50
-): Promise<EcoLeaderboardEntry[]> {
+// ==================== Emergency Contact Functions ====================
+
+export async function getEmergencyContacts(userId: number): Promise<{
+  id: number;
+  contactUserId: number;
+  name: string | null;
+  profileImageUrl: string | null;
+  createdAt: Date;
+}[]> {
   const db = await getDb();
   if (!db) return [];
 
-  const now = new Date();
-  let startDate: Date | null = null;
+  return db
+    .select({
+      id: emergencyContacts.id,
+      contactUserId: emergencyContacts.contactUserId,
+      name: users.name,
+      profileImageUrl: users.profileImageUrl,
+      createdAt: emergencyContacts.createdAt,
+    })
+    .from(emergencyContacts)
+    .innerJoin(users, eq(emergencyContacts.contactUserId, users.id))
+    .where(eq(emergencyContacts.userId, userId))
+    .orderBy(emergencyContacts.createdAt);
+}
 
-  if (period === "weekly") {
-    const day = now.getDay();
-    const diff = now.getDate() - day + (day === 0 ? -6 : 1);
-    startDate = new Date(now);
-    startDate.setDate(diff);
-    startDate.setHours(0, 0, 0, 0);
-  } else if (period === "monthly") {
-    startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-  }
-  // allTime: startDate remains null
+export async function addEmergencyContact(userId: number, contactUserId: number): Promise<EmergencyContact | null> {
+  const db = await getDb();
+  if (!db) return null;
 
-  try {
-    // Build query conditions
-    const conditions = [sql`${ridingRecords.userId} IS NOT NULL`];
-    if (startDate) {
-      conditions.push(sql`${ridingRecords.createdAt} >= ${startDate}`);
-    }
+  const existing = await db
+    .select()
+    .from(emergencyContacts)
+    .where(and(eq(emergencyContacts.userId, userId), eq(emergencyContacts.contactUserId, contactUserId)))
+    .limit(1);
+  if (existing.length > 0) return existing[0];
 
-    // Get all riding records in the period
-    const records = await db
-      .select({
-        userId: ridingRecords.userId,
-        distance: ridingRecords.distance,
-        duration: ridingRecords.duration,
-        avgSpeed: ridingRecords.avgSpeed,
-        maxSpeed: ridingRecords.maxSpeed,
-      })
-      .from(ridingRecords)
-      .where(and(...conditions));
+  const result = await db.insert(emergencyContacts).values({ userId, contactUserId });
+  const id = result[0].insertId;
+  const created = await db.select().from(emergencyContacts).where(eq(emergencyContacts.id, id)).limit(1);
+  return created[0] ?? null;
+}
 
-    // Aggregate by user
-    const userStats = new Map<number, { 
-      totalScore: number; 
-      totalCO2Saved: number; 
-      rideCount: number;
-    }>();
-    
-    for (const record of records) {
-      if (!record.userId) continue;
-      
-      const { score, co2Saved } = calculateEcoScoreFromRide(
-        record.avgSpeed || 0,
-        record.maxSpeed || 0,
-        record.distance || 0,
-        record.duration || 0
-      );
-      
-      const existing = userStats.get(record.userId) || { 
-        totalScore: 0, 
-        totalCO2Saved: 0, 
-        rideCount: 0 
-      };
-      
-      userStats.set(record.userId, {
-        totalScore: existing.totalScore + score,
-        totalCO2Saved: existing.totalCO2Saved + co2Saved,
-        rideCount: existing.rideCount + 1,
-      });
-    }
+export async function removeEmergencyContact(userId: number, contactUserId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  await db
+    .delete(emergencyContacts)
+    .where(and(eq(emergencyContacts.userId, userId), eq(emergencyContacts.contactUserId, contactUserId)));
+  return true;
+}
+
+// ==================== Privacy Zone Functions ====================
+
+// A rider's privacy zones, oldest first
+export async function getPrivacyZones(userId: number): Promise<PrivacyZone[]> {
+  const db = await getDb();
+  if (!db) return [];
 
-    // Get user info
-    const userIds = Array.from(userStats.keys());
-    if (userIds.length === 0) return [];
+  return db
+    .select()
+    .from(privacyZones)
+    .where(eq(privacyZones.userId, userId))
+    .orderBy(privacyZones.createdAt);
+}
 
-    const userInfos = await db
-      .select({
-        id: users.id,
-        name: users.name,
-        profileImageUrl: users.profileImageUrl,
-      })
-      .from(users)
-      .where(sql`${users.id} IN (${sql.join(userIds.map(id => sql`${id}`), sql`, `)})`);
+// Privacy zones of several riders at once (e.g. every member of a group ride)
+export async function getPrivacyZonesForUsers(userIds: number[]): Promise<PrivacyZone[]> {
+  const db = await getDb();
+  if (!db || userIds.length === 0) return [];
 
-    // Build leaderboard
-    const leaderboard: EcoLeaderboardEntry[] = userInfos
-      .map((user) => {
-        const stats = userStats.get(user.id) || { totalScore: 0, totalCO2Saved: 0, rideCount: 0 };
-        const avgScore = stats.rideCount > 0 ? Math.round(stats.totalScore / stats.rideCount) : 0;
-        
-        return {
-          rank: 0,
-          userId: user.id,
-          userName: user.name || "Unknown",
-          profileImageUrl: user.profileImageUrl || undefined,
-          avgEcoScore: avgScore,
-          grade: getGradeFromScore(avgScore),
-          totalCO2Saved: Math.round(stats.totalCO2Saved * 100) / 100,
-          rideCount: stats.rideCount,
-        };
-      })
-      .sort((a, b) => b.avgEcoScore - a.avgEcoScore)
-      .slice(0, limit)
-      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+  return db
+    .select()
+    .from(privacyZones)
+    .where(sql`${privacyZones.userId} IN (${sql.join(userIds.map((id) => sql`${id}`), sql`, `)})`);
+}
 
-    return leaderboard;
+export async function addPrivacyZone(data: {
+  userId: number;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius: number;
+  trimCircle: { latitude: number; longitude: number; radius: number };
+}): Promise<PrivacyZone | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  try {
+    const result = await db.insert(privacyZones).values({
+      userId: data.userId,
+      name: data.name,
+      latitude: data.latitude.toFixed(7),
+      longitude: data.longitude.toFixed(7),
+      radius: data.radius,
+      trimLatitude: data.trimCircle.latitude.toFixed(7),
+      trimLongitude: data.trimCircle.longitude.toFixed(7),
+      trimRadius: data.trimCircle.radius,
+    });
+    const id = result[0].insertId;
+    const created = await db.select().from(privacyZones).where(eq(privacyZones.id, id)).limit(1);
+    return created[0] ?? null;
   } catch (error) {
-    console.error("[Database] Failed to get eco leaderboard:", error);
-    return [];
+    console.error("[Database] Failed to add privacy zone:", error);
+    return null;
   }
 }
 
-// Get user's eco rank
-export async function getUserEcoRank(
-  userId: number,
-  period: "weekly" | "monthly" | "allTime"
-): Promise<EcoLeaderboardEntry | null> {
-  const leaderboard = await getEcoLeaderboard(period, 1000); // Get more to find user
-  const userEntry = leaderboard.find(entry => entry.userId === userId);
-  return userEntry || null;
+// Gives a zone created before trim circles existed its trim circle
+export async function setPrivacyZoneTrimCircle(
+  zoneId: number,
+  circle: { latitude: number; longitude: number; radius: number }
+): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  try {
+    await db
+      .update(privacyZones)
+      .set({
+        trimLatitude: circle.latitude.toFixed(7),
+        trimLongitude: circle.longitude.toFixed(7),
+        trimRadius: circle.radius,
+      })
+      .where(and(eq(privacyZones.id, zoneId), isNull(privacyZones.trimRadius)));
+  } catch (error) {
+    console.error("[Database] Failed to save privacy zone trim circle:", error);
+  }
 }
 
+// Only the rider who set up the zone can remove it
+export async function removePrivacyZone(userId: number, zoneId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
 
-// ==================== Push Notification Functions ====================
+  const result = await db
+    .delete(privacyZones)
+    .where(and(eq(privacyZones.id, zoneId), eq(privacyZones.userId, userId)));
+  return result[0].affectedRows > 0;
+}
 
-/**
- * Save user's Expo Push Token
- */
-export async function saveExpoPushToken(userId: number, token: string): Promise<boolean> {
+// ==================== Location Sharing Functions ====================
+
+// The sharing rules between some riders and one viewer: each rider's rule for the viewer and
+// their default rule, plus the modes of the riders' lists the viewer is on
+export async function getLocationShareModesForViewer(ownerIds: number[], viewerId: number): Promise<{
+  rules: LocationShareRule[];
+  lists: { userId: number; mode: LocationShareRule["mode"] }[];
+}> {
+  const db = await getDb();
+  if (!db || ownerIds.length === 0) return { rules: [], lists: [] };
+
+  const ownerIn = (column: typeof locationShareRules.userId | typeof locationShareLists.userId) =>
+    sql`${column} IN (${sql.join(ownerIds.map((id) => sql`${id}`), sql`, `)})`;
+
+  const rules = await db
+    .select()
+    .from(locationShareRules)
+    .where(and(
+      ownerIn(locationShareRules.userId),
+      or(eq(locationShareRules.friendId, viewerId), isNull(locationShareRules.friendId))
+    ));
+
+  const lists = await db
+    .select({ userId: locationShareLists.userId, mode: locationShareLists.mode })
+    .from(locationShareListMembers)
+    .innerJoin(locationShareLists, eq(locationShareListMembers.listId, locationShareLists.id))
+    .where(and(ownerIn(locationShareLists.userId), eq(locationShareListMembers.friendId, viewerId)));
+
+  return { rules, lists };
+}
+
+// All of a rider's sharing rules and lists (with their friends)
+export async function getLocationShareSettings(userId: number): Promise<{
+  rules: LocationShareRule[];
+  lists: (LocationShareList & { friendIds: number[] })[];
+}> {
+  const db = await getDb();
+  if (!db) return { rules: [], lists: [] };
+
+  const rules = await db.select().from(locationShareRules).where(eq(locationShareRules.userId, userId));
+  const lists = await db
+    .select()
+    .from(locationShareLists)
+    .where(eq(locationShareLists.userId, userId))
+    .orderBy(locationShareLists.createdAt);
+  if (lists.length === 0) return { rules, lists: [] };
+
+  const members = await db
+    .select()
+    .from(locationShareListMembers)
+    .where(sql`${locationShareListMembers.listId} IN (${sql.join(lists.map((l) => sql`${l.id}`), sql`, `)})`);
+  return {
+    rules,
+    lists: lists.map((list) => ({
+      ...list,
+      friendIds: members.filter((m) => m.listId === list.id).map((m) => m.friendId),
+    })),
+  };
+}
+
+// Set the rider's rule for one friend, or their default rule when friendId is null
+export async function setLocationShareRule(
+  userId: number,
+  friendId: number | null,
+  mode: LocationShareRule["mode"]
+): Promise<boolean> {
   const db = await getDb();
   if (!db) return false;
 
   try {
-    await db.update(users)
-      .set({ expoPushToken: token })
-      .where(eq(users.id, userId));
+    const target = friendId === null ? isNull(locationShareRules.friendId) : eq(locationShareRules.friendId, friendId);
+    const existing = await db
+      .select({ id: locationShareRules.id })
+      .from(locationShareRules)
+      .where(and(eq(locationShareRules.userId, userId), target))
+      .limit(1);
+
+    if (existing.length > 0) {
+      await db.update(locationShareRules).set({ mode }).where(eq(locationShareRules.id, existing[0].id));
+    } else {
+      await db.insert(locationShareRules).values({ userId, friendId, mode });
+    }
     return true;
   } catch (error) {
-    console.error("[Database] Failed to save push token:", error);
+    console.error("[Database] Failed to set location share rule:", error);
     return false;
   }
 }
 
-/**
- * Get user's Expo Push Token
- */
-export async function getUserPushToken(userId: number): Promise<string | null> {
+// Remove the rider's rule for a friend so their lists / default apply again
+export async function removeLocationShareRule(userId: number, friendId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  await db
+    .delete(locationShareRules)
+    .where(and(eq(locationShareRules.userId, userId), eq(locationShareRules.friendId, friendId)));
+  return true;
+}
+
+async function replaceLocationShareListMembers(listId: number, friendIds: number[]): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(locationShareListMembers).where(eq(locationShareListMembers.listId, listId));
+  if (friendIds.length > 0) {
+    await db.insert(locationShareListMembers).values(friendIds.map((friendId) => ({ listId, friendId })));
+  }
+}
+
+export async function createLocationShareList(
+  userId: number,
+  data: { name: string; mode: LocationShareList["mode"]; friendIds: number[] }
+): Promise<number | null> {
   const db = await getDb();
   if (!db) return null;
 
   try {
-    const result = await db
-      .select({ expoPushToken: users.expoPushToken })
-      .from(users)
-      .where(eq(users.id, userId))
-      .limit(1);
-    return result[0]?.expoPushToken || null;
+    const result = await db.insert(locationShareLists).values({ userId, name: data.name, mode: data.mode });
+    const listId = result[0].insertId;
+    await replaceLocationShareListMembers(listId, data.friendIds);
+    return listId;
   } catch (error) {
-    console.error("[Database] Failed to get push token:", error);
+    console.error("[Database] Failed to create location share list:", error);
     return null;
   }
 }
 
-/**
- * Send push notification to a user via Expo Push API
- */
-export async function sendPushNotification(
+// Only the rider who made the list can change it
+export async function updateLocationShareList(
   userId: number,
-  title: string,
-  body: string,
-  data?: Record<string, unknown>
+  listId: number,
+  data: { name: string; mode: LocationShareList["mode"]; friendIds: number[] }
 ): Promise<boolean> {
-  const token = await getUserPushToken(userId);
-  if (!token) {
-    console.log(`[Push] No push token for user ${userId}`);
+  const db = await getDb();
+  if (!db) return false;
+
+  try {
+    const owned = await db
+      .select({ id: locationShareLists.id })
+      .from(locationShareLists)
+      .where(and(eq(locationShareLists.id, listId), eq(locationShareLists.userId, userId)))
+      .limit(1);
+    if (owned.length === 0) return false;
+
+    await db.update(locationShareLists).set({ name: data.name, mode: data.mode }).where(eq(locationShareLists.id, listId));
+    await replaceLocationShareListMembers(listId, data.friendIds);
+    return true;
+  } catch (error) {
+    console.error("[Database] Failed to update location share list:", error);
     return false;
   }
+}
 
-  try {
-    const message = {
-      to: token,
-      sound: "default",
-      title,
-      body,
-      data: data || {},
-    };
+export async function deleteLocationShareList(userId: number, listId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
 
-    const response = await fetch("https://exp.host/--/api/v2/push/send", {
-      method: "POST",
-      headers: {
-        Accept: "application/json",
-        "Accept-encoding": "gzip, deflate",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(message),
-    });
+  const result = await db
+    .delete(locationShareLists)
+    .where(and(eq(locationShareLists.id, listId), eq(locationShareLists.userId, userId)));
+  if (result[0].affectedRows === 0) return false;
+  await db.delete(locationShareListMembers).where(eq(locationShareListMembers.listId, listId));
+  return true;
+}
 
-    const result = await response.json();
-    
-    if (result.data?.status === "ok") {
-      console.log(`[Push] Notification sent to user ${userId}`);
-      return true;
-    } else {
-      console.error(`[Push] Failed to send notification:`, result);
-      return false;
-    }
+export async function createLocationShareLink(data: {
+  userId: number;
+  token: string;
+  label: string;
+  expiresAt: Date;
+}): Promise<LocationShareLink | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  try {
+    const result = await db.insert(locationShareLinks).values(data);
+    const created = await db
+      .select()
+      .from(locationShareLinks)
+      .where(eq(locationShareLinks.id, result[0].insertId))
+      .limit(1);
+    return created[0] ?? null;
   } catch (error) {
-    console.error("[Push] Error sending notification:", error);
-    return false;
+    console.error("[Database] Failed to create location share link:", error);
+    return null;
   }
 }
 
-/**
- * Send push notification to multiple users
- */
-export async function sendPushNotificationToUsers(
+// A rider's share links that expired after `since`, newest first
+export async function getLocationShareLinks(userId: number, since: Date): Promise<LocationShareLink[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(locationShareLinks)
+    .where(and(eq(locationShareLinks.userId, userId), gt(locationShareLinks.expiresAt, since)))
+    .orderBy(desc(locationShareLinks.createdAt));
+}
+
+export async function getLocationShareLinkByToken(token: string): Promise<LocationShareLink | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(locationShareLinks).where(eq(locationShareLinks.token, token)).limit(1);
+  return result[0];
+}
+
+export async function revokeLocationShareLink(userId: number, linkId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  const result = await db
+    .update(locationShareLinks)
+    .set({ revokedAt: new Date() })
+    .where(and(
+      eq(locationShareLinks.id, linkId),
+      eq(locationShareLinks.userId, userId),
+      isNull(locationShareLinks.revokedAt)
+    ));
+  return result[0].affectedRows > 0;
+}
+
+// Log that a friend or a share link saw these riders' locations, skipping riders they were
+// already logged for since `throttleSince`
+export async function logLocationViews(
   userIds: number[],
-  title: string,
-  body: string,
-  data?: Record<string, unknown>
-): Promise<{ success: number; failed: number }> {
-  let success = 0;
-  let failed = 0;
+  viewer: { viewerId: number } | { shareLinkId: number },
+  throttleSince: Date
+): Promise<void> {
+  const db = await getDb();
+  if (!db || userIds.length === 0) return;
 
-  for (const userId of userIds) {
-    const sent = await sendPushNotification(userId, title, body, data);
-    if (sent) {
-      success++;
-    } else {
-      failed++;
-    }
+  try {
+    const viewerCondition = "viewerId" in viewer
+      ? eq(locationViews.viewerId, viewer.viewerId)
+      : eq(locationViews.shareLinkId, viewer.shareLinkId);
+    const recent = await db
+      .select({ userId: locationViews.userId })
+      .from(locationViews)
+      .where(and(
+        sql`${locationViews.userId} IN (${sql.join(userIds.map((id) => sql`${id}`), sql`, `)})`,
+        viewerCondition,
+        gt(locationViews.viewedAt, throttleSince)
+      ));
+    const logged = new Set(recent.map((r) => r.userId));
+    const toLog = userIds.filter((id) => !logged.has(id));
+    if (toLog.length === 0) return;
+
+    await db.insert(locationViews).values(toLog.map((userId) => ({
+      userId,
+      viewerId: "viewerId" in viewer ? viewer.viewerId : null,
+      shareLinkId: "shareLinkId" in viewer ? viewer.shareLinkId : null,
+    })));
+  } catch (error) {
+    console.error("[Database] Failed to log location views:", error);
   }
+}
 
-  return { success, failed };
+// Who saw the rider's location since a time: one row per friend / share link
+export async function getLocationViewLog(userId: number, since: Date): Promise<{
+  viewerId: number | null;
+  viewerName: string | null;
+  shareLinkId: number | null;
+  shareLinkLabel: string | null;
+  viewCount: number;
+  lastViewedAt: Date;
+}[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({
+      viewerId: locationViews.viewerId,
+      shareLinkId: locationViews.shareLinkId,
+      viewCount: sql<number>`count(*)`,
+      lastViewedAt: sql<string>`max(${locationViews.viewedAt})`,
+    })
+    .from(locationViews)
+    .where(and(eq(locationViews.userId, userId), gt(locationViews.viewedAt, since)))
+    .groupBy(locationViews.viewerId, locationViews.shareLinkId);
+  if (rows.length === 0) return [];
+
+  const viewerIds = rows.map((r) => r.viewerId).filter((id): id is number => id !== null);
+  const linkIds = rows.map((r) => r.shareLinkId).filter((id): id is number => id !== null);
+  const viewers = viewerIds.length === 0 ? [] : await db
+    .select({ id: users.id, name: users.name })
+    .from(users)
+    .where(sql`${users.id} IN (${sql.join(viewerIds.map((id) => sql`${id}`), sql`, `)})`);
+  const links = linkIds.length === 0 ? [] : await db
+    .select({ id: locationShareLinks.id, label: locationShareLinks.label })
+    .from(locationShareLinks)
+    .where(sql`${locationShareLinks.id} IN (${sql.join(linkIds.map((id) => sql`${id}`), sql`, `)})`);
+
+  return rows
+    .map((row) => ({
+      viewerId: row.viewerId,
+      viewerName: viewers.find((v) => v.id === row.viewerId)?.name ?? null,
+      shareLinkId: row.shareLinkId,
+      shareLinkLabel: links.find((l) => l.id === row.shareLinkId)?.label ?? null,
+      viewCount: Number(row.viewCount),
+      lastViewedAt: new Date(row.lastViewedAt),
+    }))
+    .sort((a, b) => b.lastViewedAt.getTime() - a.lastViewedAt.getTime());
 }
@@ -0,0 +1,76 @@
+/**
+ * SRTM HGT tile reader
+ *
+ * A tile covers one degree square and is named after its south-west corner (N37E127.hgt).
+ * Samples are big-endian int16 meters in rows from north to south; SRTM3 tiles are
+ * 1201x1201 and SRTM1 tiles are 3601x3601, with adjacent tiles sharing their edge rows.
+ */
+
+const VOID_VALUE = -32768;
+
+export class HgtTile {
+  readonly size: number;
+
+  constructor(
+    /** Latitude of the south edge */
+    readonly lat: number,
+    /** Longitude of the west edge */
+    readonly lon: number,
+    private readonly data: Uint8Array
+  ) {
+    const size = Math.round(Math.sqrt(data.length / 2));
+    if (size < 2 || size * size * 2 !== data.length) {
+      throw new Error(`Invalid HGT tile size: ${data.length} bytes`);
+    }
+    this.size = size;
+  }
+
+  private sample(row: number, col: number): number | null {
+    const offset = (row * this.size + col) * 2;
+    const value = (this.data[offset] << 8) | this.data[offset + 1];
+    const signed = value >= 0x8000 ? value - 0x10000 : value;
+    return signed === VOID_VALUE ? null : signed;
+  }
+
+  /**
+   * Bilinear interpolation of the four surrounding samples (voids are skipped)
+   */
+  elevationAt(lat: number, lon: number): number | null {
+    const cells = this.size - 1;
+    const y = (this.lat + 1 - lat) * cells;
+    const x = (lon - this.lon) * cells;
+    if (y < 0 || y > cells || x < 0 || x > cells) return null;
+
+    const row = Math.min(Math.floor(y), cells - 1);
+    const col = Math.min(Math.floor(x), cells - 1);
+    const dy = y - row;
+    const dx = x - col;
+
+    const corners: [number | null, number][] = [
+      [this.sample(row, col), (1 - dx) * (1 - dy)],
+      [this.sample(row, col + 1), dx * (1 - dy)],
+      [this.sample(row + 1, col), (1 - dx) * dy],
+      [this.sample(row + 1, col + 1), dx * dy],
+    ];
+
+    let sum = 0;
+    let weight = 0;
+    for (const [value, w] of corners) {
+      if (value === null) continue;
+      sum += value * w;
+      weight += w;
+    }
+    return weight > 0 ? sum / weight : null;
+  }
+}
+
+/**
+ * File name of the tile containing a coordinate (e.g. 37.5, 127.0 → N37E127.hgt)
+ */
+export function hgtTileName(lat: number, lon: number): string {
+  const tileLat = Math.floor(lat);
+  const tileLon = Math.floor(lon);
+  const ns = tileLat >= 0 ? "N" : "S";
+  const ew = tileLon >= 0 ? "E" : "W";
+  return `${ns}${String(Math.abs(tileLat)).padStart(2, "0")}${ew}${String(Math.abs(tileLon)).padStart(3, "0")}.hgt`;
+}
@@ -0,0 +1,151 @@
+/**
+ * Track elevation correction
+ *
+ * Phone GPS altitude is noisy or missing, so ride tracks get their altitudes replaced by
+ * terrain heights from the SRTM/HGT tiles in DEM_PATH (tiles are loaded lazily and cached).
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { HgtTile, hgtTileName } from "./hgt";
+
+/** SRTM1 tiles are ~25MB each, so only a handful stay in memory */
+const MAX_CACHED_TILES = 8;
+
+/** Elevation changes below this are treated as noise when summing gain/loss (meters) */
+const MIN_ELEVATION_CHANGE = 1.0;
+
+/** Tracks with fewer DEM hits than this ratio are left as recorded */
+const MIN_COVERAGE = 0.5;
+
+const tileCache = new Map<string, Promise<HgtTile | null>>();
+
+export function isElevationConfigured(): boolean {
+  return !!process.env.DEM_PATH;
+}
+
+async function loadTile(dir: string, name: string): Promise<HgtTile | null> {
+  try {
+    const data = await fs.readFile(path.join(dir, name));
+    const match = /^([NS])(\d{2})([EW])(\d{3})\.hgt$/.exec(name)!;
+    const lat = Number(match[2]) * (match[1] === "S" ? -1 : 1);
+    const lon = Number(match[4]) * (match[3] === "W" ? -1 : 1);
+    return new HgtTile(lat, lon, data);
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") {
+      console.error(`[Elevation] Failed to load ${name}:`, error?.message || error);
+    }
+    return null;
+  }
+}
+
+function getTile(dir: string, name: string): Promise<HgtTile | null> {
+  const key = path.join(dir, name);
+  const cached = tileCache.get(key);
+  if (cached) {
+    // Move to the end (most recently used)
+    tileCache.delete(key);
+    tileCache.set(key, cached);
+    return cached;
+  }
+
+  const tile = loadTile(dir, name);
+  tileCache.set(key, tile);
+  if (tileCache.size > MAX_CACHED_TILES) {
+    tileCache.delete(tileCache.keys().next().value!);
+  }
+  return tile;
+}
+
+/**
+ * Terrain elevation for each coordinate (null outside the loaded tiles)
+ */
+export async function lookupElevations(
+  points: { latitude: number; longitude: number }[],
+  demPath: string | undefined = process.env.DEM_PATH
+): Promise<(number | null)[]> {
+  if (!demPath) return points.map(() => null);
+
+  const elevations: (number | null)[] = [];
+  for (const point of points) {
+    if (!Number.isFinite(point.latitude) || !Number.isFinite(point.longitude)) {
+      elevations.push(null);
+      continue;
+    }
+    const tile = await getTile(demPath, hgtTileName(point.latitude, point.longitude));
+    elevations.push(tile ? tile.elevationAt(point.latitude, point.longitude) : null);
+  }
+  return elevations;
+}
+
+/**
+ * Total climb and descent, ignoring changes smaller than MIN_ELEVATION_CHANGE
+ */
+export function computeElevationGainLoss(altitudes: (number | null)[]): { gain: number; loss: number } {
+  let gain = 0;
+  let loss = 0;
+  let reference: number | null = null;
+
+  for (const altitude of altitudes) {
+    if (altitude === null) continue;
+    if (reference === null) {
+      reference = altitude;
+      continue;
+    }
+    const diff = altitude - reference;
+    if (Math.abs(diff) >= MIN_ELEVATION_CHANGE) {
+      if (diff > 0) gain += diff;
+      else loss -= diff;
+      reference = altitude;
+    }
+  }
+
+  return { gain: Math.round(gain), loss: Math.round(loss) };
+}
+
+export interface TrackElevation {
+  /** Track JSON with DEM altitudes written into each point's `altitude` */
+  gpsPointsJson: string;
+  elevationGain: number;
+  elevationLoss: number;
+  /** Share of points that got a DEM altitude (0-1) */
+  coverage: number;
+}
+
+/**
+ * Replaces recorded altitudes in a ride's GPS JSON with DEM elevations.
+ * Returns null when the track can't be parsed or is mostly outside the DEM tiles.
+ */
+export async function correctTrackElevation(
+  gpsPointsJson: string,
+  demPath: string | undefined = process.env.DEM_PATH
+): Promise<TrackElevation | null> {
+  let points: any[];
+  try {
+    points = JSON.parse(gpsPointsJson);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(points) || points.length < 2) return null;
+
+  const elevations = await lookupElevations(
+    points.map((p) => ({ latitude: Number(p?.latitude), longitude: Number(p?.longitude) })),
+    demPath
+  );
+  const hits = elevations.filter((e) => e !== null).length;
+  const coverage = hits / points.length;
+  if (coverage < MIN_COVERAGE) return null;
+
+  const corrected = points.map((point, i) => {
+    const elevation = elevations[i];
+    return elevation === null ? point : { ...point, altitude: Math.round(elevation * 10) / 10 };
+  });
+  const { gain, loss } = computeElevationGainLoss(elevations);
+
+  return {
+    gpsPointsJson: JSON.stringify(corrected),
+    elevationGain: gain,
+    elevationLoss: loss,
+    coverage,
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Group ride regrouping
+ *
+ * The host can make one member the leader (rides in front) and one the sweep (rides last). The
+ * spread between the front and back of the group is measured from the members' live locations;
+ * when it stays over the distance or time limit the group is asked to regroup at a rally point,
+ * and the request is lifted once the back has caught up.
+ */
+
+import { haversineDistance } from "../segments/matching";
+
+export type RideRole = "leader" | "sweep";
+
+export interface RideRoles {
+  leaderId: number | null;
+  sweepId: number | null;
+}
+
+export interface RegroupMember {
+  userId: number;
+  latitude: number;
+  longitude: number;
+  /** km/h */
+  speed: number;
+  /** Meters ridden in this session */
+  distance: number;
+  isRiding: boolean;
+  /** Epoch milliseconds of the location */
+  timestamp: number;
+  /** Progress along the group's shared route (meters), when one is published */
+  routeProgress?: number | null;
+}
+
+export interface GroupSpread {
+  frontUserId: number;
+  backUserId: number;
+  /** Meters between the front and back rider (along the route when both are on it) */
+  distance: number;
+  /** Seconds the back rider needs to reach the front rider's position at the group's pace */
+  gapSeconds: number;
+}
+
+export interface RegroupState {
+  active: boolean;
+  /** Which limit was exceeded */
+  reason: "distance" | "time";
+  spread: GroupSpread;
+  /** Where the group gathers (the front rider's position when the regroup started) */
+  rallyPoint: { latitude: number; longitude: number };
+  /** Epoch milliseconds */
+  startedAt: number;
+}
+
+/** Spread over this distance asks the group to regroup (meters) */
+export const REGROUP_DISTANCE_M = 1000;
+
+/** Spread over this time gap asks the group to regroup (seconds) */
+export const REGROUP_GAP_SECONDS = 180;
+
+/** The regroup is lifted once the spread is back under this share of both limits */
+const RESOLVE_RATIO = 0.4;
+
+/** The spread has to stay over a limit this long before regrouping (filters GPS jumps, ms) */
+const REGROUP_HOLD_MS = 10_000;
+
+/** Locations older than this (relative to the newest) are left out of the spread (ms) */
+const STALE_LOCATION_MS = 30_000;
+
+/** Slowest pace used for the time gap, so a stopped group doesn't make every gap infinite (km/h) */
+const MIN_PACE_KMH = 12;
+
+/**
+ * Front and back riders of the group and the gap between them (null with fewer than two riders)
+ */
+export function measureSpread(members: RegroupMember[], roles: RideRoles): GroupSpread | null {
+  const newest = members.reduce((max, m) => Math.max(max, m.timestamp), 0);
+  const riders = members.filter((m) => m.isRiding && newest - m.timestamp <= STALE_LOCATION_MS);
+  if (riders.length < 2) return null;
+
+  const onRoute = riders.every((m) => typeof m.routeProgress === "number");
+  const ahead = (m: RegroupMember) => (onRoute ? m.routeProgress! : m.distance);
+
+  const front =
+    riders.find((m) => m.userId === roles.leaderId) ??
+    riders.reduce((best, m) => (ahead(m) > ahead(best) ? m : best));
+  const others = riders.filter((m) => m !== front);
+  const back =
+    others.find((m) => m.userId === roles.sweepId) ??
+    (onRoute
+      ? others.reduce((worst, m) => (ahead(m) < ahead(worst) ? m : worst))
+      : others.reduce((far, m) => (haversineDistance(front, m) > haversineDistance(front, far) ? m : far)));
+
+  const distance = onRoute
+    ? Math.abs(front.routeProgress! - back.routeProgress!)
+    : haversineDistance(front, back);
+  const paceKmh = Math.max(MIN_PACE_KMH, (front.speed + back.speed) / 2);
+
+  return {
+    frontUserId: front.userId,
+    backUserId: back.userId,
+    distance,
+    gapSeconds: distance / (paceKmh / 3.6),
+  };
+}
+
+/**
+ * Tracks one group's spread and decides when to start and lift a regroup
+ */
+export class RegroupMonitor {
+  private overSince: number | null = null;
+  private current: RegroupState | null = null;
+
+  /**
+   * Records a new measurement and returns the state to broadcast when it changes
+   */
+  update(members: RegroupMember[], roles: RideRoles, now: number = Date.now()): RegroupState | null {
+    const spread = measureSpread(members, roles);
+    if (!spread) return null;
+
+    if (this.current) {
+      const caughtUp =
+        spread.distance < REGROUP_DISTANCE_M * RESOLVE_RATIO &&
+        spread.gapSeconds < REGROUP_GAP_SECONDS * RESOLVE_RATIO;
+      if (!caughtUp) return null;
+      const resolved: RegroupState = { ...this.current, active: false, spread };
+      this.current = null;
+      this.overSince = null;
+      return resolved;
+    }
+
+    const reason =
+      spread.distance > REGROUP_DISTANCE_M ? "distance" : spread.gapSeconds > REGROUP_GAP_SECONDS ? "time" : null;
+    if (!reason) {
+      this.overSince = null;
+      return null;
+    }
+    this.overSince ??= now;
+    if (now - this.overSince < REGROUP_HOLD_MS) return null;
+
+    const front = members.find((m) => m.userId === spread.frontUserId)!;
+    this.current = {
+      active: true,
+      reason,
+      spread,
+      rallyPoint: { latitude: front.latitude, longitude: front.longitude },
+      startedAt: now,
+    };
+    return this.current;
+  }
+
+  /** The regroup in progress, for members who join during it */
+  active(): RegroupState | null {
+    return this.current;
+  }
+}
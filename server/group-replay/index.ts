@@ -0,0 +1,222 @@
+/**
+ * Group ride replay
+ *
+ * When a member syncs a ride they made in a group session, its track is kept with the session,
+ * thinned to a point every few seconds. The group ride screen replays every member's track on
+ * one timeline, and the summary combines their stats for a post in the community feed.
+ */
+
+import * as db from "../db";
+import { parseClassifierTrack, type RideStats } from "../transport";
+
+export interface ReplayPoint {
+  latitude: number;
+  longitude: number;
+  /** Epoch milliseconds */
+  timestamp: number;
+  /** km/h (null when the GPS didn't report speed) */
+  speed: number | null;
+}
+
+export interface GroupRideMember extends GroupRideMemberStats {
+  profileImageUrl: string | null;
+  profileColor: string | null;
+  recordId: string;
+  track: ReplayPoint[];
+}
+
+export interface GroupRideMemberStats {
+  userId: number;
+  name: string | null;
+  /** meters */
+  distance: number;
+  /** Riding time in seconds */
+  duration: number;
+  /** km/h */
+  avgSpeed: number;
+  /** km/h */
+  maxSpeed: number;
+  /** Epoch milliseconds */
+  startTime: number;
+  endTime: number;
+}
+
+export interface GroupRideSummary {
+  memberCount: number;
+  /** Longest member ride: the distance the group covered (meters) */
+  distance: number;
+  /** All members' distances added up (meters) */
+  totalDistance: number;
+  /** From the first member's start to the last member's finish (epoch ms) */
+  startTime: number;
+  endTime: number;
+  /** Seconds between startTime and endTime */
+  duration: number;
+  /** Distance-weighted average speed of the members (km/h) */
+  avgSpeed: number;
+  /** Fastest speed of the ride and who reached it */
+  topSpeed: { userId: number; name: string | null; speed: number };
+}
+
+/** Minimum time between kept points (ms) */
+const REPLAY_INTERVAL_MS = 5000;
+
+/** Upper bound on points per member, so long rides stay small */
+const MAX_REPLAY_POINTS = 2000;
+
+/**
+ * Thins a ride's gpsPointsJson into replay points ordered by time
+ */
+export function buildReplayTrack(gpsPointsJson: string | null | undefined): ReplayPoint[] {
+  const points = parseClassifierTrack(gpsPointsJson).sort((a, b) => a.timestamp - b.timestamp);
+  if (points.length === 0) return [];
+
+  const span = points[points.length - 1].timestamp - points[0].timestamp;
+  const interval = Math.max(REPLAY_INTERVAL_MS, span / MAX_REPLAY_POINTS);
+  const kept = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    const isLast = i === points.length - 1;
+    if (isLast || points[i].timestamp - kept[kept.length - 1].timestamp >= interval) {
+      kept.push(points[i]);
+    }
+  }
+
+  return kept.map((p) => ({
+    latitude: p.latitude,
+    longitude: p.longitude,
+    timestamp: p.timestamp,
+    speed: typeof p.speed === "number" ? Math.round(p.speed * 3.6 * 10) / 10 : null,
+  }));
+}
+
+/**
+ * Combined stats of a group ride (null when no member's ride was kept)
+ */
+export function summarizeGroupRide(members: GroupRideMemberStats[]): GroupRideSummary | null {
+  if (members.length === 0) return null;
+
+  const totalDistance = members.reduce((sum, m) => sum + m.distance, 0);
+  const startTime = Math.min(...members.map((m) => m.startTime));
+  const endTime = Math.max(...members.map((m) => m.endTime));
+  const avgSpeed =
+    totalDistance > 0
+      ? members.reduce((sum, m) => sum + m.avgSpeed * m.distance, 0) / totalDistance
+      : members.reduce((sum, m) => sum + m.avgSpeed, 0) / members.length;
+  const fastest = members.reduce((best, m) => (m.maxSpeed > best.maxSpeed ? m : best));
+
+  return {
+    memberCount: members.length,
+    distance: Math.max(...members.map((m) => m.distance)),
+    totalDistance,
+    startTime,
+    endTime,
+    duration: Math.round((endTime - startTime) / 1000),
+    avgSpeed: Math.round(avgSpeed * 10) / 10,
+    topSpeed: { userId: fastest.userId, name: fastest.name, speed: fastest.maxSpeed },
+  };
+}
+
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return h > 0 ? `${h}시간 ${m}분` : `${m}분`;
+}
+
+/**
+ * Title and text of the community post sharing a group ride
+ */
+export function formatGroupRidePost(
+  groupName: string,
+  summary: GroupRideSummary,
+  members: GroupRideMemberStats[]
+): { title: string; content: string } {
+  const memberLines = [...members]
+    .sort((a, b) => b.distance - a.distance)
+    .map((m) => `• ${m.name || "라이더"} ${(m.distance / 1000).toFixed(1)}km · 평균 ${m.avgSpeed.toFixed(1)}km/h`);
+
+  return {
+    title: `${groupName} 그룹 라이딩`,
+    content: [
+      `${summary.memberCount}명이 함께 ${(summary.distance / 1000).toFixed(1)}km를 달렸어요.`,
+      `총 ${formatDuration(summary.duration)} · 평균 ${summary.avgSpeed.toFixed(1)}km/h · 최고 ${summary.topSpeed.speed.toFixed(1)}km/h (${summary.topSpeed.name || "라이더"})`,
+      "",
+      ...memberLines,
+    ].join("\n"),
+  };
+}
+
+/**
+ * Keeps a synced ride with its group session; rides of non-members and rides without a usable
+ * track are skipped
+ */
+export async function recordGroupRideTrack(
+  userId: number,
+  groupId: number,
+  ride: { recordId: string; gpsPointsJson?: string | null; startTime?: string; endTime?: string },
+  stats: RideStats
+): Promise<boolean> {
+  const track = buildReplayTrack(ride.gpsPointsJson);
+  if (track.length < 2) return false;
+  if (!(await db.isApprovedGroupMember(groupId, userId))) return false;
+
+  return db.saveGroupRideTrack({
+    groupId,
+    userId,
+    recordId: ride.recordId,
+    distance: Math.round(stats.distance),
+    duration: Math.round(stats.duration),
+    avgSpeed: Math.round(stats.avgSpeed * 10),
+    maxSpeed: Math.round(stats.maxSpeed * 10),
+    startTime: new Date(ride.startTime ?? track[0].timestamp),
+    endTime: new Date(ride.endTime ?? track[track.length - 1].timestamp),
+    trackJson: JSON.stringify(track),
+  });
+}
+
+/**
+ * Replaces the kept copy of an edited ride with its new track; a ride the editor left without a
+ * usable track stops being kept
+ */
+export async function rerecordGroupRideTrack(
+  userId: number,
+  ride: { recordId: string; gpsPointsJson?: string | null; startTime?: string; endTime?: string },
+  stats: RideStats
+): Promise<void> {
+  const groupId = await db.getGroupRideTrackGroupId(ride.recordId, userId);
+  if (groupId === null) return;
+  await db.deleteGroupRideTrack(ride.recordId, userId);
+  await recordGroupRideTrack(userId, groupId, ride, stats);
+}
+
+/**
+ * Every member's kept ride of a group session and the combined summary
+ */
+export async function loadGroupRide(groupId: number): Promise<{
+  members: GroupRideMember[];
+  summary: GroupRideSummary | null;
+}> {
+  const rows = await db.getGroupRideTracks(groupId);
+  const members = rows.map((row) => {
+    let track: ReplayPoint[] = [];
+    try {
+      track = JSON.parse(row.trackJson) as ReplayPoint[];
+    } catch (error) {
+      console.error("[GroupReplay] Invalid track for record", row.recordId, error);
+    }
+    return {
+      userId: row.userId,
+      name: row.name,
+      profileImageUrl: row.profileImageUrl,
+      profileColor: row.profileColor,
+      recordId: row.recordId,
+      distance: row.distance,
+      duration: row.duration,
+      avgSpeed: row.avgSpeed / 10,
+      maxSpeed: row.maxSpeed / 10,
+      startTime: row.startTime.getTime(),
+      endTime: row.endTime.getTime(),
+      track,
+    };
+  });
+  return { members, summary: summarizeGroupRide(members) };
+}
@@ -0,0 +1,259 @@
+/**
+ * Group ride route sharing
+ *
+ * The host publishes a planned route (or GPX) and a meeting point to the group. Each member's
+ * position is located along the route as it comes in, and members who leave the route or fall
+ * far behind the group's front rider are reported to the host.
+ */
+
+import { haversineDistance, type SegmentPoint } from "../segments/matching";
+
+export interface SharedRoute {
+  name: string;
+  points: SegmentPoint[];
+  /** meters */
+  totalDistance: number;
+}
+
+export interface MeetingPoint {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface GroupRoute {
+  route: SharedRoute | null;
+  meetingPoint: MeetingPoint | null;
+  /** Host who published it */
+  publishedBy: number;
+  /** Epoch milliseconds */
+  publishedAt: number;
+}
+
+export interface RoutePosition {
+  /** Distance from the route line (meters) */
+  distanceToRoute: number;
+  /** Distance along the route to the closest point (meters) */
+  progress: number;
+}
+
+export interface RouteAlert {
+  kind: "off_route" | "behind";
+  userId: number;
+  userName: string;
+  /** off_route: meters from the route, behind: meters behind the front rider */
+  distance: number;
+}
+
+/** Routes are simplified by the client; anything longer is rejected */
+export const MAX_ROUTE_POINTS = 5000;
+
+/** Further than this from the route counts as off-route (meters) */
+export const OFF_ROUTE_THRESHOLD_M = 150;
+
+/** Further than this behind the front rider (along the route) counts as falling behind (meters) */
+export const BEHIND_THRESHOLD_M = 1500;
+
+/** Consecutive location updates over a threshold before alerting (filters GPS jumps) */
+const CONSECUTIVE_UPDATES = 3;
+
+/** Minimum time between two alerts of the same kind for one member (ms) */
+const ALERT_COOLDOWN_MS = 2 * 60_000;
+
+/** Search window around the previous progress, so loops and out-and-back routes don't jump (meters) */
+const SEARCH_BEHIND_M = 300;
+const SEARCH_AHEAD_M = 3000;
+
+function isCoordinate(value: any): value is SegmentPoint {
+  return (
+    typeof value?.latitude === "number" &&
+    typeof value?.longitude === "number" &&
+    Math.abs(value.latitude) <= 90 &&
+    Math.abs(value.longitude) <= 180
+  );
+}
+
+/**
+ * Validates a route / meeting point sent by a client (null when malformed)
+ */
+export function parseSharedRoute(raw: any): { route: SharedRoute | null; meetingPoint: MeetingPoint | null } | null {
+  let route: SharedRoute | null = null;
+  if (raw?.route) {
+    const points = raw.route.points;
+    if (!Array.isArray(points) || points.length < 2 || points.length > MAX_ROUTE_POINTS) return null;
+    if (!points.every(isCoordinate)) return null;
+    const cleanPoints = points.map((p: SegmentPoint) => ({ latitude: p.latitude, longitude: p.longitude }));
+    route = {
+      name: String(raw.route.name || "그룹 경로").slice(0, 100),
+      points: cleanPoints,
+      totalDistance: cumulativeDistances(cleanPoints)[cleanPoints.length - 1],
+    };
+  }
+
+  let meetingPoint: MeetingPoint | null = null;
+  if (raw?.meetingPoint) {
+    if (!isCoordinate(raw.meetingPoint)) return null;
+    meetingPoint = {
+      name: String(raw.meetingPoint.name || "집결지").slice(0, 100),
+      latitude: raw.meetingPoint.latitude,
+      longitude: raw.meetingPoint.longitude,
+    };
+  }
+
+  return { route, meetingPoint };
+}
+
+function cumulativeDistances(points: SegmentPoint[]): number[] {
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(distances[i - 1] + haversineDistance(points[i - 1], points[i]));
+  }
+  return distances;
+}
+
+/** Closest point on segment a→b in a local flat projection: distance and fraction along it */
+function projectOnSegment(p: SegmentPoint, a: SegmentPoint, b: SegmentPoint): { distance: number; t: number } {
+  const cosLat = Math.cos((a.latitude * Math.PI) / 180);
+  const bx = (b.longitude - a.longitude) * cosLat;
+  const by = b.latitude - a.latitude;
+  const px = (p.longitude - a.longitude) * cosLat;
+  const py = p.latitude - a.latitude;
+  const lengthSquared = bx * bx + by * by;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, (px * bx + py * by) / lengthSquared)) : 0;
+  const closest = {
+    latitude: a.latitude + t * (b.latitude - a.latitude),
+    longitude: a.longitude + t * (b.longitude - a.longitude),
+  };
+  return { distance: haversineDistance(p, closest), t };
+}
+
+interface MemberTrack {
+  position: RoutePosition;
+  offRouteCount: number;
+  behindCount: number;
+  lastAlertAt: Record<RouteAlert["kind"], number>;
+}
+
+/**
+ * Locates members along one published route and decides when the host should be alerted
+ */
+export class RouteMonitor {
+  private readonly cumulative: number[];
+  private readonly members = new Map<number, MemberTrack>();
+
+  constructor(private readonly route: SharedRoute) {
+    this.cumulative = cumulativeDistances(route.points);
+  }
+
+  /**
+   * Closest point on the route, searched near the previous progress first
+   */
+  locate(point: SegmentPoint, previousProgress: number | null = null): RoutePosition {
+    if (previousProgress !== null) {
+      const from = this.segmentAt(previousProgress - SEARCH_BEHIND_M);
+      const to = this.segmentAt(previousProgress + SEARCH_AHEAD_M);
+      const local = this.search(point, from, to + 1);
+      if (local.distanceToRoute <= OFF_ROUTE_THRESHOLD_M) return local;
+    }
+    return this.search(point, 0, this.route.points.length - 1);
+  }
+
+  /** Index of the route segment containing the given distance along the route */
+  private segmentAt(progress: number): number {
+    const last = this.cumulative.length - 2;
+    for (let i = 0; i <= last; i++) {
+      if (this.cumulative[i + 1] >= progress) return i;
+    }
+    return Math.max(last, 0);
+  }
+
+  private search(point: SegmentPoint, fromIndex: number, toIndex: number): RoutePosition {
+    const { points } = this.route;
+    let best: RoutePosition = { distanceToRoute: Infinity, progress: 0 };
+    for (let i = Math.max(fromIndex, 0); i < Math.min(toIndex, points.length - 1); i++) {
+      const { distance, t } = projectOnSegment(point, points[i], points[i + 1]);
+      if (distance < best.distanceToRoute) {
+        best = {
+          distanceToRoute: distance,
+          progress: this.cumulative[i] + t * (this.cumulative[i + 1] - this.cumulative[i]),
+        };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Records a member's new location and returns the alerts it triggers
+   */
+  update(userId: number, userName: string, point: SegmentPoint, now: number = Date.now()): {
+    position: RoutePosition;
+    alerts: RouteAlert[];
+  } {
+    const previous = this.members.get(userId);
+    const position = this.locate(point, previous?.position.progress ?? null);
+    const track: MemberTrack = previous ?? {
+      position,
+      offRouteCount: 0,
+      behindCount: 0,
+      lastAlertAt: { off_route: 0, behind: 0 },
+    };
+    track.position = position;
+    this.members.set(userId, track);
+
+    const alerts: RouteAlert[] = [];
+    const alert = (kind: RouteAlert["kind"], distance: number) => {
+      if (now - track.lastAlertAt[kind] < ALERT_COOLDOWN_MS) return;
+      track.lastAlertAt[kind] = now;
+      alerts.push({ kind, userId, userName, distance: Math.round(distance) });
+    };
+
+    if (position.distanceToRoute > OFF_ROUTE_THRESHOLD_M) {
+      track.offRouteCount++;
+      track.behindCount = 0;
+      if (track.offRouteCount >= CONSECUTIVE_UPDATES) alert("off_route", position.distanceToRoute);
+      return { position, alerts };
+    }
+    track.offRouteCount = 0;
+
+    const gap = this.frontProgress() - position.progress;
+    if (gap > BEHIND_THRESHOLD_M) {
+      track.behindCount++;
+      if (track.behindCount >= CONSECUTIVE_UPDATES) alert("behind", gap);
+    } else {
+      track.behindCount = 0;
+    }
+    return { position, alerts };
+  }
+
+  /** Progress of the furthest member still on the route */
+  private frontProgress(): number {
+    let front = 0;
+    this.members.forEach((track) => {
+      if (track.position.distanceToRoute <= OFF_ROUTE_THRESHOLD_M) {
+        front = Math.max(front, track.position.progress);
+      }
+    });
+    return front;
+  }
+
+  /**
+   * Records a position located elsewhere (a member connected to another server instance) so it
+   * counts towards the front of the group, without alerting for it
+   */
+  observe(userId: number, position: RoutePosition): void {
+    const track = this.members.get(userId);
+    if (track) {
+      track.position = position;
+      return;
+    }
+    this.members.set(userId, { position, offRouteCount: 0, behindCount: 0, lastAlertAt: { off_route: 0, behind: 0 } });
+  }
+
+  position(userId: number): RoutePosition | null {
+    return this.members.get(userId)?.position ?? null;
+  }
+
+  remove(userId: number): void {
+    this.members.delete(userId);
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Push-to-talk voice messages for group riding
+ *
+ * A clip recorded in the group chat is uploaded with storagePut, saved as a voice message and
+ * broadcast to the group right away so members hear it while riding. The transcript follows in a
+ * second message, for members who have audio muted.
+ */
+
+import * as db from "../db";
+import { storagePut } from "../storage";
+import { transcribeAudio } from "../_core/voiceTranscription";
+import { broadcastVoiceMessage, broadcastVoiceTranscript } from "../websocket";
+
+/** Longest clip a member can send (ms) */
+export const MAX_VOICE_CLIP_MS = 30_000;
+
+/** Upper bound on a clip's size; 30 seconds of AAC voice is well under this */
+export const MAX_VOICE_CLIP_BYTES = 1024 * 1024;
+
+/** Shown in place of the text of voice messages (e.g. by clients without voice support) */
+export const VOICE_MESSAGE_TEXT = "🎙️ 음성 메시지";
+
+const VOICE_CLIP_EXTENSIONS: Record<string, string> = {
+  "audio/mp4": "m4a",
+  "audio/m4a": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/aac": "aac",
+  "audio/mpeg": "mp3",
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/wav": "wav",
+};
+
+/**
+ * File extension for a clip's MIME type (null when it isn't an accepted audio format)
+ */
+export function voiceClipExtension(mimeType: string): string | null {
+  return VOICE_CLIP_EXTENSIONS[mimeType.split(";")[0].trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Stores a member's clip, broadcasts it to the group and starts its transcription
+ */
+export async function sendVoiceClip(
+  user: { id: number; name: string | null; profileImageUrl: string | null },
+  groupId: number,
+  clip: { base64: string; mimeType: string; duration: number }
+): Promise<{ id: number; audioUrl: string; createdAt: Date }> {
+  const extension = voiceClipExtension(clip.mimeType);
+  if (!extension) throw new Error("지원하지 않는 음성 형식입니다.");
+  if (clip.duration > MAX_VOICE_CLIP_MS) throw new Error("음성 메시지는 30초까지 보낼 수 있습니다.");
+
+  const buffer = Buffer.from(clip.base64, "base64");
+  if (buffer.length === 0) throw new Error("녹음된 음성이 없습니다.");
+  if (buffer.length > MAX_VOICE_CLIP_BYTES) throw new Error("음성 메시지 크기가 너무 큽니다.");
+
+  if (!(await db.isApprovedGroupMember(groupId, user.id))) {
+    throw new Error("그룹 멤버만 음성 메시지를 보낼 수 있습니다.");
+  }
+
+  const key = `group-voice/${groupId}/${user.id}/${Date.now()}.${extension}`;
+  const { url } = await storagePut(key, buffer, clip.mimeType);
+
+  const saved = await db.sendGroupMessage(groupId, user.id, VOICE_MESSAGE_TEXT, "voice", {
+    audioUrl: url,
+    audioDuration: Math.round(clip.duration),
+  });
+  if (!saved) throw new Error("음성 메시지 전송에 실패했습니다.");
+
+  await broadcastVoiceMessage(groupId, {
+    id: saved.id,
+    userId: user.id,
+    userName: user.name,
+    userProfileImage: user.profileImageUrl,
+    audioUrl: url,
+    duration: Math.round(clip.duration),
+    transcript: null,
+    createdAt: saved.createdAt,
+  });
+
+  // Members hear the clip first; the transcript arrives when it's ready
+  void transcribeVoiceClip(groupId, saved.id, url);
+
+  return { id: saved.id, audioUrl: url, createdAt: saved.createdAt };
+}
+
+/**
+ * Transcribes a voice message, saves the text and sends it to the group
+ */
+export async function transcribeVoiceClip(
+  groupId: number,
+  messageId: number,
+  audioUrl: string
+): Promise<string | null> {
+  try {
+    const result = await transcribeAudio({
+      audioUrl,
+      prompt: "Transcribe a short push-to-talk message from a scooter group ride",
+    });
+    if ("error" in result) {
+      console.error("[GroupVoice] Transcription failed:", result.error, result.details);
+      return null;
+    }
+
+    const transcript = result.text.trim();
+    if (!transcript) return null;
+
+    await db.setGroupMessageTranscript(messageId, transcript);
+    await broadcastVoiceTranscript(groupId, messageId, transcript);
+    return transcript;
+  } catch (error) {
+    console.error("[GroupVoice] Failed to transcribe voice message:", error);
+    return null;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Live location sharing rules, share links and view log
+ *
+ * Each rider decides when friends can see their live location (see LocationShareMode): a rule
+ * per friend wins, otherwise the friend's lists (the most open one when they're on several),
+ * otherwise the rider's default. Share links show the rider on a read-only web page to anyone
+ * holding the link until it expires or is revoked, but only while they ride. Every time a friend
+ * or a link sees the rider it's logged (at most once per VIEW_LOG_THROTTLE_MS) so the rider can
+ * check who has been looking.
+ */
+
+import * as crypto from "crypto";
+
+import * as db from "../db";
+import type { LocationShareLink } from "../../drizzle/schema";
+import {
+  DEFAULT_LOCATION_SHARE_MODE,
+  LOCATION_SHARE_MODES,
+  type LocationShareMode,
+} from "../../shared/location-sharing.js";
+
+/** Riding locations older than this are stale (the app stopped reporting without ending the ride) */
+export const RIDING_LOCATION_MAX_AGE_MS = 30 * 60_000;
+
+/** "always" shows the last reported location up to this old */
+export const ALWAYS_LOCATION_MAX_AGE_MS = 24 * 60 * 60_000;
+
+/** A viewer is logged at most once in this window */
+export const VIEW_LOG_THROTTLE_MS = 10 * 60_000;
+
+/** View log kept for the rider to look back on */
+const VIEW_LOG_WINDOW_MS = 30 * 24 * 60 * 60_000;
+
+export interface LocationState {
+  isRiding: boolean;
+  groupId: number | null;
+  updatedAt: Date;
+}
+
+/**
+ * The mode that applies to one friend: their own rule, else the most open of their lists, else the default
+ */
+export function resolveShareMode(
+  friendMode: LocationShareMode | null,
+  listModes: LocationShareMode[],
+  defaultMode: LocationShareMode | null
+): LocationShareMode {
+  if (friendMode) return friendMode;
+  if (listModes.length > 0) {
+    return listModes.reduce((open, mode) =>
+      LOCATION_SHARE_MODES.indexOf(mode) < LOCATION_SHARE_MODES.indexOf(open) ? mode : open
+    );
+  }
+  return defaultMode ?? DEFAULT_LOCATION_SHARE_MODE;
+}
+
+/**
+ * Whether a location may be shown under a mode
+ */
+export function isLocationVisible(mode: LocationShareMode, location: LocationState, now: number = Date.now()): boolean {
+  const age = now - location.updatedAt.getTime();
+  switch (mode) {
+    case "always":
+      return age <= ALWAYS_LOCATION_MAX_AGE_MS;
+    case "riding":
+      return location.isRiding && age <= RIDING_LOCATION_MAX_AGE_MS;
+    case "group_riding":
+      return location.isRiding && location.groupId !== null && age <= RIDING_LOCATION_MAX_AGE_MS;
+    case "never":
+      return false;
+  }
+}
+
+export function isShareLinkActive(link: Pick<LocationShareLink, "expiresAt" | "revokedAt">, now: number = Date.now()): boolean {
+  return !link.revokedAt && link.expiresAt.getTime() > now;
+}
+
+/**
+ * Friends' locations the viewer may see under each friend's rules; the views are logged
+ */
+export async function getVisibleFriendLocations(viewerId: number, now: number = Date.now()) {
+  const locations = await db.getFriendsLiveLocations(viewerId, new Date(now - ALWAYS_LOCATION_MAX_AGE_MS));
+  if (locations.length === 0) return [];
+
+  const { rules, lists } = await db.getLocationShareModesForViewer(
+    locations.map((l) => l.userId),
+    viewerId
+  );
+  const visible = locations.filter((location) => {
+    const mode = resolveShareMode(
+      rules.find((r) => r.userId === location.userId && r.friendId === viewerId)?.mode ?? null,
+      lists.filter((l) => l.userId === location.userId).map((l) => l.mode),
+      rules.find((r) => r.userId === location.userId && r.friendId === null)?.mode ?? null
+    );
+    return isLocationVisible(mode, location, now);
+  });
+
+  await db.logLocationViews(
+    visible.map((l) => l.userId),
+    { viewerId },
+    new Date(now - VIEW_LOG_THROTTLE_MS)
+  );
+  return visible;
+}
+
+/**
+ * Of the rider's friends, those who will see them ride in this state (for "started riding" alerts)
+ */
+export async function friendsWhoCanSee(userId: number, friendIds: number[], state: LocationState): Promise<number[]> {
+  const { rules, lists } = await db.getLocationShareSettings(userId);
+  const defaultMode = rules.find((r) => r.friendId === null)?.mode ?? null;
+  return friendIds.filter((friendId) => {
+    const mode = resolveShareMode(
+      rules.find((r) => r.friendId === friendId)?.mode ?? null,
+      lists.filter((l) => l.friendIds.includes(friendId)).map((l) => l.mode),
+      defaultMode
+    );
+    return isLocationVisible(mode, state, state.updatedAt.getTime());
+  });
+}
+
+/**
+ * The rider's sharing settings: default mode, per-friend rules and lists
+ */
+export async function getLocationSharingSettings(userId: number) {
+  const { rules, lists } = await db.getLocationShareSettings(userId);
+  return {
+    defaultMode: rules.find((r) => r.friendId === null)?.mode ?? DEFAULT_LOCATION_SHARE_MODE,
+    friendRules: rules
+      .filter((r): r is typeof r & { friendId: number } => r.friendId !== null)
+      .map((r) => ({ friendId: r.friendId, mode: r.mode })),
+    lists: lists.map((list) => ({ id: list.id, name: list.name, mode: list.mode, friendIds: list.friendIds })),
+  };
+}
+
+/**
+ * Creates a share link that works for `hours`
+ */
+export async function createShareLink(userId: number, label: string, hours: number, now: number = Date.now()) {
+  const link = await db.createLocationShareLink({
+    userId,
+    token: crypto.randomBytes(24).toString("base64url"),
+    label: label.trim(),
+    expiresAt: new Date(now + hours * 60 * 60_000),
+  });
+  if (!link) throw new Error("공유 링크를 만들지 못했습니다.");
+  return link;
+}
+
+/**
+ * The rider's share links: active ones and those that ended in the last day
+ */
+export async function getShareLinks(userId: number, now: number = Date.now()) {
+  const links = await db.getLocationShareLinks(userId, new Date(now - 24 * 60 * 60_000));
+  return links.map((link) => ({
+    id: link.id,
+    token: link.token,
+    label: link.label,
+    expiresAt: link.expiresAt,
+    createdAt: link.createdAt,
+    isActive: isShareLinkActive(link, now),
+  }));
+}
+
+export type SharedLocation =
+  | { status: "invalid" }
+  | { status: "expired" }
+  | { status: "not_riding"; name: string | null; expiresAt: number }
+  | {
+      status: "riding";
+      name: string | null;
+      expiresAt: number;
+      latitude: number;
+      longitude: number;
+      heading: number | null;
+      /** km/h */
+      speed: number | null;
+      updatedAt: number;
+    };
+
+/**
+ * What a share link shows right now; views of a riding location are logged
+ */
+export async function getSharedLocation(token: string, now: number = Date.now()): Promise<SharedLocation> {
+  const link = await db.getLocationShareLinkByToken(token);
+  if (!link) return { status: "invalid" };
+  if (!isShareLinkActive(link, now)) return { status: "expired" };
+
+  const owner = await db.getUserById(link.userId);
+  const name = owner?.name ?? null;
+  const expiresAt = link.expiresAt.getTime();
+  const location = await db.getLiveLocation(link.userId);
+  if (!location || !isLocationVisible("riding", location, now)) {
+    return { status: "not_riding", name, expiresAt };
+  }
+
+  await db.logLocationViews([link.userId], { shareLinkId: link.id }, new Date(now - VIEW_LOG_THROTTLE_MS));
+  return {
+    status: "riding",
+    name,
+    expiresAt,
+    latitude: Number(location.latitude),
+    longitude: Number(location.longitude),
+    heading: location.heading !== null ? Number(location.heading) : null,
+    // Stored in m/s
+    speed: location.speed !== null ? Math.round(Number(location.speed) * 3.6 * 10) / 10 : null,
+    updatedAt: location.updatedAt.getTime(),
+  };
+}
+
+/**
+ * Who saw the rider's location in the last 30 days
+ */
+export async function getLocationViewLog(userId: number, now: number = Date.now()) {
+  return db.getLocationViewLog(userId, new Date(now - VIEW_LOG_WINDOW_MS));
+}
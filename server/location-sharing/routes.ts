@@ -0,0 +1,131 @@
+import { Router, Request, Response } from "express";
+
+import { getSharedLocation } from "./index";
+
+const router = Router();
+
+/** Share link tokens are 24 random bytes in base64url */
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+// The token is the only credential, so keep it out of caches, referrers and search engines
+function setPrivateHeaders(res: Response) {
+  res.setHeader("Cache-Control", "no-store");
+  res.setHeader("Referrer-Policy", "no-referrer");
+  res.setHeader("X-Robots-Tag", "noindex, nofollow");
+}
+
+// Current state of a share link (polled by the page)
+router.get("/:token/data", async (req: Request, res: Response) => {
+  setPrivateHeaders(res);
+  if (!TOKEN_PATTERN.test(req.params.token)) {
+    return res.status(404).json({ status: "invalid" });
+  }
+  try {
+    const shared = await getSharedLocation(req.params.token);
+    return res.status(shared.status === "invalid" ? 404 : 200).json(shared);
+  } catch (error) {
+    console.error("[LocationShare] Failed to load shared location:", error);
+    return res.status(500).json({ error: "위치를 불러오지 못했습니다." });
+  }
+});
+
+// Read-only map page for people without the app
+router.get("/:token", (req: Request, res: Response) => {
+  setPrivateHeaders(res);
+  if (!TOKEN_PATTERN.test(req.params.token)) {
+    return res.status(404).send("링크를 찾을 수 없습니다.");
+  }
+  res.setHeader("Content-Type", "text/html; charset=utf-8");
+  return res.send(getSharePageHTML());
+});
+
+function getSharePageHTML(): string {
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex, nofollow">
+  <title>SCOOP 실시간 위치</title>
+  <link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css">
+  <script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>
+  <style>
+    html, body { margin: 0; height: 100%; font-family: -apple-system, BlinkMacSystemFont, sans-serif; }
+    #map { position: absolute; inset: 0; }
+    #panel {
+      position: absolute; left: 12px; right: 12px; bottom: 16px; z-index: 1000;
+      background: #fff; border-radius: 14px; padding: 14px 16px; box-shadow: 0 4px 16px rgba(0,0,0,0.15);
+    }
+    #title { font-size: 16px; font-weight: 700; color: #111; }
+    #status { font-size: 14px; color: #555; margin-top: 4px; }
+    #expires { font-size: 12px; color: #888; margin-top: 6px; }
+  </style>
+</head>
+<body>
+  <div id="map"></div>
+  <div id="panel">
+    <div id="title">SCOOP 실시간 위치</div>
+    <div id="status">위치를 불러오는 중...</div>
+    <div id="expires"></div>
+  </div>
+  <script>
+    var map = L.map("map", { zoomControl: false }).setView([37.5665, 126.978], 12);
+    L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
+      maxZoom: 19,
+      attribution: "&copy; OpenStreetMap contributors"
+    }).addTo(map);
+    var marker = null;
+    var centered = false;
+    var timer = null;
+
+    function formatTime(ms) {
+      return new Date(ms).toLocaleTimeString("ko-KR", { hour: "2-digit", minute: "2-digit" });
+    }
+
+    function show(data) {
+      var title = document.getElementById("title");
+      var status = document.getElementById("status");
+      var expires = document.getElementById("expires");
+      if (data.status === "invalid" || data.status === "expired") {
+        title.textContent = "SCOOP 실시간 위치";
+        status.textContent = data.status === "expired" ? "공유가 끝난 링크입니다." : "링크를 찾을 수 없습니다.";
+        expires.textContent = "";
+        if (marker) { map.removeLayer(marker); marker = null; }
+        clearInterval(timer);
+        return;
+      }
+      title.textContent = (data.name || "라이더") + "님의 위치";
+      expires.textContent = formatTime(data.expiresAt) + "까지 공유됩니다.";
+      if (data.status === "not_riding") {
+        status.textContent = "지금은 주행 중이 아닙니다. 주행을 시작하면 위치가 표시됩니다.";
+        if (marker) { map.removeLayer(marker); marker = null; }
+        return;
+      }
+      var position = [data.latitude, data.longitude];
+      if (!marker) {
+        marker = L.circleMarker(position, { radius: 9, color: "#fff", weight: 3, fillColor: "#FF6B00", fillOpacity: 1 }).addTo(map);
+      } else {
+        marker.setLatLng(position);
+      }
+      if (!centered) { map.setView(position, 15); centered = true; }
+      status.textContent = "주행 중" + (data.speed !== null ? " · " + data.speed.toFixed(1) + "km/h" : "") +
+        " · " + formatTime(data.updatedAt) + " 업데이트";
+    }
+
+    function refresh() {
+      fetch(window.location.pathname.replace(/\\/$/, "") + "/data", { cache: "no-store" })
+        .then(function (res) { return res.json(); })
+        .then(show)
+        .catch(function () {
+          document.getElementById("status").textContent = "위치를 불러오지 못했습니다. 잠시 후 다시 시도합니다.";
+        });
+    }
+
+    refresh();
+    timer = setInterval(refresh, 15000);
+  </script>
+</body>
+</html>`;
+}
+
+export default router;
@@ -0,0 +1,163 @@
+/**
+ * Privacy zones
+ *
+ * Riders can draw circles around places like home and work. Whenever one of their tracks is served
+ * to anyone else (a ride attached to a post, a group replay, an admin looking at a ride), the
+ * points inside those circles are cut out on the server, so where a ride starts and ends can't be
+ * read off the map. The rider still gets the full track. Tracks are stored whole and trimmed when
+ * they're read, so adding or moving a zone also covers rides shared before it existed.
+ *
+ * Tracks aren't cut at the zone itself: that would leave every trimmed end on the zone's circle,
+ * and a few rides would give its center away. Each zone gets a trim circle once, shifted by a
+ * random distance in a random direction and widened so it still covers the whole zone, and the
+ * trimming (on the server and in the rider's own exports) uses that circle.
+ */
+
+import * as db from "../db";
+import type { PrivacyZone } from "../../drizzle/schema";
+import {
+  MAX_PRIVACY_ZONES,
+  trimTrackToPrivacyZones,
+  type PrivacyZoneCircle,
+} from "../../shared/privacy-zones.js";
+
+/** Trim circles are shifted by up to this share of the zone radius */
+const TRIM_MAX_OFFSET = 0.5;
+
+/** ...and widened by up to this share on top of covering the zone */
+const TRIM_MAX_EXTRA_RADIUS = 0.25;
+
+const METERS_PER_DEGREE_LAT = 111_320;
+
+/**
+ * A random trim circle for a zone: its center moved by up to TRIM_MAX_OFFSET × radius, its radius
+ * the offset plus the zone's radius (so the zone stays covered) plus up to TRIM_MAX_EXTRA_RADIUS
+ */
+export function randomTrimCircle(zone: PrivacyZoneCircle, random: () => number = Math.random): PrivacyZoneCircle {
+  const offset = random() * TRIM_MAX_OFFSET * zone.radius;
+  const bearing = random() * 2 * Math.PI;
+  const latitude = zone.latitude + (offset * Math.cos(bearing)) / METERS_PER_DEGREE_LAT;
+  const longitude =
+    zone.longitude +
+    (offset * Math.sin(bearing)) / (METERS_PER_DEGREE_LAT * Math.cos((zone.latitude * Math.PI) / 180));
+  return {
+    latitude: Number(latitude.toFixed(7)),
+    longitude: Number(longitude.toFixed(7)),
+    // Rounded up, and a meter spare for the stored coordinates' rounding
+    radius: Math.ceil(zone.radius + offset + random() * TRIM_MAX_EXTRA_RADIUS * zone.radius) + 1,
+  };
+}
+
+type StoredZone = Pick<PrivacyZone, "latitude" | "longitude" | "radius"> &
+  Partial<Pick<PrivacyZone, "trimLatitude" | "trimLongitude" | "trimRadius">>;
+
+/**
+ * The circle tracks are trimmed to: the zone's trim circle, or the zone itself for a zone that
+ * doesn't have one yet
+ */
+export function toZoneCircle(zone: StoredZone): PrivacyZoneCircle {
+  if (zone.trimLatitude && zone.trimLongitude && zone.trimRadius) {
+    return { latitude: Number(zone.trimLatitude), longitude: Number(zone.trimLongitude), radius: zone.trimRadius };
+  }
+  return { latitude: Number(zone.latitude), longitude: Number(zone.longitude), radius: zone.radius };
+}
+
+/**
+ * Trim circles of the zones, picking and saving one for zones created before they existed
+ */
+async function trimCircles<T extends PrivacyZone>(zones: T[]): Promise<(T & { circle: PrivacyZoneCircle })[]> {
+  const circles: (T & { circle: PrivacyZoneCircle })[] = [];
+  for (const zone of zones) {
+    let circle = toZoneCircle(zone);
+    if (!zone.trimRadius) {
+      circle = randomTrimCircle(circle);
+      await db.setPrivacyZoneTrimCircle(zone.id, circle);
+    }
+    circles.push({ ...zone, circle });
+  }
+  return circles;
+}
+
+/**
+ * The rider's zones with the circles their own exports trim to
+ */
+export async function listPrivacyZones(userId: number) {
+  return trimCircles(await db.getPrivacyZones(userId));
+}
+
+/**
+ * Trims a ride's gpsPointsJson; points without a usable location are dropped as well, and a track
+ * that can't be read is withheld rather than passed through
+ */
+export function trimGpsPointsJson(gpsPointsJson: string | null, zones: PrivacyZoneCircle[]): string | null {
+  if (!gpsPointsJson || zones.length === 0) return gpsPointsJson;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(gpsPointsJson);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(raw)) return null;
+
+  const points = raw
+    .filter((p: any) => p && typeof p === "object")
+    .map((p: any) => ({ ...p, latitude: Number(p.latitude), longitude: Number(p.longitude) }))
+    .filter((p) => Number.isFinite(p.latitude) && Number.isFinite(p.longitude));
+  return JSON.stringify(trimTrackToPrivacyZones(points, zones));
+}
+
+/**
+ * A riding record as `viewerId` may see it: untouched for its owner, trimmed for everyone else
+ */
+export async function trimRideForViewer<T extends { userId: number; gpsPointsJson: string | null }>(
+  record: T,
+  viewerId: number
+): Promise<T> {
+  if (record.userId === viewerId) return record;
+  const zones = (await trimCircles(await db.getPrivacyZones(record.userId))).map((zone) => zone.circle);
+  if (zones.length === 0) return record;
+  return { ...record, gpsPointsJson: trimGpsPointsJson(record.gpsPointsJson, zones) };
+}
+
+/**
+ * Group replay tracks as `viewerId` may see them: their own in full, every other member's trimmed
+ * to that member's zones
+ */
+export async function trimGroupTracksForViewer<T extends { userId: number; track: { latitude: number; longitude: number }[] }>(
+  members: T[],
+  viewerId: number
+): Promise<T[]> {
+  const others = [...new Set(members.map((m) => m.userId).filter((id) => id !== viewerId))];
+  const zonesByUser = new Map<number, PrivacyZoneCircle[]>();
+  for (const zone of await trimCircles(await db.getPrivacyZonesForUsers(others))) {
+    const zones = zonesByUser.get(zone.userId) ?? [];
+    zones.push(zone.circle);
+    zonesByUser.set(zone.userId, zones);
+  }
+
+  return members.map((member) => {
+    const zones = member.userId === viewerId ? [] : zonesByUser.get(member.userId) ?? [];
+    return zones.length === 0 ? member : { ...member, track: trimTrackToPrivacyZones(member.track, zones) };
+  });
+}
+
+/**
+ * Adds a zone for the rider, up to MAX_PRIVACY_ZONES
+ */
+export async function addPrivacyZone(
+  userId: number,
+  input: { name: string; latitude: number; longitude: number; radius: number }
+): Promise<PrivacyZone> {
+  const existing = await db.getPrivacyZones(userId);
+  if (existing.length >= MAX_PRIVACY_ZONES) {
+    throw new Error(`개인정보 보호 구역은 최대 ${MAX_PRIVACY_ZONES}개까지 만들 수 있습니다.`);
+  }
+  const zone = await db.addPrivacyZone({
+    userId,
+    ...input,
+    name: input.name.trim(),
+    trimCircle: randomTrimCircle(input),
+  });
+  if (!zone) throw new Error("개인정보 보호 구역을 저장하지 못했습니다.");
+  return zone;
+}
@@ -0,0 +1,132 @@
+/**
+ * Group channel on top of a pub/sub adapter
+ *
+ * Every instance with members of a group subscribes to the group's channel. Events carry the id of
+ * the instance that published them, so presence an instance already has (its own sockets) can be
+ * skipped, while deliveries reach every instance including the sender. Presence is also kept in a
+ * shared hash so an instance whose first member joins later sees the rest of the group at once.
+ */
+
+import * as crypto from "crypto";
+import type { GroupRoute } from "../group-route";
+import type { RideRoles } from "../group-regroup";
+import type { PubSubAdapter } from "./index";
+
+export type GroupEvent<Member> =
+  | { kind: "presence"; member: Member }
+  | { kind: "leave"; userId: number }
+  // A serialized WebSocket message for the group's sockets (only userId's sockets when set)
+  | { kind: "deliver"; message: string; userId?: number }
+  | { kind: "route"; groupRoute: GroupRoute | null }
+  | { kind: "roles"; roles: RideRoles };
+
+export interface GroupEnvelope<Member> {
+  origin: string;
+  event: GroupEvent<Member>;
+}
+
+export interface PresenceEntry<Member> {
+  origin: string;
+  member: Member;
+  /** Epoch milliseconds of the last update */
+  updatedAt: number;
+}
+
+/** Presence not refreshed for this long belongs to a member (or instance) that is gone (ms) */
+export const PRESENCE_TTL_MS = 60_000;
+
+const channelKey = (groupId: number) => `scoop:group:${groupId}`;
+const presenceKey = (groupId: number) => `scoop:presence:${groupId}`;
+
+export class GroupBus<Member extends { userId: number }> {
+  private readonly handlers = new Map<number, (envelope: GroupEnvelope<Member>) => void>();
+
+  constructor(
+    private readonly adapter: PubSubAdapter,
+    readonly instanceId: string = crypto.randomUUID()
+  ) {}
+
+  /**
+   * Subscribes to a group's events (called when the group's first local member joins)
+   */
+  async join(groupId: number, handler: (envelope: GroupEnvelope<Member>) => void): Promise<void> {
+    this.handlers.set(groupId, handler);
+    try {
+      await this.adapter.subscribe(channelKey(groupId), (raw) => {
+        try {
+          handler(JSON.parse(raw) as GroupEnvelope<Member>);
+        } catch (error) {
+          console.error("[PubSub] Failed to handle event for group", groupId, error);
+        }
+      });
+    } catch (error) {
+      console.error("[PubSub] Failed to subscribe to group", groupId, error);
+    }
+  }
+
+  async leave(groupId: number): Promise<void> {
+    this.handlers.delete(groupId);
+    try {
+      await this.adapter.unsubscribe(channelKey(groupId));
+    } catch (error) {
+      console.error("[PubSub] Failed to unsubscribe from group", groupId, error);
+    }
+  }
+
+  /**
+   * Publishes to every instance; when pub/sub is unreachable the event is still handled locally
+   */
+  async publish(groupId: number, event: GroupEvent<Member>): Promise<void> {
+    const envelope: GroupEnvelope<Member> = { origin: this.instanceId, event };
+    try {
+      await this.adapter.publish(channelKey(groupId), JSON.stringify(envelope));
+    } catch (error) {
+      console.error("[PubSub] Failed to publish to group", groupId, error);
+      this.handlers.get(groupId)?.(envelope);
+    }
+  }
+
+  isLocal(envelope: GroupEnvelope<Member>): boolean {
+    return envelope.origin === this.instanceId;
+  }
+
+  async updatePresence(groupId: number, member: Member): Promise<void> {
+    const entry: PresenceEntry<Member> = { origin: this.instanceId, member, updatedAt: Date.now() };
+    try {
+      await this.adapter.hset(presenceKey(groupId), String(member.userId), JSON.stringify(entry), PRESENCE_TTL_MS);
+    } catch (error) {
+      console.error("[PubSub] Failed to store presence for group", groupId, error);
+    }
+    await this.publish(groupId, { kind: "presence", member });
+  }
+
+  async removePresence(groupId: number, userId: number): Promise<void> {
+    try {
+      await this.adapter.hdel(presenceKey(groupId), String(userId));
+    } catch (error) {
+      console.error("[PubSub] Failed to remove presence for group", groupId, error);
+    }
+    await this.publish(groupId, { kind: "leave", userId });
+  }
+
+  /**
+   * Fresh presence of the group's members connected to other instances
+   */
+  async getPresence(groupId: number): Promise<PresenceEntry<Member>[]> {
+    try {
+      const fields = await this.adapter.hgetall(presenceKey(groupId));
+      const now = Date.now();
+      return Object.values(fields)
+        .map((value) => JSON.parse(value) as PresenceEntry<Member>)
+        .filter((entry) => entry.origin !== this.instanceId && now - entry.updatedAt < PRESENCE_TTL_MS);
+    } catch (error) {
+      console.error("[PubSub] Failed to load presence for group", groupId, error);
+      return [];
+    }
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    await this.adapter.close();
+  }
+}
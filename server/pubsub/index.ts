@@ -0,0 +1,39 @@
+/**
+ * Pub/sub for the group riding WebSocket layer
+ *
+ * Each server instance only holds the sockets connected to it, so everything a group shares
+ * (member presence, chat, route and role changes) goes through a pub/sub adapter. The in-memory
+ * adapter serves a single instance (and tests); set REDIS_URL to run several instances behind a
+ * load balancer.
+ */
+
+import { MemoryPubSub } from "./memory";
+import { RedisPubSub } from "./redis";
+
+export interface PubSubAdapter {
+  /** Delivered to every subscriber of the channel, on every instance (including this one) */
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, handler: (message: string) => void): Promise<void>;
+  unsubscribe(channel: string): Promise<void>;
+  /** Shared hash storage; the key expires ttlMs after its last write */
+  hset(key: string, field: string, value: string, ttlMs: number): Promise<void>;
+  hdel(key: string, field: string): Promise<void>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  close(): Promise<void>;
+}
+
+/**
+ * Redis when REDIS_URL is configured, otherwise in-process
+ */
+export function createPubSubAdapter(): PubSubAdapter {
+  const redisUrl = process.env.REDIS_URL;
+  if (redisUrl) {
+    console.log("[PubSub] Using Redis for group riding fan-out");
+    return new RedisPubSub(redisUrl);
+  }
+  return new MemoryPubSub();
+}
+
+export { MemoryBroker, MemoryPubSub } from "./memory";
+export { RedisPubSub } from "./redis";
+export { GroupBus, PRESENCE_TTL_MS, type GroupEnvelope, type GroupEvent, type PresenceEntry } from "./group-bus";
@@ -0,0 +1,72 @@
+/**
+ * In-process pub/sub adapter
+ *
+ * Adapters sharing one broker behave like server instances sharing one Redis, which is how
+ * multi-instance behaviour is tested without a Redis server.
+ */
+
+import type { PubSubAdapter } from "./index";
+
+export class MemoryBroker {
+  readonly channels = new Map<string, Set<(message: string) => void>>();
+  readonly hashes = new Map<string, { fields: Map<string, string>; expiresAt: number }>();
+
+  hash(key: string): Map<string, string> | null {
+    const entry = this.hashes.get(key);
+    if (!entry) return null;
+    if (Date.now() >= entry.expiresAt) {
+      this.hashes.delete(key);
+      return null;
+    }
+    return entry.fields;
+  }
+}
+
+const defaultBroker = new MemoryBroker();
+
+export class MemoryPubSub implements PubSubAdapter {
+  private readonly handlers = new Map<string, (message: string) => void>();
+
+  constructor(private readonly broker: MemoryBroker = defaultBroker) {}
+
+  async publish(channel: string, message: string): Promise<void> {
+    const subscribers = this.broker.channels.get(channel);
+    if (!subscribers) return;
+    // Asynchronous like a network round trip, so callers can't depend on synchronous delivery
+    [...subscribers].forEach((handler) => queueMicrotask(() => handler(message)));
+  }
+
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    await this.unsubscribe(channel);
+    this.handlers.set(channel, handler);
+    if (!this.broker.channels.has(channel)) this.broker.channels.set(channel, new Set());
+    this.broker.channels.get(channel)!.add(handler);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    const handler = this.handlers.get(channel);
+    if (!handler) return;
+    this.handlers.delete(channel);
+    const subscribers = this.broker.channels.get(channel);
+    subscribers?.delete(handler);
+    if (subscribers?.size === 0) this.broker.channels.delete(channel);
+  }
+
+  async hset(key: string, field: string, value: string, ttlMs: number): Promise<void> {
+    const fields = this.broker.hash(key) ?? new Map<string, string>();
+    fields.set(field, value);
+    this.broker.hashes.set(key, { fields, expiresAt: Date.now() + ttlMs });
+  }
+
+  async hdel(key: string, field: string): Promise<void> {
+    this.broker.hash(key)?.delete(field);
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.broker.hash(key) ?? []);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([...this.handlers.keys()].map((channel) => this.unsubscribe(channel)));
+  }
+}
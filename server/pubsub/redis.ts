@@ -0,0 +1,315 @@
+/**
+ * Redis pub/sub adapter
+ *
+ * Speaks the Redis protocol (RESP2) directly over a TCP or TLS socket, so no client library is
+ * needed: one connection for commands and one held in subscribe mode. A connection that drops
+ * fails its pending commands and reconnects in the background, and channels are subscribed again
+ * once the subscriber connection is back.
+ */
+
+import net from "net";
+import tls from "tls";
+import type { PubSubAdapter } from "./index";
+
+export type RespValue = string | number | null | Error | RespValue[];
+
+const RECONNECT_DELAY_MS = 1000;
+
+/**
+ * Encodes a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: string[]): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    parts.push(`$${Buffer.byteLength(arg)}\r\n${arg}\r\n`);
+  }
+  return Buffer.from(parts.join(""));
+}
+
+function parseValue(buffer: Buffer, start: number): { value: RespValue; end: number } | null {
+  if (start >= buffer.length) return null;
+  const lineEnd = buffer.indexOf("\r\n", start);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[start]);
+  const line = buffer.toString("utf8", start + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, end: next };
+    case "-":
+      return { value: new Error(line), end: next };
+    case ":":
+      return { value: Number(line), end: next };
+    case "$": {
+      const length = Number(line);
+      if (length < 0) return { value: null, end: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString("utf8", next, next + length), end: next + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) return { value: null, end: next };
+      const items: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseValue(buffer, position);
+        if (!item) return null;
+        items.push(item.value);
+        position = item.end;
+      }
+      return { value: items, end: position };
+    }
+    default:
+      throw new Error(`Unexpected RESP type "${type}"`);
+  }
+}
+
+/**
+ * Incremental RESP reply parser; values can arrive split across any number of chunks
+ */
+export class RespParser {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(private readonly onValue: (value: RespValue) => void) {}
+
+  feed(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    for (;;) {
+      const parsed = parseValue(this.buffer, 0);
+      if (!parsed) return;
+      this.buffer = this.buffer.subarray(parsed.end);
+      this.onValue(parsed.value);
+    }
+  }
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+/** The part of a socket the connection uses */
+export type RedisSocket = Pick<net.Socket, "on" | "once" | "write" | "end" | "destroy">;
+
+/** Opens a socket to the server; `connectEvent` fires once it can carry commands */
+export type RedisSocketFactory = (url: URL) => { socket: RedisSocket; connectEvent: string };
+
+function openSocket(url: URL): { socket: RedisSocket; connectEvent: string } {
+  const host = url.hostname || "127.0.0.1";
+  const port = Number(url.port || 6379);
+  if (url.protocol === "rediss:") {
+    return { socket: tls.connect({ host, port, servername: host }), connectEvent: "secureConnect" };
+  }
+  return { socket: net.createConnection({ host, port }), connectEvent: "connect" };
+}
+
+class RedisConnection {
+  private socket: RedisSocket | null = null;
+  private ready: Promise<void> | null = null;
+  private pending: PendingReply[] = [];
+  private closed = false;
+  private hasConnected = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly url: URL,
+    private readonly createSocket: RedisSocketFactory,
+    private readonly onMessage?: (channel: string, message: string) => void,
+    private readonly onReconnect?: () => void
+  ) {}
+
+  async command(args: string[]): Promise<RespValue> {
+    await this.connect();
+    return this.write(args);
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.socket?.end();
+  }
+
+  private write(args: string[]): Promise<RespValue> {
+    const socket = this.socket;
+    if (!socket) return Promise.reject(new Error("Redis connection closed"));
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<void> {
+    if (this.closed) return Promise.reject(new Error("Redis connection closed"));
+    if (this.ready) return this.ready;
+
+    const attempt = this.open();
+    this.ready = attempt;
+    attempt.catch(() => {
+      if (this.ready === attempt) this.ready = null;
+      this.scheduleReconnect();
+    });
+    return attempt;
+  }
+
+  /**
+   * Resolves once the socket is up and authenticated and rejects if it closes before then. A close
+   * after that goes to handleDisconnect instead, since this promise has already settled.
+   */
+  private open(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const { socket, connectEvent } = this.createSocket(this.url);
+      const parser = new RespParser((value) => this.handleReply(value));
+      let connected = false;
+
+      socket.on("data", (chunk: Buffer) => {
+        try {
+          parser.feed(chunk);
+        } catch (error) {
+          console.error("[PubSub] Invalid Redis reply:", error);
+          socket.destroy();
+        }
+      });
+
+      socket.once(connectEvent, async () => {
+        this.socket = socket;
+        try {
+          if (this.url.password) {
+            const username = decodeURIComponent(this.url.username);
+            const password = decodeURIComponent(this.url.password);
+            await this.expectOk(username ? ["AUTH", username, password] : ["AUTH", password]);
+          }
+          const database = this.url.pathname.slice(1);
+          if (database) await this.expectOk(["SELECT", database]);
+        } catch (error) {
+          reject(error);
+          socket.destroy();
+          return;
+        }
+        connected = true;
+        resolve();
+        // Channels subscribed on the lost connection are subscribed again on this one
+        if (this.hasConnected) this.onReconnect?.();
+        this.hasConnected = true;
+      });
+
+      socket.on("error", (error) => {
+        console.error("[PubSub] Redis connection error:", error.message);
+      });
+
+      socket.on("close", () => {
+        if (this.socket === socket) this.socket = null;
+        const failed = this.pending;
+        this.pending = [];
+        failed.forEach((reply) => reply.reject(new Error("Redis connection closed")));
+
+        if (connected) this.handleDisconnect();
+        else reject(new Error("Redis connection closed"));
+      });
+    });
+  }
+
+  /**
+   * The connection dropped after it was up: forget it and reconnect in the background
+   */
+  private handleDisconnect(): void {
+    this.ready = null;
+    if (this.closed) return;
+    console.warn("[PubSub] Lost the Redis connection, reconnecting");
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(() => {
+        // A failed attempt schedules the next one
+      });
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private async expectOk(args: string[]): Promise<void> {
+    const reply = await this.write(args);
+    if (reply !== "OK") throw new Error(`Redis ${args[0]} failed`);
+  }
+
+  private handleReply(value: RespValue): void {
+    // Published messages arrive unprompted on the subscriber connection
+    if (this.onMessage && Array.isArray(value) && value[0] === "message") {
+      this.onMessage(String(value[1]), String(value[2]));
+      return;
+    }
+    const reply = this.pending.shift();
+    if (!reply) return;
+    if (value instanceof Error) reply.reject(value);
+    else reply.resolve(value);
+  }
+}
+
+export class RedisPubSub implements PubSubAdapter {
+  private readonly commands: RedisConnection;
+  private readonly subscriber: RedisConnection;
+  private readonly handlers = new Map<string, (message: string) => void>();
+
+  constructor(url: string, createSocket: RedisSocketFactory = openSocket) {
+    const parsed = new URL(url);
+    this.commands = new RedisConnection(parsed, createSocket);
+    this.subscriber = new RedisConnection(
+      parsed,
+      createSocket,
+      (channel, message) => this.handlers.get(channel)?.(message),
+      () => this.resubscribe()
+    );
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.commands.command(["PUBLISH", channel, message]);
+  }
+
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    this.handlers.set(channel, handler);
+    await this.subscriber.command(["SUBSCRIBE", channel]);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    if (!this.handlers.delete(channel)) return;
+    await this.subscriber.command(["UNSUBSCRIBE", channel]);
+  }
+
+  async hset(key: string, field: string, value: string, ttlMs: number): Promise<void> {
+    await this.commands.command(["HSET", key, field, value]);
+    await this.commands.command(["PEXPIRE", key, String(ttlMs)]);
+  }
+
+  async hdel(key: string, field: string): Promise<void> {
+    await this.commands.command(["HDEL", key, field]);
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    const reply = await this.commands.command(["HGETALL", key]);
+    const result: Record<string, string> = {};
+    if (Array.isArray(reply)) {
+      for (let i = 0; i + 1 < reply.length; i += 2) {
+        result[String(reply[i])] = String(reply[i + 1]);
+      }
+    }
+    return result;
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    this.commands.close();
+    this.subscriber.close();
+  }
+
+  private resubscribe(): void {
+    this.handlers.forEach((_, channel) => {
+      this.subscriber.command(["SUBSCRIBE", channel]).catch((error) => {
+        console.error("[PubSub] Failed to resubscribe to", channel, error);
+      });
+    });
+  }
+}
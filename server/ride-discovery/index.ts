@@ -0,0 +1,281 @@
+/**
+ * Discovery of group rides to join near the rider
+ *
+ * Lists public scheduled rides and public groups waiting to ride with a published meeting point,
+ * filtered by distance from the rider, the riders' typical pace, their scooter class and start
+ * time. A ride's pace is the median of its riders' typical average speed over their recent rides
+ * (falling back to the pace the host picked). Locations are only ever returned snapped to a coarse
+ * grid, and distances rounded, so a meeting point set at someone's home can't be pinpointed;
+ * riders see the exact meeting point once they RSVP. The radius filter also measures to the
+ * snapped location, so probing with different radii can't narrow it down either.
+ */
+
+import * as db from "../db";
+import { haversineDistance, type SegmentPoint } from "../segments/matching";
+import { parseSharedRoute } from "../group-route";
+import { PACE_SPEED_RANGES, type PaceLevel } from "../../shared/scheduled-ride.js";
+import { scooterClassForVoltage, type ScooterClass } from "../../shared/ride-discovery.js";
+
+/** Rides considered for a rider's typical speed */
+const TYPICAL_SPEED_WINDOW_MS = 90 * 24 * 60 * 60_000;
+const TYPICAL_SPEED_MAX_RIDES = 20;
+/** Short hops (e.g. moving the scooter around) don't say much about pace (meters) */
+const TYPICAL_SPEED_MIN_DISTANCE_M = 1000;
+
+/** "Match my pace" keeps rides within this much of the rider's typical speed (km/h) */
+export const PACE_MATCH_TOLERANCE = 3;
+
+/** Grid that locations are snapped to before leaving the server (~550m north-south) */
+export const LOCATION_GRID_DEG = 0.005;
+
+/** Distances are rounded to this (meters) */
+const DISTANCE_STEP_M = 500;
+
+const MAX_RESULTS = 50;
+
+export interface DiscoveryFilters {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+  /** Start time window (epoch ms) */
+  from: number;
+  until: number;
+  /** Typical pace range of the ride's riders (km/h) */
+  minSpeed?: number;
+  maxSpeed?: number;
+  /** Use the rider's own typical speed ± PACE_MATCH_TOLERANCE instead of minSpeed/maxSpeed */
+  matchMyPace?: boolean;
+  scooterClass?: ScooterClass;
+}
+
+export interface DiscoveredRide {
+  kind: "scheduled_ride" | "group";
+  id: number;
+  title: string;
+  hostName: string | null;
+  /** Epoch ms; null for groups, which ride as soon as the host starts */
+  startsAt: number | null;
+  meetingPointName: string;
+  /** Meeting point snapped to LOCATION_GRID_DEG */
+  approximateLocation: SegmentPoint;
+  /** Rounded to 0.5 km */
+  distanceKm: number;
+  /** Median typical speed of the riders (km/h), null when unknown */
+  typicalSpeed: number | null;
+  paceLevel: PaceLevel | null;
+  scooterClasses: ScooterClass[];
+  riderCount: number;
+  capacity: number | null;
+  /** Group code to ask to join (groups only) */
+  code: string | null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * A rider's typical average speed: the median of their latest rides (newest first)
+ */
+export function typicalSpeed(recentSpeeds: number[]): number | null {
+  const speeds = recentSpeeds.filter((speed) => speed > 0).slice(0, TYPICAL_SPEED_MAX_RIDES);
+  const value = median(speeds);
+  return value === null ? null : Math.round(value * 10) / 10;
+}
+
+/**
+ * The pace of a ride: the median of its riders' typical speeds, or the middle of the pace the host picked
+ */
+export function rideTypicalSpeed(riderSpeeds: (number | null)[], paceLevel: PaceLevel | null): number | null {
+  const known = median(riderSpeeds.filter((speed): speed is number => speed !== null));
+  if (known !== null) return Math.round(known * 10) / 10;
+  if (!paceLevel) return null;
+  const { min, max } = PACE_SPEED_RANGES[paceLevel];
+  return (min + max) / 2;
+}
+
+/**
+ * Center of the grid cell a location falls in
+ */
+export function approximateLocation(point: SegmentPoint): SegmentPoint {
+  const snap = (value: number) => Number(((Math.floor(value / LOCATION_GRID_DEG) + 0.5) * LOCATION_GRID_DEG).toFixed(6));
+  return { latitude: snap(point.latitude), longitude: snap(point.longitude) };
+}
+
+/**
+ * Distance (m) from the rider to the snapped meeting point; the exact point never enters it
+ */
+export function approximateDistance(origin: SegmentPoint, meetingPoint: SegmentPoint): number {
+  return haversineDistance(origin, approximateLocation(meetingPoint));
+}
+
+export function roundDistanceKm(meters: number): number {
+  return Math.max(DISTANCE_STEP_M, Math.round(meters / DISTANCE_STEP_M) * DISTANCE_STEP_M) / 1000;
+}
+
+/**
+ * Whether a ride passes the pace and scooter filters
+ */
+export function matchesRideFilters(
+  ride: { typicalSpeed: number | null; scooterClasses: ScooterClass[] },
+  filters: { minSpeed?: number; maxSpeed?: number; scooterClass?: ScooterClass }
+): boolean {
+  if (filters.minSpeed !== undefined || filters.maxSpeed !== undefined) {
+    if (ride.typicalSpeed === null) return false;
+    if (filters.minSpeed !== undefined && ride.typicalSpeed < filters.minSpeed) return false;
+    if (filters.maxSpeed !== undefined && ride.typicalSpeed > filters.maxSpeed) return false;
+  }
+  if (filters.scooterClass && !ride.scooterClasses.includes(filters.scooterClass)) return false;
+  return true;
+}
+
+async function loadTypicalSpeeds(userIds: number[]): Promise<Map<number, number | null>> {
+  const rows = await db.getRecentRideSpeeds(
+    userIds,
+    new Date(Date.now() - TYPICAL_SPEED_WINDOW_MS),
+    TYPICAL_SPEED_MIN_DISTANCE_M
+  );
+  const speedsByUser = new Map<number, number[]>();
+  for (const row of rows) {
+    const speeds = speedsByUser.get(row.userId) ?? [];
+    speeds.push(row.avgSpeed);
+    speedsByUser.set(row.userId, speeds);
+  }
+  return new Map(userIds.map((userId) => [userId, typicalSpeed(speedsByUser.get(userId) ?? [])]));
+}
+
+/**
+ * Rides and groups near the rider that pass the filters, nearest first
+ */
+export async function discoverRides(
+  userId: number,
+  filters: DiscoveryFilters,
+  now: number = Date.now()
+): Promise<{ myTypicalSpeed: number | null; rides: DiscoveredRide[] }> {
+  const origin = { latitude: filters.latitude, longitude: filters.longitude };
+  const radiusM = filters.radiusKm * 1000;
+
+  interface Candidate {
+    kind: DiscoveredRide["kind"];
+    id: number;
+    title: string;
+    hostId: number;
+    hostName: string | null;
+    startsAt: number | null;
+    meetingPoint: SegmentPoint & { name: string };
+    distance: number;
+    paceLevel: PaceLevel | null;
+    capacity: number | null;
+    code: string | null;
+    riderIds: number[];
+  }
+  const candidates: Candidate[] = [];
+
+  for (const ride of await db.getPublicScheduledRides(new Date(filters.from), new Date(filters.until))) {
+    if (ride.hostId === userId) continue;
+    const meetingPoint = {
+      name: ride.meetingPointName,
+      latitude: Number(ride.meetingLatitude),
+      longitude: Number(ride.meetingLongitude),
+    };
+    const distance = approximateDistance(origin, meetingPoint);
+    if (distance > radiusM) continue;
+    candidates.push({
+      kind: "scheduled_ride",
+      id: ride.id,
+      title: ride.title,
+      hostId: ride.hostId,
+      hostName: ride.hostName,
+      startsAt: ride.startsAt.getTime(),
+      meetingPoint,
+      distance,
+      paceLevel: ride.paceLevel,
+      capacity: ride.capacity,
+      code: null,
+      riderIds: [],
+    });
+  }
+
+  // Groups ride as soon as the host starts, so they only match a window that includes now
+  if (filters.from <= now && now <= filters.until) {
+    for (const group of await db.getRecruitingGroups()) {
+      if (group.hostId === userId) continue;
+      let meetingPoint: (SegmentPoint & { name: string }) | null = null;
+      try {
+        meetingPoint = parseSharedRoute(JSON.parse(group.sharedRouteJson ?? "null"))?.meetingPoint ?? null;
+      } catch {
+        meetingPoint = null;
+      }
+      if (!meetingPoint) continue;
+      const distance = approximateDistance(origin, meetingPoint);
+      if (distance > radiusM) continue;
+      candidates.push({
+        kind: "group",
+        id: group.id,
+        title: group.name,
+        hostId: group.hostId,
+        hostName: group.hostName,
+        startsAt: null,
+        meetingPoint,
+        distance,
+        paceLevel: null,
+        capacity: null,
+        code: group.code,
+        riderIds: [],
+      });
+    }
+  }
+
+  const rideIds = candidates.filter((c) => c.kind === "scheduled_ride").map((c) => c.id);
+  const groupIds = candidates.filter((c) => c.kind === "group").map((c) => c.id);
+  for (const { rideId, userId: riderId } of await db.getGoingRiders(rideIds)) {
+    candidates.find((c) => c.kind === "scheduled_ride" && c.id === rideId)?.riderIds.push(riderId);
+  }
+  for (const { groupId, userId: memberId } of await db.getApprovedGroupMemberIds(groupIds)) {
+    candidates.find((c) => c.kind === "group" && c.id === groupId)?.riderIds.push(memberId);
+  }
+
+  const userIds = [...new Set([userId, ...candidates.flatMap((c) => [c.hostId, ...c.riderIds])])];
+  const speeds = await loadTypicalSpeeds(userIds);
+  const classes = new Map<number, ScooterClass | null>();
+  for (const scooter of await db.getDefaultScooterVoltages(userIds)) {
+    classes.set(scooter.userId, scooterClassForVoltage(scooter.batteryVoltage));
+  }
+
+  const myTypicalSpeed = speeds.get(userId) ?? null;
+  let { minSpeed, maxSpeed } = filters;
+  if (filters.matchMyPace && myTypicalSpeed !== null) {
+    minSpeed = myTypicalSpeed - PACE_MATCH_TOLERANCE;
+    maxSpeed = myTypicalSpeed + PACE_MATCH_TOLERANCE;
+  }
+
+  const rides = candidates
+    .map((candidate): DiscoveredRide => {
+      const riders = candidate.riderIds.length > 0 ? candidate.riderIds : [candidate.hostId];
+      const scooterClasses = [...new Set(riders.map((id) => classes.get(id)).filter((c): c is ScooterClass => !!c))];
+      return {
+        kind: candidate.kind,
+        id: candidate.id,
+        title: candidate.title,
+        hostName: candidate.hostName,
+        startsAt: candidate.startsAt,
+        meetingPointName: candidate.meetingPoint.name,
+        approximateLocation: approximateLocation(candidate.meetingPoint),
+        distanceKm: roundDistanceKm(candidate.distance),
+        typicalSpeed: rideTypicalSpeed(riders.map((id) => speeds.get(id) ?? null), candidate.paceLevel),
+        paceLevel: candidate.paceLevel,
+        scooterClasses,
+        riderCount: candidate.riderIds.length,
+        capacity: candidate.capacity,
+        code: candidate.code,
+      };
+    })
+    .filter((ride) => matchesRideFilters(ride, { minSpeed, maxSpeed, scooterClass: filters.scooterClass }))
+    .sort((a, b) => a.distanceKm - b.distanceKm || (a.startsAt ?? now) - (b.startsAt ?? now))
+    .slice(0, MAX_RESULTS);
+
+  return { myTypicalSpeed, rides };
+}
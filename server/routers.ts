@@ -8,6 +8,55 @@ import * as jose from "jose";
 import { ENV } from "./_core/env";
 import { getWeatherInfo, type WeatherInfo } from "./weather";
 import { aiUsageRouter } from "./ai-usage-router";
+import { planRoute, RoutingError } from "./routing";
+import {
+  computeElevationGainLoss,
+  correctTrackElevation,
+  isElevationConfigured,
+  lookupElevations,
+  type TrackElevation,
+} from "./elevation";
+import { parseTrack, recordEffortsOnSegment, recordSegmentEfforts } from "./segments";
+import {
+  MAX_SEGMENT_DISTANCE,
+  MIN_SEGMENT_DISTANCE,
+  boundingBox,
+  polylineDistance,
+  simplifySegment,
+} from "./segments/matching";
+import { reviewRideTransport, type ReviewedSegment } from "./transport";
+import { formatGroupRidePost, loadGroupRide, recordGroupRideTrack, rerecordGroupRideTrack } from "./group-replay";
+import { sendVoiceClip } from "./group-voice";
+import { MAX_ROUTE_POINTS } from "./group-route";
+import { refreshGroupRideRoles } from "./websocket";
+import {
+  START_GRACE_MS,
+  canViewScheduledRide,
+  cancelScheduledRide,
+  createScheduledRide,
+  formatScheduledRidePost,
+  plannedRoute,
+  rsvpToScheduledRide,
+} from "./scheduled-rides";
+import { approximateLocation, discoverRides } from "./ride-discovery";
+import { addPrivacyZone, listPrivacyZones, trimGroupTracksForViewer, trimRideForViewer } from "./privacy-zones";
+import {
+  createShareLink,
+  friendsWhoCanSee,
+  getLocationSharingSettings,
+  getLocationViewLog,
+  getShareLinks,
+  getVisibleFriendLocations,
+} from "./location-sharing";
+import { predictConsumption, retrainConsumptionModel } from "./consumption-model";
+import { getMonthlyChargingReport, recordChargingSession, toTariff } from "./charging";
+import { getBatteryReminderSettings } from "./battery-reminders";
+import { PACE_LEVELS } from "../shared/scheduled-ride.js";
+import { MAX_PRIVACY_ZONE_RADIUS_M, MIN_PRIVACY_ZONE_RADIUS_M } from "../shared/privacy-zones.js";
+import { LOCATION_SHARE_MODES, SHARE_LINK_DURATIONS_HOURS, shareLinkPath } from "../shared/location-sharing.js";
+import { MAX_DISCOVERY_RADIUS_KM, MIN_DISCOVERY_RADIUS_KM, SCOOTER_CLASSES } from "../shared/ride-discovery.js";
+import { MAX_VOLTAGE_SAMPLES, integrateEnergyWh, type VoltageSample } from "../shared/telemetry.js";
+import { CHARGER_LOCATIONS, MAX_CHARGING_DURATION_MINUTES } from "../shared/charging.js";
 
 // JWT secret for session tokens - MUST match sdk.ts getSessionSecret()
 // Uses ENV.cookieSecret which comes from JWT_SECRET environment variable
@@ -57,6 +106,101 @@ async function verifyPasswordResetToken(token: string): Promise<{ email: string
   }
 }
 
+// Log a ride's battery consumption (SOC drop x pack capacity) so route planning can learn Wh/km,
+// then refit the scooter's consumption model
+async function logBatteryRide(
+  userId: number,
+  ride: {
+    recordId: string;
+    scooterId: number;
+    distance: number;
+    avgSpeed: number;
+    voltageStart?: string;
+    voltageEnd?: string;
+    socStart?: string;
+    socEnd?: string;
+    temperature?: string;
+    windSpeed?: number;
+    weatherCondition?: string;
+    elevationGain?: number;
+    elevationLoss?: number;
+    voltageSamples?: VoltageSample[];
+  }
+): Promise<void> {
+  if (ride.distance <= 0) return;
+  // Measured energy when the controller reported current, otherwise the SOC drop
+  const measuredWh = ride.voltageSamples ? integrateEnergyWh(ride.voltageSamples) : null;
+  const socConsumed = ride.socStart && ride.socEnd ? parseFloat(ride.socStart) - parseFloat(ride.socEnd) : NaN;
+  if (measuredWh === null && !(socConsumed > 0)) return;
+
+  const scooter = await db.getScooterById(ride.scooterId, userId);
+  if (!scooter) return;
+
+  const totalCapacityWh = (scooter.batteryVoltage || 60) * parseFloat(scooter.batteryCapacity || "30");
+  const energyWh = measuredWh ?? (totalCapacityWh * socConsumed) / 100;
+  if (!(energyWh > 0)) return;
+  const efficiencyWhKm = energyWh / (ride.distance / 1000);
+
+  await db.createBatteryRideLog({
+    userId,
+    scooterId: ride.scooterId,
+    ridingRecordId: ride.recordId,
+    voltageStart: ride.voltageStart,
+    voltageEnd: ride.voltageEnd,
+    socStart: ride.socStart,
+    socEnd: ride.socEnd,
+    energyConsumed: energyWh.toFixed(2),
+    distance: Math.round(ride.distance),
+    efficiency: Math.min(efficiencyWhKm, 9999).toFixed(2),
+    avgSpeed: ride.avgSpeed.toFixed(2),
+    temperature: ride.temperature,
+    windSpeed: ride.windSpeed !== undefined ? ride.windSpeed.toFixed(1) : undefined,
+    riderWeight: scooter.riderWeight,
+    weatherCondition: ride.weatherCondition,
+    elevationGain: ride.elevationGain,
+    elevationLoss: ride.elevationLoss,
+    voltageSamples: ride.voltageSamples?.length ? JSON.stringify(ride.voltageSamples) : undefined,
+  });
+  await retrainConsumptionModel(userId, ride.scooterId);
+}
+
+// Replace a new ride's GPS altitudes with DEM elevations (null when not configured or out of coverage)
+async function correctRideElevation(gpsPointsJson: string | undefined): Promise<TrackElevation | null> {
+  if (!gpsPointsJson || !isElevationConfigured()) return null;
+  try {
+    return await correctTrackElevation(gpsPointsJson);
+  } catch (error) {
+    console.error("[Elevation] Failed to correct track:", error);
+    return null;
+  }
+}
+
+// Route planned for a scheduled ride (a SharedRoute; its distance is measured again on the server)
+const sharedRouteInput = z.object({
+  name: z.string().max(100),
+  points: z
+    .array(z.object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+    }))
+    .min(2)
+    .max(MAX_ROUTE_POINTS),
+  totalDistance: z.number().min(0).optional(),
+});
+
+// Edited ride fields sent by the ride editor (stats recomputed from the edited track)
+const editedRideInput = {
+  recordId: z.string(),
+  date: z.string(),
+  duration: z.number(),
+  distance: z.number(),
+  avgSpeed: z.number(),
+  maxSpeed: z.number(),
+  startTime: z.string(),
+  endTime: z.string(),
+  gpsPointsJson: z.string().optional(),
+};
+
 export const appRouter = router({
   // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
   system: systemRouter,
@@ -310,10 +454,13 @@ export const appRouter = router({
     }),
 
     // Get a specific riding record by ID (for viewing shared records)
+    // Other riders (admins included) get the track with the owner's privacy zones cut out
     getById: protectedProcedure
       .input(z.object({ recordId: z.string() }))
-      .query(async ({ input }) => {
-        return db.getRidingRecordById(input.recordId);
+      .query(async ({ ctx, input }) => {
+        const record = await db.getRidingRecordById(input.recordId);
+        if (!record) return record;
+        return trimRideForViewer(record, ctx.user.id);
       }),
     
     // Check if a record exists by recordId (for sync check)
@@ -324,6 +471,27 @@ export const appRouter = router({
         return record;
       }),
 
+    // Vehicle / walking segments found in a ride and how much was left out of its stats
+    transportReview: protectedProcedure
+      .input(z.object({ recordId: z.string() }))
+      .query(async ({ ctx, input }) => {
+        const record = await db.getRidingRecordByRecordId(input.recordId, ctx.user.id);
+        if (!record?.transportStatus) return null;
+
+        let segments: ReviewedSegment[] = [];
+        try {
+          segments = record.transportSegmentsJson ? JSON.parse(record.transportSegmentsJson) : [];
+        } catch {
+          console.error("[rides.transportReview] Invalid segments JSON:", record.recordId);
+        }
+        return {
+          status: record.transportStatus,
+          excludedDistance: record.excludedDistance ?? 0,
+          excludedDuration: record.excludedDuration ?? 0,
+          segments,
+        };
+      }),
+
     create: protectedProcedure
       .input(
         z.object({
@@ -350,6 +518,13 @@ export const appRouter = router({
           windDirection: z.number().optional(),
           precipitationType: z.number().optional(),
           weatherCondition: z.string().optional(),
+          // Group session the ride was part of (kept with the session for the group replay)
+          groupId: z.number().optional(),
+          // Controller voltage samples from a telemetry adapter
+          voltageSamples: z
+            .array(z.tuple([z.number(), z.number(), z.number().nullable()]))
+            .max(MAX_VOLTAGE_SAMPLES)
+            .optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
@@ -370,17 +545,27 @@ export const appRouter = router({
             }
           }
           
+          const elevation = await correctRideElevation(input.gpsPointsJson);
+          // Car/bus/subway and walking segments don't count toward stats and rankings
+          const { stats, ...transport } = reviewRideTransport(input.gpsPointsJson, input);
+          if (transport.transportStatus) {
+            console.log("[rides.create] Transport review:", transport.transportStatus, {
+              excludedDistance: transport.excludedDistance,
+              excludedDuration: transport.excludedDuration,
+            });
+          }
+
           const result = await db.createRidingRecord({
             userId: ctx.user.id,
             recordId: input.recordId,
             date: input.date,
-            duration: input.duration,
-            distance: Math.round(input.distance),
-            avgSpeed: Math.round(input.avgSpeed * 10),
-            maxSpeed: Math.round(input.maxSpeed * 10),
+            duration: Math.round(stats.duration),
+            distance: Math.round(stats.distance),
+            avgSpeed: Math.round(stats.avgSpeed * 10),
+            maxSpeed: Math.round(stats.maxSpeed * 10),
             startTime: input.startTime ? new Date(input.startTime) : undefined,
             endTime: input.endTime ? new Date(input.endTime) : undefined,
-            gpsPointsJson: input.gpsPointsJson,
+            gpsPointsJson: elevation?.gpsPointsJson ?? input.gpsPointsJson,
             scooterId: input.scooterId,
             voltageStart: input.voltageStart,
             voltageEnd: input.voltageEnd,
@@ -393,8 +578,33 @@ export const appRouter = router({
             windDirection: input.windDirection,
             precipitationType: input.precipitationType,
             weatherCondition: input.weatherCondition,
+            elevationGain: elevation?.elevationGain,
+            elevationLoss: elevation?.elevationLoss,
+            elevationSource: elevation ? "dem" : undefined,
+            ...transport,
           });
           console.log("[rides.create] Success, id:", result);
+
+          // Match the track against nearby segments (efforts + PR notifications)
+          if (result) {
+            try {
+              const efforts = await recordSegmentEfforts(ctx.user.id, result, elevation?.gpsPointsJson ?? input.gpsPointsJson);
+              if (efforts.length > 0) {
+                console.log("[rides.create] Segment efforts:", efforts.length);
+              }
+            } catch (segmentError) {
+              console.error("[rides.create] Failed to match segments:", segmentError);
+            }
+          }
+
+          // Keep the ride with its group session for the group replay
+          if (result && input.groupId) {
+            try {
+              await recordGroupRideTrack(ctx.user.id, input.groupId, input, stats);
+            } catch (groupError) {
+              console.error("[rides.create] Failed to save group ride track:", groupError);
+            }
+          }
           
           // Update scooter stats if scooterId is provided
           if (input.scooterId) {
@@ -402,16 +612,29 @@ export const appRouter = router({
               const statsUpdated = await db.updateScooterStats(
                 input.scooterId,
                 ctx.user.id,
-                Math.round(input.distance)
+                Math.round(stats.distance)
               );
               console.log("[rides.create] Scooter stats updated:", statsUpdated);
             } catch (statsError) {
               console.error("[rides.create] Failed to update scooter stats:", statsError);
               // Don't fail the ride creation if stats update fails
             }
+
+            try {
+              await logBatteryRide(ctx.user.id, {
+                ...input,
+                distance: stats.distance,
+                avgSpeed: stats.avgSpeed,
+                scooterId: input.scooterId,
+                elevationGain: elevation?.elevationGain,
+                elevationLoss: elevation?.elevationLoss,
+              });
+            } catch (logError) {
+              console.error("[rides.create] Failed to log battery consumption:", logError);
+            }
           }
           
-          return { success: true, id: result };
+          return { success: true, id: result, transportStatus: transport.transportStatus };
         } catch (error: any) {
           console.error("[rides.create] Error:", error?.message || error);
           // Check for duplicate key error
@@ -423,6 +646,276 @@ export const appRouter = router({
         }
       }),
 
+    // Bulk import of rides parsed from a GPX/TCX/FIT archive (client unzips and computes stats)
+    importArchive: protectedProcedure
+      .input(
+        z.object({
+          // Default scooter for rides without their own scooterId
+          scooterId: z.number().optional(),
+          rides: z.array(
+            z.object({
+              fileName: z.string().max(255),
+              recordId: z.string(),
+              date: z.string(),
+              duration: z.number(),
+              distance: z.number(),
+              avgSpeed: z.number(),
+              maxSpeed: z.number(),
+              startTime: z.string(),
+              endTime: z.string().optional(),
+              gpsPointsJson: z.string().optional(),
+              scooterId: z.number().optional(),
+              voltageStart: z.string().optional(),
+              voltageEnd: z.string().optional(),
+              socStart: z.string().optional(),
+              socEnd: z.string().optional(),
+            })
+          ).min(1).max(50),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        console.log("[rides.importArchive] Called by user:", ctx.user.id, "rides:", input.rides.length);
+
+        // Scooter ownership is checked once per distinct scooterId
+        const scooterOwnership = new Map<number, boolean>();
+        const ownsScooter = async (scooterId: number) => {
+          if (!scooterOwnership.has(scooterId)) {
+            const scooter = await db.getScooterById(scooterId, ctx.user.id);
+            scooterOwnership.set(scooterId, !!scooter);
+          }
+          return scooterOwnership.get(scooterId)!;
+        };
+
+        const results: {
+          fileName: string;
+          status: "imported" | "duplicate" | "failed";
+          id?: number | null;
+          error?: string;
+        }[] = [];
+
+        for (const ride of input.rides) {
+          try {
+            const startTime = new Date(ride.startTime);
+            if (isNaN(startTime.getTime())) {
+              results.push({ fileName: ride.fileName, status: "failed", error: "Invalid start time" });
+              continue;
+            }
+
+            const existing = await db.getRidingRecordByStartTime(ctx.user.id, startTime, 60);
+            if (existing) {
+              results.push({ fileName: ride.fileName, status: "duplicate", id: existing.id });
+              continue;
+            }
+
+            const scooterId = ride.scooterId ?? input.scooterId;
+            if (scooterId !== undefined && !(await ownsScooter(scooterId))) {
+              results.push({ fileName: ride.fileName, status: "failed", error: "Scooter not found" });
+              continue;
+            }
+
+            const endTime = ride.endTime ? new Date(ride.endTime) : undefined;
+            const elevation = await correctRideElevation(ride.gpsPointsJson);
+            const { stats, ...transport } = reviewRideTransport(ride.gpsPointsJson, ride);
+            const id = await db.createRidingRecord({
+              userId: ctx.user.id,
+              recordId: ride.recordId,
+              date: ride.date,
+              duration: Math.round(stats.duration),
+              distance: Math.round(stats.distance),
+              avgSpeed: Math.round(stats.avgSpeed * 10),
+              maxSpeed: Math.round(stats.maxSpeed * 10),
+              startTime,
+              endTime: endTime && !isNaN(endTime.getTime()) ? endTime : undefined,
+              gpsPointsJson: elevation?.gpsPointsJson ?? ride.gpsPointsJson,
+              scooterId,
+              voltageStart: ride.voltageStart,
+              voltageEnd: ride.voltageEnd,
+              socStart: ride.socStart,
+              socEnd: ride.socEnd,
+              elevationGain: elevation?.elevationGain,
+              elevationLoss: elevation?.elevationLoss,
+              elevationSource: elevation ? "dem" : undefined,
+              ...transport,
+            });
+
+            if (scooterId !== undefined) {
+              try {
+                await db.updateScooterStats(scooterId, ctx.user.id, Math.round(stats.distance));
+              } catch (statsError) {
+                console.error("[rides.importArchive] Failed to update scooter stats:", statsError);
+              }
+
+              try {
+                await logBatteryRide(ctx.user.id, {
+                  ...ride,
+                  distance: stats.distance,
+                  avgSpeed: stats.avgSpeed,
+                  scooterId,
+                  elevationGain: elevation?.elevationGain,
+                  elevationLoss: elevation?.elevationLoss,
+                });
+              } catch (logError) {
+                console.error("[rides.importArchive] Failed to log battery consumption:", logError);
+              }
+            }
+
+            // Historical rides count toward leaderboards but don't send PR notifications
+            if (id) {
+              try {
+                await recordSegmentEfforts(ctx.user.id, id, elevation?.gpsPointsJson ?? ride.gpsPointsJson, { notify: false });
+              } catch (segmentError) {
+                console.error("[rides.importArchive] Failed to match segments:", segmentError);
+              }
+            }
+
+            results.push({ fileName: ride.fileName, status: "imported", id });
+          } catch (error: any) {
+            if (error?.message?.includes("Duplicate") || error?.code === "ER_DUP_ENTRY") {
+              results.push({ fileName: ride.fileName, status: "duplicate", id: null });
+              continue;
+            }
+            console.error("[rides.importArchive] Failed:", ride.fileName, error?.message || error);
+            results.push({ fileName: ride.fileName, status: "failed", error: error?.message || "Import failed" });
+          }
+        }
+
+        return {
+          success: true,
+          imported: results.filter((r) => r.status === "imported").length,
+          duplicates: results.filter((r) => r.status === "duplicate").length,
+          failed: results.filter((r) => r.status === "failed").length,
+          results,
+        };
+      }),
+
+    // Ride editor: trimmed / split / merged / cleaned-up track with stats recomputed on the client
+    update: protectedProcedure
+      .input(
+        z.object({
+          ...editedRideInput,
+          // Rides merged into this one (deleted)
+          mergedRecordIds: z.array(z.string()).max(10).optional(),
+          // Tail of a split, saved as a new ride with this ride's scooter and weather
+          splitRecord: z.object(editedRideInput).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        console.log("[rides.update] Called by user:", ctx.user.id, "record:", input.recordId, {
+          merged: input.mergedRecordIds?.length ?? 0,
+          split: !!input.splitRecord,
+        });
+
+        const record = await db.getRidingRecordByRecordId(input.recordId, ctx.user.id);
+        if (!record) {
+          return { success: false, error: "주행 기록을 찾을 수 없습니다." };
+        }
+
+        const merged: NonNullable<typeof record>[] = [];
+        for (const recordId of input.mergedRecordIds ?? []) {
+          if (recordId === input.recordId) continue;
+          const mergedRecord = await db.getRidingRecordByRecordId(recordId, ctx.user.id);
+          if (!mergedRecord) {
+            return { success: false, error: "합칠 주행 기록을 찾을 수 없습니다." };
+          }
+          merged.push(mergedRecord);
+        }
+
+        try {
+          const elevation = await correctRideElevation(input.gpsPointsJson);
+          // Trimming off a car trip clears the review; stats are checked again either way
+          const { stats, ...transport } = reviewRideTransport(input.gpsPointsJson, input);
+          await db.updateRidingRecord(record.id, {
+            date: input.date,
+            duration: Math.round(stats.duration),
+            distance: Math.round(stats.distance),
+            avgSpeed: Math.round(stats.avgSpeed * 10),
+            maxSpeed: Math.round(stats.maxSpeed * 10),
+            startTime: new Date(input.startTime),
+            endTime: new Date(input.endTime),
+            gpsPointsJson: elevation?.gpsPointsJson ?? input.gpsPointsJson ?? null,
+            elevationGain: elevation?.elevationGain ?? null,
+            elevationLoss: elevation?.elevationLoss ?? null,
+            elevationSource: elevation ? "dem" : null,
+            ...transport,
+          });
+
+          // Segment efforts follow the edited track (no PR notifications for edits)
+          await db.deleteSegmentEffortsForRecord(record.id);
+          try {
+            await recordSegmentEfforts(ctx.user.id, record.id, elevation?.gpsPointsJson ?? input.gpsPointsJson, { notify: false });
+          } catch (segmentError) {
+            console.error("[rides.update] Failed to match segments:", segmentError);
+          }
+
+          // Group members replay the edited track, not the original
+          try {
+            await rerecordGroupRideTrack(
+              ctx.user.id,
+              { ...input, gpsPointsJson: elevation?.gpsPointsJson ?? input.gpsPointsJson },
+              stats
+            );
+          } catch (groupError) {
+            console.error("[rides.update] Failed to update group ride track:", groupError);
+          }
+
+          // Deleting a merged ride also drops its group replay copy
+          for (const mergedRecord of merged) {
+            await db.deleteRidingRecord(mergedRecord.recordId, ctx.user.id);
+          }
+
+          let splitId: number | null = null;
+          if (input.splitRecord) {
+            const split = input.splitRecord;
+            const splitElevation = await correctRideElevation(split.gpsPointsJson);
+            const { stats: splitStats, ...splitTransport } = reviewRideTransport(split.gpsPointsJson, split);
+            splitId = await db.createRidingRecord({
+              userId: ctx.user.id,
+              recordId: split.recordId,
+              date: split.date,
+              duration: Math.round(splitStats.duration),
+              distance: Math.round(splitStats.distance),
+              avgSpeed: Math.round(splitStats.avgSpeed * 10),
+              maxSpeed: Math.round(splitStats.maxSpeed * 10),
+              startTime: new Date(split.startTime),
+              endTime: new Date(split.endTime),
+              gpsPointsJson: splitElevation?.gpsPointsJson ?? split.gpsPointsJson,
+              scooterId: record.scooterId ?? undefined,
+              temperature: record.temperature ?? undefined,
+              humidity: record.humidity ?? undefined,
+              windSpeed: record.windSpeed ?? undefined,
+              windDirection: record.windDirection ?? undefined,
+              precipitationType: record.precipitationType ?? undefined,
+              weatherCondition: record.weatherCondition ?? undefined,
+              elevationGain: splitElevation?.elevationGain,
+              elevationLoss: splitElevation?.elevationLoss,
+              elevationSource: splitElevation ? "dem" : undefined,
+              ...splitTransport,
+            });
+            if (splitId) {
+              try {
+                await recordSegmentEfforts(ctx.user.id, splitId, splitElevation?.gpsPointsJson ?? split.gpsPointsJson, { notify: false });
+              } catch (segmentError) {
+                console.error("[rides.update] Failed to match segments for split ride:", segmentError);
+              }
+            }
+          }
+
+          // Totals derived from ride records
+          const scooterIds = new Set(
+            [record, ...merged].map((r) => r.scooterId).filter((id): id is number => id !== null)
+          );
+          for (const scooterId of Array.from(scooterIds)) {
+            await db.recalculateScooterStats(scooterId, ctx.user.id);
+          }
+          await db.recalculateChallengeProgress(ctx.user.id);
+
+          return { success: true, splitId };
+        } catch (error: any) {
+          console.error("[rides.update] Error:", error?.message || error);
+          return { success: false, error: "주행 기록을 수정하지 못했습니다." };
+        }
+      }),
+
     delete: protectedProcedure
       .input(z.object({ recordId: z.string() }))
       .mutation(async ({ ctx, input }) => {
@@ -824,6 +1317,7 @@ ${ridesSummary}
           batteryCellCount: z.number().min(0).optional(),
           batteryFullVoltage: z.number().min(0).optional(),
           batteryEmptyVoltage: z.number().min(0).optional(),
+          riderWeight: z.number().min(20).max(250).optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
@@ -843,6 +1337,7 @@ ${ridesSummary}
           batteryCellCount: input.batteryCellCount,
           batteryFullVoltage: input.batteryFullVoltage ? String(input.batteryFullVoltage) : undefined,
           batteryEmptyVoltage: input.batteryEmptyVoltage ? String(input.batteryEmptyVoltage) : undefined,
+          riderWeight: input.riderWeight,
         });
         return { success: true, id: result };
       }),
@@ -869,6 +1364,7 @@ ${ridesSummary}
           batteryCellCount: z.number().min(0).optional(),
           batteryFullVoltage: z.number().min(0).optional(),
           batteryEmptyVoltage: z.number().min(0).optional(),
+          riderWeight: z.number().min(20).max(250).optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
@@ -893,6 +1389,7 @@ ${ridesSummary}
         if (data.batteryCellCount !== undefined) updateData.batteryCellCount = data.batteryCellCount;
         if (data.batteryFullVoltage !== undefined) updateData.batteryFullVoltage = String(data.batteryFullVoltage);
         if (data.batteryEmptyVoltage !== undefined) updateData.batteryEmptyVoltage = String(data.batteryEmptyVoltage);
+        if (data.riderWeight !== undefined) updateData.riderWeight = data.riderWeight;
 
         const success = await db.updateScooter(id, ctx.user.id, updateData);
         return { success };
@@ -956,14 +1453,27 @@ ${ridesSummary}
       .query(async ({ ctx, input }) => {
         const limit = input?.limit ?? 20;
         const offset = input?.offset ?? 0;
-        return db.getPosts(limit, offset, ctx.user.id);
+        const posts = await db.getPosts(limit, offset, ctx.user.id);
+        // Group ride replays are for the group's members only
+        const groupIds = posts.flatMap((post) => (post.postType === "group_ride" && post.groupId ? [post.groupId] : []));
+        const memberOf = await db.getApprovedGroupIds(ctx.user.id, groupIds);
+        return posts.map((post) => ({
+          ...post,
+          canReplayGroupRide: post.postType === "group_ride" && !!post.groupId && memberOf.has(post.groupId),
+        }));
       }),
 
     // Get single post
     getPost: protectedProcedure
       .input(z.object({ id: z.number() }))
       .query(async ({ ctx, input }) => {
-        return db.getPostById(input.id, ctx.user.id);
+        const post = await db.getPostById(input.id, ctx.user.id);
+        if (!post) return null;
+        const canReplayGroupRide =
+          post.postType === "group_ride" &&
+          !!post.groupId &&
+          (await db.isApprovedGroupMember(post.groupId, ctx.user.id));
+        return { ...post, canReplayGroupRide };
       }),
 
     // Create post
@@ -1285,6 +1795,239 @@ ${ridesSummary}
       }),
   }),
 
+  // Segments (user-defined stretches with timed efforts)
+  segments: router({
+    // Create a segment from part of a ride
+    create: protectedProcedure
+      .input(z.object({
+        name: z.string().min(1, "구간 이름을 입력해주세요.").max(100),
+        points: z.array(z.object({
+          latitude: z.number().min(-90).max(90),
+          longitude: z.number().min(-180).max(180),
+          altitude: z.number().nullable().optional(),
+        })).min(2).max(5000),
+        // Source ride; its effort is recorded right away
+        recordId: z.string().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const points = simplifySegment(input.points);
+        const distance = Math.round(polylineDistance(points));
+        if (distance < MIN_SEGMENT_DISTANCE) {
+          return { success: false, error: `구간은 ${MIN_SEGMENT_DISTANCE}m 이상이어야 합니다.` };
+        }
+        if (distance > MAX_SEGMENT_DISTANCE) {
+          return { success: false, error: `구간은 ${MAX_SEGMENT_DISTANCE / 1000}km 이하여야 합니다.` };
+        }
+
+        // Prefer terrain heights; fall back to the ride's recorded altitudes
+        const altitudes = isElevationConfigured()
+          ? await lookupElevations(points)
+          : input.points.map((p) => p.altitude ?? null);
+        const { gain } = computeElevationGainLoss(altitudes);
+
+        const box = boundingBox(points);
+        const segmentId = await db.createSegment({
+          creatorId: ctx.user.id,
+          name: input.name.trim(),
+          pointsJson: JSON.stringify(points),
+          distance,
+          elevationGain: altitudes.some((a) => a !== null) ? gain : null,
+          minLat: box.minLat.toFixed(7),
+          maxLat: box.maxLat.toFixed(7),
+          minLng: box.minLng.toFixed(7),
+          maxLng: box.maxLng.toFixed(7),
+        });
+        if (!segmentId) {
+          return { success: false, error: "구간을 저장하지 못했습니다." };
+        }
+        console.log("[segments.create] Created segment", segmentId, "by user", ctx.user.id, `${distance}m`);
+
+        if (input.recordId) {
+          const record = await db.getRidingRecordByRecordId(input.recordId, ctx.user.id);
+          const segment = await db.getSegmentById(segmentId);
+          if (record && segment) {
+            try {
+              await recordEffortsOnSegment(segment, ctx.user.id, record.id, parseTrack(record.gpsPointsJson), {
+                notify: false,
+              });
+            } catch (error) {
+              console.error("[segments.create] Failed to record source ride effort:", error);
+            }
+          }
+        }
+
+        return { success: true, segmentId };
+      }),
+
+    // Segment details with the caller's best time
+    get: protectedProcedure
+      .input(z.object({ segmentId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const segment = await db.getSegmentById(input.segmentId);
+        if (!segment) return null;
+
+        const stats = await db.getSegmentEffortStats(segment.id);
+        const myBest = await db.getUserBestSegmentEffort(segment.id, ctx.user.id);
+        return {
+          id: segment.id,
+          name: segment.name,
+          distance: segment.distance,
+          elevationGain: segment.elevationGain,
+          points: JSON.parse(segment.pointsJson) as { latitude: number; longitude: number }[],
+          isMine: segment.creatorId === ctx.user.id,
+          effortCount: stats.effortCount,
+          riderCount: stats.riderCount,
+          myBestTime: myBest?.elapsedTime ?? null,
+          createdAt: segment.createdAt,
+        };
+      }),
+
+    // Best time per rider: all-time, friends only, or this month
+    leaderboard: protectedProcedure
+      .input(z.object({
+        segmentId: z.number(),
+        scope: z.enum(["allTime", "friends", "monthly"]).default("allTime"),
+        limit: z.number().min(1).max(100).default(50),
+      }))
+      .query(async ({ ctx, input }) => {
+        let userIds: number[] | undefined;
+        let since: Date | undefined;
+        if (input.scope === "friends") {
+          const friends = await db.getFriends(ctx.user.id);
+          userIds = [ctx.user.id, ...friends.map((f) => f.id)];
+        } else if (input.scope === "monthly") {
+          const now = new Date();
+          since = new Date(now.getFullYear(), now.getMonth(), 1);
+        }
+
+        // Fetch the whole board so the caller's rank is known even outside the top entries
+        const entries = await db.getSegmentLeaderboard(input.segmentId, { since, userIds, limit: 10000 });
+        return {
+          entries: entries.slice(0, input.limit),
+          myEntry: entries.find((e) => e.userId === ctx.user.id) ?? null,
+          total: entries.length,
+        };
+      }),
+
+    // Efforts recorded in one of the caller's rides
+    forRide: protectedProcedure
+      .input(z.object({ recordId: z.string() }))
+      .query(async ({ ctx, input }) => {
+        const record = await db.getRidingRecordByRecordId(input.recordId, ctx.user.id);
+        if (!record) return [];
+        return db.getSegmentEffortsForRecord(record.id, ctx.user.id);
+      }),
+
+    // Delete a segment (creator only)
+    delete: protectedProcedure
+      .input(z.object({ segmentId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await db.deleteSegment(input.segmentId, ctx.user.id);
+        return success ? { success } : { success, error: "구간을 삭제할 권한이 없습니다." };
+      }),
+  }),
+
+  // Circles around home, work etc. cut out of the rider's tracks when others see them
+  privacyZones: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const zones = await listPrivacyZones(ctx.user.id);
+      return zones.map(({ trimLatitude: _lat, trimLongitude: _lon, trimRadius: _radius, ...zone }) => ({
+        ...zone,
+        latitude: Number(zone.latitude),
+        longitude: Number(zone.longitude),
+      }));
+    }),
+
+    add: protectedProcedure
+      .input(z.object({
+        name: z.string().trim().min(1).max(50),
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+        radius: z.number().int().min(MIN_PRIVACY_ZONE_RADIUS_M).max(MAX_PRIVACY_ZONE_RADIUS_M),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const zone = await addPrivacyZone(ctx.user.id, input);
+        return { success: true, id: zone.id };
+      }),
+
+    remove: protectedProcedure
+      .input(z.object({ zoneId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await db.removePrivacyZone(ctx.user.id, input.zoneId);
+        return { success };
+      }),
+  }),
+
+  // Crash detection: emergency contacts and alerts
+  safety: router({
+    listContacts: protectedProcedure.query(async ({ ctx }) => {
+      return db.getEmergencyContacts(ctx.user.id);
+    }),
+
+    // Contacts are picked from the rider's friends so they can receive push alerts
+    addContact: protectedProcedure
+      .input(z.object({ contactUserId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const friends = await db.getFriends(ctx.user.id);
+        if (!friends.some((f) => f.id === input.contactUserId)) {
+          return { success: false, error: "친구만 비상 연락처로 추가할 수 있습니다." };
+        }
+        const contact = await db.addEmergencyContact(ctx.user.id, input.contactUserId);
+        return contact ? { success: true } : { success: false, error: "비상 연락처를 저장하지 못했습니다." };
+      }),
+
+    removeContact: protectedProcedure
+      .input(z.object({ contactUserId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await db.removeEmergencyContact(ctx.user.id, input.contactUserId);
+        return { success };
+      }),
+
+    // Sent by the riding screen when the crash countdown runs out
+    reportCrash: protectedProcedure
+      .input(z.object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+        peakG: z.number().optional(),
+        speedBeforeImpactKmh: z.number().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const contacts = await db.getEmergencyContacts(ctx.user.id);
+        const riderName = ctx.user.name || "친구";
+        const mapUrl = `https://maps.google.com/?q=${input.latitude.toFixed(6)},${input.longitude.toFixed(6)}`;
+        const title = "🚨 사고 감지";
+        const body = `${riderName}님의 주행 중 사고가 감지되었습니다. 응답이 없습니다. 위치: ${mapUrl}`;
+
+        console.log("[safety.reportCrash] User", ctx.user.id, "contacts:", contacts.length, input);
+
+        let notified = 0;
+        for (const contact of contacts) {
+          try {
+            await db.createNotification({
+              userId: contact.contactUserId,
+              type: "crash_alert",
+              title,
+              body,
+              entityType: "user",
+              entityId: ctx.user.id,
+              actorId: ctx.user.id,
+            });
+            await db.sendPushNotification(contact.contactUserId, title, body, {
+              type: "crash_alert",
+              userId: ctx.user.id,
+              latitude: input.latitude,
+              longitude: input.longitude,
+            });
+            notified++;
+          } catch (error) {
+            console.error("[safety.reportCrash] Failed to alert contact", contact.contactUserId, error);
+          }
+        }
+
+        return { success: true, notified };
+      }),
+  }),
+
   // Eco Leaderboard
   ecoLeaderboard: router({
     // Get eco leaderboard
@@ -1436,25 +2179,35 @@ ${ridesSummary}
         speed: z.number().nullable(),
         isRiding: z.boolean(),
         isStarting: z.boolean().optional(), // True when ride just started
+        groupId: z.number().optional(), // Group session being ridden with
       }))
       .mutation(async ({ ctx, input }) => {
+        const groupId = input.groupId && input.isRiding && (await db.isApprovedGroupMember(input.groupId, ctx.user.id))
+          ? input.groupId
+          : null;
         await db.updateLiveLocation(
           ctx.user.id,
           input.latitude,
           input.longitude,
           input.heading,
           input.speed,
-          input.isRiding
+          input.isRiding,
+          groupId
         );
 
-        // Send notification to friends when ride starts
+        // Send notification to friends when ride starts (only those who can see the ride)
         if (input.isStarting && input.isRiding) {
           const friends = await db.getFriends(ctx.user.id);
           const userName = ctx.user.name || '친구';
+          const notified = await friendsWhoCanSee(
+            ctx.user.id,
+            friends.map((f) => f.id),
+            { isRiding: true, groupId, updatedAt: new Date() }
+          );
           
-          for (const friend of friends) {
+          for (const friendId of notified) {
             await db.createNotification({
-              userId: friend.id,
+              userId: friendId,
               type: 'friend_riding',
               title: '친구가 주행 중입니다',
               body: `${userName}님이 주행을 시작했습니다. 실시간 위치를 확인해보세요!`,
@@ -1474,9 +2227,101 @@ ${ridesSummary}
       return { success: true };
     }),
 
-    // Get friends' live locations
+    // Get friends' live locations (as each friend's sharing rules allow)
     friends: protectedProcedure.query(async ({ ctx }) => {
-      return db.getFriendsLiveLocations(ctx.user.id);
+      return getVisibleFriendLocations(ctx.user.id);
+    }),
+  }),
+
+  // Who can see the rider's live location, share links and who looked
+  locationSharing: router({
+    settings: protectedProcedure.query(async ({ ctx }) => {
+      return getLocationSharingSettings(ctx.user.id);
+    }),
+
+    // Default for friends without a rule or list of their own
+    setDefault: protectedProcedure
+      .input(z.object({ mode: z.enum(LOCATION_SHARE_MODES) }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await db.setLocationShareRule(ctx.user.id, null, input.mode);
+        if (!success) throw new Error("위치 공유 설정을 저장하지 못했습니다.");
+        return { success };
+      }),
+
+    // Rule for one friend; null mode removes it
+    setFriendRule: protectedProcedure
+      .input(z.object({ friendId: z.number(), mode: z.enum(LOCATION_SHARE_MODES).nullable() }))
+      .mutation(async ({ ctx, input }) => {
+        if (input.mode === null) {
+          return { success: await db.removeLocationShareRule(ctx.user.id, input.friendId) };
+        }
+        const friends = await db.getFriends(ctx.user.id);
+        if (!friends.some((f) => f.id === input.friendId)) {
+          throw new Error("친구에게만 위치 공유 규칙을 정할 수 있습니다.");
+        }
+        const success = await db.setLocationShareRule(ctx.user.id, input.friendId, input.mode);
+        if (!success) throw new Error("위치 공유 설정을 저장하지 못했습니다.");
+        return { success };
+      }),
+
+    // Create (no listId) or update a list of friends sharing one rule
+    saveList: protectedProcedure
+      .input(z.object({
+        listId: z.number().optional(),
+        name: z.string().trim().min(1).max(50),
+        mode: z.enum(LOCATION_SHARE_MODES),
+        friendIds: z.array(z.number()).max(500),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const friendIds = new Set((await db.getFriends(ctx.user.id)).map((f) => f.id));
+        const data = {
+          name: input.name,
+          mode: input.mode,
+          friendIds: [...new Set(input.friendIds)].filter((id) => friendIds.has(id)),
+        };
+        if (input.listId) {
+          const success = await db.updateLocationShareList(ctx.user.id, input.listId, data);
+          if (!success) throw new Error("목록을 수정하지 못했습니다.");
+          return { listId: input.listId };
+        }
+        const listId = await db.createLocationShareList(ctx.user.id, data);
+        if (!listId) throw new Error("목록을 만들지 못했습니다.");
+        return { listId };
+      }),
+
+    deleteList: protectedProcedure
+      .input(z.object({ listId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await db.deleteLocationShareList(ctx.user.id, input.listId);
+        return { success };
+      }),
+
+    links: protectedProcedure.query(async ({ ctx }) => {
+      const links = await getShareLinks(ctx.user.id);
+      return links.map((link) => ({ ...link, path: shareLinkPath(link.token) }));
+    }),
+
+    // Time-boxed link to a web page that follows the rider while they ride
+    createLink: protectedProcedure
+      .input(z.object({
+        label: z.string().trim().min(1).max(50),
+        hours: z.number().refine((h) => (SHARE_LINK_DURATIONS_HOURS as readonly number[]).includes(h)),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const link = await createShareLink(ctx.user.id, input.label, input.hours);
+        return { id: link.id, path: shareLinkPath(link.token), expiresAt: link.expiresAt };
+      }),
+
+    revokeLink: protectedProcedure
+      .input(z.object({ linkId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await db.revokeLocationShareLink(ctx.user.id, input.linkId);
+        return { success };
+      }),
+
+    // Friends and links that saw the rider's location in the last 30 days
+    viewLog: protectedProcedure.query(async ({ ctx }) => {
+      return getLocationViewLog(ctx.user.id);
     }),
   }),
 
@@ -1640,6 +2485,22 @@ ${ridesSummary}
         return result;
       }),
 
+    // Send a push-to-talk voice clip to the group (broadcast over WebSocket, transcribed afterwards)
+    sendVoice: protectedProcedure
+      .input(z.object({
+        groupId: z.number(),
+        base64: z.string().min(1),
+        mimeType: z.string().max(100),
+        duration: z.number().int().positive(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        return sendVoiceClip(ctx.user, input.groupId, {
+          base64: input.base64,
+          mimeType: input.mimeType,
+          duration: input.duration,
+        });
+      }),
+
     // Get messages for a group
     getMessages: protectedProcedure
       .input(z.object({
@@ -1701,6 +2562,182 @@ ${ridesSummary}
         if (!success) throw new Error("멤버 거절에 실패했습니다.");
         return { success };
       }),
+
+    // Every member's track and the combined stats of a group ride (members only)
+    getRide: protectedProcedure
+      .input(z.object({ groupId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const group = await db.getGroupById(input.groupId);
+        if (!group || !(await db.isApprovedGroupMember(input.groupId, ctx.user.id))) {
+          throw new Error("그룹 멤버만 그룹 주행 기록을 볼 수 있습니다.");
+        }
+        const { members, summary } = await loadGroupRide(input.groupId);
+        return {
+          groupId: group.id,
+          groupName: group.name,
+          hostId: group.hostId,
+          members: await trimGroupTracksForViewer(members, ctx.user.id),
+          summary,
+        };
+      }),
+
+    // Share the group ride's summary card to the community feed
+    shareRide: protectedProcedure
+      .input(z.object({ groupId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const group = await db.getGroupById(input.groupId);
+        if (!group || !(await db.isApprovedGroupMember(input.groupId, ctx.user.id))) {
+          throw new Error("그룹 멤버만 그룹 주행을 공유할 수 있습니다.");
+        }
+        const { members, summary } = await loadGroupRide(input.groupId);
+        if (!summary) throw new Error("공유할 그룹 주행 기록이 없습니다.");
+
+        const { title, content } = formatGroupRidePost(group.name, summary, members);
+        const postId = await db.createPost({
+          userId: ctx.user.id,
+          title,
+          content,
+          postType: "group_ride",
+          groupId: input.groupId,
+        });
+        return { postId };
+      }),
+
+    // List the group in ride discovery so riders nearby can ask to join (host only)
+    setPublic: protectedProcedure
+      .input(z.object({ groupId: z.number(), isPublic: z.boolean() }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await db.setGroupPublic(input.groupId, ctx.user.id, input.isPublic);
+        if (!success) throw new Error("호스트만 공개 설정을 바꿀 수 있습니다.");
+        return { success };
+      }),
+
+    // Assign or clear a member's leader / sweep role (host only)
+    setRideRole: protectedProcedure
+      .input(z.object({
+        groupId: z.number(),
+        memberId: z.number(),
+        rideRole: z.enum(["leader", "sweep"]).nullable(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await db.setGroupMemberRideRole(input.groupId, ctx.user.id, input.memberId, input.rideRole);
+        if (!success) throw new Error("역할 지정에 실패했습니다.");
+        await refreshGroupRideRoles(input.groupId);
+        return { success };
+      }),
+  }),
+
+  // Scheduled group rides
+  scheduledRides: router({
+    // Upcoming rides, soonest first
+    list: protectedProcedure.query(async ({ ctx }) => {
+      return db.getUpcomingScheduledRides(ctx.user.id, new Date(Date.now() - START_GRACE_MS));
+    }),
+
+    // Ride details with its planned route and RSVPs
+    get: protectedProcedure
+      .input(z.object({ rideId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const ride = await db.getScheduledRide(input.rideId);
+        const rsvps = await db.getScheduledRideRsvps(input.rideId);
+        // Private rides are for the host, the riders who answered and readers of a recruiting post
+        if (!ride || !(await canViewScheduledRide(ride, ctx.user.id, rsvps))) {
+          throw new Error("라이딩 일정을 찾을 수 없습니다.");
+        }
+        const host = await db.getUserById(ride.hostId);
+        const myStatus = rsvps.find((rsvp) => rsvp.userId === ctx.user.id)?.status ?? null;
+        // The exact meeting point is for the host and riders who answered
+        const meetingPointApproximate = ride.hostId !== ctx.user.id && (!myStatus || myStatus === "declined");
+        const exact = { latitude: Number(ride.meetingLatitude), longitude: Number(ride.meetingLongitude) };
+        const meetingPoint = meetingPointApproximate ? approximateLocation(exact) : exact;
+        const { plannedRouteJson: _plannedRouteJson, ...details } = ride;
+        return {
+          ...details,
+          hostName: host?.name ?? null,
+          meetingLatitude: meetingPoint.latitude,
+          meetingLongitude: meetingPoint.longitude,
+          meetingPointApproximate,
+          route: plannedRoute(ride),
+          rsvps,
+          myStatus,
+        };
+      }),
+
+    // Public rides and recruiting groups near the rider that match their pace, scooter and time
+    discover: protectedProcedure
+      .input(z.object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+        radiusKm: z.number().min(MIN_DISCOVERY_RADIUS_KM).max(MAX_DISCOVERY_RADIUS_KM),
+        from: z.number(),
+        until: z.number(),
+        minSpeed: z.number().min(0).optional(),
+        maxSpeed: z.number().min(0).optional(),
+        matchMyPace: z.boolean().optional(),
+        scooterClass: z.enum(SCOOTER_CLASSES).optional(),
+      }))
+      .query(async ({ ctx, input }) => {
+        return discoverRides(ctx.user.id, input);
+      }),
+
+    // Plan a ride (the host is going)
+    create: protectedProcedure
+      .input(z.object({
+        title: z.string().min(1).max(50),
+        description: z.string().max(1000).optional(),
+        startsAt: z.number(),
+        meetingPoint: z.object({
+          name: z.string().min(1).max(100),
+          latitude: z.number().min(-90).max(90),
+          longitude: z.number().min(-180).max(180),
+        }),
+        route: sharedRouteInput.optional(),
+        paceLevel: z.enum(PACE_LEVELS),
+        capacity: z.number().int(),
+        isPublic: z.boolean().default(false),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const rideId = await createScheduledRide(ctx.user.id, input);
+        return { rideId };
+      }),
+
+    // Going / maybe / not going; going on a full ride joins the waitlist
+    rsvp: protectedProcedure
+      .input(z.object({
+        rideId: z.number(),
+        status: z.enum(["going", "maybe", "declined"]),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const status = await rsvpToScheduledRide(ctx.user.id, input.rideId, input.status);
+        return { status };
+      }),
+
+    // Cancel a ride (host only)
+    cancel: protectedProcedure
+      .input(z.object({ rideId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await cancelScheduledRide(ctx.user.id, input.rideId);
+        return { success: true };
+      }),
+
+    // Recruit riders with a community post (host only)
+    share: protectedProcedure
+      .input(z.object({ rideId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const ride = await db.getScheduledRide(input.rideId);
+        if (!ride || ride.hostId !== ctx.user.id) throw new Error("호스트만 모집 글을 올릴 수 있습니다.");
+        if (ride.status !== "scheduled") throw new Error("이미 시작되었거나 취소된 라이딩입니다.");
+
+        const { title, content } = formatScheduledRidePost(ride, plannedRoute(ride));
+        const postId = await db.createPost({
+          userId: ctx.user.id,
+          title,
+          content,
+          postType: "group_recruit",
+          scheduledRideId: ride.id,
+        });
+        return { postId };
+      }),
   }),
 
   // App version management
@@ -1804,6 +2841,51 @@ ${ridesSummary}
 
   // Admin router
   admin: router({
+    // Backfill DEM elevation for existing ride tracks (batch; call repeatedly until remaining is 0)
+    backfillElevation: protectedProcedure
+      .input(z.object({
+        limit: z.number().min(1).max(200).default(50),
+        userId: z.number().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (ctx.user.role !== "admin") throw new Error("관리자 권한이 필요합니다.");
+        if (!isElevationConfigured()) {
+          return { success: false, error: "고도 데이터(DEM_PATH)가 설정되지 않았습니다." };
+        }
+
+        const records = await db.getRidingRecordsWithoutElevation(input.limit, input.userId);
+        let corrected = 0;
+        let unavailable = 0;
+        let failed = 0;
+
+        for (const record of records) {
+          try {
+            const elevation = await correctTrackElevation(record.gpsPointsJson!);
+            if (!elevation) {
+              await db.updateRidingRecordElevation(record.id, { elevationSource: "unavailable" });
+              unavailable++;
+              continue;
+            }
+
+            await db.updateRidingRecordElevation(record.id, {
+              gpsPointsJson: elevation.gpsPointsJson,
+              elevationGain: elevation.elevationGain,
+              elevationLoss: elevation.elevationLoss,
+              elevationSource: "dem",
+            });
+            await db.updateBatteryRideLogElevation(record.recordId, elevation.elevationGain, elevation.elevationLoss);
+            corrected++;
+          } catch (error: any) {
+            console.error("[admin.backfillElevation] Failed:", record.recordId, error?.message || error);
+            failed++;
+          }
+        }
+
+        const remaining = await db.countRidingRecordsWithoutElevation(input.userId);
+        console.log(`[admin.backfillElevation] corrected=${corrected} unavailable=${unavailable} failed=${failed} remaining=${remaining}`);
+        return { success: true, processed: records.length, corrected, unavailable, failed, remaining };
+      }),
+
     // Get all announcements (admin)
     getAnnouncements: protectedProcedure.query(async ({ ctx }) => {
       if (ctx.user.role !== "admin") throw new Error("관리자 권한이 필요합니다.");
@@ -2327,6 +3409,74 @@ ${recentRides.map((r, i) => `${i + 1}. ${r.date}: ${(r.distance / 1000).toFixed(
         };
       }),
 
+    // Wh/km from the scooter's consumption model for a planned ride (90% interval)
+    predictConsumption: protectedProcedure
+      .input(
+        z.object({
+          scooterId: z.number(),
+          // Defaults to the scooter's typical riding conditions when left out
+          speedKmh: z.number().min(1).max(80).optional(),
+          route: z
+            .object({
+              distanceMeters: z.number().min(0),
+              elevationGain: z.number().min(0),
+              elevationLoss: z.number().min(0).optional(),
+            })
+            .optional(),
+          weather: z
+            .object({
+              temperature: z.number().min(-40).max(60).optional(),
+              windSpeed: z.number().min(0).max(60).optional(),
+            })
+            .optional(),
+        })
+      )
+      .query(async ({ ctx, input }) => {
+        const scooter = await db.getScooterById(input.scooterId, ctx.user.id);
+        if (!scooter) {
+          return null;
+        }
+        const { scooterId, ...plan } = input;
+        return predictConsumption(ctx.user.id, scooter, plan);
+      }),
+
+    // Inputs for battery-aware route planning (client computes arrival SOC along the route)
+    getRoutePlanningProfile: protectedProcedure
+      .input(z.object({ scooterId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const scooter = await db.getScooterById(input.scooterId, ctx.user.id);
+        if (!scooter) {
+          return null;
+        }
+
+        const [lastRide] = await db.getRecentRidesWithVoltage(ctx.user.id, input.scooterId, 1);
+        const logs = await db.getBatteryRideLogs(ctx.user.id, input.scooterId, 30);
+        const analysis = await db.getBatteryAnalysis(ctx.user.id, input.scooterId);
+
+        return {
+          battery: {
+            voltage: scooter.batteryVoltage,
+            capacity: scooter.batteryCapacity,
+            type: scooter.batteryType,
+            cellCount: scooter.batteryCellCount,
+            fullVoltage: scooter.batteryFullVoltage,
+            emptyVoltage: scooter.batteryEmptyVoltage,
+          },
+          lastVoltageEnd: lastRide?.voltageEnd || null,
+          lastRideDate: lastRide?.date || null,
+          rideLogs: logs
+            .filter((log) => log.efficiency !== null && (log.distance || 0) > 0)
+            .map((log) => ({
+              distanceMeters: log.distance || 0,
+              efficiencyWhPerKm: Number(log.efficiency),
+              temperatureCelsius: log.temperature !== null ? Number(log.temperature) : null,
+              elevationGain: log.elevationGain,
+              elevationLoss: log.elevationLoss,
+            })),
+          avgEfficiencyWhKm: analysis?.avgEfficiency ? analysis.avgEfficiency / 100 : null,
+        };
+      }),
+
     // Update battery analysis after ride
     updateAnalysis: protectedProcedure
       .input(z.object({
@@ -2380,22 +3530,20 @@ ${recentRides.map((r, i) => `${i + 1}. ${r.date}: ${(r.distance / 1000).toFixed(
         voltageAfter: z.number(),
         socBefore: z.number().optional(),
         socAfter: z.number().optional(),
-        chargingDuration: z.number().optional(),
+        chargingDuration: z.number().int().min(0).max(MAX_CHARGING_DURATION_MINUTES).optional(),
         chargeType: z.enum(["full", "partial", "top-up"]).default("full"),
         notes: z.string().optional(),
+        chargerProfileId: z.number().optional(),
+        // When charging started and the rider's UTC offset, for time-of-use tariffs
+        startedAt: z.string().datetime().optional(),
+        utcOffsetMinutes: z.number().int().min(-720).max(840).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const record = await db.createChargingRecord({
-          userId: ctx.user.id,
-          scooterId: input.scooterId,
-          chargeDate: new Date().toISOString().split("T")[0],
-          voltageBefore: input.voltageBefore.toString(),
-          voltageAfter: input.voltageAfter.toString(),
-          socBefore: input.socBefore?.toString(),
-          socAfter: input.socAfter?.toString(),
-          chargingDuration: input.chargingDuration,
-          chargeType: input.chargeType,
-          notes: input.notes,
+        const scooter = await db.getScooterById(input.scooterId, ctx.user.id);
+        if (!scooter) throw new Error("기체를 찾을 수 없습니다.");
+        const record = await recordChargingSession(ctx.user.id, scooter, {
+          ...input,
+          startedAt: input.startedAt ? new Date(input.startedAt) : undefined,
         });
         return { success: true, record };
       }),
@@ -2416,6 +3564,110 @@ ${recentRides.map((r, i) => `${i + 1}. ${r.date}: ${(r.distance / 1000).toFixed(
       .query(async ({ ctx, input }) => {
         return db.getChargingStats(ctx.user.id, input.scooterId);
       }),
+
+    // Energy, cost and charge cycles per month
+    getMonthlyReport: protectedProcedure
+      .input(z.object({ scooterId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        return getMonthlyChargingReport(ctx.user.id, input.scooterId);
+      }),
+
+    listChargers: protectedProcedure.query(async ({ ctx }) => {
+      const chargers = await db.getChargerProfiles(ctx.user.id);
+      return chargers.map((charger) => ({ ...charger, efficiency: Number(charger.efficiency) }));
+    }),
+
+    saveCharger: protectedProcedure
+      .input(z.object({
+        id: z.number().optional(),
+        name: z.string().trim().min(1).max(50),
+        wattage: z.number().int().min(10).max(20000),
+        efficiency: z.number().min(0.5).max(1),
+        location: z.enum(CHARGER_LOCATIONS),
+        tariffId: z.number().nullable(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (input.tariffId && !(await db.getElectricityTariff(ctx.user.id, input.tariffId))) {
+          throw new Error("요금제를 찾을 수 없습니다.");
+        }
+        const charger = await db.saveChargerProfile({ userId: ctx.user.id, ...input });
+        if (!charger) throw new Error("충전기를 저장하지 못했습니다.");
+        return { success: true, id: charger.id };
+      }),
+
+    deleteCharger: protectedProcedure
+      .input(z.object({ chargerId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await db.deleteChargerProfile(ctx.user.id, input.chargerId);
+        return { success };
+      }),
+
+    listTariffs: protectedProcedure.query(async ({ ctx }) => {
+      const tariffs = await db.getElectricityTariffs(ctx.user.id);
+      return tariffs.map((tariff) => ({ id: tariff.id, name: tariff.name, ...toTariff(tariff) }));
+    }),
+
+    saveTariff: protectedProcedure
+      .input(z.object({
+        id: z.number().optional(),
+        name: z.string().trim().min(1).max(50),
+        baseRate: z.number().min(0).max(10000),
+        periods: z.array(z.object({
+          startHour: z.number().int().min(0).max(23),
+          endHour: z.number().int().min(0).max(24),
+          rate: z.number().min(0).max(10000),
+        })).max(6).default([]),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const tariff = await db.saveElectricityTariff({
+          userId: ctx.user.id,
+          id: input.id,
+          name: input.name,
+          baseRate: input.baseRate,
+          periods: input.periods.length > 0 ? JSON.stringify(input.periods) : null,
+        });
+        if (!tariff) throw new Error("요금제를 저장하지 못했습니다.");
+        return { success: true, id: tariff.id };
+      }),
+
+    deleteTariff: protectedProcedure
+      .input(z.object({ tariffId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await db.deleteElectricityTariff(ctx.user.id, input.tariffId);
+        return { success };
+      }),
+  }),
+
+  // Charging and storage reminders, per scooter
+  batteryReminders: router({
+    get: protectedProcedure
+      .input(z.object({ scooterId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const scooter = await db.getScooterById(input.scooterId, ctx.user.id);
+        if (!scooter) throw new Error("기체를 찾을 수 없습니다.");
+        const [settings, battery] = await Promise.all([
+          getBatteryReminderSettings(scooter.id),
+          db.getLastKnownBatteryState(scooter.id),
+        ]);
+        return { settings, battery };
+      }),
+
+    update: protectedProcedure
+      .input(z.object({
+        scooterId: z.number(),
+        enabled: z.boolean(),
+        chargeTonight: z.boolean(),
+        storage: z.boolean(),
+        coldCharging: z.boolean(),
+        minSocForRide: z.number().int().min(20).max(100),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const scooter = await db.getScooterById(input.scooterId, ctx.user.id);
+        if (!scooter) throw new Error("기체를 찾을 수 없습니다.");
+        const saved = await db.saveBatteryReminderSetting({ userId: ctx.user.id, ...input });
+        if (!saved) throw new Error("알림 설정 저장에 실패했습니다.");
+        return { success: true };
+      }),
   }),
 
   // Maintenance management router
@@ -2527,6 +3779,44 @@ ${recentRides.map((r, i) => `${i + 1}. ${r.date}: ${(r.distance / 1000).toFixed(
         };
       }),
   }),
+
+  // Offline turn-by-turn routing on the server's OSM extract (scooter profile)
+  navigation: router({
+    route: protectedProcedure
+      .input(z.object({
+        originLat: z.number().min(-90).max(90),
+        originLng: z.number().min(-180).max(180),
+        destinationLat: z.number().min(-90).max(90),
+        destinationLng: z.number().min(-180).max(180),
+        // Rider's max-speed setting (km/h); Korean PM law caps at 25 km/h
+        maxSpeedKmh: z.number().min(5).max(60).default(25),
+        language: z.enum(["ko", "en"]).default("ko"),
+      }))
+      .query(async ({ input }) => {
+        try {
+          const route = await planRoute(
+            { latitude: input.originLat, longitude: input.originLng },
+            { latitude: input.destinationLat, longitude: input.destinationLng },
+            { maxSpeedKmh: input.maxSpeedKmh, language: input.language }
+          );
+          // Terrain heights let the client account for climbs in battery planning
+          const elevations = await lookupElevations(route.polyline);
+          const polyline = route.polyline.map((point, i) => ({ ...point, altitude: elevations[i] }));
+          return { success: true as const, route: { ...route, polyline } };
+        } catch (error) {
+          if (error instanceof RoutingError) {
+            const messages = {
+              NOT_CONFIGURED: "경로 데이터가 설정되지 않았습니다.",
+              OUT_OF_COVERAGE: "출발지 또는 목적지 근처에 주행 가능한 도로가 없습니다.",
+              NO_ROUTE: "해당 목적지까지 주행 가능한 경로를 찾을 수 없습니다.",
+            };
+            return { success: false as const, code: error.code, error: messages[error.code] };
+          }
+          console.error("[Navigation] Route error:", error);
+          return { success: false as const, code: "ERROR" as const, error: "경로를 계산하는 중 오류가 발생했습니다." };
+        }
+      }),
+  }),
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,290 @@
+/**
+ * Offline turn-by-turn routing
+ *
+ * Builds a scooter routing graph from the OSM PBF extract at OSM_PBF_PATH (loaded once, lazily)
+ * and answers route requests with the same step shape the client's voice guidance announces.
+ */
+
+import { readOsmPbfFile } from "./osm-pbf";
+import {
+  PathResult,
+  RoadGraph,
+  RoadGraphBuilder,
+  findNearestVertex,
+  findPath,
+} from "./road-graph";
+
+export type RouteLanguage = "ko" | "en";
+
+/** Same shape as NavigationStep in lib/voice-guidance.ts */
+export interface RouteStep {
+  instruction: string;
+  distance: string;
+  duration: string;
+  maneuver?: string;
+  /** Where the maneuver happens */
+  location: { latitude: number; longitude: number };
+  distanceValue: number;
+  durationValue: number;
+}
+
+export interface RouteResult {
+  distance: string;
+  duration: string;
+  distanceValue: number;
+  durationValue: number;
+  steps: RouteStep[];
+  polyline: { latitude: number; longitude: number }[];
+}
+
+export interface RouteOptions {
+  maxSpeedKmh: number;
+  language: RouteLanguage;
+}
+
+export class RoutingError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "NOT_CONFIGURED" | "OUT_OF_COVERAGE" | "NO_ROUTE"
+  ) {
+    super(message);
+    this.name = "RoutingError";
+  }
+}
+
+let graphPromise: Promise<RoadGraph> | null = null;
+
+/**
+ * Loads the routing graph (two passes over the extract: ways first, then their nodes)
+ */
+export async function loadRoadGraph(path: string): Promise<RoadGraph> {
+  const startedAt = Date.now();
+  const builder = new RoadGraphBuilder();
+  await readOsmPbfFile(path, { way: (way) => builder.addWay(way) });
+  await readOsmPbfFile(path, {
+    node: (node) => {
+      if (builder.needsNode(node.id)) builder.addNode(node);
+    },
+  });
+  const graph = builder.build();
+  console.log(
+    `[Routing] Graph loaded from ${path}: ${graph.nodeCount} vertices, ${graph.edgeTarget.length} edges in ${Date.now() - startedAt}ms`
+  );
+  return graph;
+}
+
+export function isRoutingConfigured(): boolean {
+  return !!process.env.OSM_PBF_PATH;
+}
+
+async function getRoadGraph(): Promise<RoadGraph> {
+  const path = process.env.OSM_PBF_PATH;
+  if (!path) {
+    throw new RoutingError("Routing data is not configured (OSM_PBF_PATH)", "NOT_CONFIGURED");
+  }
+  if (!graphPromise) {
+    graphPromise = loadRoadGraph(path).catch((error) => {
+      // Allow a retry on the next request
+      graphPromise = null;
+      throw error;
+    });
+  }
+  return graphPromise;
+}
+
+// ==================== Instructions ====================
+
+const TEXTS: Record<RouteLanguage, Record<string, string>> = {
+  ko: {
+    depart: "출발",
+    straight: "직진",
+    "turn-left": "좌회전",
+    "turn-right": "우회전",
+    "turn-slight-left": "왼쪽 방향",
+    "turn-slight-right": "오른쪽 방향",
+    "turn-sharp-left": "급좌회전",
+    "turn-sharp-right": "급우회전",
+    "uturn-left": "유턴",
+    "uturn-right": "유턴",
+    "roundabout-left": "회전교차로 진입",
+    "roundabout-right": "회전교차로 진입",
+    unnamedRoad: "이름 없는 도로",
+    bikePath: "자전거도로",
+  },
+  en: {
+    depart: "Depart",
+    straight: "Continue straight",
+    "turn-left": "Turn left",
+    "turn-right": "Turn right",
+    "turn-slight-left": "Keep left",
+    "turn-slight-right": "Keep right",
+    "turn-sharp-left": "Turn sharp left",
+    "turn-sharp-right": "Turn sharp right",
+    "uturn-left": "Make a U-turn",
+    "uturn-right": "Make a U-turn",
+    "roundabout-left": "Enter the roundabout",
+    "roundabout-right": "Enter the roundabout",
+    unnamedRoad: "unnamed road",
+    bikePath: "bike path",
+  },
+};
+
+function bearing(graph: RoadGraph, from: number, to: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const lat1 = toRad(graph.lat[from]);
+  const lat2 = toRad(graph.lat[to]);
+  const dLon = toRad(graph.lon[to] - graph.lon[from]);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Maneuver for a heading change (degrees, positive = clockwise/right), using Google's maneuver names
+ */
+export function maneuverForTurn(delta: number): string {
+  const abs = Math.abs(delta);
+  const side = delta < 0 ? "left" : "right";
+  if (abs < 25) return "straight";
+  if (abs < 50) return `turn-slight-${side}`;
+  if (abs < 135) return `turn-${side}`;
+  if (abs < 165) return `turn-sharp-${side}`;
+  return `uturn-${side}`;
+}
+
+export function formatRouteDistance(meters: number): string {
+  if (meters >= 1000) return `${(meters / 1000).toFixed(1)} km`;
+  return `${Math.round(meters / 10) * 10} m`;
+}
+
+export function formatRouteDuration(seconds: number, language: RouteLanguage): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (language === "ko") {
+    return hours > 0 ? `${hours}시간 ${rest}분` : `${minutes}분`;
+  }
+  return hours > 0 ? `${hours} hr ${rest} min` : `${minutes} min`;
+}
+
+function roadLabel(graph: RoadGraph, wayIndex: number, language: RouteLanguage): string {
+  const way = graph.ways[wayIndex];
+  if (way.name) return way.name;
+  return way.highway === "cycleway" ? TEXTS[language].bikePath : TEXTS[language].unnamedRoad;
+}
+
+function describeStep(maneuver: string | undefined, road: string, language: RouteLanguage): string {
+  const t = TEXTS[language];
+  if (!maneuver) {
+    return language === "ko" ? `${road} 방면으로 ${t.depart}` : `${t.depart} on ${road}`;
+  }
+  if (language === "ko") {
+    return maneuver === "straight" ? `${road} 방면으로 ${t.straight}` : `${t[maneuver]} 후 ${road} 진입`;
+  }
+  return maneuver === "straight" ? `${t.straight} onto ${road}` : `${t[maneuver]} onto ${road}`;
+}
+
+/**
+ * Splits a path into steps at road-name changes and at real turns on junctions
+ */
+export function buildRouteSteps(
+  graph: RoadGraph,
+  path: PathResult,
+  options: RouteOptions
+): RouteStep[] {
+  const maxSpeed = options.maxSpeedKmh / 3.6;
+  const { vertices, edges } = path;
+  if (edges.length === 0) return [];
+
+  interface Draft {
+    maneuver?: string;
+    vertex: number;
+    wayIndex: number;
+    distance: number;
+    duration: number;
+  }
+  const drafts: Draft[] = [{ vertex: vertices[0], wayIndex: graph.edgeWay[edges[0]], distance: 0, duration: 0 }];
+
+  for (let i = 0; i < edges.length; i++) {
+    const e = edges[i];
+
+    if (i > 0) {
+      const via = vertices[i];
+      const wayIndex = graph.edgeWay[e];
+      const prevWayIndex = graph.edgeWay[edges[i - 1]];
+      const delta = ((bearing(graph, via, vertices[i + 1]) - bearing(graph, vertices[i - 1], via) + 540) % 360) - 180;
+      const degree = graph.edgeStart[via + 1] - graph.edgeStart[via];
+      const nameChanged = roadLabel(graph, wayIndex, "en") !== roadLabel(graph, prevWayIndex, "en");
+      const isJunction = degree > 2;
+      const enteringRoundabout = graph.ways[wayIndex].roundabout && !graph.ways[prevWayIndex].roundabout;
+      const insideRoundabout = graph.ways[wayIndex].roundabout && graph.ways[prevWayIndex].roundabout;
+
+      let maneuver: string | null = null;
+      if (enteringRoundabout) {
+        maneuver = delta < 0 ? "roundabout-left" : "roundabout-right";
+      } else if (!insideRoundabout && (nameChanged || (isJunction && Math.abs(delta) >= 25))) {
+        maneuver = maneuverForTurn(delta);
+      }
+
+      if (maneuver) {
+        drafts.push({ maneuver, vertex: via, wayIndex, distance: 0, duration: 0 });
+      }
+    }
+
+    const step = drafts[drafts.length - 1];
+    step.distance += graph.edgeDistance[e];
+    step.duration += graph.edgeDistance[e] / Math.min(graph.edgeSpeed[e] / 3.6, maxSpeed);
+  }
+
+  return drafts.map((draft) => ({
+    instruction: describeStep(draft.maneuver, roadLabel(graph, draft.wayIndex, options.language), options.language),
+    distance: formatRouteDistance(draft.distance),
+    duration: formatRouteDuration(draft.duration, options.language),
+    maneuver: draft.maneuver,
+    location: { latitude: graph.lat[draft.vertex], longitude: graph.lon[draft.vertex] },
+    distanceValue: Math.round(draft.distance),
+    durationValue: Math.round(draft.duration),
+  }));
+}
+
+/**
+ * Routes between two coordinates on the given graph
+ */
+export function routeOnGraph(
+  graph: RoadGraph,
+  origin: { latitude: number; longitude: number },
+  destination: { latitude: number; longitude: number },
+  options: RouteOptions
+): RouteResult {
+  const source = findNearestVertex(graph, origin.latitude, origin.longitude);
+  const target = findNearestVertex(graph, destination.latitude, destination.longitude);
+  if (source === null || target === null) {
+    throw new RoutingError("Origin or destination is too far from a rideable road", "OUT_OF_COVERAGE");
+  }
+
+  const path = findPath(graph, source, target, options.maxSpeedKmh);
+  if (!path) {
+    throw new RoutingError("No rideable route between origin and destination", "NO_ROUTE");
+  }
+
+  return {
+    distance: formatRouteDistance(path.distance),
+    duration: formatRouteDuration(path.duration, options.language),
+    distanceValue: Math.round(path.distance),
+    durationValue: Math.round(path.duration),
+    steps: buildRouteSteps(graph, path, options),
+    polyline: path.vertices.map((v) => ({ latitude: graph.lat[v], longitude: graph.lon[v] })),
+  };
+}
+
+/**
+ * Routes using the server's OSM extract
+ */
+export async function planRoute(
+  origin: { latitude: number; longitude: number },
+  destination: { latitude: number; longitude: number },
+  options: RouteOptions
+): Promise<RouteResult> {
+  const graph = await getRoadGraph();
+  return routeOnGraph(graph, origin, destination, options);
+}
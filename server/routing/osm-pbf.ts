@@ -0,0 +1,357 @@
+/**
+ * OSM PBF reader
+ *
+ * Minimal decoder for OpenStreetMap .osm.pbf extracts (fileformat.proto + osmformat.proto).
+ * Only nodes (plain and dense) and ways are decoded; relations and metadata are skipped.
+ * The file is read blob by blob so large extracts never need to be held in memory at once.
+ */
+
+import { promises as fs } from "fs";
+import { inflate } from "zlib";
+import { promisify } from "util";
+
+const inflateAsync = promisify(inflate);
+
+export interface OsmNode {
+  id: number;
+  lat: number;
+  lon: number;
+  tags: Record<string, string>;
+}
+
+export interface OsmWay {
+  id: number;
+  refs: number[];
+  tags: Record<string, string>;
+}
+
+export interface OsmPbfHandlers {
+  /** Called for every node; omit to skip node decoding entirely */
+  node?: (node: OsmNode) => void;
+  /** Called for every way; omit to skip way decoding entirely */
+  way?: (way: OsmWay) => void;
+}
+
+// Protobuf wire types
+const WIRE_VARINT = 0;
+const WIRE_64BIT = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_32BIT = 5;
+
+/**
+ * Sequential protobuf reader
+ * Varints are accumulated with floating-point math so 64-bit ids up to 2^53 stay exact.
+ */
+export class ProtoReader {
+  pos: number;
+
+  constructor(private readonly buf: Uint8Array, start: number = 0, private readonly end: number = buf.length) {
+    this.pos = start;
+  }
+
+  get done(): boolean {
+    return this.pos >= this.end;
+  }
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (this.pos >= this.end) throw new Error("Truncated varint");
+      const byte = this.buf[this.pos++];
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return result;
+      multiplier *= 128;
+    }
+  }
+
+  svarint(): number {
+    const value = this.varint();
+    // ZigZag decoding without 32-bit bitwise operators
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  /** Reads a field key, returning [fieldNumber, wireType] */
+  key(): [number, number] {
+    const key = this.varint();
+    return [Math.floor(key / 8), key % 8];
+  }
+
+  bytes(): Uint8Array {
+    const length = this.varint();
+    const start = this.pos;
+    this.pos += length;
+    if (this.pos > this.end) throw new Error("Truncated length-delimited field");
+    return this.buf.subarray(start, this.pos);
+  }
+
+  string(): string {
+    return Buffer.from(this.bytes()).toString("utf8");
+  }
+
+  /** Reader over a length-delimited field without copying */
+  sub(): ProtoReader {
+    const length = this.varint();
+    const start = this.pos;
+    this.pos += length;
+    if (this.pos > this.end) throw new Error("Truncated embedded message");
+    return new ProtoReader(this.buf, start, this.pos);
+  }
+
+  packedVarints(): number[] {
+    const reader = this.sub();
+    const values: number[] = [];
+    while (!reader.done) values.push(reader.varint());
+    return values;
+  }
+
+  packedSvarints(): number[] {
+    const reader = this.sub();
+    const values: number[] = [];
+    while (!reader.done) values.push(reader.svarint());
+    return values;
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.varint();
+        break;
+      case WIRE_64BIT:
+        this.pos += 8;
+        break;
+      case WIRE_LENGTH_DELIMITED:
+        this.pos += this.varint();
+        break;
+      case WIRE_32BIT:
+        this.pos += 4;
+        break;
+      default:
+        throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+}
+
+interface BlockContext {
+  strings: string[];
+  granularity: number;
+  latOffset: number;
+  lonOffset: number;
+}
+
+function decodeTags(keys: number[], vals: number[], strings: string[]): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (let i = 0; i < keys.length && i < vals.length; i++) {
+    tags[strings[keys[i]]] = strings[vals[i]];
+  }
+  return tags;
+}
+
+function decodeNode(reader: ProtoReader, ctx: BlockContext): OsmNode {
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  let keys: number[] = [];
+  let vals: number[] = [];
+  while (!reader.done) {
+    const [field, wireType] = reader.key();
+    if (field === 1) id = reader.svarint();
+    else if (field === 2) keys = reader.packedVarints();
+    else if (field === 3) vals = reader.packedVarints();
+    else if (field === 8) lat = reader.svarint();
+    else if (field === 9) lon = reader.svarint();
+    else reader.skip(wireType);
+  }
+  return {
+    id,
+    lat: 1e-9 * (ctx.latOffset + ctx.granularity * lat),
+    lon: 1e-9 * (ctx.lonOffset + ctx.granularity * lon),
+    tags: decodeTags(keys, vals, ctx.strings),
+  };
+}
+
+function decodeDenseNodes(reader: ProtoReader, ctx: BlockContext, onNode: (node: OsmNode) => void): void {
+  let ids: number[] = [];
+  let lats: number[] = [];
+  let lons: number[] = [];
+  let keysVals: number[] = [];
+  while (!reader.done) {
+    const [field, wireType] = reader.key();
+    if (field === 1) ids = reader.packedSvarints();
+    else if (field === 8) lats = reader.packedSvarints();
+    else if (field === 9) lons = reader.packedSvarints();
+    else if (field === 10) keysVals = reader.packedVarints();
+    else reader.skip(wireType);
+  }
+
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  let kvIndex = 0;
+  for (let i = 0; i < ids.length; i++) {
+    id += ids[i];
+    lat += lats[i];
+    lon += lons[i];
+
+    // keys_vals: (key, value)* 0 per node; empty when no node in the block has tags
+    const tags: Record<string, string> = {};
+    if (keysVals.length > 0) {
+      while (kvIndex < keysVals.length && keysVals[kvIndex] !== 0) {
+        tags[ctx.strings[keysVals[kvIndex]]] = ctx.strings[keysVals[kvIndex + 1]];
+        kvIndex += 2;
+      }
+      kvIndex++;
+    }
+
+    onNode({
+      id,
+      lat: 1e-9 * (ctx.latOffset + ctx.granularity * lat),
+      lon: 1e-9 * (ctx.lonOffset + ctx.granularity * lon),
+      tags,
+    });
+  }
+}
+
+function decodeWay(reader: ProtoReader, ctx: BlockContext): OsmWay {
+  let id = 0;
+  let keys: number[] = [];
+  let vals: number[] = [];
+  let refDeltas: number[] = [];
+  while (!reader.done) {
+    const [field, wireType] = reader.key();
+    if (field === 1) id = reader.varint();
+    else if (field === 2) keys = reader.packedVarints();
+    else if (field === 3) vals = reader.packedVarints();
+    else if (field === 8) refDeltas = reader.packedSvarints();
+    else reader.skip(wireType);
+  }
+
+  const refs: number[] = new Array(refDeltas.length);
+  let ref = 0;
+  for (let i = 0; i < refDeltas.length; i++) {
+    ref += refDeltas[i];
+    refs[i] = ref;
+  }
+  return { id, refs, tags: decodeTags(keys, vals, ctx.strings) };
+}
+
+/**
+ * Decodes one PrimitiveBlock (the payload of an "OSMData" blob)
+ */
+export function decodePrimitiveBlock(data: Uint8Array, handlers: OsmPbfHandlers): void {
+  const ctx: BlockContext = { strings: [], granularity: 100, latOffset: 0, lonOffset: 0 };
+  const groups: ProtoReader[] = [];
+
+  const reader = new ProtoReader(data);
+  while (!reader.done) {
+    const [field, wireType] = reader.key();
+    if (field === 1) {
+      const table = reader.sub();
+      while (!table.done) {
+        const [stringField, stringWire] = table.key();
+        if (stringField === 1) ctx.strings.push(table.string());
+        else table.skip(stringWire);
+      }
+    } else if (field === 2) {
+      // Groups may precede the granularity fields, so decode them afterwards
+      groups.push(reader.sub());
+    } else if (field === 17) {
+      ctx.granularity = reader.varint();
+    } else if (field === 19) {
+      ctx.latOffset = reader.svarint();
+    } else if (field === 20) {
+      ctx.lonOffset = reader.svarint();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  for (const group of groups) {
+    while (!group.done) {
+      const [field, wireType] = group.key();
+      if (field === 1 && handlers.node) handlers.node(decodeNode(group.sub(), ctx));
+      else if (field === 2 && handlers.node) decodeDenseNodes(group.sub(), ctx, handlers.node);
+      else if (field === 3 && handlers.way) handlers.way(decodeWay(group.sub(), ctx));
+      else group.skip(wireType);
+    }
+  }
+}
+
+async function decodeBlob(data: Uint8Array): Promise<Uint8Array> {
+  const reader = new ProtoReader(data);
+  while (!reader.done) {
+    const [field, wireType] = reader.key();
+    if (field === 1) return reader.bytes();
+    if (field === 3) return new Uint8Array(await inflateAsync(reader.bytes()));
+    if (field === 4 || field === 5 || field === 6 || field === 7) {
+      throw new Error("Unsupported PBF blob compression (only raw and zlib are supported)");
+    }
+    reader.skip(wireType);
+  }
+  throw new Error("Empty PBF blob");
+}
+
+function decodeBlobHeader(data: Uint8Array): { type: string; dataSize: number } {
+  const reader = new ProtoReader(data);
+  let type = "";
+  let dataSize = 0;
+  while (!reader.done) {
+    const [field, wireType] = reader.key();
+    if (field === 1) type = reader.string();
+    else if (field === 3) dataSize = reader.varint();
+    else reader.skip(wireType);
+  }
+  return { type, dataSize };
+}
+
+/**
+ * Iterates over the nodes and ways of an in-memory PBF file
+ */
+export async function readOsmPbfBuffer(buffer: Uint8Array, handlers: OsmPbfHandlers): Promise<void> {
+  let pos = 0;
+  while (pos < buffer.length) {
+    if (pos + 4 > buffer.length) throw new Error("Truncated PBF header length");
+    const headerLength =
+      ((buffer[pos] << 24) >>> 0) + (buffer[pos + 1] << 16) + (buffer[pos + 2] << 8) + buffer[pos + 3];
+    pos += 4;
+    const header = decodeBlobHeader(buffer.subarray(pos, pos + headerLength));
+    pos += headerLength;
+    const blob = buffer.subarray(pos, pos + header.dataSize);
+    pos += header.dataSize;
+
+    if (header.type === "OSMData") {
+      decodePrimitiveBlock(await decodeBlob(blob), handlers);
+    }
+  }
+}
+
+/**
+ * Iterates over the nodes and ways of a PBF file on disk, reading one blob at a time
+ */
+export async function readOsmPbfFile(path: string, handlers: OsmPbfHandlers): Promise<void> {
+  const file = await fs.open(path, "r");
+  try {
+    const lengthBuffer = Buffer.alloc(4);
+    let position = 0;
+    for (;;) {
+      const { bytesRead } = await file.read(lengthBuffer, 0, 4, position);
+      if (bytesRead === 0) break;
+      if (bytesRead < 4) throw new Error("Truncated PBF header length");
+      position += 4;
+
+      const headerBuffer = Buffer.alloc(lengthBuffer.readUInt32BE(0));
+      await file.read(headerBuffer, 0, headerBuffer.length, position);
+      position += headerBuffer.length;
+      const header = decodeBlobHeader(headerBuffer);
+
+      if (header.type === "OSMData") {
+        const blobBuffer = Buffer.alloc(header.dataSize);
+        await file.read(blobBuffer, 0, header.dataSize, position);
+        decodePrimitiveBlock(await decodeBlob(blobBuffer), handlers);
+      }
+      position += header.dataSize;
+    }
+  } finally {
+    await file.close();
+  }
+}
@@ -0,0 +1,443 @@
+/**
+ * Road graph and A* search with an electric scooter profile
+ *
+ * Ways are filtered and weighted by {@link classifyWay}; every way node becomes a vertex and
+ * consecutive nodes become directed edges (both directions unless the way is oneway).
+ * Edge travel time is evaluated at query time so the rider's max-speed setting can be applied.
+ */
+
+import type { OsmNode, OsmWay } from "./osm-pbf";
+
+export interface WayProfile {
+  /** Default speed for the road class when no maxspeed tag is present (km/h) */
+  speedKmh: number;
+  /** Cost multiplier (< 1 preferred, > 1 avoided) */
+  factor: number;
+  oneway: "no" | "forward" | "backward";
+  bikeLane: boolean;
+  roundabout: boolean;
+}
+
+// Base speed (km/h) and cost factor per highway class; classes not listed here are not routable
+const HIGHWAY_PROFILES: Record<string, { speedKmh: number; factor: number }> = {
+  cycleway: { speedKmh: 25, factor: 0.7 },
+  primary: { speedKmh: 25, factor: 1.6 },
+  primary_link: { speedKmh: 25, factor: 1.6 },
+  secondary: { speedKmh: 25, factor: 1.3 },
+  secondary_link: { speedKmh: 25, factor: 1.3 },
+  tertiary: { speedKmh: 25, factor: 1.1 },
+  tertiary_link: { speedKmh: 25, factor: 1.1 },
+  unclassified: { speedKmh: 20, factor: 1.0 },
+  residential: { speedKmh: 20, factor: 1.0 },
+  living_street: { speedKmh: 10, factor: 1.1 },
+  service: { speedKmh: 15, factor: 1.2 },
+  road: { speedKmh: 15, factor: 1.2 },
+  track: { speedKmh: 12, factor: 1.5 },
+  path: { speedKmh: 12, factor: 1.3 },
+  // Pedestrian ways are only usable when bicycles are explicitly allowed
+  pedestrian: { speedKmh: 8, factor: 1.4 },
+  footway: { speedKmh: 8, factor: 1.4 },
+};
+
+const BIKE_ALLOWED = new Set(["yes", "designated", "permissive"]);
+const ACCESS_DENIED = new Set(["no", "private"]);
+const BIKE_LANE_VALUES = new Set(["lane", "track", "shared_lane", "separate"]);
+
+// Bike lanes make an otherwise busy road noticeably more attractive
+const BIKE_LANE_FACTOR = 0.75;
+/** Smallest factor any edge can have; keeps the A* heuristic admissible */
+export const MIN_COST_FACTOR = HIGHWAY_PROFILES.cycleway.factor * BIKE_LANE_FACTOR;
+
+function parseMaxSpeed(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(mph)?/);
+  if (!match) return null;
+  const speed = parseFloat(match[1]);
+  return match[2] ? speed * 1.609 : speed;
+}
+
+function hasBikeLane(tags: Record<string, string>): boolean {
+  return ["cycleway", "cycleway:both", "cycleway:left", "cycleway:right"].some(
+    (key) => tags[key] !== undefined && BIKE_LANE_VALUES.has(tags[key])
+  );
+}
+
+/**
+ * Decides whether a way is rideable by scooter and how it should be weighted.
+ * Motorways, trunk roads, steps and ways closed to bicycles return null.
+ */
+export function classifyWay(tags: Record<string, string>): WayProfile | null {
+  const highway = tags.highway;
+  if (!highway) return null;
+
+  const bicycle = tags.bicycle;
+  const explicitlyAllowed = bicycle !== undefined && BIKE_ALLOWED.has(bicycle);
+  if (bicycle === "no" || bicycle === "use_sidepath") return null;
+  if (tags.motorroad === "yes") return null;
+  if (tags.area === "yes") return null;
+  if (!explicitlyAllowed && (ACCESS_DENIED.has(tags.access) || ACCESS_DENIED.has(tags.vehicle))) return null;
+
+  const base = HIGHWAY_PROFILES[highway];
+  if (!base) return null;
+  if ((highway === "pedestrian" || highway === "footway") && !explicitlyAllowed) return null;
+
+  const bikeLane = highway === "cycleway" || bicycle === "designated" || hasBikeLane(tags);
+  const roundabout = tags.junction === "roundabout" || tags.junction === "circular";
+  const roadLimit = parseMaxSpeed(tags.maxspeed);
+
+  let oneway: WayProfile["oneway"] = "no";
+  if (tags.oneway === "yes" || tags.oneway === "1" || tags.oneway === "true" || roundabout) {
+    oneway = "forward";
+  } else if (tags.oneway === "-1" || tags.oneway === "reverse") {
+    oneway = "backward";
+  }
+  // Contraflow cycling allowed
+  if (tags["oneway:bicycle"] === "no" || (tags.cycleway ?? "").startsWith("opposite")) {
+    oneway = "no";
+  }
+
+  let factor = base.factor;
+  if (bikeLane && highway !== "cycleway") factor *= BIKE_LANE_FACTOR;
+  else if (bikeLane) factor = MIN_COST_FACTOR;
+  if (tags.surface && ["gravel", "dirt", "ground", "sand", "grass", "unpaved"].includes(tags.surface)) {
+    factor *= 1.3;
+  }
+
+  return {
+    speedKmh: roadLimit !== null ? Math.min(base.speedKmh, roadLimit) : base.speedKmh,
+    factor,
+    oneway,
+    bikeLane,
+    roundabout,
+  };
+}
+
+export interface RoadWayInfo {
+  name: string | null;
+  highway: string;
+  bikeLane: boolean;
+  roundabout: boolean;
+}
+
+/**
+ * Immutable routing graph in compressed sparse row form
+ */
+export interface RoadGraph {
+  nodeCount: number;
+  lat: Float64Array;
+  lon: Float64Array;
+  /** Edges of vertex v are edgeStart[v] .. edgeStart[v + 1] - 1 */
+  edgeStart: Int32Array;
+  edgeTarget: Int32Array;
+  /** Edge length in meters */
+  edgeDistance: Float32Array;
+  /** Road speed (km/h) before the rider's max-speed cap */
+  edgeSpeed: Float32Array;
+  edgeFactor: Float32Array;
+  edgeWay: Int32Array;
+  ways: RoadWayInfo[];
+  /** Spatial grid for nearest-vertex lookup */
+  grid: Map<string, number[]>;
+}
+
+const GRID_CELL_DEGREES = 0.005;
+
+function gridKey(lat: number, lon: number): string {
+  return `${Math.floor(lat / GRID_CELL_DEGREES)}:${Math.floor(lon / GRID_CELL_DEGREES)}`;
+}
+
+export function haversineMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Collects routable ways and the coordinates of the nodes they reference.
+ * Feed it ways first, then nodes (two passes over a PBF file), then call {@link build}.
+ */
+export class RoadGraphBuilder {
+  private readonly wayRefs: number[][] = [];
+  private readonly wayProfiles: WayProfile[] = [];
+  private readonly wayInfos: RoadWayInfo[] = [];
+  private readonly nodeIndex = new Map<number, number>();
+  private readonly coords: number[] = [];
+
+  addWay(way: OsmWay): void {
+    if (way.refs.length < 2) return;
+    const profile = classifyWay(way.tags);
+    if (!profile) return;
+
+    this.wayRefs.push(way.refs);
+    this.wayProfiles.push(profile);
+    this.wayInfos.push({
+      name: way.tags.name ?? way.tags.ref ?? null,
+      highway: way.tags.highway,
+      bikeLane: profile.bikeLane,
+      roundabout: profile.roundabout,
+    });
+    for (const ref of way.refs) {
+      if (!this.nodeIndex.has(ref)) {
+        this.nodeIndex.set(ref, this.nodeIndex.size);
+      }
+    }
+  }
+
+  /** True once a way referencing this node id has been added */
+  needsNode(id: number): boolean {
+    return this.nodeIndex.has(id);
+  }
+
+  addNode(node: OsmNode): void {
+    const index = this.nodeIndex.get(node.id);
+    if (index === undefined) return;
+    this.coords[index * 2] = node.lat;
+    this.coords[index * 2 + 1] = node.lon;
+  }
+
+  build(): RoadGraph {
+    const nodeCount = this.nodeIndex.size;
+    const lat = new Float64Array(nodeCount);
+    const lon = new Float64Array(nodeCount);
+    const known = new Uint8Array(nodeCount);
+    for (let i = 0; i < nodeCount; i++) {
+      if (this.coords[i * 2] !== undefined) {
+        lat[i] = this.coords[i * 2];
+        lon[i] = this.coords[i * 2 + 1];
+        known[i] = 1;
+      }
+    }
+
+    // Count edges per vertex, then fill CSR arrays
+    const from: number[] = [];
+    const to: number[] = [];
+    const wayOf: number[] = [];
+    this.wayRefs.forEach((refs, wayIndex) => {
+      const { oneway } = this.wayProfiles[wayIndex];
+      for (let i = 1; i < refs.length; i++) {
+        const a = this.nodeIndex.get(refs[i - 1])!;
+        const b = this.nodeIndex.get(refs[i])!;
+        // Extracts clipped at a boundary can reference nodes outside the file
+        if (!known[a] || !known[b] || a === b) continue;
+        if (oneway !== "backward") {
+          from.push(a);
+          to.push(b);
+          wayOf.push(wayIndex);
+        }
+        if (oneway !== "forward") {
+          from.push(b);
+          to.push(a);
+          wayOf.push(wayIndex);
+        }
+      }
+    });
+
+    const edgeCount = from.length;
+    const edgeStart = new Int32Array(nodeCount + 1);
+    for (const v of from) edgeStart[v + 1]++;
+    for (let v = 0; v < nodeCount; v++) edgeStart[v + 1] += edgeStart[v];
+
+    const cursor = edgeStart.slice(0, nodeCount);
+    const edgeTarget = new Int32Array(edgeCount);
+    const edgeDistance = new Float32Array(edgeCount);
+    const edgeSpeed = new Float32Array(edgeCount);
+    const edgeFactor = new Float32Array(edgeCount);
+    const edgeWay = new Int32Array(edgeCount);
+    for (let e = 0; e < edgeCount; e++) {
+      const slot = cursor[from[e]]++;
+      const profile = this.wayProfiles[wayOf[e]];
+      edgeTarget[slot] = to[e];
+      edgeDistance[slot] = haversineMeters(lat[from[e]], lon[from[e]], lat[to[e]], lon[to[e]]);
+      edgeSpeed[slot] = profile.speedKmh;
+      edgeFactor[slot] = profile.factor;
+      edgeWay[slot] = wayOf[e];
+    }
+
+    // Only vertices with outgoing edges are useful snap targets
+    const grid = new Map<string, number[]>();
+    for (let v = 0; v < nodeCount; v++) {
+      if (edgeStart[v + 1] === edgeStart[v]) continue;
+      const key = gridKey(lat[v], lon[v]);
+      const cell = grid.get(key);
+      if (cell) cell.push(v);
+      else grid.set(key, [v]);
+    }
+
+    return {
+      nodeCount,
+      lat,
+      lon,
+      edgeStart,
+      edgeTarget,
+      edgeDistance,
+      edgeSpeed,
+      edgeFactor,
+      edgeWay,
+      ways: this.wayInfos,
+      grid,
+    };
+  }
+}
+
+/**
+ * Builds a graph from in-memory OSM elements (used by tests and small extracts)
+ */
+export function buildRoadGraph(nodes: OsmNode[], ways: OsmWay[]): RoadGraph {
+  const builder = new RoadGraphBuilder();
+  for (const way of ways) builder.addWay(way);
+  for (const node of nodes) builder.addNode(node);
+  return builder.build();
+}
+
+/**
+ * Nearest routable vertex within maxDistance meters (searches the 3x3 grid neighbourhood)
+ */
+export function findNearestVertex(
+  graph: RoadGraph,
+  lat: number,
+  lon: number,
+  maxDistance: number = 500
+): number | null {
+  const row = Math.floor(lat / GRID_CELL_DEGREES);
+  const col = Math.floor(lon / GRID_CELL_DEGREES);
+  let best: number | null = null;
+  let bestDistance = maxDistance;
+
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      const cell = graph.grid.get(`${row + dr}:${col + dc}`);
+      if (!cell) continue;
+      for (const v of cell) {
+        const distance = haversineMeters(lat, lon, graph.lat[v], graph.lon[v]);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = v;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+// Binary min-heap keyed by f-score
+class MinHeap {
+  private readonly items: number[] = [];
+  private readonly keys: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: number, key: number): void {
+    this.items.push(item);
+    this.keys.push(key);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= this.keys[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastKey = this.keys.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.keys[0] = lastKey;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.keys[left] < this.keys[smallest]) smallest = left;
+        if (right < this.items.length && this.keys[right] < this.keys[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+  }
+}
+
+export interface PathResult {
+  /** Vertex sequence from source to target */
+  vertices: number[];
+  /** Edge index used to reach vertices[i + 1] from vertices[i] */
+  edges: number[];
+  distance: number;
+  /** Travel time in seconds at the capped speed (without preference factors) */
+  duration: number;
+}
+
+/**
+ * A* shortest path by weighted travel time.
+ * Speeds are capped at maxSpeedKmh; the heuristic assumes the best-case factor at that speed.
+ */
+export function findPath(graph: RoadGraph, source: number, target: number, maxSpeedKmh: number): PathResult | null {
+  const maxSpeed = maxSpeedKmh / 3.6;
+  const targetLat = graph.lat[target];
+  const targetLon = graph.lon[target];
+  const heuristic = (v: number) =>
+    (haversineMeters(graph.lat[v], graph.lon[v], targetLat, targetLon) / maxSpeed) * MIN_COST_FACTOR;
+
+  const gScore = new Float64Array(graph.nodeCount).fill(Infinity);
+  const cameFromEdge = new Int32Array(graph.nodeCount).fill(-1);
+  const cameFromVertex = new Int32Array(graph.nodeCount).fill(-1);
+  const closed = new Uint8Array(graph.nodeCount);
+  const open = new MinHeap();
+
+  gScore[source] = 0;
+  open.push(source, heuristic(source));
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (closed[current]) continue;
+    if (current === target) break;
+    closed[current] = 1;
+
+    for (let e = graph.edgeStart[current]; e < graph.edgeStart[current + 1]; e++) {
+      const next = graph.edgeTarget[e];
+      if (closed[next]) continue;
+      const speed = Math.min(graph.edgeSpeed[e] / 3.6, maxSpeed);
+      const cost = gScore[current] + (graph.edgeDistance[e] / speed) * graph.edgeFactor[e];
+      if (cost < gScore[next]) {
+        gScore[next] = cost;
+        cameFromEdge[next] = e;
+        cameFromVertex[next] = current;
+        open.push(next, cost + heuristic(next));
+      }
+    }
+  }
+
+  if (source !== target && cameFromVertex[target] === -1) return null;
+
+  const vertices: number[] = [target];
+  const edges: number[] = [];
+  let distance = 0;
+  let duration = 0;
+  for (let v = target; v !== source; v = cameFromVertex[v]) {
+    const e = cameFromEdge[v];
+    edges.push(e);
+    vertices.push(cameFromVertex[v]);
+    distance += graph.edgeDistance[e];
+    duration += graph.edgeDistance[e] / Math.min(graph.edgeSpeed[e] / 3.6, maxSpeed);
+  }
+  vertices.reverse();
+  edges.reverse();
+
+  return { vertices, edges, distance, duration };
+}
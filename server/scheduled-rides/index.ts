@@ -0,0 +1,365 @@
+/**
+ * Scheduled group rides
+ *
+ * A host plans a ride ahead of time with a meeting point, an optional route, a pace and a
+ * capacity, and riders RSVP. Riders who want to go once the ride is full are waitlisted and move
+ * up in order when a spot opens. A background job pushes a reminder the day before and, at start
+ * time, creates the group session with the planned route published and the riders going already
+ * approved as members.
+ */
+
+import * as db from "../db";
+import type { ScheduledRide } from "../../drizzle/schema";
+import { parseSharedRoute, type GroupRoute, type SharedRoute } from "../group-route";
+import {
+  MAX_RIDE_CAPACITY,
+  MIN_RIDE_CAPACITY,
+  PACE_SPEED_RANGES,
+  type PaceLevel,
+  type RsvpStatus,
+} from "../../shared/scheduled-ride.js";
+
+/** How long before the start the reminder push goes out (ms) */
+export const REMINDER_LEAD_MS = 24 * 60 * 60_000;
+
+/** Rides whose start passed longer ago than this (e.g. while the server was down) are not started anymore (ms) */
+export const START_GRACE_MS = 60 * 60_000;
+
+const PACE_LABELS: Record<PaceLevel, string> = {
+  relaxed: "여유",
+  moderate: "보통",
+  fast: "빠름",
+};
+
+/** How often the job checks for reminders and rides to start (ms) */
+const JOB_INTERVAL_MS = 60_000;
+
+/** Rides can't be planned further ahead than this (ms) */
+const MAX_SCHEDULE_AHEAD_MS = 180 * 24 * 60 * 60_000;
+
+export interface ScheduledRideInput {
+  title: string;
+  description?: string | null;
+  /** Epoch milliseconds */
+  startsAt: number;
+  meetingPoint: { name: string; latitude: number; longitude: number };
+  /** Distance is measured again from the points */
+  route?: Omit<SharedRoute, "totalDistance"> & { totalDistance?: number };
+  paceLevel: PaceLevel;
+  capacity: number;
+  /** Listed in ride discovery */
+  isPublic?: boolean;
+}
+
+/**
+ * Status a rider ends up with: asking to go on a full ride puts them on the waitlist.
+ * `goingCount` counts riders going other than this one.
+ */
+export function resolveRsvpStatus(requested: Exclude<RsvpStatus, "waitlist">, goingCount: number, capacity: number): RsvpStatus {
+  if (requested !== "going") return requested;
+  return goingCount < capacity ? "going" : "waitlist";
+}
+
+/**
+ * Waitlisted riders who fit in the open spots, longest waiting first
+ */
+export function pickWaitlistPromotions<T extends { userId: number; status: RsvpStatus; updatedAt: Date }>(
+  rsvps: T[],
+  capacity: number
+): T[] {
+  const openSpots = capacity - rsvps.filter((rsvp) => rsvp.status === "going").length;
+  if (openSpots <= 0) return [];
+  return rsvps
+    .filter((rsvp) => rsvp.status === "waitlist")
+    .sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime())
+    .slice(0, openSpots);
+}
+
+/**
+ * What the background job owes a scheduled ride at `now`
+ */
+export function dueRideAction(
+  ride: { startsAt: Date; status: "scheduled" | "started" | "cancelled"; reminderSentAt: Date | null },
+  now: number
+): "remind" | "start" | null {
+  if (ride.status !== "scheduled") return null;
+  const startsAt = ride.startsAt.getTime();
+  if (startsAt <= now) return startsAt > now - START_GRACE_MS ? "start" : null;
+  if (!ride.reminderSentAt && startsAt - now <= REMINDER_LEAD_MS) return "remind";
+  return null;
+}
+
+/**
+ * The route saved with a ride (null when it has none)
+ */
+export function plannedRoute(ride: Pick<ScheduledRide, "plannedRouteJson">): SharedRoute | null {
+  if (!ride.plannedRouteJson) return null;
+  try {
+    return JSON.parse(ride.plannedRouteJson) as SharedRoute;
+  } catch {
+    return null;
+  }
+}
+
+function formatStartTime(startsAt: Date): string {
+  return startsAt.toLocaleString("ko-KR", {
+    timeZone: "Asia/Seoul",
+    month: "long",
+    day: "numeric",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Validates and saves a new ride; the host is going from the start
+ */
+export async function createScheduledRide(hostId: number, input: ScheduledRideInput, now: number = Date.now()): Promise<number> {
+  if (input.startsAt <= now) throw new Error("출발 시간은 현재 이후여야 합니다.");
+  if (input.startsAt > now + MAX_SCHEDULE_AHEAD_MS) throw new Error("180일 이내의 라이딩만 만들 수 있습니다.");
+  if (input.capacity < MIN_RIDE_CAPACITY || input.capacity > MAX_RIDE_CAPACITY) {
+    throw new Error(`정원은 ${MIN_RIDE_CAPACITY}~${MAX_RIDE_CAPACITY}명으로 정해주세요.`);
+  }
+
+  const parsed = parseSharedRoute({ route: input.route ?? null, meetingPoint: input.meetingPoint });
+  if (!parsed?.meetingPoint) throw new Error("경로 또는 집결지 정보가 올바르지 않습니다.");
+
+  const rideId = await db.createScheduledRide({
+    hostId,
+    title: input.title,
+    description: input.description || null,
+    startsAt: new Date(input.startsAt),
+    meetingPointName: parsed.meetingPoint.name,
+    meetingLatitude: parsed.meetingPoint.latitude.toFixed(7),
+    meetingLongitude: parsed.meetingPoint.longitude.toFixed(7),
+    plannedRouteJson: parsed.route ? JSON.stringify(parsed.route) : null,
+    paceLevel: input.paceLevel,
+    capacity: input.capacity,
+    isPublic: input.isPublic ?? false,
+  });
+  if (!rideId) throw new Error("라이딩 일정 생성에 실패했습니다.");
+
+  await db.setScheduledRideRsvp(rideId, hostId, "going");
+  return rideId;
+}
+
+/**
+ * Whether a rider can see a ride: the rule of the upcoming list (public, their own, or one they
+ * answered), plus rides the host recruits for with a community post
+ */
+export async function canViewScheduledRide(
+  ride: Pick<ScheduledRide, "id" | "hostId" | "isPublic">,
+  userId: number,
+  rsvps: { userId: number }[]
+): Promise<boolean> {
+  if (ride.isPublic || ride.hostId === userId || rsvps.some((rsvp) => rsvp.userId === userId)) return true;
+  return db.hasScheduledRideRecruitPost(ride.id);
+}
+
+export interface RsvpPlan {
+  status: RsvpStatus;
+  changes: db.ScheduledRideRsvpChange[];
+  /** Waitlisted riders moved up to going */
+  promoted: number[];
+}
+
+/**
+ * The RSVP writes a rider's answer makes against the ride as it stands: their own status, and
+ * waitlisted riders moving up when they give up their spot
+ */
+export function planRsvp(
+  ride: Pick<ScheduledRide, "hostId" | "status" | "capacity">,
+  rsvps: { userId: number; status: RsvpStatus; updatedAt: Date }[],
+  userId: number,
+  requested: Exclude<RsvpStatus, "waitlist">
+): RsvpPlan {
+  if (ride.status !== "scheduled") throw new Error("이미 시작되었거나 취소된 라이딩입니다.");
+  if (ride.hostId === userId && requested !== "going") {
+    throw new Error("호스트는 참가를 취소할 수 없습니다. 일정을 취소해주세요.");
+  }
+
+  const current = rsvps.find((rsvp) => rsvp.userId === userId);
+  // Riders already going or waiting keep their place when they ask to go again
+  if (requested === "going" && (current?.status === "going" || current?.status === "waitlist")) {
+    return { status: current.status, changes: [], promoted: [] };
+  }
+
+  const othersGoing = rsvps.filter((rsvp) => rsvp.status === "going" && rsvp.userId !== userId).length;
+  const status = resolveRsvpStatus(requested, othersGoing, ride.capacity);
+  const changes = [{ userId, status }];
+
+  let promoted: number[] = [];
+  if (current?.status === "going" && status !== "going") {
+    const remaining = rsvps.map((rsvp) => (rsvp.userId === userId ? { ...rsvp, status } : rsvp));
+    promoted = pickWaitlistPromotions(remaining, ride.capacity).map((rsvp) => rsvp.userId);
+    changes.push(...promoted.map((promotedId) => ({ userId: promotedId, status: "going" as const })));
+  }
+  return { status, changes, promoted };
+}
+
+/**
+ * Records a rider's RSVP and moves waitlisted riders up when they give up their spot. The ride is
+ * locked while its RSVPs are read and written, so riders answering at once can't overbook it or
+ * promote the same waitlisted rider twice.
+ */
+export async function rsvpToScheduledRide(
+  userId: number,
+  rideId: number,
+  requested: Exclude<RsvpStatus, "waitlist">
+): Promise<RsvpStatus> {
+  const ride = await db.getScheduledRide(rideId);
+  if (!ride || !(await canViewScheduledRide(ride, userId, await db.getScheduledRideRsvps(rideId)))) {
+    throw new Error("라이딩 일정을 찾을 수 없습니다.");
+  }
+
+  const { status, promoted } = await db.updateScheduledRideRsvps(rideId, (locked, rsvps) => {
+    if (!locked) throw new Error("라이딩 일정을 찾을 수 없습니다.");
+    const plan = planRsvp(locked, rsvps, userId, requested);
+    return { changes: plan.changes, result: plan };
+  });
+
+  for (const promotedId of promoted) {
+    await db.sendPushNotification(
+      promotedId,
+      "라이딩 참가 확정 🛴",
+      `자리가 생겨 "${ride.title}" 라이딩에 참가하게 되었습니다.`,
+      { type: "scheduled_ride", rideId }
+    );
+  }
+
+  return status;
+}
+
+/**
+ * Cancels a ride that hasn't started (host only) and lets the riders know
+ */
+export async function cancelScheduledRide(hostId: number, rideId: number): Promise<void> {
+  const ride = await db.getScheduledRide(rideId);
+  if (!ride || ride.hostId !== hostId) throw new Error("호스트만 일정을 취소할 수 있습니다.");
+  if (!(await db.updateScheduledRideStatus(rideId, "scheduled", "cancelled"))) {
+    throw new Error("이미 시작되었거나 취소된 라이딩입니다.");
+  }
+
+  const riders = (await db.getScheduledRideRsvps(rideId))
+    .filter((rsvp) => rsvp.userId !== hostId && rsvp.status !== "declined")
+    .map((rsvp) => rsvp.userId);
+  await db.sendPushNotificationToUsers(
+    riders,
+    "라이딩 취소 안내",
+    `${formatStartTime(ride.startsAt)} "${ride.title}" 라이딩이 취소되었습니다.`,
+    { type: "scheduled_ride", rideId }
+  );
+}
+
+/**
+ * Pushes the reminder a day ahead to riders going or maybe going (once per ride)
+ */
+export async function sendScheduledRideReminder(ride: ScheduledRide): Promise<void> {
+  if (!(await db.claimScheduledRideReminder(ride.id))) return;
+
+  const riders = (await db.getScheduledRideRsvps(ride.id))
+    .filter((rsvp) => rsvp.status === "going" || rsvp.status === "maybe")
+    .map((rsvp) => rsvp.userId);
+  await db.sendPushNotificationToUsers(
+    riders,
+    "다가오는 그룹 라이딩 🛴",
+    `${formatStartTime(ride.startsAt)} ${ride.meetingPointName}에서 "${ride.title}" 라이딩이 출발합니다.`,
+    { type: "scheduled_ride", rideId: ride.id }
+  );
+}
+
+/**
+ * Creates the group session of a ride at start time with its route and meeting point published
+ * and the riders going approved, then sends them the group code
+ */
+export async function startScheduledRide(ride: ScheduledRide): Promise<number | null> {
+  // Claim the ride first so a second server (or a slow previous run) doesn't open another session
+  if (!(await db.updateScheduledRideStatus(ride.id, "scheduled", "started"))) return null;
+
+  const session = await db.createGroupSession(ride.hostId, ride.title.slice(0, 50));
+  if (!session) {
+    console.error(`[ScheduledRides] Failed to create a group for ride ${ride.id}`);
+    await db.updateScheduledRideStatus(ride.id, "started", "scheduled");
+    return null;
+  }
+
+  const groupRoute: GroupRoute = {
+    route: plannedRoute(ride),
+    meetingPoint: {
+      name: ride.meetingPointName,
+      latitude: Number(ride.meetingLatitude),
+      longitude: Number(ride.meetingLongitude),
+    },
+    publishedBy: ride.hostId,
+    publishedAt: Date.now(),
+  };
+  await db.saveGroupSharedRoute(session.groupId, JSON.stringify(groupRoute));
+
+  const going = (await db.getScheduledRideRsvps(ride.id))
+    .filter((rsvp) => rsvp.status === "going")
+    .map((rsvp) => rsvp.userId);
+  await db.addApprovedGroupMembers(session.groupId, going.filter((userId) => userId !== ride.hostId));
+  await db.setScheduledRideGroup(ride.id, session.groupId);
+
+  await db.sendPushNotificationToUsers(
+    going,
+    "그룹 라이딩이 열렸습니다 🛴",
+    `"${ride.title}" 그룹에 참가되었습니다. 그룹 코드: ${session.code}`,
+    { type: "scheduled_ride_started", rideId: ride.id, groupId: session.groupId, code: session.code }
+  );
+  return session.groupId;
+}
+
+/**
+ * One pass of the background job: reminders for rides within a day and sessions for rides due now
+ */
+export async function runScheduledRideJobs(now: number = Date.now()): Promise<void> {
+  const rides = await db.getScheduledRidesStartingBetween(new Date(now - START_GRACE_MS), new Date(now + REMINDER_LEAD_MS));
+  for (const ride of rides) {
+    const action = dueRideAction(ride, now);
+    try {
+      if (action === "remind") await sendScheduledRideReminder(ride);
+      else if (action === "start") await startScheduledRide(ride);
+    } catch (error) {
+      console.error(`[ScheduledRides] Failed to ${action} ride ${ride.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Runs the job every minute; returns a function that stops it
+ */
+export function startScheduledRideJobs(): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow pass
+    if (running) return;
+    running = true;
+    try {
+      await runScheduledRideJobs();
+    } finally {
+      running = false;
+    }
+  }, JOB_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+/**
+ * Title and text of the community post recruiting riders for a ride
+ */
+export function formatScheduledRidePost(
+  ride: Pick<ScheduledRide, "title" | "description" | "startsAt" | "meetingPointName" | "paceLevel" | "capacity">,
+  route: SharedRoute | null
+): { title: string; content: string } {
+  const { min, max } = PACE_SPEED_RANGES[ride.paceLevel];
+  const lines = [
+    `📅 ${formatStartTime(ride.startsAt)}`,
+    `📍 집결지: ${ride.meetingPointName}`,
+    `🛴 페이스: ${PACE_LABELS[ride.paceLevel]} (${min}~${max}km/h)`,
+    `👥 정원: ${ride.capacity}명`,
+  ];
+  if (route) lines.push(`🗺️ 경로: ${route.name} (${(route.totalDistance / 1000).toFixed(1)}km)`);
+  if (ride.description) lines.push("", ride.description);
+  return { title: `[그룹 라이딩 모집] ${ride.title}`, content: lines.join("\n") };
+}
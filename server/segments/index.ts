@@ -0,0 +1,137 @@
+/**
+ * Segment efforts
+ *
+ * New rides are matched against the segments around their track; each match is stored as an
+ * effort and a faster-than-ever effort notifies the rider.
+ */
+
+import * as db from "../db";
+import type { Segment } from "../../drizzle/schema";
+import {
+  boundingBox,
+  matchSegmentEfforts,
+  type SegmentPoint,
+  type TrackPoint,
+} from "./matching";
+
+/** Bounding-box padding when looking up segments near a ride (~50m) */
+const SEARCH_MARGIN_DEG = 0.0005;
+
+export interface RecordedEffort {
+  segmentId: number;
+  segmentName: string;
+  elapsedTime: number;
+  isPersonalRecord: boolean;
+  /** Previous best in seconds (null on the first effort) */
+  previousBest: number | null;
+}
+
+/**
+ * Parses a ride's gpsPointsJson into timed track points (invalid points are dropped)
+ */
+export function parseTrack(gpsPointsJson: string | null | undefined): TrackPoint[] {
+  if (!gpsPointsJson) return [];
+  let raw: unknown;
+  try {
+    raw = JSON.parse(gpsPointsJson);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((p: any) => ({
+      latitude: Number(p?.latitude),
+      longitude: Number(p?.longitude),
+      timestamp: typeof p?.timestamp === "string" ? Date.parse(p.timestamp) : Number(p?.timestamp),
+    }))
+    .filter((p) => Number.isFinite(p.latitude) && Number.isFinite(p.longitude) && Number.isFinite(p.timestamp));
+}
+
+export function formatElapsedTime(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mm = h > 0 ? String(m).padStart(2, "0") : String(m);
+  return `${h > 0 ? `${h}:` : ""}${mm}:${String(s).padStart(2, "0")}`;
+}
+
+/**
+ * Stores the efforts of one ride on one segment and flags/announces a new personal record
+ */
+export async function recordEffortsOnSegment(
+  segment: Segment,
+  userId: number,
+  ridingRecordId: number,
+  track: TrackPoint[],
+  options: { notify: boolean }
+): Promise<RecordedEffort | null> {
+  const segmentPoints: SegmentPoint[] = JSON.parse(segment.pointsJson);
+  const matches = matchSegmentEfforts(track, segmentPoints);
+  if (matches.length === 0) return null;
+
+  const previousBest = await db.getUserBestSegmentEffort(segment.id, userId);
+  const fastest = matches.reduce((best, m) => (m.elapsedTime < best.elapsedTime ? m : best));
+  const isPersonalRecord = !previousBest || fastest.elapsedTime < previousBest.elapsedTime;
+
+  for (const match of matches) {
+    await db.createSegmentEffort({
+      segmentId: segment.id,
+      userId,
+      ridingRecordId,
+      startTime: new Date(match.startTime),
+      elapsedTime: match.elapsedTime,
+      avgSpeed: Math.round((segment.distance / match.elapsedTime) * 3.6 * 10),
+      isPersonalRecord: isPersonalRecord && match === fastest,
+    });
+  }
+
+  // The first effort is a PR by definition; only an improvement is worth a notification
+  if (options.notify && previousBest && isPersonalRecord) {
+    const improvement = previousBest.elapsedTime - fastest.elapsedTime;
+    await db.createNotification({
+      userId,
+      type: "segment_pr",
+      title: "구간 개인 최고 기록!",
+      body: `"${segment.name}" 구간을 ${formatElapsedTime(fastest.elapsedTime)}에 통과했습니다. 이전 기록보다 ${improvement}초 빨라졌어요!`,
+      entityType: "segment",
+      entityId: segment.id,
+    });
+  }
+
+  return {
+    segmentId: segment.id,
+    segmentName: segment.name,
+    elapsedTime: fastest.elapsedTime,
+    isPersonalRecord,
+    previousBest: previousBest?.elapsedTime ?? null,
+  };
+}
+
+/**
+ * Matches a new ride against every segment near its track
+ */
+export async function recordSegmentEfforts(
+  userId: number,
+  ridingRecordId: number,
+  gpsPointsJson: string | null | undefined,
+  options: { notify: boolean } = { notify: true }
+): Promise<RecordedEffort[]> {
+  const track = parseTrack(gpsPointsJson);
+  if (track.length < 2) return [];
+
+  const box = boundingBox(track);
+  const candidates = await db.getSegmentsInBounds({
+    minLat: box.minLat - SEARCH_MARGIN_DEG,
+    maxLat: box.maxLat + SEARCH_MARGIN_DEG,
+    minLng: box.minLng - SEARCH_MARGIN_DEG,
+    maxLng: box.maxLng + SEARCH_MARGIN_DEG,
+  });
+
+  const recorded: RecordedEffort[] = [];
+  for (const segment of candidates) {
+    const effort = await recordEffortsOnSegment(segment, userId, ridingRecordId, track, options);
+    if (effort) recorded.push(effort);
+  }
+  return recorded;
+}
@@ -0,0 +1,243 @@
+/**
+ * Segment effort matching
+ *
+ * A ride track matches a segment when it passes the segment's start, reaches its end after
+ * covering a similar distance, and stays inside a corridor around the segment in between.
+ * Tracks are RDP-compressed on upload, so start/end are matched against track edges
+ * (with interpolated times) rather than against the sparse track vertices.
+ */
+
+export interface SegmentPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface TrackPoint extends SegmentPoint {
+  /** Epoch milliseconds */
+  timestamp: number;
+}
+
+export interface SegmentEffortMatch {
+  /** Track edge (startIndex → startIndex + 1) where the effort begins */
+  startIndex: number;
+  /** Track edge (endIndex → endIndex + 1) where the effort ends */
+  endIndex: number;
+  /** Epoch milliseconds at the segment start */
+  startTime: number;
+  /** Seconds from segment start to segment end */
+  elapsedTime: number;
+  /** Meters travelled between start and end */
+  distance: number;
+}
+
+/** Max distance from the segment's start/end for the track to count as passing it (meters) */
+export const ENDPOINT_RADIUS = 25;
+
+/** Max distance between the track and the segment line along the effort (meters) */
+export const CORRIDOR_WIDTH = 40;
+
+/** Share of points that must stay inside the corridor (both ways) */
+const MIN_CORRIDOR_RATIO = 0.9;
+
+/** Accepted travelled distance relative to the segment length */
+const MIN_DISTANCE_RATIO = 0.7;
+const MAX_DISTANCE_RATIO = 1.5;
+
+export const MIN_SEGMENT_DISTANCE = 200;
+export const MAX_SEGMENT_DISTANCE = 50000;
+
+/** Segment points closer than this to the previous kept point are dropped (meters) */
+const SEGMENT_POINT_SPACING = 10;
+
+export function haversineDistance(a: SegmentPoint, b: SegmentPoint): number {
+  const R = 6371000;
+  const dLat = ((b.latitude - a.latitude) * Math.PI) / 180;
+  const dLon = ((b.longitude - a.longitude) * Math.PI) / 180;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((a.latitude * Math.PI) / 180) * Math.cos((b.latitude * Math.PI) / 180) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+export function polylineDistance(points: SegmentPoint[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += haversineDistance(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+export function boundingBox(points: SegmentPoint[]): {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+} {
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  let minLng = Infinity;
+  let maxLng = -Infinity;
+  for (const p of points) {
+    minLat = Math.min(minLat, p.latitude);
+    maxLat = Math.max(maxLat, p.latitude);
+    minLng = Math.min(minLng, p.longitude);
+    maxLng = Math.max(maxLng, p.longitude);
+  }
+  return { minLat, maxLat, minLng, maxLng };
+}
+
+/**
+ * Drops points closer than SEGMENT_POINT_SPACING to keep matching cheap (endpoints are kept)
+ */
+export function simplifySegment(points: SegmentPoint[]): SegmentPoint[] {
+  if (points.length <= 2) return points.map(({ latitude, longitude }) => ({ latitude, longitude }));
+  const kept: SegmentPoint[] = [{ latitude: points[0].latitude, longitude: points[0].longitude }];
+  for (let i = 1; i < points.length - 1; i++) {
+    if (haversineDistance(kept[kept.length - 1], points[i]) >= SEGMENT_POINT_SPACING) {
+      kept.push({ latitude: points[i].latitude, longitude: points[i].longitude });
+    }
+  }
+  const last = points[points.length - 1];
+  kept.push({ latitude: last.latitude, longitude: last.longitude });
+  return kept;
+}
+
+/**
+ * Projection of p onto edge a→b in a local flat frame: t in [0, 1] and distance in meters
+ */
+function projectOnEdge(p: SegmentPoint, a: SegmentPoint, b: SegmentPoint): { t: number; distance: number } {
+  const metersPerDegLat = 110540;
+  const metersPerDegLng = 111320 * Math.cos((p.latitude * Math.PI) / 180);
+  const ax = (a.longitude - p.longitude) * metersPerDegLng;
+  const ay = (a.latitude - p.latitude) * metersPerDegLat;
+  const bx = (b.longitude - p.longitude) * metersPerDegLng;
+  const by = (b.latitude - p.latitude) * metersPerDegLat;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+  const x = ax + t * dx;
+  const y = ay + t * dy;
+  return { t, distance: Math.sqrt(x * x + y * y) };
+}
+
+export function distanceToPolyline(p: SegmentPoint, polyline: SegmentPoint[]): number {
+  if (polyline.length === 1) return haversineDistance(p, polyline[0]);
+  let best = Infinity;
+  for (let i = 1; i < polyline.length; i++) {
+    best = Math.min(best, projectOnEdge(p, polyline[i - 1], polyline[i]).distance);
+  }
+  return best;
+}
+
+function interpolate(track: TrackPoint[], edge: number, t: number): TrackPoint {
+  const a = track[edge];
+  const b = track[edge + 1];
+  return {
+    latitude: a.latitude + (b.latitude - a.latitude) * t,
+    longitude: a.longitude + (b.longitude - a.longitude) * t,
+    timestamp: a.timestamp + (b.timestamp - a.timestamp) * t,
+  };
+}
+
+/**
+ * Closest pass of the track to `target` within the run of edges starting at `from`
+ * that stay inside ENDPOINT_RADIUS (null if edge `from` itself is outside)
+ */
+function closestPass(
+  track: TrackPoint[],
+  target: SegmentPoint,
+  from: number
+): { edge: number; t: number; distance: number; runEnd: number } | null {
+  let best: { edge: number; t: number; distance: number } | null = null;
+  let edge = from;
+  for (; edge < track.length - 1; edge++) {
+    const projection = projectOnEdge(target, track[edge], track[edge + 1]);
+    if (projection.distance > ENDPOINT_RADIUS) break;
+    if (!best || projection.distance < best.distance) {
+      best = { edge, ...projection };
+    }
+  }
+  return best ? { ...best, runEnd: edge } : null;
+}
+
+function corridorRatio(points: SegmentPoint[], polyline: SegmentPoint[]): number {
+  if (points.length === 0) return 1;
+  const inside = points.filter((p) => distanceToPolyline(p, polyline) <= CORRIDOR_WIDTH).length;
+  return inside / points.length;
+}
+
+/**
+ * Finds every effort on the segment in a ride track (laps produce several efforts)
+ */
+export function matchSegmentEfforts(track: TrackPoint[], segment: SegmentPoint[]): SegmentEffortMatch[] {
+  if (track.length < 2 || segment.length < 2) return [];
+
+  const segmentStart = segment[0];
+  const segmentEnd = segment[segment.length - 1];
+  const segmentLength = polylineDistance(segment);
+  const efforts: SegmentEffortMatch[] = [];
+
+  let edge = 0;
+  while (edge < track.length - 1) {
+    const start = closestPass(track, segmentStart, edge);
+    if (!start) {
+      edge++;
+      continue;
+    }
+
+    const startPoint = interpolate(track, start.edge, start.t);
+    let effort: SegmentEffortMatch | null = null;
+
+    // Walk forward from the start, measuring distance up to each candidate end pass
+    let travelled = 0;
+    let previous: SegmentPoint = startPoint;
+    for (let e = start.edge; e < track.length - 1; e++) {
+      const passDistance = (to: SegmentPoint) => travelled + haversineDistance(previous, to);
+      const end = projectOnEdge(segmentEnd, track[e], track[e + 1]);
+      const endCandidate = interpolate(track, e, e === start.edge ? Math.max(end.t, start.t) : end.t);
+
+      if (end.distance <= ENDPOINT_RADIUS && passDistance(endCandidate) >= segmentLength * MIN_DISTANCE_RATIO) {
+        const pass = closestPass(track, segmentEnd, e)!;
+        // Distance to the closest pass, which may be a few edges further on
+        for (let k = e; k < pass.edge; k++) {
+          travelled += haversineDistance(previous, track[k + 1]);
+          previous = track[k + 1];
+        }
+        const endPoint = interpolate(track, pass.edge, pass.edge === start.edge ? Math.max(pass.t, start.t) : pass.t);
+        const distance = travelled + haversineDistance(previous, endPoint);
+
+        const window = [startPoint, ...track.slice(start.edge + 1, pass.edge + 1), endPoint];
+        const elapsedTime = (endPoint.timestamp - startPoint.timestamp) / 1000;
+        if (
+          distance <= segmentLength * MAX_DISTANCE_RATIO &&
+          elapsedTime > 0 &&
+          corridorRatio(window, segment) >= MIN_CORRIDOR_RATIO &&
+          corridorRatio(segment, window) >= MIN_CORRIDOR_RATIO
+        ) {
+          effort = {
+            startIndex: start.edge,
+            endIndex: pass.edge,
+            startTime: startPoint.timestamp,
+            elapsedTime: Math.round(elapsedTime),
+            distance: Math.round(distance),
+          };
+        }
+        break;
+      }
+
+      travelled += haversineDistance(previous, track[e + 1]);
+      previous = track[e + 1];
+      if (travelled > segmentLength * MAX_DISTANCE_RATIO) break;
+    }
+
+    if (effort) {
+      efforts.push(effort);
+      edge = effort.endIndex + 1;
+    } else {
+      edge = Math.max(start.runEnd, edge + 1);
+    }
+  }
+
+  return efforts;
+}
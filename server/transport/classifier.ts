@@ -0,0 +1,276 @@
+/**
+ * Transport-mode classification
+ *
+ * Splits a ride track into scooter / walking / vehicle / stationary segments. The track is cut
+ * into short windows labelled by their speed distribution, then neighbouring windows are merged
+ * and smoothed with stop patterns: a bus or car stopping at a light stays "vehicle", and a short
+ * slow stretch inside a scooter ride stays "scooter".
+ */
+
+import { haversineDistance, type TrackPoint } from "../segments/matching";
+
+export type TransportMode = "scooter" | "walking" | "vehicle" | "stationary";
+
+export interface ClassifierPoint extends TrackPoint {
+  /** GPS speed in m/s (derived from positions when missing) */
+  speed?: number | null;
+}
+
+export interface TransportSegment {
+  mode: TransportMode;
+  /** low: too short or too noisy to act on without the rider */
+  confidence: "high" | "low";
+  /** First and last track point of the segment */
+  startIndex: number;
+  endIndex: number;
+  /** Epoch milliseconds */
+  startTime: number;
+  endTime: number;
+  /** Meters */
+  distance: number;
+  /** Elapsed seconds */
+  duration: number;
+  /** Seconds spent moving (the part a ride's duration counts) */
+  movingTime: number;
+  /** km/h over moving time */
+  avgSpeed: number;
+  /** km/h, time-weighted 85th percentile */
+  p85Speed: number;
+  /** km/h, ignoring physically implausible jumps */
+  maxSpeed: number;
+  /** Stops of 10 seconds or longer inside the segment */
+  stopCount: number;
+}
+
+/** Length of the windows the track is labelled in (ms) */
+const WINDOW_MS = 30_000;
+
+/** Longer intervals are signal gaps (tunnels, subway) and use the implied speed (ms) */
+const MAX_SAMPLE_INTERVAL_MS = 30_000;
+
+/** Intervals longer than this or slower than MIN_MOVING_KMH don't count as moving time (ms) */
+const MAX_MOVING_INTERVAL_MS = 10_000;
+const MIN_MOVING_KMH = 1;
+
+/** 85th-percentile speed bands (km/h) */
+const STATIONARY_MAX_KMH = 2;
+const WALKING_MAX_KMH = 7;
+export const VEHICLE_MIN_KMH = 45;
+
+/** Speed changes faster than this are GPS noise, not acceleration (m/s²) */
+const MAX_PLAUSIBLE_ACCEL = 6;
+
+/** Stopped this long or longer counts as a stop (ms) */
+const MIN_STOP_MS = 10_000;
+
+/** Stops between two vehicle segments up to this long (with at most VEHICLE_SLOW_MAX_MS of scooter-speed traffic) stay in the vehicle (ms) */
+const VEHICLE_STOP_MAX_MS = 3 * 60_000;
+const VEHICLE_SLOW_MAX_MS = 60_000;
+
+/** Shorter walking stretches belong to the surrounding ride (ms) */
+const MIN_WALKING_MS = 2 * 60_000;
+
+/** Vehicle segments need this much time and distance to be acted on automatically */
+const MIN_VEHICLE_MS = 2 * 60_000;
+const MIN_VEHICLE_DISTANCE = 1000;
+
+/** Vehicle segments whose fast samples are mostly implausible jumps are low confidence */
+const MAX_NOISY_SHARE = 0.5;
+
+interface Sample {
+  /** Index of the interval's end point (the interval runs from index - 1) */
+  index: number;
+  startTime: number;
+  /** ms */
+  elapsed: number;
+  /** meters */
+  distance: number;
+  /** km/h */
+  speed: number;
+  /** m/s², null across gaps */
+  accel: number | null;
+}
+
+interface Run {
+  mode: TransportMode;
+  samples: Sample[];
+}
+
+function toSamples(points: ClassifierPoint[]): Sample[] {
+  const samples: Sample[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const point = points[i];
+    const elapsed = point.timestamp - previous.timestamp;
+    if (elapsed <= 0) continue;
+
+    const distance = haversineDistance(previous, point);
+    const impliedKmh = (distance / (elapsed / 1000)) * 3.6;
+    const speed =
+      elapsed <= MAX_SAMPLE_INTERVAL_MS && point.speed !== null && point.speed !== undefined && point.speed >= 0
+        ? point.speed * 3.6
+        : impliedKmh;
+
+    const last = samples[samples.length - 1];
+    const accel =
+      last && last.index === i - 1 && elapsed <= MAX_MOVING_INTERVAL_MS
+        ? (speed - last.speed) / 3.6 / (elapsed / 1000)
+        : null;
+
+    samples.push({ index: i, startTime: previous.timestamp, elapsed, distance, speed, accel });
+  }
+  return samples;
+}
+
+function totalElapsed(samples: Sample[]): number {
+  return samples.reduce((sum, s) => sum + s.elapsed, 0);
+}
+
+/** Time-weighted speed percentile (q in 0..1) */
+function speedPercentile(samples: Sample[], q: number): number {
+  if (samples.length === 0) return 0;
+  const sorted = [...samples].sort((a, b) => a.speed - b.speed);
+  const target = totalElapsed(sorted) * q;
+  let cumulative = 0;
+  for (const sample of sorted) {
+    cumulative += sample.elapsed;
+    if (cumulative >= target) return sample.speed;
+  }
+  return sorted[sorted.length - 1].speed;
+}
+
+function isPlausible(sample: Sample): boolean {
+  return sample.accel === null || Math.abs(sample.accel) <= MAX_PLAUSIBLE_ACCEL;
+}
+
+function labelWindow(samples: Sample[]): TransportMode {
+  const p85 = speedPercentile(samples, 0.85);
+  if (p85 < STATIONARY_MAX_KMH) return "stationary";
+  if (p85 < WALKING_MAX_KMH) return "walking";
+  if (p85 >= VEHICLE_MIN_KMH) return "vehicle";
+  return "scooter";
+}
+
+function toWindows(samples: Sample[]): Sample[][] {
+  const windows: Sample[][] = [];
+  let current: Sample[] = [];
+  for (const sample of samples) {
+    const isGap = sample.elapsed > MAX_SAMPLE_INTERVAL_MS;
+    const previousIsGap = current.length > 0 && current[current.length - 1].elapsed > MAX_SAMPLE_INTERVAL_MS;
+    if (current.length > 0 && (isGap || previousIsGap || sample.startTime - current[0].startTime >= WINDOW_MS)) {
+      windows.push(current);
+      current = [];
+    }
+    current.push(sample);
+  }
+  if (current.length > 0) windows.push(current);
+  return windows;
+}
+
+/** Joins neighbouring runs with the same mode */
+function mergeRuns(runs: Run[]): Run[] {
+  const merged: Run[] = [];
+  for (const run of runs) {
+    const last = merged[merged.length - 1];
+    if (last && last.mode === run.mode) {
+      last.samples = last.samples.concat(run.samples);
+    } else {
+      merged.push({ mode: run.mode, samples: [...run.samples] });
+    }
+  }
+  return merged;
+}
+
+/** Stops and slow traffic between two vehicle runs are part of the same trip */
+function absorbVehicleStops(runs: Run[]): Run[] {
+  const result = [...runs];
+  let lastVehicle = -1;
+  for (let i = 0; i < result.length; i++) {
+    if (result[i].mode !== "vehicle") continue;
+    if (lastVehicle >= 0 && i - lastVehicle > 1) {
+      const between = result.slice(lastVehicle + 1, i);
+      const slowMs = totalElapsed(between.filter((r) => r.mode === "scooter").flatMap((r) => r.samples));
+      const totalMs = totalElapsed(between.flatMap((r) => r.samples));
+      if (totalMs <= VEHICLE_STOP_MAX_MS && slowMs <= VEHICLE_SLOW_MAX_MS) {
+        for (let j = lastVehicle + 1; j < i; j++) result[j] = { ...result[j], mode: "vehicle" };
+      }
+    }
+    lastVehicle = i;
+  }
+  return mergeRuns(result);
+}
+
+/** Short walking stretches (waiting at a crossing, pushing off) join the run before them */
+function absorbShortWalks(runs: Run[]): Run[] {
+  const result = runs.map((run, i) => {
+    if (run.mode !== "walking" || totalElapsed(run.samples) >= MIN_WALKING_MS) return run;
+    const neighbour = runs[i - 1] ?? runs[i + 1];
+    return { ...run, mode: neighbour?.mode ?? "scooter" };
+  });
+  return mergeRuns(result);
+}
+
+function countStops(samples: Sample[]): number {
+  let stops = 0;
+  let stoppedMs = 0;
+  for (const sample of samples) {
+    if (sample.speed < STATIONARY_MAX_KMH) {
+      stoppedMs += sample.elapsed;
+    } else {
+      if (stoppedMs >= MIN_STOP_MS) stops++;
+      stoppedMs = 0;
+    }
+  }
+  return stoppedMs >= MIN_STOP_MS ? stops + 1 : stops;
+}
+
+function toSegment(run: Run, points: ClassifierPoint[]): TransportSegment {
+  const { samples } = run;
+  const distance = samples.reduce((sum, s) => sum + s.distance, 0);
+  const movingMs = samples
+    .filter((s) => s.elapsed <= MAX_MOVING_INTERVAL_MS && s.speed >= MIN_MOVING_KMH)
+    .reduce((sum, s) => sum + s.elapsed, 0);
+  const plausible = samples.filter((s) => s.elapsed <= MAX_SAMPLE_INTERVAL_MS && isPlausible(s));
+  const maxSpeed = plausible.reduce((max, s) => Math.max(max, s.speed), 0);
+  const startIndex = samples[0].index - 1;
+  const endIndex = samples[samples.length - 1].index;
+  const duration = (points[endIndex].timestamp - points[startIndex].timestamp) / 1000;
+
+  let confidence: TransportSegment["confidence"] = "high";
+  if (run.mode === "vehicle") {
+    const fast = samples.filter((s) => s.speed >= VEHICLE_MIN_KMH);
+    const noisyShare = fast.length > 0 ? totalElapsed(fast.filter((s) => !isPlausible(s))) / totalElapsed(fast) : 0;
+    if (duration * 1000 < MIN_VEHICLE_MS || distance < MIN_VEHICLE_DISTANCE || noisyShare > MAX_NOISY_SHARE) {
+      confidence = "low";
+    }
+  }
+
+  return {
+    mode: run.mode,
+    confidence,
+    startIndex,
+    endIndex,
+    startTime: points[startIndex].timestamp,
+    endTime: points[endIndex].timestamp,
+    distance,
+    duration,
+    movingTime: movingMs / 1000,
+    avgSpeed: movingMs > 0 ? (distance / 1000) / (movingMs / 3_600_000) : 0,
+    p85Speed: speedPercentile(samples, 0.85),
+    maxSpeed,
+    stopCount: countStops(samples),
+  };
+}
+
+/**
+ * Labels a ride track as consecutive transport-mode segments (empty for tracks under two points)
+ */
+export function classifyTransportModes(points: ClassifierPoint[]): TransportSegment[] {
+  const samples = toSamples(points);
+  if (samples.length === 0) return [];
+
+  const windows = mergeRuns(toWindows(samples).map((window) => ({ mode: labelWindow(window), samples: window })));
+  // Absorbing short walks can leave a stop between two vehicle runs, so stops go twice
+  const runs = absorbVehicleStops(absorbShortWalks(absorbVehicleStops(windows)));
+  return runs.map((run) => toSegment(run, points));
+}
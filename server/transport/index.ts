@@ -0,0 +1,145 @@
+/**
+ * Ride transport review
+ *
+ * Riders forget to stop recording and go home by car, bus or subway, which inflates rankings,
+ * eco scores and trips the abnormal-riding checks. New and edited rides are classified here:
+ * confident vehicle and walking segments are taken out of the ride's stats, while short or noisy
+ * fast stretches are only flagged so the rider can see (and trim) them.
+ */
+
+import { classifyTransportModes, type ClassifierPoint, type TransportMode, type TransportSegment } from "./classifier";
+
+export interface RideStats {
+  /** meters */
+  distance: number;
+  /** riding seconds */
+  duration: number;
+  /** km/h */
+  avgSpeed: number;
+  /** km/h */
+  maxSpeed: number;
+}
+
+/** Non-scooter segment shown to the rider (stored as transportSegmentsJson) */
+export interface ReviewedSegment {
+  mode: Exclude<TransportMode, "scooter" | "stationary">;
+  /** Removed from the ride's stats (otherwise only flagged) */
+  excluded: boolean;
+  /** Epoch milliseconds */
+  startTime: number;
+  endTime: number;
+  distance: number;
+  duration: number;
+  avgSpeed: number;
+  maxSpeed: number;
+  stopCount: number;
+  reason: string;
+}
+
+export interface TransportReview {
+  /** Stats with excluded segments taken out */
+  stats: RideStats;
+  transportStatus: "flagged" | "excluded" | null;
+  /** meters */
+  excludedDistance: number | null;
+  /** seconds */
+  excludedDuration: number | null;
+  transportSegmentsJson: string | null;
+}
+
+/**
+ * Parses a ride's gpsPointsJson keeping GPS speed (invalid points are dropped)
+ */
+export function parseClassifierTrack(gpsPointsJson: string | null | undefined): ClassifierPoint[] {
+  if (!gpsPointsJson) return [];
+  let raw: unknown;
+  try {
+    raw = JSON.parse(gpsPointsJson);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((p: any) => ({
+      latitude: Number(p?.latitude),
+      longitude: Number(p?.longitude),
+      timestamp: typeof p?.timestamp === "string" ? Date.parse(p.timestamp) : Number(p?.timestamp),
+      speed: typeof p?.speed === "number" ? p.speed : null,
+    }))
+    .filter((p) => Number.isFinite(p.latitude) && Number.isFinite(p.longitude) && Number.isFinite(p.timestamp));
+}
+
+function describeSegment(segment: TransportSegment): string {
+  const minutes = Math.max(1, Math.round(segment.duration / 60));
+  const km = (segment.distance / 1000).toFixed(1);
+  const stops = segment.stopCount > 0 ? `, 정차 ${segment.stopCount}회` : "";
+
+  if (segment.mode === "walking") {
+    return `${minutes}분 동안 평균 ${segment.avgSpeed.toFixed(1)}km/h로 이동해 도보 구간으로 판단했습니다.`;
+  }
+  if (segment.confidence === "low") {
+    return `최고 ${Math.round(segment.maxSpeed)}km/h의 짧은 고속 구간이 있습니다. 차량 이동이었다면 기록 편집으로 잘라주세요.`;
+  }
+  return `${minutes}분 동안 ${km}km를 평균 ${Math.round(segment.avgSpeed)}km/h(최고 ${Math.round(segment.maxSpeed)}km/h)로 이동${stops}해 차량·대중교통 이동으로 판단했습니다.`;
+}
+
+/**
+ * Classifies a ride track and takes confident vehicle / walking segments out of its stats
+ */
+export function reviewRideTransport(gpsPointsJson: string | null | undefined, stats: RideStats): TransportReview {
+  const unchanged: TransportReview = {
+    stats,
+    transportStatus: null,
+    excludedDistance: null,
+    excludedDuration: null,
+    transportSegmentsJson: null,
+  };
+
+  const segments = classifyTransportModes(parseClassifierTrack(gpsPointsJson));
+  const reviewed = segments.filter(
+    (s): s is TransportSegment & { mode: ReviewedSegment["mode"] } => s.mode === "vehicle" || s.mode === "walking"
+  );
+  if (reviewed.length === 0) return unchanged;
+
+  const excluded = reviewed.filter((s) => s.confidence === "high");
+  const excludedDistance = excluded.reduce((sum, s) => sum + s.distance, 0);
+  const excludedDuration = excluded.reduce((sum, s) => sum + s.movingTime, 0);
+
+  let adjusted = stats;
+  if (excluded.length > 0) {
+    const distance = Math.max(0, stats.distance - excludedDistance);
+    const duration = Math.max(0, stats.duration - excludedDuration);
+    const excludedSet = new Set<TransportSegment>(excluded);
+    const keptMaxSpeed = segments
+      .filter((s) => !excludedSet.has(s))
+      .reduce((max, s) => Math.max(max, s.maxSpeed), 0);
+    adjusted = {
+      distance,
+      duration,
+      avgSpeed: duration > 0 ? (distance / 1000) / (duration / 3600) : 0,
+      maxSpeed: Math.min(stats.maxSpeed, keptMaxSpeed),
+    };
+  }
+
+  const stored: ReviewedSegment[] = reviewed.map((s) => ({
+    mode: s.mode,
+    excluded: s.confidence === "high",
+    startTime: s.startTime,
+    endTime: s.endTime,
+    distance: Math.round(s.distance),
+    duration: Math.round(s.duration),
+    avgSpeed: Math.round(s.avgSpeed * 10) / 10,
+    maxSpeed: Math.round(s.maxSpeed * 10) / 10,
+    stopCount: s.stopCount,
+    reason: describeSegment(s),
+  }));
+
+  return {
+    stats: adjusted,
+    transportStatus: excluded.length > 0 ? "excluded" : "flagged",
+    excludedDistance: excluded.length > 0 ? Math.round(excludedDistance) : null,
+    excludedDuration: excluded.length > 0 ? Math.round(excludedDuration) : null,
+    transportSegmentsJson: JSON.stringify(stored),
+  };
+}
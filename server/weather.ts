@@ -206,6 +206,103 @@ export async function getWeatherInfo(
   }
 }
 
+// 단기예보 API 응답 항목
+interface ForecastItem {
+  fcstDate: string;
+  fcstTime: string;
+  category: string;
+  fcstValue: string;
+}
+
+// 시간별 예보
+export interface WeatherForecastHour {
+  time: Date;                      // 예보 시각
+  temperature: number | null;      // 기온 (℃)
+  precipitationType: number;       // 강수형태 (실황과 같은 코드, 4:소나기 추가)
+}
+
+// 단기예보 발표시각 (02, 05, 08, 11, 14, 17, 20, 23시, 발표 10분 후 제공)
+function getForecastBaseDateTime(): { baseDate: string; baseTime: string } {
+  const kstOffset = 9 * 60 * 60 * 1000;
+  // 10분을 빼고 가장 최근 발표 시각을 찾음
+  const kstNow = new Date(Date.now() + kstOffset - 10 * 60 * 1000);
+
+  let baseDate = kstNow;
+  let baseHour = Math.floor((kstNow.getUTCHours() - 2) / 3) * 3 + 2;
+  // 02시 발표 이전이면 전날 23시 발표 사용
+  if (kstNow.getUTCHours() < 2) {
+    baseHour = 23;
+    baseDate = new Date(kstNow.getTime() - 24 * 60 * 60 * 1000);
+  }
+
+  const year = baseDate.getUTCFullYear();
+  const month = String(baseDate.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(baseDate.getUTCDate()).padStart(2, "0");
+
+  return {
+    baseDate: `${year}${month}${day}`,
+    baseTime: `${String(baseHour).padStart(2, "0")}00`,
+  };
+}
+
+/**
+ * 위경도 좌표의 시간별 단기예보 (약 2~3일치)를 가져옵니다.
+ * @returns 시간순 예보 또는 null (실패 시)
+ */
+export async function getWeatherForecast(
+  lat: number,
+  lon: number,
+  apiKey: string
+): Promise<WeatherForecastHour[] | null> {
+  try {
+    const { nx, ny } = convertToGrid(lat, lon);
+    const { baseDate, baseTime } = getForecastBaseDateTime();
+
+    const url = "http://apis.data.go.kr/1360000/VilageFcstInfoService_2.0/getVilageFcst";
+    const params = {
+      serviceKey: apiKey,
+      pageNo: "1",
+      numOfRows: "1000",
+      dataType: "JSON",
+      base_date: baseDate,
+      base_time: baseTime,
+      nx: String(nx),
+      ny: String(ny),
+    };
+
+    const response = await axios.get(url, { params, timeout: 10000 });
+    const data = response.data;
+
+    if (data?.response?.header?.resultCode !== "00") {
+      console.error(`[Weather] Forecast API error: ${data?.response?.header?.resultMsg}`);
+      return null;
+    }
+
+    const items: ForecastItem[] = data.response.body?.items?.item ?? [];
+    const hours = new Map<string, WeatherForecastHour>();
+    for (const item of items) {
+      if (item.category !== "TMP" && item.category !== "PTY") continue;
+      const key = `${item.fcstDate}${item.fcstTime}`;
+      let hour = hours.get(key);
+      if (!hour) {
+        // 예보 시각은 KST
+        const time = new Date(
+          `${item.fcstDate.slice(0, 4)}-${item.fcstDate.slice(4, 6)}-${item.fcstDate.slice(6, 8)}T${item.fcstTime.slice(0, 2)}:${item.fcstTime.slice(2, 4)}:00+09:00`
+        );
+        hour = { time, temperature: null, precipitationType: 0 };
+        hours.set(key, hour);
+      }
+      if (item.category === "TMP") hour.temperature = parseFloat(item.fcstValue);
+      else hour.precipitationType = parseInt(item.fcstValue, 10) || 0;
+    }
+
+    return [...hours.values()].sort((a, b) => a.time.getTime() - b.time.getTime());
+  } catch (error) {
+    console.error("[Weather] Failed to fetch forecast:", error);
+    return null;
+  }
+}
+
 /**
  * 날씨 정보를 사람이 읽기 쉬운 형태로 변환
  */
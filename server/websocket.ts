@@ -7,11 +7,43 @@
  * 3. Batched updates with configurable intervals
  * 4. Memory-efficient location caching
  * 5. Heartbeat mechanism to detect stale connections
+ *
+ * The host can also publish a route and meeting point; it is kept with the group session so
+ * late joiners receive it, and members' distance to the route is sent with their locations.
+ * With each broadcast the spread between the group's front and back (leader and sweep when
+ * assigned) is measured, and a regroup is announced when it gets too large.
+ *
+ * Sockets only live on the instance they connected to, so everything a group shares goes through
+ * the pub/sub bus: members' presence (merged with the local sockets for each broadcast), chat,
+ * route alerts, route and role changes. Each instance runs its own broadcast timers and regroup
+ * check over the merged member list.
+ *
+ * Push-to-talk voice clips are uploaded over HTTP (see group-voice) and only announced here, as a
+ * voice message and later its transcript.
+ *
+ * Clients that offer the binary encoding when joining receive member locations as compact binary
+ * frames (see shared/group-location-codec) instead of group_member_update JSON.
  */
 import { WebSocketServer, WebSocket } from "ws";
 import { Server } from "http";
 import { sdk } from "./_core/sdk";
+import {
+  BINARY_ENCODING,
+  GroupLocationEncoder,
+  type GroupLocationEncoding,
+  type MemberTableEntry,
+} from "../shared/group-location-codec.js";
 import * as db from "./db";
+import { RouteMonitor, parseSharedRoute, type GroupRoute, type RouteAlert } from "./group-route";
+import { RegroupMonitor, type RegroupState, type RideRole, type RideRoles } from "./group-regroup";
+import {
+  GroupBus,
+  MemoryPubSub,
+  PRESENCE_TTL_MS,
+  createPubSubAdapter,
+  type GroupEnvelope,
+  type PresenceEntry,
+} from "./pubsub";
 
 // Types for WebSocket messages
 interface LocationUpdate {
@@ -32,6 +64,7 @@ interface JoinGroup {
   type: "join_group";
   groupId: number;
   token: string; // Auth token for verification
+  encodings?: string[]; // Location encodings the client can decode, besides JSON
 }
 
 interface LeaveGroup {
@@ -61,6 +94,30 @@ interface ChatBroadcast {
   };
 }
 
+// Push-to-talk clip, broadcast once it's stored (including back to the sender)
+interface VoiceBroadcast {
+  type: "voice";
+  groupId: number;
+  voiceMessage: {
+    id: number;
+    userId: number;
+    userName: string | null;
+    userProfileImage: string | null;
+    audioUrl: string;
+    duration: number; // ms
+    transcript: string | null;
+    createdAt: Date;
+  };
+}
+
+// Transcript of an earlier voice message, for members listening with audio muted
+interface VoiceTranscript {
+  type: "voice_transcript";
+  groupId: number;
+  messageId: number;
+  transcript: string;
+}
+
 interface GroupMemberUpdate {
   type: "group_member_update";
   groupId: number;
@@ -76,9 +133,50 @@ interface GroupMemberUpdate {
     duration: number;
     isRiding: boolean;
     timestamp: number;
+    // Position on the shared route (null when no route is published)
+    routeDistance: number | null;
+    routeProgress: number | null;
+    rideRole: RideRole | null;
   }>;
 }
 
+type GroupMember = GroupMemberUpdate["members"][number];
+
+// Members' fixed details for binary location frames, sent before the first frame that uses them
+interface MemberTable {
+  type: "member_table";
+  groupId: number;
+  members: MemberTableEntry[];
+}
+
+// Host publishes (or clears, with both null) the group's route and meeting point
+interface PublishRoute {
+  type: "publish_route";
+  groupId: number;
+  route: unknown;
+  meetingPoint: unknown;
+}
+
+interface RouteUpdate {
+  type: "route_update";
+  groupId: number;
+  groupRoute: GroupRoute | null;
+}
+
+// Sent to the host only
+interface RouteAlertMessage {
+  type: "route_alert";
+  groupId: number;
+  alert: RouteAlert;
+}
+
+// Regroup started (active) or lifted
+interface RegroupMessage {
+  type: "regroup";
+  groupId: number;
+  regroup: RegroupState;
+}
+
 interface ErrorMessage {
   type: "error";
   message: string;
@@ -93,8 +191,19 @@ interface HeartbeatAck {
   type: "heartbeat_ack";
 }
 
-type IncomingMessage = LocationUpdate | JoinGroup | LeaveGroup | ChatMessage | HeartbeatMessage;
-type OutgoingMessage = GroupMemberUpdate | ErrorMessage | ChatBroadcast | HeartbeatAck | { type: "joined"; groupId: number; userId: number };
+type IncomingMessage = LocationUpdate | JoinGroup | LeaveGroup | ChatMessage | HeartbeatMessage | PublishRoute;
+type OutgoingMessage =
+  | GroupMemberUpdate
+  | ErrorMessage
+  | ChatBroadcast
+  | VoiceBroadcast
+  | VoiceTranscript
+  | HeartbeatAck
+  | RouteUpdate
+  | RouteAlertMessage
+  | RegroupMessage
+  | MemberTable
+  | { type: "joined"; groupId: number; userId: number; encoding: GroupLocationEncoding };
 
 // Store connected clients by group
 interface ClientInfo {
@@ -120,6 +229,8 @@ interface ClientInfo {
   lastBroadcastTime: number; // Time of last broadcast for this client
   lastHeartbeat: number;
   isAlive: boolean;
+  // Set when the client negotiated binary location frames (null: JSON)
+  locationEncoder: GroupLocationEncoder | null;
 }
 
 // Optimization constants
@@ -130,10 +241,28 @@ const FORCE_BROADCAST_INTERVAL_MS = 2000; // Force broadcast every 2 seconds reg
 const HEARTBEAT_INTERVAL_MS = 30000; // 30 seconds heartbeat
 const HEARTBEAT_TIMEOUT_MS = 60000; // 60 seconds timeout for dead connections
 const MAX_BROADCAST_BATCH_SIZE = 50; // Maximum members per broadcast
+const PRESENCE_REFRESH_MS = 20000; // Re-announce members whose location stopped changing
 
 const clients = new Map<WebSocket, ClientInfo>();
 const groupClients = new Map<number, Set<WebSocket>>(); // groupId -> Set of WebSocket clients
 
+// Published routes of groups with connected members (the group session keeps it for late joiners)
+interface GroupRouteState {
+  groupRoute: GroupRoute;
+  monitor: RouteMonitor | null;
+}
+const groupRoutes = new Map<number, GroupRouteState>();
+
+// Leader / sweep roles and regroup tracking of groups with connected members
+const groupRideRoles = new Map<number, RideRoles>();
+const groupRegroups = new Map<number, RegroupMonitor>();
+
+// Fan-out across server instances (replaced with the configured adapter in setupWebSocket)
+let bus = new GroupBus<GroupMember>(new MemoryPubSub());
+
+// Members of groups with local sockets that are connected to other instances, by user id
+const remoteMembers = new Map<number, Map<number, PresenceEntry<GroupMember>>>();
+
 // Broadcast scheduling per group
 interface GroupBroadcastState {
   timer: ReturnType<typeof setTimeout> | null;
@@ -141,6 +270,7 @@ interface GroupBroadcastState {
   lastBroadcastTime: number;
   pendingUpdate: boolean;
   isActive: boolean; // True if any member is actively riding
+  lastPresenceRefresh: number;
 }
 const groupBroadcastStates = new Map<number, GroupBroadcastState>();
 
@@ -152,6 +282,8 @@ const PERIODIC_BROADCAST_INTERVAL_MS = 1000; // Force broadcast every 1 second r
 let heartbeatInterval: ReturnType<typeof setInterval> | null = null;
 
 export function setupWebSocket(server: Server): void {
+  bus = new GroupBus<GroupMember>(createPubSubAdapter());
+
   const wss = new WebSocketServer({ 
     server,
     path: "/ws/group-riding"
@@ -178,6 +310,7 @@ export function setupWebSocket(server: Server): void {
       lastBroadcastTime: 0,
       lastHeartbeat: Date.now(),
       isAlive: true,
+      locationEncoder: null,
     });
 
     ws.on("message", async (data: Buffer) => {
@@ -209,6 +342,7 @@ export function setupWebSocket(server: Server): void {
       clearInterval(heartbeatInterval);
       heartbeatInterval = null;
     }
+    void bus.close();
   });
 }
 
@@ -256,6 +390,9 @@ async function handleMessage(ws: WebSocket, message: IncomingMessage): Promise<v
     case "chat_message":
       await handleChatMessage(ws, client, message);
       break;
+    case "publish_route":
+      await handlePublishRoute(ws, client, message);
+      break;
     case "heartbeat":
       sendMessage(ws, { type: "heartbeat_ack" });
       break;
@@ -293,9 +430,12 @@ async function handleJoinGroup(
     client.profileImage = user.profileImageUrl || null;
     client.profileColor = user.profileColor || null;
     client.groupId = message.groupId;
+    // A new encoder per join: the member table starts over
+    client.locationEncoder = message.encodings?.includes(BINARY_ENCODING) ? new GroupLocationEncoder() : null;
 
     // Add to group clients
-    if (!groupClients.has(message.groupId)) {
+    const firstLocalMember = !groupClients.has(message.groupId);
+    if (firstLocalMember) {
       groupClients.set(message.groupId, new Set());
     }
     groupClients.get(message.groupId)!.add(ws);
@@ -306,6 +446,7 @@ async function handleJoinGroup(
       // Start periodic broadcast timer for this group
       const periodicTimer = setInterval(() => {
         doBroadcastGroupLocations(groupId);
+        refreshPresence(groupId);
       }, PERIODIC_BROADCAST_INTERVAL_MS);
       
       groupBroadcastStates.set(message.groupId, {
@@ -314,21 +455,42 @@ async function handleJoinGroup(
         lastBroadcastTime: 0,
         pendingUpdate: false,
         isActive: false,
+        lastPresenceRefresh: Date.now(),
       });
       console.log(`[WebSocket] Started periodic broadcast for group ${groupId}`);
     }
 
+    if (firstLocalMember) {
+      await joinGroupBus(message.groupId);
+    }
+
     console.log(`[WebSocket] User ${client.userId} (${client.userName}) joined group ${message.groupId}`);
 
     // Send confirmation
     sendMessage(ws, { 
       type: "joined", 
       groupId: message.groupId,
-      userId: client.userId 
+      userId: client.userId,
+      encoding: client.locationEncoder ? BINARY_ENCODING : "json",
     });
 
     // Send current group members' locations to the new member immediately
     broadcastGroupLocationsImmediate(message.groupId);
+
+    // Late joiners get the route the host already published
+    const routeState = await loadGroupRoute(message.groupId);
+    if (routeState && client.groupId === message.groupId) {
+      sendMessage(ws, { type: "route_update", groupId: message.groupId, groupRoute: routeState.groupRoute });
+    }
+
+    if (!groupRideRoles.has(message.groupId)) {
+      const roles = await db.getGroupRideRoles(message.groupId);
+      if (groupClients.has(message.groupId)) groupRideRoles.set(message.groupId, roles);
+    }
+    const regroup = groupRegroups.get(message.groupId)?.active();
+    if (regroup && client.groupId === message.groupId) {
+      sendMessage(ws, { type: "regroup", groupId: message.groupId, regroup });
+    }
   } catch (error) {
     console.error("[WebSocket] Error joining group:", error);
     sendMessage(ws, { type: "error", message: "Failed to join group" });
@@ -351,10 +513,19 @@ function handleLeaveGroup(ws: WebSocket, client: ClientInfo, groupId: number): v
         console.log(`[WebSocket] Stopped periodic broadcast for group ${groupId}`);
       }
       groupBroadcastStates.delete(groupId);
+      groupRoutes.delete(groupId);
+      groupRideRoles.delete(groupId);
+      groupRegroups.delete(groupId);
+      remoteMembers.delete(groupId);
     }
   }
 
   console.log(`[WebSocket] User ${client.userId} left group ${groupId}`);
+
+  // Announce before unsubscribing so the leave still goes out on this group's channel
+  void bus.removePresence(groupId, client.userId).then(() => {
+    if (!groupClients.has(groupId)) return bus.leave(groupId);
+  });
   
   client.groupId = null;
   client.lastLocation = null;
@@ -405,6 +576,220 @@ function handleLocationUpdate(
     // Schedule broadcast
     scheduleBroadcast(message.groupId);
   }
+
+  trackRouteProgress(client, message.groupId);
+
+  // Other instances get the same delta-compressed updates
+  if (shouldBroadcast) {
+    publishPresence(client, message.groupId);
+  }
+}
+
+/**
+ * Locate a member on the group's route and alert the host when they leave it or fall behind
+ */
+function trackRouteProgress(client: ClientInfo, groupId: number): void {
+  const monitor = groupRoutes.get(groupId)?.monitor;
+  if (!monitor || !client.lastLocation) return;
+
+  const { alerts } = monitor.update(client.userId, client.userName, client.lastLocation);
+  if (alerts.length === 0) return;
+
+  // The host may be connected to another instance
+  const hostId = groupRoutes.get(groupId)!.groupRoute.publishedBy;
+  alerts.forEach((alert) => deliverToGroup(groupId, { type: "route_alert", groupId, alert }, hostId));
+}
+
+/**
+ * Cached route of a group, loaded from the group session on first use
+ */
+async function loadGroupRoute(groupId: number): Promise<GroupRouteState | null> {
+  const cached = groupRoutes.get(groupId);
+  if (cached) return cached;
+
+  const group = await db.getGroupSharedRoute(groupId);
+  if (!group?.sharedRouteJson) return null;
+  try {
+    const groupRoute = JSON.parse(group.sharedRouteJson) as GroupRoute;
+    const state = { groupRoute, monitor: groupRoute.route ? new RouteMonitor(groupRoute.route) : null };
+    // Only cache while the group has connected members
+    if (groupClients.has(groupId)) groupRoutes.set(groupId, state);
+    return state;
+  } catch (error) {
+    console.error("[WebSocket] Invalid shared route for group", groupId, error);
+    return null;
+  }
+}
+
+async function handlePublishRoute(
+  ws: WebSocket,
+  client: ClientInfo,
+  message: PublishRoute
+): Promise<void> {
+  if (client.groupId === null || client.groupId !== message.groupId) {
+    sendMessage(ws, { type: "error", message: "Not in this group" });
+    return;
+  }
+
+  try {
+    const group = await db.getGroupSharedRoute(message.groupId);
+    if (!group || group.hostId !== client.userId) {
+      sendMessage(ws, { type: "error", message: "Only the host can share a route" });
+      return;
+    }
+
+    const parsed = parseSharedRoute(message);
+    if (!parsed) {
+      sendMessage(ws, { type: "error", message: "Invalid route" });
+      return;
+    }
+
+    let groupRoute: GroupRoute | null = null;
+    if (parsed.route || parsed.meetingPoint) {
+      groupRoute = { ...parsed, publishedBy: client.userId, publishedAt: Date.now() };
+    }
+
+    const saved = await db.saveGroupSharedRoute(message.groupId, groupRoute ? JSON.stringify(groupRoute) : null);
+    if (!saved) {
+      sendMessage(ws, { type: "error", message: "Failed to share route" });
+      return;
+    }
+
+    // Every instance with members of the group (this one included) applies it
+    await bus.publish(message.groupId, { kind: "route", groupRoute });
+
+    console.log(`[WebSocket] Host ${client.userId} ${groupRoute ? "shared" : "cleared"} route in group ${message.groupId}`);
+  } catch (error) {
+    console.error("[WebSocket] Error publishing route:", error);
+    sendMessage(ws, { type: "error", message: "Failed to share route" });
+  }
+}
+
+/**
+ * Replace a group's route and send it to the group's sockets on this instance
+ */
+function applyGroupRoute(groupId: number, groupRoute: GroupRoute | null): void {
+  if (groupRoute) {
+    const monitor = groupRoute.route ? new RouteMonitor(groupRoute.route) : null;
+    groupRoutes.set(groupId, { groupRoute, monitor });
+    // Place everyone on the new route right away
+    groupClients.get(groupId)?.forEach((clientWs) => {
+      const member = clients.get(clientWs);
+      if (monitor && member?.lastLocation) monitor.update(member.userId, member.userName, member.lastLocation);
+    });
+  } else {
+    groupRoutes.delete(groupId);
+  }
+
+  const update: RouteUpdate = { type: "route_update", groupId, groupRoute };
+  const updateStr = JSON.stringify(update);
+  groupClients.get(groupId)?.forEach((clientWs) => {
+    if (clientWs.readyState === WebSocket.OPEN) {
+      clientWs.send(updateStr);
+    }
+  });
+  broadcastGroupLocationsImmediate(groupId);
+}
+
+/**
+ * Subscribe to a group's events and load the members connected to other instances
+ */
+async function joinGroupBus(groupId: number): Promise<void> {
+  await bus.join(groupId, (envelope) => handleGroupEvent(groupId, envelope));
+  const presence = await bus.getPresence(groupId);
+
+  // Everyone left while subscribing
+  if (!groupClients.has(groupId)) {
+    await bus.leave(groupId);
+    return;
+  }
+
+  const remote = remoteMembers.get(groupId) ?? new Map<number, PresenceEntry<GroupMember>>();
+  presence.forEach((entry) => {
+    if (!remote.has(entry.member.userId)) remote.set(entry.member.userId, entry);
+  });
+  remoteMembers.set(groupId, remote);
+}
+
+function handleGroupEvent(groupId: number, envelope: GroupEnvelope<GroupMember>): void {
+  if (!groupClients.has(groupId)) return;
+  const { event } = envelope;
+
+  switch (event.kind) {
+    case "presence": {
+      // Local members are already known from their sockets
+      if (bus.isLocal(envelope)) return;
+      if (!remoteMembers.has(groupId)) remoteMembers.set(groupId, new Map());
+      remoteMembers.get(groupId)!.set(event.member.userId, {
+        origin: envelope.origin,
+        member: event.member,
+        updatedAt: Date.now(),
+      });
+
+      // Count them towards the front of the group for local members' route alerts
+      const { routeProgress, routeDistance } = event.member;
+      if (routeProgress !== null && routeDistance !== null) {
+        groupRoutes.get(groupId)?.monitor?.observe(event.member.userId, {
+          progress: routeProgress,
+          distanceToRoute: routeDistance,
+        });
+      }
+
+      const state = groupBroadcastStates.get(groupId);
+      if (state) {
+        state.isActive = isGroupActive(groupId);
+      }
+      scheduleBroadcast(groupId);
+      break;
+    }
+    case "leave":
+      if (bus.isLocal(envelope)) return;
+      remoteMembers.get(groupId)?.delete(event.userId);
+      groupRoutes.get(groupId)?.monitor?.remove(event.userId);
+      scheduleBroadcast(groupId);
+      break;
+    case "deliver":
+      groupClients.get(groupId)?.forEach((clientWs) => {
+        if (event.userId !== undefined && clients.get(clientWs)?.userId !== event.userId) return;
+        if (clientWs.readyState === WebSocket.OPEN) {
+          clientWs.send(event.message);
+        }
+      });
+      break;
+    case "route":
+      applyGroupRoute(groupId, event.groupRoute);
+      break;
+    case "roles":
+      groupRideRoles.set(groupId, event.roles);
+      broadcastGroupLocationsImmediate(groupId);
+      break;
+  }
+}
+
+/**
+ * Send a message to the group's sockets on every instance (only the given user's, when set)
+ */
+function deliverToGroup(groupId: number, message: OutgoingMessage, userId?: number): Promise<void> {
+  return bus.publish(groupId, { kind: "deliver", message: JSON.stringify(message), userId });
+}
+
+function publishPresence(client: ClientInfo, groupId: number): void {
+  if (!client.lastLocation) return;
+  void bus.updatePresence(groupId, toGroupMember(client, groupId));
+}
+
+/**
+ * Re-announce the group's local members so other instances don't drop them as stale
+ */
+function refreshPresence(groupId: number): void {
+  const state = groupBroadcastStates.get(groupId);
+  const now = Date.now();
+  if (!state || now - state.lastPresenceRefresh < PRESENCE_REFRESH_MS) return;
+  state.lastPresenceRefresh = now;
+  groupClients.get(groupId)?.forEach((clientWs) => {
+    const client = clients.get(clientWs);
+    if (client) publishPresence(client, groupId);
+  });
 }
 
 /**
@@ -449,7 +834,26 @@ function isGroupActive(groupId: number): boolean {
       return true;
     }
   }
-  return false;
+  return getRemoteMembers(groupId).some((member) => member.isRiding && member.speed > 1);
+}
+
+/**
+ * Fresh entries of the group's members on other instances (stale ones are dropped)
+ */
+function getRemoteMembers(groupId: number): GroupMember[] {
+  const remote = remoteMembers.get(groupId);
+  if (!remote) return [];
+
+  const now = Date.now();
+  const members: GroupMember[] = [];
+  remote.forEach((entry, userId) => {
+    if (now - entry.updatedAt >= PRESENCE_TTL_MS) {
+      remote.delete(userId);
+    } else {
+      members.push(entry.member);
+    }
+  });
+  return members;
 }
 
 /**
@@ -500,26 +904,51 @@ function broadcastGroupLocationsImmediate(groupId: number): void {
   doBroadcastGroupLocations(groupId);
 }
 
+function rideRoleOf(userId: number, roles: RideRoles): RideRole | null {
+  return userId === roles.leaderId ? "leader" : userId === roles.sweepId ? "sweep" : null;
+}
+
+/**
+ * A local member's entry in the group's member list
+ */
+function toGroupMember(client: ClientInfo, groupId: number): GroupMember {
+  const routePosition = groupRoutes.get(groupId)?.monitor?.position(client.userId) ?? null;
+  const roles = groupRideRoles.get(groupId) ?? { leaderId: null, sweepId: null };
+  return {
+    userId: client.userId,
+    userName: client.userName,
+    profileImage: client.profileImage,
+    profileColor: client.profileColor,
+    ...client.lastLocation!,
+    routeDistance: routePosition ? Math.round(routePosition.distanceToRoute) : null,
+    routeProgress: routePosition ? Math.round(routePosition.progress) : null,
+    rideRole: rideRoleOf(client.userId, roles),
+  };
+}
+
 function doBroadcastGroupLocations(groupId: number): void {
   const groupSet = groupClients.get(groupId);
   if (!groupSet || groupSet.size === 0) return;
 
   // Collect all members' locations
-  const members: GroupMemberUpdate["members"] = [];
+  const members: GroupMember[] = [];
+  const roles = groupRideRoles.get(groupId) ?? { leaderId: null, sweepId: null };
   
   groupSet.forEach((clientWs) => {
     const client = clients.get(clientWs);
     if (client && client.lastLocation) {
-      members.push({
-        userId: client.userId,
-        userName: client.userName,
-        profileImage: client.profileImage,
-        profileColor: client.profileColor,
-        ...client.lastLocation,
-      });
+      members.push(toGroupMember(client, groupId));
     }
   });
 
+  // Members connected to other instances (a user connected here as well is already listed)
+  getRemoteMembers(groupId).forEach((member) => {
+    if (members.some((m) => m.userId === member.userId)) return;
+    members.push({ ...member, rideRole: rideRoleOf(member.userId, roles) });
+  });
+
+  checkRegroup(groupId, members, roles);
+
   // Broadcast to all group members
   const message: GroupMemberUpdate = {
     type: "group_member_update",
@@ -528,14 +957,74 @@ function doBroadcastGroupLocations(groupId: number): void {
   };
 
   // Send to all clients in batches if needed
-  const messageStr = JSON.stringify(message);
+  let messageStr: string | null = null;
   groupSet.forEach((clientWs) => {
+    if (clientWs.readyState !== WebSocket.OPEN) return;
+    const encoder = clients.get(clientWs)?.locationEncoder;
+    if (encoder) {
+      const { table, frame } = encoder.encode(groupId, members);
+      if (table.length > 0) {
+        sendMessage(clientWs, { type: "member_table", groupId, members: table });
+      }
+      clientWs.send(frame);
+    } else {
+      messageStr ??= JSON.stringify(message);
+      clientWs.send(messageStr);
+    }
+  });
+}
+
+/**
+ * Measure the group's spread and announce when a regroup starts or is lifted
+ */
+function checkRegroup(groupId: number, members: GroupMember[], roles: RideRoles): void {
+  let monitor = groupRegroups.get(groupId);
+  if (!monitor) {
+    monitor = new RegroupMonitor();
+    groupRegroups.set(groupId, monitor);
+  }
+
+  const regroup = monitor.update(members, roles);
+  if (!regroup) return;
+
+  console.log(
+    `[WebSocket] Group ${groupId} regroup ${regroup.active ? "started" : "lifted"}: spread ${Math.round(regroup.spread.distance)}m`
+  );
+  const message: RegroupMessage = { type: "regroup", groupId, regroup };
+  const messageStr = JSON.stringify(message);
+  groupClients.get(groupId)?.forEach((clientWs) => {
     if (clientWs.readyState === WebSocket.OPEN) {
       clientWs.send(messageStr);
     }
   });
 }
 
+/**
+ * Reload a group's leader / sweep after the host changed them, on every instance with members
+ * of the group (the request may be served by an instance without any)
+ */
+export async function refreshGroupRideRoles(groupId: number): Promise<void> {
+  const roles = await db.getGroupRideRoles(groupId);
+  await bus.publish(groupId, { kind: "roles", roles });
+}
+
+/**
+ * Broadcast a stored voice message to the group on every instance
+ */
+export async function broadcastVoiceMessage(
+  groupId: number,
+  voiceMessage: VoiceBroadcast["voiceMessage"]
+): Promise<void> {
+  await deliverToGroup(groupId, { type: "voice", groupId, voiceMessage });
+}
+
+/**
+ * Send the transcript of a voice message once the transcription comes back
+ */
+export async function broadcastVoiceTranscript(groupId: number, messageId: number, transcript: string): Promise<void> {
+  await deliverToGroup(groupId, { type: "voice_transcript", groupId, messageId, transcript });
+}
+
 async function handleChatMessage(
   ws: WebSocket,
   client: ClientInfo,
@@ -578,15 +1067,7 @@ async function handleChatMessage(
       },
     };
 
-    const groupSet = groupClients.get(message.groupId);
-    if (groupSet) {
-      const broadcastStr = JSON.stringify(chatBroadcast);
-      groupSet.forEach((clientWs) => {
-        if (clientWs.readyState === WebSocket.OPEN) {
-          clientWs.send(broadcastStr);
-        }
-      });
-    }
+    await deliverToGroup(message.groupId, chatBroadcast);
 
     console.log(`[WebSocket] Chat message from ${client.userName} in group ${message.groupId}`);
   } catch (error) {
@@ -613,4 +1094,4 @@ function sendMessage(ws: WebSocket, message: OutgoingMessage): void {
 }
 
 // Export for testing
-export { clients, groupClients };
+export { clients, groupClients, groupRoutes, remoteMembers };
@@ -0,0 +1,219 @@
+/**
+ * Open-circuit voltage (OCV) curves per battery chemistry, shared by the server and the app
+ *
+ * Pack voltage is divided by the series cell count and looked up in the chemistry's rested
+ * cell OCV table. Li-ion NMC and especially LiFePO4 are flat through the middle of the curve,
+ * so a linear full-to-empty mapping badly misreads SOC there. A voltage taken right after a
+ * ride is still sagging from the load and reads low; it's pulled back up to the rested voltage
+ * it recovers to before the lookup.
+ */
+
+/** `scooters.batteryType` values with their own curve (lipo uses the lithium_ion curve) */
+export const BATTERY_CHEMISTRIES = ["lithium_ion", "lifepo4", "lead_acid"] as const;
+
+export type BatteryChemistry = (typeof BATTERY_CHEMISTRIES)[number];
+
+/** Rested cell voltage (V) → SOC (%), ascending */
+export const OCV_CURVES: Record<BatteryChemistry, readonly (readonly [number, number])[]> = {
+  lithium_ion: [
+    [3.0, 0],
+    [3.35, 5],
+    [3.46, 10],
+    [3.58, 20],
+    [3.65, 30],
+    [3.7, 40],
+    [3.75, 50],
+    [3.81, 60],
+    [3.89, 70],
+    [3.98, 80],
+    [4.08, 90],
+    [4.2, 100],
+  ],
+  lifepo4: [
+    [2.5, 0],
+    [3.0, 10],
+    [3.2, 20],
+    [3.22, 30],
+    [3.25, 40],
+    [3.26, 50],
+    [3.27, 60],
+    [3.3, 70],
+    [3.32, 80],
+    [3.35, 90],
+    [3.4, 100],
+  ],
+  // 2V cells (6 per 12V block)
+  lead_acid: [
+    [1.89, 0],
+    [1.92, 10],
+    [1.94, 20],
+    [1.97, 30],
+    [1.99, 40],
+    [2.02, 50],
+    [2.04, 60],
+    [2.06, 70],
+    [2.08, 80],
+    [2.1, 90],
+    [2.12, 100],
+  ],
+};
+
+/** Nominal cell voltage, used to infer the cell count when the scooter doesn't have one */
+export const NOMINAL_CELL_VOLTAGE: Record<BatteryChemistry, number> = {
+  lithium_ion: 3.7,
+  lifepo4: 3.2,
+  lead_acid: 2.0,
+};
+
+/**
+ * Cell voltage sag right after riding (V) and how fast it recovers (minutes, exponential)
+ */
+const VOLTAGE_SAG: Record<BatteryChemistry, { sag: number; recoveryMinutes: number }> = {
+  lithium_ion: { sag: 0.06, recoveryMinutes: 10 },
+  lifepo4: { sag: 0.04, recoveryMinutes: 10 },
+  lead_acid: { sag: 0.06, recoveryMinutes: 30 },
+};
+
+export interface BatteryPack {
+  chemistry: BatteryChemistry;
+  cellCount: number;
+  /**
+   * Pack voltages the rider set as full and empty; the curve is stretched linearly to span them
+   * instead of the chemistry's own 0% and 100% voltages
+   */
+  calibration?: { fullVoltage: number; emptyVoltage: number };
+}
+
+/**
+ * Chemistry of a `scooters.batteryType` value; unknown and missing types read as lithium_ion
+ */
+export function batteryChemistry(batteryType: string | null | undefined): BatteryChemistry {
+  if (batteryType === "lifepo4" || batteryType === "lead_acid") return batteryType;
+  return "lithium_ion";
+}
+
+/**
+ * Series cell count: the scooter's own, else inferred from its nominal voltage
+ */
+export function resolveCellCount(
+  chemistry: BatteryChemistry,
+  cellCount: number | null | undefined,
+  nominalVoltage: number | null | undefined
+): number {
+  if (cellCount && cellCount > 0) return cellCount;
+  return Math.max(1, Math.round((nominalVoltage || 60) / NOMINAL_CELL_VOLTAGE[chemistry]));
+}
+
+/**
+ * Calibration from a scooter's full and empty voltages; none unless both are set and make a range
+ */
+export function packCalibration(
+  fullVoltage: string | number | null | undefined,
+  emptyVoltage: string | number | null | undefined
+): BatteryPack["calibration"] {
+  const full = Number(fullVoltage) || 0;
+  const empty = Number(emptyVoltage) || 0;
+  return full > 0 && empty > 0 && full > empty ? { fullVoltage: full, emptyVoltage: empty } : undefined;
+}
+
+/**
+ * A scooter's pack: chemistry from its battery type, its cell count (or one inferred from its
+ * nominal voltage) and its calibrated full and empty voltages
+ */
+export function batteryPackForScooter(scooter: {
+  batteryType?: string | null;
+  batteryCellCount?: number | null;
+  batteryVoltage?: number | null;
+  batteryFullVoltage?: string | number | null;
+  batteryEmptyVoltage?: string | number | null;
+}): BatteryPack {
+  const chemistry = batteryChemistry(scooter.batteryType);
+  return {
+    chemistry,
+    cellCount: resolveCellCount(chemistry, scooter.batteryCellCount, scooter.batteryVoltage || 60),
+    calibration: packCalibration(scooter.batteryFullVoltage, scooter.batteryEmptyVoltage),
+  };
+}
+
+/**
+ * Rested cell voltage a reading recovers to, `minutesSinceRide` after the ride ended
+ */
+export function compensateVoltageSag(
+  cellVoltage: number,
+  chemistry: BatteryChemistry,
+  minutesSinceRide: number
+): number {
+  const { sag, recoveryMinutes } = VOLTAGE_SAG[chemistry];
+  return cellVoltage + sag * Math.exp(-Math.max(0, minutesSinceRide) / recoveryMinutes);
+}
+
+/**
+ * SOC (%) of a rested cell voltage, interpolated along the chemistry's curve
+ */
+export function socFromCellVoltage(cellVoltage: number, chemistry: BatteryChemistry): number {
+  const curve = OCV_CURVES[chemistry];
+  if (cellVoltage <= curve[0][0]) return 0;
+  for (let i = 1; i < curve.length; i++) {
+    const [voltage, soc] = curve[i];
+    if (cellVoltage <= voltage) {
+      const [prevVoltage, prevSoc] = curve[i - 1];
+      return prevSoc + ((cellVoltage - prevVoltage) / (voltage - prevVoltage)) * (soc - prevSoc);
+    }
+  }
+  return 100;
+}
+
+/**
+ * Rested cell voltage at a SOC (%), the inverse of socFromCellVoltage
+ */
+export function cellVoltageFromSoc(soc: number, chemistry: BatteryChemistry): number {
+  const curve = OCV_CURVES[chemistry];
+  const clampedSoc = Math.max(0, Math.min(100, soc));
+  for (let i = 1; i < curve.length; i++) {
+    const [voltage, pointSoc] = curve[i];
+    if (clampedSoc <= pointSoc) {
+      const [prevVoltage, prevSoc] = curve[i - 1];
+      return prevVoltage + ((clampedSoc - prevSoc) / (pointSoc - prevSoc)) * (voltage - prevVoltage);
+    }
+  }
+  return curve[curve.length - 1][0];
+}
+
+/**
+ * SOC (%) of a pack voltage; pass `minutesSinceRide` when the reading was taken after a ride
+ * (0 for right away) to compensate for sag
+ */
+export function socFromPackVoltage(
+  packVoltage: number,
+  pack: BatteryPack,
+  options: { minutesSinceRide?: number } = {}
+): number {
+  let cellVoltage = calibrationScale(pack).toCurve(packVoltage) / pack.cellCount;
+  if (options.minutesSinceRide !== undefined) {
+    cellVoltage = compensateVoltageSag(cellVoltage, pack.chemistry, options.minutesSinceRide);
+  }
+  return socFromCellVoltage(cellVoltage, pack.chemistry);
+}
+
+/**
+ * Rested pack voltage at a SOC (%)
+ */
+export function packVoltageFromSoc(soc: number, pack: BatteryPack): number {
+  return calibrationScale(pack).fromCurve(cellVoltageFromSoc(soc, pack.chemistry) * pack.cellCount);
+}
+
+// Maps the calibrated full-to-empty range onto the curve's own, and back (identity without one)
+function calibrationScale(pack: BatteryPack) {
+  if (!pack.calibration) {
+    return { toCurve: (voltage: number) => voltage, fromCurve: (voltage: number) => voltage };
+  }
+  const curve = OCV_CURVES[pack.chemistry];
+  const curveEmpty = curve[0][0] * pack.cellCount;
+  const curveFull = curve[curve.length - 1][0] * pack.cellCount;
+  const { fullVoltage, emptyVoltage } = pack.calibration;
+  const ratio = (curveFull - curveEmpty) / (fullVoltage - emptyVoltage);
+  return {
+    toCurve: (voltage: number) => curveEmpty + (voltage - emptyVoltage) * ratio,
+    fromCurve: (voltage: number) => emptyVoltage + (voltage - curveEmpty) / ratio,
+  };
+}
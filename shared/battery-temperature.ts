@@ -0,0 +1,26 @@
+/**
+ * Battery temperature correction shared by the server and the app
+ */
+
+/**
+ * 온도 보정 계수 계산
+ * 저온에서는 배터리 효율이 떨어짐
+ */
+export function getTemperatureCorrection(temperatureCelsius: number): number {
+  // 25°C를 기준(1.0)으로 보정
+  if (temperatureCelsius >= 20 && temperatureCelsius <= 30) {
+    return 1.0;
+  } else if (temperatureCelsius < 20) {
+    // 저온: 효율 감소 (0°C에서 약 20% 감소)
+    const factor = 1 - ((20 - temperatureCelsius) * 0.01);
+    return Math.max(0.7, factor);
+  } else {
+    // 고온: 약간의 효율 증가 후 감소
+    if (temperatureCelsius <= 40) {
+      return 1.0;
+    } else {
+      const factor = 1 - ((temperatureCelsius - 40) * 0.02);
+      return Math.max(0.8, factor);
+    }
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Charging session energy and cost, shared by the server and the app
+ *
+ * Energy added to the pack comes from the SOC gain; the charger's efficiency gives what was drawn
+ * from the wall, which is what the tariff bills. Time-of-use tariffs are priced by the hour in
+ * the rider's local time, with the draw spread evenly over the session.
+ */
+
+export const CHARGER_LOCATIONS = ["home", "office", "public"] as const;
+export type ChargerLocation = (typeof CHARGER_LOCATIONS)[number];
+
+/** Wall-to-pack efficiency for chargers without a measured one */
+export const DEFAULT_CHARGER_EFFICIENCY = 0.85;
+
+/** Riders are in Korea unless the app says otherwise */
+export const KST_OFFSET_MINUTES = 9 * 60;
+
+/** Longest charging session that can be logged (minutes) */
+export const MAX_CHARGING_DURATION_MINUTES = 3 * 24 * 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** A rate for part of the day; ends past midnight when endHour <= startHour */
+export interface TariffPeriod {
+  startHour: number;
+  endHour: number;
+  /** Price per kWh (원) */
+  rate: number;
+}
+
+export interface Tariff {
+  /** Price per kWh (원) outside the periods */
+  baseRate: number;
+  periods: TariffPeriod[];
+}
+
+export interface ChargeEnergy {
+  /** Into the pack (Wh) */
+  energyAddedWh: number;
+  /** From the wall (Wh) */
+  energyFromGridWh: number;
+  /** Share of a full charge cycle */
+  cycleFraction: number;
+}
+
+export function chargeEnergy(
+  socBefore: number,
+  socAfter: number,
+  packWh: number,
+  efficiency: number = DEFAULT_CHARGER_EFFICIENCY
+): ChargeEnergy {
+  const gain = Math.max(0, Math.min(100, socAfter) - Math.max(0, socBefore)) / 100;
+  const energyAddedWh = packWh * gain;
+  return {
+    energyAddedWh,
+    energyFromGridWh: energyAddedWh / Math.min(1, Math.max(0.1, efficiency)),
+    cycleFraction: gain,
+  };
+}
+
+export function tariffRateAt(tariff: Tariff, hour: number): number {
+  for (const period of tariff.periods) {
+    const inPeriod =
+      period.startHour < period.endHour
+        ? hour >= period.startHour && hour < period.endHour
+        : hour >= period.startHour || hour < period.endHour;
+    if (inPeriod) return period.rate;
+  }
+  return tariff.baseRate;
+}
+
+/**
+ * Cost (원) of drawing `energyFromGridWh` over a session; without a duration the charger's power
+ * decides how long the draw lasted
+ */
+export function chargeCost(
+  tariff: Tariff,
+  energyFromGridWh: number,
+  session: {
+    startedAt: Date;
+    durationMinutes?: number | null;
+    chargerWatts?: number | null;
+    utcOffsetMinutes?: number;
+  }
+): number {
+  if (energyFromGridWh <= 0) return 0;
+  const minutes = Math.max(
+    1,
+    Math.round(
+      session.durationMinutes ??
+        (session.chargerWatts ? (energyFromGridWh / session.chargerWatts) * 60 : 60)
+    )
+  );
+  const offset = session.utcOffsetMinutes ?? KST_OFFSET_MINUTES;
+  const localStart = session.startedAt.getTime() + offset * 60_000;
+  const kwhPerMinute = energyFromGridWh / minutes / 1000;
+
+  // Whole days cost the same whenever they start
+  const fullDays = Math.floor(minutes / MINUTES_PER_DAY);
+  let cost = 0;
+  if (fullDays > 0) {
+    let dayCost = 0;
+    for (let hour = 0; hour < 24; hour++) dayCost += 60 * kwhPerMinute * tariffRateAt(tariff, hour);
+    cost += fullDays * dayCost;
+  }
+
+  // The rest, a local hour (the tariffs' boundaries) at a time
+  let minute = fullDays * MINUTES_PER_DAY;
+  while (minute < minutes) {
+    const at = localStart + minute * 60_000;
+    const toNextHour = Math.ceil((3_600_000 - (((at % 3_600_000) + 3_600_000) % 3_600_000)) / 60_000);
+    const span = Math.min(minutes - minute, Math.max(1, toNextHour));
+    cost += span * kwhPerMinute * tariffRateAt(tariff, new Date(at).getUTCHours());
+    minute += span;
+  }
+  return Math.round(cost * 100) / 100;
+}
+
+/**
+ * "YYYY-MM-DD" of a moment in the rider's local time
+ */
+export function localDateString(date: Date, utcOffsetMinutes: number = KST_OFFSET_MINUTES): string {
+  return new Date(date.getTime() + utcOffsetMinutes * 60_000).toISOString().split("T")[0];
+}
+
+export interface MonthlyChargingSummary {
+  /** "YYYY-MM" */
+  month: string;
+  charges: number;
+  energyAddedWh: number;
+  energyFromGridWh: number;
+  /** null when no charge that month had a tariff */
+  cost: number | null;
+  cycles: number;
+}
+
+/**
+ * Totals per month, most recent first
+ */
+export function summarizeChargingByMonth(
+  charges: {
+    chargeDate: string;
+    energyAddedWh: number | null;
+    energyFromGridWh: number | null;
+    cost: number | null;
+    cycleFraction: number | null;
+  }[]
+): MonthlyChargingSummary[] {
+  const months = new Map<string, MonthlyChargingSummary>();
+  for (const charge of charges) {
+    const month = charge.chargeDate.slice(0, 7);
+    const summary = months.get(month) ?? {
+      month,
+      charges: 0,
+      energyAddedWh: 0,
+      energyFromGridWh: 0,
+      cost: null,
+      cycles: 0,
+    };
+    summary.charges++;
+    summary.energyAddedWh += charge.energyAddedWh ?? 0;
+    summary.energyFromGridWh += charge.energyFromGridWh ?? 0;
+    if (charge.cost !== null) summary.cost = (summary.cost ?? 0) + charge.cost;
+    summary.cycles += charge.cycleFraction ?? 0;
+    months.set(month, summary);
+  }
+  return [...months.values()].sort((a, b) => b.month.localeCompare(a.month));
+}
@@ -0,0 +1,235 @@
+/**
+ * Compact binary encoding of group riding location broadcasts
+ *
+ * Clients that offer it when joining get member names and profile images once, in a JSON member
+ * table, and then binary frames that refer to members by table index. Coordinates are quantized
+ * to 1e-6° (~0.1m) and sent as a delta from the previous frame when it fits in 16 bits, so each
+ * member costs about 20 bytes per broadcast instead of a full JSON object.
+ *
+ * Frame layout (little-endian):
+ *   u8 frame type, u32 group id, f64 frame time (epoch ms), u16 member count, then per member:
+ *   u16 table index, u8 flags, i32 lat + i32 lng (absolute) or i16 lat + i16 lng (delta),
+ *   u16 speed (0.1 km/h), u32 distance (m), u32 duration (s), i32 age of the location (ms),
+ *   and with FLAG_ROUTE: u32 route progress (m), u16 distance to the route (m)
+ */
+
+export const BINARY_ENCODING = "binary-v1";
+
+export type GroupLocationEncoding = typeof BINARY_ENCODING | "json";
+
+export interface CodecMember {
+  userId: number;
+  userName: string;
+  profileImage: string | null;
+  profileColor: string | null;
+  latitude: number;
+  longitude: number;
+  speed: number;
+  distance: number;
+  duration: number;
+  isRiding: boolean;
+  timestamp: number;
+  routeDistance?: number | null;
+  routeProgress?: number | null;
+  rideRole?: "leader" | "sweep" | null;
+}
+
+/** Member details that don't change during a ride, sent once per session */
+export interface MemberTableEntry {
+  index: number;
+  userId: number;
+  userName: string;
+  profileImage: string | null;
+  profileColor: string | null;
+}
+
+const FRAME_LOCATIONS = 1;
+const HEADER_BYTES = 15;
+
+const FLAG_RIDING = 1;
+const FLAG_ABSOLUTE = 2;
+const FLAG_ROUTE = 4;
+const FLAG_LEADER = 8;
+const FLAG_SWEEP = 16;
+
+const COORD_SCALE = 1e6;
+const SPEED_SCALE = 10;
+const MAX_U16 = 0xffff;
+const MAX_U32 = 0xffffffff;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+const fitsInt16 = (value: number) => value >= -0x8000 && value <= 0x7fff;
+
+function recordBytes(absolute: boolean, onRoute: boolean): number {
+  return 2 + 1 + (absolute ? 8 : 4) + 2 + 4 + 4 + 4 + (onRoute ? 6 : 0);
+}
+
+/**
+ * Encodes broadcasts for one connection; it remembers which members and coordinates the
+ * connection has already been sent
+ */
+export class GroupLocationEncoder {
+  private readonly indexes = new Map<number, number>();
+  private readonly lastCoords = new Map<number, { lat: number; lng: number }>();
+
+  /**
+   * The table entries the client doesn't have yet (send them first) and the location frame
+   */
+  encode(
+    groupId: number,
+    members: CodecMember[],
+    now: number = Date.now()
+  ): { table: MemberTableEntry[]; frame: Uint8Array } {
+    const table: MemberTableEntry[] = [];
+    const records = members.map((member) => {
+      let index = this.indexes.get(member.userId);
+      if (index === undefined) {
+        index = this.indexes.size;
+        this.indexes.set(member.userId, index);
+        table.push({
+          index,
+          userId: member.userId,
+          userName: member.userName,
+          profileImage: member.profileImage,
+          profileColor: member.profileColor,
+        });
+      }
+
+      const lat = Math.round(member.latitude * COORD_SCALE);
+      const lng = Math.round(member.longitude * COORD_SCALE);
+      const previous = this.lastCoords.get(member.userId);
+      const absolute = !previous || !fitsInt16(lat - previous.lat) || !fitsInt16(lng - previous.lng);
+      const onRoute = typeof member.routeProgress === "number" && typeof member.routeDistance === "number";
+      return { member, index, lat, lng, previous, absolute, onRoute };
+    });
+
+    const size = records.reduce((sum, r) => sum + recordBytes(r.absolute, r.onRoute), HEADER_BYTES);
+    const buffer = new ArrayBuffer(size);
+    const view = new DataView(buffer);
+    view.setUint8(0, FRAME_LOCATIONS);
+    view.setUint32(1, groupId, true);
+    view.setFloat64(5, now, true);
+    view.setUint16(13, records.length, true);
+
+    let offset = HEADER_BYTES;
+    for (const { member, index, lat, lng, previous, absolute, onRoute } of records) {
+      let flags = 0;
+      if (member.isRiding) flags |= FLAG_RIDING;
+      if (absolute) flags |= FLAG_ABSOLUTE;
+      if (onRoute) flags |= FLAG_ROUTE;
+      if (member.rideRole === "leader") flags |= FLAG_LEADER;
+      if (member.rideRole === "sweep") flags |= FLAG_SWEEP;
+
+      view.setUint16(offset, index, true);
+      view.setUint8(offset + 2, flags);
+      offset += 3;
+      if (absolute) {
+        view.setInt32(offset, lat, true);
+        view.setInt32(offset + 4, lng, true);
+        offset += 8;
+      } else {
+        view.setInt16(offset, lat - previous!.lat, true);
+        view.setInt16(offset + 2, lng - previous!.lng, true);
+        offset += 4;
+      }
+      view.setUint16(offset, clamp(member.speed * SPEED_SCALE, 0, MAX_U16), true);
+      view.setUint32(offset + 2, clamp(member.distance, 0, MAX_U32), true);
+      view.setUint32(offset + 6, clamp(member.duration, 0, MAX_U32), true);
+      view.setInt32(offset + 10, clamp(now - member.timestamp, -0x80000000, 0x7fffffff), true);
+      offset += 14;
+      if (onRoute) {
+        view.setUint32(offset, clamp(member.routeProgress!, 0, MAX_U32), true);
+        view.setUint16(offset + 4, clamp(member.routeDistance!, 0, MAX_U16), true);
+        offset += 6;
+      }
+
+      this.lastCoords.set(member.userId, { lat, lng });
+    }
+
+    return { table, frame: new Uint8Array(buffer) };
+  }
+}
+
+/**
+ * Rebuilds member lists from the member table and location frames of one connection
+ */
+export class GroupLocationDecoder {
+  private readonly table = new Map<number, MemberTableEntry>();
+  private readonly lastCoords = new Map<number, { lat: number; lng: number }>();
+
+  applyTable(entries: MemberTableEntry[]): void {
+    entries.forEach((entry) => this.table.set(entry.index, entry));
+  }
+
+  /**
+   * Members in the frame; members whose table entry hasn't arrived are left out
+   */
+  decode(data: ArrayBuffer | Uint8Array): { groupId: number; members: CodecMember[] } {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (view.getUint8(0) !== FRAME_LOCATIONS) {
+      throw new Error(`Unknown frame type ${view.getUint8(0)}`);
+    }
+    const groupId = view.getUint32(1, true);
+    const frameTime = view.getFloat64(5, true);
+    const count = view.getUint16(13, true);
+
+    const members: CodecMember[] = [];
+    let offset = HEADER_BYTES;
+    for (let i = 0; i < count; i++) {
+      const index = view.getUint16(offset, true);
+      const flags = view.getUint8(offset + 2);
+      offset += 3;
+
+      let lat: number;
+      let lng: number;
+      if (flags & FLAG_ABSOLUTE) {
+        lat = view.getInt32(offset, true);
+        lng = view.getInt32(offset + 4, true);
+        offset += 8;
+      } else {
+        const previous = this.lastCoords.get(index);
+        if (!previous) throw new Error(`Delta for unknown member ${index}`);
+        lat = previous.lat + view.getInt16(offset, true);
+        lng = previous.lng + view.getInt16(offset + 2, true);
+        offset += 4;
+      }
+      this.lastCoords.set(index, { lat, lng });
+
+      const speed = view.getUint16(offset, true) / SPEED_SCALE;
+      const distance = view.getUint32(offset + 2, true);
+      const duration = view.getUint32(offset + 6, true);
+      const timestamp = frameTime - view.getInt32(offset + 10, true);
+      offset += 14;
+
+      let routeProgress: number | null = null;
+      let routeDistance: number | null = null;
+      if (flags & FLAG_ROUTE) {
+        routeProgress = view.getUint32(offset, true);
+        routeDistance = view.getUint16(offset + 4, true);
+        offset += 6;
+      }
+
+      const entry = this.table.get(index);
+      if (!entry) continue;
+      members.push({
+        userId: entry.userId,
+        userName: entry.userName,
+        profileImage: entry.profileImage,
+        profileColor: entry.profileColor,
+        latitude: lat / COORD_SCALE,
+        longitude: lng / COORD_SCALE,
+        speed,
+        distance,
+        duration,
+        isRiding: (flags & FLAG_RIDING) !== 0,
+        timestamp,
+        routeDistance,
+        routeProgress,
+        rideRole: flags & FLAG_LEADER ? "leader" : flags & FLAG_SWEEP ? "sweep" : null,
+      });
+    }
+    return { groupId, members };
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Live location sharing definitions shared by the server and the app
+ */
+
+/**
+ * When friends can see a rider's live location:
+ * always - last reported location, riding or not; riding - only during rides;
+ * group_riding - only while riding in a group session; never
+ */
+export const LOCATION_SHARE_MODES = ["always", "riding", "group_riding", "never"] as const;
+
+export type LocationShareMode = (typeof LOCATION_SHARE_MODES)[number];
+
+/** Friends without a rule see the rider while they ride, as before sharing rules existed */
+export const DEFAULT_LOCATION_SHARE_MODE: LocationShareMode = "riding";
+
+/** Lifetimes a share link can be created with (hours) */
+export const SHARE_LINK_DURATIONS_HOURS = [1, 4, 12, 24] as const;
+
+/** Path of the web page a share link opens, relative to the API server */
+export function shareLinkPath(token: string): string {
+  return `/share/location/${token}`;
+}
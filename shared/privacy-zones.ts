@@ -0,0 +1,47 @@
+/**
+ * Privacy zone definitions shared by the server and the app
+ */
+
+/** Zone radius limits (meters) */
+export const MIN_PRIVACY_ZONE_RADIUS_M = 200;
+export const MAX_PRIVACY_ZONE_RADIUS_M = 1000;
+export const DEFAULT_PRIVACY_ZONE_RADIUS_M = 300;
+
+/** Zones a rider can set up */
+export const MAX_PRIVACY_ZONES = 10;
+
+export interface PrivacyZoneCircle {
+  latitude: number;
+  longitude: number;
+  /** meters */
+  radius: number;
+}
+
+function distanceMeters(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number {
+  const R = 6371000;
+  const dLat = ((b.latitude - a.latitude) * Math.PI) / 180;
+  const dLon = ((b.longitude - a.longitude) * Math.PI) / 180;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((a.latitude * Math.PI) / 180) * Math.cos((b.latitude * Math.PI) / 180) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+export function isInPrivacyZone(
+  point: { latitude: number; longitude: number },
+  zones: PrivacyZoneCircle[]
+): boolean {
+  return zones.some((zone) => distanceMeters(point, zone) <= zone.radius);
+}
+
+/**
+ * Drops the points of a track that fall inside any of the zones, keeping everything else of each
+ * point (time, speed, altitude) as it was
+ */
+export function trimTrackToPrivacyZones<T extends { latitude: number; longitude: number }>(
+  points: T[],
+  zones: PrivacyZoneCircle[]
+): T[] {
+  if (zones.length === 0) return points;
+  return points.filter((point) => !isInPrivacyZone(point, zones));
+}
@@ -0,0 +1,23 @@
+/**
+ * Ride discovery definitions shared by the server and the app
+ */
+
+/** Scooter classes riders can filter by, from the battery voltage of their default scooter */
+export const SCOOTER_CLASSES = ["standard", "performance", "high_performance"] as const;
+
+export type ScooterClass = (typeof SCOOTER_CLASSES)[number];
+
+/**
+ * Class of a scooter by its nominal battery voltage: up to 36V commuter scooters, 48–52V
+ * performance scooters, 60V and above dual-motor high-performance scooters
+ */
+export function scooterClassForVoltage(voltage: number | null): ScooterClass | null {
+  if (!voltage || voltage <= 0) return null;
+  if (voltage < 48) return "standard";
+  if (voltage < 60) return "performance";
+  return "high_performance";
+}
+
+/** Search radius limits (km) */
+export const MIN_DISCOVERY_RADIUS_KM = 1;
+export const MAX_DISCOVERY_RADIUS_KM = 100;
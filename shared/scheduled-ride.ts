@@ -0,0 +1,37 @@
+/**
+ * Scheduled group ride definitions shared by the server and the app
+ */
+
+export const PACE_LEVELS = ["relaxed", "moderate", "fast"] as const;
+
+export type PaceLevel = (typeof PACE_LEVELS)[number];
+
+/** Cruising speed range riders should expect at each pace (km/h) */
+export const PACE_SPEED_RANGES: Record<PaceLevel, { min: number; max: number }> = {
+  relaxed: { min: 10, max: 15 },
+  moderate: { min: 15, max: 20 },
+  fast: { min: 20, max: 25 },
+};
+
+export const RSVP_STATUSES = ["going", "maybe", "declined", "waitlist"] as const;
+
+/** waitlist: wanted to go while the ride was full, moved to going when a spot opens */
+export type RsvpStatus = (typeof RSVP_STATUSES)[number];
+
+/** Riders a scheduled ride can take, host included */
+export const MIN_RIDE_CAPACITY = 2;
+export const MAX_RIDE_CAPACITY = 50;
+
+/** Assumed length of a ride without a planned route (ms) */
+const DEFAULT_RIDE_DURATION_MS = 2 * 60 * 60_000;
+
+/**
+ * Rough ride length for calendars: the route at the middle of the pace range, rounded up to 15 minutes
+ */
+export function estimateRideDurationMs(routeDistanceM: number | null, pace: PaceLevel): number {
+  if (!routeDistanceM || routeDistanceM <= 0) return DEFAULT_RIDE_DURATION_MS;
+  const { min, max } = PACE_SPEED_RANGES[pace];
+  const hours = routeDistanceM / 1000 / ((min + max) / 2);
+  const quarter = 15 * 60_000;
+  return Math.max(quarter, Math.ceil((hours * 60 * 60_000) / quarter) * quarter);
+}
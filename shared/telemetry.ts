@@ -0,0 +1,32 @@
+/**
+ * Controller telemetry recorded during a ride, shared by the server and the app
+ */
+
+/** [seconds since the ride started, pack voltage (V), current (A, discharging positive) or null] */
+export type VoltageSample = [number, number, number | null];
+
+/** Samples kept per ride; longer rides are thinned to fit */
+export const MAX_VOLTAGE_SAMPLES = 720;
+
+/** Seconds between recorded samples at the start of a ride */
+export const VOLTAGE_SAMPLE_INTERVAL_S = 5;
+
+/**
+ * Energy drawn over the ride (Wh) from voltage × current; null when the controller didn't report
+ * current for most of the ride
+ */
+export function integrateEnergyWh(samples: VoltageSample[]): number | null {
+  const withCurrent = samples.filter((s) => s[2] !== null);
+  if (withCurrent.length < 2 || withCurrent.length < samples.length / 2) return null;
+
+  let wattSeconds = 0;
+  for (let i = 1; i < withCurrent.length; i++) {
+    const [t0, v0, i0] = withCurrent[i - 1];
+    const [t1, v1, i1] = withCurrent[i];
+    const seconds = t1 - t0;
+    if (seconds <= 0) continue;
+    // Trapezoid; regen (negative current) gives energy back
+    wattSeconds += ((v0 * (i0 as number) + v1 * (i1 as number)) / 2) * seconds;
+  }
+  return Math.max(0, wattSeconds / 3600);
+}
@@ -6,8 +6,12 @@ import {
   estimateBatteryCycles,
   estimateBatteryHealth,
   createBatterySpec,
+  createBatterySpecForScooter,
+  estimateVoltage,
   estimateRange,
   estimateArrivalSoc,
+  learnEfficiency,
+  planRouteBattery,
   BatterySpec,
 } from "../lib/battery-analysis";
 
@@ -176,4 +180,136 @@ describe("Battery Analysis Utilities", () => {
       expect(arrivalSoc).toBe(0);
     });
   });
+
+  describe("planRouteBattery", () => {
+    // 약 1km 간격으로 북쪽으로 30km 직선 경로
+    const KM_IN_LAT = 1 / 111.195;
+    const route = (altitude?: (i: number) => number) =>
+      Array.from({ length: 31 }, (_, i) => ({
+        latitude: 37 + i * KM_IN_LAT,
+        longitude: 127,
+        altitude: altitude ? altitude(i) : null,
+      }));
+
+    it("should match estimateArrivalSoc on flat ground", () => {
+      // 30km at 30 Wh/km = 900Wh = 50% of 1800Wh
+      const plan = planRouteBattery(route(), lithiumIonSpec, { currentSoc: 100, efficiencyWhPerKm: 30 });
+      expect(plan.distanceKm).toBeCloseTo(30, 1);
+      expect(plan.arrivalSoc).toBeCloseTo(50, 0);
+      expect(plan.feasible).toBe(true);
+      expect(plan.reserveIndex).toBeNull();
+      expect(plan.socAlongRoute).toHaveLength(31);
+      expect(plan.socAlongRoute[15]).toBeCloseTo(75, 0);
+    });
+
+    it("should flag the point where the reserve is reached", () => {
+      // 1km당 1.67% 소모: 60% -> 28km 지점에서 15% 아래로
+      const plan = planRouteBattery(route(), lithiumIonSpec, { currentSoc: 60, efficiencyWhPerKm: 30 });
+      expect(plan.feasible).toBe(false);
+      expect(plan.marginSoc).toBeLessThan(0);
+      expect(plan.reserveIndex).toBe(28);
+      expect(plan.reserveDistanceKm).toBeCloseTo(28, 0);
+    });
+
+    it("should add climbing energy and recover part of it downhill", () => {
+      const flat = planRouteBattery(route(), lithiumIonSpec, { currentSoc: 100, efficiencyWhPerKm: 30 });
+      const uphill = planRouteBattery(route((i) => i * 10), lithiumIonSpec, { currentSoc: 100, efficiencyWhPerKm: 30 });
+      const downhill = planRouteBattery(route((i) => 300 - i * 10), lithiumIonSpec, { currentSoc: 100, efficiencyWhPerKm: 30 });
+      // 300m 등판: 100kg * 9.81 * 300 / 3600 / 0.8 ≈ 102Wh ≈ 5.7%
+      expect(flat.arrivalSoc - uphill.arrivalSoc).toBeCloseTo(5.7, 0);
+      expect(downhill.arrivalSoc).toBeGreaterThan(flat.arrivalSoc);
+    });
+
+    it("should apply cold temperature correction", () => {
+      // 0°C: 효율 0.8 -> 900Wh / 0.8 = 1125Wh = 62.5%
+      const plan = planRouteBattery(route(), lithiumIonSpec, {
+        currentSoc: 100,
+        efficiencyWhPerKm: 30,
+        temperatureCelsius: 0,
+      });
+      expect(plan.arrivalSoc).toBeCloseTo(37.5, 0);
+    });
+  });
+
+  describe("learnEfficiency", () => {
+    it("should normalize cold rides and weight by distance", () => {
+      const efficiency = learnEfficiency([
+        { distanceMeters: 10000, efficiencyWhPerKm: 30, temperatureCelsius: 0 }, // 30 * 0.8 = 24
+        { distanceMeters: 10000, efficiencyWhPerKm: 20, temperatureCelsius: 25 },
+        { distanceMeters: 300, efficiencyWhPerKm: 90 }, // 너무 짧은 주행은 제외
+      ]);
+      expect(efficiency).toBeCloseTo(22, 1);
+    });
+
+    it("should return null without usable samples", () => {
+      expect(learnEfficiency([])).toBeNull();
+      expect(learnEfficiency([{ distanceMeters: 500, efficiencyWhPerKm: 25 }])).toBeNull();
+    });
+  });
+
+  describe("OCV curve specs", () => {
+    const lfpScooter = createBatterySpecForScooter({
+      batteryVoltage: 52,
+      batteryCapacity: "20",
+      batteryType: "lifepo4",
+      batteryCellCount: 16,
+    });
+    const liIonScooter = createBatterySpecForScooter({ batteryVoltage: 60, batteryCapacity: "30" });
+
+    it("should follow the flat LiFePO4 curve instead of a straight line", () => {
+      // 3.25V/셀: 선형 보간이면 65%지만 곡선상 40%
+      expect(calculateSoc(52.0, lfpScooter)).toBe(40);
+      expect(calculateSoc(53.0, lfpScooter)).toBe(76);
+      expect(calculateSoc(60, lfpScooter)).toBe(100);
+      expect(calculateSoc(38, lfpScooter)).toBe(0);
+    });
+
+    it("should default to a 16S lithium-ion pack from the nominal voltage", () => {
+      expect(liIonScooter.chemistry).toBe("lithium_ion");
+      expect(liIonScooter.cellCount).toBe(16);
+      expect(calculateSoc(60.0, liIonScooter)).toBe(50);
+      expect(calculateSoc(67.2, liIonScooter)).toBe(100);
+      expect(calculateSoc(48.0, liIonScooter)).toBe(0);
+    });
+
+    it("should use 2V cells for lead-acid packs", () => {
+      const leadAcid = createBatterySpecForScooter({ batteryVoltage: 48, batteryType: "lead_acid" });
+      expect(leadAcid.cellCount).toBe(24);
+      expect(leadAcid.type).toBe("lead-acid");
+      expect(calculateSoc(48.48, leadAcid)).toBe(50);
+    });
+
+    it("should compensate sag for voltages read right after riding", () => {
+      expect(calculateSoc(52.0, lfpScooter, { minutesSinceRide: 0 })).toBe(67);
+      // 한 시간 뒤에는 회복이 끝나 보정 없음
+      expect(calculateSoc(52.0, lfpScooter, { minutesSinceRide: 60 })).toBe(40);
+    });
+
+    it("should invert the curve when estimating voltage", () => {
+      expect(estimateVoltage(50, lfpScooter)).toBeCloseTo(52.16, 2);
+      expect(calculateSoc(estimateVoltage(75, liIonScooter), liIonScooter)).toBe(75);
+    });
+
+    it("should honor the full and empty voltages the rider calibrated", () => {
+      // 66V 만충 / 50V 방전으로 보정한 16S 리튬이온: 곡선 구간(48~67.2V)에 맞춰 읽음
+      const calibrated = createBatterySpecForScooter({
+        batteryVoltage: 60,
+        batteryCapacity: "30",
+        batteryFullVoltage: "66.0",
+        batteryEmptyVoltage: "50.0",
+      });
+      expect(calibrated.fullVoltage).toBe(66);
+      expect(calibrated.emptyVoltage).toBe(50);
+      expect(calculateSoc(66, calibrated)).toBe(100);
+      expect(calculateSoc(50, calibrated)).toBe(0);
+      // 58V는 곡선 구간의 57.6V에 해당
+      expect(calculateSoc(58, calibrated)).toBe(calculateSoc(57.6, liIonScooter));
+      expect(calculateSoc(58, calibrated)).toBeLessThan(calculateSoc(58, liIonScooter));
+      expect(estimateVoltage(100, calibrated)).toBeCloseTo(66, 5);
+      expect(calculateSoc(estimateVoltage(40, calibrated), calibrated)).toBe(40);
+      // 비어 있거나 뒤바뀐 값은 무시
+      const unset = createBatterySpecForScooter({ batteryVoltage: 60, batteryFullVoltage: null, batteryEmptyVoltage: "50" });
+      expect(unset.fullVoltage).toBeCloseTo(67.2, 5);
+    });
+  });
 });
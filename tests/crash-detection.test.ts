@@ -0,0 +1,181 @@
+import { describe, it, expect } from "vitest";
+import {
+  CrashDetector,
+  type AccelerationSample,
+  type CrashEvent,
+  type LocationSample,
+} from "../lib/crash-detection";
+
+// Sensor traces: accelerometer at 50Hz, GPS at 1Hz, riding north along 127.0°E
+const ACCEL_INTERVAL = 20;
+const START_LAT = 37.5;
+const METERS_PER_DEG_LAT = 111_195;
+
+type TraceEvent =
+  | { kind: "accel"; sample: AccelerationSample }
+  | { kind: "location"; sample: LocationSample };
+
+interface Phase {
+  durationMs: number;
+  /** Speed in km/h (GPS) */
+  speedKmh: number;
+  /** Acceleration magnitude in g for each sample offset (ms into the phase) */
+  accel?: (t: number) => number;
+  /** Report GPS speed (false = speed is null) */
+  gpsSpeed?: boolean;
+}
+
+/** Small deterministic road vibration around 1g */
+const riding = (t: number) => 1 + 0.15 * Math.sin(t / 37);
+const resting = (t: number) => 1 + 0.02 * Math.sin(t / 53);
+
+function buildTrace(phases: Phase[]): TraceEvent[] {
+  const events: TraceEvent[] = [];
+  let time = 0;
+  let latitude = START_LAT;
+
+  for (const phase of phases) {
+    const accel = phase.accel ?? riding;
+    for (let t = 0; t < phase.durationMs; t += ACCEL_INTERVAL) {
+      const timestamp = time + t;
+      events.push({ kind: "accel", sample: { timestamp, x: 0, y: 0, z: accel(t) } });
+      if (timestamp % 1000 === 0) {
+        latitude += (phase.speedKmh / 3.6) / METERS_PER_DEG_LAT;
+        events.push({
+          kind: "location",
+          sample: {
+            timestamp,
+            latitude,
+            longitude: 127.0,
+            speed: phase.gpsSpeed === false ? null : phase.speedKmh / 3.6,
+          },
+        });
+      }
+    }
+    time += phase.durationMs;
+  }
+  return events;
+}
+
+function replay(detector: CrashDetector, trace: TraceEvent[]): CrashEvent[] {
+  const detections: CrashEvent[] = [];
+  for (const event of trace) {
+    const result =
+      event.kind === "accel" ? detector.addAcceleration(event.sample) : detector.addLocation(event.sample);
+    if (result) detections.push(result);
+  }
+  return detections;
+}
+
+/** 300ms impact spike peaking at `peak` g, then tumbling */
+const impact = (peak: number) => (t: number) => (t < 300 ? 1 + (peak - 1) * Math.sin((t / 300) * Math.PI) : riding(t));
+
+describe("Crash detection", () => {
+  it("should detect an impact followed by a stop and stillness", () => {
+    const detector = new CrashDetector();
+    const detections = replay(
+      detector,
+      buildTrace([
+        { durationMs: 10_000, speedKmh: 20 },
+        { durationMs: 2000, speedKmh: 8, accel: impact(6) },
+        { durationMs: 15_000, speedKmh: 0, accel: resting },
+      ])
+    );
+
+    expect(detections).toHaveLength(1);
+    expect(detections[0].peakG).toBeGreaterThan(5.5);
+    expect(detections[0].speedBeforeImpactKmh).toBe(20);
+    expect(detections[0].impactTime).toBeGreaterThanOrEqual(10_000);
+    expect(detections[0].detectedAt - 12_000).toBeGreaterThanOrEqual(10_000);
+    expect(detector.getPhase()).toBe("detected");
+  });
+
+  it("should ignore a pothole when the rider keeps going", () => {
+    const detector = new CrashDetector();
+    const detections = replay(
+      detector,
+      buildTrace([
+        { durationMs: 10_000, speedKmh: 20 },
+        { durationMs: 1000, speedKmh: 20, accel: impact(5) },
+        { durationMs: 20_000, speedKmh: 20 },
+      ])
+    );
+
+    expect(detections).toHaveLength(0);
+    expect(detector.getPhase()).toBe("monitoring");
+  });
+
+  it("should ignore a dropped phone while standing", () => {
+    const detector = new CrashDetector();
+    const detections = replay(
+      detector,
+      buildTrace([
+        { durationMs: 10_000, speedKmh: 0, accel: resting },
+        { durationMs: 1000, speedKmh: 0, accel: impact(8) },
+        { durationMs: 15_000, speedKmh: 0, accel: resting },
+      ])
+    );
+
+    expect(detections).toHaveLength(0);
+  });
+
+  it("should cancel when the rider starts walking after stopping", () => {
+    const detector = new CrashDetector();
+    const detections = replay(
+      detector,
+      buildTrace([
+        { durationMs: 10_000, speedKmh: 20 },
+        { durationMs: 2000, speedKmh: 0, accel: impact(6) },
+        { durationMs: 4000, speedKmh: 0, accel: resting },
+        { durationMs: 12_000, speedKmh: 5, accel: (t) => 1 + 0.4 * Math.sin(t / 80) },
+      ])
+    );
+
+    expect(detections).toHaveLength(0);
+  });
+
+  it("should cancel when the phone is being handled during the stillness window", () => {
+    const detector = new CrashDetector();
+    const handling = (t: number) => 1 + 0.6 * Math.sin(t / 40);
+    const detections = replay(
+      detector,
+      buildTrace([
+        { durationMs: 10_000, speedKmh: 20 },
+        { durationMs: 2000, speedKmh: 0, accel: impact(6) },
+        { durationMs: 15_000, speedKmh: 0, accel: handling },
+      ])
+    );
+
+    expect(detections).toHaveLength(0);
+    expect(detector.getPhase()).toBe("monitoring");
+  });
+
+  it("should estimate speed from positions when GPS speed is missing", () => {
+    const detector = new CrashDetector();
+    const detections = replay(
+      detector,
+      buildTrace([
+        { durationMs: 10_000, speedKmh: 20, gpsSpeed: false },
+        { durationMs: 2000, speedKmh: 0, accel: impact(6), gpsSpeed: false },
+        { durationMs: 15_000, speedKmh: 0, accel: resting, gpsSpeed: false },
+      ])
+    );
+
+    expect(detections).toHaveLength(1);
+  });
+
+  it("should respect custom thresholds and return to monitoring after reset", () => {
+    const detector = new CrashDetector({ impactThresholdG: 8 });
+    const trace = buildTrace([
+      { durationMs: 10_000, speedKmh: 20 },
+      { durationMs: 2000, speedKmh: 0, accel: impact(6) },
+      { durationMs: 15_000, speedKmh: 0, accel: resting },
+    ]);
+    expect(replay(detector, trace)).toHaveLength(0);
+
+    const sensitive = new CrashDetector({ impactThresholdG: 3 });
+    expect(replay(sensitive, trace)).toHaveLength(1);
+    sensitive.reset();
+    expect(sensitive.getPhase()).toBe("monitoring");
+  });
+});
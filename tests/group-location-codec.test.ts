@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  GroupLocationDecoder,
+  GroupLocationEncoder,
+  type CodecMember,
+} from "../shared/group-location-codec";
+
+const NOW = 1_760_000_000_000;
+
+function member(userId: number, extra: Partial<CodecMember> = {}): CodecMember {
+  return {
+    userId,
+    userName: `라이더 ${userId}`,
+    profileImage: `https://cdn.example.com/profiles/${userId}/avatar-large.jpg`,
+    profileColor: "#3B82F6",
+    latitude: 37.5665 + userId * 0.001,
+    longitude: 126.978 + userId * 0.001,
+    speed: 21.4,
+    distance: 12345.6,
+    duration: 2400,
+    isRiding: true,
+    timestamp: NOW - 800,
+    routeDistance: null,
+    routeProgress: null,
+    rideRole: null,
+    ...extra,
+  };
+}
+
+function roundTrip(encoder: GroupLocationEncoder, decoder: GroupLocationDecoder, members: CodecMember[], now = NOW) {
+  const { table, frame } = encoder.encode(42, members, now);
+  decoder.applyTable(table);
+  return { table, frame, decoded: decoder.decode(frame) };
+}
+
+describe("Group location codec", () => {
+  it("should round-trip members within the quantization", () => {
+    const members = [
+      member(1, { rideRole: "leader", routeProgress: 5230, routeDistance: 12 }),
+      member(2, { isRiding: false, speed: 0 }),
+      member(3, { rideRole: "sweep", latitude: -33.8688, longitude: 151.2093 }),
+    ];
+    const { decoded } = roundTrip(new GroupLocationEncoder(), new GroupLocationDecoder(), members);
+
+    expect(decoded.groupId).toBe(42);
+    expect(decoded.members).toHaveLength(3);
+    decoded.members.forEach((m, i) => {
+      const original = members[i];
+      expect(m.userId).toBe(original.userId);
+      expect(m.userName).toBe(original.userName);
+      expect(m.profileImage).toBe(original.profileImage);
+      expect(m.latitude).toBeCloseTo(original.latitude, 6);
+      expect(m.longitude).toBeCloseTo(original.longitude, 6);
+      expect(m.speed).toBeCloseTo(original.speed, 1);
+      expect(m.distance).toBe(Math.round(original.distance));
+      expect(m.timestamp).toBe(original.timestamp);
+      expect(m.isRiding).toBe(original.isRiding);
+      expect(m.rideRole).toBe(original.rideRole);
+    });
+    expect(decoded.members[0].routeProgress).toBe(5230);
+    expect(decoded.members[1].routeProgress).toBeNull();
+  });
+
+  it("should send the member table once and then coordinate deltas", () => {
+    const encoder = new GroupLocationEncoder();
+    const decoder = new GroupLocationDecoder();
+    const first = roundTrip(encoder, decoder, [member(1), member(2)]);
+    expect(first.table.map((entry) => entry.userId)).toEqual([1, 2]);
+
+    // ~15m further north: a 16-bit delta
+    const moved = [member(1, { latitude: member(1).latitude + 0.000135 }), member(2)];
+    const second = roundTrip(encoder, decoder, moved);
+    expect(second.table).toEqual([]);
+    expect(second.frame.byteLength).toBe(first.frame.byteLength - 2 * 4);
+    expect(second.decoded.members[0].latitude).toBeCloseTo(moved[0].latitude, 6);
+
+    // A new member only adds its own entry
+    const third = roundTrip(encoder, decoder, [...moved, member(3)]);
+    expect(third.table.map((entry) => entry.userId)).toEqual([3]);
+    expect(third.decoded.members.map((m) => m.userId)).toEqual([1, 2, 3]);
+  });
+
+  it("should fall back to absolute coordinates after a large jump", () => {
+    const encoder = new GroupLocationEncoder();
+    const decoder = new GroupLocationDecoder();
+    roundTrip(encoder, decoder, [member(1)]);
+    const jumped = member(1, { latitude: 37.7, longitude: 127.1 });
+    const { decoded } = roundTrip(encoder, decoder, [jumped]);
+    expect(decoded.members[0].latitude).toBeCloseTo(37.7, 6);
+    expect(decoded.members[0].longitude).toBeCloseTo(127.1, 6);
+  });
+
+  it("should use a fraction of the JSON bandwidth over a group ride", () => {
+    const encoder = new GroupLocationEncoder();
+    const decoder = new GroupLocationDecoder();
+    let jsonBytes = 0;
+    let binaryBytes = 0;
+
+    // 10 riders heading north-east at ~20 km/h, one broadcast per second for 10 minutes
+    for (let second = 0; second < 600; second++) {
+      const now = NOW + second * 1000;
+      const members = Array.from({ length: 10 }, (_, i) =>
+        member(i + 1, {
+          latitude: 37.5 + i * 0.0005 + second * 0.00004,
+          longitude: 127.0 + second * 0.00004,
+          distance: second * 5.5,
+          duration: second,
+          timestamp: now - 300,
+          routeProgress: Math.round(second * 5.5),
+          routeDistance: 4,
+        })
+      );
+
+      jsonBytes += Buffer.byteLength(JSON.stringify({ type: "group_member_update", groupId: 42, members }));
+      const { table, frame, decoded } = roundTrip(encoder, decoder, members, now);
+      if (table.length > 0) {
+        binaryBytes += Buffer.byteLength(JSON.stringify({ type: "member_table", groupId: 42, members: table }));
+      }
+      binaryBytes += frame.byteLength;
+      expect(decoded.members[9].latitude).toBeCloseTo(members[9].latitude, 6);
+    }
+
+    expect(binaryBytes).toBeLessThan(jsonBytes / 10);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { positionAt, replayColor, replayTimeRange, type ReplayPoint } from "../lib/group-replay";
+
+const track: ReplayPoint[] = [
+  { latitude: 37.5, longitude: 127.0, timestamp: 1000, speed: 10 },
+  { latitude: 37.501, longitude: 127.0, timestamp: 6000, speed: 20 },
+  { latitude: 37.501, longitude: 127.002, timestamp: 11000, speed: 30 },
+];
+
+describe("Group ride replay", () => {
+  it("should interpolate a member's position between track points", () => {
+    const position = positionAt(track, 3500);
+    expect(position?.state).toBe("riding");
+    expect(position?.latitude).toBeCloseTo(37.5005, 6);
+    expect(position?.longitude).toBeCloseTo(127.0, 6);
+    expect(position?.speed).toBeCloseTo(15, 6);
+
+    expect(positionAt(track, 8500)?.longitude).toBeCloseTo(127.001, 6);
+  });
+
+  it("should hold members at their start before and at their end after their ride", () => {
+    expect(positionAt(track, 0)).toEqual({ latitude: 37.5, longitude: 127.0, speed: null, state: "waiting" });
+    expect(positionAt(track, 20000)?.state).toBe("finished");
+    expect(positionAt(track, 20000)?.longitude).toBe(127.002);
+    expect(positionAt([], 1000)).toBeNull();
+  });
+
+  it("should span every member's track", () => {
+    const late = [{ latitude: 37.5, longitude: 127.0, timestamp: 4000, speed: null }, { ...track[2], timestamp: 15000 }];
+    expect(replayTimeRange([track, late, []])).toEqual({ start: 1000, end: 15000 });
+    expect(replayTimeRange([])).toBeNull();
+  });
+
+  it("should prefer the member's profile color", () => {
+    expect(replayColor(0, "#123456")).toBe("#123456");
+    expect(replayColor(9, null)).toBe(replayColor(1, null));
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Players as created, and a gate holding the audio session setup until the test releases it
+const { players, gate } = vi.hoisted(() => {
+  const gate = { release: () => {}, wait: () => Promise.resolve() };
+  return { players: [] as { url: string; playing: boolean; removed: boolean }[], gate };
+});
+
+vi.mock("react-native", () => ({ Platform: { OS: "ios" } }));
+
+vi.mock("@react-native-async-storage/async-storage", () => ({
+  default: { getItem: vi.fn(), setItem: vi.fn() },
+}));
+
+vi.mock("../lib/voice-guidance", () => ({
+  setVoiceClipPlaying: vi.fn(async () => {}),
+}));
+
+vi.mock("expo-audio", () => ({
+  setAudioModeAsync: vi.fn(() => gate.wait()),
+  createAudioPlayer: vi.fn((url: string) => {
+    const player = {
+      url,
+      playing: false,
+      removed: false,
+      addListener: vi.fn(),
+      play: () => {
+        player.playing = true;
+      },
+      remove: () => {
+        player.playing = false;
+        player.removed = true;
+      },
+    };
+    players.push(player);
+    return player;
+  }),
+}));
+
+import { VoiceClipQueue } from "../lib/group-voice";
+
+const clip = (id: number) => ({ id, audioUrl: `https://example.com/clip-${id}.m4a`, duration: 2000 });
+
+// Lets pending promises settle
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("Voice clip queue", () => {
+  beforeEach(() => {
+    players.length = 0;
+    gate.wait = () => new Promise<void>((resolve) => (gate.release = resolve));
+  });
+
+  it("should not start a stopped clip when another is enqueued while it was loading", async () => {
+    const queue = new VoiceClipQueue();
+    queue.enqueue(clip(1));
+    await flush();
+    const releaseFirst = gate.release;
+
+    queue.stop();
+    queue.enqueue(clip(2));
+    await flush();
+    gate.release();
+    releaseFirst();
+    await flush();
+
+    expect(players.map((player) => player.url)).toEqual([clip(2).audioUrl]);
+    expect(players.filter((player) => player.playing)).toHaveLength(1);
+  });
+
+  it("should play clips one after another", async () => {
+    gate.wait = () => Promise.resolve();
+    const queue = new VoiceClipQueue();
+    queue.enqueue(clip(1));
+    queue.enqueue(clip(2));
+    await flush();
+
+    expect(players.map((player) => player.url)).toEqual([clip(1).audioUrl]);
+    queue.stop();
+    expect(players[0].removed).toBe(true);
+  });
+});
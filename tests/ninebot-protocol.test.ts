@@ -0,0 +1,237 @@
+import { describe, it, expect, vi } from "vitest";
+
+const { storage } = vi.hoisted(() => {
+  // Development build: the simulator adapter is registered
+  (globalThis as { __DEV__?: boolean }).__DEV__ = true;
+  return { storage: new Map<string, string>() };
+});
+
+vi.mock("@react-native-async-storage/async-storage", () => ({
+  default: {
+    getItem: vi.fn(async (key: string) => storage.get(key) ?? null),
+    setItem: vi.fn(async (key: string, value: string) => {
+      storage.set(key, value);
+    }),
+    removeItem: vi.fn(async (key: string) => {
+      storage.delete(key);
+    }),
+  },
+}));
+
+import {
+  APP_ADDRESS,
+  BMS_ADDRESS,
+  BMS_STATUS_LENGTH,
+  BMS_STATUS_REGISTER,
+  COMMAND_READ,
+  COMMAND_READ_REPLY,
+  ESC_ADDRESS,
+  ESC_STATUS_REGISTER,
+  NinebotFrameParser,
+  checksum,
+  decodeReading,
+  encodeBmsStatus,
+  encodeEscStatus,
+  encodeFrame,
+  readRequest,
+  type NinebotFraming,
+} from "../lib/ninebot-protocol";
+import {
+  NinebotTelemetryAdapter,
+  appendVoltageSample,
+  getSelectedTelemetryAdapter,
+  getTelemetryAdapter,
+  setSelectedTelemetryAdapter,
+  EMPTY_TELEMETRY_SAMPLE,
+  type TelemetrySample,
+} from "../lib/scooter-telemetry";
+import { NinebotSimulator } from "../lib/telemetry-simulator";
+import { integrateEnergyWh, type VoltageSample } from "../shared/telemetry";
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+
+const bmsReply = (framing: NinebotFraming) =>
+  encodeFrame(
+    {
+      source: BMS_ADDRESS,
+      target: APP_ADDRESS,
+      command: framing === "ninebot" ? COMMAND_READ_REPLY : COMMAND_READ,
+      register: BMS_STATUS_REGISTER,
+      payload: encodeBmsStatus({
+        remainingCapacity: 5200,
+        batteryPercent: 67,
+        current: 8.25,
+        voltage: 38.47,
+        temperatures: [24, 26],
+      }),
+    },
+    framing
+  );
+
+describe("Ninebot protocol", () => {
+  it("should encode a Xiaomi read request", () => {
+    // M365 request for the BMS status
+    expect(hex(readRequest(BMS_ADDRESS, BMS_STATUS_REGISTER, BMS_STATUS_LENGTH, "xiaomi"))).toBe("55aa032201310a9eff");
+  });
+
+  it("should compute the checksum over everything after the header", () => {
+    const bytes = Uint8Array.of(0x55, 0xaa, 0x03, 0x22, 0x01, 0x31, 0x0a);
+    expect(checksum(bytes, 2)).toBe(0xff9e);
+  });
+
+  it.each(["xiaomi", "ninebot"] as const)("should round-trip BMS status frames (%s)", (framing) => {
+    const frames = new NinebotFrameParser(framing).push(bmsReply(framing));
+    expect(frames).toHaveLength(1);
+    expect(frames[0].source).toBe(BMS_ADDRESS);
+    expect(frames[0].target).toBe(APP_ADDRESS);
+
+    expect(decodeReading(frames[0])).toEqual({
+      batteryPercent: 67,
+      current: 8.25,
+      voltage: 38.47,
+      batteryTemperature: 26,
+    });
+  });
+
+  it("should decode ESC status", () => {
+    const frame = encodeFrame(
+      {
+        source: ESC_ADDRESS,
+        target: APP_ADDRESS,
+        command: COMMAND_READ,
+        register: ESC_STATUS_REGISTER,
+        payload: encodeEscStatus({ errorCode: 14, batteryPercent: 67, speed: 21.5, odometer: 1234567, temperature: 31.4 }),
+      },
+      "xiaomi"
+    );
+    const [parsed] = new NinebotFrameParser("xiaomi").push(frame);
+    expect(decodeReading(parsed)).toEqual({
+      errorCode: 14,
+      batteryPercent: 67,
+      speed: 21.5,
+      odometer: 1234567,
+      temperature: 31.4,
+    });
+  });
+
+  it("should not decode requests as readings", () => {
+    const [request] = new NinebotFrameParser("ninebot").push(
+      readRequest(BMS_ADDRESS, BMS_STATUS_REGISTER, BMS_STATUS_LENGTH, "ninebot")
+    );
+    expect(request.source).toBe(APP_ADDRESS);
+    expect(decodeReading(request)).toBeNull();
+  });
+
+  it("should reassemble frames split across notifications", () => {
+    const parser = new NinebotFrameParser("xiaomi");
+    const frame = bmsReply("xiaomi");
+    expect(parser.push(frame.slice(0, 1))).toHaveLength(0);
+    expect(parser.push(frame.slice(1, 7))).toHaveLength(0);
+    expect(parser.push(frame.slice(7))).toHaveLength(1);
+  });
+
+  it("should split several frames in one notification", () => {
+    const frame = bmsReply("ninebot");
+    const joined = new Uint8Array(frame.length * 2);
+    joined.set(frame, 0);
+    joined.set(frame, frame.length);
+    expect(new NinebotFrameParser("ninebot").push(joined)).toHaveLength(2);
+  });
+
+  it("should skip noise and frames with a bad checksum", () => {
+    const good = bmsReply("xiaomi");
+    const corrupt = good.slice();
+    corrupt[8] ^= 0xff;
+    const stream = new Uint8Array([0x00, 0x55, 0x12, ...corrupt, 0xaa, ...good]);
+
+    const frames = new NinebotFrameParser("xiaomi").push(stream);
+    expect(frames).toHaveLength(1);
+    expect(decodeReading(frames[0])?.voltage).toBe(38.47);
+  });
+});
+
+describe("Telemetry adapter with the simulator", () => {
+  it.each(["xiaomi", "ninebot"] as const)("should stream samples from the simulated controller (%s)", async (framing) => {
+    let now = 0;
+    const simulator = new NinebotSimulator({ framing, now: () => now, soc: 80, speedProfile: () => 20 });
+    const adapter = new NinebotTelemetryAdapter(simulator, { framing, pollIntervalMs: 60_000, now: () => now });
+    const samples: TelemetrySample[] = [];
+
+    await adapter.start((sample) => samples.push(sample));
+    now = 60_000;
+    await adapter.poll();
+    await adapter.stop();
+
+    expect(samples).toHaveLength(2);
+    const [, riding] = samples;
+    expect(riding.speed).toBeCloseTo(20, 1);
+    expect(riding.current).toBeGreaterThan(3);
+    // 10S pack: a little under its resting voltage while drawing current
+    expect(riding.voltage).toBeGreaterThan(34);
+    expect(riding.voltage).toBeLessThan(42);
+    expect(riding.odometer! - samples[0].odometer!).toBeCloseTo(333, -1);
+    expect(riding.batteryPercent).toBeLessThanOrEqual(80);
+    expect(riding.errorCode).toBe(0);
+  });
+
+  it("should report injected controller errors", async () => {
+    const simulator = new NinebotSimulator();
+    simulator.injectError(21);
+    const adapter = new NinebotTelemetryAdapter(simulator, { pollIntervalMs: 60_000 });
+    let latest: TelemetrySample | null = null;
+    await adapter.start((sample) => (latest = sample));
+    await adapter.stop();
+    expect(latest!.errorCode).toBe(21);
+  });
+
+  it("should remember the selected adapter", async () => {
+    expect(await getSelectedTelemetryAdapter()).toBeNull();
+    await setSelectedTelemetryAdapter("simulator");
+    expect(await getSelectedTelemetryAdapter()).toBe("simulator");
+    expect(getTelemetryAdapter("simulator")).not.toBeNull();
+    await setSelectedTelemetryAdapter(null);
+    expect(await getSelectedTelemetryAdapter()).toBeNull();
+  });
+
+  it("should not offer the simulator outside development builds", async () => {
+    vi.resetModules();
+    (globalThis as { __DEV__?: boolean }).__DEV__ = false;
+    try {
+      const telemetry = await import("../lib/scooter-telemetry");
+      expect(telemetry.getTelemetryAdapter("simulator")).toBeNull();
+      expect(telemetry.getTelemetryAdapters()).toEqual([]);
+    } finally {
+      (globalThis as { __DEV__?: boolean }).__DEV__ = true;
+    }
+  });
+});
+
+describe("Voltage samples", () => {
+  const sampleAt = (seconds: number, voltage = 40, current: number | null = 10): TelemetrySample => ({
+    ...EMPTY_TELEMETRY_SAMPLE,
+    timestamp: seconds * 1000,
+    voltage,
+    current,
+  });
+
+  it("should record at most one sample per interval", () => {
+    let samples: VoltageSample[] = [];
+    for (let s = 0; s <= 20; s++) samples = appendVoltageSample(samples, sampleAt(s), 0);
+    expect(samples.map(([t]) => t)).toEqual([0, 5, 10, 15, 20]);
+  });
+
+  it("should thin long rides to fit", () => {
+    let samples: VoltageSample[] = [];
+    for (let s = 0; s <= 1000; s++) samples = appendVoltageSample(samples, sampleAt(s), 0, 20);
+    expect(samples.length).toBeLessThanOrEqual(20);
+    expect(samples[0][0]).toBe(0);
+    expect(samples[samples.length - 1][0]).toBeGreaterThan(900);
+  });
+
+  it("should integrate energy from voltage and current", () => {
+    // 40V × 10A for an hour
+    expect(integrateEnergyWh([[0, 40, 10], [1800, 40, 10], [3600, 40, 10]])).toBeCloseTo(400);
+    // Without current readings there's nothing to integrate
+    expect(integrateEnergyWh([[0, 40, null], [3600, 39, null]])).toBeNull();
+  });
+});
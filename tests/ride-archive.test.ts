@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import { extractRideArchive, parseArchiveFiles } from "../lib/ride-archive";
+import { generateTcxContent } from "../lib/tcx-format";
+import { encodeFitActivity } from "../lib/fit-format";
+import type { TrackData } from "../lib/gps-utils";
+
+function createTrack(startIso: string): TrackData {
+  const start = Date.parse(startIso);
+  return {
+    points: [0, 1, 2, 3].map((i) => ({
+      latitude: 37.5 + i * 0.001,
+      longitude: 127.0 + i * 0.001,
+      altitude: null,
+      timestamp: start + i * 10000,
+      speed: 6,
+      accuracy: null,
+    })),
+    startTime: new Date(start),
+    endTime: new Date(start + 30000),
+    name: "Imported",
+  };
+}
+
+const GPX = `<gpx><trk><trkseg>
+  <trkpt lat="37.1" lon="127.1"><time>2025-06-01T08:00:00Z</time></trkpt>
+  <trkpt lat="37.2" lon="127.2"><time>2025-06-01T08:10:00Z</time></trkpt>
+</trkseg></trk></gpx>`;
+
+describe("Ride archive import", () => {
+  it("should extract only supported ride files", () => {
+    const zip = zipSync({
+      "rides/a.gpx": strToU8(GPX),
+      "rides/b.tcx": strToU8(generateTcxContent(createTrack("2025-06-02T08:00:00Z"))),
+      "rides/c.FIT": encodeFitActivity(createTrack("2025-06-03T08:00:00Z")),
+      "rides/readme.txt": strToU8("hello"),
+      "__MACOSX/rides/._a.gpx": strToU8("junk"),
+    });
+
+    const files = extractRideArchive(zip);
+    expect(files.map((f) => f.fileName)).toEqual(["rides/a.gpx", "rides/b.tcx", "rides/c.FIT"]);
+    expect(files.map((f) => f.format)).toEqual(["gpx", "tcx", "fit"]);
+
+    const parsed = parseArchiveFiles(files);
+    expect(parsed.every((p) => p.ok)).toBe(true);
+    const startTimes = parsed.map((p) => (p.ok ? p.ride.startTime?.toISOString() : null));
+    expect(startTimes).toEqual([
+      "2025-06-01T08:00:00.000Z",
+      "2025-06-02T08:00:00.000Z",
+      "2025-06-03T08:00:00.000Z",
+    ]);
+  });
+
+  it("should report files that cannot be parsed", () => {
+    const zip = zipSync({
+      "broken.gpx": strToU8("<gpx><trk>"),
+      "no-time.gpx": strToU8(`<gpx><wpt lat="37" lon="127"/></gpx>`),
+    });
+
+    const parsed = parseArchiveFiles(extractRideArchive(zip));
+    expect(parsed).toHaveLength(2);
+    expect(parsed.every((p) => !p.ok)).toBe(true);
+  });
+
+  it("should throw for non-zip input", () => {
+    expect(() => extractRideArchive(strToU8("not a zip"))).toThrow();
+  });
+});
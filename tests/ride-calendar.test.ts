@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { buildRideIcs, escapeIcsText, foldIcsLine, type CalendarRide } from "../lib/ride-calendar";
+import { estimateRideDurationMs } from "../shared/scheduled-ride";
+
+const ride: CalendarRide = {
+  id: 42,
+  title: "한강 야간 라이딩",
+  description: "헬멧 필수, 라이트 준비해주세요",
+  startsAt: Date.UTC(2026, 9, 24, 11, 0),
+  meetingPointName: "여의도 한강공원, 물빛광장",
+  meetingLatitude: 37.5284,
+  meetingLongitude: 126.9326,
+  paceLevel: "moderate",
+  routeDistance: 26_000,
+  status: "scheduled",
+};
+
+describe("Scheduled ride calendar export", () => {
+  it("should build an event with the ride's time, place and alarm", () => {
+    const ics = buildRideIcs(ride, Date.UTC(2026, 9, 19, 0, 0));
+    const unfolded = ics.replace(/\r\n /g, "");
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(unfolded).toContain("UID:scheduled-ride-42@scoop");
+    expect(unfolded).toContain("DTSTAMP:20261019T000000Z");
+    expect(unfolded).toContain("DTSTART:20261024T110000Z");
+    // 26km at 17.5km/h, rounded up to 15 minutes
+    expect(unfolded).toContain("DTEND:20261024T123000Z");
+    expect(unfolded).toContain("LOCATION:여의도 한강공원\\, 물빛광장");
+    expect(unfolded).toContain("GEO:37.528400;126.932600");
+    expect(unfolded).toContain("TRIGGER:-PT30M");
+    expect(unfolded).toContain("STATUS:CONFIRMED");
+    expect(buildRideIcs({ ...ride, status: "cancelled" })).toContain("STATUS:CANCELLED");
+  });
+
+  it("should escape text values", () => {
+    expect(escapeIcsText("a;b,c\\d\ne")).toBe("a\\;b\\,c\\\\d\\ne");
+  });
+
+  it("should fold long lines at 75 octets without splitting characters", () => {
+    const line = `SUMMARY:${"가".repeat(60)}`;
+    const folded = foldIcsLine(line).split("\r\n");
+
+    expect(folded.length).toBeGreaterThan(1);
+    for (const piece of folded) {
+      expect(new TextEncoder().encode(piece).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.slice(1).every((piece) => piece.startsWith(" "))).toBe(true);
+    expect(folded.map((piece, i) => (i === 0 ? piece : piece.slice(1))).join("")).toBe(line);
+  });
+
+  it("should assume two hours without a planned route", () => {
+    expect(estimateRideDurationMs(null, "fast")).toBe(2 * 60 * 60_000);
+    expect(estimateRideDurationMs(1000, "fast")).toBe(15 * 60_000);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+
+// Rides as stored: average speed in km/h × 10
+const { storedRides } = vi.hoisted(() => ({
+  storedRides: [
+    { userId: 1, avgSpeed: 185 },
+    { userId: 1, avgSpeed: 201 },
+    { userId: 1, avgSpeed: 176 },
+  ],
+}));
+
+vi.mock("drizzle-orm/mysql2", () => ({
+  drizzle: () => ({
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          orderBy: async () => storedRides,
+        }),
+      }),
+    }),
+  }),
+}));
+
+describe("Ride discovery typical speeds", () => {
+  beforeAll(() => {
+    process.env.DATABASE_URL = "mysql://test@localhost/test";
+  });
+
+  it("should read ride speeds in km/h", async () => {
+    const db = await import("../server/db");
+    const { typicalSpeed } = await import("../server/ride-discovery");
+
+    const rows = await db.getRecentRideSpeeds([1], new Date(0), 1000);
+    expect(rows.map((row) => row.avgSpeed)).toEqual([18.5, 20.1, 17.6]);
+    expect(typicalSpeed(rows.map((row) => row.avgSpeed))).toBe(18.5);
+  });
+});
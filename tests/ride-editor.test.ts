@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import type { GpsPoint } from "../lib/gps-utils";
+import type { RidingRecord } from "../lib/riding-store";
+import {
+  canMergeRides,
+  findGpsOutliers,
+  mergeRides,
+  removeTrackRange,
+  splitRide,
+  trimRide,
+} from "../lib/ride-editor";
+
+const START = Date.parse("2026-05-01T09:00:00Z");
+
+/** 1Hz points riding north at ~18 km/h (5 m/s) */
+function points(from: number, count: number, startAt = START): GpsPoint[] {
+  return Array.from({ length: count }, (_, i) => ({
+    latitude: 37.5 + (from + i) * 0.000045,
+    longitude: 127.0,
+    altitude: null,
+    timestamp: startAt + (from + i) * 1000,
+    speed: 5,
+    accuracy: 5,
+  }));
+}
+
+function ride(id: string, track: GpsPoint[], extra: Partial<RidingRecord> = {}): RidingRecord {
+  return {
+    id,
+    date: "",
+    duration: 0,
+    distance: 0,
+    avgSpeed: 0,
+    maxSpeed: 0,
+    startTime: new Date(track[0].timestamp).toISOString(),
+    endTime: new Date(track[track.length - 1].timestamp).toISOString(),
+    gpsPoints: track,
+    synced: true,
+    ...extra,
+  };
+}
+
+describe("Ride editor", () => {
+  it("should trim the track and recompute stats", () => {
+    const trimmed = trimRide(ride("r1", points(0, 101)), 10, 60);
+
+    expect(trimmed.gpsPoints).toHaveLength(51);
+    expect(trimmed.startTime).toBe(new Date(START + 10_000).toISOString());
+    expect(trimmed.endTime).toBe(new Date(START + 60_000).toISOString());
+    expect(trimmed.duration).toBe(50);
+    expect(trimmed.distance).toBeCloseTo(50 * 5.004, 0);
+    expect(trimmed.avgSpeed).toBeCloseTo(18, 0);
+    expect(trimmed.synced).toBe(false);
+  });
+
+  it("should split at a point shared by both parts and keep battery data on the first", () => {
+    const original = ride("r1", points(0, 101), { voltageStart: 54.6, voltageEnd: 50.1, scooterId: 3 });
+    const [first, second] = splitRide(original, 40, "r2");
+
+    expect(first.id).toBe("r1");
+    expect(second.id).toBe("r2");
+    expect(first.gpsPoints).toHaveLength(41);
+    expect(second.gpsPoints).toHaveLength(61);
+    expect(first.endTime).toBe(second.startTime);
+    expect(first.duration + second.duration).toBe(100);
+    expect(first.voltageStart).toBe(54.6);
+    expect(second.voltageStart).toBeUndefined();
+    expect(second.scooterId).toBe(3);
+  });
+
+  it("should merge consecutive rides counting the gap between them as rest", () => {
+    const a = ride("a", points(0, 61), { energyWh: 10, voltageEnd: 52 });
+    const b = ride("b", points(0, 61, START + 10 * 60_000), { energyWh: 5, voltageEnd: 50 });
+    const merged = mergeRides([b, a]);
+
+    expect(merged.id).toBe("a");
+    expect(merged.gpsPoints).toHaveLength(122);
+    expect(merged.duration).toBe(120);
+    expect(merged.restTime).toBe(10 * 60 - 60);
+    expect(merged.totalTime).toBe(10 * 60 + 60);
+    expect(merged.energyWh).toBe(15);
+    expect(merged.voltageEnd).toBe(50);
+  });
+
+  it("should only offer rides within the merge window that do not overlap", () => {
+    const a = ride("a", points(0, 61));
+    expect(canMergeRides(a, ride("b", points(0, 61, START + 2 * 60 * 60_000)))).toBe(true);
+    expect(canMergeRides(ride("b", points(0, 61, START + 2 * 60 * 60_000)), a)).toBe(true);
+    expect(canMergeRides(a, ride("c", points(0, 61, START + 4 * 60 * 60_000)))).toBe(false);
+    expect(canMergeRides(a, ride("d", points(30, 61)))).toBe(false);
+  });
+
+  it("should find GPS spikes and recompute stats once they are removed", () => {
+    const track = points(0, 60);
+    // Three fixes jump ~1km away and come back
+    for (const i of [20, 21, 22]) {
+      track[i] = { ...track[i], latitude: track[i].latitude + 0.009, speed: null };
+    }
+
+    const outliers = findGpsOutliers(track);
+    expect(outliers).toEqual([{ startIndex: 20, endIndex: 22 }]);
+
+    const cleaned = removeTrackRange(ride("r1", track), 20, 22);
+    expect(cleaned.gpsPoints).toHaveLength(57);
+    expect(cleaned.distance).toBeCloseTo(59 * 5.004, 0);
+    expect(cleaned.maxSpeed).toBe(18);
+  });
+
+  it("should not report a jump that never comes back as a spike", () => {
+    const track = [...points(0, 10), ...points(0, 10, START + 10_000).map((p) => ({ ...p, latitude: p.latitude + 0.05 }))];
+    expect(findGpsOutliers(track)).toEqual([]);
+  });
+
+  it("should refuse to leave fewer than two points", () => {
+    expect(() => trimRide(ride("r1", points(0, 10)), 5, 5)).toThrow();
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import {
+  base64ToBytes,
+  buildTrackData,
+  bytesToBase64,
+  detectRideFileFormat,
+  parseGpxRide,
+  parseRideFile,
+} from "../lib/ride-formats";
+import { generateTcxContent, parseTcxContent } from "../lib/tcx-format";
+import { decodeFitActivity, encodeFitActivity } from "../lib/fit-format";
+import { parseGpxContent } from "../lib/gpx-parser";
+import type { TrackData, TrackPoint } from "../lib/gps-utils";
+import type { RidingRecord } from "../lib/riding-store";
+
+function createTrack(): TrackData {
+  const start = Date.UTC(2025, 4, 1, 9, 0, 0);
+  const points: TrackPoint[] = [];
+  for (let i = 0; i < 10; i++) {
+    points.push({
+      latitude: 37.5665 + i * 0.0005,
+      longitude: 126.978 + i * 0.0005,
+      altitude: 30 + i,
+      timestamp: start + i * 5000,
+      speed: 5 + i * 0.1,
+      accuracy: 5,
+      voltage: 67.2 - i * 0.1,
+      soc: 100 - i,
+    });
+  }
+  return {
+    points,
+    startTime: new Date(start),
+    endTime: new Date(start + 45000),
+    name: "테스트 주행 & <test>",
+    duration: 45,
+    battery: { voltageStart: 67.2, voltageEnd: 66.3, socStart: 100, socEnd: 91, energyWh: 12.5 },
+  };
+}
+
+describe("GPX parser", () => {
+  const gpx = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- exported by another app -->
+<gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1"
+  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">
+  <metadata><name>Morning &amp; Ride</name><time>2025-05-01T09:00:00Z</time></metadata>
+  <wpt lat="37.6" lon="127.0"><name>Cafe</name></wpt>
+  <trk>
+    <name><![CDATA[Track <1>]]></name>
+    <trkseg>
+      <trkpt lat="37.5665" lon="126.978"><ele>30</ele><time>2025-05-01T09:00:00Z</time>
+        <extensions><gpxtpx:TrackPointExtension><gpxtpx:speed>4.2</gpxtpx:speed></gpxtpx:TrackPointExtension></extensions>
+      </trkpt>
+      <trkpt lat='37.5670' lon='126.9785'><time>2025-05-01T09:00:05Z</time></trkpt>
+    </trkseg>
+    <trkseg>
+      <trkpt lat="37.5700" lon="126.9800"><time>2025-05-01T09:01:00Z</time></trkpt>
+      <trkpt lat="37.5705" lon="126.9805"><time>2025-05-01T09:01:05Z</time></trkpt>
+    </trkseg>
+  </trk>
+</gpx>`;
+
+  it("should merge all track segments and read extensions", () => {
+    const ride = parseGpxRide(gpx);
+    expect(ride).not.toBeNull();
+    expect(ride!.points).toHaveLength(4);
+    expect(ride!.points[0].speed).toBeCloseTo(4.2);
+    expect(ride!.points[0].altitude).toBe(30);
+    expect(ride!.startTime?.toISOString()).toBe("2025-05-01T09:00:00.000Z");
+    expect(ride!.endTime?.toISOString()).toBe("2025-05-01T09:01:05.000Z");
+  });
+
+  it("should not count the gap between segments as distance", () => {
+    const route = parseGpxContent(gpx);
+    expect(route).not.toBeNull();
+    expect(route!.name).toBe("Morning & Ride");
+    // 두 세그먼트 각각 약 70m, 세그먼트 사이 이동(약 400m)은 제외
+    expect(route!.totalDistance).toBeLessThan(200);
+  });
+
+  it("should fall back to waypoints when there is no track", () => {
+    const ride = parseGpxRide(
+      `<gpx><wpt lat="37.1" lon="127.1"/><wpt lat="37.2" lon="127.2"></wpt></gpx>`
+    );
+    expect(ride!.points).toHaveLength(2);
+  });
+
+  it("should reject malformed documents", () => {
+    expect(parseGpxRide("<gpx><trk></gpx>")).toBeNull();
+    expect(parseGpxRide("not xml")).toBeNull();
+  });
+});
+
+describe("TCX format", () => {
+  it("should round-trip points, speed and battery data", () => {
+    const track = createTrack();
+    const ride = parseTcxContent(generateTcxContent(track));
+
+    expect(ride).not.toBeNull();
+    expect(ride!.format).toBe("tcx");
+    expect(ride!.name).toBe(track.name);
+    expect(ride!.points).toHaveLength(track.points.length);
+    expect(ride!.points[3].latitude).toBeCloseTo(track.points[3].latitude, 6);
+    expect(ride!.points[3].speed).toBeCloseTo(track.points[3].speed!, 2);
+    expect(ride!.points[3].voltage).toBeCloseTo(track.points[3].voltage!, 2);
+    expect(ride!.points[3].soc).toBeCloseTo(track.points[3].soc!, 1);
+    expect(ride!.duration).toBe(45);
+    expect(ride!.battery.voltageStart).toBeCloseTo(67.2);
+    expect(ride!.battery.socEnd).toBeCloseTo(91);
+    expect(ride!.battery.energyWh).toBeCloseTo(12.5);
+  });
+});
+
+describe("FIT format", () => {
+  it("should produce a valid FIT header", () => {
+    const bytes = encodeFitActivity(createTrack());
+    expect(bytes[0]).toBe(14);
+    expect(String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11])).toBe(".FIT");
+  });
+
+  it("should round-trip records and battery developer fields", () => {
+    const track = createTrack();
+    const ride = decodeFitActivity(encodeFitActivity(track));
+
+    expect(ride).not.toBeNull();
+    expect(ride!.format).toBe("fit");
+    expect(ride!.points).toHaveLength(track.points.length);
+    expect(ride!.startTime?.getTime()).toBe(track.startTime.getTime());
+    expect(ride!.points[5].latitude).toBeCloseTo(track.points[5].latitude, 5);
+    expect(ride!.points[5].longitude).toBeCloseTo(track.points[5].longitude, 5);
+    expect(ride!.points[5].altitude).toBeCloseTo(track.points[5].altitude!, 0);
+    expect(ride!.points[5].speed).toBeCloseTo(track.points[5].speed!, 2);
+    expect(ride!.points[5].voltage).toBeCloseTo(track.points[5].voltage!, 2);
+    expect(ride!.points[5].soc).toBeCloseTo(track.points[5].soc!, 2);
+    expect(ride!.duration).toBeCloseTo(45, 0);
+    expect(ride!.battery.voltageStart).toBeCloseTo(67.2, 2);
+    expect(ride!.battery.energyWh).toBeCloseTo(12.5, 2);
+  });
+
+  it("should reject corrupted files", () => {
+    const bytes = encodeFitActivity(createTrack());
+    bytes[20] ^= 0xff;
+    expect(decodeFitActivity(bytes)).toBeNull();
+    expect(decodeFitActivity(new Uint8Array([1, 2, 3]))).toBeNull();
+  });
+});
+
+describe("ride-formats helpers", () => {
+  it("should detect formats by extension", () => {
+    expect(detectRideFileFormat("ride.GPX")).toBe("gpx");
+    expect(detectRideFileFormat("activity.tcx")).toBe("tcx");
+    expect(detectRideFileFormat("2025-05-01.fit")).toBe("fit");
+    expect(detectRideFileFormat("notes.txt")).toBeNull();
+  });
+
+  it("should round-trip base64", () => {
+    const bytes = encodeFitActivity(createTrack());
+    const decoded = base64ToBytes(bytesToBase64(bytes));
+    expect(Array.from(decoded)).toEqual(Array.from(bytes));
+    expect(bytesToBase64(new Uint8Array([0x66, 0x6f]))).toBe("Zm8=");
+  });
+
+  it("should parse TCX from UTF-8 bytes", () => {
+    const tcx = generateTcxContent(createTrack());
+    const ride = parseRideFile("tcx", new TextEncoder().encode(tcx));
+    expect(ride!.name).toBe("테스트 주행 & <test>");
+  });
+
+  it("should leave points inside privacy zones out of exported tracks", () => {
+    const track = createTrack();
+    const record: RidingRecord = {
+      id: "ride-1",
+      date: "2025.05.01",
+      duration: 45,
+      distance: 600,
+      avgSpeed: 18,
+      maxSpeed: 24,
+      startTime: track.startTime.toISOString(),
+      endTime: track.endTime.toISOString(),
+      gpsPoints: track.points,
+    };
+    const home = { latitude: track.points[0].latitude, longitude: track.points[0].longitude, radius: 200 };
+
+    const exported = buildTrackData(record, "주행", [home]);
+    // Points are ~70m apart, so the first three fall within 200m of the start
+    expect(exported.points).toHaveLength(7);
+    expect(exported.points[0]).toEqual(track.points[3]);
+    expect(buildTrackData(record, "주행").points).toHaveLength(10);
+    expect(record.gpsPoints).toHaveLength(10);
+  });
+});
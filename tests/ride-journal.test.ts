@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { GpsPoint } from "../lib/gps-utils";
+
+// In-memory AsyncStorage that survives vi.resetModules() (a simulated app kill)
+const { storage, saveRidingRecord } = vi.hoisted(() => ({
+  storage: new Map<string, string>(),
+  saveRidingRecord: vi.fn(async (_record: unknown) => {}),
+}));
+
+vi.mock("@react-native-async-storage/async-storage", () => ({
+  default: {
+    getItem: vi.fn(async (key: string) => storage.get(key) ?? null),
+    setItem: vi.fn(async (key: string, value: string) => {
+      storage.set(key, value);
+    }),
+    removeItem: vi.fn(async (key: string) => {
+      storage.delete(key);
+    }),
+    multiRemove: vi.fn(async (keys: string[]) => {
+      keys.forEach((key) => storage.delete(key));
+    }),
+  },
+}));
+
+vi.mock("../lib/riding-store", () => ({ saveRidingRecord }));
+
+type Journal = typeof import("../lib/ride-journal");
+
+/** Fresh module instance, as after the app process was killed and restarted */
+async function loadJournal(): Promise<Journal> {
+  vi.resetModules();
+  return import("../lib/ride-journal");
+}
+
+const START = Date.parse("2026-05-01T09:00:00Z");
+
+/** 1Hz points riding north at ~18 km/h */
+function points(from: number, count: number): GpsPoint[] {
+  return Array.from({ length: count }, (_, i) => ({
+    latitude: 37.5 + (from + i) * 0.000045,
+    longitude: 127.0,
+    altitude: null,
+    timestamp: START + (from + i) * 1000,
+    speed: 5,
+    accuracy: 5,
+  }));
+}
+
+const baseStats = {
+  isRunning: true,
+  isPaused: false,
+  distance: 0,
+  duration: 0,
+  restTime: 0,
+  maxSpeed: 0,
+  lastPointTimestamp: null,
+};
+
+describe("Ride journal", () => {
+  beforeEach(() => {
+    storage.clear();
+    saveRidingRecord.mockClear();
+    vi.useRealTimers();
+  });
+
+  it("should roll over to a new chunk and never rewrite sealed chunks", async () => {
+    const journal = await loadJournal();
+    await journal.startRideJournal("ride-1", new Date(START));
+    await journal.appendJournalPoints(points(0, journal.JOURNAL_CHUNK_SIZE + 5));
+
+    const header = JSON.parse(storage.get("@ride_journal_header")!);
+    expect(header.chunkCount).toBe(2);
+    expect(JSON.parse(storage.get("@ride_journal_chunk_0")!)).toHaveLength(journal.JOURNAL_CHUNK_SIZE);
+    expect(JSON.parse(storage.get("@ride_journal_chunk_1")!)).toHaveLength(5);
+
+    const sealed = storage.get("@ride_journal_chunk_0");
+    await journal.appendJournalPoint(points(journal.JOURNAL_CHUNK_SIZE + 5, 1)[0]);
+    expect(storage.get("@ride_journal_chunk_0")).toBe(sealed);
+    expect(JSON.parse(storage.get("@ride_journal_chunk_1")!)).toHaveLength(6);
+  });
+
+  it("should skip points at or before the last journaled timestamp", async () => {
+    const journal = await loadJournal();
+    await journal.startRideJournal("ride-1", new Date(START));
+    await journal.appendJournalPoints(points(0, 10));
+    // Background task delivering the same fixes the screen already wrote
+    await journal.appendJournalPoints(points(5, 10));
+
+    const replay = await journal.replayRideJournal();
+    expect(replay!.gpsPoints).toHaveLength(15);
+    expect(replay!.gpsPoints.map((p) => p.timestamp)).toEqual(points(0, 15).map((p) => p.timestamp));
+  });
+
+  it("should ignore appends when no ride is in progress", async () => {
+    const journal = await loadJournal();
+    await journal.appendJournalPoints(points(0, 3));
+    expect(storage.size).toBe(0);
+    expect(await journal.getRecoverableJournalSummary()).toBeNull();
+  });
+
+  it("should replay every point after a kill, including headless background appends", async () => {
+    const foreground = await loadJournal();
+    await foreground.startRideJournal("ride-1", new Date(START), {
+      ...foreground.EMPTY_JOURNAL_SESSION,
+      groupId: 7,
+    });
+    await foreground.appendJournalPoints(points(0, 60));
+    await foreground.updateJournalStats({ ...baseStats, distance: 295, duration: 59, maxSpeed: 18 });
+    await foreground.appendJournalPoints(points(60, 30));
+
+    // App killed; the background task keeps running headless and appends on its own
+    const headless = await loadJournal();
+    await headless.appendJournalPoints(points(90, 150));
+
+    const restarted = await loadJournal();
+    const replay = await restarted.replayRideJournal();
+    expect(replay).not.toBeNull();
+    expect(replay!.header.id).toBe("ride-1");
+    expect(replay!.header.session.groupId).toBe(7);
+    expect(replay!.gpsPoints).toHaveLength(240);
+    expect(replay!.gpsPoints[239].timestamp).toBe(START + 239 * 1000);
+
+    // Stats advanced from the checkpoint over the 180 points recorded after it
+    expect(replay!.duration).toBe(59 + 180);
+    expect(replay!.distance).toBeCloseTo(295 + 180 * 5.004, -1);
+    expect(replay!.maxSpeed).toBe(18);
+
+    const summary = await restarted.getRecoverableJournalSummary();
+    expect(summary).toEqual({
+      startTime: new Date(START).toISOString(),
+      duration: replay!.duration,
+      distance: replay!.distance,
+      pointsCount: 240,
+    });
+  });
+
+  it("should keep appending after resuming a replayed journal", async () => {
+    const first = await loadJournal();
+    await first.startRideJournal("ride-1", new Date(START));
+    await first.appendJournalPoints(points(0, 120));
+
+    const restarted = await loadJournal();
+    await restarted.replayRideJournal();
+    await restarted.resumeRideJournal();
+    await restarted.appendJournalPoints(points(110, 20));
+
+    const replay = await restarted.replayRideJournal();
+    expect(replay!.gpsPoints).toHaveLength(130);
+    expect(replay!.header.chunkCount).toBe(2);
+  });
+
+  it("should count gaps and stops as rest and skip GPS spikes when advancing stats", async () => {
+    const { advanceJournalStats } = await loadJournal();
+    const track = points(0, 5);
+    // Standing still for 3 seconds
+    const stopped = [1, 2, 3].map((i) => ({ ...track[4], timestamp: track[4].timestamp + i * 1000, speed: 0 }));
+    // Jump 1km in one second
+    const spike = { ...stopped[2], latitude: stopped[2].latitude + 0.009, timestamp: stopped[2].timestamp + 1000, speed: null };
+    // 60 second gap before the next fix
+    const afterGap = { ...spike, timestamp: spike.timestamp + 60_000, speed: 5 };
+
+    const result = advanceJournalStats(baseStats, [...track, ...stopped, spike, afterGap]);
+    expect(result.duration).toBe(4 + 1);
+    expect(result.restTime).toBe(3 + 60);
+    expect(result.distance).toBeCloseTo(4 * 5.004, 0);
+    expect(result.maxSpeed).toBe(18);
+  });
+
+  it("should compact the full journal into the riding record and clear it", async () => {
+    const journal = await loadJournal();
+    await journal.startRideJournal("ride-1", new Date(START));
+    await journal.appendJournalPoints(points(0, 250));
+
+    // The screen only keeps a downsampled copy in memory
+    const downsampled = points(0, 250).filter((_, i) => i % 10 === 0);
+    await journal.compactRideJournal({ id: "ride-1", gpsPoints: downsampled } as never);
+
+    expect(saveRidingRecord).toHaveBeenCalledTimes(1);
+    const saved = saveRidingRecord.mock.calls[0][0] as { gpsPoints: GpsPoint[] };
+    expect(saved.gpsPoints).toHaveLength(250);
+    expect(storage.size).toBe(0);
+    expect(await journal.getRecoverableJournalSummary()).toBeNull();
+  });
+
+  it("should keep the journal when saving the compacted record fails", async () => {
+    const journal = await loadJournal();
+    await journal.startRideJournal("ride-1", new Date(START));
+    await journal.appendJournalPoints(points(0, 10));
+
+    saveRidingRecord.mockRejectedValueOnce(new Error("storage full"));
+    await expect(journal.compactRideJournal({ id: "ride-1", gpsPoints: [] } as never)).rejects.toThrow();
+    expect((await journal.getRecoverableJournalSummary())?.pointsCount).toBe(10);
+  });
+
+  it("should discard journals older than 24 hours", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(START);
+    const journal = await loadJournal();
+    await journal.startRideJournal("ride-1", new Date(START));
+    await journal.appendJournalPoints(points(0, 10));
+
+    vi.setSystemTime(START + 25 * 60 * 60 * 1000);
+    expect(await journal.replayRideJournal()).toBeNull();
+    expect(storage.size).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+
+// In-memory stand-in for the MySQL connection: inserts keep the row, selects read it back
+const { rows } = vi.hoisted(() => ({ rows: [] as Record<string, unknown>[] }));
+
+vi.mock("drizzle-orm/mysql2", () => ({
+  drizzle: () => ({
+    insert: () => ({
+      values: async (values: Record<string, unknown>) => {
+        rows.push({ id: rows.length + 1, ...values });
+        return [{ insertId: rows.length }];
+      },
+    }),
+    select: () => ({
+      from: () => ({
+        where: async () => rows,
+      }),
+    }),
+  }),
+}));
+
+describe("Ride transport review persistence", () => {
+  beforeAll(() => {
+    process.env.DATABASE_URL = "mysql://test@localhost/test";
+  });
+
+  it("should save the transport review with a new ride", async () => {
+    const db = await import("../server/db");
+    const segments = JSON.stringify([{ mode: "car", startIndex: 10, endIndex: 40, distance: 4200, duration: 480 }]);
+
+    const id = await db.createRidingRecord({
+      userId: 1,
+      recordId: "ride-transport-1",
+      date: "2026-03-10",
+      duration: 1200,
+      distance: 5000,
+      avgSpeed: 150,
+      maxSpeed: 250,
+      transportStatus: "excluded",
+      excludedDistance: 4200,
+      excludedDuration: 480,
+      transportSegmentsJson: segments,
+    });
+    expect(id).toBe(1);
+
+    const saved = await db.getRidingRecordById("ride-transport-1");
+    expect(saved).toMatchObject({
+      transportStatus: "excluded",
+      excludedDistance: 4200,
+      excludedDuration: 480,
+      transportSegmentsJson: segments,
+    });
+  });
+});
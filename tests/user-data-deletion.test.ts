@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+
+// In-memory tables keyed by name; deletes and selects filter them with the query's own where clause
+const { tables } = vi.hoisted(() => ({ tables: new Map<string, Record<string, unknown>[]>() }));
+
+vi.mock("drizzle-orm/mysql2", async () => {
+  const { getTableName } = await import("drizzle-orm");
+  const { MySqlDialect } = await import("drizzle-orm/mysql-core");
+  const dialect = new MySqlDialect();
+
+  type Row = Record<string, unknown>;
+  // Turns the rendered condition ("`t`.`a` = ? and `t`.`b` in (?, ?)") into a row predicate
+  const matcher = (condition: Parameters<typeof dialect.sqlToQuery>[0]) => {
+    const { sql, params } = dialect.sqlToQuery(condition);
+    let index = 0;
+    const expression = sql
+      .replace(/`\w+`\.`(\w+)`/g, "row.$1")
+      .replace(/\?/g, () => `p[${index++}]`)
+      .replace(/(row\.\w+) in \(([^)]*)\)/gi, "[$2].includes($1)")
+      .replace(/ = /g, " === ")
+      .replace(/ and /g, " && ")
+      .replace(/ or /g, " || ");
+    const predicate = new Function("row", "p", `return ${expression};`) as (row: Row, p: unknown[]) => boolean;
+    return (row: Row) => predicate(row, params);
+  };
+  const rowsOf = (table: Parameters<typeof getTableName>[0]) => tables.get(getTableName(table)) ?? [];
+
+  return {
+    drizzle: () => ({
+      delete: (table: Parameters<typeof getTableName>[0]) => ({
+        where: async (condition: Parameters<typeof matcher>[0]) => {
+          const matches = matcher(condition);
+          tables.set(getTableName(table), rowsOf(table).filter((row) => !matches(row)));
+        },
+      }),
+      select: (fields?: Record<string, { name: string }>) => ({
+        from: (table: Parameters<typeof getTableName>[0]) => ({
+          where: (condition: Parameters<typeof matcher>[0]) => {
+            const rows = rowsOf(table)
+              .filter(matcher(condition))
+              .map((row) =>
+                fields ? Object.fromEntries(Object.entries(fields).map(([key, column]) => [key, row[column.name]])) : row
+              );
+            return Object.assign(Promise.resolve(rows), { limit: async () => rows });
+          },
+        }),
+      }),
+    }),
+  };
+});
+
+const seed = (data: Record<string, Record<string, unknown>[]>) => {
+  tables.clear();
+  for (const [name, rows] of Object.entries(data)) tables.set(name, rows);
+};
+
+describe("User data deletion", () => {
+  beforeAll(() => {
+    process.env.DATABASE_URL = "mysql://test@localhost/test";
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    seed({
+      ridingRecords: [
+        { id: 1, recordId: "ride-1", userId: 7 },
+        { id: 2, recordId: "ride-2", userId: 8 },
+      ],
+      groupRideTracks: [
+        { id: 1, groupId: 3, recordId: "ride-1", userId: 7 },
+        { id: 2, groupId: 3, recordId: "ride-2", userId: 8 },
+      ],
+    });
+  });
+
+  it("should drop a deleted ride from the group replay", async () => {
+    const db = await import("../server/db");
+
+    await db.deleteRidingRecord("ride-1", 7);
+    expect(tables.get("ridingRecords")?.map((row) => row.recordId)).toEqual(["ride-2"]);
+    expect(tables.get("groupRideTracks")?.map((row) => row.recordId)).toEqual(["ride-2"]);
+  });
+
+  it("should only delete the caller's own ride and its segment efforts", async () => {
+    const db = await import("../server/db");
+    tables.set("segmentEfforts", [
+      { id: 1, ridingRecordId: 1, userId: 7 },
+      { id: 2, ridingRecordId: 2, userId: 8 },
+    ]);
+
+    expect(await db.deleteRidingRecord("ride-2", 7)).toBe(false);
+    expect(tables.get("ridingRecords")).toHaveLength(2);
+    expect(tables.get("segmentEfforts")).toHaveLength(2);
+
+    expect(await db.deleteRidingRecord("ride-1", 7)).toBe(true);
+    expect(tables.get("segmentEfforts")?.map((row) => row.id)).toEqual([2]);
+  });
+
+  it("should drop a deleted account's rides from group replays", async () => {
+    const db = await import("../server/db");
+
+    await db.deleteUserAccount(8);
+    expect(tables.get("groupRideTracks")?.map((row) => row.userId)).toEqual([7]);
+  });
+
+  it("should delete everything a deleted account left in the newer features", async () => {
+    const db = await import("../server/db");
+    // User 8 is deleted; user 7's rows stay unless they only exist because of user 8
+    seed({
+      privacyZones: [{ id: 1, userId: 8 }, { id: 2, userId: 7 }],
+      locationShareRules: [{ id: 1, userId: 8, friendId: 7 }, { id: 2, userId: 7, friendId: 8 }, { id: 3, userId: 7, friendId: 9 }],
+      locationShareLists: [{ id: 1, userId: 8 }, { id: 2, userId: 7 }],
+      locationShareListMembers: [{ id: 1, listId: 1, friendId: 7 }, { id: 2, listId: 2, friendId: 8 }, { id: 3, listId: 2, friendId: 9 }],
+      locationShareLinks: [{ id: 1, userId: 8 }, { id: 2, userId: 7 }],
+      locationViews: [{ id: 1, userId: 8, viewerId: 7 }, { id: 2, userId: 7, viewerId: 8 }, { id: 3, userId: 7, viewerId: 9 }],
+      emergencyContacts: [{ id: 1, userId: 8, contactUserId: 7 }, { id: 2, userId: 7, contactUserId: 8 }, { id: 3, userId: 7, contactUserId: 9 }],
+      segments: [{ id: 1, creatorId: 8 }, { id: 2, creatorId: 7 }],
+      segmentEfforts: [
+        { id: 1, segmentId: 2, userId: 8 },
+        { id: 2, segmentId: 1, userId: 7 },
+        { id: 3, segmentId: 2, userId: 7 },
+      ],
+      scheduledRides: [{ id: 1, hostId: 8 }, { id: 2, hostId: 7 }],
+      scheduledRideRsvps: [
+        { id: 1, rideId: 1, userId: 7 },
+        { id: 2, rideId: 2, userId: 8 },
+        { id: 3, rideId: 2, userId: 7 },
+      ],
+      consumptionModels: [{ id: 1, userId: 8 }, { id: 2, userId: 7 }],
+    });
+
+    await db.deleteUserAccount(8);
+
+    const remaining = (name: string) => tables.get(name)?.map((row) => row.id);
+    expect(remaining("privacyZones")).toEqual([2]);
+    expect(remaining("locationShareRules")).toEqual([3]);
+    expect(remaining("locationShareLists")).toEqual([2]);
+    expect(remaining("locationShareListMembers")).toEqual([3]);
+    expect(remaining("locationShareLinks")).toEqual([2]);
+    expect(remaining("locationViews")).toEqual([3]);
+    expect(remaining("emergencyContacts")).toEqual([3]);
+    // Off the leaderboards, along with the segments they created
+    expect(remaining("segments")).toEqual([2]);
+    expect(remaining("segmentEfforts")).toEqual([3]);
+    expect(remaining("scheduledRides")).toEqual([2]);
+    expect(remaining("scheduledRideRsvps")).toEqual([3]);
+    expect(remaining("consumptionModels")).toEqual([2]);
+  });
+});